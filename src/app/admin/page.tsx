@@ -10,6 +10,7 @@ interface Session {
   seniority: string;
   status: string;
   currentLevel: number;
+  enabledLevels: number[];
   createdAt: string;
   startedAt: string | null;
   completedAt: string | null;
@@ -52,12 +53,20 @@ export default function AdminDashboard() {
             <span className="text-gray-500">|</span>
             <span className="text-gray-400">Admin Dashboard</span>
           </div>
-          <Link
-            href="/admin/sessions/new"
-            className="px-4 py-2 bg-cyan-600 hover:bg-cyan-500 text-white rounded-lg transition-colors text-sm"
-          >
-            + New Session
-          </Link>
+          <div className="flex items-center gap-3">
+            <Link
+              href="/admin/recordings"
+              className="px-4 py-2 text-gray-300 hover:text-white transition-colors text-sm"
+            >
+              Play recording
+            </Link>
+            <Link
+              href="/admin/sessions/new"
+              className="px-4 py-2 bg-cyan-600 hover:bg-cyan-500 text-white rounded-lg transition-colors text-sm"
+            >
+              + New Session
+            </Link>
+          </div>
         </div>
       </header>
 
@@ -109,7 +118,7 @@ export default function AdminDashboard() {
                         {session.status}
                       </span>
                     </td>
-                    <td className="px-6 py-4">{session.currentLevel}/4</td>
+                    <td className="px-6 py-4">{session.currentLevel}/{Math.max(...session.enabledLevels)}</td>
                     <td className="px-6 py-4">
                       {session.integrityScore !== null ? (
                         <span className={session.integrityScore >= 80 ? 'text-green-400' : session.integrityScore >= 50 ? 'text-yellow-400' : 'text-red-400'}>
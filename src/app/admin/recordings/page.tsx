@@ -0,0 +1,82 @@
+'use client';
+
+import React, { useState } from 'react';
+import Link from 'next/link';
+import dynamic from 'next/dynamic';
+import { parseAsciicast, AsciicastHeader } from '@/lib/integrity/Asciicast';
+import type { SessionEvent } from '@/lib/integrity/KeystrokeRecorder';
+
+// Dynamic import to avoid SSR issues with xterm.js
+const ReplayTerminal = dynamic(
+  () => import('@/components/replay/ReplayTerminal').then(m => ({ default: m.ReplayTerminal })),
+  { ssr: false, loading: () => <div className="w-full h-full bg-[#1a1b26] flex items-center justify-center text-gray-500">Loading replay...</div> }
+);
+
+interface Recording {
+  name: string;
+  header: AsciicastHeader;
+  events: SessionEvent[];
+}
+
+/** Plays asciicast files recorded anywhere, e.g. exported sessions or sample solutions */
+export default function RecordingsPage() {
+  const [recording, setRecording] = useState<Recording | null>(null);
+  const [error, setError] = useState('');
+
+  const openFile = async (file: File) => {
+    try {
+      const { header, events } = parseAsciicast(await file.text());
+      setRecording({ name: file.name, header, events });
+      setError('');
+    } catch (err) {
+      setRecording(null);
+      setError(err instanceof Error ? err.message : 'Failed to read recording');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-[#1a1b26] text-gray-200">
+      <header className="border-b border-[#33467c] px-6 py-4">
+        <div className="max-w-7xl mx-auto flex items-center gap-4">
+          <Link href="/" className="text-cyan-400 font-bold text-xl">FleetCore</Link>
+          <span className="text-gray-500">|</span>
+          <Link href="/admin" className="text-gray-400 hover:text-gray-200">Admin Dashboard</Link>
+          <span className="text-gray-500">/</span>
+          <span className="text-white">Play recording</span>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-6 py-8 space-y-6">
+        <section className="bg-[#16161e] border border-[#33467c] rounded-lg px-6 py-4 space-y-2">
+          <label className="block text-sm text-gray-400">
+            Asciicast v2 file (.cast), such as a downloaded session or a sample solution
+          </label>
+          <input
+            type="file"
+            accept=".cast,application/x-asciicast"
+            onChange={e => {
+              const file = e.target.files?.[0];
+              if (file) openFile(file);
+            }}
+            className="text-sm text-gray-300 file:mr-4 file:px-3 file:py-1 file:rounded file:border-0 file:bg-[#33467c] file:text-gray-200 hover:file:bg-[#445588]"
+          />
+          {error && <div className="text-sm text-red-400">{error}</div>}
+        </section>
+
+        {recording && (
+          <section className="bg-[#16161e] border border-[#33467c] rounded-lg overflow-hidden">
+            <div className="px-6 py-4 border-b border-[#33467c] flex items-center justify-between">
+              <h2 className="text-lg font-semibold text-white">{recording.header.title || recording.name}</h2>
+              <span className="text-sm text-gray-500">
+                {recording.header.width}x{recording.header.height}, {recording.events.length} events
+              </span>
+            </div>
+            <div className="h-[520px]">
+              <ReplayTerminal events={recording.events} />
+            </div>
+          </section>
+        )}
+      </main>
+    </div>
+  );
+}
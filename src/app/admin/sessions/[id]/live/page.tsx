@@ -0,0 +1,433 @@
+'use client';
+
+import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
+import Link from 'next/link';
+import dynamic from 'next/dynamic';
+import type { Terminal } from '@xterm/xterm';
+import { ChatPanel, ChannelEvent } from '@/components/chat/ChatPanel';
+import { LiveSessionClient, InputRelay, isMessageEvent, loadInterviewerToken, saveInterviewerToken, sendSessionMessage } from '@/lib/realtime/LiveSessionClient';
+import type { SessionMessage } from '@/lib/sessions/messages';
+import { ChallengePack, EMPTY_PACK, getObjectivesForLevel, getObjectiveTitle } from '@/lib/challenges/ChallengePack';
+import type { Session, SessionStatus } from '@/lib/sessions/SessionStore';
+import { isCandidateEvent, isSessionEvent, SessionEvent } from '@/lib/integrity/KeystrokeRecorder';
+import type { Participant } from '@/lib/terminal/TerminalEngine';
+
+// Dynamic import to avoid SSR issues with xterm.js
+const TerminalView = dynamic(
+  () => import('@/components/terminal/TerminalView').then(m => ({ default: m.TerminalView })),
+  { ssr: false, loading: () => <div className="w-full h-full bg-[#1a1b26] flex items-center justify-center text-gray-500">Loading terminal...</div> }
+);
+
+interface PageProps {
+  params: Promise<{ id: string }>;
+}
+
+/** Where the mirror is in the candidate's input line */
+interface MirrorState {
+  needsPrompt: boolean;
+  typed: string;
+}
+
+type Alert = Extract<SessionEvent, { type: 'paste' | 'focus_change' | 'hint_used' }>;
+
+const MIRROR_PROMPT = '\x1b[32mcandidate\x1b[0m$ ';
+
+const EXTENSION_OPTIONS = [5, 15, 30];
+
+export default function LiveSessionPage({ params }: PageProps) {
+  const [sessionId, setSessionId] = useState('');
+  const [session, setSession] = useState<Session | null>(null);
+  const [pack, setPack] = useState<ChallengePack>(EMPTY_PACK);
+  const [status, setStatus] = useState<SessionStatus | null>(null);
+  const [events, setEvents] = useState<SessionEvent[]>([]);
+  const [connected, setConnected] = useState(false);
+  const [error, setError] = useState('');
+  const xtermRef = useRef<Terminal | null>(null);
+  const feedRef = useRef<SessionEvent[]>([]);
+  const renderedRef = useRef(0);
+  const mirrorRef = useRef<MirrorState>({ needsPrompt: true, typed: '' });
+  const relayRef = useRef<InputRelay | null>(null);
+  const drivingRef = useRef(false);
+  const tokenRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    params.then(p => setSessionId(p.id));
+  }, [params]);
+
+  /** Write any events the mirror hasn't shown yet */
+  const pump = useCallback(() => {
+    const xterm = xtermRef.current;
+    if (!xterm) return;
+    const feed = feedRef.current;
+    for (; renderedRef.current < feed.length; renderedRef.current++) {
+      mirrorEvent(xterm, feed[renderedRef.current], mirrorRef.current);
+    }
+  }, []);
+
+  const append = useCallback((incoming: SessionEvent[]) => {
+    if (incoming.length === 0) return;
+    feedRef.current.push(...incoming);
+    setEvents(prev => [...prev, ...incoming]);
+    pump();
+  }, [pump]);
+
+  useEffect(() => {
+    if (!sessionId) return;
+    // The interviewer link carries the token in its fragment, which never reaches the server
+    const fromLink = new URLSearchParams(window.location.hash.slice(1)).get('token');
+    if (fromLink) {
+      saveInterviewerToken(sessionId, fromLink);
+      history.replaceState(null, '', window.location.pathname);
+    }
+    tokenRef.current = loadInterviewerToken(sessionId);
+    if (!tokenRef.current) setError('Open this page from the interviewer link to chat, hint or take control');
+    relayRef.current = new InputRelay(sessionId, tokenRef.current, err => setError(err.message));
+  }, [sessionId]);
+
+  useEffect(() => {
+    if (!sessionId) return;
+
+    // Live events that arrive while the backlog loads are held back, then de-duplicated against it
+    let backlogLoaded = false;
+    let lastBacklogTimestamp = -Infinity;
+    const pending: SessionEvent[] = [];
+
+    const client = new LiveSessionClient(sessionId, (raw) => {
+      const message = raw as { type?: unknown; status?: unknown };
+      if (message.type === 'status') {
+        setStatus(message.status as SessionStatus);
+        return;
+      }
+      // Our own relayed keystrokes (not session events) come back as key events once the candidate's engine has run them
+      if (!isSessionEvent(raw) || raw.type === 'fs_changes') return;
+      if (!backlogLoaded) {
+        pending.push(raw);
+        return;
+      }
+      append([raw]);
+    }, {
+      onConnect: () => setConnected(true),
+      onDisconnect: () => setConnected(false),
+    });
+    client.connect();
+
+    (async () => {
+      try {
+        const base = `/api/sessions/${encodeURIComponent(sessionId)}`;
+        const sessionRes = await fetch(base);
+        if (!sessionRes.ok) throw new Error((await sessionRes.json()).error || 'Failed to load session');
+        const loaded: Session = (await sessionRes.json()).data;
+        setSession(loaded);
+        setStatus(prev => prev ?? loaded.status);
+
+        const packRes = await fetch(`/api/challenges/${encodeURIComponent(loaded.challengePack)}`);
+        if (packRes.ok) setPack((await packRes.json()).data);
+
+        const eventsRes = await fetch(`${base}/events`);
+        const backlog: SessionEvent[] = eventsRes.ok
+          ? ((await eventsRes.json()).data as SessionEvent[]).filter(e => e.type !== 'fs_changes')
+          : [];
+        lastBacklogTimestamp = backlog.length > 0 ? backlog[backlog.length - 1].timestamp : -Infinity;
+        append(backlog);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load session');
+      } finally {
+        backlogLoaded = true;
+        append(pending.filter(e => e.timestamp > lastBacklogTimestamp));
+      }
+    })();
+
+    return () => client.disconnect();
+  }, [sessionId, append]);
+
+  const onTerminalReady = useCallback((xterm: Terminal) => {
+    xtermRef.current = xterm;
+    renderedRef.current = 0;
+    mirrorRef.current = { needsPrompt: true, typed: '' };
+    xterm.options.disableStdin = !drivingRef.current;
+    xterm.onData(data => {
+      if (drivingRef.current) relayRef.current?.send(data);
+    });
+    pump();
+  }, [pump]);
+
+  const level = useMemo(() => {
+    const advances = events.filter(e => e.type === 'level_advance');
+    return advances.length > 0 ? advances[advances.length - 1].level : session?.currentLevel ?? 1;
+  }, [events, session]);
+
+  const completedObjectives = useMemo(() => new Set(events
+    .filter(e => e.type === 'objective_complete')
+    .map(e => e.objectiveId)), [events]);
+
+  const objectiveIds = session ? getObjectivesForLevel(pack, level, session.seniority).ids : [];
+  const commands = useMemo(() => events.filter(e => e.type === 'command'), [events]);
+  const alerts = useMemo(() => events.filter((e): e is Alert =>
+    (e.type === 'paste' && isCandidateEvent(e)) || e.type === 'hint_used' || (e.type === 'focus_change' && !e.focused)
+  ), [events]);
+  const messages = useMemo(() => events.filter(isMessageEvent) as ChannelEvent[], [events]);
+
+  const paused = useMemo(() => {
+    const pauses = events.filter(e => e.type === 'pause');
+    return pauses.length > 0 ? pauses[pauses.length - 1].paused : Boolean(session?.pausedAt);
+  }, [events, session]);
+
+  const driver = useMemo<Participant>(() => {
+    const changes = events.filter(e => e.type === 'driver_change');
+    return changes.length > 0 ? changes[changes.length - 1].driver : session?.driver ?? 'candidate';
+  }, [events, session]);
+
+  // Typing into the mirror only goes anywhere while we're driving
+  useEffect(() => {
+    const driving = driver === 'interviewer';
+    drivingRef.current = driving;
+    const xterm = xtermRef.current;
+    if (!xterm) return;
+    xterm.options.disableStdin = !driving;
+    xterm.options.cursorBlink = driving;
+    if (driving) xterm.focus();
+  }, [driver]);
+
+  const send = useCallback(async (message: SessionMessage) => {
+    try {
+      setError('');
+      await sendSessionMessage(sessionId, message, tokenRef.current);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send');
+    }
+  }, [sessionId]);
+
+  if (error && !session) {
+    return (
+      <div className="min-h-screen bg-[#1a1b26] flex flex-col items-center justify-center gap-3 text-gray-400">
+        <div>{error}</div>
+        <Link href="/admin" className="text-cyan-400 hover:underline">Back to dashboard</Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-screen flex flex-col bg-[#1a1b26] text-gray-200">
+      <header className="border-b border-[#33467c] px-6 py-3 flex items-center justify-between">
+        <div className="flex items-center gap-4">
+          <Link href="/" className="text-cyan-400 font-bold text-xl">FleetCore</Link>
+          <span className="text-gray-500">|</span>
+          <Link href="/admin" className="text-gray-400 hover:text-gray-200">Admin Dashboard</Link>
+          <span className="text-gray-500">/</span>
+          <span className="text-white">{session?.candidateName ?? 'Loading...'}</span>
+          <span className="text-gray-500">/</span>
+          <span className="text-gray-400">Live</span>
+        </div>
+        <div className="flex items-center gap-4 text-sm">
+          <span className={`flex items-center gap-2 ${connected ? 'text-green-400' : 'text-gray-500'}`}>
+            <span className={`w-2 h-2 rounded-full ${connected ? 'bg-green-400 animate-pulse' : 'bg-gray-500'}`} />
+            {connected ? 'Connected' : 'Reconnecting...'}
+          </span>
+          {status && <span className="text-gray-400 capitalize">{status}</span>}
+          {session?.pairProgramming && (
+            <span className={driver === 'interviewer' ? 'text-purple-400' : 'text-gray-400'}>
+              Driver: {driver === 'interviewer' ? 'You' : 'Candidate'}
+            </span>
+          )}
+          {session && (
+            <Link href={`/admin/sessions/${session.id}`} className="text-cyan-400 hover:underline">Review</Link>
+          )}
+        </div>
+      </header>
+
+      <div className="flex-1 flex overflow-hidden">
+        <div className="flex-1 overflow-hidden">
+          <TerminalView readOnly onTerminalReady={onTerminalReady} />
+        </div>
+
+        <aside className="w-80 border-l border-[#33467c] bg-[#16161e] flex flex-col text-sm">
+          <div className="flex-1 overflow-y-auto">
+            <section className="px-4 py-3 border-b border-[#33467c]">
+              <div className="text-gray-400">Level</div>
+              <div className="text-yellow-400 font-semibold">
+                {level}{session ? `/${Math.max(...session.enabledLevels)}` : ''} {pack.levels[level]?.title}
+              </div>
+              <div className="mt-3 text-gray-400">
+                Objectives {objectiveIds.filter(id => completedObjectives.has(id)).length}/{objectiveIds.length}
+              </div>
+              <ul className="mt-1 space-y-1">
+                {objectiveIds.map(id => (
+                  <li key={id} className={completedObjectives.has(id) ? 'text-green-400' : 'text-gray-500'}>
+                    {completedObjectives.has(id) ? '✓' : '○'} {getObjectiveTitle(pack, id) ?? id}
+                  </li>
+                ))}
+              </ul>
+            </section>
+
+            <section className="px-4 py-3 border-b border-[#33467c]">
+              <div className="text-gray-400 mb-1">Alerts ({alerts.length})</div>
+              {alerts.length === 0 ? (
+                <div className="text-gray-500">None</div>
+              ) : (
+                <ul className="space-y-1">
+                  {alerts.slice().reverse().map((alert, index) => (
+                    <li key={index} className="flex gap-2">
+                      <span className="text-gray-500 tabular-nums">{formatClock(alert.timestamp)}</span>
+                      <AlertLabel alert={alert} />
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+
+            <section className="px-4 py-3">
+              <div className="text-gray-400 mb-1">Commands ({commands.length})</div>
+              <ol className="space-y-1 font-mono text-xs">
+                {commands.slice().reverse().map((command, index) => (
+                  <li key={index} className="flex gap-2">
+                    <span className="text-gray-500 tabular-nums">{formatClock(command.timestamp)}</span>
+                    <span className={`break-all ${command.exitCode === 0 ? 'text-gray-200' : 'text-red-400'}`}>{command.raw}</span>
+                  </li>
+                ))}
+              </ol>
+            </section>
+          </div>
+
+          <InterviewerControls
+            paused={paused}
+            active={status === 'active'}
+            driver={session?.pairProgramming ? driver : null}
+            error={error}
+            onSend={send}
+          />
+          <div className="h-72 border-t border-[#33467c]">
+            <ChatPanel
+              messages={messages}
+              viewer="interviewer"
+              onSend={text => send({ type: 'chat', from: 'interviewer', text })}
+            />
+          </div>
+        </aside>
+      </div>
+    </div>
+  );
+}
+
+function InterviewerControls({ paused, active, driver, error, onSend }: {
+  paused: boolean;
+  active: boolean;
+  /** Null unless the session is a pair-programming round */
+  driver: Participant | null;
+  error: string;
+  onSend: (message: SessionMessage) => Promise<void>;
+}) {
+  const [hint, setHint] = useState('');
+
+  async function sendHint(e: React.FormEvent) {
+    e.preventDefault();
+    if (!hint.trim()) return;
+    await onSend({ type: 'hint', text: hint.trim() });
+    setHint('');
+  }
+
+  return (
+    <section className="px-4 py-3 border-t border-[#33467c] space-y-2">
+      <form onSubmit={sendHint} className="flex gap-2">
+        <input
+          value={hint}
+          onChange={e => setHint(e.target.value)}
+          placeholder="Push a hint..."
+          className="flex-1 px-3 py-1.5 bg-[#1a1b26] border border-[#33467c] rounded text-gray-200 focus:outline-none focus:border-yellow-500"
+        />
+        <button
+          type="submit"
+          disabled={!hint.trim()}
+          className="px-3 py-1.5 bg-yellow-600/20 text-yellow-400 rounded hover:bg-yellow-600/30 disabled:opacity-50"
+        >
+          Hint
+        </button>
+      </form>
+      <div className="flex items-center gap-2">
+        <span className="text-gray-400">Time</span>
+        {EXTENSION_OPTIONS.map(minutes => (
+          <button
+            key={minutes}
+            onClick={() => onSend({ type: 'extend_time', minutes })}
+            className="px-2 py-1 bg-green-600/20 text-green-400 rounded text-xs hover:bg-green-600/30"
+          >
+            +{minutes}m
+          </button>
+        ))}
+        <button
+          onClick={() => onSend({ type: paused ? 'resume' : 'pause' })}
+          disabled={!active}
+          className="ml-auto px-3 py-1 bg-[#33467c] text-white rounded text-xs hover:bg-[#445588] disabled:opacity-50"
+        >
+          {paused ? 'Resume' : 'Pause'}
+        </button>
+      </div>
+      {driver && (
+        <button
+          onClick={() => onSend({ type: 'control', driver: driver === 'interviewer' ? 'candidate' : 'interviewer' })}
+          disabled={!active}
+          className="w-full px-3 py-1.5 bg-purple-600/20 text-purple-300 rounded hover:bg-purple-600/30 disabled:opacity-50"
+        >
+          {driver === 'interviewer' ? 'Hand control back to the candidate' : 'Take control of the terminal'}
+        </button>
+      )}
+      {error && <div className="text-red-400 text-xs">{error}</div>}
+    </section>
+  );
+}
+
+/** Echo one recorded event into the read-only mirror */
+function mirrorEvent(xterm: Terminal, event: SessionEvent, state: MirrorState): void {
+  const startLine = () => {
+    if (!state.needsPrompt) return;
+    xterm.write(MIRROR_PROMPT);
+    state.needsPrompt = false;
+  };
+
+  switch (event.type) {
+    case 'key':
+      startLine();
+      if (event.key === '\x7f' || event.key === '\b') {
+        xterm.write('\b \b');
+        state.typed = state.typed.slice(0, -1);
+      } else {
+        xterm.write(event.key);
+        state.typed += event.key;
+      }
+      break;
+    case 'paste':
+      startLine();
+      xterm.write(event.content.replace(/\r?\n/g, '\r\n'));
+      state.typed += event.content;
+      break;
+    case 'command':
+      // Commands recalled from history arrive without keystrokes, so show them whole
+      if (!state.typed) {
+        startLine();
+        xterm.write(event.raw.replace(/\n/g, '\r\n'));
+      }
+      xterm.write('\r\n');
+      state.typed = '';
+      state.needsPrompt = true;
+      break;
+    case 'output':
+      xterm.write(event.content.replace(/\r?\n/g, '\r\n') + '\r\n');
+      break;
+  }
+}
+
+function AlertLabel({ alert }: { alert: Alert }) {
+  switch (alert.type) {
+    case 'paste':
+      return <span className="text-red-400">Pasted {alert.content.length} chars</span>;
+    case 'focus_change':
+      return <span className="text-yellow-400">Left the tab</span>;
+    case 'hint_used':
+      return alert.from === 'interviewer'
+        ? <span className="text-purple-400">Hint sent by interviewer</span>
+        : <span className="text-purple-400">Used hint {alert.hintId}</span>;
+  }
+}
+
+function formatClock(timestamp: number): string {
+  return new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+}
@@ -0,0 +1,434 @@
+'use client';
+
+import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
+import Link from 'next/link';
+import dynamic from 'next/dynamic';
+import { ChallengePack, EMPTY_PACK, findHint, getObjectiveTitle } from '@/lib/challenges/ChallengePack';
+import type { Session, StoredEvent } from '@/lib/sessions/SessionStore';
+import type { IntegrityReport, FlagSeverity } from '@/lib/integrity/IntegrityScorer';
+import type { SessionEvent } from '@/lib/integrity/KeystrokeRecorder';
+import type { SessionReplay, ReplaySetup, ReplayState } from '@/lib/integrity/SessionReplay';
+import type { FileChange, FSNodeJSON } from '@/lib/terminal/VirtualFileSystem';
+import { ChatPanel, ChannelEvent } from '@/components/chat/ChatPanel';
+import { isMessageEvent } from '@/lib/realtime/LiveSessionClient';
+
+// Dynamic import to avoid SSR issues with xterm.js
+const ReplayTerminal = dynamic(
+  () => import('@/components/replay/ReplayTerminal').then(m => ({ default: m.ReplayTerminal })),
+  { ssr: false, loading: () => <div className="w-full h-full bg-[#1a1b26] flex items-center justify-center text-gray-500">Loading replay...</div> }
+);
+
+interface PageProps {
+  params: Promise<{ id: string }>;
+}
+
+type MilestoneEvent = Extract<SessionEvent, { type: 'objective_complete' | 'level_advance' | 'hint_used' }>;
+
+const severityColor: Record<FlagSeverity, string> = {
+  high: 'bg-red-500/20 text-red-400',
+  medium: 'bg-yellow-500/20 text-yellow-400',
+  low: 'bg-gray-500/20 text-gray-300',
+};
+
+const statusColor: Record<string, string> = {
+  pending: 'bg-yellow-500/20 text-yellow-400',
+  active: 'bg-green-500/20 text-green-400',
+  completed: 'bg-blue-500/20 text-blue-400',
+  expired: 'bg-red-500/20 text-red-400',
+};
+
+/** Flags list at most this many jump links before summarising the rest */
+const MAX_OCCURRENCE_LINKS = 5;
+
+export default function SessionReviewPage({ params }: PageProps) {
+  const [sessionId, setSessionId] = useState('');
+  const [session, setSession] = useState<Session | null>(null);
+  const [events, setEvents] = useState<StoredEvent[]>([]);
+  const [report, setReport] = useState<IntegrityReport | null>(null);
+  const [filesystem, setFilesystem] = useState<Record<string, FSNodeJSON> | undefined>(undefined);
+  const [pack, setPack] = useState<ChallengePack>(EMPTY_PACK);
+  const [replayFiles, setReplayFiles] = useState<{ changes: FileChange[]; offset: number } | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const replayRef = useRef<SessionReplay | null>(null);
+
+  useEffect(() => {
+    params.then(p => setSessionId(p.id));
+  }, [params]);
+
+  useEffect(() => {
+    if (!sessionId) return;
+    loadReview(sessionId)
+      .then(review => {
+        setSession(review.session);
+        setEvents(review.events);
+        setReport(review.report);
+        setFilesystem(review.filesystem);
+        setPack(review.pack);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load session'))
+      .finally(() => setLoading(false));
+  }, [sessionId]);
+
+  // Everything the replay understands, in time order; snapshots are only used for the diff
+  const replayEvents = useMemo(() => events
+    .filter(e => e.type !== 'fs_changes')
+    .sort((a, b) => a.timestamp - b.timestamp), [events]);
+  const baseTime = replayEvents[0]?.timestamp ?? 0;
+
+  const milestones = useMemo(() => replayEvents.filter((e): e is MilestoneEvent =>
+    e.type === 'objective_complete' || e.type === 'level_advance' || e.type === 'hint_used'
+  ), [replayEvents]);
+
+  const fileChanges = useMemo(() => {
+    const snapshots = events.filter((e): e is Extract<SessionEvent, { type: 'fs_changes' }> => e.type === 'fs_changes');
+    return snapshots.length > 0 ? snapshots[snapshots.length - 1].changes : null;
+  }, [events]);
+
+  // The candidate's terminal as it was configured, so the replay can re-run their input against it
+  const replaySetup = useMemo<ReplaySetup | undefined>(() => session ? {
+    seniority: session.seniority,
+    challenge: { enabledLevels: session.enabledLevels, hintPolicy: session.hintPolicy, maxHints: session.maxHints },
+    pack,
+    filesystem,
+    seed: session.id,
+  } : undefined, [session, pack, filesystem]);
+
+  const messages = useMemo(() => replayEvents.filter(isMessageEvent) as ChannelEvent[], [replayEvents]);
+  const commands = replayEvents.filter(e => e.type === 'command');
+  const failedCommands = commands.filter(e => e.exitCode !== 0).length;
+
+  const onReplayReady = useCallback((replay: SessionReplay) => {
+    replayRef.current = replay;
+  }, []);
+
+  // While paused mid-session, show the files as they were at that point rather than at the end
+  const onReplayStateChange = useCallback((state: ReplayState) => {
+    if (!state.ready || state.isPlaying) return;
+    if (state.currentIndex >= state.events.length) {
+      setReplayFiles(null);
+      return;
+    }
+    setReplayFiles({
+      changes: replayRef.current?.getFileChangesAt(state.currentIndex) ?? [],
+      offset: state.elapsedTime,
+    });
+  }, []);
+
+  const jumpTo = useCallback((timestamp: number) => {
+    replayRef.current?.pause();
+    replayRef.current?.seekToTime(timestamp - baseTime);
+  }, [baseTime]);
+
+  const shownChanges = replayFiles ? replayFiles.changes : fileChanges;
+
+  if (loading) {
+    return <div className="min-h-screen bg-[#1a1b26] flex items-center justify-center text-gray-500">Loading session...</div>;
+  }
+
+  if (!session) {
+    return (
+      <div className="min-h-screen bg-[#1a1b26] flex flex-col items-center justify-center gap-3 text-gray-400">
+        <div>{error || 'Session not found'}</div>
+        <Link href="/admin" className="text-cyan-400 hover:underline">Back to dashboard</Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-[#1a1b26] text-gray-200">
+      <header className="border-b border-[#33467c] px-6 py-4">
+        <div className="max-w-7xl mx-auto flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Link href="/" className="text-cyan-400 font-bold text-xl">FleetCore</Link>
+            <span className="text-gray-500">|</span>
+            <Link href="/admin" className="text-gray-400 hover:text-gray-200">Admin Dashboard</Link>
+            <span className="text-gray-500">/</span>
+            <span className="text-white">{session.candidateName}</span>
+            <span className={`px-2 py-1 rounded-full text-xs ${statusColor[session.status] || 'text-gray-400'}`}>
+              {session.status}
+            </span>
+          </div>
+          <div className="flex items-center gap-3">
+            <a
+              href={`/admin/sessions/${encodeURIComponent(session.id)}/report`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="px-3 py-1 bg-[#33467c] text-gray-200 rounded text-sm hover:bg-[#445588]"
+              title="Open the printable report; print it to save a PDF"
+            >
+              View report
+            </a>
+            <a
+              href={`/admin/sessions/${encodeURIComponent(session.id)}/report?download=1`}
+              download
+              className="px-3 py-1 bg-cyan-600 text-white rounded text-sm hover:bg-cyan-500"
+            >
+              Download report
+            </a>
+            {replayEvents.length > 0 && (
+              <a
+                href={`/api/sessions/${encodeURIComponent(session.id)}/cast`}
+                download
+                className="px-3 py-1 bg-[#33467c] text-gray-200 rounded text-sm hover:bg-[#445588]"
+                title="Download the recording as an asciinema .cast file"
+              >
+                Download .cast
+              </a>
+            )}
+            {session.status === 'active' && (
+              <Link
+                href={`/admin/sessions/${session.id}/live`}
+                className="px-3 py-1 bg-green-600/20 text-green-400 rounded text-sm hover:bg-green-600/30"
+              >
+                Watch live
+              </Link>
+            )}
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-6 py-8 space-y-6">
+        <div className="grid grid-cols-5 gap-4">
+          <StatCard label="Candidate" value={session.candidateEmail} small />
+          <StatCard label="Seniority" value={session.seniority} capitalize />
+          <StatCard label="Level reached" value={`${session.currentLevel}/${Math.max(...session.enabledLevels)}`} />
+          <StatCard label="Commands" value={`${commands.length} (${failedCommands} failed)`} />
+          <StatCard
+            label="Integrity"
+            value={report ? `${report.score}/100` : '--'}
+            color={report ? scoreColor(report.score) : 'text-gray-500'}
+          />
+        </div>
+
+        <div className="grid grid-cols-3 gap-6">
+          <section className="col-span-2 bg-[#16161e] border border-[#33467c] rounded-lg overflow-hidden">
+            <div className="px-6 py-4 border-b border-[#33467c] flex items-center justify-between">
+              <h2 className="text-lg font-semibold text-white">Replay</h2>
+              <span className="text-sm text-gray-500">{replayEvents.length} events</span>
+            </div>
+            {replayEvents.length === 0 ? (
+              <div className="px-6 py-12 text-center text-gray-500">No activity recorded yet.</div>
+            ) : (
+              <div className="h-[520px]">
+                <ReplayTerminal
+                  events={replayEvents}
+                  setup={replaySetup}
+                  onStateChange={onReplayStateChange}
+                  onReplayReady={onReplayReady}
+                />
+              </div>
+            )}
+          </section>
+
+          <section className="bg-[#16161e] border border-[#33467c] rounded-lg overflow-hidden">
+            <div className="px-6 py-4 border-b border-[#33467c]">
+              <h2 className="text-lg font-semibold text-white">Integrity</h2>
+            </div>
+            {report ? (
+              <div className="px-6 py-4 space-y-4 text-sm">
+                <p className="text-gray-300">{report.summary}</p>
+                <dl className="grid grid-cols-2 gap-y-1 text-gray-400">
+                  <dt>Pastes</dt><dd className="text-right text-gray-200">{report.pasteCount} ({report.totalPastedChars} chars)</dd>
+                  <dt>Tab-aways</dt><dd className="text-right text-gray-200">{report.tabAwayCount}</dd>
+                  <dt>Hints used</dt><dd className="text-right text-gray-200">{report.hintsUsed}</dd>
+                  <dt>Keystrokes</dt><dd className="text-right text-gray-200">{report.totalKeystrokes}</dd>
+                  <dt>Average WPM</dt><dd className="text-right text-gray-200">{report.patterns.averageWPM}</dd>
+                </dl>
+                {report.flags.length === 0 ? (
+                  <div className="text-green-400">No flags raised.</div>
+                ) : (
+                  <ul className="space-y-3">
+                    {report.flags.map(flag => (
+                      <li key={flag.type} className="border-t border-[#33467c] pt-3">
+                        <div className="flex items-center justify-between">
+                          <span className={`px-2 py-0.5 rounded-full text-xs ${severityColor[flag.severity]}`}>
+                            {flag.severity}
+                          </span>
+                          <span className="text-gray-500">-{flag.deduction}</span>
+                        </div>
+                        <div className="mt-1 text-gray-200">{flag.description}</div>
+                        {flag.occurrences && (
+                          <div className="mt-1 flex flex-wrap gap-2">
+                            {flag.occurrences.slice(0, MAX_OCCURRENCE_LINKS).map(timestamp => (
+                              <JumpLink key={timestamp} offset={timestamp - baseTime} onClick={() => jumpTo(timestamp)} />
+                            ))}
+                            {flag.occurrences.length > MAX_OCCURRENCE_LINKS && (
+                              <span className="text-gray-500">+{flag.occurrences.length - MAX_OCCURRENCE_LINKS} more</span>
+                            )}
+                          </div>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            ) : (
+              <div className="px-6 py-12 text-center text-gray-500">No report available.</div>
+            )}
+          </section>
+        </div>
+
+        <section className="bg-[#16161e] border border-[#33467c] rounded-lg overflow-hidden">
+          <div className="px-6 py-4 border-b border-[#33467c]">
+            <h2 className="text-lg font-semibold text-white">Objective timeline</h2>
+          </div>
+          {milestones.length === 0 ? (
+            <div className="px-6 py-8 text-center text-gray-500">No objectives completed.</div>
+          ) : (
+            <ol className="px-6 py-4 space-y-2 text-sm">
+              {milestones.map((event, index) => (
+                <li key={index} className="flex items-center gap-4">
+                  <JumpLink offset={event.timestamp - baseTime} onClick={() => jumpTo(event.timestamp)} />
+                  <MilestoneLabel event={event} pack={pack} />
+                </li>
+              ))}
+            </ol>
+          )}
+        </section>
+
+        {messages.length > 0 && (
+          <section className="bg-[#16161e] border border-[#33467c] rounded-lg overflow-hidden h-80">
+            <ChatPanel messages={messages} viewer="interviewer" title="Interviewer chat" />
+          </section>
+        )}
+
+        <section className="bg-[#16161e] border border-[#33467c] rounded-lg overflow-hidden">
+          <div className="px-6 py-4 border-b border-[#33467c] flex items-center justify-between">
+            <h2 className="text-lg font-semibold text-white">Filesystem changes</h2>
+            {replayFiles && (
+              <span className="text-sm text-gray-500">As of {formatOffset(replayFiles.offset)} in the replay</span>
+            )}
+          </div>
+          {!shownChanges || shownChanges.length === 0 ? (
+            <div className="px-6 py-8 text-center text-gray-500">No files changed.</div>
+          ) : (
+            <div className="divide-y divide-[#33467c]">
+              {shownChanges.map(change => <FileChangeView key={change.path} change={change} />)}
+            </div>
+          )}
+        </section>
+      </main>
+    </div>
+  );
+}
+
+async function loadReview(sessionId: string): Promise<{
+  session: Session;
+  events: StoredEvent[];
+  report: IntegrityReport | null;
+  filesystem?: Record<string, FSNodeJSON>;
+  pack: ChallengePack;
+}> {
+  const base = `/api/sessions/${encodeURIComponent(sessionId)}`;
+  const [sessionRes, eventsRes, reportRes] = await Promise.all([
+    fetch(base),
+    fetch(`${base}/events`),
+    fetch(`${base}/report`),
+  ]);
+  if (!sessionRes.ok) {
+    throw new Error((await sessionRes.json()).error || 'Failed to load session');
+  }
+  const session: Session = (await sessionRes.json()).data;
+  // The scenario and pack the session was created with; without them the replay runs against the defaults
+  const [filesystemRes, packRes] = await Promise.all([
+    fetch(`/api/filesystem?session=${encodeURIComponent(session.id)}`),
+    fetch(`/api/challenges/${encodeURIComponent(session.challengePack)}`),
+  ]);
+  return {
+    session,
+    events: eventsRes.ok ? (await eventsRes.json()).data : [],
+    report: reportRes.ok ? (await reportRes.json()).data : null,
+    filesystem: filesystemRes.ok ? await filesystemRes.json() : undefined,
+    pack: packRes.ok ? (await packRes.json()).data : EMPTY_PACK,
+  };
+}
+
+function formatOffset(ms: number): string {
+  const s = Math.max(0, Math.floor(ms / 1000));
+  return `${Math.floor(s / 60)}:${(s % 60).toString().padStart(2, '0')}`;
+}
+
+function scoreColor(score: number): string {
+  return score >= 80 ? 'text-green-400' : score >= 50 ? 'text-yellow-400' : 'text-red-400';
+}
+
+function JumpLink({ offset, onClick }: { offset: number; onClick: () => void }) {
+  return (
+    <button
+      onClick={onClick}
+      className="px-2 py-0.5 bg-cyan-600/20 text-cyan-400 rounded text-xs tabular-nums hover:bg-cyan-600/30"
+      title="Jump to this point in the replay"
+    >
+      {formatOffset(offset)}
+    </button>
+  );
+}
+
+function MilestoneLabel({ event, pack }: { event: MilestoneEvent; pack: ChallengePack }) {
+  switch (event.type) {
+    case 'objective_complete':
+      return <span className="text-green-400">✓ {getObjectiveTitle(pack, event.objectiveId) ?? event.objectiveId}</span>;
+    case 'level_advance':
+      return <span className="text-purple-400">Advanced to level {event.level}: {pack.levels[event.level]?.title}</span>;
+    case 'hint_used': {
+      if (event.from === 'interviewer') {
+        return <span className="text-yellow-400">Hint from interviewer: {event.text}</span>;
+      }
+      const hint = findHint(pack, event.hintId);
+      return <span className="text-yellow-400">Hint: {hint?.text ?? event.hintId}</span>;
+    }
+  }
+}
+
+function FileChangeView({ change }: { change: FileChange }) {
+  const badge: Record<FileChange['status'], string> = {
+    added: 'bg-green-500/20 text-green-400',
+    modified: 'bg-yellow-500/20 text-yellow-400',
+    deleted: 'bg-red-500/20 text-red-400',
+  };
+
+  return (
+    <div className="px-6 py-4">
+      <div className="flex items-center gap-3 text-sm">
+        <span className={`px-2 py-0.5 rounded-full text-xs ${badge[change.status]}`}>{change.status}</span>
+        <span className="font-mono text-white">{change.path}{change.type === 'directory' ? '/' : ''}</span>
+      </div>
+      {change.metadata && (
+        <ul className="mt-2 text-xs font-mono text-gray-400">
+          {change.metadata.map(line => <li key={line}>{line}</li>)}
+        </ul>
+      )}
+      {change.diff && (
+        <pre className="mt-2 p-3 bg-[#1a1b26] rounded text-xs font-mono overflow-x-auto">
+          {change.diff.split('\n').map((line, index) => (
+            <div key={index} className={diffLineColor(line)}>{line || ' '}</div>
+          ))}
+        </pre>
+      )}
+    </div>
+  );
+}
+
+function diffLineColor(line: string): string {
+  if (line.startsWith('@@')) return 'text-cyan-400';
+  if (line.startsWith('+++') || line.startsWith('---')) return 'text-gray-500';
+  if (line.startsWith('+')) return 'text-green-400';
+  if (line.startsWith('-')) return 'text-red-400';
+  return 'text-gray-300';
+}
+
+function StatCard({ label, value, color = 'text-white', small = false, capitalize = false }: {
+  label: string;
+  value: string;
+  color?: string;
+  small?: boolean;
+  capitalize?: boolean;
+}) {
+  return (
+    <div className="bg-[#16161e] border border-[#33467c] rounded-lg p-4">
+      <div className="text-sm text-gray-400">{label}</div>
+      <div className={`${small ? 'text-sm mt-2 truncate' : 'text-2xl'} font-bold ${color} ${capitalize ? 'capitalize' : ''}`}>{value}</div>
+    </div>
+  );
+}
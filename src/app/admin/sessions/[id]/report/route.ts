@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { getSessionStore } from '@/lib/sessions/SessionStore';
+import { errorResponse } from '@/lib/sessions/responses';
+import { buildCandidateReport, renderCandidateReportHtml } from '@/lib/sessions/CandidateReport';
+import { loadChallengePack } from '@/lib/challenges/ChallengeLibrary';
+import { EMPTY_PACK } from '@/lib/challenges/ChallengePack';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/** Printable write-up of the session; `?download=1` saves it as a file instead of opening it */
+export async function GET(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  try {
+    const store = getSessionStore();
+    const session = await store.get(id);
+    if (!session) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
+    const pack = (await loadChallengePack(session.challengePack)) ?? EMPTY_PACK;
+    const html = renderCandidateReportHtml(buildCandidateReport(session, pack, await store.getEvents(id)));
+    const download = new URL(request.url).searchParams.has('download');
+    return new NextResponse(html, {
+      headers: {
+        'Content-Type': 'text/html; charset=utf-8',
+        ...(download ? { 'Content-Disposition': `attachment; filename="report-${session.id}.html"` } : {}),
+      },
+    });
+  } catch (err) {
+    return errorResponse(err, 'Failed to build candidate report');
+  }
+}
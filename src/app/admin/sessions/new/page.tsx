@@ -0,0 +1,481 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { DEFAULT_CHALLENGE_PACK, SENIORITY_ORDER } from '@/lib/challenges/ChallengePack';
+import { DEFAULT_CHALLENGE_CONFIG, HintPolicy } from '@/lib/terminal/CommandContext';
+import type { CreatedSession, Seniority } from '@/lib/sessions/SessionStore';
+import { saveInterviewerToken } from '@/lib/realtime/LiveSessionClient';
+import type { ChallengePackSummary } from '@/lib/challenges/ChallengeLibrary';
+
+interface Scenario {
+  id: string;
+  description: string;
+}
+
+interface WizardForm {
+  candidateName: string;
+  candidateEmail: string;
+  seniority: Seniority;
+  challengePack: string;
+  enabledLevels: number[];
+  hintPolicy: HintPolicy;
+  maxHints: string;
+  scenario: string;
+  timeLimitMinutes: string;
+  expiresInHours: string;
+  pairProgramming: boolean;
+}
+
+const STEPS = ['Candidate', 'Challenge', 'Environment', 'Review'];
+
+const HINT_POLICY_LABELS: Record<HintPolicy, string> = {
+  seniority: 'By seniority (fewer hints for senior candidates)',
+  all: 'All hints available',
+  none: 'No hints',
+};
+
+export default function NewSessionWizard() {
+  const [step, setStep] = useState(0);
+  const [form, setForm] = useState<WizardForm>({
+    candidateName: '',
+    candidateEmail: '',
+    seniority: 'mid',
+    challengePack: DEFAULT_CHALLENGE_PACK,
+    enabledLevels: [],
+    hintPolicy: DEFAULT_CHALLENGE_CONFIG.hintPolicy,
+    maxHints: '',
+    scenario: 'base-filesystem',
+    timeLimitMinutes: '90',
+    expiresInHours: '72',
+    pairProgramming: false,
+  });
+  const [scenarios, setScenarios] = useState<Scenario[]>([]);
+  const [packs, setPacks] = useState<ChallengePackSummary[]>([]);
+  const [error, setError] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [created, setCreated] = useState<CreatedSession | null>(null);
+
+  useEffect(() => {
+    fetchScenarios();
+    fetchPacks();
+  }, []);
+
+  async function fetchPacks() {
+    try {
+      const res = await fetch('/api/challenges');
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || 'Failed to load challenge packs');
+        return;
+      }
+      setPacks(data.data || []);
+      const initial = (data.data as ChallengePackSummary[]).find(p => p.id === DEFAULT_CHALLENGE_PACK) ?? data.data[0];
+      if (initial) setForm(prev => ({ ...prev, ...packDefaults(initial) }));
+    } catch {
+      console.error('Failed to fetch challenge packs');
+    }
+  }
+
+  async function fetchScenarios() {
+    try {
+      const res = await fetch('/api/scenarios');
+      const data = await res.json();
+      setScenarios(data.data || []);
+    } catch {
+      console.error('Failed to fetch scenarios');
+    }
+  }
+
+  const selectedPack = packs.find(p => p.id === form.challengePack);
+  // Only scenarios with the project the pack's objectives look for
+  const packScenarios = scenarios.filter(s => selectedPack?.scenarios.includes(s.id));
+
+  function update<K extends keyof WizardForm>(key: K, value: WizardForm[K]) {
+    setForm(prev => ({ ...prev, [key]: value }));
+  }
+
+  /** A pack brings its own levels and filesystem; choosing one starts from all of them */
+  function choosePack(id: string) {
+    const pack = packs.find(p => p.id === id);
+    if (pack) setForm(prev => ({ ...prev, ...packDefaults(pack) }));
+  }
+
+  function toggleLevel(level: number) {
+    const enabled = form.enabledLevels.includes(level)
+      ? form.enabledLevels.filter(l => l !== level)
+      : [...form.enabledLevels, level].sort((a, b) => a - b);
+    update('enabledLevels', enabled);
+  }
+
+  /** Problems that keep the current step from advancing */
+  function stepError(index: number): string {
+    switch (index) {
+      case 0:
+        if (!form.candidateName.trim()) return 'Candidate name is required';
+        if (!/^[^\s@]+@[^\s@]+$/.test(form.candidateEmail.trim())) return 'A valid candidate email is required';
+        return '';
+      case 1:
+        if (form.enabledLevels.length === 0) return 'Enable at least one level';
+        if (form.maxHints !== '' && !/^\d+$/.test(form.maxHints)) return 'Max hints must be a whole number';
+        return '';
+      case 2:
+        if (!/^[1-9]\d*$/.test(form.timeLimitMinutes)) return 'Time limit must be a positive number of minutes';
+        if (!/^[1-9]\d*$/.test(form.expiresInHours)) return 'Link expiry must be a positive number of hours';
+        return '';
+      default:
+        return '';
+    }
+  }
+
+  function next() {
+    const problem = stepError(step);
+    setError(problem);
+    if (!problem) setStep(step + 1);
+  }
+
+  async function submit() {
+    setSubmitting(true);
+    setError('');
+    try {
+      const res = await fetch('/api/sessions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          candidateName: form.candidateName.trim(),
+          candidateEmail: form.candidateEmail.trim(),
+          seniority: form.seniority,
+          challengePack: form.challengePack,
+          enabledLevels: form.enabledLevels,
+          hintPolicy: form.hintPolicy,
+          maxHints: form.hintPolicy === 'none' || form.maxHints === '' ? null : Number(form.maxHints),
+          scenario: form.scenario,
+          timeLimitMinutes: Number(form.timeLimitMinutes),
+          expiresInHours: Number(form.expiresInHours),
+          pairProgramming: form.pairProgramming,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || 'Failed to create session');
+        return;
+      }
+      saveInterviewerToken(data.data.id, data.data.interviewerToken);
+      setCreated(data.data);
+    } catch {
+      setError('Failed to create session');
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-[#1a1b26] text-gray-200">
+      <header className="border-b border-[#33467c] px-6 py-4">
+        <div className="max-w-3xl mx-auto flex items-center gap-4">
+          <Link href="/" className="text-cyan-400 font-bold text-xl">FleetCore</Link>
+          <span className="text-gray-500">|</span>
+          <Link href="/admin" className="text-gray-400 hover:text-gray-200">Admin Dashboard</Link>
+          <span className="text-gray-500">/</span>
+          <span className="text-gray-400">New Session</span>
+        </div>
+      </header>
+
+      <main className="max-w-3xl mx-auto px-6 py-8">
+        {created ? (
+          <CandidateLink session={created} />
+        ) : (
+          <>
+            <ol className="flex gap-2 mb-6 text-sm">
+              {STEPS.map((label, index) => (
+                <li
+                  key={label}
+                  className={`flex-1 px-3 py-2 rounded border ${
+                    index === step
+                      ? 'border-cyan-500 text-cyan-400'
+                      : index < step
+                        ? 'border-[#33467c] text-gray-300'
+                        : 'border-[#33467c] text-gray-500'
+                  }`}
+                >
+                  {index + 1}. {label}
+                </li>
+              ))}
+            </ol>
+
+            <div className="bg-[#16161e] border border-[#33467c] rounded-lg p-6 space-y-5">
+              {step === 0 && (
+                <>
+                  <Field label="Candidate name">
+                    <input
+                      className={inputClass}
+                      value={form.candidateName}
+                      onChange={e => update('candidateName', e.target.value)}
+                      placeholder="Ada Lovelace"
+                    />
+                  </Field>
+                  <Field label="Candidate email">
+                    <input
+                      type="email"
+                      className={inputClass}
+                      value={form.candidateEmail}
+                      onChange={e => update('candidateEmail', e.target.value)}
+                      placeholder="ada@example.com"
+                    />
+                  </Field>
+                </>
+              )}
+
+              {step === 1 && (
+                <>
+                  <Field label="Challenge">
+                    <select
+                      className={inputClass}
+                      value={form.challengePack}
+                      onChange={e => choosePack(e.target.value)}
+                    >
+                      {packs.length === 0 && <option value={form.challengePack}>{form.challengePack}</option>}
+                      {packs.map(p => (
+                        <option key={p.id} value={p.id}>{p.title}</option>
+                      ))}
+                    </select>
+                    <p className="mt-1 text-sm text-gray-500">{selectedPack?.description}</p>
+                  </Field>
+                  <Field label="Seniority" hint="Controls which objectives are required and how many hints are offered">
+                    <select
+                      className={inputClass}
+                      value={form.seniority}
+                      onChange={e => update('seniority', e.target.value as Seniority)}
+                    >
+                      {SENIORITY_ORDER.map(s => (
+                        <option key={s} value={s} className="capitalize">{s}</option>
+                      ))}
+                    </select>
+                  </Field>
+                  <Field label="Levels">
+                    <div className="space-y-2">
+                      {selectedPack?.levels.map(level => (
+                        <label key={level.level} className="flex items-start gap-3 cursor-pointer">
+                          <input
+                            type="checkbox"
+                            className="mt-1"
+                            checked={form.enabledLevels.includes(level.level)}
+                            onChange={() => toggleLevel(level.level)}
+                          />
+                          <span>
+                            <span className="text-white">Level {level.level}: {level.title}</span>
+                            <span className="block text-sm text-gray-500">{level.description}</span>
+                          </span>
+                        </label>
+                      ))}
+                    </div>
+                  </Field>
+                  <Field label="Hint policy">
+                    <select
+                      className={inputClass}
+                      value={form.hintPolicy}
+                      onChange={e => update('hintPolicy', e.target.value as HintPolicy)}
+                    >
+                      {(Object.keys(HINT_POLICY_LABELS) as HintPolicy[]).map(policy => (
+                        <option key={policy} value={policy}>{HINT_POLICY_LABELS[policy]}</option>
+                      ))}
+                    </select>
+                  </Field>
+                  {form.hintPolicy !== 'none' && (
+                    <Field label="Max hints per level" hint="Leave empty for no extra cap">
+                      <input
+                        className={inputClass}
+                        inputMode="numeric"
+                        value={form.maxHints}
+                        onChange={e => update('maxHints', e.target.value)}
+                      />
+                    </Field>
+                  )}
+                </>
+              )}
+
+              {step === 2 && (
+                <>
+                  <Field label="Filesystem scenario">
+                    <select
+                      className={inputClass}
+                      value={form.scenario}
+                      onChange={e => update('scenario', e.target.value)}
+                    >
+                      {packScenarios.length === 0 && <option value={form.scenario}>{form.scenario}</option>}
+                      {packScenarios.map(s => (
+                        <option key={s.id} value={s.id}>{s.id}</option>
+                      ))}
+                    </select>
+                    <p className="mt-1 text-sm text-gray-500">
+                      {scenarios.find(s => s.id === form.scenario)?.description}
+                    </p>
+                  </Field>
+                  <Field label="Time limit (minutes)">
+                    <input
+                      className={inputClass}
+                      inputMode="numeric"
+                      value={form.timeLimitMinutes}
+                      onChange={e => update('timeLimitMinutes', e.target.value)}
+                    />
+                  </Field>
+                  <Field label="Link expires after (hours)" hint="The candidate must start before the link expires">
+                    <input
+                      className={inputClass}
+                      inputMode="numeric"
+                      value={form.expiresInHours}
+                      onChange={e => update('expiresInHours', e.target.value)}
+                    />
+                  </Field>
+                  <Field label="Round type">
+                    <label className="flex items-start gap-3 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        className="mt-1"
+                        checked={form.pairProgramming}
+                        onChange={e => update('pairProgramming', e.target.checked)}
+                      />
+                      <span>
+                        <span className="text-white">Pair programming</span>
+                        <span className="block text-sm text-gray-500">
+                          Take control of the candidate terminal from the live view. Your keystrokes are left out of integrity scoring.
+                        </span>
+                      </span>
+                    </label>
+                  </Field>
+                </>
+              )}
+
+              {step === 3 && (
+                <dl className="grid grid-cols-3 gap-y-3 text-sm">
+                  <ReviewRow label="Candidate" value={`${form.candidateName.trim()} <${form.candidateEmail.trim()}>`} />
+                  <ReviewRow label="Seniority" value={form.seniority} />
+                  <ReviewRow label="Challenge" value={selectedPack?.title ?? form.challengePack} />
+                  <ReviewRow
+                    label="Levels"
+                    value={form.enabledLevels
+                      .map(l => `${l}. ${selectedPack?.levels.find(level => level.level === l)?.title ?? ''}`)
+                      .join(', ')}
+                  />
+                  <ReviewRow
+                    label="Hints"
+                    value={form.hintPolicy === 'none'
+                      ? 'None'
+                      : `${form.hintPolicy === 'all' ? 'All' : 'By seniority'}${form.maxHints ? `, at most ${form.maxHints} per level` : ''}`}
+                  />
+                  <ReviewRow label="Scenario" value={form.scenario} />
+                  <ReviewRow label="Time limit" value={`${form.timeLimitMinutes} minutes`} />
+                  <ReviewRow label="Link expiry" value={`${form.expiresInHours} hours`} />
+                  <ReviewRow label="Round type" value={form.pairProgramming ? 'Pair programming' : 'Solo'} />
+                </dl>
+              )}
+
+              {error && <div className="text-sm text-red-400">{error}</div>}
+
+              <div className="flex justify-between pt-2">
+                <button
+                  type="button"
+                  onClick={() => { setError(''); setStep(step - 1); }}
+                  disabled={step === 0}
+                  className="px-4 py-2 border border-[#33467c] rounded-lg text-sm text-gray-300 hover:bg-[#1e1f2e] disabled:opacity-40"
+                >
+                  Back
+                </button>
+                {step < STEPS.length - 1 ? (
+                  <button
+                    type="button"
+                    onClick={next}
+                    className="px-4 py-2 bg-cyan-600 hover:bg-cyan-500 text-white rounded-lg transition-colors text-sm"
+                  >
+                    Next
+                  </button>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={submit}
+                    disabled={submitting}
+                    className="px-4 py-2 bg-cyan-600 hover:bg-cyan-500 text-white rounded-lg transition-colors text-sm disabled:opacity-50"
+                  >
+                    {submitting ? 'Creating...' : 'Create Session'}
+                  </button>
+                )}
+              </div>
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
+
+function packDefaults(pack: ChallengePackSummary): Pick<WizardForm, 'challengePack' | 'enabledLevels' | 'scenario'> {
+  return { challengePack: pack.id, enabledLevels: pack.levels.map(l => l.level), scenario: pack.filesystem };
+}
+
+const inputClass = 'w-full px-3 py-2 bg-[#1a1b26] border border-[#33467c] rounded text-gray-200 focus:outline-none focus:border-cyan-500';
+
+function Field({ label, hint, children }: { label: string; hint?: string; children: React.ReactNode }) {
+  return (
+    <div>
+      <div className="text-sm text-gray-400 mb-1">{label}</div>
+      {children}
+      {hint && <div className="mt-1 text-xs text-gray-500">{hint}</div>}
+    </div>
+  );
+}
+
+function ReviewRow({ label, value }: { label: string; value: string }) {
+  return (
+    <>
+      <dt className="text-gray-400">{label}</dt>
+      <dd className="col-span-2 text-white">{value}</dd>
+    </>
+  );
+}
+
+function CandidateLink({ session }: { session: CreatedSession }) {
+  const link = `${window.location.origin}/session/${session.id}`;
+  const interviewerLink = `${window.location.origin}/admin/sessions/${session.id}/live#token=${session.interviewerToken}`;
+
+  return (
+    <div className="bg-[#16161e] border border-[#33467c] rounded-lg p-6 space-y-4">
+      <h2 className="text-lg font-semibold text-white">Session created</h2>
+      <p className="text-gray-400 text-sm">
+        Send this link to {session.candidateName}. It expires {new Date(session.expiresAt).toLocaleString()}.
+      </p>
+      <CopyField value={link} />
+      <p className="text-gray-400 text-sm">
+        Keep this one for the interviewers: chat, hints, pausing and taking control need it.
+        This browser remembers it already.
+      </p>
+      <CopyField value={interviewerLink} />
+      <div className="flex gap-4 text-sm">
+        <Link href="/admin" className="text-cyan-400 hover:underline">Back to dashboard</Link>
+        <Link href={`/admin/sessions/${session.id}`} className="text-cyan-400 hover:underline">View session</Link>
+      </div>
+    </div>
+  );
+}
+
+function CopyField({ value }: { value: string }) {
+  const [copied, setCopied] = useState(false);
+
+  async function copy() {
+    await navigator.clipboard.writeText(value);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  }
+
+  return (
+    <div className="flex gap-2">
+      <input readOnly value={value} className={inputClass} onFocus={e => e.target.select()} />
+      <button
+        type="button"
+        onClick={copy}
+        className="px-4 py-2 bg-cyan-600 hover:bg-cyan-500 text-white rounded-lg transition-colors text-sm"
+      >
+        {copied ? 'Copied' : 'Copy'}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { loadChallengePack } from '@/lib/challenges/ChallengeLibrary';
+import { ChallengePackError } from '@/lib/challenges/ChallengePack';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  try {
+    const pack = await loadChallengePack(id);
+    if (!pack) {
+      return NextResponse.json({ error: `Unknown challenge pack: ${id}` }, { status: 404 });
+    }
+    return NextResponse.json({ data: pack });
+  } catch (err) {
+    if (err instanceof ChallengePackError) {
+      return NextResponse.json({ error: `Invalid challenge pack: ${err.message}` }, { status: 500 });
+    }
+    console.error('Failed to load challenge pack:', err);
+    return NextResponse.json({ error: 'Failed to load challenge pack' }, { status: 500 });
+  }
+}
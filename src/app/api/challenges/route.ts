@@ -0,0 +1,15 @@
+import { NextResponse } from 'next/server';
+import { listChallengePacks } from '@/lib/challenges/ChallengeLibrary';
+import { ChallengePackError } from '@/lib/challenges/ChallengePack';
+
+export async function GET() {
+  try {
+    return NextResponse.json({ data: await listChallengePacks() });
+  } catch (err) {
+    if (err instanceof ChallengePackError) {
+      return NextResponse.json({ error: `Invalid challenge pack: ${err.message}` }, { status: 500 });
+    }
+    console.error('Failed to list challenge packs:', err);
+    return NextResponse.json({ error: 'Failed to list challenge packs' }, { status: 500 });
+  }
+}
@@ -1,15 +1,36 @@
 import { NextResponse } from 'next/server';
-import fs from 'fs';
-import path from 'path';
-import yaml from 'js-yaml';
+import { DEFAULT_SCENARIO, loadScenario, ScenarioContext, ScenarioError } from '@/lib/scenarios/ScenarioLibrary';
+import { getSessionStore } from '@/lib/sessions/SessionStore';
 
-export async function GET() {
+/**
+ * A scenario's filesystem by `?scenario=<id>`, or the one a session was
+ * created with by `?session=<id>`, rendered for that candidate and seeded
+ * with the session id so every load (including the replay) is identical.
+ */
+export async function GET(request: Request) {
+  const params = new URL(request.url).searchParams;
+  let scenario = params.get('scenario') || DEFAULT_SCENARIO;
+  let context: ScenarioContext = {};
   try {
-    const fsPath = path.join(process.cwd(), 'data', 'filesystems', 'base-filesystem.yaml');
-    const content = fs.readFileSync(fsPath, 'utf-8');
-    const parsed = yaml.load(content) as Record<string, unknown>;
+    const sessionId = params.get('session');
+    if (sessionId) {
+      const session = await getSessionStore().get(sessionId);
+      if (!session) {
+        return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+      }
+      scenario = session.scenario;
+      context = { candidateName: session.candidateName, seed: session.id };
+    }
+
+    const parsed = await loadScenario(scenario, context);
+    if (!parsed) {
+      return NextResponse.json({ error: `Unknown scenario: ${scenario}` }, { status: 404 });
+    }
     return NextResponse.json(parsed);
   } catch (err) {
+    if (err instanceof ScenarioError) {
+      return NextResponse.json({ error: `Invalid scenario: ${err.message}` }, { status: 500 });
+    }
     console.error('Failed to load filesystem:', err);
     return NextResponse.json(
       { error: 'Failed to load filesystem' },
@@ -0,0 +1,11 @@
+import { NextResponse } from 'next/server';
+import { listScenarios } from '@/lib/scenarios/ScenarioLibrary';
+
+export async function GET() {
+  try {
+    return NextResponse.json({ data: await listScenarios() });
+  } catch (err) {
+    console.error('Failed to list scenarios:', err);
+    return NextResponse.json({ error: 'Failed to list scenarios' }, { status: 500 });
+  }
+}
@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server';
+import { getSessionStore } from '@/lib/sessions/SessionStore';
+import { errorResponse } from '@/lib/sessions/responses';
+import { loadScenario } from '@/lib/scenarios/ScenarioLibrary';
+import { loadChallengePack } from '@/lib/challenges/ChallengeLibrary';
+import { SessionReplay, ReplayScreen } from '@/lib/integrity/SessionReplay';
+import { toAsciicast } from '@/lib/integrity/Asciicast';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/** The replay only needs somewhere to draw when it's being watched */
+const NO_SCREEN: ReplayScreen = { reset() {}, write() {} };
+
+/** The session's recording as an asciicast v2 download, re-run the same way the review page replays it */
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  try {
+    const store = getSessionStore();
+    const session = await store.get(id);
+    if (!session) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
+    const pack = (await loadChallengePack(session.challengePack)) ?? undefined;
+    const events = (await store.getEvents(id)).filter(e => e.type !== 'fs_changes');
+    const replay = new SessionReplay(events, NO_SCREEN, {
+      seniority: session.seniority,
+      challenge: { enabledLevels: session.enabledLevels, hintPolicy: session.hintPolicy, maxHints: session.maxHints },
+      pack,
+      filesystem: (await loadScenario(session.scenario, { candidateName: session.candidateName, seed: session.id })) ?? undefined,
+      seed: session.id,
+    });
+    await replay.prepare();
+
+    const cast = toAsciicast(replay.getState().events, replay.getOutputChunks(), `${session.candidateName} (${session.seniority})`, pack);
+    return new NextResponse(cast, {
+      headers: {
+        'Content-Type': 'application/x-asciicast',
+        'Content-Disposition': `attachment; filename="session-${session.id}.cast"`,
+      },
+    });
+  } catch (err) {
+    return errorResponse(err, 'Failed to export recording');
+  }
+}
@@ -0,0 +1,64 @@
+import { NextResponse } from 'next/server';
+import { getSessionStore, isInterviewerEvent } from '@/lib/sessions/SessionStore';
+import { isSessionEvent, sessionEventProblem } from '@/lib/integrity/KeystrokeRecorder';
+import { errorResponse, readJsonBody } from '@/lib/sessions/responses';
+import { broadcastToSession } from '@/lib/realtime/EventBroadcaster';
+import { isMessageEvent } from '@/lib/realtime/LiveSessionClient';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/** Batches larger than this are rejected; clients flush every few seconds */
+const MAX_BATCH_SIZE = 5000;
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const query = new URL(request.url).searchParams;
+  const since = query.get('since');
+
+  try {
+    let events = await getSessionStore().getEvents(id, since ? Number(since) : undefined);
+    // The candidate's page only needs chat and interviewer actions, not the whole log
+    if (query.get('channel') === 'messages') events = events.filter(isMessageEvent);
+    return NextResponse.json({ data: events });
+  } catch (err) {
+    return errorResponse(err, 'Failed to load events');
+  }
+}
+
+export async function POST(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const body = await readJsonBody(request);
+  const events = body?.events;
+  if (!Array.isArray(events)) {
+    return NextResponse.json({ error: 'Expected { events: [...] }' }, { status: 400 });
+  }
+  if (events.length > MAX_BATCH_SIZE) {
+    return NextResponse.json({ error: `At most ${MAX_BATCH_SIZE} events per request` }, { status: 413 });
+  }
+  // Reports, replays and the live view all read these back, so each payload must have its type's shape
+  if (!events.every(isSessionEvent)) {
+    const index = events.findIndex(event => !isSessionEvent(event));
+    return NextResponse.json({ error: `events[${index}]: ${sessionEventProblem(events[index])}` }, { status: 400 });
+  }
+  if (events.some(isInterviewerEvent)) {
+    return NextResponse.json({ error: 'Interviewer events must be sent to /messages' }, { status: 403 });
+  }
+
+  try {
+    const store = getSessionStore();
+    const before = await store.get(id);
+    const session = await store.appendEvents(id, events);
+
+    if (before && before.status !== session.status) {
+      broadcastToSession(id, { type: 'status', status: session.status, timestamp: Date.now() });
+    }
+    for (const event of events) {
+      broadcastToSession(id, event);
+    }
+    return NextResponse.json({ data: { received: events.length, status: session.status } });
+  } catch (err) {
+    return errorResponse(err, 'Failed to record events');
+  }
+}
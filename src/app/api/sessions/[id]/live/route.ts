@@ -0,0 +1,79 @@
+import { NextResponse } from 'next/server';
+import { v4 as uuidv4 } from 'uuid';
+import { getSessionStore } from '@/lib/sessions/SessionStore';
+import { addSSEClient, removeSSEClient } from '@/lib/realtime/EventBroadcaster';
+import { isMessageEvent, TERMINAL_INPUT } from '@/lib/realtime/LiveSessionClient';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/** Comment lines keep proxies from closing an idle stream */
+const HEARTBEAT_MS = 15000;
+
+/**
+ * `?channel=messages` limits the stream to status changes, the message
+ * channel (chat, hints, time, pause, control) and relayed interviewer
+ * keystrokes; the candidate's page listens on it.
+ */
+function messagesOnly(event: unknown): boolean {
+  const e = event as { type?: unknown };
+  return e.type === 'status' || e.type === TERMINAL_INPUT || isMessageEvent(e);
+}
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const session = await getSessionStore().get(id);
+  if (!session) {
+    return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+  }
+
+  const channel = new URL(request.url).searchParams.get('channel');
+  const clientId = uuidv4();
+  const encoder = new TextEncoder();
+  let heartbeat: ReturnType<typeof setInterval> | undefined;
+
+  const cleanup = () => {
+    clearInterval(heartbeat);
+    removeSSEClient(id, clientId);
+  };
+
+  const stream = new ReadableStream({
+    start(controller) {
+      addSSEClient(id, clientId, controller, channel === 'messages' ? messagesOnly : undefined);
+      // Tell the viewer where the session stands before any live events arrive
+      const hello = { type: 'status', status: session.status, timestamp: Date.now() };
+      controller.enqueue(encoder.encode(`data: ${JSON.stringify(hello)}\n\n`));
+
+      heartbeat = setInterval(() => {
+        try {
+          controller.enqueue(encoder.encode(': heartbeat\n\n'));
+        } catch {
+          cleanup();
+        }
+      }, HEARTBEAT_MS);
+
+      request.signal.addEventListener('abort', () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      });
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
@@ -0,0 +1,64 @@
+import { NextResponse } from 'next/server';
+import { getSessionStore } from '@/lib/sessions/SessionStore';
+import { messageToEvent, requiresInterviewer } from '@/lib/sessions/messages';
+import { errorResponse, readJsonBody } from '@/lib/sessions/responses';
+import { broadcastToSession } from '@/lib/realtime/EventBroadcaster';
+import { INTERVIEWER_TOKEN_HEADER, TERMINAL_INPUT } from '@/lib/realtime/LiveSessionClient';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Chat, hints, time extensions, pause/resume and pair-programming control;
+ * recorded in the event log and pushed to both sides. Keystrokes from a
+ * driving interviewer are only relayed. Everything but the candidate's own
+ * chat and control requests needs the token issued when the session was created.
+ */
+export async function POST(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const body = await readJsonBody(request);
+  if (!body) {
+    return NextResponse.json({ error: 'Request body must be a JSON object' }, { status: 400 });
+  }
+
+  try {
+    const event = messageToEvent(body);
+    const store = getSessionStore();
+    const before = await store.get(id);
+    if (!before) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+    if (requiresInterviewer(event) && !await store.isInterviewer(id, request.headers.get(INTERVIEWER_TOKEN_HEADER))) {
+      return NextResponse.json({ error: 'Only the interviewer can send this message' }, { status: 403 });
+    }
+    if (event.type === 'pause' && before.status !== 'active') {
+      return NextResponse.json({ error: 'Only active sessions can be paused' }, { status: 409 });
+    }
+    if (event.type === 'driver_change' || event.type === TERMINAL_INPUT) {
+      if (!before.pairProgramming) {
+        return NextResponse.json({ error: 'Pair programming is not enabled for this session' }, { status: 409 });
+      }
+      if (before.status !== 'active') {
+        return NextResponse.json({ error: 'The session is not active' }, { status: 409 });
+      }
+    }
+    // Input arbitration: only the driver types, and the candidate types locally
+    if (event.type === TERMINAL_INPUT) {
+      if (before.driver !== 'interviewer') {
+        return NextResponse.json({ error: 'The candidate has control of the terminal' }, { status: 409 });
+      }
+      broadcastToSession(id, event);
+      return NextResponse.json({ data: { event } }, { status: 202 });
+    }
+
+    const session = await store.appendEvents(id, [event]);
+    if (before.status !== session.status) {
+      broadcastToSession(id, { type: 'status', status: session.status, timestamp: Date.now() });
+    }
+    broadcastToSession(id, event);
+    return NextResponse.json({ data: { event, session } }, { status: 201 });
+  } catch (err) {
+    return errorResponse(err, 'Failed to send message');
+  }
+}
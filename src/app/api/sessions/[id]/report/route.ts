@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { getSessionStore, buildIntegrityReport } from '@/lib/sessions/SessionStore';
+import { errorResponse } from '@/lib/sessions/responses';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/** Integrity report for the events recorded so far */
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  try {
+    const store = getSessionStore();
+    if (!(await store.get(id))) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+    const report = buildIntegrityReport(await store.getEvents(id));
+    return NextResponse.json({ data: report });
+  } catch (err) {
+    return errorResponse(err, 'Failed to build integrity report');
+  }
+}
@@ -0,0 +1,78 @@
+import { NextResponse } from 'next/server';
+import { getSessionStore, UpdateSessionInput } from '@/lib/sessions/SessionStore';
+import { errorResponse, readJsonBody } from '@/lib/sessions/responses';
+import { broadcastToSession } from '@/lib/realtime/EventBroadcaster';
+import { INTERVIEWER_TOKEN_HEADER } from '@/lib/realtime/LiveSessionClient';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const UPDATABLE_FIELDS = [
+  'candidateName', 'candidateEmail', 'seniority', 'status', 'currentLevel', 'timeLimitMinutes',
+  'enabledLevels', 'hintPolicy', 'maxHints', 'challengePack', 'scenario', 'pairProgramming',
+];
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  try {
+    const session = await getSessionStore().get(id);
+    if (!session) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+    return NextResponse.json({ data: session });
+  } catch (err) {
+    return errorResponse(err, 'Failed to load session');
+  }
+}
+
+/** Changing or deleting a session needs the token issued when it was created */
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const body = await readJsonBody(request);
+  if (!body) {
+    return NextResponse.json({ error: 'Request body must be a JSON object' }, { status: 400 });
+  }
+
+  const unknownFields = Object.keys(body).filter(key => !UPDATABLE_FIELDS.includes(key));
+  if (unknownFields.length > 0) {
+    return NextResponse.json({ error: `Cannot update: ${unknownFields.join(', ')}` }, { status: 400 });
+  }
+
+  try {
+    const store = getSessionStore();
+    const before = await store.get(id);
+    if (!before) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+    if (!await store.isInterviewer(id, request.headers.get(INTERVIEWER_TOKEN_HEADER))) {
+      return NextResponse.json({ error: 'Only the interviewer can change this session' }, { status: 403 });
+    }
+    const session = await store.update(id, body as UpdateSessionInput);
+    if (before.status !== session.status) {
+      broadcastToSession(id, { type: 'status', status: session.status, timestamp: Date.now() });
+    }
+    return NextResponse.json({ data: session });
+  } catch (err) {
+    return errorResponse(err, 'Failed to update session');
+  }
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  try {
+    const store = getSessionStore();
+    if (!(await store.get(id))) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+    if (!await store.isInterviewer(id, request.headers.get(INTERVIEWER_TOKEN_HEADER))) {
+      return NextResponse.json({ error: 'Only the interviewer can delete this session' }, { status: 403 });
+    }
+    if (!(await store.delete(id))) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+    return new NextResponse(null, { status: 204 });
+  } catch (err) {
+    return errorResponse(err, 'Failed to delete session');
+  }
+}
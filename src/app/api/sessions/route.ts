@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { getSessionStore, CreateSessionInput } from '@/lib/sessions/SessionStore';
+import { errorResponse, readJsonBody } from '@/lib/sessions/responses';
+
+export async function GET() {
+  try {
+    const sessions = await getSessionStore().list();
+    return NextResponse.json({ data: sessions });
+  } catch (err) {
+    return errorResponse(err, 'Failed to list sessions');
+  }
+}
+
+export async function POST(request: Request) {
+  const body = await readJsonBody(request);
+  if (!body) {
+    return NextResponse.json({ error: 'Request body must be a JSON object' }, { status: 400 });
+  }
+
+  try {
+    // The only response that carries the interviewer token
+    const session = await getSessionStore().create(body as unknown as CreateSessionInput);
+    return NextResponse.json({ data: session }, { status: 201 });
+  } catch (err) {
+    return errorResponse(err, 'Failed to create session');
+  }
+}
@@ -1,10 +1,17 @@
 'use client';
 
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import dynamic from 'next/dynamic';
 import { TerminalHeader } from '@/components/terminal/TerminalHeader';
-import type { TerminalEngine, TerminalEvent } from '@/lib/terminal/TerminalEngine';
+import { ChatPanel, ChannelEvent } from '@/components/chat/ChatPanel';
+import { useKeystrokeRecorder } from '@/hooks/useKeystrokeRecorder';
+import { useSessionMessages } from '@/hooks/useSessionMessages';
+import { sendSessionMessage } from '@/lib/realtime/LiveSessionClient';
+import type { TerminalEngine, Participant } from '@/lib/terminal/TerminalEngine';
 import type { FSNodeJSON } from '@/lib/terminal/VirtualFileSystem';
+import type { ChallengeConfig } from '@/lib/terminal/CommandContext';
+import { ChallengePack, DEFAULT_CHALLENGE_PACK, EMPTY_PACK, packLevels } from '@/lib/challenges/ChallengePack';
+import type { Session, SessionStatus } from '@/lib/sessions/SessionStore';
 
 // Dynamic import to avoid SSR issues with xterm.js
 const TerminalView = dynamic(
@@ -12,6 +19,10 @@ const TerminalView = dynamic(
   { ssr: false, loading: () => <div className="w-full h-full bg-[#1a1b26] flex items-center justify-center text-gray-500">Loading terminal...</div> }
 );
 
+const LIVE_FLUSH_INTERVAL_MS = 1000;
+/** While the interviewer drives, their typing only echoes back to them once it's flushed */
+const PAIR_FLUSH_INTERVAL_MS = 250;
+
 interface PageProps {
   params: Promise<{ sessionId: string }>;
 }
@@ -19,28 +30,127 @@ interface PageProps {
 export default function SessionPage({ params }: PageProps) {
   const [sessionId, setSessionId] = useState<string>('');
   const [filesystem, setFilesystem] = useState<Record<string, FSNodeJSON> | null>(null);
+  const [pack, setPack] = useState<ChallengePack>(EMPTY_PACK);
   const [loading, setLoading] = useState(true);
-  const [seniority] = useState<'junior' | 'mid' | 'senior' | 'lead' | 'principal'>('mid');
+  const [loadError, setLoadError] = useState('');
+  // null for sessions the server doesn't know about (e.g. the public demo), which run on defaults
+  const [session, setSession] = useState<Session | null>(null);
   const [level, setLevel] = useState(1);
   const [objectivesCompleted, setObjectivesCompleted] = useState(0);
   const [objectivesTotal, setObjectivesTotal] = useState(5);
-  const startTimeRef = useRef(Date.now());
+  const [startTime, setStartTime] = useState(() => Date.now());
   const engineRef = useRef<TerminalEngine | null>(null);
+  const pausedAtRef = useRef<number | null>(null);
+  const driverRef = useRef<Participant>('candidate');
+  // Challenge state already in the event log, so polling only records what changed
+  const recordedRef = useRef({ level: 0, hints: 0, changes: '[]' });
+  const driver = session?.driver ?? 'candidate';
+  // Only sessions created by an interviewer are recorded; frequent flushes keep live watchers current
+  const { recordTerminalEvent, getRecorder } = useKeystrokeRecorder({
+    sessionId,
+    enabled: session !== null,
+    flushInterval: driver === 'interviewer' ? PAIR_FLUSH_INTERVAL_MS : LIVE_FLUSH_INTERVAL_MS,
+  });
 
   // Resolve params
   useEffect(() => {
     params.then(p => setSessionId(p.sessionId));
   }, [params]);
 
-  // Load filesystem
+  // Load the session's configuration, then the challenge pack and filesystem scenario it was created with
   useEffect(() => {
     if (!sessionId) return;
-    loadFilesystem().then(fs => {
-      setFilesystem(fs);
+    (async () => {
+      const loaded = await loadSession(sessionId);
+      setSession(loaded);
+      if (loaded?.startedAt) setStartTime(new Date(loaded.startedAt).getTime());
+      if (loaded) {
+        setLevel(loaded.currentLevel);
+        recordedRef.current.level = loaded.currentLevel;
+      }
+      setPack(await loadPack(loaded?.challengePack ?? DEFAULT_CHALLENGE_PACK));
+      try {
+        setFilesystem(await loadFilesystem(loaded ? loaded.id : null));
+      } catch (err) {
+        setLoadError(err instanceof Error ? err.message : 'Failed to load filesystem');
+      }
       setLoading(false);
-    });
+    })();
+  }, [sessionId]);
+
+  const seniority = session?.seniority ?? 'mid';
+  // Keyed on the values so reloading the session (e.g. after a time extension) doesn't rebuild the terminal
+  const challengeKey = session ? JSON.stringify([session.enabledLevels, session.hintPolicy, session.maxHints]) : '';
+  const challenge = useMemo<Partial<ChallengeConfig>>(() => {
+    if (!challengeKey) return {};
+    const [enabledLevels, hintPolicy, maxHints] = JSON.parse(challengeKey);
+    return { enabledLevels, hintPolicy, maxHints };
+  }, [challengeKey]);
+  const maxLevel = Math.max(...(session?.enabledLevels ?? packLevels(pack)), 1);
+  const pausedAt = session?.pausedAt ? Date.parse(session.pausedAt) : null;
+
+  const refreshSession = useCallback(async () => {
+    const loaded = await loadSession(sessionId);
+    if (loaded) setSession(loaded);
   }, [sessionId]);
 
+  // Interviewer messages are shown in the terminal as well as the chat panel
+  const onMessage = useCallback((message: ChannelEvent) => {
+    const engine = engineRef.current;
+    switch (message.type) {
+      case 'chat':
+        if (message.from === 'interviewer') engine?.notify(`\x1b[1;35m[Interviewer]\x1b[0m ${message.text}`);
+        break;
+      case 'hint_used':
+        engine?.notify(`\x1b[1;33mHint from your interviewer:\x1b[0m ${message.text}`);
+        break;
+      case 'time_extended':
+        engine?.notify(`\x1b[32mYour interviewer added ${message.minutes} minutes.\x1b[0m`);
+        refreshSession();
+        break;
+      case 'pause':
+        refreshSession();
+        break;
+      case 'driver_change':
+        engine?.notify(message.driver === 'interviewer'
+          ? '\x1b[1;35mYour interviewer has taken control of the terminal.\x1b[0m'
+          : '\x1b[1;35mYou have control of the terminal.\x1b[0m');
+        setSession(prev => prev && { ...prev, driver: message.driver });
+        break;
+    }
+  }, [refreshSession]);
+
+  const onStatus = useCallback((status: SessionStatus) => {
+    setSession(prev => prev && prev.status !== status ? { ...prev, status } : prev);
+  }, []);
+
+  // Keystrokes from a driving interviewer run in this page's engine, which records them as theirs
+  const onInput = useCallback((data: string) => {
+    engineRef.current?.handleInput(data, 'interviewer');
+  }, []);
+
+  const { messages, send } = useSessionMessages({ sessionId, enabled: session !== null, onMessage, onStatus, onInput });
+
+  const takeControl = useCallback(async () => {
+    try {
+      await sendSessionMessage(sessionId, { type: 'control', driver: 'candidate' });
+    } catch (err) {
+      console.error('Failed to take control:', err);
+    }
+  }, [sessionId]);
+
+  // Only the driver's input reaches the engine
+  useEffect(() => {
+    driverRef.current = driver;
+    engineRef.current?.setDriver(driver);
+  }, [driver]);
+
+  // The engine ignores input while an interviewer has the session paused
+  useEffect(() => {
+    pausedAtRef.current = pausedAt;
+    engineRef.current?.setPaused(pausedAt !== null);
+  }, [pausedAt]);
+
   // Poll engine context for challenge state updates
   useEffect(() => {
     const interval = setInterval(() => {
@@ -51,28 +161,70 @@ export default function SessionPage({ params }: PageProps) {
       setLevel(ctx.challenge.currentLevel);
       setObjectivesCompleted(progress.completed);
       setObjectivesTotal(progress.total);
+
+      const recorded = recordedRef.current;
+      const recorder = getRecorder();
+      if (!recorder) return;
+      if (ctx.challenge.currentLevel !== recorded.level) {
+        recorder.recordLevelAdvance(ctx.challenge.currentLevel);
+        recorded.level = ctx.challenge.currentLevel;
+      }
+      for (const hintId of ctx.challenge.hintsUsed.slice(recorded.hints)) {
+        recorder.recordHintUsed(hintId);
+      }
+      recorded.hints = ctx.challenge.hintsUsed.length;
     }, 500);
     return () => clearInterval(interval);
-  }, []);
+  }, [getRecorder]);
 
-  const onEvent = useCallback((event: TerminalEvent) => {
-    // Flush events to server
-    if (sessionId) {
-      // Batch would be better, but for now send immediately on commands
-      if (event.type === 'command' || event.type === 'paste') {
-        fetch(`/api/sessions/${sessionId}/events`, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ events: [event] }),
-        }).catch(() => {});
-      }
-    }
-  }, [sessionId]);
+  // Snapshot the candidate's filesystem changes so reviewers can see what they wrote
+  useEffect(() => {
+    const interval = setInterval(() => {
+      const engine = engineRef.current;
+      const recorder = getRecorder();
+      if (!engine || !recorder) return;
+      const changes = engine.getChangeset() ?? [];
+      const serialized = JSON.stringify(changes);
+      if (serialized === recordedRef.current.changes) return;
+      recorder.recordFileChanges(changes);
+      recordedRef.current.changes = serialized;
+    }, 5000);
+    return () => clearInterval(interval);
+  }, [getRecorder]);
 
   const onEngineReady = useCallback((engine: TerminalEngine) => {
     engineRef.current = engine;
+    engine.setPaused(pausedAtRef.current !== null);
+    engine.setDriver(driverRef.current);
   }, []);
 
+  if (session && (session.status === 'completed' || session.status === 'expired')) {
+    return (
+      <div className="h-screen bg-[#1a1b26] flex items-center justify-center">
+        <div className="text-center">
+          <div className="text-cyan-400 text-2xl font-bold mb-2">FleetCore</div>
+          <div className="text-gray-400">
+            {session.status === 'completed'
+              ? 'This session has been completed. Thanks for taking part!'
+              : 'This interview link has expired. Please contact your recruiter for a new one.'}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (loadError) {
+    return (
+      <div className="h-screen bg-[#1a1b26] flex items-center justify-center">
+        <div className="text-center">
+          <div className="text-cyan-400 text-2xl font-bold mb-2">FleetCore</div>
+          <div className="text-red-400">The interview environment could not be loaded: {loadError}</div>
+          <div className="text-gray-500 mt-1">Please refresh the page or contact your recruiter.</div>
+        </div>
+      </div>
+    );
+  }
+
   if (loading || !filesystem) {
     return (
       <div className="h-screen bg-[#1a1b26] flex items-center justify-center">
@@ -88,67 +240,85 @@ export default function SessionPage({ params }: PageProps) {
     <div className="h-screen flex flex-col bg-[#1a1b26]">
       <TerminalHeader
         level={level}
-        maxLevel={4}
+        maxLevel={maxLevel}
         seniority={seniority}
-        startTime={startTimeRef.current}
+        startTime={startTime}
         objectivesCompleted={objectivesCompleted}
         objectivesTotal={objectivesTotal}
+        timeLimitMinutes={session?.timeLimitMinutes}
+        pausedMs={session?.pausedMs}
+        pausedAt={pausedAt}
       />
-      <div className="flex-1 overflow-hidden">
-        <TerminalView
-          filesystem={filesystem}
-          seniority={seniority}
-          onEvent={onEvent}
-          onEngineReady={onEngineReady}
-        />
+      {driver === 'interviewer' && (
+        <div className="px-4 py-1.5 bg-purple-500/10 border-b border-purple-500/30 flex items-center justify-between text-sm">
+          <span className="text-purple-300">Your interviewer is driving the terminal.</span>
+          <button
+            onClick={takeControl}
+            className="px-3 py-1 bg-purple-600/30 text-purple-200 rounded hover:bg-purple-600/50"
+          >
+            Take back control
+          </button>
+        </div>
+      )}
+      <div className="flex-1 flex overflow-hidden">
+        <div className="relative flex-1 overflow-hidden">
+          <TerminalView
+            filesystem={filesystem}
+            seniority={seniority}
+            challenge={challenge}
+            pack={pack}
+            onEvent={recordTerminalEvent}
+            onEngineReady={onEngineReady}
+            seed={session?.id}
+          />
+          {pausedAt !== null && (
+            <div className="absolute inset-0 bg-[#1a1b26]/80 flex items-center justify-center">
+              <div className="text-center">
+                <div className="text-yellow-400 text-xl font-bold mb-2">Session paused</div>
+                <div className="text-gray-400">Your interviewer has paused the session. The timer is stopped.</div>
+              </div>
+            </div>
+          )}
+        </div>
+        {session && (
+          <aside className="w-80 border-l border-[#33467c] bg-[#16161e]">
+            <ChatPanel messages={messages} viewer="candidate" onSend={send} title="Interviewer chat" />
+          </aside>
+        )}
       </div>
     </div>
   );
 }
 
-async function loadFilesystem(): Promise<Record<string, FSNodeJSON>> {
+async function loadSession(sessionId: string): Promise<Session | null> {
   try {
-    const res = await fetch('/api/filesystem');
+    const res = await fetch(`/api/sessions/${encodeURIComponent(sessionId)}`);
     if (res.ok) {
-      return res.json();
+      return (await res.json()).data;
     }
   } catch {
-    // Fall through to default
+    // Fall through to defaults
   }
+  return null;
+}
 
-  return getDefaultFilesystem();
+async function loadPack(id: string): Promise<ChallengePack> {
+  try {
+    const res = await fetch(`/api/challenges/${encodeURIComponent(id)}`);
+    if (res.ok) {
+      return (await res.json()).data;
+    }
+  } catch {
+    // Fall through to an empty pack
+  }
+  return EMPTY_PACK;
 }
 
-function getDefaultFilesystem(): Record<string, FSNodeJSON> {
-  return {
-    home: {
-      name: 'home',
-      type: 'directory',
-      children: {
-        candidate: {
-          name: 'candidate',
-          type: 'directory',
-          children: {},
-        },
-      },
-    },
-    opt: {
-      name: 'opt',
-      type: 'directory',
-      children: {
-        fleetcore: {
-          name: 'fleetcore',
-          type: 'directory',
-          children: {
-            'README.md': {
-              name: 'README.md',
-              type: 'file',
-              content: '# FleetCore\nFleet Management Platform\n',
-            },
-          },
-        },
-      },
-    },
-    tmp: { name: 'tmp', type: 'directory', children: {} },
-  };
+/** The session's own scenario, rendered for this candidate; the default scenario for the public demo */
+async function loadFilesystem(sessionId: string | null): Promise<Record<string, FSNodeJSON>> {
+  const query = sessionId ? `?session=${encodeURIComponent(sessionId)}` : '';
+  const res = await fetch(`/api/filesystem${query}`);
+  const body = await res.json();
+  if (!res.ok) throw new Error(body.error || 'Failed to load filesystem');
+  return body;
 }
@@ -0,0 +1,102 @@
+'use client';
+
+import React, { useState, useEffect, useRef } from 'react';
+import type { SessionEvent } from '@/lib/integrity/KeystrokeRecorder';
+
+/** Events carried by the interviewer/candidate message channel */
+export type ChannelEvent = Extract<SessionEvent, { type: 'chat' | 'time_extended' | 'pause' | 'hint_used' | 'driver_change' }>;
+
+interface ChatPanelProps {
+  messages: ChannelEvent[];
+  /** Whose side this panel is on; their own messages are aligned right */
+  viewer: 'interviewer' | 'candidate';
+  /** Omit for a read-only transcript */
+  onSend?: (text: string) => Promise<void>;
+  title?: string;
+}
+
+export function ChatPanel({ messages, viewer, onSend, title = 'Messages' }: ChatPanelProps) {
+  const [draft, setDraft] = useState('');
+  const [sending, setSending] = useState(false);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Keep the newest message in view
+  useEffect(() => {
+    listRef.current?.scrollTo({ top: listRef.current.scrollHeight });
+  }, [messages.length]);
+
+  async function send(e: React.FormEvent) {
+    e.preventDefault();
+    const text = draft.trim();
+    if (!text || !onSend) return;
+    setSending(true);
+    try {
+      await onSend(text);
+      setDraft('');
+    } finally {
+      setSending(false);
+    }
+  }
+
+  return (
+    <div className="flex flex-col h-full text-sm">
+      <div className="px-4 py-2 border-b border-[#33467c] text-gray-400">{title}</div>
+      <div ref={listRef} className="flex-1 overflow-y-auto px-4 py-3 space-y-2">
+        {messages.length === 0 && <div className="text-gray-500">No messages yet.</div>}
+        {messages.map((message, index) => <MessageLine key={index} message={message} viewer={viewer} />)}
+      </div>
+      {onSend && (
+        <form onSubmit={send} className="flex gap-2 px-4 py-3 border-t border-[#33467c]">
+          <input
+            value={draft}
+            onChange={e => setDraft(e.target.value)}
+            placeholder={viewer === 'interviewer' ? 'Message the candidate...' : 'Message your interviewer...'}
+            className="flex-1 px-3 py-1.5 bg-[#1a1b26] border border-[#33467c] rounded text-gray-200 focus:outline-none focus:border-cyan-500"
+          />
+          <button
+            type="submit"
+            disabled={sending || !draft.trim()}
+            className="px-3 py-1.5 bg-cyan-600 hover:bg-cyan-500 text-white rounded transition-colors disabled:opacity-50"
+          >
+            Send
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
+
+function MessageLine({ message, viewer }: { message: ChannelEvent; viewer: 'interviewer' | 'candidate' }) {
+  const time = new Date(message.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+  switch (message.type) {
+    case 'chat': {
+      const own = message.from === viewer;
+      return (
+        <div className={`flex flex-col ${own ? 'items-end' : 'items-start'}`}>
+          <div className={`max-w-[85%] px-3 py-1.5 rounded-lg whitespace-pre-wrap break-words ${own ? 'bg-cyan-600/30 text-gray-100' : 'bg-[#1e1f2e] text-gray-200'}`}>
+            {message.text}
+          </div>
+          <span className="text-xs text-gray-500">{own ? 'You' : message.from === 'interviewer' ? 'Interviewer' : 'Candidate'} · {time}</span>
+        </div>
+      );
+    }
+    case 'hint_used':
+      return (
+        <div className="px-3 py-1.5 rounded-lg bg-yellow-500/10 text-yellow-300">
+          <div className="text-xs text-yellow-500">Hint from interviewer · {time}</div>
+          {message.text}
+        </div>
+      );
+    case 'time_extended':
+      return <div className="text-center text-xs text-green-400">Time extended by {message.minutes} min · {time}</div>;
+    case 'pause':
+      return <div className="text-center text-xs text-gray-400">Session {message.paused ? 'paused' : 'resumed'} · {time}</div>;
+    case 'driver_change':
+      return (
+        <div className="text-center text-xs text-purple-400">
+          {message.driver === 'interviewer' ? 'Interviewer took control of the terminal' : 'Candidate has control of the terminal'} · {time}
+        </div>
+      );
+  }
+}
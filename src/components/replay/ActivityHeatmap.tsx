@@ -0,0 +1,55 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import type { SessionEvent } from '@/lib/integrity/KeystrokeRecorder';
+
+interface ActivityHeatmapProps {
+  events: SessionEvent[];
+  onSeek: (index: number) => void;
+  buckets?: number;
+}
+
+/** What counts as the candidate doing something; typing shows up as key events in every recording */
+const ACTIVITY_TYPES = new Set<SessionEvent['type']>(['key', 'paste', 'command']);
+
+/** Activity density over the session, one cell per slice of time; click a cell to jump there */
+export function ActivityHeatmap({ events, onSeek, buckets = 120 }: ActivityHeatmapProps) {
+  const cells = useMemo(() => {
+    if (events.length === 0) return [];
+    const baseTime = events[0].timestamp;
+    const totalDuration = Math.max(events[events.length - 1].timestamp - baseTime, 1);
+
+    const counts = new Array<number>(buckets).fill(0);
+    // Index of the first event in each cell, for seeking
+    const firstIndex = new Array<number>(buckets).fill(-1);
+    events.forEach((event, index) => {
+      const bucket = Math.min(Math.floor(((event.timestamp - baseTime) / totalDuration) * buckets), buckets - 1);
+      if (firstIndex[bucket] === -1) firstIndex[bucket] = index;
+      if (ACTIVITY_TYPES.has(event.type)) counts[bucket]++;
+    });
+
+    const max = Math.max(...counts, 1);
+    return counts.map((count, bucket) => ({
+      count,
+      intensity: count / max,
+      index: firstIndex[bucket],
+      offset: (bucket / buckets) * totalDuration,
+    }));
+  }, [events, buckets]);
+
+  if (cells.length === 0) return null;
+
+  return (
+    <div className="flex w-full h-3 mt-1 rounded overflow-hidden bg-[#1a1b26]">
+      {cells.map((cell, bucket) => (
+        <div
+          key={bucket}
+          className={`flex-1 ${cell.index === -1 ? '' : 'cursor-pointer hover:opacity-80'}`}
+          style={{ backgroundColor: cell.count > 0 ? `rgba(34, 211, 238, ${0.15 + cell.intensity * 0.85})` : undefined }}
+          onClick={() => cell.index !== -1 && onSeek(cell.index)}
+          title={`${cell.count} actions at ${Math.floor(cell.offset / 60000)}:${Math.floor((cell.offset / 1000) % 60).toString().padStart(2, '0')}`}
+        />
+      ))}
+    </div>
+  );
+}
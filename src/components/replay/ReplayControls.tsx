@@ -1,7 +1,11 @@
 'use client';
 
 import React from 'react';
-import type { ReplayState } from '@/lib/integrity/SessionReplay';
+import type { ReplayState, InactivitySkip } from '@/lib/integrity/SessionReplay';
+
+/** Idle gaps longer than one of these can be skipped */
+const SKIP_THRESHOLDS_MS = [1000, 2000, 5000, 10000];
+const DEFAULT_SKIP: InactivitySkip = { thresholdMs: 2000, skipToMs: 100 };
 
 interface ReplayControlsProps {
   state: ReplayState | null;
@@ -11,6 +15,7 @@ interface ReplayControlsProps {
   onPause: () => void;
   onSetSpeed: (speed: number) => void;
   onSeek: (index: number) => void;
+  onSetSkipInactivity: (skip: InactivitySkip | null) => void;
 }
 
 export function ReplayControls({
@@ -21,11 +26,13 @@ export function ReplayControls({
   onPause,
   onSetSpeed,
   onSeek,
+  onSetSkipInactivity,
 }: ReplayControlsProps) {
   const isPlaying = state?.isPlaying || false;
   const currentIndex = state?.currentIndex || 0;
   const speed = state?.speed || 1;
   const elapsed = state?.elapsedTime || 0;
+  const skip = state?.skipInactivity ?? null;
 
   const formatTime = (ms: number): string => {
     const s = Math.floor(ms / 1000);
@@ -88,6 +95,27 @@ export function ReplayControls({
               </button>
             ))}
           </div>
+
+          {/* Inactivity skipping */}
+          <label className="flex items-center gap-1.5 text-xs text-gray-400">
+            <input
+              type="checkbox"
+              checked={skip !== null}
+              onChange={e => onSetSkipInactivity(e.target.checked ? DEFAULT_SKIP : null)}
+              className="accent-cyan-600"
+            />
+            Skip idle over
+          </label>
+          <select
+            value={skip?.thresholdMs ?? DEFAULT_SKIP.thresholdMs}
+            disabled={skip === null}
+            onChange={e => onSetSkipInactivity({ ...DEFAULT_SKIP, ...skip, thresholdMs: Number(e.target.value) })}
+            className="bg-[#1a1b26] border border-[#33467c] rounded px-1 py-0.5 text-xs text-gray-300 disabled:opacity-50"
+          >
+            {SKIP_THRESHOLDS_MS.map(ms => (
+              <option key={ms} value={ms}>{ms / 1000}s</option>
+            ))}
+          </select>
         </div>
 
         {/* Time display */}
@@ -98,6 +126,10 @@ export function ReplayControls({
           </span>
         </div>
       </div>
+
+      <div className="mt-2 text-xs text-gray-600">
+        Space play/pause · ←/→ 5s · [/] previous/next command
+      </div>
     </div>
   );
 }
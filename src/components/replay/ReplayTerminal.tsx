@@ -5,36 +5,34 @@ import { Terminal } from '@xterm/xterm';
 import { FitAddon } from '@xterm/addon-fit';
 import '@xterm/xterm/css/xterm.css';
 import { terminalTheme } from '../terminal/TerminalTheme';
-import { SessionReplay, ReplayState } from '@/lib/integrity/SessionReplay';
+import { SessionReplay, ReplayState, ReplaySetup, InactivitySkip } from '@/lib/integrity/SessionReplay';
 import { ReplayControls } from './ReplayControls';
+import { ReplayTimeline } from './ReplayTimeline';
+import { ActivityHeatmap } from './ActivityHeatmap';
 import type { SessionEvent } from '@/lib/integrity/KeystrokeRecorder';
 
+/** How far the arrow keys move the replay */
+const SEEK_STEP_MS = 5000;
+
 interface ReplayTerminalProps {
   events: SessionEvent[];
+  /** How the candidate's terminal was set up; the replay re-runs their input against it */
+  setup?: ReplaySetup;
+  onStateChange?: (state: ReplayState) => void;
+  /** Gives the page the replay so it can seek from outside, e.g. integrity flags */
+  onReplayReady?: (replay: SessionReplay) => void;
 }
 
-export function ReplayTerminal({ events }: ReplayTerminalProps) {
+export function ReplayTerminal({ events, setup, onStateChange, onReplayReady }: ReplayTerminalProps) {
   const terminalRef = useRef<HTMLDivElement>(null);
   const xtermRef = useRef<Terminal | null>(null);
   const replayRef = useRef<SessionReplay | null>(null);
   const [replayState, setReplayState] = useState<ReplayState | null>(null);
 
-  const handleReplayEvent = useCallback((event: SessionEvent) => {
-    const xterm = xtermRef.current;
-    if (!xterm) return;
-
-    switch (event.type) {
-      case 'key':
-        xterm.write((event as { key: string }).key);
-        break;
-      case 'output':
-        xterm.write((event as { content: string }).content + '\r\n');
-        break;
-      case 'command':
-        // Command events could be shown as prompt + command
-        break;
-    }
-  }, []);
+  const handleStateChange = useCallback((state: ReplayState) => {
+    setReplayState(state);
+    onStateChange?.(state);
+  }, [onStateChange]);
 
   useEffect(() => {
     if (!terminalRef.current || xtermRef.current) return;
@@ -59,20 +57,27 @@ export function ReplayTerminal({ events }: ReplayTerminalProps) {
 
     const replay = new SessionReplay(
       events,
-      handleReplayEvent,
-      setReplayState,
+      xterm,
+      { ...setup, cols: xterm.cols, rows: xterm.rows },
+      handleStateChange,
     );
     replayRef.current = replay;
+    onReplayReady?.(replay);
+    replay.prepare().catch(err => {
+      xterm.write(`\x1b[31mCould not re-run session: ${err instanceof Error ? err.message : err}\x1b[0m\r\n`);
+    });
 
     const observer = new ResizeObserver(() => fitAddon.fit());
     observer.observe(terminalRef.current);
 
     return () => {
       observer.disconnect();
+      replay.dispose();
+      replayRef.current = null;
       xterm.dispose();
       xtermRef.current = null;
     };
-  }, [events, handleReplayEvent]);
+  }, [events, setup, handleStateChange, onReplayReady]);
 
   const handlePlay = useCallback(() => {
     replayRef.current?.play();
@@ -90,10 +95,63 @@ export function ReplayTerminal({ events }: ReplayTerminalProps) {
     replayRef.current?.seekTo(index);
   }, []);
 
+  const handleSetSkipInactivity = useCallback((skip: InactivitySkip | null) => {
+    replayRef.current?.setSkipInactivity(skip);
+  }, []);
+
+  // Keyboard shortcuts, unless the reviewer is typing somewhere else on the page
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      const replay = replayRef.current;
+      const target = e.target as HTMLElement | null;
+      if (!replay || e.ctrlKey || e.metaKey || e.altKey) return;
+      if (target?.closest('input, textarea, select, [contenteditable="true"]') && !terminalRef.current?.contains(target)) return;
+
+      const state = replay.getState();
+      switch (e.key) {
+        case ' ':
+          if (state.isPlaying) replay.pause();
+          else replay.play();
+          break;
+        case 'ArrowLeft':
+          replay.seekToTime(Math.max(0, state.elapsedTime - SEEK_STEP_MS));
+          break;
+        case 'ArrowRight':
+          replay.seekToTime(state.elapsedTime + SEEK_STEP_MS);
+          break;
+        case '[':
+          replay.seekToCommand(-1);
+          break;
+        case ']':
+          replay.seekToCommand(1);
+          break;
+        default:
+          return;
+      }
+      e.preventDefault();
+    };
+
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
   return (
     <div className="flex flex-col h-full">
-      <div className="flex-1 bg-[#1a1b26]" style={{ padding: '8px' }}>
+      <div className="relative flex-1 bg-[#1a1b26]" style={{ padding: '8px' }}>
         <div ref={terminalRef} className="w-full h-full" />
+        {!replayState?.ready && (
+          <div className="absolute inset-0 flex items-center justify-center bg-[#1a1b26]/80 text-sm text-gray-400">
+            Re-running session...
+          </div>
+        )}
+      </div>
+      <div className="bg-[#16161e] px-4 pt-3">
+        <ReplayTimeline
+          events={replayState?.events ?? events}
+          currentIndex={replayState?.currentIndex ?? 0}
+          onSeek={handleSeek}
+        />
+        <ActivityHeatmap events={replayState?.events ?? events} onSeek={handleSeek} />
       </div>
       <ReplayControls
         state={replayState}
@@ -103,6 +161,7 @@ export function ReplayTerminal({ events }: ReplayTerminalProps) {
         onPause={handlePause}
         onSetSpeed={handleSetSpeed}
         onSeek={handleSeek}
+        onSetSkipInactivity={handleSetSkipInactivity}
       />
     </div>
   );
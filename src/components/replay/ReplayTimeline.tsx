@@ -48,18 +48,18 @@ export function ReplayTimeline({ events, currentIndex, onSeek }: ReplayTimelineP
             key={index}
             className={`absolute top-1 w-1 h-6 rounded-sm cursor-pointer hover:opacity-80 ${getMarkerColor(event.type)}`}
             style={{ left: `${position}%` }}
-            onClick={() => onSeek(index)}
+            onClick={() => onSeek(index + 1)}
             title={`${event.type} at ${((event.timestamp - baseTime) / 1000).toFixed(1)}s`}
           />
         );
       })}
 
-      {/* Current position indicator */}
+      {/* Current position indicator, at the last event played */}
       {events.length > 0 && (
         <div
           className="absolute top-0 w-0.5 h-full bg-white"
           style={{
-            left: `${totalDuration > 0 ? ((events[currentIndex]?.timestamp - baseTime) / totalDuration) * 100 : 0}%`,
+            left: `${totalDuration > 0 ? ((events[Math.max(0, Math.min(currentIndex - 1, events.length - 1))].timestamp - baseTime) / totalDuration) * 100 : 0}%`,
           }}
         />
       )}
@@ -9,6 +9,12 @@ interface TerminalHeaderProps {
   startTime: number;
   objectivesCompleted: number;
   objectivesTotal: number;
+  /** When set, the clock counts down the time left instead of up */
+  timeLimitMinutes?: number | null;
+  /** Time already spent paused, which the clock leaves out */
+  pausedMs?: number;
+  /** While set, the clock stands still at this moment */
+  pausedAt?: number | null;
 }
 
 export function TerminalHeader({
@@ -18,15 +24,19 @@ export function TerminalHeader({
   startTime,
   objectivesCompleted,
   objectivesTotal,
+  timeLimitMinutes = null,
+  pausedMs = 0,
+  pausedAt = null,
 }: TerminalHeaderProps) {
   const [elapsed, setElapsed] = useState(0);
 
   useEffect(() => {
     const timer = setInterval(() => {
-      setElapsed(Math.floor((Date.now() - startTime) / 1000));
+      const now = pausedAt ?? Date.now();
+      setElapsed(Math.max(0, Math.floor((now - startTime - pausedMs) / 1000)));
     }, 1000);
     return () => clearInterval(timer);
-  }, [startTime]);
+  }, [startTime, pausedMs, pausedAt]);
 
   const formatTime = (seconds: number): string => {
     const m = Math.floor(seconds / 60);
@@ -34,6 +44,12 @@ export function TerminalHeader({
     return `${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}`;
   };
 
+  const remaining = timeLimitMinutes ? Math.max(0, timeLimitMinutes * 60 - elapsed) : null;
+  const clockColor = remaining === null ? 'text-gray-300'
+    : remaining === 0 ? 'text-red-400'
+    : remaining < 5 * 60 ? 'text-yellow-400'
+    : 'text-gray-300';
+
   const progress = objectivesTotal > 0 ? (objectivesCompleted / objectivesTotal) * 100 : 0;
 
   return (
@@ -60,7 +76,10 @@ export function TerminalHeader({
           </span>
         </div>
         <span className="text-gray-400">|</span>
-        <span className="text-gray-300 tabular-nums">{formatTime(elapsed)}</span>
+        {pausedAt !== null && <span className="text-yellow-400">Paused</span>}
+        <span className={`${clockColor} tabular-nums`} title={remaining === null ? 'Elapsed' : 'Time remaining'}>
+          {remaining === null ? formatTime(elapsed) : remaining === 0 ? "Time's up" : `${formatTime(remaining)} left`}
+        </span>
       </div>
     </div>
   );
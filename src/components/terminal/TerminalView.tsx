@@ -8,20 +8,34 @@ import '@xterm/xterm/css/xterm.css';
 import { terminalTheme } from './TerminalTheme';
 import { TerminalEngine, TerminalEngineOptions } from '@/lib/terminal/TerminalEngine';
 import type { FSNodeJSON } from '@/lib/terminal/VirtualFileSystem';
+import type { ChallengeConfig } from '@/lib/terminal/CommandContext';
+import type { ChallengePack } from '@/lib/challenges/ChallengePack';
 
 interface TerminalViewProps {
   filesystem?: Record<string, FSNodeJSON>;
   seniority?: 'junior' | 'mid' | 'senior' | 'lead' | 'principal';
+  /** Enabled levels and hint policy; keep the object stable, a new one rebuilds the terminal */
+  challenge?: Partial<ChallengeConfig>;
+  /** Levels, objectives and hints the challenge commands work from */
+  pack?: ChallengePack;
   onEvent?: TerminalEngineOptions['onEvent'];
   onEngineReady?: (engine: TerminalEngine) => void;
+  /** The xterm instance, e.g. for read-only mirrors that write into it themselves */
+  onTerminalReady?: (xterm: Terminal) => void;
+  /** Seeds the engine's random numbers (the session id) so a replay re-runs it identically */
+  seed?: string;
   readOnly?: boolean;
 }
 
 export function TerminalView({
   filesystem,
   seniority = 'mid',
+  challenge,
+  pack,
   onEvent,
   onEngineReady,
+  onTerminalReady,
+  seed,
   readOnly = false,
 }: TerminalViewProps) {
   const terminalRef = useRef<HTMLDivElement>(null);
@@ -55,18 +69,24 @@ export function TerminalView({
 
     xtermRef.current = xterm;
     fitAddonRef.current = fitAddon;
+    onTerminalReady?.(xterm);
 
     if (!readOnly) {
       // Create engine
       const engine = new TerminalEngine({
         seniority,
+        challenge,
+        pack,
         filesystem,
         onEvent,
+        seed,
       });
 
       engine.setWriter((data: string) => {
         xterm.write(data);
       });
+      engine.resize(xterm.cols, xterm.rows);
+      xterm.onResize(({ cols, rows }) => engine.resize(cols, rows));
 
       // Load filesystem if provided
       if (filesystem) {
@@ -118,7 +138,7 @@ export function TerminalView({
       xtermRef.current = null;
       engineRef.current = null;
     };
-  }, [filesystem, seniority, onEvent, onEngineReady, readOnly]);
+  }, [filesystem, seniority, challenge, pack, onEvent, onEngineReady, onTerminalReady, seed, readOnly]);
 
   useEffect(() => {
     const cleanup = initTerminal();
@@ -3,13 +3,18 @@
 import { useRef, useEffect, useCallback } from 'react';
 import { KeystrokeRecorder, SessionEvent } from '@/lib/integrity/KeystrokeRecorder';
 import { PasteDetector } from '@/lib/integrity/PasteDetector';
+import type { TerminalEvent } from '@/lib/terminal/TerminalEngine';
+
+const NO_MODIFIERS = { shift: false, ctrl: false, alt: false, meta: false };
 
 interface UseKeystrokeRecorderOptions {
   sessionId: string;
   enabled?: boolean;
+  /** How often batches are sent; live watchers see events no sooner than this */
+  flushInterval?: number;
 }
 
-export function useKeystrokeRecorder({ sessionId, enabled = true }: UseKeystrokeRecorderOptions) {
+export function useKeystrokeRecorder({ sessionId, enabled = true, flushInterval }: UseKeystrokeRecorderOptions) {
   const recorderRef = useRef<KeystrokeRecorder | null>(null);
   const pasteDetectorRef = useRef<PasteDetector>(new PasteDetector());
 
@@ -30,7 +35,7 @@ export function useKeystrokeRecorder({ sessionId, enabled = true }: UseKeystroke
   useEffect(() => {
     if (!enabled) return;
 
-    const recorder = new KeystrokeRecorder(flushToServer);
+    const recorder = new KeystrokeRecorder(flushToServer, flushInterval);
     recorderRef.current = recorder;
     recorder.start();
 
@@ -46,7 +51,7 @@ export function useKeystrokeRecorder({ sessionId, enabled = true }: UseKeystroke
       window.removeEventListener('focus', handleFocus);
       window.removeEventListener('blur', handleBlur);
     };
-  }, [enabled, flushToServer]);
+  }, [enabled, flushToServer, flushInterval]);
 
   const recordKey = useCallback((key: string, meta: { shift: boolean; ctrl: boolean; alt: boolean; meta: boolean }) => {
     recorderRef.current?.recordKey(key, meta);
@@ -61,6 +66,41 @@ export function useKeystrokeRecorder({ sessionId, enabled = true }: UseKeystroke
     recorderRef.current?.recordCommand(raw, exitCode);
   }, []);
 
+  /** Record an engine event in the recorder's format */
+  const recordTerminalEvent = useCallback((event: TerminalEvent) => {
+    const recorder = recorderRef.current;
+    if (!recorder) return;
+
+    switch (event.type) {
+      case 'key':
+        recorder.recordKey(event.data, NO_MODIFIERS, event.participant);
+        break;
+      case 'paste':
+        recorder.recordPaste(event.data, event.participant);
+        if (event.participant !== 'interviewer') pasteDetectorRef.current.recordClipboardPaste(event.data);
+        break;
+      case 'input':
+        recorder.recordInput(event.data, event.participant);
+        break;
+      case 'command':
+        recorder.recordCommand(event.data, 0, event.participant);
+        break;
+      case 'resize':
+        if (event.cols && event.rows) recorder.recordResize(event.cols, event.rows);
+        break;
+      case 'output':
+        // The engine reports objective completion as a tagged output line
+        if (event.data.startsWith('objective_complete:')) {
+          recorder.recordObjectiveComplete(event.data.slice('objective_complete:'.length));
+          break;
+        }
+        // Commands that print nothing send an empty event carrying just their exit status
+        if (event.data) recorder.recordOutput(event.data, event.stream);
+        if (event.exitCode !== undefined) recorder.recordExitCode(event.exitCode);
+        break;
+    }
+  }, []);
+
   const getRecorder = useCallback(() => recorderRef.current, []);
   const getPasteDetector = useCallback(() => pasteDetectorRef.current, []);
 
@@ -68,6 +108,7 @@ export function useKeystrokeRecorder({ sessionId, enabled = true }: UseKeystroke
     recordKey,
     recordPaste,
     recordCommand,
+    recordTerminalEvent,
     getRecorder,
     getPasteDetector,
   };
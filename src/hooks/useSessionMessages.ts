@@ -0,0 +1,63 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { LiveSessionClient, isMessageEvent, sendSessionMessage, TERMINAL_INPUT } from '@/lib/realtime/LiveSessionClient';
+import type { ChannelEvent } from '@/components/chat/ChatPanel';
+import type { SessionStatus } from '@/lib/sessions/SessionStore';
+
+interface UseSessionMessagesOptions {
+  sessionId: string;
+  enabled?: boolean;
+  /** Called for messages that arrive live, not for the history loaded on mount */
+  onMessage?: (message: ChannelEvent) => void;
+  onStatus?: (status: SessionStatus) => void;
+  /** Keystrokes relayed from an interviewer driving the terminal */
+  onInput?: (data: string) => void;
+}
+
+/** Chat history plus a live subscription to the session's message channel */
+export function useSessionMessages({ sessionId, enabled = true, onMessage, onStatus, onInput }: UseSessionMessagesOptions) {
+  const [messages, setMessages] = useState<ChannelEvent[]>([]);
+  const handlersRef = useRef({ onMessage, onStatus, onInput });
+
+  useEffect(() => {
+    handlersRef.current = { onMessage, onStatus, onInput };
+  }, [onMessage, onStatus, onInput]);
+
+  useEffect(() => {
+    if (!enabled || !sessionId) return;
+
+    const client = new LiveSessionClient(sessionId, (raw) => {
+      const event = raw as { type: string; status?: SessionStatus; data?: string };
+      if (event.type === 'status' && event.status) {
+        handlersRef.current.onStatus?.(event.status);
+        return;
+      }
+      if (event.type === TERMINAL_INPUT && event.data) {
+        handlersRef.current.onInput?.(event.data);
+        return;
+      }
+      if (!isMessageEvent(event)) return;
+      setMessages(prev => [...prev, event as ChannelEvent]);
+      handlersRef.current.onMessage?.(event as ChannelEvent);
+    }, { channel: 'messages' });
+    client.connect();
+
+    fetch(`/api/sessions/${sessionId}/events?channel=messages`)
+      .then(res => res.ok ? res.json() : { data: [] })
+      .then(data => {
+        const history = data.data as ChannelEvent[];
+        // Anything that arrived live while the history loaded is already in state
+        setMessages(prev => [...history, ...prev.filter(m => m.timestamp > (history[history.length - 1]?.timestamp ?? -Infinity))]);
+      })
+      .catch(() => {});
+
+    return () => client.disconnect();
+  }, [sessionId, enabled]);
+
+  const send = useCallback(async (text: string) => {
+    await sendSessionMessage(sessionId, { type: 'chat', from: 'candidate', text });
+  }, [sessionId]);
+
+  return { messages, send };
+}
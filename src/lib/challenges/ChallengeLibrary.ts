@@ -0,0 +1,73 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import yaml from 'js-yaml';
+import { ChallengePack, ChallengePackError, packLevels, validateChallengePack } from './ChallengePack';
+import { scenarioExists } from '../scenarios/ScenarioLibrary';
+
+export interface ChallengePackSummary {
+  id: string;
+  title: string;
+  description: string;
+  filesystem: string;
+  scenarios: string[];
+  levels: { level: number; title: string; description: string; objectives: number }[];
+}
+
+const PACK_ID = /^[a-z0-9-]+$/;
+
+function packDir(): string {
+  return path.join(process.cwd(), 'data', 'challenges');
+}
+
+/** Packs available to new sessions: every YAML file in data/challenges */
+export async function listChallengePacks(): Promise<ChallengePackSummary[]> {
+  const files = (await fs.readdir(packDir())).filter(file => file.endsWith('.yaml')).sort();
+  const packs = await Promise.all(files.map(file => loadChallengePack(file.replace(/\.yaml$/, ''))));
+  return packs.filter((pack): pack is ChallengePack => pack !== null).map(pack => ({
+    id: pack.id,
+    title: pack.title,
+    description: pack.description,
+    filesystem: pack.filesystem,
+    scenarios: pack.scenarios,
+    levels: packLevels(pack).map(level => ({
+      level,
+      title: pack.levels[level].title,
+      description: pack.levels[level].description,
+      objectives: pack.levels[level].objectives.length,
+    })),
+  }));
+}
+
+export async function challengePackExists(id: string): Promise<boolean> {
+  if (!PACK_ID.test(id)) return false;
+  try {
+    await fs.access(path.join(packDir(), `${id}.yaml`));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Parsed and validated pack, or null when there is no such pack. A pack that
+ * exists but is malformed, or names a missing scenario, throws a
+ * ChallengePackError saying where.
+ */
+export async function loadChallengePack(id: string): Promise<ChallengePack | null> {
+  if (!(await challengePackExists(id))) return null;
+  const content = await fs.readFile(path.join(packDir(), `${id}.yaml`), 'utf-8');
+  let raw: unknown;
+  try {
+    raw = yaml.load(content);
+  } catch (err) {
+    throw new ChallengePackError(`${id}: invalid YAML (${err instanceof Error ? err.message : err})`);
+  }
+  const pack = validateChallengePack(id, raw);
+  for (const scenario of pack.scenarios) {
+    if (!(await scenarioExists(scenario))) {
+      const field = scenario === pack.filesystem ? 'filesystem' : 'scenarios';
+      throw new ChallengePackError(`${id}.${field}: no scenario "${scenario}" in data/filesystems`);
+    }
+  }
+  return pack;
+}
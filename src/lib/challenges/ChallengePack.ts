@@ -0,0 +1,324 @@
+import { parseSql } from '../fleetcore/Sql';
+
+export const SENIORITY_ORDER = ['junior', 'mid', 'senior', 'lead', 'principal'] as const;
+
+export type SeniorityName = typeof SENIORITY_ORDER[number];
+
+export function seniorityLevel(s: string): number {
+  return SENIORITY_ORDER.indexOf(s as SeniorityName);
+}
+
+/**
+ * How an objective is judged after each successful command. Each check is
+ * an object with exactly one key. Patterns are regular expressions written
+ * as strings, optionally as `/source/flags`; paths are relative to the
+ * pack's `root` unless they start with `/`.
+ */
+export type CheckSpec =
+  /** The command line matches */
+  | { cmd: string }
+  /** What the command printed, stdout and stderr together, matches */
+  | { outputMatches: string }
+  /** The shell is in this directory or below it */
+  | { cwd: string }
+  /** The command redirects output (`>`) into a file whose path matches */
+  | { commandWritesTo: string }
+  | { fileContainsAny: { path: string; patterns: string[] } }
+  | { fileContainsAll: { path: string; patterns: string[] } }
+  /** Some file the candidate created or edited under `path` (default: root) matches */
+  | { anyFileContainsAny: { path?: string; patterns: string[] } }
+  | { anyFileContainsAll: { path?: string; patterns: string[] } }
+  /** The directory holds more than `count` files */
+  | { dirHasMoreThan: { path: string; count: number } }
+  /**
+   * The query runs against the session's FleetCore database and its rows,
+   * one per line with columns joined by `|`, match every pattern
+   */
+  | { sqlResultMatches: { query: string; patterns: string[] } }
+  /**
+   * The command, words separated by spaces, runs on the session's Redis
+   * server and its reply as redis-cli --raw prints it matches every pattern
+   */
+  | { redisReplyMatches: { command: string; patterns: string[] } }
+  /** The named container is running with no startup failure and isn't unhealthy */
+  | { containerUp: string }
+  | { or: CheckSpec[] }
+  | { and: CheckSpec[] };
+
+export interface Objective {
+  id: string;
+  title: string;
+  description: string;
+  /** Least senior candidate the objective is set for */
+  seniorityMin: SeniorityName;
+  check: CheckSpec;
+}
+
+export interface Hint {
+  id: string;
+  text: string;
+  objectiveId: string;
+  /** Most senior candidate the hint is offered to */
+  seniorityMax: SeniorityName;
+}
+
+export interface ChallengeLevel {
+  title: string;
+  description: string;
+  objectives: Objective[];
+  hints: Hint[];
+}
+
+/** An interview: its levels, how each objective is judged, and the filesystem it runs in */
+export interface ChallengePack {
+  id: string;
+  title: string;
+  description: string;
+  /** Scenario in data/filesystems mounted for sessions using this pack */
+  filesystem: string;
+  /** Every scenario the pack's objectives work in, `filesystem` first */
+  scenarios: string[];
+  /** Where relative paths in checks point, usually the project directory */
+  root: string;
+  levels: Record<number, ChallengeLevel>;
+}
+
+/** Pack for sessions that don't name one, including those created before packs existed */
+export const DEFAULT_CHALLENGE_PACK = 'fleetcore';
+
+export class ChallengePackError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ChallengePackError';
+  }
+}
+
+/** For engines created without a pack: the challenge commands report there is nothing to do */
+export const EMPTY_PACK: ChallengePack = {
+  id: 'none',
+  title: 'No challenge',
+  description: '',
+  filesystem: '',
+  scenarios: [],
+  root: '/',
+  levels: {},
+};
+
+/** The pack's level numbers, in order */
+export function packLevels(pack: ChallengePack): number[] {
+  return Object.keys(pack.levels).map(Number).sort((a, b) => a - b);
+}
+
+/** Get the number of objectives applicable for a given level and seniority */
+export function getObjectivesForLevel(pack: ChallengePack, level: number, seniority: string): { total: number; ids: string[] } {
+  const levelData = pack.levels[level];
+  if (!levelData) return { total: 0, ids: [] };
+  const userLevel = seniorityLevel(seniority);
+  const applicable = levelData.objectives.filter(o => seniorityLevel(o.seniorityMin) <= userLevel);
+  return { total: applicable.length, ids: applicable.map(o => o.id) };
+}
+
+/** Look up an objective's display title by its ID */
+export function getObjectiveTitle(pack: ChallengePack, id: string): string | null {
+  for (const level of Object.values(pack.levels)) {
+    const obj = level.objectives.find(o => o.id === id);
+    if (obj) return obj.title;
+  }
+  return null;
+}
+
+export function findHint(pack: ChallengePack, id: string): Hint | null {
+  return Object.values(pack.levels).flatMap(l => l.hints).find(h => h.id === id) ?? null;
+}
+
+/** Turn a pattern string (`source` or `/source/flags`) into a RegExp */
+export function parsePattern(pattern: string): RegExp {
+  const literal = /^\/([\s\S]*)\/([a-z]*)$/.exec(pattern);
+  return literal ? new RegExp(literal[1], literal[2]) : new RegExp(pattern);
+}
+
+const CHECK_KINDS = [
+  'cmd', 'outputMatches', 'cwd', 'commandWritesTo', 'fileContainsAny', 'fileContainsAll',
+  'anyFileContainsAny', 'anyFileContainsAll', 'dirHasMoreThan', 'sqlResultMatches', 'redisReplyMatches', 'containerUp', 'or', 'and',
+] as const;
+
+/**
+ * Check a parsed pack file and return it as a ChallengePack. Throws a
+ * ChallengePackError naming the first problem and where it is, so authors
+ * find out when the pack is loaded rather than mid-interview.
+ */
+export function validateChallengePack(id: string, raw: unknown): ChallengePack {
+  const pack = record(raw, id);
+  const levelsRaw = record(pack.levels, `${id}.levels`);
+  const levels: Record<number, ChallengeLevel> = {};
+  const objectiveIds = new Set<string>();
+  const hintIds = new Set<string>();
+
+  const levelKeys = Object.keys(levelsRaw);
+  if (levelKeys.length === 0) throw new ChallengePackError(`${id}.levels: at least one level is required`);
+
+  for (const key of levelKeys) {
+    const where = `${id}.levels.${key}`;
+    const number = Number(key);
+    if (!Number.isInteger(number) || number < 1) {
+      throw new ChallengePackError(`${where}: level numbers must be positive integers`);
+    }
+    const level = record(levelsRaw[key], where);
+    const objectives = list(level.objectives, `${where}.objectives`).map((o, i): Objective => {
+      const at = `${where}.objectives[${i}]`;
+      const objective = record(o, at);
+      const objectiveId = text(objective.id, `${at}.id`);
+      if (objectiveIds.has(objectiveId)) throw new ChallengePackError(`${at}.id: duplicate objective "${objectiveId}"`);
+      objectiveIds.add(objectiveId);
+      return {
+        id: objectiveId,
+        title: text(objective.title, `${at}.title`),
+        description: text(objective.description ?? '', `${at}.description`),
+        seniorityMin: seniority(objective.seniorityMin ?? 'junior', `${at}.seniorityMin`),
+        check: check(objective.check, `${at}.check`),
+      };
+    });
+    if (objectives.length === 0) throw new ChallengePackError(`${where}.objectives: at least one objective is required`);
+
+    const hints = list(level.hints ?? [], `${where}.hints`).map((h, i): Hint => {
+      const at = `${where}.hints[${i}]`;
+      const hint = record(h, at);
+      const hintId = text(hint.id, `${at}.id`);
+      if (hintIds.has(hintId)) throw new ChallengePackError(`${at}.id: duplicate hint "${hintId}"`);
+      hintIds.add(hintId);
+      const objectiveId = text(hint.objectiveId, `${at}.objectiveId`);
+      if (!objectives.some(o => o.id === objectiveId)) {
+        throw new ChallengePackError(`${at}.objectiveId: no objective "${objectiveId}" in level ${key}`);
+      }
+      return {
+        id: hintId,
+        text: text(hint.text, `${at}.text`),
+        objectiveId,
+        seniorityMax: seniority(hint.seniorityMax ?? 'principal', `${at}.seniorityMax`),
+      };
+    });
+
+    levels[number] = {
+      title: text(level.title, `${where}.title`),
+      description: text(level.description ?? '', `${where}.description`),
+      objectives,
+      hints,
+    };
+  }
+
+  const root = text(pack.root ?? '/', `${id}.root`);
+  if (!root.startsWith('/')) throw new ChallengePackError(`${id}.root: must be an absolute path`);
+  const filesystem = text(pack.filesystem, `${id}.filesystem`);
+  const alternatives = list(pack.scenarios ?? [], `${id}.scenarios`)
+    .map((scenario, index) => text(scenario, `${id}.scenarios[${index}]`));
+
+  return {
+    id,
+    title: text(pack.title, `${id}.title`),
+    description: text(pack.description ?? '', `${id}.description`),
+    filesystem,
+    scenarios: [...new Set([filesystem, ...alternatives])],
+    root,
+    levels,
+  };
+}
+
+function check(raw: unknown, where: string): CheckSpec {
+  const spec = record(raw, where);
+  const keys = Object.keys(spec);
+  if (keys.length !== 1 || !(CHECK_KINDS as readonly string[]).includes(keys[0])) {
+    throw new ChallengePackError(`${where}: expected exactly one of ${CHECK_KINDS.join(', ')}`);
+  }
+  const kind = keys[0] as typeof CHECK_KINDS[number];
+  const value = spec[kind];
+  const at = `${where}.${kind}`;
+
+  switch (kind) {
+    case 'cmd':
+    case 'outputMatches':
+    case 'commandWritesTo':
+      return { [kind]: pattern(value, at) } as CheckSpec;
+    case 'cwd':
+      return { cwd: text(value, at) };
+    case 'fileContainsAny':
+    case 'fileContainsAll': {
+      const args = record(value, at);
+      return { [kind]: { path: text(args.path, `${at}.path`), patterns: patterns(args.patterns, `${at}.patterns`) } } as CheckSpec;
+    }
+    case 'anyFileContainsAny':
+    case 'anyFileContainsAll': {
+      const args = record(value, at);
+      const path = args.path === undefined ? {} : { path: text(args.path, `${at}.path`) };
+      return { [kind]: { ...path, patterns: patterns(args.patterns, `${at}.patterns`) } } as CheckSpec;
+    }
+    case 'dirHasMoreThan': {
+      const args = record(value, at);
+      if (!Number.isInteger(args.count) || (args.count as number) < 0) {
+        throw new ChallengePackError(`${at}.count: must be a non-negative integer`);
+      }
+      return { dirHasMoreThan: { path: text(args.path, `${at}.path`), count: args.count as number } };
+    }
+    case 'sqlResultMatches': {
+      const args = record(value, at);
+      const query = text(args.query, `${at}.query`);
+      try {
+        parseSql(query);
+      } catch (err) {
+        throw new ChallengePackError(`${at}.query: ${err instanceof Error ? err.message : err}`);
+      }
+      return { sqlResultMatches: { query, patterns: patterns(args.patterns, `${at}.patterns`) } };
+    }
+    case 'redisReplyMatches': {
+      const args = record(value, at);
+      return { redisReplyMatches: { command: text(args.command, `${at}.command`), patterns: patterns(args.patterns, `${at}.patterns`) } };
+    }
+    case 'containerUp':
+      return { containerUp: text(value, at) };
+    case 'or':
+    case 'and': {
+      const checks = list(value, at).map((c, i) => check(c, `${at}[${i}]`));
+      if (checks.length === 0) throw new ChallengePackError(`${at}: needs at least one check`);
+      return { [kind]: checks } as CheckSpec;
+    }
+  }
+}
+
+function record(value: unknown, where: string): Record<string, unknown> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new ChallengePackError(`${where}: expected a mapping`);
+  }
+  return value as Record<string, unknown>;
+}
+
+function list(value: unknown, where: string): unknown[] {
+  if (!Array.isArray(value)) throw new ChallengePackError(`${where}: expected a list`);
+  return value;
+}
+
+function text(value: unknown, where: string): string {
+  if (typeof value !== 'string') throw new ChallengePackError(`${where}: expected a string`);
+  return value;
+}
+
+function seniority(value: unknown, where: string): SeniorityName {
+  if (typeof value !== 'string' || seniorityLevel(value) === -1) {
+    throw new ChallengePackError(`${where}: must be one of ${SENIORITY_ORDER.join(', ')}`);
+  }
+  return value as SeniorityName;
+}
+
+function pattern(value: unknown, where: string): string {
+  const source = text(value, where);
+  try {
+    parsePattern(source);
+  } catch (err) {
+    throw new ChallengePackError(`${where}: invalid pattern ${source} (${err instanceof Error ? err.message : err})`);
+  }
+  return source;
+}
+
+function patterns(value: unknown, where: string): string[] {
+  const sources = list(value, where).map((p, i) => pattern(p, `${where}[${i}]`));
+  if (sources.length === 0) throw new ChallengePackError(`${where}: needs at least one pattern`);
+  return sources;
+}
@@ -1,20 +1,28 @@
 import { CommandContext } from '../terminal/CommandContext';
+import { ChallengePack, CheckSpec, parsePattern } from './ChallengePack';
+import { fleetCoreStateFor } from '../fleetcore/FleetCoreState';
+import { SqlSession, formatValue } from '../fleetcore/SqlEngine';
+import { loadCompose } from '../fleetcore/Compose';
+import { RedisSession, formatRaw, redisConfig, redisStoreFor } from '../fleetcore/RedisStore';
+import { dockerHostFor, isUp, serviceUp } from '../fleetcore/Containers';
 
-type EvalFn = (ctx: CommandContext, raw: string, exitCode: number) => boolean;
+type EvalFn = (ctx: CommandContext, raw: string, exitCode: number, output: string) => boolean;
 
 interface ObjectiveRule {
   id: string;
   evaluate: EvalFn;
 }
 
-const PROJECT_ROOT = '/opt/fleetcore';
-
 // --- Helper functions ---
 
 function cmd(pattern: RegExp): EvalFn {
   return (_ctx, raw) => pattern.test(raw);
 }
 
+function outputMatches(pattern: RegExp): EvalFn {
+  return (_ctx, _raw, _exitCode, output) => pattern.test(output);
+}
+
 function fileContainsAny(path: string, patterns: RegExp[]): EvalFn {
   return (ctx) => {
     const content = ctx.fs.readFile(path, '/');
@@ -31,28 +39,20 @@ function fileContainsAll(path: string, patterns: RegExp[]): EvalFn {
   };
 }
 
-/** Walk the VFS tree and return all file paths under basePath */
-function getAllFiles(ctx: CommandContext, basePath: string): string[] {
-  const files: string[] = [];
-  const walk = (dir: string) => {
-    const entries = ctx.fs.listDir(dir, '/');
-    if (!entries) return;
-    for (const entry of entries) {
-      const path = dir === '/' ? `/${entry.name}` : `${dir}/${entry.name}`;
-      if (entry.type === 'file') {
-        files.push(path);
-      } else if (entry.type === 'directory') {
-        walk(path);
-      }
-    }
-  };
-  walk(basePath);
-  return files;
+/**
+ * Files under basePath the candidate has created or edited since the
+ * filesystem was seeded, so seeded content can't satisfy an objective
+ */
+function getChangedFiles(ctx: CommandContext, basePath: string): string[] {
+  const changes = ctx.fs.changes() ?? [];
+  return changes
+    .filter(c => c.type === 'file' && (c.status === 'added' || c.diff !== undefined) && c.path.startsWith(basePath + '/'))
+    .map(c => c.path);
 }
 
 function anyFileContainsAny(basePath: string, patterns: RegExp[]): EvalFn {
   return (ctx) => {
-    const files = getAllFiles(ctx, basePath);
+    const files = getChangedFiles(ctx, basePath);
     for (const file of files) {
       const content = ctx.fs.readFile(file, '/');
       if (!content) continue;
@@ -64,7 +64,7 @@ function anyFileContainsAny(basePath: string, patterns: RegExp[]): EvalFn {
 
 function anyFileContainsAll(basePath: string, patterns: RegExp[]): EvalFn {
   return (ctx) => {
-    const files = getAllFiles(ctx, basePath);
+    const files = getChangedFiles(ctx, basePath);
     for (const file of files) {
       const content = ctx.fs.readFile(file, '/');
       if (!content) continue;
@@ -89,149 +89,114 @@ function dirHasMoreThan(dirPath: string, count: number): EvalFn {
   };
 }
 
+/** Run a query against the session's database, keeping nothing it changes */
+function sqlResultMatches(query: string, patterns: RegExp[]): EvalFn {
+  return (ctx) => {
+    const state = fleetCoreStateFor(ctx.fs);
+    const saved = state.snapshot();
+    try {
+      const result = new SqlSession(state, ctx.clock).execute(query);
+      const columns = result.columns ?? [];
+      const text = result.rows
+        .map(row => row.map((value, i) => (value === null ? '' : formatValue(value, columns[i].type))).join('|'))
+        .join('\n');
+      return patterns.every(p => p.test(text));
+    } catch {
+      return false;
+    } finally {
+      state.restore(saved);
+    }
+  };
+}
+
+/** Run a command on the session's Redis server from inside its container, keeping nothing it changes */
+function redisReplyMatches(command: string, patterns: RegExp[]): EvalFn {
+  return (ctx) => {
+    const config = redisConfig(loadCompose(ctx.fs) ?? []);
+    if (!config || !serviceUp(ctx.fs, ctx.clock, config.service)) return false;
+    const store = redisStoreFor(ctx.fs, ctx.clock);
+    return store.unobserved(() => {
+      const session = new RedisSession(store, config, ctx.clock, `127.0.0.1:${config.port}`);
+      try {
+        const password = session.password();
+        if (password !== null) session.authenticate(password);
+        const reply = session.execute(command.trim().split(/\s+/));
+        return reply.kind !== 'error' && patterns.every(p => p.test(formatRaw(reply)));
+      } finally {
+        session.close();
+      }
+    });
+  };
+}
+
+function containerUp(name: string): EvalFn {
+  return (ctx) => {
+    const container = dockerHostFor(ctx.fs).containers.get(name);
+    return container !== undefined && isUp(container, ctx.clock.now());
+  };
+}
+
+function cwdUnder(dirPath: string): EvalFn {
+  return (ctx) => dirPath === '/' || ctx.cwd === dirPath || ctx.cwd.startsWith(dirPath + '/');
+}
+
 function or(...fns: EvalFn[]): EvalFn {
-  return (ctx, raw, exitCode) => fns.some(fn => fn(ctx, raw, exitCode));
-}
-
-// --- Level 1: Shell & DevOps ---
-
-const LEVEL_1_RULES: ObjectiveRule[] = [
-  {
-    id: 'l1-explore',
-    evaluate: (ctx, raw) => {
-      const firstCmd = raw.trim().split(/\s+/)[0];
-      return ['ls', 'tree', 'find'].includes(firstCmd) && ctx.cwd.startsWith(PROJECT_ROOT);
-    },
-  },
-  {
-    id: 'l1-readme',
-    evaluate: cmd(/cat\s+.*README\.md/i),
-  },
-  {
-    id: 'l1-docker-up',
-    evaluate: cmd(/docker[\s-]compose\s+up|docker\s+compose\s+up/),
-  },
-  {
-    id: 'l1-verify',
-    evaluate: cmd(/curl\s+.*(?:localhost|127\.0\.0\.1).*\/health/),
-  },
-  {
-    id: 'l1-logs',
-    evaluate: cmd(/(?:cat|tail|less)\s+.*\.log/),
-  },
-  {
-    id: 'l1-debug-redis',
-    evaluate: cmd(/cat\s+.*error\.log|grep\s+.*[Rr]edis/),
-  },
-  {
-    id: 'l1-fix-compose',
-    evaluate: commandWritesTo(/docker-compose\.ya?ml/),
-  },
-];
-
-// --- Level 2: API Development ---
-
-const LEVEL_2_RULES: ObjectiveRule[] = [
-  {
-    id: 'l2-list',
-    evaluate: cmd(/curl\s+.*\/api\/v1\/vehicles/),
-  },
-  {
-    id: 'l2-create',
-    evaluate: fileContainsAny(`${PROJECT_ROOT}/src/api/vehicles.ts`, [/\.post\s*\(/, /post\s*\(/i]),
-  },
-  {
-    id: 'l2-filter',
-    evaluate: fileContainsAny(`${PROJECT_ROOT}/src/api/vehicles.ts`, [/req\.query/, /query\./]),
-  },
-  {
-    id: 'l2-pagination',
-    evaluate: fileContainsAll(`${PROJECT_ROOT}/src/api/vehicles.ts`, [/limit/i, /offset/i]),
-  },
-  {
-    id: 'l2-auth',
-    evaluate: fileContainsAny(`${PROJECT_ROOT}/src/middleware/auth.ts`, [/jwt/i, /verify/i, /token/i]),
-  },
-  {
-    id: 'l2-rate-limit',
-    evaluate: anyFileContainsAny(PROJECT_ROOT, [/rateLimit/, /rate[\.\-_]limit/i, /throttle/i]),
-  },
-  {
-    id: 'l2-versioning',
-    evaluate: anyFileContainsAll(PROJECT_ROOT, [/version/i, /api/i]),
-  },
-];
-
-// --- Level 3: Platform & Data ---
-
-const LEVEL_3_RULES: ObjectiveRule[] = [
-  {
-    id: 'l3-query',
-    evaluate: anyFileContainsAll(PROJECT_ROOT, [/SELECT/i, /WHERE/i, /vehicles/i]),
-  },
-  {
-    id: 'l3-migration',
-    evaluate: dirHasMoreThan(`${PROJECT_ROOT}/src/db/migrations`, 2),
-  },
-  {
-    id: 'l3-optimize',
-    evaluate: anyFileContainsAny(PROJECT_ROOT, [/CREATE\s+INDEX/i, /EXPLAIN/i]),
-  },
-  {
-    id: 'l3-caching',
-    evaluate: or(
-      fileContainsAny(`${PROJECT_ROOT}/src/utils/cache.ts`, [/redis/i, /cache\.set/i]),
-      fileContainsAny(`${PROJECT_ROOT}/src/services/VehicleService.ts`, [/redis/i, /cache\.set/i]),
-    ),
-  },
-  {
-    id: 'l3-pipeline',
-    evaluate: anyFileContainsAny(PROJECT_ROOT, [/\bpipeline\b/i, /\btelemetry\b/i]),
-  },
-];
-
-// --- Level 4: Architecture & Business ---
-
-const LEVEL_4_RULES: ObjectiveRule[] = [
-  {
-    id: 'l4-adr',
-    evaluate: anyFileContainsAll(PROJECT_ROOT, [/Decision/i, /Context/i, /Consequences/i]),
-  },
-  {
-    id: 'l4-scaling',
-    evaluate: anyFileContainsAny(PROJECT_ROOT, [/\bscal(?:e|ing|ability)\b/i, /\bhorizontal\b/i, /\bpartition/i]),
-  },
-  {
-    id: 'l4-budget',
-    evaluate: anyFileContainsAll(PROJECT_ROOT, [/\bcost\b/i, /(?:run\s*rate|budget)/i]),
-  },
-  {
-    id: 'l4-team',
-    evaluate: anyFileContainsAll(PROJECT_ROOT, [/\bteam\b/i, /(?:structure|engineer)/i]),
-  },
-  {
-    id: 'l4-sla',
-    evaluate: anyFileContainsAny(PROJECT_ROOT, [/\bSLA\b/, /\buptime\b/i, /\bavailability\b/i]),
-  },
-];
-
-const RULES_BY_LEVEL: Record<number, ObjectiveRule[]> = {
-  1: LEVEL_1_RULES,
-  2: LEVEL_2_RULES,
-  3: LEVEL_3_RULES,
-  4: LEVEL_4_RULES,
-};
+  return (ctx, raw, exitCode, output) => fns.some(fn => fn(ctx, raw, exitCode, output));
+}
+
+function and(...fns: EvalFn[]): EvalFn {
+  return (ctx, raw, exitCode, output) => fns.every(fn => fn(ctx, raw, exitCode, output));
+}
+
+function resolveFrom(root: string, path: string): string {
+  if (path.startsWith('/')) return path;
+  const parts = [...root.split('/'), ...path.split('/')].filter(part => part !== '' && part !== '.');
+  return '/' + parts.join('/');
+}
+
+/** Build the evaluation function for a pack's check, resolving relative paths against its root */
+function compile(spec: CheckSpec, root: string): EvalFn {
+  const at = (path: string) => resolveFrom(root, path);
+  const regexes = (patterns: string[]) => patterns.map(parsePattern);
+
+  if ('cmd' in spec) return cmd(parsePattern(spec.cmd));
+  if ('outputMatches' in spec) return outputMatches(parsePattern(spec.outputMatches));
+  if ('cwd' in spec) return cwdUnder(at(spec.cwd));
+  if ('commandWritesTo' in spec) return commandWritesTo(parsePattern(spec.commandWritesTo));
+  if ('fileContainsAny' in spec) return fileContainsAny(at(spec.fileContainsAny.path), regexes(spec.fileContainsAny.patterns));
+  if ('fileContainsAll' in spec) return fileContainsAll(at(spec.fileContainsAll.path), regexes(spec.fileContainsAll.patterns));
+  if ('anyFileContainsAny' in spec) {
+    return anyFileContainsAny(at(spec.anyFileContainsAny.path ?? '.'), regexes(spec.anyFileContainsAny.patterns));
+  }
+  if ('anyFileContainsAll' in spec) {
+    return anyFileContainsAll(at(spec.anyFileContainsAll.path ?? '.'), regexes(spec.anyFileContainsAll.patterns));
+  }
+  if ('dirHasMoreThan' in spec) return dirHasMoreThan(at(spec.dirHasMoreThan.path), spec.dirHasMoreThan.count);
+  if ('sqlResultMatches' in spec) return sqlResultMatches(spec.sqlResultMatches.query, regexes(spec.sqlResultMatches.patterns));
+  if ('redisReplyMatches' in spec) return redisReplyMatches(spec.redisReplyMatches.command, regexes(spec.redisReplyMatches.patterns));
+  if ('containerUp' in spec) return containerUp(spec.containerUp);
+  if ('or' in spec) return or(...spec.or.map(c => compile(c, root)));
+  return and(...spec.and.map(c => compile(c, root)));
+}
 
 export class LevelEvaluator {
+  private rulesByLevel = new Map<number, ObjectiveRule[]>();
+
+  constructor(pack: ChallengePack) {
+    for (const [level, data] of Object.entries(pack.levels)) {
+      this.rulesByLevel.set(Number(level), data.objectives.map(o => ({ id: o.id, evaluate: compile(o.check, pack.root) })));
+    }
+  }
+
   /**
-   * Evaluate objectives for the current level against the latest command and VFS state.
-   * Returns IDs of newly completed objectives.
+   * Evaluate objectives for the current level against the latest command, what it printed
+   * and VFS state. Returns IDs of newly completed objectives.
    */
-  static evaluate(ctx: CommandContext, raw: string, exitCode: number): string[] {
+  evaluate(ctx: CommandContext, raw: string, exitCode: number, output = ''): string[] {
     if (exitCode !== 0) return [];
 
     const level = ctx.challenge.currentLevel;
-    const rules = RULES_BY_LEVEL[level];
+    const rules = this.rulesByLevel.get(level);
     if (!rules) return [];
 
     const completed = ctx.challenge.completedObjectives;
@@ -240,7 +205,7 @@ export class LevelEvaluator {
     for (const rule of rules) {
       if (completed.includes(rule.id)) continue;
       try {
-        if (rule.evaluate(ctx, raw, exitCode)) {
+        if (rule.evaluate(ctx, raw, exitCode, output)) {
           newlyCompleted.push(rule.id);
         }
       } catch {
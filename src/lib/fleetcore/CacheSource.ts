@@ -0,0 +1,203 @@
+/**
+ * Reading how a FleetCore route uses Redis without running it: the key its
+ * handler (or the service method the handler calls) reads before querying,
+ * how long it keeps what it stores, and what it deletes after a write.
+ * Keys are worked out from the string and template literals the code builds
+ * them with; a key built any other way means the cache isn't modelled.
+ */
+
+export interface CacheUse {
+  /** The key read before the database is queried, or null if the handler only writes */
+  key: string | null;
+  /** Whether what's loaded on a miss is written back under key */
+  stores: boolean;
+  /** Expiry in seconds, from EX options or setEx */
+  ttl: number | null;
+  /** Keys deleted once a write succeeds, exactly as written: DEL doesn't expand patterns */
+  deletes: string[];
+}
+
+export interface RouteParams {
+  id: string | null;
+  query: Record<string, string>;
+}
+
+/** A Redis client call on an object named like one: cache.get(, redis.setEx(, client.del( */
+const CLIENT_CALL = /\b\w*(?:cache|redis|client)\w*\.(get|set|setEx|setex|del)\s*\(/gi;
+
+/**
+ * How the handler for `verb path` in routeFile uses the cache, or null if it
+ * has no such handler, doesn't touch the cache, or builds keys dynamically
+ */
+export function cacheUse(
+  read: (path: string) => string | null,
+  routeFile: string,
+  verb: string,
+  path: string,
+  params: RouteParams,
+): CacheUse | null {
+  const route = read(routeFile);
+  if (route === null) return null;
+  const handler = new RegExp(`\\.${verb}\\(\\s*['"\`]${path.replace(/[/:]/g, '\\$&')}['"\`][^]*?(?:=>\\s*|function\\b[^{]*)\\{`).exec(route);
+  if (!handler) return null;
+  const handlerBody = block(route, handler.index + handler[0].length - 1);
+  if (handlerBody === null) return null;
+
+  const values: Record<string, unknown> = { 'req.query': params.query, 'req.params.id': params.id };
+  const bodies = [handlerBody, ...serviceMethods(read, routeFile, route, handlerBody, values)];
+  const code = bodies.join('\n');
+
+  const calls = Array.from(code.matchAll(CLIENT_CALL), m => ({ name: m[1].toLowerCase(), args: argumentList(code, m.index + m[0].length) }));
+  if (calls.length === 0) return null;
+
+  const lookup = calls.find(c => c.name === 'get');
+  const key = lookup ? evaluate(lookup.args[0], code, values) : null;
+  if (lookup && key === null) return null;
+  const deletes = calls.filter(c => c.name === 'del').map(c => evaluate(c.args[0], code, values));
+  if (deletes.includes(null)) return null;
+
+  const stores = calls.filter(c => c.name === 'set' || c.name === 'setex');
+  return {
+    key,
+    stores: stores.length > 0,
+    ttl: stores.map(expiry).find(ttl => ttl !== null) ?? null,
+    deletes: deletes as string[],
+  };
+}
+
+/**
+ * Bodies of the service methods the handler calls on instances created in
+ * the route file, binding each method's parameters to what the handler
+ * passes: req.query, req.params.id or nothing
+ */
+function serviceMethods(
+  read: (path: string) => string | null,
+  routeFile: string,
+  route: string,
+  handlerBody: string,
+  values: Record<string, unknown>,
+): string[] {
+  const bodies: string[] = [];
+  for (const [, instance, className] of route.matchAll(/\b(?:const|let)\s+(\w+)\s*=\s*new\s+(\w+)\s*\(/g)) {
+    const from = new RegExp(`import\\s*\\{[^}]*\\b${className}\\b[^}]*\\}\\s*from\\s*['"]([^'"]+)['"]`).exec(route)?.[1];
+    const source = from ? read(resolveImport(routeFile, from)) : null;
+    if (source === null) continue;
+    for (const call of handlerBody.matchAll(new RegExp(`\\b${instance}\\.(\\w+)\\s*\\(`, 'g'))) {
+      const method = new RegExp(`(?<![.\\w])${call[1]}\\s*\\(([^)]*)\\)[^{;]*\\{`).exec(source);
+      if (!method) continue;
+      const body = block(source, method.index + method[0].length - 1);
+      if (body === null) continue;
+      const passed = argumentList(handlerBody, call.index + call[0].length);
+      const names = splitTopLevel(method[1]).map(p => /^\s*(\w+)/.exec(p)?.[1]).filter((n): n is string => !!n);
+      names.forEach((name, i) => {
+        values[name] = passed[i] === undefined ? undefined : values[passed[i].trim()];
+      });
+      bodies.push(body);
+    }
+  }
+  return bodies;
+}
+
+/** The text from the { at start to its matching } */
+function block(source: string, start: number): string | null {
+  let depth = 0;
+  for (let i = start; i < source.length; i++) {
+    if (source[i] === '{') depth++;
+    else if (source[i] === '}' && --depth === 0) return source.slice(start, i + 1);
+  }
+  return null;
+}
+
+/** A call's arguments, starting just after its opening parenthesis */
+function argumentList(source: string, start: number): string[] {
+  let depth = 1;
+  for (let i = start; i < source.length; i++) {
+    if ('([{'.includes(source[i])) depth++;
+    else if (')]}'.includes(source[i]) && --depth === 0) {
+      const inner = source.slice(start, i);
+      return inner.trim() === '' ? [] : splitTopLevel(inner);
+    }
+  }
+  return [];
+}
+
+function splitTopLevel(text: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let current = '';
+  for (const char of text) {
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (`'"\``.includes(char)) {
+      quote = char;
+    } else if ('([{'.includes(char)) {
+      depth++;
+    } else if (')]}'.includes(char)) {
+      depth--;
+    } else if (char === ',' && depth === 0) {
+      parts.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  if (current.trim() !== '') parts.push(current.trim());
+  return parts;
+}
+
+/** The string a key expression builds, following a variable back to the const it was assigned */
+function evaluate(expression: string | undefined, code: string, values: Record<string, unknown>): string | null {
+  if (expression === undefined) return null;
+  const text = expression.trim();
+  const literal = /^(['"])([^]*)\1$/.exec(text);
+  if (literal) return literal[2];
+  if (/^`[^`]*`$/.test(text)) {
+    let failed = false;
+    const result = text.slice(1, -1).replace(/\$\{((?:[^{}]|\{\s*\})*)\}/g, (_, inner: string) => {
+      const value = substitute(inner, values);
+      if (value === null) failed = true;
+      return value ?? '';
+    });
+    return failed ? null : result;
+  }
+  if (/^\w+$/.test(text)) {
+    const assigned = new RegExp(`\\b(?:const|let)\\s+${text}\\s*=\\s*([^;\\n]+)`).exec(code)?.[1];
+    if (assigned !== undefined) return evaluate(assigned, code, values);
+    const value = values[text];
+    return typeof value === 'string' ? value : null;
+  }
+  return null;
+}
+
+/** A template substitution: a bound name, or JSON.stringify of one with an optional || {} fallback */
+function substitute(inner: string, values: Record<string, unknown>): string | null {
+  const stringify = /^\s*JSON\.stringify\(\s*([\w.]+)\s*(\|\|\s*\{\s*\})?\s*\)\s*$/.exec(inner);
+  if (stringify) {
+    const value = values[stringify[1]] ?? (stringify[2] ? {} : undefined);
+    return value === undefined ? 'undefined' : JSON.stringify(value);
+  }
+  const name = inner.trim();
+  if (!Object.hasOwn(values, name)) return null;
+  return String(values[name]);
+}
+
+/** EX from a SET's options, ioredis-style ('EX', 300) or node-redis-style ({ EX: 300 }), or setEx's seconds */
+function expiry(call: { name: string; args: string[] }): number | null {
+  const seconds = call.name === 'setex'
+    ? call.args[1]
+    : /['"]EX['"]\s*,\s*(\d+)|\bEX\s*:\s*(\d+)/.exec(call.args.slice(2).join(','))?.slice(1).find(Boolean);
+  const ttl = Number(seconds);
+  return Number.isInteger(ttl) && ttl > 0 ? ttl : null;
+}
+
+/** A relative import from a file under the project, as the .ts file it names */
+function resolveImport(fromFile: string, specifier: string): string {
+  const parts = fromFile.split('/').slice(0, -1);
+  for (const part of specifier.split('/')) {
+    if (part === '..') parts.pop();
+    else if (part !== '.') parts.push(part);
+  }
+  const path = parts.join('/');
+  return path.endsWith('.ts') ? path : `${path}.ts`;
+}
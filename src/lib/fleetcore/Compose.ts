@@ -0,0 +1,431 @@
+/**
+ * Reading the FleetCore project's docker-compose.yml the way Compose
+ * interprets it: each service's image, command line, published ports,
+ * environment, dependencies, restart policy and healthcheck, in whichever
+ * of Compose's short and long forms they're written. A file Compose would
+ * refuse is a ComposeError with the message `docker compose config` prints.
+ */
+import yaml from 'js-yaml';
+import type { VirtualFileSystem } from '../terminal/VirtualFileSystem';
+import { FLEETCORE_ROOT } from './FleetCoreState';
+
+export const COMPOSE_FILE = `${FLEETCORE_ROOT}/docker-compose.yml`;
+
+/** The names Compose looks for in the working directory and its parents, in order */
+export const COMPOSE_FILE_NAMES = ['compose.yaml', 'compose.yml', 'docker-compose.yml', 'docker-compose.yaml'];
+
+export interface PortMapping {
+  /** Port on the host; null when only the container port is listed and Docker picks one */
+  published: number | null;
+  target: number;
+}
+
+export type DependencyCondition = 'service_started' | 'service_healthy' | 'service_completed_successfully';
+
+export interface Dependency {
+  service: string;
+  condition: DependencyCondition;
+}
+
+export interface Healthcheck {
+  /** In exec form: ['CMD', program, ...args] or ['CMD-SHELL', command] */
+  test: string[];
+  /** Milliseconds */
+  interval: number;
+  timeout: number;
+  startPeriod: number;
+  retries: number;
+}
+
+export interface VolumeMount {
+  type: 'bind' | 'volume';
+  /** Host path for binds, volume name for named volumes, null for anonymous ones */
+  source: string | null;
+  target: string;
+  readOnly: boolean;
+}
+
+export interface ComposeService {
+  name: string;
+  image: string | null;
+  /** Build context as an absolute path, for services built from a Dockerfile */
+  build: string | null;
+  containerName: string | null;
+  /** The command override split into words, or empty to use the image's default */
+  command: string[];
+  ports: PortMapping[];
+  environment: Record<string, string>;
+  dependsOn: Dependency[];
+  /** no, always, unless-stopped, on-failure or on-failure:N */
+  restart: string;
+  healthcheck: Healthcheck | null;
+  volumes: VolumeMount[];
+}
+
+export interface ComposeProject {
+  /** The directory's name, which prefixes the project's containers, network and volumes */
+  name: string;
+  /** Absolute path of the file the project was read from */
+  file: string;
+  directory: string;
+  services: ComposeService[];
+  volumes: string[];
+}
+
+export class ComposeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ComposeError';
+  }
+}
+
+const TOP_LEVEL_KEYS = ['version', 'name', 'services', 'volumes', 'networks', 'secrets', 'configs'];
+const SERVICE_KEYS = [
+  'build', 'image', 'command', 'entrypoint', 'container_name', 'ports', 'expose', 'environment', 'env_file',
+  'depends_on', 'volumes', 'volumes_from', 'restart', 'healthcheck', 'networks', 'network_mode', 'links',
+  'labels', 'working_dir', 'user', 'hostname', 'domainname', 'deploy', 'logging', 'extra_hosts', 'dns',
+  'stdin_open', 'tty', 'profiles', 'platform', 'init', 'ulimits', 'cap_add', 'cap_drop', 'privileged',
+  'read_only', 'shm_size', 'stop_grace_period', 'stop_signal', 'tmpfs', 'secrets', 'configs', 'extends',
+  'pull_policy', 'mem_limit', 'cpus', 'sysctls', 'security_opt', 'develop',
+];
+const HEALTHCHECK_KEYS = ['test', 'interval', 'timeout', 'retries', 'start_period', 'start_interval', 'disable'];
+const RESTART_POLICIES = /^(?:no|always|unless-stopped|on-failure(?::\d+)?)$/;
+const CONDITIONS: DependencyCondition[] = ['service_started', 'service_healthy', 'service_completed_successfully'];
+
+/** Compose's healthcheck defaults */
+const HEALTHCHECK_DEFAULTS = { interval: 30_000, timeout: 30_000, startPeriod: 0, retries: 3 };
+
+/** The services the project's compose file defines, or null when there's no file or Compose would refuse it */
+export function loadCompose(fs: VirtualFileSystem): ComposeService[] | null {
+  try {
+    return readCompose(fs, COMPOSE_FILE)?.services ?? null;
+  } catch (err) {
+    if (err instanceof ComposeError) return null;
+    throw err;
+  }
+}
+
+/** The project a compose file describes, or null if the file doesn't exist; throws ComposeError if it's invalid */
+export function readCompose(fs: VirtualFileSystem, file: string): ComposeProject | null {
+  const source = fs.runAs('root', () => fs.readFile(file));
+  if (source === null) return null;
+  return parseCompose(source, file);
+}
+
+/** The compose file Compose would pick for a directory: the first known name there or in a parent */
+export function findComposeFile(fs: VirtualFileSystem, directory: string): string | null {
+  for (let dir = directory; ; dir = dir.slice(0, dir.lastIndexOf('/')) || '/') {
+    const found = COMPOSE_FILE_NAMES.map(name => `${dir === '/' ? '' : dir}/${name}`)
+      .find(path => fs.runAs('root', () => fs.readFile(path)) !== null);
+    if (found) return found;
+    if (dir === '/') return null;
+  }
+}
+
+export function parseCompose(source: string, file: string): ComposeProject {
+  let parsed: unknown;
+  try {
+    parsed = yaml.load(source);
+  } catch (err) {
+    if (err instanceof yaml.YAMLException) throw new ComposeError(`yaml: line ${err.mark.line + 1}: ${err.reason}`);
+    throw err;
+  }
+  if (parsed === undefined || parsed === null) throw new ComposeError('empty compose file');
+  if (!isRecord(parsed)) throw new ComposeError('Top-level object must be a mapping');
+  for (const key of Object.keys(parsed)) {
+    if (!TOP_LEVEL_KEYS.includes(key) && !key.startsWith('x-')) throw new ComposeError(`(root) Additional property ${key} is not allowed`);
+  }
+  if (parsed.services === undefined) throw new ComposeError('no service selected');
+  if (!isRecord(parsed.services)) throw new ComposeError('services must be a mapping');
+  const volumes = parsed.volumes === undefined || parsed.volumes === null ? {} : parsed.volumes;
+  if (!isRecord(volumes)) throw new ComposeError('volumes must be a mapping');
+
+  const directory = file.slice(0, file.lastIndexOf('/')) || '/';
+  const services = Object.entries(parsed.services).map(([name, raw]) => service(name, raw, directory));
+  const names = services.map(s => s.name);
+  for (const s of services) {
+    for (const dependency of s.dependsOn) {
+      if (!names.includes(dependency.service)) {
+        throw new ComposeError(`service "${s.name}" depends on undefined service "${dependency.service}": invalid compose project`);
+      }
+    }
+    for (const mount of s.volumes) {
+      if (mount.type === 'volume' && mount.source !== null && !Object.hasOwn(volumes, mount.source)) {
+        throw new ComposeError(`service "${s.name}" refers to undefined volume ${mount.source}: invalid compose project`);
+      }
+    }
+  }
+  return {
+    name: (typeof parsed.name === 'string' ? parsed.name : directory.split('/').pop() || 'default').toLowerCase(),
+    file,
+    directory,
+    services,
+    volumes: Object.keys(volumes),
+  };
+}
+
+/** The project as `docker compose config` prints it: every short form expanded and keys sorted */
+export function composeConfig(project: ComposeProject): string {
+  const services = Object.fromEntries([...project.services].sort((a, b) => a.name.localeCompare(b.name)).map(s => {
+    const spec: Record<string, unknown> = {};
+    if (s.build !== null) spec.build = { context: s.build, dockerfile: 'Dockerfile' };
+    if (s.command.length > 0) spec.command = s.command;
+    if (s.containerName !== null) spec.container_name = s.containerName;
+    if (s.dependsOn.length > 0) {
+      spec.depends_on = Object.fromEntries(s.dependsOn.map(d => [d.service, { condition: d.condition, required: true }]));
+    }
+    if (Object.keys(s.environment).length > 0) spec.environment = sortedRecord(s.environment);
+    if (s.healthcheck) {
+      spec.healthcheck = {
+        test: s.healthcheck.test,
+        timeout: goDuration(s.healthcheck.timeout),
+        interval: goDuration(s.healthcheck.interval),
+        retries: s.healthcheck.retries,
+        start_period: goDuration(s.healthcheck.startPeriod),
+      };
+    }
+    if (s.image !== null) spec.image = s.image;
+    spec.networks = { default: null };
+    if (s.ports.length > 0) {
+      spec.ports = s.ports.map(p => ({
+        mode: 'ingress',
+        target: p.target,
+        ...(p.published === null ? {} : { published: String(p.published) }),
+        protocol: 'tcp',
+      }));
+    }
+    if (s.restart !== 'no') spec.restart = s.restart;
+    if (s.volumes.length > 0) {
+      spec.volumes = s.volumes.map(v => ({
+        type: v.type,
+        ...(v.source === null ? {} : { source: v.source }),
+        target: v.target,
+        ...(v.readOnly ? { read_only: true } : {}),
+        ...(v.type === 'bind' ? { bind: { create_host_path: true } } : { volume: {} }),
+      }));
+    }
+    return [s.name, spec];
+  }));
+  const config: Record<string, unknown> = {
+    name: project.name,
+    services,
+    networks: { default: { name: `${project.name}_default` } },
+  };
+  if (project.volumes.length > 0) {
+    config.volumes = Object.fromEntries(project.volumes.map(v => [v, { name: `${project.name}_${v}` }]));
+  }
+  return yaml.dump(config, { lineWidth: -1, noRefs: true, quotingType: '"' }).trimEnd();
+}
+
+/** A redis:// URL's parts; the database number comes from the path */
+export function parseRedisUrl(url: string): { host: string; port: number; password: string | null; db: number } | null {
+  const match = /^rediss?:\/\/(?:([^:@/]*)(?::([^@/]*))?@)?([^:/]+)(?::(\d+))?(?:\/(\d+))?\/?$/.exec(url.trim());
+  if (!match) return null;
+  const [, user, password, host, port, db] = match;
+  return {
+    host,
+    port: port ? Number(port) : 6379,
+    // redis://:secret@host and redis://secret@host both carry just a password
+    password: password !== undefined ? decodeURIComponent(password) : user ? decodeURIComponent(user) : null,
+    db: db ? Number(db) : 0,
+  };
+}
+
+/** The addresses /etc/hosts gives names, which is how the host reaches the project's containers */
+export function hostsFile(fs: VirtualFileSystem): Map<string, string> {
+  const hosts = new Map<string, string>();
+  const content = fs.runAs('root', () => fs.readFile('/etc/hosts')) ?? '';
+  for (const line of content.split('\n')) {
+    const [address, ...names] = line.replace(/#.*/, '').trim().split(/\s+/);
+    if (!/^\d+\.\d+\.\d+\.\d+$/.test(address ?? '')) continue;
+    for (const name of names) if (!hosts.has(name)) hosts.set(name, address);
+  }
+  return hosts;
+}
+
+/** Milliseconds the way Go prints a time.Duration: 1m30s, 5s, 500ms, 0s */
+export function goDuration(ms: number): string {
+  if (ms === 0) return '0s';
+  if (ms < 1000) return `${ms}ms`;
+  const hours = Math.floor(ms / 3_600_000);
+  const minutes = Math.floor((ms % 3_600_000) / 60_000);
+  const seconds = (ms % 60_000) / 1000;
+  return `${hours ? `${hours}h` : ''}${hours || minutes ? `${minutes}m` : ''}${seconds}s`;
+}
+
+function service(name: string, raw: unknown, directory: string): ComposeService {
+  const at = `services.${name}`;
+  if (!isRecord(raw)) throw new ComposeError(`${at} must be a mapping`);
+  for (const key of Object.keys(raw)) {
+    if (!SERVICE_KEYS.includes(key) && !key.startsWith('x-')) throw new ComposeError(`${at} Additional property ${key} is not allowed`);
+  }
+  const image = optionalString(raw.image, `${at}.image`);
+  const build = buildContext(raw.build, `${at}.build`, directory);
+  if (image === null && build === null) {
+    throw new ComposeError(`service "${name}" has neither an image nor a build context specified: invalid compose project`);
+  }
+  const restart = raw.restart === undefined ? 'no' : String(raw.restart);
+  if (!RESTART_POLICIES.test(restart)) throw new ComposeError(`${at}.restart: invalid restart policy "${restart}"`);
+  return {
+    name,
+    image,
+    build,
+    containerName: optionalString(raw.container_name, `${at}.container_name`),
+    command: commandWords(raw.command, `${at}.command`),
+    ports: list(raw.ports, `${at}.ports`).map(portMapping),
+    environment: environment(raw.environment, `${at}.environment`),
+    dependsOn: dependencies(raw.depends_on, `${at}.depends_on`),
+    restart,
+    healthcheck: healthcheck(raw.healthcheck, `${at}.healthcheck`),
+    volumes: list(raw.volumes, `${at}.volumes`).map(v => volumeMount(v, directory)),
+  };
+}
+
+function optionalString(value: unknown, at: string): string | null {
+  if (value === undefined || value === null) return null;
+  if (typeof value !== 'string') throw new ComposeError(`${at} must be a string`);
+  return value;
+}
+
+function list(value: unknown, at: string): unknown[] {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) throw new ComposeError(`${at} must be a array`);
+  return value;
+}
+
+function buildContext(build: unknown, at: string, directory: string): string | null {
+  if (build === undefined || build === null) return null;
+  const context = isRecord(build) ? build.context ?? '.' : build;
+  if (typeof context !== 'string') throw new ComposeError(`${at} must be a string or mapping`);
+  return resolvePath(directory, context);
+}
+
+function commandWords(command: unknown, at: string): string[] {
+  if (command === undefined || command === null) return [];
+  if (Array.isArray(command)) return command.map(String);
+  if (typeof command !== 'string') throw new ComposeError(`${at} must be a string or array`);
+  return Array.from(command.matchAll(/"([^"]*)"|'([^']*)'|(\S+)/g), m => m[1] ?? m[2] ?? m[3]);
+}
+
+/** "8080:80", "127.0.0.1:8080:80", "80", "6379:6379/tcp" or the long { target, published } form */
+function portMapping(entry: unknown): PortMapping {
+  if (isRecord(entry)) {
+    const target = Number(entry.target);
+    if (!Number.isInteger(target)) throw new ComposeError(`invalid containerPort: ${entry.target}`);
+    return { target, published: entry.published === undefined ? null : Number(entry.published) };
+  }
+  const parts = String(entry).replace(/\/(tcp|udp)$/, '').split(':');
+  const target = Number(parts[parts.length - 1]);
+  if (!Number.isInteger(target) || target < 1 || target > 65535) {
+    throw new ComposeError(`invalid containerPort: ${parts[parts.length - 1]}`);
+  }
+  if (parts.length === 1) return { target, published: null };
+  const published = Number(parts[parts.length - 2]);
+  if (!Number.isInteger(published) || published < 1 || published > 65535) {
+    throw new ComposeError(`invalid hostPort: ${parts[parts.length - 2]}`);
+  }
+  return { target, published };
+}
+
+/** Both the KEY=value list form and the mapping form */
+function environment(raw: unknown, at: string): Record<string, string> {
+  if (raw === undefined || raw === null) return {};
+  if (Array.isArray(raw)) {
+    return Object.fromEntries(raw.map(String).map(item => {
+      const eq = item.indexOf('=');
+      return eq === -1 ? [item, ''] : [item.slice(0, eq), item.slice(eq + 1)];
+    }));
+  }
+  if (!isRecord(raw)) throw new ComposeError(`${at} must be a mapping`);
+  return Object.fromEntries(Object.entries(raw).map(([key, value]) => [key, value === null ? '' : String(value)]));
+}
+
+/** The list form, which waits for each dependency to start, or the mapping form with conditions */
+function dependencies(raw: unknown, at: string): Dependency[] {
+  if (raw === undefined || raw === null) return [];
+  if (Array.isArray(raw)) return raw.map(service => ({ service: String(service), condition: 'service_started' }));
+  if (!isRecord(raw)) throw new ComposeError(`${at} must be a array or mapping`);
+  return Object.entries(raw).map(([service, spec]) => {
+    const condition = isRecord(spec) && spec.condition !== undefined ? String(spec.condition) : 'service_started';
+    if (!CONDITIONS.includes(condition as DependencyCondition)) {
+      throw new ComposeError(`${at}.${service}.condition must be one of the following: ${CONDITIONS.map(c => `"${c}"`).join(', ')}`);
+    }
+    return { service, condition: condition as DependencyCondition };
+  });
+}
+
+function healthcheck(raw: unknown, at: string): Healthcheck | null {
+  if (raw === undefined || raw === null) return null;
+  if (!isRecord(raw)) throw new ComposeError(`${at} must be a mapping`);
+  for (const key of Object.keys(raw)) {
+    if (!HEALTHCHECK_KEYS.includes(key)) throw new ComposeError(`${at} Additional property ${key} is not allowed`);
+  }
+  if (raw.disable === true) return null;
+  const test = typeof raw.test === 'string' ? ['CMD-SHELL', raw.test]
+    : Array.isArray(raw.test) ? raw.test.map(String)
+    : null;
+  if (!test) throw new ComposeError(`${at}.test must be a string or array`);
+  if (test[0] === 'NONE') return null;
+  if (test[0] !== 'CMD' && test[0] !== 'CMD-SHELL') {
+    throw new ComposeError(`${at}.test: the first element must be "NONE", "CMD" or "CMD-SHELL"`);
+  }
+  const retries = raw.retries === undefined ? HEALTHCHECK_DEFAULTS.retries : Number(raw.retries);
+  if (!Number.isInteger(retries) || retries < 0) throw new ComposeError(`${at}.retries must be a integer`);
+  return {
+    test,
+    interval: duration(raw.interval, `${at}.interval`) ?? HEALTHCHECK_DEFAULTS.interval,
+    timeout: duration(raw.timeout, `${at}.timeout`) ?? HEALTHCHECK_DEFAULTS.timeout,
+    startPeriod: duration(raw.start_period, `${at}.start_period`) ?? HEALTHCHECK_DEFAULTS.startPeriod,
+    retries,
+  };
+}
+
+/** Go duration strings like 10s, 1m30s or 500ms, in milliseconds */
+function duration(raw: unknown, at: string): number | null {
+  if (raw === undefined || raw === null) return null;
+  const text = String(raw).trim();
+  const units: Record<string, number> = { ms: 1, s: 1000, m: 60_000, h: 3_600_000 };
+  const parts = Array.from(text.matchAll(/(\d+(?:\.\d+)?)(ms|s|m|h)/g));
+  if (parts.length === 0 || parts.map(p => p[0]).join('') !== text) {
+    throw new ComposeError(`${at}: time: invalid duration "${text}"`);
+  }
+  return parts.reduce((total, [, n, unit]) => total + Number(n) * units[unit], 0);
+}
+
+/** "./src:/app", "pgdata:/var/lib/postgresql/data", "/app/node_modules", with an optional :ro, or the long form */
+function volumeMount(entry: unknown, directory: string): VolumeMount {
+  if (isRecord(entry)) {
+    const type = entry.type === 'bind' ? 'bind' : 'volume';
+    const source = typeof entry.source === 'string' ? entry.source : null;
+    return {
+      type,
+      source: type === 'bind' && source !== null ? resolvePath(directory, source) : source,
+      target: String(entry.target),
+      readOnly: entry.read_only === true,
+    };
+  }
+  const parts = String(entry).split(':');
+  const readOnly = parts.length > 1 && /^(ro|rw)$/.test(parts[parts.length - 1]) ? parts.pop() === 'ro' : false;
+  if (parts.length === 1) return { type: 'volume', source: null, target: parts[0], readOnly };
+  const [source, target] = parts;
+  const bind = source.startsWith('.') || source.startsWith('/');
+  return { type: bind ? 'bind' : 'volume', source: bind ? resolvePath(directory, source) : source, target, readOnly };
+}
+
+function resolvePath(directory: string, path: string): string {
+  if (path.startsWith('/')) return path;
+  const parts = directory.split('/').filter(Boolean);
+  for (const part of path.split('/')) {
+    if (part === '..') parts.pop();
+    else if (part !== '.' && part !== '') parts.push(part);
+  }
+  return '/' + parts.join('/');
+}
+
+function sortedRecord(record: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(Object.entries(record).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,588 @@
+/**
+ * The Docker host the FleetCore project runs on: containers created from
+ * compose services, what happens when they start, and what `docker ps`,
+ * `docker logs` and `docker inspect` see afterwards. Nothing runs in the
+ * background; each container's state at a given moment is worked out from
+ * when it was started and how its main process behaves, so a container
+ * whose process exits straight away crash-loops with Docker's restart
+ * backoff for as long as anyone looks.
+ */
+import type { VirtualFileSystem } from '../terminal/VirtualFileSystem';
+import type { Clock } from '../terminal/Clock';
+import { ComposeProject, ComposeService, hostsFile, parseRedisUrl } from './Compose';
+import { REDIS_VERSION, memoryBytes } from './RedisStore';
+
+export interface Container {
+  id: string;
+  name: string;
+  /** Compose project and service it was created for */
+  project: string;
+  service: string;
+  image: string;
+  /** The service definition it was created from; up recreates it when the definition changes */
+  spec: ComposeService;
+  /** For built services, the Dockerfile's base image, which decides what tools are installed */
+  baseImage: string;
+  ip: string;
+  createdAt: number;
+  /** When it was last started, or null while it's stopped */
+  startedAt: number | null;
+  /** When it was stopped, for containers that have run */
+  finishedAt: number | null;
+  exitCode: number;
+  /** How the main process fails soon after each start, decided when it starts; null if it keeps running */
+  failure: Failure | null;
+  /** Set when compose waited for its healthcheck to pass, so it's known healthy from then on */
+  healthyAt: number | null;
+  /** Runs before the current one, for logs */
+  history: { startedAt: number; restarts: number; failure: Failure | null }[];
+}
+
+export interface Failure {
+  exitCode: number;
+  /** The process's output from one start up to its exit */
+  log(startedAt: number): string[];
+}
+
+export type ContainerStatus =
+  | { state: 'created' }
+  | { state: 'running'; since: number; restarts: number }
+  | { state: 'restarting'; exitedAt: number; exitCode: number; restarts: number }
+  | { state: 'exited'; exitedAt: number; exitCode: number; restarts: number };
+
+export type Health = 'starting' | 'healthy' | 'unhealthy';
+
+export interface DockerHost {
+  containers: Map<string, Container>;
+  networks: Set<string>;
+}
+
+/** One line of `docker compose up` progress, e.g. Container fleetcore-api  Started */
+export interface UpEvent {
+  resource: string;
+  action: string;
+}
+
+const SUBNET = '172.18.0';
+/** How long a process that fails takes to get there: connecting, then giving up */
+const FAILURE_RUN_MS = 400;
+/** Docker doubles the delay between restarts from 100ms up to a minute */
+const BACKOFF_START_MS = 100;
+const BACKOFF_MAX_MS = 60_000;
+const DAY_MS = 86_400_000;
+
+const MAXMEMORY_POLICIES = [
+  'volatile-lru', 'allkeys-lru', 'volatile-lfu', 'allkeys-lfu', 'volatile-random', 'allkeys-random', 'volatile-ttl', 'noeviction',
+];
+
+// The host belongs to the shell's filesystem, like the database, so separate engines don't share it
+const hosts = new WeakMap<VirtualFileSystem, DockerHost>();
+
+/** The session's Docker host; the project has never been brought up, so it starts with no containers */
+export function dockerHostFor(fs: VirtualFileSystem): DockerHost {
+  let host = hosts.get(fs);
+  if (!host) {
+    host = { containers: new Map(), networks: new Set() };
+    hosts.set(fs, host);
+  }
+  return host;
+}
+
+/** Whether the container created for a compose service is up; a service that isn't answers nobody */
+export function serviceUp(fs: VirtualFileSystem, clock: Clock, service: string): boolean {
+  const now = clock.now();
+  return Array.from(dockerHostFor(fs).containers.values()).some(c => c.service === service && isUp(c, now));
+}
+
+export function containerName(project: ComposeProject, service: ComposeService): string {
+  return service.containerName ?? `${project.name}-${service.name}`;
+}
+
+/** The project's containers in the order compose starts them: each after the services it depends on */
+export function startOrder(project: ComposeProject): ComposeService[] {
+  const ordered: ComposeService[] = [];
+  const visit = (service: ComposeService, seen: string[]) => {
+    if (ordered.includes(service) || seen.includes(service.name)) return;
+    for (const dependency of service.dependsOn) {
+      const target = project.services.find(s => s.name === dependency.service);
+      if (target) visit(target, [...seen, service.name]);
+    }
+    ordered.push(service);
+  };
+  project.services.forEach(s => visit(s, []));
+  return ordered;
+}
+
+/**
+ * Create and start the project's containers, or the named services and what
+ * they depend on, the way `docker compose up -d` does: unchanged running
+ * containers are left alone and changed ones are recreated. When compose
+ * would stop partway, error says why and events hold the progress so far.
+ */
+export function composeUp(
+  fs: VirtualFileSystem,
+  host: DockerHost,
+  project: ComposeProject,
+  only: string[],
+  clock: Clock,
+): { events: UpEvent[]; error: string | null } {
+  const events: UpEvent[] = [];
+  const now = clock.now();
+  const wanted = new Set<string>();
+  const want = (name: string) => {
+    if (wanted.has(name)) return;
+    wanted.add(name);
+    project.services.find(s => s.name === name)?.dependsOn.forEach(d => want(d.service));
+  };
+  (only.length > 0 ? only : project.services.map(s => s.name)).forEach(want);
+
+  const network = `${project.name}_default`;
+  if (!host.networks.has(network)) {
+    host.networks.add(network);
+    events.push({ resource: `Network ${network}`, action: 'Created' });
+  }
+
+  for (const service of startOrder(project).filter(s => wanted.has(s.name))) {
+    const name = containerName(project, service);
+    let container = host.containers.get(name);
+    const changed = container !== undefined && JSON.stringify(container.spec) !== JSON.stringify(service);
+
+    for (const dependency of service.dependsOn) {
+      const target = host.containers.get(containerName(project, project.services.find(s => s.name === dependency.service)!));
+      if (!target) continue;
+      const problem = dependencyProblem(target, dependency.condition, events, now);
+      if (problem) return { events, error: problem };
+    }
+
+    // A container that's restarting is still the one compose wants; its restart policy keeps it going
+    const state = container ? status(container, now).state : null;
+    if (container && !changed && (state === 'running' || state === 'restarting')) {
+      events.push({ resource: `Container ${name}`, action: 'Running' });
+      continue;
+    }
+    if (container && changed) {
+      host.containers.delete(name);
+      container = createContainer(fs, host, project, service, now, clock);
+      events.push({ resource: `Container ${name}`, action: 'Recreated' });
+    } else if (!container) {
+      container = createContainer(fs, host, project, service, now, clock);
+    }
+    const conflict = portConflict(host, container, now);
+    if (conflict) {
+      return {
+        events,
+        error: `Error response from daemon: driver failed programming external connectivity on endpoint ${name} (${container.id}${'0'.repeat(52)}): `
+          + `Bind for 0.0.0.0:${conflict} failed: port is already allocated`,
+      };
+    }
+    startContainer(host, container, now);
+    events.push({ resource: `Container ${name}`, action: 'Started' });
+  }
+  return { events, error: null };
+}
+
+/** Start a container's main process, deciding from the current state of the host whether it will stay up */
+export function startContainer(host: DockerHost, container: Container, now: number): void {
+  if (container.startedAt !== null) {
+    container.history.push({ startedAt: container.startedAt, restarts: restartsBefore(container, now), failure: container.failure });
+  }
+  container.startedAt = now;
+  container.finishedAt = null;
+  container.healthyAt = null;
+  container.failure = diagnose(host, container);
+}
+
+export function stopContainer(container: Container, now: number): void {
+  const current = status(container, now);
+  if (current.state === 'created' || current.state === 'exited') return;
+  container.history.push({ startedAt: container.startedAt!, restarts: current.restarts, failure: container.failure });
+  container.exitCode = current.state === 'restarting' ? current.exitCode : 0;
+  container.startedAt = null;
+  container.finishedAt = current.state === 'restarting' ? current.exitedAt : now;
+}
+
+/** What the container is doing at a moment: running, waiting to be restarted after its process exited, or stopped */
+export function status(container: Container, now: number): ContainerStatus {
+  if (container.startedAt === null) {
+    if (container.finishedAt === null) return { state: 'created' };
+    return { state: 'exited', exitedAt: container.finishedAt, exitCode: container.exitCode, restarts: 0 };
+  }
+  return timeline(container, now).status;
+}
+
+/** The container's health, for containers with a healthcheck that are running */
+export function health(container: Container, now: number): { health: Health; output: string } | null {
+  const check = container.spec.healthcheck;
+  const current = status(container, now);
+  if (!check || current.state !== 'running') return null;
+  const probe = runProbe(container, check.test);
+  const known = container.healthyAt ?? current.since + check.interval;
+  if (now < known) return { health: 'starting', output: '' };
+  if (probe.exitCode === 0) return { health: 'healthy', output: probe.output };
+  // Failures during the start period don't count, and it takes retries failures in a row
+  const unhealthyAt = current.since + Math.max(check.startPeriod, 0) + check.interval * Math.max(check.retries, 1);
+  return { health: now >= unhealthyAt ? 'unhealthy' : 'starting', output: probe.output };
+}
+
+/** Up and staying up: not crash-looping or stopped, and not failing its healthcheck */
+export function isUp(container: Container, now: number): boolean {
+  return status(container, now).state === 'running' && container.failure === null
+    && health(container, now)?.health !== 'unhealthy';
+}
+
+/** Everything the container's processes have printed, oldest run first */
+export function containerLogs(container: Container, now: number): string[] {
+  const runs = [...container.history];
+  if (container.startedAt !== null) runs.push({ startedAt: container.startedAt, restarts: -1, failure: container.failure });
+  return runs.flatMap(run => timeline({ ...container, ...run }, now, run.restarts).starts
+    .flatMap(start => (run.failure ? run.failure.log(start) : startupLog(container, start))));
+}
+
+/** The ports a container's main process listens on, as its image and configuration decide */
+export function listeningPorts(container: Container): number[] {
+  const { spec } = container;
+  const flag = (name: string) => {
+    const i = spec.command.indexOf(name);
+    return i === -1 ? undefined : spec.command[i + 1];
+  };
+  if (isImage(container, 'redis')) return [Number(flag('--port') ?? 6379)];
+  if (isImage(container, 'postgres')) return [Number(flag('-p') ?? spec.environment.PGPORT ?? 5432)];
+  if (spec.build !== null) return [Number(spec.environment.PORT || 3000)];
+  return spec.ports.map(p => p.target);
+}
+
+/** Human-friendly durations the way Docker prints them: Less than a second, About a minute, 2 days */
+export function humanDuration(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(seconds / 60);
+  const hours = Math.round(seconds / 3600);
+  if (seconds < 1) return 'Less than a second';
+  if (seconds === 1) return '1 second';
+  if (seconds < 60) return `${seconds} seconds`;
+  if (minutes === 1) return 'About a minute';
+  if (minutes < 60) return `${minutes} minutes`;
+  if (hours === 1) return 'About an hour';
+  if (hours < 48) return `${hours} hours`;
+  if (hours < 24 * 7 * 2) return `${Math.floor(hours / 24)} days`;
+  if (hours < 24 * 30 * 2) return `${Math.floor(hours / 24 / 7)} weeks`;
+  if (hours < 24 * 365 * 2) return `${Math.floor(hours / 24 / 30)} months`;
+  return `${Math.floor(hours / 24 / 365)} years`;
+}
+
+function createContainer(
+  fs: VirtualFileSystem,
+  host: DockerHost,
+  project: ComposeProject,
+  service: ComposeService,
+  now: number,
+  clock: Clock,
+): Container {
+  const name = containerName(project, service);
+  const dockerfile = service.build === null ? null : fs.runAs('root', () => fs.readFile(`${service.build}/Dockerfile`));
+  const container: Container = {
+    id: Array.from({ length: 12 }, () => Math.floor(clock.random() * 16).toString(16)).join(''),
+    name,
+    project: project.name,
+    service: service.name,
+    image: service.image ?? `${project.name}-${service.name}`,
+    spec: service,
+    baseImage: service.image ?? /^\s*FROM\s+(\S+)/im.exec(dockerfile ?? '')?.[1] ?? 'node:20-alpine',
+    ip: address(fs, host, service.name),
+    createdAt: now,
+    startedAt: null,
+    finishedAt: null,
+    exitCode: 0,
+    failure: null,
+    healthyAt: null,
+    history: [],
+  };
+  host.containers.set(name, container);
+  return container;
+}
+
+/** The address /etc/hosts gives the service, or the next free one on the project network */
+function address(fs: VirtualFileSystem, host: DockerHost, service: string): string {
+  const listed = hostsFile(fs).get(service);
+  if (listed?.startsWith(`${SUBNET}.`)) return listed;
+  const taken = new Set([...hostsFile(fs).values(), ...Array.from(host.containers.values(), c => c.ip)]);
+  for (let i = 2; i < 255; i++) {
+    if (!taken.has(`${SUBNET}.${i}`)) return `${SUBNET}.${i}`;
+  }
+  return `${SUBNET}.254`;
+}
+
+/**
+ * The run phases since the container was started: the process runs, exits
+ * and, if the restart policy says so, is started again after the backoff.
+ * `limit` caps the restarts for runs that were stopped.
+ */
+function timeline(container: Container, now: number, limit = -1): { starts: number[]; status: ContainerStatus } {
+  const since = container.startedAt!;
+  if (!container.failure) return { starts: [since], status: { state: 'running', since, restarts: 0 } };
+  const { exitCode } = container.failure;
+  const starts: number[] = [];
+  let start = since;
+  for (let restarts = 0; ; restarts++) {
+    starts.push(start);
+    const exitedAt = start + FAILURE_RUN_MS;
+    if (exitedAt > now) return { starts, status: { state: 'running', since: start, restarts } };
+    if (!restartsAfter(container.spec.restart, restarts) || restarts === limit) {
+      return { starts, status: { state: 'exited', exitedAt, exitCode, restarts } };
+    }
+    const next = exitedAt + Math.min(BACKOFF_START_MS * 2 ** restarts, BACKOFF_MAX_MS);
+    if (next > now) return { starts, status: { state: 'restarting', exitedAt, exitCode, restarts } };
+    start = next;
+  }
+}
+
+function restartsBefore(container: Container, now: number): number {
+  const current = status(container, now);
+  return current.state === 'created' ? 0 : current.restarts;
+}
+
+/** Whether the restart policy starts the process again after it has been restarted this many times */
+function restartsAfter(policy: string, restarts: number): boolean {
+  if (policy === 'always' || policy === 'unless-stopped') return true;
+  const onFailure = /^on-failure(?::(\d+))?$/.exec(policy);
+  if (!onFailure) return false;
+  return onFailure[1] === undefined || restarts < Number(onFailure[1]);
+}
+
+/** Why compose can't go on to start a dependent service, adding the progress lines waiting produces */
+function dependencyProblem(target: Container, condition: string, events: UpEvent[], now: number): string | null {
+  if (condition === 'service_healthy') {
+    if (!target.spec.healthcheck) return `dependency failed to start: container ${target.name} has no healthcheck configured`;
+    events.push({ resource: `Container ${target.name}`, action: 'Waiting' });
+    if (target.failure || runProbe(target, target.spec.healthcheck.test).exitCode !== 0) {
+      events.push({ resource: `Container ${target.name}`, action: 'Error' });
+      return `dependency failed to start: container ${target.name} is unhealthy`;
+    }
+    // Compose blocks until the first check passes
+    target.healthyAt = now;
+    events.push({ resource: `Container ${target.name}`, action: 'Healthy' });
+  }
+  if (condition === 'service_completed_successfully' && target.failure) {
+    events.push({ resource: `Container ${target.name}`, action: 'Waiting' });
+    events.push({ resource: `Container ${target.name}`, action: 'Error' });
+    return `service "${target.service}" didn't complete successfully: exit ${target.failure.exitCode}`;
+  }
+  return null;
+}
+
+function portConflict(host: DockerHost, container: Container, now: number): number | null {
+  const taken = Array.from(host.containers.values())
+    .filter(c => c !== container && c.startedAt !== null && status(c, now).state !== 'exited')
+    .flatMap(c => c.spec.ports.map(p => p.published));
+  return container.spec.ports.find(p => p.published !== null && taken.includes(p.published))?.published ?? null;
+}
+
+/**
+ * How the container's main process fails with the host as it is, if it
+ * does. The API connects to the database and Redis named by its *_URL
+ * variables before it listens, and exits when either can't be reached;
+ * Redis refuses to start with settings it doesn't understand.
+ */
+function diagnose(host: DockerHost, container: Container): Failure | null {
+  if (isImage(container, 'redis')) return redisConfigError(container);
+  if (container.spec.build === null) return null;
+
+  const steps: string[] = [];
+  for (const value of Object.values(container.spec.environment)) {
+    const target = connectionTarget(value);
+    if (!target) continue;
+    const problem = connectionProblem(host, container, target);
+    if (problem) {
+      return {
+        exitCode: 1,
+        log: start => [
+          ...apiLog(start, [...steps, `Connecting to ${target.label}...`]),
+          'node:internal/process/promises:288',
+          '            triggerUncaughtException(err, true /* fromPromise */);',
+          '            ^',
+          '',
+          ...problem,
+          '',
+          'Node.js v20.11.0',
+        ],
+      };
+    }
+    steps.push(`Connecting to ${target.label}...`, `${target.label[0].toUpperCase()}${target.label.slice(1)} connection established`);
+  }
+  return null;
+}
+
+function connectionTarget(url: string): { label: string; host: string; port: number } | null {
+  const redis = parseRedisUrl(url);
+  if (redis) return { label: 'Redis', host: redis.host, port: redis.port };
+  const postgres = /^postgres(?:ql)?:\/\/(?:[^@/]*@)?([^:/?]+)(?::(\d+))?/.exec(url.trim());
+  if (postgres) return { label: 'database', host: postgres[1], port: Number(postgres[2] ?? 5432) };
+  return null;
+}
+
+/** The Node error a connection from inside the container gets, or null if something is listening */
+function connectionProblem(host: DockerHost, from: Container, target: { host: string; port: number }): string[] | null {
+  const refused = (ip: string) => [
+    `Error: connect ECONNREFUSED ${ip}:${target.port}`,
+    '    at TCPConnectWrap.afterConnect [as oncomplete] (node:net:1555:16) {',
+    '  errno: -111,',
+    "  code: 'ECONNREFUSED',",
+    "  syscall: 'connect',",
+    `  address: '${ip}',`,
+    `  port: ${target.port}`,
+    '}',
+  ];
+  if (['localhost', '127.0.0.1'].includes(target.host)) {
+    return listeningPorts(from).includes(target.port) ? null : refused('127.0.0.1');
+  }
+  // Docker's DNS only answers for running containers on the same network
+  const peer = Array.from(host.containers.values()).find(c =>
+    c.project === from.project && (c.service === target.host || c.name === target.host || c.ip === target.host)
+    && c.startedAt !== null);
+  if (!peer) {
+    return [
+      `Error: getaddrinfo ENOTFOUND ${target.host}`,
+      '    at GetAddrInfoReqWrap.onlookup [as oncomplete] (node:dns:107:26) {',
+      '  errno: -3008,',
+      "  code: 'ENOTFOUND',",
+      "  syscall: 'getaddrinfo',",
+      `  hostname: '${target.host}'`,
+      '}',
+    ];
+  }
+  return listeningPorts(peer).includes(target.port) && !peer.failure ? null : refused(peer.ip);
+}
+
+function redisConfigError(container: Container): Failure | null {
+  const args = container.spec.command.slice(container.spec.command[0] === 'redis-server' ? 1 : 0);
+  const problems: [string, string][] = [];
+  for (let i = 0; i < args.length; i++) {
+    if (!args[i].startsWith('--')) continue;
+    const name = args[i].slice(2);
+    const value = args[i + 1] ?? '';
+    if (name === 'maxmemory-policy' && !MAXMEMORY_POLICIES.includes(value)) {
+      problems.push([`${name} "${value}"`, `argument(s) must be one of the following: ${MAXMEMORY_POLICIES.join(', ')}`]);
+    } else if (name === 'maxmemory' && memoryBytes(value) === null) {
+      problems.push([`${name} "${value}"`, 'argument must be a memory value']);
+    } else if (name === 'port' && !/^\d+$/.test(value)) {
+      problems.push([`${name} "${value}"`, 'argument couldn\'t be parsed into an integer']);
+    }
+  }
+  if (problems.length === 0) return null;
+  const [directive, reason] = problems[0];
+  return {
+    exitCode: 1,
+    log: start => [
+      `1:C ${redisTimestamp(start)} # oO0OoO0OoO0Oo Redis is starting oO0OoO0OoO0Oo`,
+      '',
+      '*** FATAL CONFIG FILE ERROR (Redis 7.2.4) ***',
+      'Reading the configuration file, at line 2',
+      `>>> '${directive}'`,
+      reason,
+    ],
+  };
+}
+
+/** What each image prints when it starts up cleanly */
+function startupLog(container: Container, start: number): string[] {
+  if (isImage(container, 'postgres')) {
+    const at = (offset: number) => `${new Date(start + offset).toISOString().replace('T', ' ').replace('Z', '')} UTC`;
+    const port = listeningPorts(container)[0];
+    return [
+      '',
+      'PostgreSQL Database directory appears to contain a database; Skipping initialization',
+      '',
+      `${at(0)} [1] LOG:  starting PostgreSQL 15.5 on x86_64-pc-linux-musl, compiled by gcc (Alpine 13.2.1_git20231014) 13.2.1 20231014, 64-bit`,
+      `${at(2)} [1] LOG:  listening on IPv4 address "0.0.0.0", port ${port}`,
+      `${at(2)} [1] LOG:  listening on IPv6 address "::", port ${port}`,
+      `${at(4)} [1] LOG:  listening on Unix socket "/var/run/postgresql/.s.PGSQL.${port}"`,
+      `${at(9)} [24] LOG:  database system was shut down at ${at(-DAY_MS)}`,
+      `${at(15)} [1] LOG:  database system is ready to accept connections`,
+    ];
+  }
+  if (isImage(container, 'redis')) {
+    return [
+      `1:C ${redisTimestamp(start)} # WARNING Memory overcommit must be enabled! Without it, a background save or replication may fail under low memory condition.`,
+      `1:C ${redisTimestamp(start)} * oO0OoO0OoO0Oo Redis is starting oO0OoO0OoO0Oo`,
+      `1:C ${redisTimestamp(start)} * Redis version=${REDIS_VERSION}, bits=64, commit=00000000, modified=0, pid=1, just started`,
+      `1:C ${redisTimestamp(start)} * Configuration loaded`,
+      `1:M ${redisTimestamp(start + 1)} * monotonic clock: POSIX clock_gettime`,
+      `1:M ${redisTimestamp(start + 1)} * Running mode=standalone, port=${listeningPorts(container)[0]}.`,
+      `1:M ${redisTimestamp(start + 2)} * Server initialized`,
+      `1:M ${redisTimestamp(start + 2)} * Ready to accept connections tcp`,
+    ];
+  }
+  if (container.spec.build !== null) {
+    const steps = Object.values(container.spec.environment).map(connectionTarget).filter(t => t !== null)
+      .flatMap(t => [`Connecting to ${t.label}...`, `${t.label[0].toUpperCase()}${t.label.slice(1)} connection established`]);
+    return apiLog(start, [...steps, 'Loading routes...', `FleetCore API running on port ${listeningPorts(container)[0]}`]);
+  }
+  return [];
+}
+
+function apiLog(start: number, messages: string[]): string[] {
+  return ['FleetCore API starting...', ...messages].map((message, i) => `[${new Date(start + 120 + i * 110).toISOString()}] INFO: ${message}`);
+}
+
+/** 15 Jan 2024 08:32:02.000, as Redis stamps its log */
+function redisTimestamp(time: number): string {
+  const date = new Date(time);
+  const month = date.toLocaleString('en-US', { month: 'short', timeZone: 'UTC' });
+  return `${date.getUTCDate()} ${month} ${date.getUTCFullYear()} ${date.toISOString().slice(11, 23)}`;
+}
+
+function isImage(container: Container, name: string): boolean {
+  return new RegExp(`^(?:[^/]+/)*${name}(?:[:@]|$)`).test(container.image);
+}
+
+/**
+ * Run a healthcheck test inside the container. The usual probes behave as
+ * they would against the container's own server; curl isn't in the Alpine
+ * images, which only have busybox wget.
+ */
+function runProbe(container: Container, test: string[]): { exitCode: number; output: string } {
+  const shell = test[0] === 'CMD-SHELL';
+  const words = shell
+    ? Array.from(test[1].split(/\|\||&&|;/)[0].matchAll(/"([^"]*)"|'([^']*)'|(\S+)/g), m => m[1] ?? m[2] ?? m[3])
+    : test.slice(1);
+  const [program = '', ...args] = words;
+  const notFound = shell
+    ? { exitCode: 127, output: `/bin/sh: ${program}: not found` }
+    : { exitCode: 126, output: `OCI runtime exec failed: exec failed: unable to start container process: exec: "${program}": executable file not found in $PATH: unknown` };
+  const listening = listeningPorts(container);
+
+  switch (program) {
+    case 'true':
+    case 'echo':
+      return { exitCode: 0, output: args.join(' ') };
+    case 'false':
+      return { exitCode: 1, output: '' };
+    case 'exit':
+      return { exitCode: Number(args[0] ?? 0), output: '' };
+    case 'pg_isready': {
+      if (!isImage(container, 'postgres')) return notFound;
+      const port = Number(args[args.indexOf('-p') + 1] || listening[0]);
+      return listening.includes(port)
+        ? { exitCode: 0, output: `/var/run/postgresql:${port} - accepting connections` }
+        : { exitCode: 2, output: `/var/run/postgresql:${port} - no response` };
+    }
+    case 'redis-cli': {
+      if (!isImage(container, 'redis')) return notFound;
+      const port = Number(args.includes('-p') ? args[args.indexOf('-p') + 1] : 6379);
+      return listening.includes(port)
+        ? { exitCode: 0, output: 'PONG' }
+        : { exitCode: 1, output: `Could not connect to Redis at 127.0.0.1:${port}: Connection refused` };
+    }
+    case 'curl':
+    case 'wget': {
+      if (program === 'curl' && /alpine/.test(container.baseImage)) return notFound;
+      const url = /^https?:\/\/([^/:]+)(?::(\d+))?/.exec(args.find(a => /^https?:\/\//.test(a)) ?? '');
+      const port = Number(url?.[2] ?? 80);
+      if (url && ['localhost', '127.0.0.1', '0.0.0.0'].includes(url[1]) && listening.includes(port)) return { exitCode: 0, output: '' };
+      return program === 'curl'
+        ? { exitCode: 7, output: `curl: (7) Failed to connect to ${url?.[1] ?? 'localhost'} port ${port} after 0 ms: Couldn't connect to server` }
+        : { exitCode: 1, output: `wget: can't connect to remote host (127.0.0.1): Connection refused` };
+    }
+    default:
+      return notFound;
+  }
+}
@@ -0,0 +1,570 @@
+import type { CommandContext } from '../terminal/CommandContext';
+import { DatabaseError, FLEETCORE_ROOT, FleetCoreState, Row, fleetCoreStateFor } from './FleetCoreState';
+import { signJwt, verifyJwt } from './Jwt';
+import { cacheUse } from './CacheSource';
+import { loadCompose, parseRedisUrl } from './Compose';
+import { RedisSession, connectRedis } from './RedisStore';
+import { serviceUp } from './Containers';
+
+export interface HttpRequest {
+  method: string;
+  /** Path and query string, e.g. /api/v1/vehicles?status=active */
+  path: string;
+  /** Header names in lower case */
+  headers: Record<string, string>;
+  body: string;
+}
+
+export interface HttpResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: string;
+}
+
+export const STATUS_TEXT: Record<number, string> = {
+  200: 'OK',
+  201: 'Created',
+  204: 'No Content',
+  400: 'Bad Request',
+  401: 'Unauthorized',
+  404: 'Not Found',
+  409: 'Conflict',
+  429: 'Too Many Requests',
+  500: 'Internal Server Error',
+};
+
+/** The compose service the API runs as */
+const API_SERVICE = 'api';
+
+/** The hosts and port the FleetCore API answers on, from the host and from other containers */
+export function isFleetCoreHost(host: string, port: number): boolean {
+  return port === 3000 && ['localhost', '127.0.0.1', API_SERVICE, '0.0.0.0'].includes(host);
+}
+
+interface FieldError {
+  field: string;
+  message: string;
+}
+
+interface Resource {
+  table: string;
+  /** Singular, for messages: "Vehicle not found" */
+  label: string;
+  /** Query parameters the list endpoint filters on once the route reads req.query */
+  filters: string[];
+  /** Fields that must be unique across the table, as the API names them */
+  unique: string[];
+  validate(data: Record<string, unknown>, partial: boolean, state: FleetCoreState): FieldError[];
+}
+
+/** What a route file implements, read from its source on every request so edits apply straight away */
+interface RouteSupport {
+  /** Still the scaffold that answers every list with no rows */
+  stub: boolean;
+  list: boolean;
+  get: boolean;
+  create: boolean;
+  put: boolean;
+  patch: boolean;
+  remove: boolean;
+  filtering: boolean;
+  pagination: boolean;
+}
+
+const VEHICLE_STATUSES = ['active', 'maintenance', 'retired'];
+const DRIVER_STATUSES = ['available', 'on_trip', 'off_duty'];
+const TRIP_STATUSES = ['planned', 'in_progress', 'completed', 'cancelled'];
+const MAINTENANCE_STATUSES = ['scheduled', 'in_progress', 'completed'];
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+const TOKEN_LIFETIME_SECONDS = 3600;
+
+const RESOURCES: Record<string, Resource> = {
+  vehicles: {
+    table: 'vehicles',
+    label: 'Vehicle',
+    filters: ['status', 'make', 'model', 'year'],
+    unique: ['vin'],
+    validate(data, partial) {
+      return [
+        ...check(data, 'vin', partial, v => typeof v === 'string' && /^[A-HJ-NPR-Z0-9]{17}$/.test(v), 'must be a 17-character VIN'),
+        ...check(data, 'make', partial, nonEmptyString, 'is required'),
+        ...check(data, 'model', partial, nonEmptyString, 'is required'),
+        ...check(data, 'year', partial, v => Number.isInteger(v) && (v as number) >= 1990 && (v as number) <= 2100, 'must be a year from 1990'),
+        ...check(data, 'licensePlate', partial, nonEmptyString, 'is required'),
+        ...check(data, 'status', true, v => VEHICLE_STATUSES.includes(v as string), `must be one of ${VEHICLE_STATUSES.join(', ')}`),
+        ...check(data, 'mileage', true, v => Number.isInteger(v) && (v as number) >= 0, 'must be a non-negative integer'),
+        ...check(data, 'fuelLevel', true, v => typeof v === 'number' && v >= 0 && v <= 100, 'must be between 0 and 100'),
+      ];
+    },
+  },
+  drivers: {
+    table: 'drivers',
+    label: 'Driver',
+    filters: ['status'],
+    unique: ['email', 'licenseNumber'],
+    validate(data, partial) {
+      return [
+        ...check(data, 'firstName', partial, nonEmptyString, 'is required'),
+        ...check(data, 'lastName', partial, nonEmptyString, 'is required'),
+        ...check(data, 'email', partial, v => typeof v === 'string' && /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(v), 'must be an email address'),
+        ...check(data, 'licenseNumber', partial, nonEmptyString, 'is required'),
+        ...check(data, 'licenseExpiry', partial, isDate, 'must be a date (YYYY-MM-DD)'),
+        ...check(data, 'status', true, v => DRIVER_STATUSES.includes(v as string), `must be one of ${DRIVER_STATUSES.join(', ')}`),
+        ...check(data, 'rating', true, v => typeof v === 'number' && v >= 0 && v <= 5, 'must be between 0 and 5'),
+      ];
+    },
+  },
+  trips: {
+    table: 'trips',
+    label: 'Trip',
+    filters: ['status', 'vehicleId', 'driverId'],
+    unique: [],
+    validate(data, partial, state) {
+      return [
+        ...check(data, 'vehicleId', partial, v => typeof v === 'string' && state.get('vehicles', v) !== null, 'must be an existing vehicle id'),
+        ...check(data, 'driverId', partial, v => typeof v === 'string' && state.get('drivers', v) !== null, 'must be an existing driver id'),
+        ...check(data, 'startLocation', partial, isLocation, 'must have numeric lat and lng and an address'),
+        ...check(data, 'endLocation', true, isLocation, 'must have numeric lat and lng and an address'),
+        ...check(data, 'startTime', partial, isDate, 'must be an ISO date'),
+        ...check(data, 'status', true, v => TRIP_STATUSES.includes(v as string), `must be one of ${TRIP_STATUSES.join(', ')}`),
+        ...check(data, 'distance', true, v => typeof v === 'number' && v >= 0, 'must be a non-negative number'),
+      ];
+    },
+  },
+  maintenance: {
+    table: 'maintenance',
+    label: 'Maintenance record',
+    filters: ['status', 'vehicleId', 'type'],
+    unique: [],
+    validate(data, partial, state) {
+      return [
+        ...check(data, 'vehicleId', partial, v => typeof v === 'string' && state.get('vehicles', v) !== null, 'must be an existing vehicle id'),
+        ...check(data, 'type', partial, nonEmptyString, 'is required'),
+        ...check(data, 'scheduledDate', partial, isDate, 'must be a date (YYYY-MM-DD)'),
+        ...check(data, 'status', true, v => MAINTENANCE_STATUSES.includes(v as string), `must be one of ${MAINTENANCE_STATUSES.join(', ')}`),
+        ...check(data, 'cost', true, v => typeof v === 'number' && v >= 0, 'must be a non-negative number'),
+      ];
+    },
+  },
+};
+
+/**
+ * Answer a request to the FleetCore API as the candidate's version of it
+ * would: routes, filtering, pagination and authentication only behave once
+ * the source under /opt/fleetcore implements them. Returns null when there
+ * is no FleetCore project to serve or its container isn't up, so the caller
+ * can refuse the connection.
+ */
+export function handleFleetCoreRequest(ctx: CommandContext, request: HttpRequest): HttpResponse | null {
+  if (!serviceUp(ctx.fs, ctx.clock, API_SERVICE)) return null;
+  const read = (path: string) => ctx.fs.runAs('root', () => ctx.fs.readFile(`${FLEETCORE_ROOT}/${path}`));
+  const server = read('src/server.ts');
+  if (server === null) return null;
+
+  const pathname = request.path.split('?')[0];
+  const method = request.method.toUpperCase();
+  const now = ctx.clock.now();
+  const respond = (status: number, body: unknown) => json(status, body, now);
+
+  if (pathname.replace(/\/$/, '') === '/health' && (method === 'GET' || method === 'HEAD')) {
+    const version = /"version":\s*"([^"]+)"/.exec(read('package.json') ?? '')?.[1] ?? '0.0.0';
+    return respond(200, { status: 'ok', version, uptime: 1234.567 });
+  }
+
+  const secret = jwtSecret(read);
+  if (pathname === '/api/v1/auth/login' && method === 'POST' && issuesTokens(ctx)) {
+    const body = parseBody(request, read, now);
+    if ('error' in body) return body.error;
+    const { email, password } = body.data;
+    if (!nonEmptyString(email) || !nonEmptyString(password)) {
+      return respond(400, { error: 'email and password are required' });
+    }
+    const iat = Math.floor(now / 1000);
+    return respond(200, {
+      token: signJwt({ sub: email, iat, exp: iat + TOKEN_LIFETIME_SECONDS }, secret),
+      expiresIn: TOKEN_LIFETIME_SECONDS,
+    });
+  }
+
+  const route = /^\/api\/v1\/([a-z]+)(?:\/([^/]+))?\/?$/.exec(pathname);
+  const resource = route ? RESOURCES[route[1]] : undefined;
+  const source = route ? read(`src/api/${route[1]}.ts`) : null;
+  if (!route || !resource || source === null || !server.includes(`/api/v1/${route[1]}`)) {
+    return cannot(method, pathname, now);
+  }
+
+  const serve = () => {
+    try {
+      return unauthorized(request, read, secret, now)
+        ?? serveCached(ctx, request, route[1], route[2] ?? null, read, () => serveResource(ctx, request, resource, source, route[2] ?? null, read));
+    } catch (err) {
+      // Query errors, like a table no migration has created, reach the error handler
+      if (err instanceof DatabaseError) return respond(500, { error: 'Internal server error' });
+      throw err;
+    }
+  };
+  const limiter = rateLimiter(ctx, read);
+  if (!limiter) return serve();
+
+  // The limiter runs before authentication, so rejected requests still count
+  const { hits, resetAt } = fleetCoreStateFor(ctx.fs).hit(now, limiter.windowMs);
+  const response = hits > limiter.max
+    ? text(429, 'Too many requests, please try again later.', now, { 'Retry-After': String(Math.ceil((resetAt - now) / 1000)) })
+    : serve();
+  response.headers = {
+    ...response.headers,
+    'X-RateLimit-Limit': String(limiter.max),
+    'X-RateLimit-Remaining': String(Math.max(0, limiter.max - hits)),
+    'X-RateLimit-Reset': String(Math.ceil(resetAt / 1000)),
+  };
+  return response;
+}
+
+function serveResource(
+  ctx: CommandContext,
+  request: HttpRequest,
+  resource: Resource,
+  source: string,
+  rawId: string | null,
+  read: (path: string) => string | null,
+): HttpResponse {
+  const [pathname, search = ''] = request.path.split('?');
+  const query = new URLSearchParams(search);
+  const method = request.method.toUpperCase();
+  const now = ctx.clock.now();
+  const respond = (status: number, body: unknown) => json(status, body, now);
+
+  const support = routeSupport(source);
+  const state = fleetCoreStateFor(ctx.fs);
+  const id = rawId === null ? null : decodeURIComponent(rawId);
+  const timestamp = new Date(now).toISOString();
+
+  if (id === null) {
+    if ((method === 'GET' || method === 'HEAD') && support.list) {
+      if (support.stub) return respond(200, { data: [], total: 0 });
+      return listRows(resource, state, query, support, respond);
+    }
+    if (method === 'POST' && support.create) {
+      const body = parseBody(request, read, now);
+      if ('error' in body) return body.error;
+      const problem = invalid(resource, body.data, false, state, null, respond);
+      if (problem) return problem;
+      return respond(201, { data: toApi(state.insert(resource.table, toColumns(body.data), timestamp)) });
+    }
+    return cannot(method, pathname, now);
+  }
+
+  if ((method === 'GET' || method === 'HEAD') && support.get && !support.stub) {
+    const row = state.get(resource.table, id);
+    return row ? respond(200, { data: toApi(row) }) : respond(404, { error: `${resource.label} not found` });
+  }
+  if ((method === 'PUT' && support.put) || (method === 'PATCH' && support.patch)) {
+    const row = state.get(resource.table, id);
+    if (!row) return respond(404, { error: `${resource.label} not found` });
+    const body = parseBody(request, read, now);
+    if ('error' in body) return body.error;
+    const problem = invalid(resource, body.data, true, state, id, respond);
+    if (problem) return problem;
+    const changes = toColumns(body.data);
+    if (state.requireTable(resource.table).columns.some(c => c.name === 'updated_at')) changes.updated_at = timestamp;
+    return respond(200, { data: toApi(state.update(resource.table, row, changes)) });
+  }
+  if (method === 'DELETE' && support.remove) {
+    const row = state.get(resource.table, id);
+    if (!row) return respond(404, { error: `${resource.label} not found` });
+    state.delete(resource.table, [row]);
+    return { status: 204, headers: baseHeaders(now), body: '' };
+  }
+  return cannot(method, pathname, now);
+}
+
+/** Once the middleware verifies tokens, every API route needs one */
+function unauthorized(request: HttpRequest, read: (path: string) => string | null, secret: string, now: number): HttpResponse | null {
+  if (!verifiesTokens(read('src/middleware/auth.ts'))) return null;
+  const token = /^Bearer\s+(\S+)$/i.exec(request.headers['authorization'] ?? '')?.[1];
+  if (!token) return json(401, { error: 'No token provided' }, now);
+  const result = verifyJwt(token, secret, now);
+  if (result.valid) return null;
+  return json(401, { error: result.reason === 'expired' ? 'Token expired' : 'Invalid token' }, now);
+}
+
+/**
+ * Serve a request through Redis the way the route's code uses it, once the
+ * candidate's code actually creates a client: a hit skips the database, a
+ * miss stores what was loaded, and successful writes delete what the code
+ * deletes. Commands go to the server REDIS_URL names, so they show up in
+ * MONITOR and INFO stats.
+ */
+function serveCached(
+  ctx: CommandContext,
+  request: HttpRequest,
+  routeName: string,
+  rawId: string | null,
+  read: (path: string) => string | null,
+  serve: () => HttpResponse,
+): HttpResponse {
+  const [, search = ''] = request.path.split('?');
+  const method = request.method.toUpperCase();
+  const id = rawId === null ? null : decodeURIComponent(rawId);
+  const verb = method === 'HEAD' ? 'get' : method.toLowerCase();
+  const use = createsRedisClient(ctx)
+    ? cacheUse(read, `src/api/${routeName}.ts`, verb, id === null ? '/' : '/:id', { id, query: Object.fromEntries(new URLSearchParams(search)) })
+    : null;
+  if (!use) return serve();
+
+  const now = ctx.clock.now();
+  const failed = () => json(500, { error: 'Internal server error' }, now);
+  const client = redisClient(ctx, read);
+  // Commands on a client that can't reach the server reject, and the error handler answers 500
+  if ('error' in client) return failed();
+  try {
+    if (use.key !== null) {
+      const hit = client.execute(['GET', use.key]);
+      if (hit.kind === 'error') return failed();
+      if (hit.kind === 'bulk' && hit.value !== null) {
+        const data = JSON.parse(hit.value);
+        return json(200, id === null && Array.isArray(data) ? { data, total: data.length } : { data }, now);
+      }
+    }
+    const response = serve();
+    if (response.status === 200 && use.key !== null && use.stores) {
+      const { data } = JSON.parse(response.body) as { data: unknown };
+      client.execute(['SET', use.key, JSON.stringify(data), ...(use.ttl ? ['EX', String(use.ttl)] : [])]);
+    }
+    if (response.status < 300) use.deletes.forEach(key => client.execute(['DEL', key]));
+    return response;
+  } catch (err) {
+    // A cached value that isn't JSON makes JSON.parse throw inside the handler
+    if (err instanceof SyntaxError) return failed();
+    throw err;
+  } finally {
+    client.close();
+  }
+}
+
+/** The scaffolded cache helper imports createClient but never calls it; the cache is live once something does */
+function createsRedisClient(ctx: CommandContext): boolean {
+  const matches = ctx.fs.runAs('root', () => ctx.fs.grep('\\bcreateClient\\s*\\(', `${FLEETCORE_ROOT}/src`, '/', true));
+  return matches.length > 0;
+}
+
+/** A connection to REDIS_URL as the api container gets it: docker-compose first, then the config default */
+function redisClient(ctx: CommandContext, read: (path: string) => string | null): RedisSession | { error: string } {
+  const url = loadCompose(ctx.fs)?.find(s => s.name === 'api')?.environment.REDIS_URL
+    ?? /REDIS_URL\s*\|\|\s*['"]([^'"]+)['"]/.exec(read('src/config/index.ts') ?? '')?.[1]
+    ?? 'redis://localhost:6379';
+  const target = parseRedisUrl(url);
+  if (!target) return { error: 'Invalid URL' };
+  const client = connectRedis(ctx.fs, ctx.clock, target, 'api');
+  if ('error' in client) return client;
+  if (target.password !== null && client.authenticate(target.password).kind === 'error') {
+    client.close();
+    return { error: 'WRONGPASS' };
+  }
+  return client;
+}
+
+function listRows(
+  resource: Resource,
+  state: FleetCoreState,
+  query: URLSearchParams,
+  support: RouteSupport,
+  respond: (status: number, body: unknown) => HttpResponse,
+): HttpResponse {
+  let rows = state.list(resource.table);
+
+  if (support.filtering) {
+    const errors: FieldError[] = [];
+    const probe = Object.fromEntries(resource.filters.filter(f => query.has(f)).map(f => [f, query.get(f)]));
+    if (probe.status !== undefined) {
+      errors.push(...resource.validate({ status: probe.status }, true, state).filter(e => e.field === 'status'));
+    }
+    if (errors.length > 0) return respond(400, { error: 'Invalid query', details: errors });
+    rows = rows.filter(row => Object.entries(probe).every(([field, value]) => String(row[snakeCase(field)]) === value));
+  }
+
+  if (!support.pagination) {
+    return respond(200, { data: rows.map(toApi), total: rows.length });
+  }
+  const limit = query.has('limit') ? Number(query.get('limit')) : DEFAULT_PAGE_SIZE;
+  const offset = query.has('offset') ? Number(query.get('offset')) : 0;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    return respond(400, { error: `limit must be an integer from 1 to ${MAX_PAGE_SIZE}` });
+  }
+  if (!Number.isInteger(offset) || offset < 0) {
+    return respond(400, { error: 'offset must be a non-negative integer' });
+  }
+  return respond(200, { data: rows.slice(offset, offset + limit).map(toApi), total: rows.length, limit, offset });
+}
+
+/** The response for a body that fails validation or breaks a unique constraint, or null if it's fine */
+function invalid(
+  resource: Resource,
+  data: Record<string, unknown>,
+  partial: boolean,
+  state: FleetCoreState,
+  id: string | null,
+  respond: (status: number, body: unknown) => HttpResponse,
+): HttpResponse | null {
+  const errors = resource.validate(data, partial, state);
+  if (errors.length > 0) return respond(400, { error: 'Validation failed', details: errors });
+  for (const field of resource.unique) {
+    if (data[field] === undefined) continue;
+    if (state.list(resource.table).some(row => row.id !== id && row[snakeCase(field)] === data[field])) {
+      return respond(409, { error: `${resource.label} with ${field} ${data[field]} already exists` });
+    }
+  }
+  return null;
+}
+
+function routeSupport(source: string): RouteSupport {
+  const route = (method: string, path: string) => new RegExp(`\\.${method}\\(\\s*['"\`]${path}['"\`]`).test(source);
+  return {
+    stub: /data:\s*\[\s*\]/.test(source),
+    list: route('get', '/'),
+    get: route('get', '/:id'),
+    create: /\.post\s*\(/.test(source),
+    put: /\.put\s*\(/.test(source),
+    patch: /\.patch\s*\(/.test(source),
+    remove: /\.delete\s*\(/.test(source),
+    filtering: /req\.query/.test(source),
+    pagination: /\blimit\b/i.test(source) && /\boffset\b/i.test(source),
+  };
+}
+
+/**
+ * express-rate-limit's settings when the candidate's code calls rateLimit(),
+ * with the library's defaults for anything it leaves out. Window sizes are
+ * usually written as products like 15 * 60 * 1000.
+ */
+function rateLimiter(ctx: CommandContext, read: (path: string) => string | null): { max: number; windowMs: number } | null {
+  const [match] = ctx.fs.runAs('root', () => ctx.fs.grep('\\brateLimit\\s*\\(', `${FLEETCORE_ROOT}/src`, '/', true));
+  if (!match) return null;
+  const source = read(match.file.slice(FLEETCORE_ROOT.length + 1)) ?? '';
+  const product = (expr: string | undefined) => expr?.split('*').reduce((total, n) => total * Number(n.trim()), 1);
+  const max = Number(/\b(?:max|limit)\s*:\s*(\d+)/.exec(source)?.[1] ?? 5);
+  const windowMs = product(/\bwindowMs\s*:\s*([\d\s*]+)/.exec(source)?.[1]) ?? 60_000;
+  return { max, windowMs: Number.isFinite(windowMs) && windowMs > 0 ? windowMs : 60_000 };
+}
+
+/** The scaffolded middleware just calls next(); it counts once it verifies something */
+function verifiesTokens(source: string | null): boolean {
+  return source !== null && /\bverify\s*\(/.test(source);
+}
+
+/** Whether any of the candidate's code signs tokens, which is what a login route needs */
+function issuesTokens(ctx: CommandContext): boolean {
+  const matches = ctx.fs.runAs('root', () => ctx.fs.grep('\\bsign\\s*\\(', `${FLEETCORE_ROOT}/src`, '/', true));
+  return matches.length > 0;
+}
+
+/** JWT_SECRET as the API container gets it: docker-compose first, then .env, then the config default */
+function jwtSecret(read: (path: string) => string | null): string {
+  const fromEnv = (source: string | null) => /JWT_SECRET\s*[=:]\s*["']?([^\s"']+)/.exec(source ?? '')?.[1];
+  return fromEnv(read('docker-compose.yml'))
+    ?? fromEnv(read('.env'))
+    ?? /JWT_SECRET\s*\|\|\s*['"]([^'"]+)['"]/.exec(read('src/config/index.ts') ?? '')?.[1]
+    ?? 'dev-secret';
+}
+
+/**
+ * express.json() only parses JSON bodies; anything else leaves req.body
+ * empty. A malformed JSON body is an error that reaches the candidate's
+ * error handler, which answers 500 unless it passes the status through.
+ */
+function parseBody(request: HttpRequest, read: (path: string) => string | null, now: number):
+  { data: Record<string, unknown> } | { error: HttpResponse } {
+  if (!/json/i.test(request.headers['content-type'] ?? '') || request.body.trim() === '') return { data: {} };
+  try {
+    const parsed = JSON.parse(request.body);
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) return { data: parsed };
+    return { data: {} };
+  } catch (err) {
+    const handler = read('src/middleware/errorHandler.ts') ?? '';
+    if (/\berr\w*\.(?:status|statusCode)\b/.test(handler)) {
+      return { error: json(400, { error: err instanceof Error ? err.message : 'Invalid JSON' }, now) };
+    }
+    return { error: json(500, { error: 'Internal server error' }, now) };
+  }
+}
+
+/** The API's camelCase fields as the database's snake_case columns, the way the models map them */
+function toColumns(data: Record<string, unknown>): Row {
+  return Object.fromEntries(Object.entries(data).map(([field, value]) => [snakeCase(field), value]));
+}
+
+function toApi(row: Row): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(row).map(([column, value]) => [column.replace(/_([a-z0-9])/g, (_, c) => c.toUpperCase()), value]));
+}
+
+function snakeCase(field: string): string {
+  return field.replace(/[A-Z]/g, c => `_${c.toLowerCase()}`);
+}
+
+function check(
+  data: Record<string, unknown>,
+  field: string,
+  optional: boolean,
+  valid: (value: unknown) => boolean,
+  message: string,
+): FieldError[] {
+  const value = data[field];
+  if (value === undefined || value === null) return optional ? [] : [{ field, message: 'is required' }];
+  return valid(value) ? [] : [{ field, message }];
+}
+
+function nonEmptyString(value: unknown): boolean {
+  return typeof value === 'string' && value.trim() !== '';
+}
+
+function isDate(value: unknown): boolean {
+  return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}/.test(value) && !Number.isNaN(Date.parse(value));
+}
+
+function isLocation(value: unknown): boolean {
+  const location = value as Record<string, unknown>;
+  return !!location && typeof location === 'object'
+    && typeof location.lat === 'number' && typeof location.lng === 'number' && nonEmptyString(location.address);
+}
+
+function baseHeaders(now: number): Record<string, string> {
+  return {
+    'X-Powered-By': 'Express',
+    'Access-Control-Allow-Origin': 'http://localhost:8080',
+    'Date': new Date(now).toUTCString(),
+    'Connection': 'keep-alive',
+  };
+}
+
+function json(status: number, body: unknown, now: number): HttpResponse {
+  const text = JSON.stringify(body, null, 2);
+  return {
+    status,
+    headers: { ...baseHeaders(now), 'Content-Type': 'application/json; charset=utf-8', 'Content-Length': String(byteLength(text)) },
+    body: text,
+  };
+}
+
+function text(status: number, body: string, now: number, headers: Record<string, string> = {}): HttpResponse {
+  return {
+    status,
+    headers: { ...baseHeaders(now), ...headers, 'Content-Type': 'text/html; charset=utf-8', 'Content-Length': String(byteLength(body)) },
+    body,
+  };
+}
+
+/** Express's own 404 page for a method and path no route handles */
+function cannot(method: string, path: string, now: number): HttpResponse {
+  const body = `<!DOCTYPE html>\n<html lang="en">\n<head>\n<meta charset="utf-8">\n<title>Error</title>\n</head>\n<body>\n<pre>Cannot ${method} ${path}</pre>\n</body>\n</html>\n`;
+  return {
+    status: 404,
+    headers: { ...baseHeaders(now), 'Content-Type': 'text/html; charset=utf-8', 'Content-Length': String(byteLength(body)) },
+    body,
+  };
+}
+
+function byteLength(text: string): number {
+  return new TextEncoder().encode(text).length;
+}
@@ -0,0 +1,475 @@
+import type { VirtualFileSystem } from '../terminal/VirtualFileSystem';
+import { ColumnSpec, IndexSpec, MigrationStep, parseMigration, parseSeedInserts } from './KnexSource';
+
+/** Where the FleetCore project lives in the scenarios that ship it */
+export const FLEETCORE_ROOT = '/opt/fleetcore';
+export const MIGRATIONS_DIR = `${FLEETCORE_ROOT}/src/db/migrations`;
+export const SEEDS_DIR = `${FLEETCORE_ROOT}/src/db/seeds`;
+
+/** A row as Postgres stores it: snake_case columns */
+export type Row = Record<string, unknown>;
+
+export type Column = ColumnSpec;
+
+export interface Index {
+  name: string;
+  table: string;
+  columns: string[];
+  unique: boolean;
+  primary: boolean;
+}
+
+export interface Table {
+  name: string;
+  columns: Column[];
+  rows: Row[];
+}
+
+/** An error as Postgres reports it: the message, sometimes DETAIL and HINT lines, and where in the query it went wrong */
+export class DatabaseError extends Error {
+  constructor(message: string, readonly detail?: string, readonly position?: number, readonly hint?: string) {
+    super(message);
+    this.name = 'DatabaseError';
+  }
+}
+
+/** Prefix for generated ids, e.g. v-004; other tables use their first letter */
+const ID_PREFIX: Record<string, string> = {
+  vehicles: 'v',
+  drivers: 'd',
+  trips: 't',
+  maintenance: 'm',
+};
+
+/** When seeded rows were "created", matching the logs in the base scenario */
+const SEEDED_AT = '2024-01-15T08:32:05.000Z';
+
+/**
+ * The FleetCore Postgres database behind the simulated API and psql: the
+ * tables the project's knex migrations create, with the rows its seeds
+ * insert. The database volume already holds the migrations the project
+ * shipped with; ones the candidate adds wait for `npm run migrate`. It lives
+ * as long as the shell's filesystem, so what the candidate changes through
+ * the API or psql is still there on the next command.
+ */
+export class FleetCoreState {
+  readonly tables = new Map<string, Table>();
+  readonly indexes = new Map<string, Index>();
+  /** Migration files already run, like knex_migrations */
+  readonly migrations: string[] = [];
+  /** knex's batch number for the last migrate:latest that ran anything */
+  private batch = 0;
+  private sequences = new Map<string, number>();
+  /** The API process's rate-limit counter: express-rate-limit's fixed window */
+  private window = { start: 0, hits: 0 };
+
+  /** The database the project's migrations and seeds build; without a filesystem, an empty one */
+  constructor(fs?: VirtualFileSystem) {
+    if (!fs) return;
+    const added = new Set((fs.changes() ?? []).filter(c => c.status === 'added').map(c => c.path));
+    for (const file of migrationFiles(fs).filter(f => !added.has(`${MIGRATIONS_DIR}/${f}`))) {
+      try {
+        this.applyMigration(file, readAsRoot(fs, `${MIGRATIONS_DIR}/${file}`));
+      } catch {
+        // A migration that can't apply leaves the schema as far as it got, like a failed deploy
+      }
+    }
+    if (this.migrations.length > 0) this.batch = 1;
+    this.seed(fs, SEEDED_AT, false);
+  }
+
+  table(name: string): Table | null {
+    return this.tables.get(name) ?? null;
+  }
+
+  requireTable(name: string): Table {
+    const table = this.tables.get(name);
+    if (!table) throw new DatabaseError(`relation "${name}" does not exist`);
+    return table;
+  }
+
+  list(table: string): Row[] {
+    return this.requireTable(table).rows;
+  }
+
+  get(table: string, id: string): Row | null {
+    return this.requireTable(table).rows.find(row => row.id === id) ?? null;
+  }
+
+  /** Insert a row the way Postgres would: defaults filled in, types coerced, constraints checked */
+  insert(tableName: string, values: Row, now: string): Row {
+    const table = this.requireTable(tableName);
+    for (const name of Object.keys(values)) this.requireColumn(table, name);
+
+    const row: Row = {};
+    for (const column of table.columns) {
+      row[column.name] = column.name in values
+        ? coerce(column, values[column.name])
+        : this.defaultValue(table, column, now);
+    }
+    this.check(table, row, null);
+    table.rows.push(row);
+    return row;
+  }
+
+  update(tableName: string, row: Row, changes: Row): Row {
+    const table = this.requireTable(tableName);
+    const updated: Row = { ...row };
+    for (const [name, value] of Object.entries(changes)) {
+      updated[name] = coerce(this.requireColumn(table, name), value);
+    }
+    this.check(table, updated, row);
+    Object.assign(row, updated);
+    return row;
+  }
+
+  delete(tableName: string, rows: Row[]): number {
+    const table = this.requireTable(tableName);
+    for (const { table: other, column, ref } of this.referencesTo(tableName)) {
+      const kept = other.rows.filter(r => !(other === table && rows.includes(r)));
+      const doomed = rows.find(row => kept.some(r => r[column.name] !== null && r[column.name] === row[ref.column]));
+      if (doomed) {
+        throw new DatabaseError(
+          `update or delete on table "${tableName}" violates foreign key constraint "${other.name}_${column.name}_foreign" on table "${other.name}"`,
+          `Key (${ref.column})=(${formatKey(doomed[ref.column])}) is still referenced from table "${other.name}".`,
+        );
+      }
+    }
+    const before = table.rows.length;
+    table.rows = table.rows.filter(row => !rows.includes(row));
+    return before - table.rows.length;
+  }
+
+  createTable(name: string, columns: Column[], indexes: IndexSpec[], ifNotExists = false): boolean {
+    if (this.tables.has(name)) {
+      if (ifNotExists) return false;
+      throw new DatabaseError(`relation "${name}" already exists`);
+    }
+    this.tables.set(name, { name, columns: columns.map(c => ({ ...c })), rows: [] });
+    for (const index of indexes) this.createIndex(name, index);
+    return true;
+  }
+
+  dropTable(name: string, ifExists = false, cascade = false): boolean {
+    if (!this.tables.has(name)) {
+      if (ifExists) return false;
+      throw new DatabaseError(`table "${name}" does not exist`);
+    }
+    for (const { table, column } of this.referencesTo(name).filter(r => r.table.name !== name)) {
+      if (!cascade) {
+        throw new DatabaseError(
+          `cannot drop table ${name} because other objects depend on it`,
+          `constraint ${table.name}_${column.name}_foreign on table ${table.name} depends on table ${name}`,
+          undefined,
+          'Use DROP ... CASCADE to drop the dependent objects too.',
+        );
+      }
+      delete column.references;
+    }
+    this.tables.delete(name);
+    for (const [indexName, index] of this.indexes) {
+      if (index.table === name) this.indexes.delete(indexName);
+    }
+    return true;
+  }
+
+  addColumn(tableName: string, column: Column): void {
+    const table = this.requireTable(tableName);
+    if (table.columns.some(c => c.name === column.name)) {
+      throw new DatabaseError(`column "${column.name}" of relation "${tableName}" already exists`);
+    }
+    if (column.notNull && !column.default && table.rows.length > 0) {
+      throw new DatabaseError(`column "${column.name}" of relation "${tableName}" contains null values`);
+    }
+    table.columns.push({ ...column });
+    for (const row of table.rows) row[column.name] = this.defaultValue(table, column, SEEDED_AT);
+  }
+
+  dropColumn(tableName: string, name: string): void {
+    const table = this.requireTable(tableName);
+    this.requireColumn(table, name);
+    table.columns = table.columns.filter(c => c.name !== name);
+    for (const row of table.rows) delete row[name];
+    for (const [indexName, index] of this.indexes) {
+      if (index.table === tableName && index.columns.includes(name)) this.indexes.delete(indexName);
+    }
+  }
+
+  createIndex(tableName: string, spec: IndexSpec, ifNotExists = false): Index | null {
+    const table = this.requireTable(tableName);
+    for (const column of spec.columns) this.requireColumn(table, column);
+    const name = spec.name ?? indexName(tableName, spec);
+    if (this.indexes.has(name)) {
+      if (ifNotExists) return null;
+      throw new DatabaseError(`relation "${name}" already exists`);
+    }
+    const index: Index = { name, table: tableName, columns: spec.columns, unique: spec.unique, primary: spec.primary };
+    if (index.unique) {
+      const seen = new Set<string>();
+      for (const row of table.rows) {
+        const key = JSON.stringify(index.columns.map(c => row[c]));
+        if (seen.has(key)) {
+          throw new DatabaseError(
+            `could not create unique index "${name}"`,
+            `Key (${index.columns.join(', ')})=(${index.columns.map(c => formatKey(row[c])).join(', ')}) is duplicated.`,
+          );
+        }
+        seen.add(key);
+      }
+    }
+    this.indexes.set(name, index);
+    return index;
+  }
+
+  dropIndex(name: string, ifExists = false): boolean {
+    if (!this.indexes.delete(name)) {
+      if (ifExists) return false;
+      throw new DatabaseError(`index "${name}" does not exist`);
+    }
+    return true;
+  }
+
+  /** Run migrations that haven't run yet, in file name order, as one batch */
+  migrate(fs: VirtualFileSystem): { batch: number; files: string[] } {
+    const pending = migrationFiles(fs).filter(f => !this.migrations.includes(f));
+    if (pending.length === 0) return { batch: this.batch, files: [] };
+    for (const file of pending) {
+      try {
+        this.applyMigration(file, readAsRoot(fs, `${MIGRATIONS_DIR}/${file}`));
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        throw new DatabaseError(`migration file "${file}" failed\nmigration failed with error: ${message}`);
+      }
+    }
+    return { batch: ++this.batch, files: pending };
+  }
+
+  /**
+   * Run every seed file, replacing each table's rows like the project's
+   * seeds do with del() first. Returns the files run; with `strict`, a seed
+   * for a table that doesn't exist fails the way knex does.
+   */
+  seed(fs: VirtualFileSystem, now: string, strict = true): string[] {
+    const files = (fs.runAs('root', () => fs.listDir(SEEDS_DIR)) ?? [])
+      .filter(f => f.type === 'file').map(f => f.name).sort();
+    for (const file of files) {
+      for (const { table, rows } of parseSeedInserts(readAsRoot(fs, `${SEEDS_DIR}/${file}`))) {
+        if (!this.tables.has(table)) {
+          if (strict) throw new DatabaseError(`insert into "${table}" - relation "${table}" does not exist`);
+          continue;
+        }
+        this.tables.get(table)!.rows = [];
+        // Ids are generated per table, so a reseed hands out the same ones the seeds reference
+        for (const sequence of this.sequences.keys()) {
+          if (sequence.startsWith(`${table}_`)) this.sequences.delete(sequence);
+        }
+        for (const raw of rows) {
+          try {
+            this.insert(table, raw, now);
+          } catch (err) {
+            if (strict) throw err;
+          }
+        }
+      }
+    }
+    return files;
+  }
+
+  /** Count a request against the rate limit, starting a new window once the last one has passed */
+  hit(now: number, windowMs: number): { hits: number; resetAt: number } {
+    if (now >= this.window.start + windowMs) this.window = { start: now, hits: 0 };
+    this.window.hits++;
+    return { hits: this.window.hits, resetAt: this.window.start + windowMs };
+  }
+
+  /** A copy of the data to restore on ROLLBACK */
+  snapshot(): unknown {
+    return structuredClone({ tables: this.tables, indexes: this.indexes, sequences: this.sequences });
+  }
+
+  restore(snapshot: unknown): void {
+    const saved = structuredClone(snapshot) as {
+      tables: Map<string, Table>;
+      indexes: Map<string, Index>;
+      sequences: Map<string, number>;
+    };
+    this.tables.clear();
+    saved.tables.forEach((table, name) => this.tables.set(name, table));
+    this.indexes.clear();
+    saved.indexes.forEach((index, name) => this.indexes.set(name, index));
+    this.sequences = saved.sequences;
+  }
+
+  private applyMigration(file: string, source: string): void {
+    for (const step of parseMigration(source)) this.applyStep(step);
+    this.migrations.push(file);
+  }
+
+  private applyStep(step: MigrationStep): void {
+    if (step.kind === 'createTable') {
+      this.createTable(step.table, step.columns, step.indexes);
+    } else if (step.kind === 'dropTable') {
+      this.dropTable(step.table, step.ifExists);
+    } else {
+      for (const column of step.columns) this.addColumn(step.table, column);
+      for (const name of step.dropColumns) this.dropColumn(step.table, name);
+      for (const index of step.indexes) this.createIndex(step.table, index);
+    }
+  }
+
+  /** Foreign keys pointing at a table, from any table including itself */
+  private referencesTo(tableName: string): { table: Table; column: Column; ref: { table: string; column: string } }[] {
+    return [...this.tables.values()].flatMap(table => table.columns
+      .filter(column => column.references?.table === tableName)
+      .map(column => ({ table, column, ref: column.references! })));
+  }
+
+  private requireColumn(table: Table, name: string): Column {
+    const column = table.columns.find(c => c.name === name);
+    if (!column) throw new DatabaseError(`column "${name}" of relation "${table.name}" does not exist`);
+    return column;
+  }
+
+  private defaultValue(table: Table, column: Column, now: string): unknown {
+    switch (column.default?.kind) {
+      case 'value': return coerce(column, column.default.value);
+      case 'now': return now;
+      case 'uuid': return this.allocateId(table, column.name);
+      case 'serial': return this.nextval(`${table.name}_${column.name}_seq`);
+      default: return null;
+    }
+  }
+
+  private allocateId(table: Table, column: string): string {
+    const prefix = ID_PREFIX[table.name] ?? table.name[0];
+    let id: string;
+    do {
+      id = `${prefix}-${String(this.nextval(`${table.name}_${column}_seq`)).padStart(3, '0')}`;
+    } while (table.rows.some(row => row[column] === id));
+    return id;
+  }
+
+  private nextval(sequence: string): number {
+    const value = (this.sequences.get(sequence) ?? 0) + 1;
+    this.sequences.set(sequence, value);
+    return value;
+  }
+
+  /** NOT NULL, CHECK, FOREIGN KEY and UNIQUE constraints for a row about to be written */
+  private check(table: Table, row: Row, replacing: Row | null): void {
+    for (const column of table.columns) {
+      const value = row[column.name];
+      if (value === null || value === undefined) {
+        if (column.notNull) {
+          throw new DatabaseError(
+            `null value in column "${column.name}" of relation "${table.name}" violates not-null constraint`,
+            `Failing row contains (${table.columns.map(c => formatKey(row[c.name])).join(', ')}).`,
+          );
+        }
+        continue;
+      }
+      if (column.values && !column.values.includes(String(value))) {
+        throw new DatabaseError(`new row for relation "${table.name}" violates check constraint "${table.name}_${column.name}_check"`);
+      }
+      const ref = column.references;
+      const target = ref ? this.tables.get(ref.table) : undefined;
+      if (ref && target && !target.rows.some(r => r[ref.column] === value)) {
+        throw new DatabaseError(
+          `insert or update on table "${table.name}" violates foreign key constraint "${table.name}_${column.name}_foreign"`,
+          `Key (${column.name})=(${formatKey(value)}) is not present in table "${ref.table}".`,
+        );
+      }
+    }
+    for (const index of this.indexes.values()) {
+      if (index.table !== table.name || !index.unique) continue;
+      const key = index.columns.map(c => row[c]);
+      if (key.some(v => v === null || v === undefined)) continue;
+      const clash = table.rows.some(other => other !== replacing && index.columns.every((c, i) => other[c] === key[i]));
+      if (clash) {
+        throw new DatabaseError(
+          `duplicate key value violates unique constraint "${index.name}"`,
+          `Key (${index.columns.join(', ')})=(${key.map(formatKey).join(', ')}) already exists.`,
+        );
+      }
+    }
+  }
+}
+
+// The service's data belongs to the shell's filesystem, like docker's containers, so separate engines don't share it
+const states = new WeakMap<VirtualFileSystem, FleetCoreState>();
+
+export function fleetCoreStateFor(fs: VirtualFileSystem): FleetCoreState {
+  let state = states.get(fs);
+  if (!state) {
+    state = new FleetCoreState(fs);
+    states.set(fs, state);
+  }
+  return state;
+}
+
+/** A value converted to a column's type, or the error Postgres gives for it */
+export function coerce(column: Column, value: unknown): unknown {
+  if (value === null || value === undefined) return null;
+  const type = column.type;
+  const invalid = () => new DatabaseError(`invalid input syntax for type ${type.replace(/\(.*$/, '')}: "${formatKey(value)}"`);
+
+  if (/^(integer|bigint|smallint)$/.test(type)) {
+    const n = typeof value === 'number' ? value : Number(String(value).trim());
+    if (!Number.isInteger(n) || String(value).trim() === '') throw invalid();
+    return n;
+  }
+  if (/^(numeric|real|double precision)/.test(type)) {
+    const n = typeof value === 'number' ? value : Number(String(value).trim());
+    if (!Number.isFinite(n) || String(value).trim() === '') throw invalid();
+    return n;
+  }
+  if (type === 'boolean') {
+    if (typeof value === 'boolean') return value;
+    const text = String(value).toLowerCase();
+    if (['t', 'true', 'yes', 'on', '1'].includes(text)) return true;
+    if (['f', 'false', 'no', 'off', '0'].includes(text)) return false;
+    throw invalid();
+  }
+  if (type === 'json' || type === 'jsonb') {
+    if (typeof value !== 'string') return value;
+    try {
+      return JSON.parse(value);
+    } catch {
+      throw invalid();
+    }
+  }
+  if (type.startsWith('timestamp') || type === 'date') {
+    const time = Date.parse(String(value));
+    if (Number.isNaN(time)) throw invalid();
+    const iso = new Date(time).toISOString();
+    return type === 'date' ? iso.slice(0, 10) : iso;
+  }
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  const length = /^character varying\((\d+)\)$/.exec(type)?.[1];
+  if (length && text.length > Number(length)) {
+    throw new DatabaseError(`value too long for type ${type}`);
+  }
+  return text;
+}
+
+/** knex's index names: vehicles_pkey, vehicles_vin_unique, trips_vehicle_id_index */
+function indexName(table: string, spec: IndexSpec): string {
+  if (spec.primary) return `${table}_pkey`;
+  return `${table}_${spec.columns.join('_')}_${spec.unique ? 'unique' : 'index'}`;
+}
+
+function migrationFiles(fs: VirtualFileSystem): string[] {
+  return (fs.runAs('root', () => fs.listDir(MIGRATIONS_DIR)) ?? [])
+    .filter(f => f.type === 'file').map(f => f.name).sort();
+}
+
+function readAsRoot(fs: VirtualFileSystem, path: string): string {
+  return fs.runAs('root', () => fs.readFile(path)) ?? '';
+}
+
+function formatKey(value: unknown): string {
+  if (value === null || value === undefined) return 'null';
+  if (typeof value === 'object') return JSON.stringify(value);
+  // Timestamps as Postgres prints them: 2024-01-15 08:32:05+00
+  return String(value).replace(/^(\d{4}-\d{2}-\d{2})T(\d{2}:\d{2}:\d{2})(?:\.000)?(\.\d+)?Z$/, '$1 $2$3+00');
+}
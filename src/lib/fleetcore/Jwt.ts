@@ -0,0 +1,140 @@
+/**
+ * HS256 JSON Web Tokens, synchronous so commands can check them without
+ * WebCrypto. Only what the simulated API needs: signing tokens it issues
+ * and verifying the ones candidates send back.
+ */
+
+export type JwtResult =
+  | { valid: true; payload: Record<string, unknown> }
+  | { valid: false; reason: 'malformed' | 'signature' | 'expired' };
+
+export function signJwt(payload: Record<string, unknown>, secret: string): string {
+  const header = base64UrlEncode(utf8(JSON.stringify({ alg: 'HS256', typ: 'JWT' })));
+  const body = base64UrlEncode(utf8(JSON.stringify(payload)));
+  const signature = base64UrlEncode(hmacSha256(utf8(secret), utf8(`${header}.${body}`)));
+  return `${header}.${body}.${signature}`;
+}
+
+/** `now` is in milliseconds; `exp` claims are in seconds, as jsonwebtoken writes them */
+export function verifyJwt(token: string, secret: string, now: number): JwtResult {
+  const parts = token.split('.');
+  if (parts.length !== 3) return { valid: false, reason: 'malformed' };
+  const [header, body, signature] = parts;
+
+  let payload: Record<string, unknown>;
+  try {
+    const decodedHeader = JSON.parse(fromUtf8(base64UrlDecode(header)));
+    payload = JSON.parse(fromUtf8(base64UrlDecode(body)));
+    if (decodedHeader?.alg !== 'HS256' || !payload || typeof payload !== 'object') {
+      return { valid: false, reason: 'malformed' };
+    }
+  } catch {
+    return { valid: false, reason: 'malformed' };
+  }
+
+  const expected = base64UrlEncode(hmacSha256(utf8(secret), utf8(`${header}.${body}`)));
+  if (expected !== signature) return { valid: false, reason: 'signature' };
+  if (typeof payload.exp === 'number' && payload.exp * 1000 <= now) return { valid: false, reason: 'expired' };
+  return { valid: true, payload };
+}
+
+const K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+function sha256(data: Uint8Array): Uint8Array {
+  const h = new Uint32Array([0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19]);
+  const length = Math.ceil((data.length + 9) / 64) * 64;
+  const padded = new Uint8Array(length);
+  padded.set(data);
+  padded[data.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  view.setUint32(length - 8, Math.floor(data.length / 0x20000000));
+  view.setUint32(length - 4, (data.length * 8) >>> 0);
+
+  const w = new Uint32Array(64);
+  for (let offset = 0; offset < length; offset += 64) {
+    for (let i = 0; i < 16; i++) w[i] = view.getUint32(offset + i * 4);
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+      const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+      w[i] = (w[i - 16] + s0 + w[i - 7] + s1) >>> 0;
+    }
+    let [a, b, c, d, e, f, g, hh] = h;
+    for (let i = 0; i < 64; i++) {
+      const t1 = (hh + (rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25)) + ((e & f) ^ (~e & g)) + K[i] + w[i]) >>> 0;
+      const t2 = ((rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22)) + ((a & b) ^ (a & c) ^ (b & c))) >>> 0;
+      hh = g; g = f; f = e; e = (d + t1) >>> 0;
+      d = c; c = b; b = a; a = (t1 + t2) >>> 0;
+    }
+    h[0] += a; h[1] += b; h[2] += c; h[3] += d; h[4] += e; h[5] += f; h[6] += g; h[7] += hh;
+  }
+
+  const out = new Uint8Array(32);
+  const outView = new DataView(out.buffer);
+  h.forEach((word, i) => outView.setUint32(i * 4, word));
+  return out;
+}
+
+function hmacSha256(key: Uint8Array, message: Uint8Array): Uint8Array {
+  const block = new Uint8Array(64);
+  block.set(key.length > 64 ? sha256(key) : key);
+  const inner = new Uint8Array(64 + message.length);
+  const outer = new Uint8Array(64 + 32);
+  for (let i = 0; i < 64; i++) {
+    inner[i] = block[i] ^ 0x36;
+    outer[i] = block[i] ^ 0x5c;
+  }
+  inner.set(message, 64);
+  outer.set(sha256(inner), 64);
+  return sha256(outer);
+}
+
+function rotr(x: number, n: number): number {
+  return (x >>> n) | (x << (32 - n));
+}
+
+function utf8(text: string): Uint8Array {
+  return new TextEncoder().encode(text);
+}
+
+function fromUtf8(bytes: Uint8Array): string {
+  return new TextDecoder().decode(bytes);
+}
+
+const BASE64URL = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+
+function base64UrlEncode(bytes: Uint8Array): string {
+  let out = '';
+  for (let i = 0; i < bytes.length; i += 3) {
+    const n = (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0);
+    const chars = [n >> 18, (n >> 12) & 63, (n >> 6) & 63, n & 63].map(c => BASE64URL[c]);
+    out += chars.slice(0, Math.min(4, bytes.length - i + 1)).join('');
+  }
+  return out;
+}
+
+function base64UrlDecode(text: string): Uint8Array {
+  const clean = text.replace(/=+$/, '').replace(/\+/g, '-').replace(/\//g, '_');
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+  for (const char of clean) {
+    const value = BASE64URL.indexOf(char);
+    if (value === -1) throw new Error('invalid base64url');
+    buffer = (buffer << 6) | value;
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes.push((buffer >> bits) & 0xff);
+    }
+  }
+  return new Uint8Array(bytes);
+}
@@ -0,0 +1,351 @@
+/**
+ * Reading the FleetCore project's knex files without running them: the
+ * tables its migrations build and the rows its seeds insert. Both only
+ * understand the declarative style the project uses; anything built
+ * dynamically is skipped rather than guessed at.
+ */
+
+export interface ColumnSpec {
+  name: string;
+  /** Postgres type as \d shows it, e.g. character varying(17) */
+  type: string;
+  notNull: boolean;
+  default?: ColumnDefault;
+  references?: { table: string; column: string };
+  /** Allowed values, for enum columns */
+  values?: string[];
+}
+
+export type ColumnDefault =
+  | { kind: 'value'; value: unknown }
+  | { kind: 'now' }
+  | { kind: 'uuid' }
+  | { kind: 'serial' };
+
+export interface IndexSpec {
+  /** Generated from the table and columns when the migration doesn't name it */
+  name?: string;
+  columns: string[];
+  unique: boolean;
+  primary: boolean;
+}
+
+export type MigrationStep =
+  | { kind: 'createTable'; table: string; columns: ColumnSpec[]; indexes: IndexSpec[] }
+  | { kind: 'alterTable'; table: string; columns: ColumnSpec[]; indexes: IndexSpec[]; dropColumns: string[] }
+  | { kind: 'dropTable'; table: string; ifExists: boolean };
+
+export interface SeedInsert {
+  table: string;
+  rows: Record<string, unknown>[];
+}
+
+/** The rows each `knex('table').insert([...])` in a seed file adds; calls that don't parse are skipped */
+export function parseSeedInserts(source: string): SeedInsert[] {
+  const inserts: SeedInsert[] = [];
+  const call = /knex\(\s*['"](\w+)['"]\s*\)\s*\.insert\(\s*/g;
+  let match: RegExpExecArray | null;
+  while ((match = call.exec(source))) {
+    try {
+      const value = new LiteralParser(source, call.lastIndex).parse();
+      const rows = Array.isArray(value) ? value : [value];
+      inserts.push({ table: match[1], rows: rows.filter((r): r is Record<string, unknown> => !!r && typeof r === 'object') });
+    } catch {
+      // Not a literal we understand (e.g. built in a loop); the table just isn't seeded from it
+    }
+  }
+  return inserts;
+}
+
+/** The schema changes a migration's `up` makes, in order */
+export function parseMigration(source: string): MigrationStep[] {
+  const up = source.indexOf('function up');
+  const down = source.indexOf('function down');
+  const body = source.slice(up === -1 ? 0 : up, down > up ? down : source.length);
+
+  const steps: MigrationStep[] = [];
+  const call = /\.(createTable|createTableIfNotExists|alterTable|table|dropTable|dropTableIfExists)\(\s*['"](\w+)['"]/g;
+  let match: RegExpExecArray | null;
+  while ((match = call.exec(body))) {
+    const [, method, table] = match;
+    if (method.startsWith('dropTable')) {
+      steps.push({ kind: 'dropTable', table, ifExists: method === 'dropTableIfExists' });
+      continue;
+    }
+    const open = body.indexOf('{', call.lastIndex);
+    if (open === -1) continue;
+    const close = matchingBrace(body, open);
+    const builder = /\(\s*(\w+)\s*\)|(\w+)\s*=>|function\s*\(\s*(\w+)/.exec(body.slice(call.lastIndex, open));
+    const name = builder?.[1] ?? builder?.[2] ?? builder?.[3] ?? 'table';
+    const { columns, indexes, dropColumns } = parseTableBuilder(name, body.slice(open + 1, close));
+    steps.push(method === 'createTable' || method === 'createTableIfNotExists'
+      ? { kind: 'createTable', table, columns, indexes }
+      : { kind: 'alterTable', table, columns, indexes, dropColumns });
+    call.lastIndex = close;
+  }
+  return steps;
+}
+
+/** `table.string('vin', 17).notNullable().unique();` and friends, one statement at a time */
+function parseTableBuilder(builder: string, body: string) {
+  const columns: ColumnSpec[] = [];
+  const indexes: IndexSpec[] = [];
+  const dropColumns: string[] = [];
+
+  for (const statement of splitStatements(body)) {
+    const calls = chainedCalls(statement.trim(), builder);
+    if (calls.length === 0) continue;
+    const [first, ...chain] = calls;
+    const args = literalArgs(first.args);
+
+    if (first.name === 'timestamps') {
+      const [, defaultToNow] = args;
+      for (const name of ['created_at', 'updated_at']) {
+        columns.push({ name, type: 'timestamp with time zone', notNull: defaultToNow === true, ...(defaultToNow === true && { default: { kind: 'now' } as const }) });
+      }
+      continue;
+    }
+    if (first.name === 'index' || first.name === 'unique' || first.name === 'primary') {
+      const cols = Array.isArray(args[0]) ? args[0].map(String) : [String(args[0])];
+      const name = typeof args[1] === 'string' ? args[1] : undefined;
+      indexes.push({ name, columns: cols, unique: first.name !== 'index', primary: first.name === 'primary' });
+      continue;
+    }
+    if (first.name === 'dropColumn') {
+      dropColumns.push(...args.map(String));
+      continue;
+    }
+
+    const type = columnType(first.name, args);
+    if (!type || typeof args[0] !== 'string') continue;
+    const column: ColumnSpec = { name: args[0], type, notNull: false };
+    if (first.name === 'increments' || first.name === 'bigIncrements') {
+      column.notNull = true;
+      column.default = { kind: 'serial' };
+      indexes.push({ columns: [column.name], unique: true, primary: true });
+    }
+    if (first.name === 'enum' || first.name === 'enu') {
+      column.values = Array.isArray(args[1]) ? args[1].map(String) : [];
+    }
+
+    for (const link of chain) {
+      const linkArgs = literalArgs(link.args);
+      if (link.name === 'notNullable') column.notNull = true;
+      if (link.name === 'nullable') column.notNull = false;
+      if (link.name === 'primary') {
+        column.notNull = true;
+        indexes.push({ columns: [column.name], unique: true, primary: true });
+      }
+      if (link.name === 'unique') indexes.push({ columns: [column.name], unique: true, primary: false });
+      if (link.name === 'index') indexes.push({ name: typeof linkArgs[0] === 'string' ? linkArgs[0] : undefined, columns: [column.name], unique: false, primary: false });
+      if (link.name === 'defaultTo') column.default = parseDefault(link.args);
+      if (link.name === 'references' && typeof linkArgs[0] === 'string') {
+        const [refTable, refColumn] = linkArgs[0].includes('.') ? linkArgs[0].split('.') : ['', linkArgs[0]];
+        column.references = { table: refTable, column: refColumn };
+      }
+      if (link.name === 'inTable' && column.references && typeof linkArgs[0] === 'string') {
+        column.references.table = linkArgs[0];
+      }
+    }
+    columns.push(column);
+  }
+
+  return { columns, indexes, dropColumns };
+}
+
+function columnType(method: string, args: unknown[]): string | null {
+  const size = (index: number, fallback: number) => (typeof args[index] === 'number' ? args[index] : fallback);
+  switch (method) {
+    case 'increments': return 'integer';
+    case 'bigIncrements': return 'bigint';
+    case 'integer': return 'integer';
+    case 'bigInteger': return 'bigint';
+    case 'smallint': return 'smallint';
+    case 'uuid': return 'uuid';
+    case 'string': return `character varying(${size(1, 255)})`;
+    case 'text': return 'text';
+    case 'enum':
+    case 'enu': return 'text';
+    case 'float': return 'real';
+    case 'double': return 'double precision';
+    case 'decimal': return `numeric(${size(1, 8)},${size(2, 2)})`;
+    case 'boolean': return 'boolean';
+    case 'date': return 'date';
+    case 'datetime':
+    case 'timestamp': return 'timestamp with time zone';
+    case 'json': return 'json';
+    case 'jsonb': return 'jsonb';
+    case 'specificType': return typeof args[1] === 'string' ? args[1] : null;
+    default: return null;
+  }
+}
+
+function parseDefault(args: string): ColumnDefault {
+  if (/gen_random_uuid|uuid_generate/.test(args)) return { kind: 'uuid' };
+  if (/fn\.now\(|now\(\)|CURRENT_TIMESTAMP/i.test(args)) return { kind: 'now' };
+  const [value] = literalArgs(args);
+  return { kind: 'value', value: value ?? null };
+}
+
+/** `builder.method(args).method(args)...` as a list of calls, or [] for anything else */
+function chainedCalls(statement: string, builder: string): { name: string; args: string }[] {
+  if (!statement.startsWith(`${builder}.`)) return [];
+  const calls: { name: string; args: string }[] = [];
+  let pos = builder.length;
+  while (pos < statement.length) {
+    const match = /^\s*\.\s*(\w+)\s*\(/.exec(statement.slice(pos));
+    if (!match) break;
+    const open = pos + match[0].length - 1;
+    const close = matchingBrace(statement, open);
+    calls.push({ name: match[1], args: statement.slice(open + 1, close) });
+    pos = close + 1;
+  }
+  return calls;
+}
+
+/** The literal arguments of a call; anything that isn't a literal (like knex.raw(...)) becomes undefined */
+function literalArgs(args: string): unknown[] {
+  try {
+    const value = new LiteralParser(`[${args}]`, 0).parse();
+    return Array.isArray(value) ? value : [];
+  } catch {
+    return [];
+  }
+}
+
+/** Statements at the top level of a block, split on semicolons and newlines outside brackets and strings */
+function splitStatements(body: string): string[] {
+  const statements: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let current = '';
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i];
+    if (quote) {
+      if (char === '\\') {
+        current += char + (body[i + 1] ?? '');
+        i++;
+        continue;
+      }
+      if (char === quote) quote = null;
+    } else if (char === "'" || char === '"' || char === '`') {
+      quote = char;
+    } else if (char === '/' && body[i + 1] === '/') {
+      while (i < body.length && body[i] !== '\n') i++;
+      continue;
+    } else if ('([{'.includes(char)) {
+      depth++;
+    } else if (')]}'.includes(char)) {
+      depth--;
+    } else if (char === ';' && depth === 0) {
+      statements.push(current);
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  statements.push(current);
+  return statements.map(s => s.replace(/\s*\n\s*/g, '')).filter(s => s.trim() !== '');
+}
+
+/** Index of the bracket that closes the one at `open`, skipping strings */
+function matchingBrace(source: string, open: number): number {
+  let depth = 0;
+  let quote: string | null = null;
+  for (let i = open; i < source.length; i++) {
+    const char = source[i];
+    if (quote) {
+      if (char === '\\') i++;
+      else if (char === quote) quote = null;
+    } else if (char === "'" || char === '"' || char === '`') {
+      quote = char;
+    } else if ('([{'.includes(char)) {
+      depth++;
+    } else if (')]}'.includes(char) && --depth === 0) {
+      return i;
+    }
+  }
+  return source.length;
+}
+
+/** Just enough of JavaScript's literal syntax for seed data: objects, arrays, strings, numbers, booleans, null */
+class LiteralParser {
+  constructor(private source: string, private pos: number) {}
+
+  parse(): unknown {
+    this.skip();
+    const char = this.source[this.pos];
+    if (char === '[') return this.array();
+    if (char === '{') return this.object();
+    if (char === "'" || char === '"' || char === '`') return this.string();
+    const word = /^(-?\d+(?:\.\d+)?|true|false|null|undefined)/.exec(this.source.slice(this.pos));
+    if (!word) throw new Error(`Unexpected ${char} at ${this.pos}`);
+    this.pos += word[1].length;
+    if (word[1] === 'true') return true;
+    if (word[1] === 'false') return false;
+    if (word[1] === 'null' || word[1] === 'undefined') return null;
+    return Number(word[1]);
+  }
+
+  private array(): unknown[] {
+    const items: unknown[] = [];
+    this.pos++;
+    while (this.peek() !== ']') {
+      items.push(this.parse());
+      if (this.peek() === ',') this.pos++;
+    }
+    this.pos++;
+    return items;
+  }
+
+  private object(): Record<string, unknown> {
+    const obj: Record<string, unknown> = {};
+    this.pos++;
+    while (this.peek() !== '}') {
+      const key = this.source[this.pos] === "'" || this.source[this.pos] === '"'
+        ? this.string()
+        : this.identifier();
+      if (this.peek() !== ':') throw new Error(`Expected : at ${this.pos}`);
+      this.pos++;
+      obj[key] = this.parse();
+      if (this.peek() === ',') this.pos++;
+    }
+    this.pos++;
+    return obj;
+  }
+
+  private string(): string {
+    const quote = this.source[this.pos++];
+    let value = '';
+    while (this.pos < this.source.length && this.source[this.pos] !== quote) {
+      if (this.source[this.pos] === '\\') this.pos++;
+      value += this.source[this.pos++];
+    }
+    if (this.pos >= this.source.length) throw new Error('Unterminated string');
+    this.pos++;
+    return value;
+  }
+
+  private identifier(): string {
+    const word = /^[A-Za-z_$][\w$]*/.exec(this.source.slice(this.pos));
+    if (!word) throw new Error(`Expected a key at ${this.pos}`);
+    this.pos += word[0].length;
+    return word[0];
+  }
+
+  /** Skip whitespace and comments, then look at the next character */
+  private peek(): string {
+    this.skip();
+    if (this.pos >= this.source.length) throw new Error('Unexpected end of input');
+    return this.source[this.pos];
+  }
+
+  private skip(): void {
+    for (;;) {
+      const rest = this.source.slice(this.pos);
+      const gap = /^(?:\s+|\/\/[^\n]*|\/\*[\s\S]*?\*\/)/.exec(rest);
+      if (!gap) return;
+      this.pos += gap[0].length;
+    }
+  }
+}
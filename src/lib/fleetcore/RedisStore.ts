@@ -0,0 +1,1072 @@
+import type { VirtualFileSystem } from '../terminal/VirtualFileSystem';
+import type { Clock } from '../terminal/Clock';
+import { ComposeService, hostsFile, loadCompose } from './Compose';
+import { serviceUp } from './Containers';
+
+export const REDIS_VERSION = '7.2.4';
+const DATABASES = 16;
+const LOOPBACK = ['localhost', '127.0.0.1', '::1'];
+/** What Docker's userland proxy looks like to the server when the host connects through a published port */
+const GATEWAY = '172.18.0.1';
+
+/** A reply as RESP2 carries it; redis-cli prints each kind differently */
+export type RedisReply =
+  | { kind: 'status'; value: string }
+  | { kind: 'error'; value: string }
+  | { kind: 'integer'; value: number }
+  | { kind: 'bulk'; value: string | null }
+  | { kind: 'array'; value: RedisReply[] | null };
+
+/** The cache service's redis-server settings, from its command line in docker-compose.yml */
+export interface RedisConfig {
+  service: string;
+  port: number;
+  password: string | null;
+  maxmemory: number;
+  maxmemoryPolicy: string;
+  /** Host ports Docker forwards to the port the server listens on */
+  published: number[];
+}
+
+type Value =
+  | { type: 'string'; value: string }
+  | { type: 'hash'; value: Map<string, string> }
+  | { type: 'list'; value: string[] };
+
+interface Entry {
+  data: Value;
+  expiresAt: number | null;
+}
+
+interface Stats {
+  connections: number;
+  commands: number;
+  hits: number;
+  misses: number;
+  expired: number;
+  errors: number;
+  changes: number;
+}
+
+const EVICTION_POLICIES = [
+  'volatile-lru', 'volatile-lfu', 'volatile-random', 'volatile-ttl',
+  'allkeys-lru', 'allkeys-lfu', 'allkeys-random', 'noeviction',
+];
+
+/** Settings CONFIG GET shows and CONFIG SET may change; the rest come from the compose file */
+const FIXED_SETTINGS: Record<string, string> = {
+  'appendonly': 'no',
+  'bind': '* -::*',
+  'databases': String(DATABASES),
+  'maxclients': '10000',
+  'save': '3600 1 300 100 60 10000',
+  'timeout': '0',
+};
+const IMMUTABLE_SETTINGS = ['bind', 'databases', 'port'];
+
+/** Thrown by a command to answer with an error reply */
+class RedisError extends Error {}
+
+const OK: RedisReply = { kind: 'status', value: 'OK' };
+const WRONGTYPE = 'WRONGTYPE Operation against a key holding the wrong kind of value';
+const NOT_INTEGER = 'ERR value is not an integer or out of range';
+
+/**
+ * The fleetcore-cache Redis server's data: sixteen databases of strings,
+ * hashes and lists with their expiry times, and the counters INFO reports.
+ * Like the Postgres data it lives as long as the shell's filesystem, so
+ * what the API caches is still there for redis-cli to look at.
+ */
+export class RedisStore {
+  readonly dbs: Map<string, Entry>[] = Array.from({ length: DATABASES }, () => new Map());
+  readonly stats: Stats = { connections: 0, commands: 0, hits: 0, misses: 0, expired: 0, errors: 0, changes: 0 };
+  /** CONFIG SET overrides of the server's settings */
+  readonly settings = new Map<string, string>();
+  readonly runId: string;
+  clients = 0;
+  private monitors = new Set<(line: string) => void>();
+
+  constructor(readonly startedAt: number, random: () => number) {
+    this.runId = Array.from({ length: 40 }, () => Math.floor(random() * 16).toString(16)).join('');
+  }
+
+  /** Receive every command clients send from now on, as MONITOR prints them; returns the unsubscribe */
+  watch(listener: (line: string) => void): () => void {
+    this.monitors.add(listener);
+    return () => this.monitors.delete(listener);
+  }
+
+  feed(line: string): void {
+    this.monitors.forEach(listener => listener(line));
+  }
+
+  /** Run fn leaving no trace: monitors don't see its commands and nothing it changes is kept */
+  unobserved<T>(fn: () => T): T {
+    const saved = this.snapshot();
+    const monitors = this.monitors;
+    this.monitors = new Set();
+    try {
+      return fn();
+    } finally {
+      this.monitors = monitors;
+      this.restore(saved);
+    }
+  }
+
+  snapshot(): unknown {
+    return structuredClone({ dbs: this.dbs, stats: this.stats, settings: this.settings });
+  }
+
+  restore(snapshot: unknown): void {
+    const saved = structuredClone(snapshot) as { dbs: Map<string, Entry>[]; stats: Stats; settings: Map<string, string> };
+    saved.dbs.forEach((db, i) => {
+      this.dbs[i].clear();
+      db.forEach((entry, key) => this.dbs[i].set(key, entry));
+    });
+    Object.assign(this.stats, saved.stats);
+    this.settings.clear();
+    saved.settings.forEach((value, name) => this.settings.set(name, value));
+  }
+}
+
+/** One client connection: its selected database and whether it has authenticated */
+export class RedisSession {
+  db: number;
+  private authenticated: boolean;
+  private closed = false;
+
+  constructor(
+    private store: RedisStore,
+    private config: RedisConfig,
+    private clock: Clock,
+    /** ip:port as the server sees the client */
+    readonly address: string,
+    db = 0,
+  ) {
+    this.db = db;
+    this.authenticated = this.password() === null;
+    store.stats.connections++;
+    store.clients++;
+  }
+
+  /** Run one command; argv[0] is its name in any case */
+  execute(argv: string[]): RedisReply {
+    const reply = this.dispatch(argv);
+    if (reply.kind === 'error') this.store.stats.errors++;
+    return reply;
+  }
+
+  watch(listener: (line: string) => void): () => void {
+    return this.store.watch(listener);
+  }
+
+  close(): void {
+    if (this.closed) return;
+    this.closed = true;
+    this.store.clients--;
+  }
+
+  isClosed(): boolean {
+    return this.closed;
+  }
+
+  private dispatch(argv: string[]): RedisReply {
+    const name = (argv[0] ?? '').toLowerCase();
+    const command = Object.hasOwn(COMMANDS, name) ? COMMANDS[name] : undefined;
+    if (!command) {
+      const args = argv.slice(1, 21).map(a => `'${a}' `).join('');
+      return error(`ERR unknown command '${argv[0] ?? ''}', with args beginning with: ${args}`);
+    }
+    if (command.arity > 0 ? argv.length !== command.arity : argv.length < -command.arity) {
+      return error(`ERR wrong number of arguments for '${name}' command`);
+    }
+    if (!this.authenticated && name !== 'auth' && name !== 'quit') return error('NOAUTH Authentication required.');
+
+    const now = this.clock.now();
+    const shown = name === 'auth' ? [argv[0], '(redacted)'] : argv;
+    this.store.feed(`${(now / 1000).toFixed(6)} [${this.db} ${this.address}] ${shown.map(quote).join(' ')}`);
+    this.store.stats.commands++;
+    try {
+      return command.run(new Executor(this.store, this, now), argv.slice(1));
+    } catch (err) {
+      if (err instanceof RedisError) return error(err.message);
+      throw err;
+    }
+  }
+
+  /** The password the server requires, if any: CONFIG SET requirepass wins over the compose file */
+  password(): string | null {
+    const set = this.store.settings.get('requirepass');
+    if (set !== undefined) return set === '' ? null : set;
+    return this.config.password;
+  }
+
+  authenticate(password: string): RedisReply {
+    const required = this.password();
+    if (required === null) {
+      return error('ERR AUTH <password> called without any password configured for the default user. Are you sure your configuration is correct?');
+    }
+    if (password !== required) return error('WRONGPASS invalid username-password pair or user is disabled.');
+    this.authenticated = true;
+    return OK;
+  }
+
+  setting(name: string): string | null {
+    const set = this.store.settings.get(name);
+    if (set !== undefined) return set;
+    switch (name) {
+      case 'port': return String(this.config.port);
+      case 'requirepass': return this.config.password ?? '';
+      case 'maxmemory': return String(this.config.maxmemory);
+      case 'maxmemory-policy': return this.config.maxmemoryPolicy;
+      default: return Object.hasOwn(FIXED_SETTINGS, name) ? FIXED_SETTINGS[name] : null;
+    }
+  }
+}
+
+// The cache belongs to the shell's filesystem, like the database, so separate engines don't share it
+const stores = new WeakMap<VirtualFileSystem, RedisStore>();
+
+export function redisStoreFor(fs: VirtualFileSystem, clock: Clock): RedisStore {
+  let store = stores.get(fs);
+  if (!store) {
+    store = new RedisStore(clock.now(), () => clock.random());
+    stores.set(fs, store);
+  }
+  return store;
+}
+
+/** The first service running a redis image, with the settings its redis-server command line gives */
+export function redisConfig(services: ComposeService[]): RedisConfig | null {
+  const service = services.find(s => /^(?:[^/]+\/)*redis(?:[:@]|$)/.test(s.image ?? ''));
+  if (!service) return null;
+  const flag = (name: string) => {
+    const i = service.command.indexOf(`--${name}`);
+    return i === -1 ? undefined : service.command[i + 1];
+  };
+  const port = Number(flag('port') ?? 6379);
+  return {
+    service: service.name,
+    port,
+    password: flag('requirepass') ?? null,
+    maxmemory: memoryBytes(flag('maxmemory') ?? '0') ?? 0,
+    maxmemoryPolicy: flag('maxmemory-policy') ?? 'noeviction',
+    published: service.ports.filter(p => p.target === port && p.published !== null).map(p => p.published!),
+  };
+}
+
+/**
+ * Connect to the project's Redis as docker-compose.yml wires it up. From
+ * the host (`from` null) the server is reachable through a published port
+ * on loopback or at its container's address; from inside a container
+ * (`from` names its service) by service name, or on loopback in the cache
+ * container itself. Anything else is refused, or unknown if the name
+ * doesn't resolve.
+ */
+export function connectRedis(
+  fs: VirtualFileSystem,
+  clock: Clock,
+  target: { host: string; port: number; db?: number },
+  from: string | null,
+): RedisSession | { error: string } {
+  const services = loadCompose(fs) ?? [];
+  const config = redisConfig(services);
+  const hosts = hostsFile(fs);
+  const ephemeral = () => 32768 + Math.floor(clock.random() * 28000);
+  const connect = (ip: string) => new RedisSession(redisStoreFor(fs, clock), config!, clock, `${ip}:${ephemeral()}`, target.db);
+  const refused = { error: 'Connection refused' };
+  // Nothing listens while the cache container is stopped or crash-looping
+  const server = config && serviceUp(fs, clock, config.service) ? config : null;
+
+  if (LOOPBACK.includes(target.host)) {
+    if (from === null) return server?.published.includes(target.port) ? connect(GATEWAY) : refused;
+    return server && from === server.service && target.port === server.port ? connect('127.0.0.1') : refused;
+  }
+
+  const isAddress = /^\d+\.\d+\.\d+\.\d+$/.test(target.host);
+  const byName = from !== null && services.some(s => s.name === target.host);
+  const address = isAddress ? target.host : hosts.get(target.host);
+  if (!byName && address === undefined) return { error: 'Name or service not known' };
+  if (!server || target.port !== server.port) return refused;
+  const isCache = byName ? target.host === server.service : address === hosts.get(server.service);
+  if (!isCache) return refused;
+  return connect(from === null ? GATEWAY : hosts.get(from) ?? GATEWAY);
+}
+
+/** "256mb", "1gb", "100000": Redis's memory units, where k is 1000 and kb is 1024 */
+export function memoryBytes(text: string): number | null {
+  const match = /^(\d+)(b|k|kb|m|mb|g|gb)?$/i.exec(text.trim());
+  if (!match) return null;
+  const units: Record<string, number> = { b: 1, k: 1e3, kb: 1024, m: 1e6, mb: 1024 ** 2, g: 1e9, gb: 1024 ** 3 };
+  return Number(match[1]) * units[(match[2] ?? 'b').toLowerCase()];
+}
+
+/** Bytes as INFO shows them: 1.07M */
+function humanBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes}B`;
+  const units = ['K', 'M', 'G', 'T'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(2)}${units[unit]}`;
+}
+
+/** --raw: values as they are, one array item per line */
+export function formatRaw(reply: RedisReply): string {
+  switch (reply.kind) {
+    case 'integer':
+      return String(reply.value);
+    case 'bulk':
+      return reply.value ?? '';
+    case 'array':
+      return (reply.value ?? []).map(formatRaw).join('\n');
+    default:
+      return reply.value;
+  }
+}
+
+/** A string the way MONITOR and redis-cli quote it: printable ASCII as is, anything else escaped */
+export function quote(text: string): string {
+  let out = '"';
+  for (const byte of new TextEncoder().encode(text)) {
+    const c = String.fromCharCode(byte);
+    if (c === '\\' || c === '"') out += `\\${c}`;
+    else if (c === '\n') out += '\\n';
+    else if (c === '\r') out += '\\r';
+    else if (c === '\t') out += '\\t';
+    else if (c === '\x07') out += '\\a';
+    else if (c === '\b') out += '\\b';
+    else if (byte >= 0x20 && byte < 0x7f) out += c;
+    else out += `\\x${byte.toString(16).padStart(2, '0')}`;
+  }
+  return out + '"';
+}
+
+function error(message: string): RedisReply {
+  return { kind: 'error', value: message };
+}
+
+function bulk(value: string | null): RedisReply {
+  return { kind: 'bulk', value };
+}
+
+function integer(value: number): RedisReply {
+  return { kind: 'integer', value };
+}
+
+function array(values: (string | null)[]): RedisReply {
+  return { kind: 'array', value: values.map(bulk) };
+}
+
+/** A whole number as Redis accepts it: no sign but minus, no leading zeros or spaces */
+function parseInteger(text: string, message = NOT_INTEGER): number {
+  if (!/^-?(0|[1-9]\d*)$/.test(text) || !Number.isSafeInteger(Number(text))) throw new RedisError(message);
+  return Number(text);
+}
+
+function parseFloat64(text: string): number {
+  const n = Number(text);
+  if (text.trim() === '' || !Number.isFinite(n)) throw new RedisError('ERR value is not a valid float');
+  return n;
+}
+
+/** Redis's glob-style patterns for KEYS, SCAN and CONFIG GET: * ? [abc] [^a-z] and \ escapes */
+function globRegExp(pattern: string): RegExp {
+  const escape = (c: string) => c.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const c = pattern[i];
+    if (c === '*') source += '[\\s\\S]*';
+    else if (c === '?') source += '[\\s\\S]';
+    else if (c === '\\' && i + 1 < pattern.length) source += escape(pattern[++i]);
+    else if (c === '[' && pattern.indexOf(']', i + 2) !== -1) {
+      const end = pattern.indexOf(']', i + 2);
+      const body = pattern.slice(i + 1, end);
+      const negate = body.startsWith('^');
+      source += `[${negate ? '^' : ''}${(negate ? body.slice(1) : body).replace(/[\]\\^]/g, '\\$&')}]`;
+      i = end;
+    } else source += escape(c);
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/** A list index from either end, as LINDEX and LRANGE take them */
+function listIndex(index: number, length: number): number {
+  return index < 0 ? length + index : index;
+}
+
+/** One command's view of the server: the client's database, at the moment it runs */
+class Executor {
+  readonly db: Map<string, Entry>;
+
+  constructor(readonly store: RedisStore, readonly session: RedisSession, readonly now: number) {
+    this.db = store.dbs[session.db];
+  }
+
+  /** The key's entry unless it has expired, which deletes it the way Redis does lazily */
+  lookup(key: string): Entry | null {
+    const entry = this.db.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt !== null && entry.expiresAt <= this.now) {
+      this.db.delete(key);
+      this.store.stats.expired++;
+      return null;
+    }
+    return entry;
+  }
+
+  /** A lookup that reads the value, which counts as a keyspace hit or miss */
+  read(key: string): Entry | null {
+    const entry = this.lookup(key);
+    if (entry) this.store.stats.hits++;
+    else this.store.stats.misses++;
+    return entry;
+  }
+
+  string(key: string, reading = true): string | null {
+    const entry = reading ? this.read(key) : this.lookup(key);
+    if (!entry) return null;
+    if (entry.data.type !== 'string') throw new RedisError(WRONGTYPE);
+    return entry.data.value;
+  }
+
+  hash(key: string, reading = true): Map<string, string> | null {
+    const entry = reading ? this.read(key) : this.lookup(key);
+    if (!entry) return null;
+    if (entry.data.type !== 'hash') throw new RedisError(WRONGTYPE);
+    return entry.data.value;
+  }
+
+  list(key: string, reading = true): string[] | null {
+    const entry = reading ? this.read(key) : this.lookup(key);
+    if (!entry) return null;
+    if (entry.data.type !== 'list') throw new RedisError(WRONGTYPE);
+    return entry.data.value;
+  }
+
+  /** The hash at key, created empty if it doesn't exist */
+  hashForWrite(key: string): Map<string, string> {
+    const existing = this.hash(key, false);
+    if (existing) return existing;
+    const value = new Map<string, string>();
+    this.db.set(key, { data: { type: 'hash', value }, expiresAt: null });
+    return value;
+  }
+
+  listForWrite(key: string): string[] {
+    const existing = this.list(key, false);
+    if (existing) return existing;
+    const value: string[] = [];
+    this.db.set(key, { data: { type: 'list', value }, expiresAt: null });
+    return value;
+  }
+
+  setString(key: string, value: string, expiresAt: number | null): void {
+    this.db.set(key, { data: { type: 'string', value }, expiresAt });
+    this.changed();
+  }
+
+  /** Hashes and lists disappear once their last element goes */
+  dropIfEmpty(key: string): void {
+    const entry = this.db.get(key);
+    if (!entry) return;
+    const size = entry.data.type === 'hash' ? entry.data.value.size : entry.data.type === 'list' ? entry.data.value.length : 1;
+    if (size === 0) this.db.delete(key);
+  }
+
+  changed(count = 1): void {
+    this.store.stats.changes += count;
+  }
+
+  /** Live keys, dropping any that have expired */
+  keys(): string[] {
+    return Array.from(this.db.keys()).filter(key => this.lookup(key) !== null);
+  }
+
+  /** Set or clear a key's expiry; a time already past deletes it. Returns 1 if the key exists */
+  expire(key: string, expiresAt: number, options: string[]): RedisReply {
+    const flags = new Set(options.map(o => o.toUpperCase()));
+    for (const option of options) {
+      if (!['NX', 'XX', 'GT', 'LT'].includes(option.toUpperCase())) throw new RedisError(`ERR Unsupported option ${option}`);
+    }
+    if (flags.has('NX') && (flags.has('XX') || flags.has('GT') || flags.has('LT'))) {
+      throw new RedisError('ERR NX and XX, GT or LT options at the same time are not compatible');
+    }
+    if (flags.has('GT') && flags.has('LT')) throw new RedisError('ERR GT and LT options at the same time are not compatible');
+    const entry = this.lookup(key);
+    if (!entry) return integer(0);
+    const current = entry.expiresAt;
+    if (flags.has('NX') && current !== null) return integer(0);
+    if (flags.has('XX') && current === null) return integer(0);
+    // No expiry counts as infinite
+    if (flags.has('GT') && (current === null || expiresAt <= current)) return integer(0);
+    if (flags.has('LT') && current !== null && expiresAt >= current) return integer(0);
+    if (expiresAt <= this.now) this.db.delete(key);
+    else entry.expiresAt = expiresAt;
+    this.changed();
+    return integer(1);
+  }
+
+  ttl(key: string, unit: number): RedisReply {
+    const entry = this.read(key);
+    if (!entry) return integer(-2);
+    if (entry.expiresAt === null) return integer(-1);
+    const ms = entry.expiresAt - this.now;
+    return integer(unit === 1 ? ms : Math.floor((ms + 500) / 1000));
+  }
+
+  incrementBy(key: string, delta: number): RedisReply {
+    const current = this.string(key, false);
+    const value = current === null ? 0 : parseInteger(current);
+    const next = value + delta;
+    if (!Number.isSafeInteger(next)) throw new RedisError('ERR increment or decrement would overflow');
+    this.setString(key, String(next), this.lookup(key)?.expiresAt ?? null);
+    return integer(next);
+  }
+
+  push(key: string, values: string[], head: boolean): RedisReply {
+    const list = this.listForWrite(key);
+    for (const value of values) {
+      if (head) list.unshift(value);
+      else list.push(value);
+    }
+    this.changed(values.length);
+    return integer(list.length);
+  }
+
+  pop(key: string, countArg: string | undefined, head: boolean): RedisReply {
+    const count = countArg === undefined ? null : parseInteger(countArg, 'ERR value is out of range, must be positive');
+    if (count !== null && count < 0) throw new RedisError('ERR value is out of range, must be positive');
+    const list = this.list(key, false);
+    if (!list) return count === null ? bulk(null) : { kind: 'array', value: null };
+    const taken = head ? list.splice(0, count ?? 1) : list.splice(Math.max(0, list.length - (count ?? 1))).reverse();
+    this.dropIfEmpty(key);
+    this.changed(taken.length);
+    return count === null ? bulk(taken[0] ?? null) : array(taken);
+  }
+
+  info(sections: string[]): string {
+    const wanted = sections.map(s => s.toLowerCase());
+    const everything = wanted.length === 0 || wanted.some(s => ['all', 'everything', 'default'].includes(s));
+    const uptime = Math.max(0, Math.floor((this.now - this.store.startedAt) / 1000));
+    const stats = this.store.stats;
+    const live = (db: Map<string, Entry>) => Array.from(db.values()).filter(e => e.expiresAt === null || e.expiresAt > this.now);
+    const used = 875_000 + this.store.dbs.reduce((total, db) => total + Array.from(db.entries())
+      .reduce((sum, [key, entry]) => sum + 56 + key.length + valueSize(entry.data), 0), 0);
+    const maxmemory = Number(this.session.setting('maxmemory') ?? 0);
+
+    const all: Record<string, string[]> = {
+      Server: [
+        `redis_version:${REDIS_VERSION}`,
+        'redis_git_sha1:00000000',
+        'redis_git_dirty:0',
+        'redis_mode:standalone',
+        'os:Linux 5.15.0-91-generic x86_64',
+        'arch_bits:64',
+        'gcc_version:13.2.1',
+        'process_id:1',
+        `run_id:${this.store.runId}`,
+        `tcp_port:${this.session.setting('port')}`,
+        `server_time_usec:${this.now * 1000}`,
+        `uptime_in_seconds:${uptime}`,
+        `uptime_in_days:${Math.floor(uptime / 86400)}`,
+        'hz:10',
+        'executable:/data/redis-server',
+        'config_file:',
+      ],
+      Clients: [
+        `connected_clients:${this.store.clients}`,
+        `maxclients:${FIXED_SETTINGS.maxclients}`,
+        'blocked_clients:0',
+      ],
+      Memory: [
+        `used_memory:${used}`,
+        `used_memory_human:${humanBytes(used)}`,
+        `maxmemory:${maxmemory}`,
+        `maxmemory_human:${humanBytes(maxmemory)}`,
+        `maxmemory_policy:${this.session.setting('maxmemory-policy')}`,
+      ],
+      Persistence: [
+        'loading:0',
+        `rdb_changes_since_last_save:${stats.changes}`,
+        'rdb_bgsave_in_progress:0',
+        `rdb_last_save_time:${Math.floor(this.store.startedAt / 1000)}`,
+        'aof_enabled:0',
+      ],
+      Stats: [
+        `total_connections_received:${stats.connections}`,
+        `total_commands_processed:${stats.commands}`,
+        'instantaneous_ops_per_sec:0',
+        'rejected_connections:0',
+        `expired_keys:${stats.expired}`,
+        'evicted_keys:0',
+        `keyspace_hits:${stats.hits}`,
+        `keyspace_misses:${stats.misses}`,
+        `total_error_replies:${stats.errors}`,
+      ],
+      Replication: [
+        'role:master',
+        'connected_slaves:0',
+        `master_replid:${this.store.runId}`,
+        'master_repl_offset:0',
+      ],
+      Cluster: ['cluster_enabled:0'],
+      Keyspace: this.store.dbs.map(live).flatMap((keys, i) => {
+        if (keys.length === 0) return [];
+        const expiring = keys.filter(e => e.expiresAt !== null);
+        const avg = expiring.length === 0 ? 0
+          : Math.floor(expiring.reduce((sum, e) => sum + (e.expiresAt! - this.now), 0) / expiring.length);
+        return [`db${i}:keys=${keys.length},expires=${expiring.length},avg_ttl=${avg}`];
+      }),
+    };
+    return Object.entries(all)
+      .filter(([section]) => everything || wanted.includes(section.toLowerCase()))
+      .map(([section, lines]) => [`# ${section}`, ...lines].join('\r\n') + '\r\n')
+      .join('\r\n');
+  }
+}
+
+function valueSize(data: Value): number {
+  if (data.type === 'string') return data.value.length;
+  if (data.type === 'list') return data.value.reduce((sum, v) => sum + v.length + 8, 0);
+  return Array.from(data.value).reduce((sum, [field, v]) => sum + field.length + v.length + 16, 0);
+}
+
+type Handler = (x: Executor, args: string[]) => RedisReply;
+
+/** Commands by lower-case name; arity counts the name, negative meaning "at least", as COMMAND INFO has it */
+const COMMANDS: Record<string, { arity: number; run: Handler }> = {
+  // Connection and server
+  ping: {
+    arity: -1,
+    run: (_x, args) => {
+      if (args.length > 1) throw new RedisError("ERR wrong number of arguments for 'ping' command");
+      return args.length === 1 ? bulk(args[0]) : { kind: 'status', value: 'PONG' };
+    },
+  },
+  echo: { arity: 2, run: (_x, [message]) => bulk(message) },
+  auth: {
+    arity: -2,
+    run: (x, args) => {
+      if (args.length > 2) throw new RedisError('ERR syntax error');
+      if (args.length === 2 && args[0] !== 'default') return error('WRONGPASS invalid username-password pair or user is disabled.');
+      return x.session.authenticate(args[args.length - 1]);
+    },
+  },
+  select: {
+    arity: 2,
+    run: (x, [index]) => {
+      const db = parseInteger(index);
+      if (db < 0 || db >= DATABASES) throw new RedisError('ERR DB index is out of range');
+      x.session.db = db;
+      return OK;
+    },
+  },
+  quit: {
+    arity: -1,
+    run: (x) => {
+      x.session.close();
+      return OK;
+    },
+  },
+  monitor: { arity: 1, run: () => OK },
+  dbsize: { arity: 1, run: (x) => integer(x.keys().length) },
+  flushdb: {
+    arity: -1,
+    run: (x, args) => {
+      if (args.length > 1 || (args[0] && !/^(a?sync)$/i.test(args[0]))) throw new RedisError('ERR syntax error');
+      x.changed(x.db.size);
+      x.db.clear();
+      return OK;
+    },
+  },
+  flushall: {
+    arity: -1,
+    run: (x, args) => {
+      if (args.length > 1 || (args[0] && !/^(a?sync)$/i.test(args[0]))) throw new RedisError('ERR syntax error');
+      for (const db of x.store.dbs) {
+        x.changed(db.size);
+        db.clear();
+      }
+      return OK;
+    },
+  },
+  info: { arity: -1, run: (x, sections) => bulk(x.info(sections)) },
+  time: {
+    arity: 1,
+    run: (x) => array([String(Math.floor(x.now / 1000)), String((x.now % 1000) * 1000)]),
+  },
+  config: {
+    arity: -2,
+    run: (x, [sub, ...args]) => {
+      switch (sub.toLowerCase()) {
+        case 'get': {
+          if (args.length === 0) throw new RedisError("ERR wrong number of arguments for 'config|get' command");
+          const names = ['port', 'requirepass', 'maxmemory', 'maxmemory-policy', ...Object.keys(FIXED_SETTINGS)];
+          const matching = names.filter(name => args.some(pattern => globRegExp(pattern.toLowerCase()).test(name)));
+          return array(matching.flatMap(name => [name, x.session.setting(name)]));
+        }
+        case 'set': {
+          if (args.length === 0 || args.length % 2 !== 0) throw new RedisError("ERR wrong number of arguments for 'config|set' command");
+          for (let i = 0; i < args.length; i += 2) {
+            const name = args[i].toLowerCase();
+            const value = args[i + 1];
+            const failed = (why: string) => new RedisError(`ERR CONFIG SET failed (possibly related to argument '${name}') - ${why}`);
+            if (x.session.setting(name) === null) throw new RedisError(`ERR Unknown option or number of arguments for CONFIG SET - '${name}'`);
+            if (IMMUTABLE_SETTINGS.includes(name)) throw failed("can't set immutable config");
+            if (name === 'maxmemory' && memoryBytes(value) === null) throw failed('argument must be a memory value');
+            if (name === 'maxmemory-policy' && !EVICTION_POLICIES.includes(value.toLowerCase())) {
+              throw failed(`argument(s) must be one of the following: ${EVICTION_POLICIES.join(', ')}`);
+            }
+            x.store.settings.set(name, name === 'maxmemory' ? String(memoryBytes(value)) : value);
+          }
+          return OK;
+        }
+        case 'resetstat':
+          Object.assign(x.store.stats, { commands: 0, hits: 0, misses: 0, expired: 0, errors: 0, connections: 0 });
+          return OK;
+        default:
+          throw new RedisError(`ERR unknown subcommand '${sub}'. Try CONFIG HELP.`);
+      }
+    },
+  },
+
+  // Keys
+  del: {
+    arity: -2,
+    run: (x, keys) => {
+      const removed = keys.filter(key => x.lookup(key) !== null && x.db.delete(key)).length;
+      x.changed(removed);
+      return integer(removed);
+    },
+  },
+  unlink: { arity: -2, run: (x, keys) => COMMANDS.del.run(x, keys) },
+  exists: { arity: -2, run: (x, keys) => integer(keys.filter(key => x.read(key) !== null).length) },
+  type: {
+    arity: 2,
+    run: (x, [key]) => ({ kind: 'status', value: x.lookup(key)?.data.type ?? 'none' }),
+  },
+  keys: {
+    arity: 2,
+    run: (x, [pattern]) => {
+      const match = globRegExp(pattern);
+      return array(x.keys().filter(key => match.test(key)));
+    },
+  },
+  scan: {
+    arity: -2,
+    run: (x, [cursorArg, ...options]) => {
+      const cursor = /^\d+$/.test(cursorArg) ? Number(cursorArg) : NaN;
+      if (!Number.isSafeInteger(cursor)) throw new RedisError('ERR invalid cursor');
+      let count = 10;
+      let match: RegExp | null = null;
+      let type: string | null = null;
+      for (let i = 0; i < options.length; i += 2) {
+        const value = options[i + 1];
+        if (value === undefined) throw new RedisError('ERR syntax error');
+        const option = options[i].toUpperCase();
+        if (option === 'COUNT') {
+          count = parseInteger(value);
+          if (count < 1) throw new RedisError('ERR syntax error');
+        } else if (option === 'MATCH') match = globRegExp(value);
+        else if (option === 'TYPE') type = value.toLowerCase();
+        else throw new RedisError('ERR syntax error');
+      }
+      const keys = x.keys();
+      const batch = keys.slice(cursor, cursor + count)
+        .filter(key => (!match || match.test(key)) && (!type || x.db.get(key)!.data.type === type));
+      const next = cursor + count >= keys.length ? 0 : cursor + count;
+      return { kind: 'array', value: [bulk(String(next)), array(batch)] };
+    },
+  },
+  rename: {
+    arity: 3,
+    run: (x, [from, to]) => {
+      const entry = x.lookup(from);
+      if (!entry) throw new RedisError('ERR no such key');
+      x.db.delete(from);
+      x.db.set(to, entry);
+      x.changed();
+      return OK;
+    },
+  },
+  expire: { arity: -3, run: (x, [key, seconds, ...options]) => x.expire(key, x.now + parseInteger(seconds) * 1000, options) },
+  pexpire: { arity: -3, run: (x, [key, ms, ...options]) => x.expire(key, x.now + parseInteger(ms), options) },
+  expireat: { arity: -3, run: (x, [key, at, ...options]) => x.expire(key, parseInteger(at) * 1000, options) },
+  ttl: { arity: 2, run: (x, [key]) => x.ttl(key, 1000) },
+  pttl: { arity: 2, run: (x, [key]) => x.ttl(key, 1) },
+  persist: {
+    arity: 2,
+    run: (x, [key]) => {
+      const entry = x.lookup(key);
+      if (!entry || entry.expiresAt === null) return integer(0);
+      entry.expiresAt = null;
+      x.changed();
+      return integer(1);
+    },
+  },
+
+  // Strings
+  get: { arity: 2, run: (x, [key]) => bulk(x.string(key)) },
+  set: {
+    arity: -3,
+    run: (x, [key, value, ...options]) => {
+      let condition: 'NX' | 'XX' | null = null;
+      let expiresAt: number | null = null;
+      let expirySet = false;
+      let keepTtl = false;
+      let get = false;
+      for (let i = 0; i < options.length; i++) {
+        const option = options[i].toUpperCase();
+        if ((option === 'NX' || option === 'XX') && !condition) condition = option;
+        else if (option === 'GET' && !get) get = true;
+        else if (option === 'KEEPTTL' && !expirySet) keepTtl = true;
+        else if (['EX', 'PX', 'EXAT', 'PXAT'].includes(option) && !expirySet && !keepTtl && i + 1 < options.length) {
+          const amount = parseInteger(options[++i]);
+          if (amount <= 0) throw new RedisError("ERR invalid expire time in 'set' command");
+          expiresAt = option === 'EX' ? x.now + amount * 1000
+            : option === 'PX' ? x.now + amount
+            : option === 'EXAT' ? amount * 1000 : amount;
+          expirySet = true;
+        } else {
+          throw new RedisError('ERR syntax error');
+        }
+      }
+      const existing = x.lookup(key);
+      const previous = get ? x.string(key) : null;
+      if ((condition === 'NX' && existing) || (condition === 'XX' && !existing)) return bulk(previous);
+      x.setString(key, value, keepTtl ? existing?.expiresAt ?? null : expiresAt);
+      return get ? bulk(previous) : OK;
+    },
+  },
+  setnx: {
+    arity: 3,
+    run: (x, [key, value]) => {
+      if (x.lookup(key)) return integer(0);
+      x.setString(key, value, null);
+      return integer(1);
+    },
+  },
+  setex: {
+    arity: 4,
+    run: (x, [key, seconds, value]) => {
+      const ttl = parseInteger(seconds);
+      if (ttl <= 0) throw new RedisError("ERR invalid expire time in 'setex' command");
+      x.setString(key, value, x.now + ttl * 1000);
+      return OK;
+    },
+  },
+  psetex: {
+    arity: 4,
+    run: (x, [key, ms, value]) => {
+      const ttl = parseInteger(ms);
+      if (ttl <= 0) throw new RedisError("ERR invalid expire time in 'psetex' command");
+      x.setString(key, value, x.now + ttl);
+      return OK;
+    },
+  },
+  getdel: {
+    arity: 2,
+    run: (x, [key]) => {
+      const value = x.string(key);
+      if (value !== null) {
+        x.db.delete(key);
+        x.changed();
+      }
+      return bulk(value);
+    },
+  },
+  mget: {
+    arity: -2,
+    run: (x, keys) => array(keys.map(key => {
+      const entry = x.read(key);
+      return entry?.data.type === 'string' ? entry.data.value : null;
+    })),
+  },
+  mset: {
+    arity: -3,
+    run: (x, args) => {
+      if (args.length % 2 !== 0) throw new RedisError("ERR wrong number of arguments for 'mset' command");
+      for (let i = 0; i < args.length; i += 2) x.setString(args[i], args[i + 1], null);
+      return OK;
+    },
+  },
+  incr: { arity: 2, run: (x, [key]) => x.incrementBy(key, 1) },
+  decr: { arity: 2, run: (x, [key]) => x.incrementBy(key, -1) },
+  incrby: { arity: 3, run: (x, [key, delta]) => x.incrementBy(key, parseInteger(delta)) },
+  decrby: { arity: 3, run: (x, [key, delta]) => x.incrementBy(key, -parseInteger(delta)) },
+  incrbyfloat: {
+    arity: 3,
+    run: (x, [key, delta]) => {
+      const current = x.string(key, false);
+      const next = (current === null ? 0 : parseFloat64(current)) + parseFloat64(delta);
+      if (!Number.isFinite(next)) throw new RedisError('ERR increment would produce NaN or Infinity');
+      const text = String(Number(next.toPrecision(17)));
+      x.setString(key, text, x.lookup(key)?.expiresAt ?? null);
+      return bulk(text);
+    },
+  },
+  append: {
+    arity: 3,
+    run: (x, [key, value]) => {
+      const next = (x.string(key, false) ?? '') + value;
+      x.setString(key, next, x.lookup(key)?.expiresAt ?? null);
+      return integer(next.length);
+    },
+  },
+  strlen: { arity: 2, run: (x, [key]) => integer(x.string(key)?.length ?? 0) },
+
+  // Hashes
+  hset: {
+    arity: -4,
+    run: (x, [key, ...pairs]) => {
+      if (pairs.length % 2 !== 0) throw new RedisError("ERR wrong number of arguments for 'hset' command");
+      const hash = x.hashForWrite(key);
+      let added = 0;
+      for (let i = 0; i < pairs.length; i += 2) {
+        if (!hash.has(pairs[i])) added++;
+        hash.set(pairs[i], pairs[i + 1]);
+      }
+      x.changed(pairs.length / 2);
+      return integer(added);
+    },
+  },
+  hmset: {
+    arity: -4,
+    run: (x, args) => {
+      if ((args.length - 1) % 2 !== 0) throw new RedisError("ERR wrong number of arguments for 'hmset' command");
+      COMMANDS.hset.run(x, args);
+      return OK;
+    },
+  },
+  hsetnx: {
+    arity: 4,
+    run: (x, [key, field, value]) => {
+      const hash = x.hashForWrite(key);
+      if (hash.has(field)) return integer(0);
+      hash.set(field, value);
+      x.changed();
+      return integer(1);
+    },
+  },
+  hget: { arity: 3, run: (x, [key, field]) => bulk(x.hash(key)?.get(field) ?? null) },
+  hmget: {
+    arity: -3,
+    run: (x, [key, ...fields]) => {
+      const hash = x.hash(key);
+      return array(fields.map(field => hash?.get(field) ?? null));
+    },
+  },
+  hgetall: { arity: 2, run: (x, [key]) => array(Array.from(x.hash(key) ?? []).flat()) },
+  hkeys: { arity: 2, run: (x, [key]) => array(Array.from(x.hash(key)?.keys() ?? [])) },
+  hvals: { arity: 2, run: (x, [key]) => array(Array.from(x.hash(key)?.values() ?? [])) },
+  hlen: { arity: 2, run: (x, [key]) => integer(x.hash(key)?.size ?? 0) },
+  hexists: { arity: 3, run: (x, [key, field]) => integer(x.hash(key)?.has(field) ? 1 : 0) },
+  hdel: {
+    arity: -3,
+    run: (x, [key, ...fields]) => {
+      const hash = x.hash(key, false);
+      if (!hash) return integer(0);
+      const removed = fields.filter(field => hash.delete(field)).length;
+      x.dropIfEmpty(key);
+      x.changed(removed);
+      return integer(removed);
+    },
+  },
+  hincrby: {
+    arity: 4,
+    run: (x, [key, field, delta]) => {
+      const by = parseInteger(delta);
+      const hash = x.hashForWrite(key);
+      const current = hash.get(field);
+      const value = current === undefined ? 0 : parseInteger(current, 'ERR hash value is not an integer');
+      const next = value + by;
+      if (!Number.isSafeInteger(next)) throw new RedisError('ERR increment or decrement would overflow');
+      hash.set(field, String(next));
+      x.changed();
+      return integer(next);
+    },
+  },
+
+  // Lists
+  lpush: { arity: -3, run: (x, [key, ...values]) => x.push(key, values, true) },
+  rpush: { arity: -3, run: (x, [key, ...values]) => x.push(key, values, false) },
+  lpop: {
+    arity: -2,
+    run: (x, [key, count, ...rest]) => {
+      if (rest.length > 0) throw new RedisError("ERR wrong number of arguments for 'lpop' command");
+      return x.pop(key, count, true);
+    },
+  },
+  rpop: {
+    arity: -2,
+    run: (x, [key, count, ...rest]) => {
+      if (rest.length > 0) throw new RedisError("ERR wrong number of arguments for 'rpop' command");
+      return x.pop(key, count, false);
+    },
+  },
+  llen: { arity: 2, run: (x, [key]) => integer(x.list(key)?.length ?? 0) },
+  lindex: {
+    arity: 3,
+    run: (x, [key, index]) => {
+      const list = x.list(key) ?? [];
+      return bulk(list[listIndex(parseInteger(index), list.length)] ?? null);
+    },
+  },
+  lrange: {
+    arity: 4,
+    run: (x, [key, startArg, stopArg]) => {
+      const list = x.list(key) ?? [];
+      const start = Math.max(0, listIndex(parseInteger(startArg), list.length));
+      const stop = Math.min(list.length - 1, listIndex(parseInteger(stopArg), list.length));
+      return array(start > stop ? [] : list.slice(start, stop + 1));
+    },
+  },
+  lset: {
+    arity: 4,
+    run: (x, [key, indexArg, value]) => {
+      const index = parseInteger(indexArg);
+      const list = x.list(key, false);
+      if (!list) throw new RedisError('ERR no such key');
+      const at = listIndex(index, list.length);
+      if (at < 0 || at >= list.length) throw new RedisError('ERR index out of range');
+      list[at] = value;
+      x.changed();
+      return OK;
+    },
+  },
+  lrem: {
+    arity: 4,
+    run: (x, [key, countArg, value]) => {
+      const count = parseInteger(countArg);
+      const list = x.list(key, false);
+      if (!list) return integer(0);
+      const limit = count === 0 ? Infinity : Math.abs(count);
+      const order = count < 0 ? list.map((_, i) => list.length - 1 - i) : list.map((_, i) => i);
+      const doomed = order.filter(i => list[i] === value).slice(0, limit === Infinity ? undefined : limit);
+      for (const i of doomed.sort((a, b) => b - a)) list.splice(i, 1);
+      x.dropIfEmpty(key);
+      x.changed(doomed.length);
+      return integer(doomed.length);
+    },
+  },
+  ltrim: {
+    arity: 4,
+    run: (x, [key, startArg, stopArg]) => {
+      const start = parseInteger(startArg);
+      const stop = parseInteger(stopArg);
+      const list = x.list(key, false);
+      if (!list) return OK;
+      const from = Math.max(0, listIndex(start, list.length));
+      const to = Math.min(list.length - 1, listIndex(stop, list.length));
+      const kept = from > to ? [] : list.slice(from, to + 1);
+      list.splice(0, list.length, ...kept);
+      x.dropIfEmpty(key);
+      x.changed();
+      return OK;
+    },
+  },
+};
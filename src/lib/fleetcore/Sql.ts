@@ -0,0 +1,944 @@
+import { DatabaseError } from './FleetCoreState';
+import type { ColumnSpec, IndexSpec } from './KnexSource';
+
+/**
+ * The slice of PostgreSQL's grammar psql sessions in the challenges need:
+ * queries with joins, grouping and ordering, the data-changing statements,
+ * simple DDL and EXPLAIN. Positions are offsets into the statement so
+ * errors can point at the token like Postgres does.
+ */
+
+export type Expr =
+  | { kind: 'literal'; value: unknown; pos: number }
+  | { kind: 'column'; table?: string; name: string; pos: number }
+  | { kind: 'unary'; op: 'NOT' | '-'; operand: Expr; pos: number }
+  | { kind: 'binary'; op: string; left: Expr; right: Expr; pos: number }
+  | { kind: 'isNull'; operand: Expr; negated: boolean; pos: number }
+  | { kind: 'in'; operand: Expr; list: Expr[]; negated: boolean; pos: number }
+  | { kind: 'between'; operand: Expr; low: Expr; high: Expr; negated: boolean; pos: number }
+  | { kind: 'like'; operand: Expr; pattern: Expr; negated: boolean; caseInsensitive: boolean; pos: number }
+  | { kind: 'cast'; operand: Expr; type: string; pos: number }
+  | { kind: 'call'; name: string; args: Expr[]; star: boolean; distinct: boolean; pos: number }
+  | { kind: 'case'; operand: Expr | null; whens: { when: Expr; then: Expr }[]; otherwise: Expr | null; pos: number }
+  | { kind: 'interval'; ms: number; text: string; pos: number }
+  | { kind: 'default'; pos: number };
+
+export type SelectItem =
+  | { kind: 'star'; table?: string; pos: number }
+  | { kind: 'expr'; expr: Expr; alias?: string };
+
+export interface TableRef {
+  table: string;
+  alias?: string;
+  pos: number;
+}
+
+export interface Join {
+  type: 'inner' | 'left' | 'cross';
+  table: TableRef;
+  on: Expr | null;
+}
+
+export interface OrderItem {
+  expr: Expr;
+  desc: boolean;
+  nullsFirst?: boolean;
+}
+
+export interface SelectStatement {
+  kind: 'select';
+  distinct: boolean;
+  items: SelectItem[];
+  from: TableRef | null;
+  joins: Join[];
+  where: Expr | null;
+  groupBy: Expr[];
+  having: Expr | null;
+  orderBy: OrderItem[];
+  limit: Expr | null;
+  offset: Expr | null;
+}
+
+export type Statement =
+  | SelectStatement
+  | { kind: 'insert'; table: TableRef; columns: string[] | null; rows: Expr[][]; returning: SelectItem[] | null }
+  | { kind: 'update'; table: TableRef; set: { column: string; value: Expr; pos: number }[]; where: Expr | null; returning: SelectItem[] | null }
+  | { kind: 'delete'; table: TableRef; where: Expr | null; returning: SelectItem[] | null }
+  | { kind: 'createTable'; table: string; ifNotExists: boolean; columns: ColumnSpec[]; indexes: IndexSpec[] }
+  | { kind: 'createIndex'; name?: string; table: TableRef; columns: string[]; unique: boolean; ifNotExists: boolean }
+  | { kind: 'dropTable'; names: string[]; ifExists: boolean; cascade: boolean }
+  | { kind: 'dropIndex'; names: string[]; ifExists: boolean }
+  | { kind: 'alterTable'; table: TableRef; add: ColumnSpec[]; drop: { name: string; ifExists: boolean }[] }
+  | { kind: 'truncate'; tables: TableRef[] }
+  | { kind: 'explain'; analyze: boolean; statement: Statement }
+  | { kind: 'transaction'; action: 'BEGIN' | 'COMMIT' | 'ROLLBACK' };
+
+interface Token {
+  kind: 'ident' | 'string' | 'number' | 'op';
+  value: string;
+  /** Double-quoted identifiers keep their case and are never keywords */
+  quoted?: boolean;
+  pos: number;
+}
+
+/** Words that end an expression or a FROM item, so they're never taken as an implicit alias */
+const RESERVED = new Set([
+  'all', 'and', 'as', 'asc', 'between', 'by', 'case', 'cross', 'desc', 'distinct', 'else', 'end', 'except', 'from',
+  'full', 'group', 'having', 'ilike', 'in', 'inner', 'intersect', 'is', 'join', 'left', 'like', 'limit', 'not',
+  'null', 'nulls', 'offset', 'on', 'or', 'order', 'outer', 'returning', 'right', 'select', 'set', 'then', 'union',
+  'using', 'values', 'when', 'where', 'window',
+]);
+
+const INTERVAL_UNITS: Record<string, number> = {
+  millisecond: 1, second: 1000, minute: 60_000, hour: 3_600_000, day: 86_400_000, week: 604_800_000,
+  month: 2_592_000_000, year: 31_557_600_000,
+};
+
+/** Parse one statement, with or without its trailing semicolon */
+export function parseSql(sql: string): Statement {
+  return new SqlParser(sql).parse();
+}
+
+/**
+ * Split a psql input buffer into complete statements, each with its
+ * semicolon, and whatever follows the last one. Semicolons in strings,
+ * quoted names and comments don't count, as in psql.
+ */
+export function splitSql(input: string): { statements: string[]; rest: string } {
+  const statements: string[] = [];
+  let start = 0;
+  let depth = 0;
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (char === "'" || char === '"') {
+      const end = input.indexOf(char, i + 1);
+      i = end === -1 ? input.length : end;
+    } else if (char === '-' && input[i + 1] === '-') {
+      const end = input.indexOf('\n', i);
+      i = end === -1 ? input.length : end;
+    } else if (char === '/' && input[i + 1] === '*') {
+      const end = input.indexOf('*/', i + 2);
+      i = end === -1 ? input.length : end + 1;
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')') {
+      depth = Math.max(0, depth - 1);
+    } else if (char === ';' && depth === 0) {
+      statements.push(input.slice(start, i + 1));
+      start = i + 1;
+    }
+  }
+  return { statements: statements.filter(s => stripComments(s).replace(/;$/, '').trim() !== ''), rest: input.slice(start) };
+}
+
+export function stripComments(sql: string): string {
+  return sql.replace(/--[^\n]*/g, '').replace(/\/\*[\s\S]*?\*\//g, '');
+}
+
+/** A type name as \d shows it: varchar(20) is character varying(20), int is integer */
+export function normalizeType(name: string): string {
+  const match = /^([a-z ]+?)\s*(\((\s*\d+\s*(?:,\s*\d+\s*)?)\))?(\s+with(?:out)?\s+time\s+zone)?$/.exec(name.toLowerCase().trim());
+  if (!match) return name.toLowerCase();
+  const [, base, , size, zone] = match;
+  const args = size?.replace(/\s/g, '');
+  switch (base) {
+    case 'int': case 'int4': case 'integer': case 'serial': return 'integer';
+    case 'int8': case 'bigint': case 'bigserial': return 'bigint';
+    case 'int2': case 'smallint': return 'smallint';
+    case 'varchar': case 'character varying': return args ? `character varying(${args})` : 'character varying';
+    case 'char': case 'character': return `character(${args ?? 1})`;
+    case 'decimal': case 'numeric': return args ? `numeric(${args.includes(',') ? args : `${args},0`})` : 'numeric';
+    case 'float4': case 'real': return 'real';
+    case 'float8': case 'float': case 'double precision': return 'double precision';
+    case 'bool': case 'boolean': return 'boolean';
+    case 'timestamptz': return 'timestamp with time zone';
+    case 'timestamp': return zone && !/without/.test(zone) ? 'timestamp with time zone' : 'timestamp without time zone';
+    default: return base;
+  }
+}
+
+function tokenize(sql: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < sql.length) {
+    const char = sql[i];
+    if (/\s/.test(char)) {
+      i++;
+    } else if (sql.startsWith('--', i)) {
+      while (i < sql.length && sql[i] !== '\n') i++;
+    } else if (sql.startsWith('/*', i)) {
+      const end = sql.indexOf('*/', i + 2);
+      i = end === -1 ? sql.length : end + 2;
+    } else if (char === "'") {
+      let value = '';
+      let j = i + 1;
+      for (;;) {
+        if (j >= sql.length) throw new DatabaseError(`unterminated quoted string at or near "${sql.slice(i)}"`, undefined, i + 1);
+        if (sql[j] === "'") {
+          if (sql[j + 1] !== "'") break;
+          j++;
+        }
+        value += sql[j++];
+      }
+      tokens.push({ kind: 'string', value, pos: i });
+      i = j + 1;
+    } else if (char === '"') {
+      const end = sql.indexOf('"', i + 1);
+      if (end === -1) throw new DatabaseError(`unterminated quoted identifier at or near "${sql.slice(i)}"`, undefined, i + 1);
+      tokens.push({ kind: 'ident', value: sql.slice(i + 1, end), quoted: true, pos: i });
+      i = end + 1;
+    } else if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(sql[i + 1] ?? ''))) {
+      const number = /^(\d*\.?\d+(?:[eE][+-]?\d+)?|\d+\.)/.exec(sql.slice(i))![0];
+      tokens.push({ kind: 'number', value: number, pos: i });
+      i += number.length;
+    } else if (/[A-Za-z_]/.test(char)) {
+      const word = /^[A-Za-z_][A-Za-z0-9_$]*/.exec(sql.slice(i))![0];
+      tokens.push({ kind: 'ident', value: word.toLowerCase(), pos: i });
+      i += word.length;
+    } else {
+      const op = ['->>', '::', '<=', '>=', '<>', '!=', '||', '->'].find(o => sql.startsWith(o, i)) ?? char;
+      if (!'()[],.;*+-/%<>=|:'.includes(op[0]) || op === '|' || op === ':') {
+        throw new DatabaseError(`syntax error at or near "${op}"`, undefined, i + 1);
+      }
+      tokens.push({ kind: 'op', value: op, pos: i });
+      i += op.length;
+    }
+  }
+  return tokens;
+}
+
+class SqlParser {
+  private tokens: Token[];
+  private pos = 0;
+
+  constructor(private sql: string) {
+    this.tokens = tokenize(sql);
+  }
+
+  parse(): Statement {
+    const statement = this.statement();
+    this.acceptOp(';');
+    if (this.peek()) throw this.unexpected();
+    return statement;
+  }
+
+  private statement(): Statement {
+    const word = this.peekWord();
+    switch (word) {
+      case 'select': return this.select();
+      case 'insert': return this.insert();
+      case 'update': return this.update();
+      case 'delete': return this.delete();
+      case 'create': return this.create();
+      case 'drop': return this.drop();
+      case 'alter': return this.alter();
+      case 'truncate': return this.truncate();
+      case 'explain': {
+        this.pos++;
+        let analyze = this.acceptWord('analyze') || this.acceptWord('analyse');
+        if (this.acceptOp('(')) {
+          do {
+            if (this.acceptWord('analyze')) analyze = !this.acceptWord('false') && !this.acceptWord('off');
+            else this.name();
+            if (this.peek()?.kind !== 'op') this.pos++;
+          } while (this.acceptOp(','));
+          this.expectOp(')');
+        }
+        this.acceptWord('verbose');
+        if (!['select', 'insert', 'update', 'delete'].includes(this.peekWord() ?? '')) throw this.unexpected();
+        return { kind: 'explain', analyze, statement: this.statement() };
+      }
+      case 'begin':
+      case 'start':
+        this.pos++;
+        if (word === 'start') this.expectWord('transaction');
+        else if (!this.acceptWord('transaction')) this.acceptWord('work');
+        return { kind: 'transaction', action: 'BEGIN' };
+      case 'commit':
+      case 'end':
+      case 'rollback':
+      case 'abort':
+        this.pos++;
+        if (!this.acceptWord('transaction')) this.acceptWord('work');
+        return { kind: 'transaction', action: word === 'commit' || word === 'end' ? 'COMMIT' : 'ROLLBACK' };
+      default:
+        throw this.unexpected();
+    }
+  }
+
+  private select(): SelectStatement {
+    this.expectWord('select');
+    const distinct = this.acceptWord('distinct');
+    if (!distinct) this.acceptWord('all');
+    const items = this.selectItems();
+
+    let from: TableRef | null = null;
+    const joins: Join[] = [];
+    if (this.acceptWord('from')) {
+      from = this.tableRef();
+      for (;;) {
+        if (this.acceptOp(',')) {
+          joins.push({ type: 'cross', table: this.tableRef(), on: null });
+          continue;
+        }
+        let type: Join['type'] | null = null;
+        if (this.acceptWord('join')) type = 'inner';
+        else if (this.acceptWord('inner')) type = 'inner';
+        else if (this.acceptWord('left')) type = 'left';
+        else if (this.acceptWord('cross')) type = 'cross';
+        else if (this.peekWord() === 'right' || this.peekWord() === 'full') throw this.unsupported('RIGHT and FULL joins');
+        if (!type) break;
+        if (type === 'left') this.acceptWord('outer');
+        if (this.tokens[this.pos - 1].value !== 'join') this.expectWord('join');
+        const table = this.tableRef();
+        let on: Expr | null = null;
+        if (type !== 'cross') {
+          if (this.acceptWord('using')) {
+            this.expectOp('(');
+            const column = this.name();
+            this.expectOp(')');
+            on = {
+              kind: 'binary', op: '=', pos: table.pos,
+              left: { kind: 'column', table: joins.at(-1)?.table.alias ?? joins.at(-1)?.table.table ?? from.alias ?? from.table, name: column, pos: table.pos },
+              right: { kind: 'column', table: table.alias ?? table.table, name: column, pos: table.pos },
+            };
+          } else {
+            this.expectWord('on');
+            on = this.expr();
+          }
+        }
+        joins.push({ type, table, on });
+      }
+    }
+
+    const where = this.acceptWord('where') ? this.expr() : null;
+    const groupBy: Expr[] = [];
+    if (this.acceptWord('group')) {
+      this.expectWord('by');
+      do groupBy.push(this.expr()); while (this.acceptOp(','));
+    }
+    const having = this.acceptWord('having') ? this.expr() : null;
+    if (['union', 'intersect', 'except'].includes(this.peekWord() ?? '')) throw this.unsupported('UNION, INTERSECT and EXCEPT queries');
+
+    const orderBy: OrderItem[] = [];
+    if (this.acceptWord('order')) {
+      this.expectWord('by');
+      do {
+        const expr = this.expr();
+        const desc = this.acceptWord('desc');
+        if (!desc) this.acceptWord('asc');
+        let nullsFirst: boolean | undefined;
+        if (this.acceptWord('nulls')) {
+          nullsFirst = this.acceptWord('first');
+          if (!nullsFirst) this.expectWord('last');
+        }
+        orderBy.push({ expr, desc, nullsFirst });
+      } while (this.acceptOp(','));
+    }
+
+    let limit: Expr | null = null;
+    let offset: Expr | null = null;
+    for (let i = 0; i < 2; i++) {
+      if (!limit && this.acceptWord('limit')) limit = this.acceptWord('all') ? null : this.expr();
+      if (!offset && this.acceptWord('offset')) {
+        offset = this.expr();
+        if (!this.acceptWord('rows')) this.acceptWord('row');
+      }
+    }
+    return { kind: 'select', distinct, items, from, joins, where, groupBy, having, orderBy, limit, offset };
+  }
+
+  private selectItems(): SelectItem[] {
+    const items: SelectItem[] = [];
+    do {
+      const token = this.peek();
+      if (token?.kind === 'op' && token.value === '*') {
+        this.pos++;
+        items.push({ kind: 'star', pos: token.pos });
+        continue;
+      }
+      const next = this.tokens[this.pos + 1];
+      const after = this.tokens[this.pos + 2];
+      if (token?.kind === 'ident' && next?.value === '.' && after?.value === '*') {
+        this.pos += 3;
+        items.push({ kind: 'star', table: token.value, pos: token.pos });
+        continue;
+      }
+      const expr = this.expr();
+      items.push({ kind: 'expr', expr, alias: this.alias() });
+    } while (this.acceptOp(','));
+    return items;
+  }
+
+  private alias(): string | undefined {
+    if (this.acceptWord('as')) return this.name();
+    const token = this.peek();
+    if (token?.kind === 'ident' && (token.quoted || !RESERVED.has(token.value))) {
+      this.pos++;
+      return token.value;
+    }
+    return undefined;
+  }
+
+  private tableRef(): TableRef {
+    const token = this.peek();
+    if (token?.kind === 'op' && token.value === '(') throw this.unsupported('subqueries');
+    const pos = token?.pos ?? this.sql.length;
+    let table = this.name();
+    // Everything lives in the public schema
+    if (this.acceptOp('.')) table = this.name();
+    return { table, alias: this.alias(), pos };
+  }
+
+  private insert(): Statement {
+    this.expectWord('insert');
+    this.expectWord('into');
+    const pos = this.peek()?.pos ?? this.sql.length;
+    const table: TableRef = { table: this.name(), pos };
+    if (this.acceptWord('as')) table.alias = this.name();
+    let columns: string[] | null = null;
+    if (this.acceptOp('(')) {
+      columns = [];
+      do columns.push(this.name()); while (this.acceptOp(','));
+      this.expectOp(')');
+    }
+    const rows: Expr[][] = [];
+    if (this.acceptWord('default')) {
+      this.expectWord('values');
+      rows.push([]);
+    } else {
+      if (this.peekWord() === 'select') throw this.unsupported('INSERT ... SELECT statements');
+      this.expectWord('values');
+      do {
+        this.expectOp('(');
+        const row: Expr[] = [];
+        do row.push(this.expr()); while (this.acceptOp(','));
+        this.expectOp(')');
+        rows.push(row);
+      } while (this.acceptOp(','));
+    }
+    if (this.peekWord() === 'on') throw this.unsupported('ON CONFLICT clauses');
+    return { kind: 'insert', table, columns, rows, returning: this.returning() };
+  }
+
+  private update(): Statement {
+    this.expectWord('update');
+    const table = this.tableRef();
+    this.expectWord('set');
+    const set: { column: string; value: Expr; pos: number }[] = [];
+    do {
+      const pos = this.peek()?.pos ?? this.sql.length;
+      const column = this.name();
+      this.expectOp('=');
+      set.push({ column, value: this.expr(), pos });
+    } while (this.acceptOp(','));
+    if (this.peekWord() === 'from') throw this.unsupported('UPDATE ... FROM statements');
+    const where = this.acceptWord('where') ? this.expr() : null;
+    return { kind: 'update', table, set, where, returning: this.returning() };
+  }
+
+  private delete(): Statement {
+    this.expectWord('delete');
+    this.expectWord('from');
+    const table = this.tableRef();
+    if (this.peekWord() === 'using') throw this.unsupported('DELETE ... USING statements');
+    const where = this.acceptWord('where') ? this.expr() : null;
+    return { kind: 'delete', table, where, returning: this.returning() };
+  }
+
+  private returning(): SelectItem[] | null {
+    return this.acceptWord('returning') ? this.selectItems() : null;
+  }
+
+  private create(): Statement {
+    this.expectWord('create');
+    const unique = this.acceptWord('unique');
+    if (unique || this.peekWord() === 'index') {
+      this.expectWord('index');
+      this.acceptWord('concurrently');
+      const ifNotExists = this.ifNotExists();
+      const name = this.peekWord() === 'on' ? undefined : this.name();
+      this.expectWord('on');
+      const table = this.tableRef();
+      if (this.acceptWord('using')) this.name();
+      this.expectOp('(');
+      const columns: string[] = [];
+      do {
+        columns.push(this.name());
+        if (!this.acceptWord('asc')) this.acceptWord('desc');
+      } while (this.acceptOp(','));
+      this.expectOp(')');
+      if (this.peekWord() === 'where') throw this.unsupported('partial indexes');
+      return { kind: 'createIndex', name, table, columns, unique, ifNotExists };
+    }
+
+    this.expectWord('table');
+    const ifNotExists = this.ifNotExists();
+    const table = this.name();
+    this.expectOp('(');
+    const columns: ColumnSpec[] = [];
+    const indexes: IndexSpec[] = [];
+    do {
+      const word = this.peekWord();
+      if (word === 'primary' || word === 'unique') {
+        this.pos++;
+        if (word === 'primary') this.expectWord('key');
+        this.expectOp('(');
+        const names: string[] = [];
+        do names.push(this.name()); while (this.acceptOp(','));
+        this.expectOp(')');
+        indexes.push({ columns: names, unique: true, primary: word === 'primary' });
+        continue;
+      }
+      if (word === 'constraint' || word === 'foreign' || word === 'check') throw this.unsupported('table constraints');
+      const { column, index } = this.columnDefinition();
+      columns.push(column);
+      if (index) indexes.push(index);
+    } while (this.acceptOp(','));
+    this.expectOp(')');
+    for (const index of indexes.filter(i => i.primary)) {
+      for (const column of columns.filter(c => index.columns.includes(c.name))) column.notNull = true;
+    }
+    return { kind: 'createTable', table, ifNotExists, columns, indexes };
+  }
+
+  private columnDefinition(): { column: ColumnSpec; index: IndexSpec | null } {
+    const name = this.name();
+    const typeName = this.typeName();
+    const column: ColumnSpec = { name, type: normalizeType(typeName), notNull: false };
+    if (/^(big)?serial$/.test(typeName)) {
+      column.notNull = true;
+      column.default = { kind: 'serial' };
+    }
+    let index: IndexSpec | null = null;
+    for (;;) {
+      if (this.acceptWord('not')) {
+        this.expectWord('null');
+        column.notNull = true;
+      } else if (this.acceptWord('null')) {
+        column.notNull = false;
+      } else if (this.acceptWord('primary')) {
+        this.expectWord('key');
+        column.notNull = true;
+        index = { columns: [name], unique: true, primary: true };
+      } else if (this.acceptWord('unique')) {
+        index = { columns: [name], unique: true, primary: false };
+      } else if (this.acceptWord('default')) {
+        const value = this.primaryExpr();
+        if (value.kind === 'call' && /^(now|gen_random_uuid|uuid_generate_v4)$/.test(value.name)) {
+          column.default = { kind: value.name === 'now' ? 'now' : 'uuid' };
+        } else if (value.kind === 'literal') {
+          column.default = { kind: 'value', value: value.value };
+        } else {
+          throw this.unsupported('default expressions other than constants, now() and gen_random_uuid()');
+        }
+      } else if (this.acceptWord('references')) {
+        const table = this.name();
+        let target = 'id';
+        if (this.acceptOp('(')) {
+          target = this.name();
+          this.expectOp(')');
+        }
+        column.references = { table, column: target };
+      } else if (this.acceptWord('check')) {
+        this.expectOp('(');
+        const check = this.expr();
+        this.expectOp(')');
+        if (check.kind !== 'in' || check.negated || !check.list.every(e => e.kind === 'literal')) {
+          throw this.unsupported('CHECK constraints other than IN lists');
+        }
+        column.values = check.list.map(e => String((e as { value: unknown }).value));
+      } else {
+        return { column, index };
+      }
+    }
+  }
+
+  private typeName(): string {
+    let name = this.name();
+    if (name === 'double') name += ` ${this.expectWord('precision')}`;
+    if (name === 'character' && this.acceptWord('varying')) name += ' varying';
+    if (this.acceptOp('(')) {
+      const size = [this.expectNumber()];
+      if (this.acceptOp(',')) size.push(this.expectNumber());
+      this.expectOp(')');
+      name += `(${size.join(',')})`;
+    }
+    if (this.peekWord() === 'with' || this.peekWord() === 'without') {
+      name += ` ${this.name()}`;
+      this.expectWord('time');
+      this.expectWord('zone');
+      name += ' time zone';
+    }
+    if (this.acceptOp('[')) throw this.unsupported('array types');
+    return name;
+  }
+
+  private drop(): Statement {
+    this.expectWord('drop');
+    const kind = this.acceptWord('index') ? 'dropIndex' : 'dropTable';
+    if (kind === 'dropIndex') this.acceptWord('concurrently');
+    else this.expectWord('table');
+    let ifExists = false;
+    if (this.acceptWord('if')) {
+      this.expectWord('exists');
+      ifExists = true;
+    }
+    const names: string[] = [];
+    do names.push(this.name()); while (this.acceptOp(','));
+    const cascade = this.acceptWord('cascade');
+    if (!cascade) this.acceptWord('restrict');
+    return kind === 'dropTable' ? { kind, names, ifExists, cascade } : { kind, names, ifExists };
+  }
+
+  private alter(): Statement {
+    this.expectWord('alter');
+    this.expectWord('table');
+    const pos = this.peek()?.pos ?? this.sql.length;
+    const table: TableRef = { table: this.name(), pos };
+    const add: ColumnSpec[] = [];
+    const drop: { name: string; ifExists: boolean }[] = [];
+    do {
+      if (this.acceptWord('add')) {
+        this.acceptWord('column');
+        if (this.acceptWord('if')) {
+          this.expectWord('not');
+          this.expectWord('exists');
+        }
+        const { column, index } = this.columnDefinition();
+        if (index) throw this.unsupported('constraints in ALTER TABLE ... ADD COLUMN');
+        add.push(column);
+      } else if (this.acceptWord('drop')) {
+        this.acceptWord('column');
+        let ifExists = false;
+        if (this.acceptWord('if')) {
+          this.expectWord('exists');
+          ifExists = true;
+        }
+        drop.push({ name: this.name(), ifExists });
+      } else {
+        throw this.unexpected();
+      }
+    } while (this.acceptOp(','));
+    return { kind: 'alterTable', table, add, drop };
+  }
+
+  private truncate(): Statement {
+    this.expectWord('truncate');
+    this.acceptWord('table');
+    const tables: TableRef[] = [];
+    do {
+      const pos = this.peek()?.pos ?? this.sql.length;
+      tables.push({ table: this.name(), pos });
+    } while (this.acceptOp(','));
+    if (this.acceptWord('restart')) this.expectWord('identity');
+    this.acceptWord('cascade');
+    return { kind: 'truncate', tables };
+  }
+
+  private ifNotExists(): boolean {
+    if (!this.acceptWord('if')) return false;
+    this.expectWord('not');
+    this.expectWord('exists');
+    return true;
+  }
+
+  // --- Expressions, loosest binding first ---
+
+  private expr(): Expr {
+    let left = this.and();
+    while (this.peekWord() === 'or') {
+      const pos = this.next().pos;
+      left = { kind: 'binary', op: 'OR', left, right: this.and(), pos };
+    }
+    return left;
+  }
+
+  private and(): Expr {
+    let left = this.not();
+    while (this.peekWord() === 'and') {
+      const pos = this.next().pos;
+      left = { kind: 'binary', op: 'AND', left, right: this.not(), pos };
+    }
+    return left;
+  }
+
+  private not(): Expr {
+    if (this.peekWord() === 'not') {
+      const pos = this.next().pos;
+      return { kind: 'unary', op: 'NOT', operand: this.not(), pos };
+    }
+    return this.is();
+  }
+
+  private is(): Expr {
+    const operand = this.comparison();
+    if (this.peekWord() !== 'is') return operand;
+    const pos = this.next().pos;
+    const negated = this.acceptWord('not');
+    if (this.acceptWord('null')) return { kind: 'isNull', operand, negated, pos };
+    const value = this.acceptWord('true');
+    if (!value) this.expectWord('false');
+    const test: Expr = { kind: 'binary', op: '=', left: operand, right: { kind: 'literal', value, pos }, pos };
+    return negated ? { kind: 'unary', op: 'NOT', operand: test, pos } : test;
+  }
+
+  private comparison(): Expr {
+    let left = this.pattern();
+    for (;;) {
+      const token = this.peek();
+      if (token?.kind !== 'op' || !['=', '<', '>', '<=', '>=', '<>', '!='].includes(token.value)) return left;
+      this.pos++;
+      left = { kind: 'binary', op: token.value === '!=' ? '<>' : token.value, left, right: this.pattern(), pos: token.pos };
+    }
+  }
+
+  private pattern(): Expr {
+    const operand = this.other();
+    const start = this.pos;
+    const negated = this.acceptWord('not');
+    const word = this.peekWord();
+    if (word === 'like' || word === 'ilike') {
+      const pos = this.next().pos;
+      return { kind: 'like', operand, pattern: this.other(), negated, caseInsensitive: word === 'ilike', pos };
+    }
+    if (word === 'in') {
+      const pos = this.next().pos;
+      this.expectOp('(');
+      if (this.peekWord() === 'select') throw this.unsupported('subqueries');
+      const list: Expr[] = [];
+      do list.push(this.expr()); while (this.acceptOp(','));
+      this.expectOp(')');
+      return { kind: 'in', operand, list, negated, pos };
+    }
+    if (word === 'between') {
+      const pos = this.next().pos;
+      const low = this.other();
+      this.expectWord('and');
+      return { kind: 'between', operand, low, high: this.other(), negated, pos };
+    }
+    this.pos = start;
+    return operand;
+  }
+
+  private other(): Expr {
+    let left = this.additive();
+    for (;;) {
+      const token = this.peek();
+      if (token?.kind !== 'op' || !['||', '->', '->>'].includes(token.value)) return left;
+      this.pos++;
+      left = { kind: 'binary', op: token.value, left, right: this.additive(), pos: token.pos };
+    }
+  }
+
+  private additive(): Expr {
+    let left = this.multiplicative();
+    for (;;) {
+      const token = this.peek();
+      if (token?.kind !== 'op' || (token.value !== '+' && token.value !== '-')) return left;
+      this.pos++;
+      left = { kind: 'binary', op: token.value, left, right: this.multiplicative(), pos: token.pos };
+    }
+  }
+
+  private multiplicative(): Expr {
+    let left = this.unary();
+    for (;;) {
+      const token = this.peek();
+      if (token?.kind !== 'op' || !['*', '/', '%'].includes(token.value)) return left;
+      this.pos++;
+      left = { kind: 'binary', op: token.value, left, right: this.unary(), pos: token.pos };
+    }
+  }
+
+  private unary(): Expr {
+    const token = this.peek();
+    if (token?.kind === 'op' && (token.value === '-' || token.value === '+')) {
+      this.pos++;
+      const operand = this.unary();
+      if (token.value === '+') return operand;
+      if (operand.kind === 'literal' && typeof operand.value === 'number') return { ...operand, value: -operand.value, pos: token.pos };
+      return { kind: 'unary', op: '-', operand, pos: token.pos };
+    }
+    return this.postfix();
+  }
+
+  private postfix(): Expr {
+    let expr = this.primaryExpr();
+    while (this.peek()?.value === '::' && this.peek()?.kind === 'op') {
+      const pos = this.next().pos;
+      expr = { kind: 'cast', operand: expr, type: normalizeType(this.typeName()), pos };
+    }
+    return expr;
+  }
+
+  private primaryExpr(): Expr {
+    const token = this.peek();
+    if (!token) throw this.unexpected();
+    const pos = token.pos;
+
+    if (token.kind === 'number') {
+      this.pos++;
+      return { kind: 'literal', value: Number(token.value), pos };
+    }
+    if (token.kind === 'string') {
+      this.pos++;
+      return { kind: 'literal', value: token.value, pos };
+    }
+    if (token.kind === 'op') {
+      if (token.value !== '(') throw this.unexpected();
+      this.pos++;
+      if (this.peekWord() === 'select') throw this.unsupported('subqueries');
+      const inner = this.expr();
+      this.expectOp(')');
+      return inner;
+    }
+
+    const word = token.quoted ? null : token.value;
+    switch (word) {
+      case 'null': this.pos++; return { kind: 'literal', value: null, pos };
+      case 'true': this.pos++; return { kind: 'literal', value: true, pos };
+      case 'false': this.pos++; return { kind: 'literal', value: false, pos };
+      case 'default': this.pos++; return { kind: 'default', pos };
+      case 'current_timestamp':
+      case 'current_date':
+      case 'localtimestamp':
+        this.pos++;
+        return { kind: 'call', name: word === 'current_date' ? 'current_date' : 'now', args: [], star: false, distinct: false, pos };
+      case 'case': return this.caseExpr();
+      case 'cast': {
+        this.pos++;
+        this.expectOp('(');
+        const operand = this.expr();
+        this.expectWord('as');
+        const type = normalizeType(this.typeName());
+        this.expectOp(')');
+        return { kind: 'cast', operand, type, pos };
+      }
+      case 'interval': {
+        const literal = this.tokens[this.pos + 1];
+        if (literal?.kind !== 'string') break;
+        this.pos += 2;
+        return { kind: 'interval', ms: intervalMs(literal.value, literal.pos), text: literal.value, pos };
+      }
+      case 'exists': throw this.unsupported('subqueries');
+    }
+    if (!token.quoted && RESERVED.has(token.value)) throw this.unexpected();
+
+    this.pos++;
+    if (this.acceptOp('(')) {
+      const call: Expr & { kind: 'call' } = { kind: 'call', name: token.value, args: [], star: false, distinct: false, pos };
+      if (this.acceptOp('*')) {
+        call.star = true;
+      } else if (!(this.peek()?.value === ')' && this.peek()?.kind === 'op')) {
+        call.distinct = this.acceptWord('distinct');
+        do call.args.push(this.expr()); while (this.acceptOp(','));
+      }
+      this.expectOp(')');
+      return call;
+    }
+    if (this.peek()?.value === '.' && this.peek()?.kind === 'op') {
+      this.pos++;
+      return { kind: 'column', table: token.value, name: this.name(), pos };
+    }
+    return { kind: 'column', name: token.value, pos };
+  }
+
+  private caseExpr(): Expr {
+    const pos = this.next().pos;
+    const operand = this.peekWord() === 'when' ? null : this.expr();
+    const whens: { when: Expr; then: Expr }[] = [];
+    while (this.acceptWord('when')) {
+      const when = this.expr();
+      this.expectWord('then');
+      whens.push({ when, then: this.expr() });
+    }
+    if (whens.length === 0) throw this.unexpected();
+    const otherwise = this.acceptWord('else') ? this.expr() : null;
+    this.expectWord('end');
+    return { kind: 'case', operand, whens, otherwise, pos };
+  }
+
+  // --- Tokens ---
+
+  private peek(): Token | undefined {
+    return this.tokens[this.pos];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.pos];
+    if (!token) throw this.unexpected();
+    this.pos++;
+    return token;
+  }
+
+  private peekWord(): string | null {
+    const token = this.peek();
+    return token?.kind === 'ident' && !token.quoted ? token.value : null;
+  }
+
+  private acceptWord(word: string): boolean {
+    if (this.peekWord() !== word) return false;
+    this.pos++;
+    return true;
+  }
+
+  private expectWord(word: string): string {
+    if (!this.acceptWord(word)) throw this.unexpected();
+    return word;
+  }
+
+  private acceptOp(op: string): boolean {
+    const token = this.peek();
+    if (token?.kind !== 'op' || token.value !== op) return false;
+    this.pos++;
+    return true;
+  }
+
+  private expectOp(op: string): void {
+    if (!this.acceptOp(op)) throw this.unexpected();
+  }
+
+  private expectNumber(): number {
+    const token = this.peek();
+    if (token?.kind !== 'number') throw this.unexpected();
+    this.pos++;
+    return Number(token.value);
+  }
+
+  private name(): string {
+    const token = this.peek();
+    if (token?.kind !== 'ident' || (!token.quoted && RESERVED.has(token.value))) throw this.unexpected();
+    this.pos++;
+    return token.value;
+  }
+
+  private unexpected(): DatabaseError {
+    const token = this.peek();
+    if (!token) return new DatabaseError('syntax error at end of input', undefined, this.sql.trimEnd().length + 1);
+    const text = token.kind === 'string' ? `'${token.value}'` : token.quoted ? `"${token.value}"` : this.sql.substr(token.pos, token.value.length);
+    return new DatabaseError(`syntax error at or near "${text}"`, undefined, token.pos + 1);
+  }
+
+  private unsupported(feature: string): DatabaseError {
+    return new DatabaseError(`${feature} are not supported`, undefined, (this.peek()?.pos ?? this.sql.length) + 1);
+  }
+}
+
+/** '2 days', '1 hour 30 minutes', '90 seconds' as milliseconds */
+export function intervalMs(text: string, pos = 0): number {
+  let total = 0;
+  const parts = text.trim().toLowerCase().matchAll(/(-?\d+(?:\.\d+)?)\s*([a-z]+)/g);
+  let matched = '';
+  for (const [whole, amount, unit] of parts) {
+    const singular = unit.replace(/s$/, '');
+    const size = INTERVAL_UNITS[singular] ?? INTERVAL_UNITS[{ min: 'minute', sec: 'second', hr: 'hour', mon: 'month', yr: 'year', ms: 'millisecond' }[singular] ?? ''];
+    if (!size) break;
+    total += Number(amount) * size;
+    matched += whole;
+  }
+  if (!matched || matched.replace(/\s/g, '') !== text.toLowerCase().replace(/\s/g, '')) {
+    throw new DatabaseError(`invalid input syntax for type interval: "${text}"`, undefined, pos + 1);
+  }
+  return total;
+}
@@ -0,0 +1,1624 @@
+import { Column, DatabaseError, FleetCoreState, Row, Table, coerce } from './FleetCoreState';
+import { Expr, SelectItem, SelectStatement, Statement, TableRef, intervalMs, parseSql } from './Sql';
+
+export interface ResultColumn {
+  name: string;
+  type: string;
+}
+
+export interface QueryResult {
+  /** The command tag, e.g. SELECT 3, INSERT 0 1, CREATE INDEX */
+  tag: string;
+  /** Null for statements that don't return rows */
+  columns: ResultColumn[] | null;
+  rows: unknown[][];
+  /** NOTICE and WARNING messages, with their level */
+  notices: string[];
+}
+
+type Category = 'number' | 'text' | 'boolean' | 'time' | 'json' | 'interval' | 'unknown';
+
+interface Source {
+  /** The alias, or the table name when there isn't one */
+  name: string;
+  table: Table;
+  primaryKey: string[];
+}
+
+/** One row from each source in the FROM list; null for the missing side of a LEFT JOIN */
+type Tuple = (Row | null)[];
+
+interface EvalContext {
+  scope: Scope;
+  tuple: Tuple;
+  /** Every tuple in the group, when evaluating a grouped query's output */
+  group: Tuple[] | null;
+  now: number;
+}
+
+interface OutputItem {
+  expr: Expr;
+  name: string;
+  type: string;
+}
+
+interface PreparedSelect {
+  select: SelectStatement;
+  scope: Scope;
+  items: OutputItem[];
+  groupBy: Expr[];
+  grouped: boolean;
+  orderBy: { output?: number; expr: Expr; type: string; desc: boolean; nullsFirst: boolean }[];
+}
+
+interface PlanNode {
+  label: string;
+  startup: number;
+  total: number;
+  rows: number;
+  width: number;
+  details: string[];
+  /** Lines only EXPLAIN ANALYZE shows */
+  measured: string[];
+  children: PlanNode[];
+  loops?: number;
+}
+
+const AGGREGATES = new Set(['count', 'sum', 'avg', 'min', 'max']);
+const COMPARISONS = new Set(['=', '<>', '<', '>', '<=', '>=']);
+const NO_OPERATOR_HINT = 'No operator matches the given name and argument types. You might need to add explicit type casts.';
+const NO_FUNCTION_HINT = 'No function matches the given name and argument types. You might need to add explicit type casts.';
+
+/** Names Postgres gives a column that's just a cast, e.g. SELECT '1'::int is "int4" */
+const TYPE_NAMES: Record<string, string> = {
+  'integer': 'int4',
+  'bigint': 'int8',
+  'smallint': 'int2',
+  'boolean': 'bool',
+  'real': 'float4',
+  'double precision': 'float8',
+  'character varying': 'varchar',
+  'timestamp with time zone': 'timestamptz',
+  'timestamp without time zone': 'timestamp',
+};
+
+/**
+ * A connection's view of the FleetCore database: runs one statement at a
+ * time and tracks the transaction psql has open. A statement that fails
+ * outside a transaction changes nothing; inside one, it aborts the
+ * transaction until ROLLBACK, as in Postgres.
+ */
+export class SqlSession {
+  private transaction: unknown = null;
+  private failed = false;
+
+  constructor(private state: FleetCoreState, private clock: { now(): number }) {}
+
+  /** psql marks the prompt with * inside a transaction and ! once it has failed */
+  get transactionStatus(): 'idle' | 'active' | 'failed' {
+    if (this.transaction === null) return 'idle';
+    return this.failed ? 'failed' : 'active';
+  }
+
+  execute(sql: string): QueryResult {
+    let statement: Statement;
+    try {
+      statement = parseSql(sql);
+    } catch (err) {
+      if (this.transaction !== null) this.failed = true;
+      throw err;
+    }
+    if (statement.kind === 'transaction') return this.transact(statement.action);
+    if (this.failed) {
+      throw new DatabaseError('current transaction is aborted, commands ignored until end of transaction block');
+    }
+
+    const before = this.transaction === null && statement.kind !== 'select' ? this.state.snapshot() : null;
+    try {
+      return new Executor(this.state, this.clock.now()).run(statement);
+    } catch (err) {
+      if (this.transaction !== null) this.failed = true;
+      else if (before !== null) this.state.restore(before);
+      throw err;
+    }
+  }
+
+  /** Disconnecting rolls back whatever transaction was left open */
+  close(): void {
+    if (this.transaction !== null) this.state.restore(this.transaction);
+    this.transaction = null;
+    this.failed = false;
+  }
+
+  private transact(action: 'BEGIN' | 'COMMIT' | 'ROLLBACK'): QueryResult {
+    const result = (tag: string, notices: string[] = []): QueryResult => ({ tag, columns: null, rows: [], notices });
+    if (action === 'BEGIN') {
+      if (this.transaction !== null) return result('BEGIN', ['WARNING:  there is already a transaction in progress']);
+      this.transaction = this.state.snapshot();
+      return result('BEGIN');
+    }
+    if (this.transaction === null) return result(action, ['WARNING:  there is no transaction in progress']);
+    const rollback = action === 'ROLLBACK' || this.failed;
+    if (rollback) this.state.restore(this.transaction);
+    this.transaction = null;
+    this.failed = false;
+    return result(rollback ? 'ROLLBACK' : 'COMMIT');
+  }
+}
+
+class Scope {
+  constructor(readonly sources: Source[]) {}
+
+  resolve(ref: { table?: string; name: string; pos: number }): { index: number; column: Column } {
+    if (ref.table !== undefined) {
+      const index = this.sources.findIndex(s => s.name === ref.table);
+      if (index === -1) {
+        const aliased = this.sources.find(s => s.table.name === ref.table);
+        if (aliased) {
+          throw new DatabaseError(
+            `invalid reference to FROM-clause entry for table "${ref.table}"`, undefined, ref.pos + 1,
+            `Perhaps you meant to reference the table alias "${aliased.name}".`,
+          );
+        }
+        throw new DatabaseError(`missing FROM-clause entry for table "${ref.table}"`, undefined, ref.pos + 1);
+      }
+      const column = this.sources[index].table.columns.find(c => c.name === ref.name);
+      if (!column) throw new DatabaseError(`column ${ref.table}.${ref.name} does not exist`, undefined, ref.pos + 1);
+      return { index, column };
+    }
+    const matches = this.sources.flatMap((source, index) => source.table.columns
+      .filter(c => c.name === ref.name)
+      .map(column => ({ index, column })));
+    if (matches.length > 1) throw new DatabaseError(`column reference "${ref.name}" is ambiguous`, undefined, ref.pos + 1);
+    if (matches.length === 0) throw new DatabaseError(`column "${ref.name}" does not exist`, undefined, ref.pos + 1);
+    return matches[0];
+  }
+
+  /** Which sources an expression reads from */
+  sourcesOf(expr: Expr): Set<number> {
+    const found = new Set<number>();
+    walk(expr, e => {
+      if (e.kind === 'column') found.add(this.resolve(e).index);
+    });
+    return found;
+  }
+}
+
+class Executor {
+  constructor(private state: FleetCoreState, private now: number) {}
+
+  run(statement: Statement): QueryResult {
+    switch (statement.kind) {
+      case 'select': {
+        const { columns, rows } = this.select(this.prepare(statement));
+        return { tag: `SELECT ${rows.length}`, columns, rows, notices: [] };
+      }
+      case 'insert': return this.insert(statement);
+      case 'update': return this.update(statement);
+      case 'delete': return this.delete(statement);
+      case 'explain': return this.explain(statement.statement, statement.analyze);
+      case 'createTable': {
+        for (const column of statement.columns) this.checkReference(column);
+        const indexes = statement.indexes.map(index => ({ ...index, name: sqlIndexName(statement.table, index.columns, index.primary ? 'pkey' : 'key') }));
+        const created = this.state.createTable(statement.table, statement.columns, indexes, statement.ifNotExists);
+        return done('CREATE TABLE', created ? [] : [`NOTICE:  relation "${statement.table}" already exists, skipping`]);
+      }
+      case 'createIndex': {
+        const { table } = this.source(statement.table);
+        for (const name of statement.columns) {
+          if (!table.columns.some(c => c.name === name)) throw new DatabaseError(`column "${name}" does not exist`);
+        }
+        const name = statement.name ?? sqlIndexName(table.name, statement.columns, statement.unique ? 'key' : 'idx');
+        const index = this.state.createIndex(table.name, { name, columns: statement.columns, unique: statement.unique, primary: false }, statement.ifNotExists);
+        return done('CREATE INDEX', index ? [] : [`NOTICE:  relation "${name}" already exists, skipping`]);
+      }
+      case 'dropTable': {
+        const notices = statement.names
+          .filter(name => !this.state.dropTable(name, statement.ifExists, statement.cascade))
+          .map(name => `NOTICE:  table "${name}" does not exist, skipping`);
+        return done('DROP TABLE', notices);
+      }
+      case 'dropIndex': {
+        for (const name of statement.names) {
+          const index = this.state.indexes.get(name);
+          if (index?.primary) {
+            throw new DatabaseError(
+              `cannot drop index ${name} because constraint ${name} on table ${index.table} requires it`, undefined, undefined,
+              `You can drop constraint ${name} on table ${index.table} instead.`,
+            );
+          }
+        }
+        const notices = statement.names
+          .filter(name => !this.state.dropIndex(name, statement.ifExists))
+          .map(name => `NOTICE:  index "${name}" does not exist, skipping`);
+        return done('DROP INDEX', notices);
+      }
+      case 'alterTable': {
+        const { table } = this.source(statement.table);
+        const notices: string[] = [];
+        for (const column of statement.add) {
+          this.checkReference(column);
+          this.state.addColumn(table.name, column);
+        }
+        for (const { name, ifExists } of statement.drop) {
+          if (ifExists && !table.columns.some(c => c.name === name)) {
+            notices.push(`NOTICE:  column "${name}" of relation "${table.name}" does not exist, skipping`);
+          } else {
+            this.state.dropColumn(table.name, name);
+          }
+        }
+        return done('ALTER TABLE', notices);
+      }
+      case 'truncate':
+        for (const ref of statement.tables) {
+          const { table } = this.source(ref);
+          this.state.delete(table.name, [...table.rows]);
+        }
+        return done('TRUNCATE TABLE');
+      case 'transaction':
+        throw new Error('Transactions are handled by the session');
+    }
+  }
+
+  // --- Queries ---
+
+  private prepare(select: SelectStatement): PreparedSelect {
+    const refs = select.from ? [select.from, ...select.joins.map(j => j.table)] : [];
+    const sources: Source[] = [];
+    for (const ref of refs) {
+      const source = this.source(ref);
+      if (sources.some(s => s.name === source.name)) {
+        throw new DatabaseError(`table name "${source.name}" specified more than once`, undefined, ref.pos + 1);
+      }
+      sources.push(source);
+    }
+    const scope = new Scope(sources);
+
+    for (const join of select.joins) {
+      if (!join.on) continue;
+      forbidAggregates(join.on, 'JOIN conditions');
+      typeOf(join.on, scope);
+    }
+    if (select.where) {
+      forbidAggregates(select.where, 'WHERE');
+      requireBoolean(select.where, scope, 'WHERE');
+    }
+
+    const items = expandItems(select.items, scope);
+    const groupBy = select.groupBy.map(expr => {
+      const item = outputReference(expr, items, scope, 'GROUP BY');
+      const resolved = item === null ? expr : items[item].expr;
+      forbidAggregates(resolved, 'GROUP BY');
+      typeOf(resolved, scope);
+      return resolved;
+    });
+    const grouped = groupBy.length > 0 || select.having !== null || items.some(i => hasAggregate(i.expr));
+    if (select.having) requireBoolean(select.having, scope, 'HAVING');
+
+    const orderBy = select.orderBy.map(order => {
+      const output = outputReference(order.expr, items, scope, 'ORDER BY');
+      const expr = output === null ? order.expr : items[output].expr;
+      return {
+        output: output ?? undefined,
+        expr,
+        type: output === null ? typeOf(expr, scope) : items[output].type,
+        desc: order.desc,
+        nullsFirst: order.nullsFirst ?? order.desc,
+      };
+    });
+
+    if (grouped) {
+      const keys = groupBy.map(e => exprKey(e, scope));
+      const checked = [...items.map(i => i.expr), ...(select.having ? [select.having] : []), ...orderBy.filter(o => o.output === undefined).map(o => o.expr)];
+      for (const expr of checked) {
+        const column = findUngrouped(expr, keys, scope);
+        if (column) {
+          const { index } = scope.resolve(column);
+          throw new DatabaseError(
+            `column "${scope.sources[index].name}.${column.name}" must appear in the GROUP BY clause or be used in an aggregate function`,
+            undefined, column.pos + 1,
+          );
+        }
+      }
+    }
+
+    const empty = new Scope([]);
+    for (const expr of [select.limit, select.offset]) if (expr) typeOf(expr, empty);
+    return { select, scope, items, groupBy, grouped, orderBy };
+  }
+
+  private select(prepared: PreparedSelect): { columns: ResultColumn[]; rows: unknown[][] } {
+    const { select, items } = prepared;
+    const contexts = this.groupContexts(prepared, this.filteredTuples(prepared));
+
+    let entries = contexts.map(ctx => {
+      const output = items.map(item => evaluate(item.expr, ctx));
+      const keys = prepared.orderBy.map(o => (o.output !== undefined ? output[o.output] : evaluate(o.expr, ctx)));
+      return { output, keys };
+    });
+    if (prepared.orderBy.length > 0) {
+      entries.sort((a, b) => {
+        for (const [i, order] of prepared.orderBy.entries()) {
+          const diff = compareForSort(a.keys[i], b.keys[i], order.type, order.desc, order.nullsFirst);
+          if (diff !== 0) return diff;
+        }
+        return 0;
+      });
+    }
+    if (select.distinct) {
+      const seen = new Set<string>();
+      entries = entries.filter(entry => {
+        const key = JSON.stringify(entry.output);
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+    }
+
+    const offset = this.count(select.offset, 'OFFSET') ?? 0;
+    const limit = this.count(select.limit, 'LIMIT');
+    entries = entries.slice(offset, limit === null ? undefined : offset + limit);
+    return {
+      columns: items.map(item => ({ name: item.name, type: outputType(item.type) })),
+      rows: entries.map(e => e.output),
+    };
+  }
+
+  /** FROM, JOIN and WHERE: the tuples a query reads */
+  private filteredTuples(prepared: PreparedSelect): Tuple[] {
+    const { select, scope } = prepared;
+    let tuples: Tuple[] = [[]];
+    scope.sources.forEach((source, i) => {
+      const join = i === 0 ? null : select.joins[i - 1];
+      tuples = this.join(tuples, source, join?.type ?? 'cross', join?.on ?? null, scope);
+    });
+    if (!select.where) return tuples;
+    return tuples.filter(tuple => truth(evaluate(select.where!, this.context(scope, tuple))) === true);
+  }
+
+  private join(tuples: Tuple[], source: Source, type: 'inner' | 'left' | 'cross', on: Expr | null, scope: Scope): Tuple[] {
+    const joined: Tuple[] = [];
+    for (const tuple of tuples) {
+      let matched = false;
+      for (const row of source.table.rows) {
+        const candidate = [...tuple, row];
+        if (on && truth(evaluate(on, this.context(scope, candidate))) !== true) continue;
+        joined.push(candidate);
+        matched = true;
+      }
+      if (type === 'left' && !matched) joined.push([...tuple, null]);
+    }
+    return joined;
+  }
+
+  /** One context per output row: a tuple, or a group of them once the query aggregates */
+  private groupContexts(prepared: PreparedSelect, tuples: Tuple[]): EvalContext[] {
+    const { scope, select } = prepared;
+    if (!prepared.grouped) return tuples.map(tuple => this.context(scope, tuple));
+
+    const groups = new Map<string, Tuple[]>();
+    if (prepared.groupBy.length === 0) groups.set('', tuples);
+    for (const tuple of prepared.groupBy.length > 0 ? tuples : []) {
+      const key = JSON.stringify(prepared.groupBy.map(e => evaluate(e, this.context(scope, tuple))));
+      groups.set(key, [...(groups.get(key) ?? []), tuple]);
+    }
+    const contexts = [...groups.values()].map(group => ({
+      ...this.context(scope, group[0] ?? scope.sources.map(() => null)),
+      group,
+    }));
+    if (!select.having) return contexts;
+    return contexts.filter(ctx => truth(evaluate(select.having!, ctx)) === true);
+  }
+
+  private count(expr: Expr | null, clause: string): number | null {
+    if (!expr) return null;
+    const value = evaluate(expr, this.context(new Scope([]), []));
+    if (value === null) return null;
+    const n = Number(value);
+    if (!Number.isFinite(n)) throw new DatabaseError(`invalid input syntax for type bigint: "${value}"`);
+    if (n < 0) throw new DatabaseError(`${clause} must not be negative`);
+    return Math.round(n);
+  }
+
+  // --- Changes ---
+
+  private insert(statement: Extract<Statement, { kind: 'insert' }>): QueryResult {
+    const source = this.source(statement.table);
+    const { table } = source;
+    const names = statement.columns ?? table.columns.map(c => c.name);
+    for (const name of names) {
+      if (!table.columns.some(c => c.name === name)) {
+        throw new DatabaseError(`column "${name}" of relation "${table.name}" does not exist`);
+      }
+    }
+
+    const empty = new Scope([]);
+    const rows = statement.rows.map(exprs => {
+      if (exprs.length > names.length) {
+        throw new DatabaseError('INSERT has more expressions than target columns', undefined, exprs[names.length].pos + 1);
+      }
+      if (statement.columns && exprs.length < names.length) {
+        throw new DatabaseError('INSERT has more target columns than expressions', undefined, exprs.at(-1)!.pos + 1);
+      }
+      const values: Row = {};
+      exprs.forEach((expr, i) => {
+        if (expr.kind === 'default') return;
+        forbidAggregates(expr, 'VALUES');
+        const column = table.columns.find(c => c.name === names[i])!;
+        checkAssignable(column, typeOf(expr, empty), expr.pos);
+        values[column.name] = evaluate(expr, this.context(empty, []));
+      });
+      return values;
+    });
+    const inserted = rows.map(values => this.state.insert(table.name, values, new Date(this.now).toISOString()));
+    return this.returning(statement.returning, source, inserted, `INSERT 0 ${inserted.length}`);
+  }
+
+  private update(statement: Extract<Statement, { kind: 'update' }>): QueryResult {
+    const source = this.source(statement.table);
+    const scope = new Scope([source]);
+    const assigned = new Set<string>();
+    for (const { column: name, value, pos } of statement.set) {
+      const column = source.table.columns.find(c => c.name === name);
+      if (!column) throw new DatabaseError(`column "${name}" of relation "${source.table.name}" does not exist`, undefined, pos + 1);
+      if (assigned.has(name)) throw new DatabaseError(`multiple assignments to same column "${name}"`, undefined, pos + 1);
+      assigned.add(name);
+      forbidAggregates(value, 'UPDATE');
+      checkAssignable(column, typeOf(value, scope), value.pos);
+    }
+    const matches = this.matching(scope, statement.where);
+    const changes = matches.map(row => Object.fromEntries(
+      statement.set.map(({ column, value }) => [column, evaluate(value, this.context(scope, [row]))]),
+    ));
+    const updated = matches.map((row, i) => this.state.update(source.table.name, row, changes[i]));
+    return this.returning(statement.returning, source, updated, `UPDATE ${updated.length}`);
+  }
+
+  private delete(statement: Extract<Statement, { kind: 'delete' }>): QueryResult {
+    const source = this.source(statement.table);
+    const matches = this.matching(new Scope([source]), statement.where);
+    this.state.delete(source.table.name, matches);
+    return this.returning(statement.returning, source, matches, `DELETE ${matches.length}`);
+  }
+
+  private matching(scope: Scope, where: Expr | null): Row[] {
+    if (where) {
+      forbidAggregates(where, 'WHERE');
+      requireBoolean(where, scope, 'WHERE');
+    }
+    return scope.sources[0].table.rows.filter(row => !where || truth(evaluate(where, this.context(scope, [row]))) === true);
+  }
+
+  private returning(items: SelectItem[] | null, source: Source, rows: Row[], tag: string): QueryResult {
+    if (!items) return done(tag);
+    const scope = new Scope([source]);
+    const outputs = expandItems(items, scope);
+    for (const item of outputs) forbidAggregates(item.expr, 'RETURNING');
+    return {
+      tag,
+      columns: outputs.map(item => ({ name: item.name, type: outputType(item.type) })),
+      rows: rows.map(row => outputs.map(item => evaluate(item.expr, this.context(scope, [row])))),
+      notices: [],
+    };
+  }
+
+  // --- EXPLAIN ---
+
+  private explain(statement: Statement, analyze: boolean): QueryResult {
+    const root = this.plan(statement);
+    // ANALYZE really runs the statement, changes included
+    if (analyze) this.run(statement);
+
+    const lines: string[] = [];
+    renderPlan(root, analyze, 0, false, lines);
+    if (analyze) {
+      lines.push(`Planning Time: ${(0.05 + countNodes(root) * 0.021).toFixed(3)} ms`);
+      lines.push(`Execution Time: ${(measure(root)[1] + 0.018).toFixed(3)} ms`);
+    }
+    return { tag: 'EXPLAIN', columns: [{ name: 'QUERY PLAN', type: 'text' }], rows: lines.map(line => [line]), notices: [] };
+  }
+
+  private plan(statement: Statement): PlanNode {
+    if (statement.kind === 'select') return this.planSelect(this.prepare(statement));
+    if (statement.kind === 'insert') {
+      const { table } = this.source(statement.table);
+      const count = statement.rows.length;
+      const child = count === 1
+        ? node('Result', 0, 0.01, 1, rowWidth(table.columns))
+        : node('Values Scan on "*VALUES*"', 0, count * 0.0125, count, rowWidth(table.columns));
+      return node(`Insert on ${table.name}`, 0, child.total + 0.01, 0, 0, [], [child]);
+    }
+    if (statement.kind === 'update' || statement.kind === 'delete') {
+      const source = this.source(statement.table);
+      const scope = new Scope([source]);
+      if (statement.where) requireBoolean(statement.where, scope, 'WHERE');
+      const scan = this.planScan(scope, 0, conjuncts(statement.where));
+      const label = `${statement.kind === 'update' ? 'Update' : 'Delete'} on ${relationLabel(source)}`;
+      return node(label, scan.startup, scan.total + scan.rows * 0.01, 0, 0, [], [scan]);
+    }
+    throw new DatabaseError('EXPLAIN only supports SELECT, INSERT, UPDATE and DELETE');
+  }
+
+  /**
+   * The plan Postgres would pick for a query, with the row counts it would
+   * actually see: index scans where an index covers a condition on its
+   * leading column, hash joins unless the joined table has an index on the
+   * join key, then aggregation, sorting and limits.
+   */
+  private planSelect(prepared: PreparedSelect): PlanNode {
+    const { select, scope, items } = prepared;
+    const qualify = scope.sources.length > 1;
+    const show = (expr: Expr) => deparse(expr, scope, qualify);
+    const width = rowWidth(items.map(i => ({ type: i.type })));
+
+    // WHERE conditions on one table are checked as that table is scanned, unless it's the nullable side of a LEFT JOIN
+    const pending = conjuncts(select.where);
+    const pushed = scope.sources.map((_, i) => {
+      if (i > 0 && select.joins[i - 1].type === 'left') return [];
+      const mine = pending.filter(c => {
+        const used = scope.sourcesOf(c);
+        return used.size === 0 ? i === 0 : used.size === 1 && used.has(i);
+      });
+      for (const c of mine) pending.splice(pending.indexOf(c), 1);
+      return mine;
+    });
+
+    let current: PlanNode;
+    let tuples: Tuple[];
+    if (scope.sources.length === 0) {
+      current = node('Result', 0, 0.01, 1, width);
+      tuples = [[]];
+    } else {
+      current = this.planScan(scope, 0, pushed[0]);
+      tuples = this.scanRows(scope, 0, pushed[0]).map(row => [row]);
+    }
+
+    for (let i = 1; i < scope.sources.length; i++) {
+      const join = select.joins[i - 1];
+      const inner = this.scanRows(scope, i, pushed[i]);
+      const joined: Tuple[] = [];
+      for (const tuple of tuples) {
+        let matched = false;
+        for (const row of inner) {
+          const candidate = [...tuple, row];
+          if (join.on && truth(evaluate(join.on, this.context(scope, candidate))) !== true) continue;
+          joined.push(candidate);
+          matched = true;
+        }
+        if (join.type === 'left' && !matched) joined.push([...tuple, null]);
+      }
+      // Conditions that need both sides are checked once this join has produced its rows
+      const ready = pending.filter(c => Math.max(...scope.sourcesOf(c)) <= i);
+      for (const c of ready) pending.splice(pending.indexOf(c), 1);
+      const outerRows = tuples.length;
+      tuples = joined.filter(t => ready.every(c => truth(evaluate(c, this.context(scope, t))) === true));
+
+      const left = join.type === 'left' ? ' Left Join' : '';
+      const details: string[] = [];
+      const key = join.on ? this.joinKey(join.on, scope, i) : null;
+      const joinWidth = current.width + rowWidth(scope.sources[i].table.columns);
+      let joinNode: PlanNode;
+      if (key?.index) {
+        const lookup = this.planScan(scope, i, pushed[i], key);
+        lookup.loops = Math.max(outerRows, 1);
+        const total = current.total + outerRows * lookup.total;
+        joinNode = node(`Nested Loop${left}`, current.startup + lookup.startup, total, tuples.length, joinWidth, details, [current, lookup]);
+      } else if (key) {
+        const scan = this.planScan(scope, i, pushed[i]);
+        const hash = node('Hash', scan.total, scan.total, scan.rows, scan.width, [], [scan]);
+        hash.measured.push(`Buckets: 1024  Batches: 1  Memory Usage: ${Math.max(9, Math.ceil(scan.rows * scan.width / 1024) + 8)}kB`);
+        details.push(`Hash Cond: ${show(key.condition)}`);
+        const total = current.total + hash.total + (outerRows + scan.rows) * 0.0125 + joined.length * 0.01;
+        joinNode = node(`Hash${left || ' Join'}`, hash.total, total, tuples.length, joinWidth, details, [current, hash]);
+      } else {
+        const scan = this.planScan(scope, i, pushed[i]);
+        if (join.on) details.push(`Join Filter: ${show(join.on)}`);
+        const total = current.total + outerRows * scan.total + outerRows * scan.rows * 0.01;
+        joinNode = node(`Nested Loop${left}`, 0, total, tuples.length, joinWidth, details, [current, scan]);
+      }
+      if (ready.length > 0) {
+        joinNode.details.push(`${join.type === 'left' ? 'Filter' : 'Join Filter'}: ${show(andAll(ready))}`);
+        joinNode.measured.push(`Rows Removed by ${join.type === 'left' ? 'Filter' : 'Join Filter'}: ${joined.length - tuples.length}`);
+      }
+      current = joinNode;
+    }
+
+    if (prepared.grouped) {
+      const contexts = this.groupContexts(prepared, tuples);
+      const hashed = prepared.groupBy.length > 0;
+      const details = hashed ? [`Group Key: ${prepared.groupBy.map(show).join(', ')}`] : [];
+      if (select.having) details.push(`Filter: ${show(select.having)}`);
+      const cost = current.total + tuples.length * 0.0125 + contexts.length * 0.01;
+      current = node(hashed ? 'HashAggregate' : 'Aggregate', cost, cost + (hashed ? contexts.length * 0.01 : 0.01), contexts.length, width, details, [current]);
+      if (hashed) current.measured.push('Batches: 1  Memory Usage: 24kB');
+    } else if (current.width !== width && scope.sources.length > 1) {
+      current.width = width;
+    }
+
+    const rows = this.select(prepared).rows.length;
+    const unlimited = current.rows;
+    if (prepared.orderBy.length > 0) {
+      const keys = prepared.orderBy.map(o => `${show(o.expr)}${o.desc ? ' DESC' : ''}${o.nullsFirst !== o.desc ? (o.nullsFirst ? ' NULLS FIRST' : ' NULLS LAST') : ''}`);
+      const n = Math.max(current.rows, 2);
+      const startup = current.total + n * Math.log2(n) * 0.005 + 0.01;
+      current = node('Sort', startup, startup + current.rows * 0.01, current.rows, width, [`Sort Key: ${keys.join(', ')}`], [current]);
+      current.measured.push('Sort Method: quicksort  Memory: 25kB');
+    }
+    if (select.distinct) {
+      const distinct = new Set(this.distinctRows(prepared)).size;
+      const label = prepared.orderBy.length > 0 ? 'Unique' : 'HashAggregate';
+      const details = label === 'HashAggregate' ? [`Group Key: ${items.map(i => show(i.expr)).join(', ')}`] : [];
+      current = node(label, current.startup, current.total + current.rows * 0.0125, distinct, width, details, [current]);
+    }
+    if (select.limit || select.offset) {
+      const fraction = unlimited > 0 ? Math.min(1, rows / unlimited) : 1;
+      current = node('Limit', current.startup, current.startup + (current.total - current.startup) * fraction, rows, width, [], [current]);
+    }
+    return current;
+  }
+
+  /** DISTINCT's input: every output row before duplicates go */
+  private distinctRows(prepared: PreparedSelect): string[] {
+    const contexts = this.groupContexts(prepared, this.filteredTuples(prepared));
+    return contexts.map(ctx => JSON.stringify(prepared.items.map(item => evaluate(item.expr, ctx))));
+  }
+
+  /** A scan of one source, by index when a condition (or the join key) constrains an indexed column */
+  private planScan(
+    scope: Scope,
+    i: number,
+    conditions: Expr[],
+    key?: { column: string; condition: Expr; index?: string },
+  ): PlanNode {
+    const source = scope.sources[i];
+    const total = source.table.rows.length;
+    const width = rowWidth(source.table.columns);
+    const show = (expr: Expr) => deparse(expr, scope, scope.sources.length > 1);
+    const rows = this.scanRows(scope, i, conditions).length;
+
+    const usable = key?.index ? { index: key.index, condition: key.condition } : this.indexFor(scope, i, conditions);
+    if (usable) {
+      const rest = conditions.filter(c => c !== usable.condition);
+      const matched = key?.index ? Math.max(1, Math.round(rows / Math.max(total, 1))) : rows;
+      const details = [`Index Cond: ${show(usable.condition)}`];
+      if (rest.length > 0) details.push(`Filter: ${show(andAll(rest))}`);
+      const scan = node(`Index Scan using ${usable.index} on ${relationLabel(source)}`, 0.14, 8.16 + matched * 0.01, matched, width, details, []);
+      if (rest.length > 0) scan.measured.push(`Rows Removed by Filter: ${Math.max(0, this.scanRows(scope, i, [usable.condition]).length - rows)}`);
+      return scan;
+    }
+    const details = conditions.length > 0 ? [`Filter: ${show(andAll(conditions))}`] : [];
+    const cost = 1 + total * 0.01 + (conditions.length > 0 ? total * 0.0025 * conditions.length : 0);
+    const scan = node(`Seq Scan on ${relationLabel(source)}`, 0, cost, rows, width, details, []);
+    if (conditions.length > 0) scan.measured.push(`Rows Removed by Filter: ${total - rows}`);
+    return scan;
+  }
+
+  private scanRows(scope: Scope, i: number, conditions: Expr[]): Row[] {
+    return scope.sources[i].table.rows.filter(row => {
+      const tuple: Tuple = scope.sources.map((_, j) => (j === i ? row : null));
+      return conditions.every(c => truth(evaluate(c, this.context(scope, tuple))) === true);
+    });
+  }
+
+  /** An index whose leading column one of the conditions compares with a constant */
+  private indexFor(scope: Scope, i: number, conditions: Expr[]): { index: string; condition: Expr } | null {
+    const source = scope.sources[i];
+    const indexes = [...this.state.indexes.values()].filter(index => index.table === source.table.name);
+    const candidates = conditions.flatMap(condition => {
+      const column = indexedColumn(condition, scope, i);
+      const index = column ? indexes.find(ix => ix.columns[0] === column.name) : undefined;
+      return index ? [{ index, condition, equality: column!.equality }] : [];
+    });
+    candidates.sort((a, b) => Number(b.equality) - Number(a.equality) || Number(b.index.unique) - Number(a.index.unique));
+    return candidates[0] ? { index: candidates[0].index.name, condition: candidates[0].condition } : null;
+  }
+
+  /** For `a.x = b.y` joining source i: the column on i's side, and an index on it if there is one */
+  private joinKey(on: Expr, scope: Scope, i: number): { column: string; condition: Expr; index?: string } | null {
+    for (const condition of conjuncts(on)) {
+      if (condition.kind !== 'binary' || condition.op !== '=' || condition.left.kind !== 'column' || condition.right.kind !== 'column') continue;
+      const left = scope.resolve(condition.left);
+      const right = scope.resolve(condition.right);
+      const [mine, other, ownExpr, otherExpr] = left.index === i ? [left, right, condition.left, condition.right] : [right, left, condition.right, condition.left];
+      if (mine.index !== i || other.index >= i) continue;
+      const index = [...this.state.indexes.values()].find(ix => ix.table === scope.sources[i].table.name && ix.columns[0] === mine.column.name);
+      // Index conditions name the inner column first, as Postgres prints them
+      const keyed: Expr = { kind: 'binary', op: '=', left: ownExpr, right: otherExpr, pos: condition.pos };
+      return { column: mine.column.name, condition: index ? keyed : condition, index: index?.name };
+    }
+    return null;
+  }
+
+  // --- Helpers ---
+
+  private source(ref: TableRef): Source {
+    const table = this.state.table(ref.table);
+    if (!table) throw new DatabaseError(`relation "${ref.table}" does not exist`, undefined, ref.pos + 1);
+    const primary = [...this.state.indexes.values()].find(index => index.table === table.name && index.primary);
+    return { name: ref.alias ?? ref.table, table, primaryKey: primary?.columns ?? [] };
+  }
+
+  private checkReference(column: Column): void {
+    const ref = column.references;
+    if (!ref) return;
+    const target = this.state.table(ref.table);
+    if (!target) throw new DatabaseError(`relation "${ref.table}" does not exist`);
+    if (!target.columns.some(c => c.name === ref.column)) {
+      throw new DatabaseError(`column "${ref.column}" referenced in foreign key constraint does not exist`);
+    }
+  }
+
+  private context(scope: Scope, tuple: Tuple): EvalContext {
+    return { scope, tuple, group: null, now: this.now };
+  }
+}
+
+function done(tag: string, notices: string[] = []): QueryResult {
+  return { tag, columns: null, rows: [], notices };
+}
+
+/** Postgres's own names: vehicles_pkey, drivers_email_key, trips_vehicle_id_idx */
+function sqlIndexName(table: string, columns: string[], suffix: 'pkey' | 'key' | 'idx'): string {
+  return suffix === 'pkey' ? `${table}_pkey` : `${table}_${columns.join('_')}_${suffix}`;
+}
+
+function expandItems(items: SelectItem[], scope: Scope): OutputItem[] {
+  return items.flatMap(item => {
+    if (item.kind === 'expr') return [{ expr: item.expr, name: item.alias ?? outputName(item.expr), type: typeOf(item.expr, scope) }];
+    if (scope.sources.length === 0) throw new DatabaseError('SELECT * with no tables specified is not valid', undefined, item.pos + 1);
+    const sources = item.table === undefined ? scope.sources : scope.sources.filter(s => s.name === item.table);
+    if (sources.length === 0) scope.resolve({ table: item.table, name: '*', pos: item.pos });
+    return sources.flatMap(source => source.table.columns.map(column => ({
+      expr: { kind: 'column', table: source.name, name: column.name, pos: item.pos } as Expr,
+      name: column.name,
+      type: column.type,
+    })));
+  });
+}
+
+/**
+ * Which output column an ORDER BY or GROUP BY item means, if it's an
+ * ordinal or the bare name of an output column. GROUP BY prefers input
+ * columns with the same name; ORDER BY prefers output columns.
+ */
+function outputReference(expr: Expr, items: OutputItem[], scope: Scope, clause: string): number | null {
+  if (expr.kind === 'literal' && typeof expr.value === 'number' && Number.isInteger(expr.value)) {
+    if (expr.value < 1 || expr.value > items.length) {
+      throw new DatabaseError(`${clause} position ${expr.value} is not in select list`, undefined, expr.pos + 1);
+    }
+    return expr.value - 1;
+  }
+  if (expr.kind !== 'column' || expr.table !== undefined) return null;
+  if (clause === 'GROUP BY' && scope.sources.some(s => s.table.columns.some(c => c.name === expr.name))) return null;
+  const index = items.findIndex(item => item.name === expr.name);
+  return index === -1 ? null : index;
+}
+
+function outputName(expr: Expr): string {
+  switch (expr.kind) {
+    case 'column':
+    case 'call':
+      return expr.name;
+    case 'cast': {
+      const inner = outputName(expr.operand);
+      return inner !== '?column?' ? inner : TYPE_NAMES[expr.type] ?? expr.type.replace(/\(.*$/, '');
+    }
+    case 'case': return 'case';
+    case 'interval': return 'interval';
+    default: return '?column?';
+  }
+}
+
+/** The type psql is told a column has: unknown literals come back as text */
+function outputType(type: string): string {
+  return type === 'unknown' ? 'text' : type;
+}
+
+// --- Types ---
+
+export function typeCategory(type: string): Category {
+  if (/^(integer|bigint|smallint|real|double precision|numeric)/.test(type)) return 'number';
+  if (type === 'boolean') return 'boolean';
+  if (type.startsWith('timestamp') || type === 'date') return 'time';
+  if (type === 'json' || type === 'jsonb') return 'json';
+  if (type === 'interval') return 'interval';
+  if (type === 'unknown') return 'unknown';
+  return 'text';
+}
+
+/** A type as error messages name it: character varying, not character varying(17) */
+function typeLabel(type: string): string {
+  return type.replace(/\(.*\)$/, '');
+}
+
+function typeOf(expr: Expr, scope: Scope): string {
+  switch (expr.kind) {
+    case 'literal':
+      if (typeof expr.value === 'number') return Number.isInteger(expr.value) ? 'integer' : 'numeric';
+      return typeof expr.value === 'boolean' ? 'boolean' : 'unknown';
+    case 'column':
+      return scope.resolve(expr).column.type;
+    case 'default':
+      throw new DatabaseError('DEFAULT is not allowed in this context', undefined, expr.pos + 1);
+    case 'interval':
+      return 'interval';
+    case 'unary': {
+      const type = typeOf(expr.operand, scope);
+      if (expr.op === 'NOT') {
+        if (!['boolean', 'unknown'].includes(typeCategory(type))) {
+          throw new DatabaseError(`argument of NOT must be type boolean, not type ${typeLabel(type)}`, undefined, expr.operand.pos + 1);
+        }
+        return 'boolean';
+      }
+      if (!['number', 'interval', 'unknown'].includes(typeCategory(type))) throw noOperator('-', null, type, expr.pos);
+      return type;
+    }
+    case 'isNull':
+      typeOf(expr.operand, scope);
+      return 'boolean';
+    case 'in': {
+      const type = typeOf(expr.operand, scope);
+      for (const item of expr.list) operatorType('=', type, typeOf(item, scope), item.pos);
+      return 'boolean';
+    }
+    case 'between': {
+      const type = typeOf(expr.operand, scope);
+      operatorType('>=', type, typeOf(expr.low, scope), expr.pos);
+      operatorType('<=', type, typeOf(expr.high, scope), expr.pos);
+      return 'boolean';
+    }
+    case 'like': {
+      const type = typeOf(expr.operand, scope);
+      const pattern = typeOf(expr.pattern, scope);
+      if (!['text', 'unknown'].includes(typeCategory(type)) || !['text', 'unknown'].includes(typeCategory(pattern))) {
+        throw noOperator(expr.caseInsensitive ? '~~*' : '~~', type, pattern, expr.pos);
+      }
+      return 'boolean';
+    }
+    case 'cast':
+      typeOf(expr.operand, scope);
+      return expr.type;
+    case 'case': {
+      const operand = expr.operand ? typeOf(expr.operand, scope) : null;
+      const results: string[] = [];
+      for (const { when, then } of expr.whens) {
+        const condition = typeOf(when, scope);
+        if (operand !== null) operatorType('=', operand, condition, when.pos);
+        results.push(typeOf(then, scope));
+      }
+      if (expr.otherwise) results.push(typeOf(expr.otherwise, scope));
+      return results.find(t => t !== 'unknown') ?? 'text';
+    }
+    case 'binary':
+      return operatorType(expr.op, typeOf(expr.left, scope), typeOf(expr.right, scope), expr.pos);
+    case 'call':
+      return callType(expr, scope);
+  }
+}
+
+function operatorType(op: string, left: string, right: string, pos: number): string {
+  const [lc, rc] = [typeCategory(left), typeCategory(right)];
+  if (op === 'AND' || op === 'OR') {
+    for (const type of [left, right]) {
+      if (!['boolean', 'unknown'].includes(typeCategory(type))) {
+        throw new DatabaseError(`argument of ${op} must be type boolean, not type ${typeLabel(type)}`, undefined, pos + 1);
+      }
+    }
+    return 'boolean';
+  }
+  if (COMPARISONS.has(op)) {
+    if (lc !== 'unknown' && rc !== 'unknown' && lc !== rc) throw noOperator(op, left, right, pos);
+    return 'boolean';
+  }
+  if (op === '||') return lc === 'json' && rc === 'json' ? left : 'text';
+  if (op === '->' || op === '->>') {
+    if (lc !== 'json' || !['number', 'text', 'unknown'].includes(rc)) throw noOperator(op, left, right, pos);
+    return op === '->' ? left : 'text';
+  }
+
+  if (lc === 'time' || rc === 'time') {
+    const timeType = lc === 'time' ? left : right;
+    const other = lc === 'time' ? rc : lc;
+    const asTimestamp = timeType === 'date' ? 'timestamp without time zone' : timeType;
+    if (op === '+' && (other === 'interval' || other === 'unknown')) return asTimestamp;
+    if (op === '+' && timeType === 'date' && other === 'number') return 'date';
+    if (op === '-' && lc === 'time' && (rc === 'interval' || (rc === 'number' && left === 'date'))) return rc === 'number' ? 'date' : asTimestamp;
+    if (op === '-' && lc === 'time' && (rc === 'time' || rc === 'unknown')) return left === 'date' && right === 'date' ? 'integer' : 'interval';
+    throw noOperator(op, left, right, pos);
+  }
+  if (lc === 'interval' || rc === 'interval') {
+    if ((op === '+' || op === '-') && [lc, rc].every(c => c === 'interval' || c === 'unknown')) return 'interval';
+    if ((op === '*' || op === '/') && lc === 'interval' && (rc === 'number' || rc === 'unknown')) return 'interval';
+    if (op === '*' && rc === 'interval' && lc === 'number') return 'interval';
+    throw noOperator(op, left, right, pos);
+  }
+  if ((lc === 'number' || lc === 'unknown') && (rc === 'number' || rc === 'unknown') && ['+', '-', '*', '/', '%'].includes(op)) {
+    const types = [left, right].filter(t => t !== 'unknown');
+    if (types.some(t => t === 'real' || t === 'double precision')) return 'double precision';
+    if (types.length > 0 && types.every(t => /^(integer|smallint|bigint)$/.test(t))) return types.includes('bigint') ? 'bigint' : 'integer';
+    return 'numeric';
+  }
+  throw noOperator(op, left, right, pos);
+}
+
+function noOperator(op: string, left: string | null, right: string, pos: number): DatabaseError {
+  const operands = left === null ? `${op} ${typeLabel(right)}` : `${typeLabel(left)} ${op} ${typeLabel(right)}`;
+  return new DatabaseError(`operator does not exist: ${operands}`, undefined, pos + 1, NO_OPERATOR_HINT);
+}
+
+function callType(expr: Extract<Expr, { kind: 'call' }>, scope: Scope): string {
+  const args = expr.args.map(arg => typeOf(arg, scope));
+  const [first] = args;
+  const missing = () => new DatabaseError(
+    `function ${expr.name}(${expr.star ? '*' : args.map(typeLabel).join(', ')}) does not exist`, undefined, expr.pos + 1, NO_FUNCTION_HINT,
+  );
+  const arity = (min: number, max = min) => {
+    if (expr.star || args.length < min || args.length > max) throw missing();
+  };
+  const numeric = () => {
+    if (!['number', 'unknown'].includes(typeCategory(first))) throw missing();
+  };
+
+  switch (expr.name) {
+    case 'count':
+      if (!expr.star) arity(1);
+      return 'bigint';
+    case 'sum':
+      arity(1);
+      numeric();
+      if (/^(integer|smallint)$/.test(first)) return 'bigint';
+      return first === 'real' || first === 'double precision' ? 'double precision' : 'numeric';
+    case 'avg':
+      arity(1);
+      numeric();
+      return first === 'real' || first === 'double precision' ? 'double precision' : 'numeric';
+    case 'min':
+    case 'max':
+      arity(1);
+      return first;
+    case 'lower':
+    case 'upper':
+    case 'trim':
+    case 'btrim':
+      arity(1);
+      return 'text';
+    case 'length':
+    case 'char_length':
+      arity(1);
+      return 'integer';
+    case 'substring':
+    case 'substr':
+      arity(2, 3);
+      return 'text';
+    case 'concat':
+      return 'text';
+    case 'coalesce':
+    case 'greatest':
+    case 'least':
+      arity(1, Infinity);
+      return args.find(t => t !== 'unknown') ?? 'text';
+    case 'nullif':
+      arity(2);
+      return first;
+    case 'round':
+      arity(1, 2);
+      numeric();
+      return first === 'double precision' && args.length === 1 ? first : 'numeric';
+    case 'ceil':
+    case 'ceiling':
+    case 'floor':
+    case 'abs':
+      arity(1);
+      numeric();
+      return first;
+    case 'now':
+      arity(0);
+      return 'timestamp with time zone';
+    case 'current_date':
+      arity(0);
+      return 'date';
+    case 'date_trunc':
+      arity(2);
+      return args[1] === 'date' ? 'timestamp with time zone' : args[1];
+    default:
+      throw missing();
+  }
+}
+
+function checkAssignable(column: Column, type: string, pos: number): void {
+  const from = typeCategory(type);
+  const to = typeCategory(column.type);
+  if (from === 'unknown' || from === to || to === 'text') return;
+  throw new DatabaseError(
+    `column "${column.name}" is of type ${column.type} but expression is of type ${typeLabel(type)}`, undefined, pos + 1,
+    'You will need to rewrite or cast the expression.',
+  );
+}
+
+function requireBoolean(expr: Expr, scope: Scope, clause: string): void {
+  const type = typeOf(expr, scope);
+  if (!['boolean', 'unknown'].includes(typeCategory(type))) {
+    throw new DatabaseError(`argument of ${clause} must be type boolean, not type ${typeLabel(type)}`, undefined, expr.pos + 1);
+  }
+}
+
+// --- Evaluation ---
+
+function evaluate(expr: Expr, ctx: EvalContext): unknown {
+  switch (expr.kind) {
+    case 'literal':
+      return expr.value;
+    case 'column': {
+      const { index } = ctx.scope.resolve(expr);
+      return ctx.tuple[index]?.[expr.name] ?? null;
+    }
+    case 'default':
+      throw new DatabaseError('DEFAULT is not allowed in this context', undefined, expr.pos + 1);
+    case 'interval':
+      return expr.ms;
+    case 'unary': {
+      const value = evaluate(expr.operand, ctx);
+      if (value === null) return null;
+      return expr.op === 'NOT' ? !truth(value) : -Number(value);
+    }
+    case 'isNull': {
+      const value = evaluate(expr.operand, ctx);
+      return (value === null || value === undefined) !== expr.negated;
+    }
+    case 'in': {
+      const value = evaluate(expr.operand, ctx);
+      if (value === null) return null;
+      const type = typeOf(expr.operand, ctx.scope);
+      let sawNull = false;
+      for (const item of expr.list) {
+        const candidate = evaluate(item, ctx);
+        if (candidate === null) {
+          sawNull = true;
+        } else if (compare(value, candidate, type, typeOf(item, ctx.scope)) === 0) {
+          return !expr.negated;
+        }
+      }
+      return sawNull ? null : expr.negated;
+    }
+    case 'between': {
+      const [value, low, high] = [expr.operand, expr.low, expr.high].map(e => evaluate(e, ctx));
+      if (value === null || low === null || high === null) return null;
+      const type = typeOf(expr.operand, ctx.scope);
+      const inside = compare(value, low, type, typeOf(expr.low, ctx.scope)) >= 0
+        && compare(value, high, type, typeOf(expr.high, ctx.scope)) <= 0;
+      return inside !== expr.negated;
+    }
+    case 'like': {
+      const value = evaluate(expr.operand, ctx);
+      const pattern = evaluate(expr.pattern, ctx);
+      if (value === null || pattern === null) return null;
+      return likeRegExp(String(pattern), expr.caseInsensitive).test(String(value)) !== expr.negated;
+    }
+    case 'cast': {
+      const value = evaluate(expr.operand, ctx);
+      return castValue(value, typeOf(expr.operand, ctx.scope), expr.type);
+    }
+    case 'case': {
+      const operand = expr.operand ? evaluate(expr.operand, ctx) : undefined;
+      for (const { when, then } of expr.whens) {
+        const test = evaluate(when, ctx);
+        const hit = expr.operand
+          ? operand !== null && test !== null && compare(operand, test, typeOf(expr.operand, ctx.scope), typeOf(when, ctx.scope)) === 0
+          : truth(test) === true;
+        if (hit) return evaluate(then, ctx);
+      }
+      return expr.otherwise ? evaluate(expr.otherwise, ctx) : null;
+    }
+    case 'binary':
+      return evaluateBinary(expr, ctx);
+    case 'call':
+      return evaluateCall(expr, ctx);
+  }
+}
+
+function evaluateBinary(expr: Extract<Expr, { kind: 'binary' }>, ctx: EvalContext): unknown {
+  if (expr.op === 'AND' || expr.op === 'OR') {
+    const decisive = expr.op === 'OR';
+    const left = truth(evaluate(expr.left, ctx));
+    if (left === decisive) return decisive;
+    const right = truth(evaluate(expr.right, ctx));
+    if (right === decisive) return decisive;
+    return left === null || right === null ? null : !decisive;
+  }
+
+  const left = evaluate(expr.left, ctx);
+  const right = evaluate(expr.right, ctx);
+  if (left === null || right === null) return null;
+  const leftType = typeOf(expr.left, ctx.scope);
+  const rightType = typeOf(expr.right, ctx.scope);
+
+  if (COMPARISONS.has(expr.op)) {
+    const diff = compare(left, right, leftType, rightType);
+    switch (expr.op) {
+      case '=': return diff === 0;
+      case '<>': return diff !== 0;
+      case '<': return diff < 0;
+      case '>': return diff > 0;
+      case '<=': return diff <= 0;
+      default: return diff >= 0;
+    }
+  }
+  if (expr.op === '||') {
+    if (typeCategory(leftType) === 'json' && typeCategory(rightType) === 'json') {
+      return isObject(left) && isObject(right) ? { ...left, ...right } : [left, right].flat();
+    }
+    return textOf(left, leftType) + textOf(right, rightType);
+  }
+  if (expr.op === '->' || expr.op === '->>') {
+    const value = typeof right === 'number' && Array.isArray(left)
+      ? left[right < 0 ? left.length + right : right]
+      : isObject(left) ? left[String(right)] : undefined;
+    if (value === undefined || value === null) return null;
+    if (expr.op === '->') return value;
+    return typeof value === 'string' ? value : formatValue(value, leftType);
+  }
+
+  const resultType = operatorType(expr.op, leftType, rightType, expr.pos);
+  const [lc, rc] = [typeCategory(leftType), typeCategory(rightType)];
+  if (lc === 'time' || rc === 'time') {
+    const time = Date.parse(String(lc === 'time' ? left : right));
+    const other = lc === 'time' ? right : left;
+    if (resultType === 'date') {
+      const days = Number(other) * (expr.op === '-' ? -1 : 1);
+      return new Date(time + days * 86_400_000).toISOString().slice(0, 10);
+    }
+    if (resultType === 'interval' || resultType === 'integer') {
+      const diff = time - Date.parse(String(castValue(right, rightType, leftType)));
+      return resultType === 'integer' ? Math.round(diff / 86_400_000) : diff;
+    }
+    const ms = rc === 'unknown' ? intervalMs(String(right)) : Number(other);
+    return new Date(time + (expr.op === '-' ? -ms : ms)).toISOString();
+  }
+
+  const a = lc === 'interval' && rc === 'unknown' ? 0 : Number(lc === 'unknown' ? castValue(left, leftType, rightType) : left);
+  const b = rc === 'interval' && lc === 'unknown' ? 0 : Number(rc === 'unknown' ? castValue(right, rightType, leftType) : right);
+  const integer = /^(integer|bigint|smallint)$/.test(resultType);
+  switch (expr.op) {
+    case '+': return tidy(a + b);
+    case '-': return tidy(a - b);
+    case '*': return tidy(a * b);
+    case '/':
+      if (b === 0) throw new DatabaseError('division by zero');
+      return integer ? Math.trunc(a / b) : tidy(a / b);
+    default:
+      if (b === 0) throw new DatabaseError('division by zero');
+      return a % b;
+  }
+}
+
+function evaluateCall(expr: Extract<Expr, { kind: 'call' }>, ctx: EvalContext): unknown {
+  if (AGGREGATES.has(expr.name)) return aggregate(expr, ctx);
+
+  const args = expr.args.map(arg => evaluate(arg, ctx));
+  const types = expr.args.map(arg => typeOf(arg, ctx.scope));
+  const [first] = args;
+  const text = (i: number) => textOf(args[i], types[i]);
+  const nonNull = args.filter(a => a !== null);
+
+  switch (expr.name) {
+    case 'coalesce': return nonNull[0] ?? null;
+    case 'nullif': return first !== null && args[1] !== null && compare(first, args[1], types[0], types[1]) === 0 ? null : first;
+    case 'concat': return args.map((a, i) => (a === null ? '' : text(i))).join('');
+    case 'greatest':
+    case 'least': {
+      if (nonNull.length === 0) return null;
+      const type = types.find(t => t !== 'unknown') ?? 'text';
+      const sign = expr.name === 'greatest' ? 1 : -1;
+      return nonNull.reduce((best, value) => (sign * compare(value, best, type, type) > 0 ? value : best));
+    }
+    case 'now': return new Date(ctx.now).toISOString();
+    case 'current_date': return new Date(ctx.now).toISOString().slice(0, 10);
+  }
+
+  if (args.some(a => a === null)) return null;
+  switch (expr.name) {
+    case 'lower': return text(0).toLowerCase();
+    case 'upper': return text(0).toUpperCase();
+    case 'trim':
+    case 'btrim': return text(0).trim();
+    case 'length':
+    case 'char_length': return text(0).length;
+    case 'substring':
+    case 'substr': {
+      const start = Number(args[1]) - 1;
+      const end = args.length > 2 ? start + Number(args[2]) : undefined;
+      return text(0).slice(Math.max(0, start), end === undefined ? undefined : Math.max(0, end));
+    }
+    case 'round': {
+      const scale = Math.pow(10, Number(args[1] ?? 0));
+      const n = Number(first);
+      return Math.sign(n) * Math.round(Math.abs(n) * scale) / scale;
+    }
+    case 'ceil':
+    case 'ceiling': return Math.ceil(Number(first));
+    case 'floor': return Math.floor(Number(first));
+    case 'abs': return Math.abs(Number(first));
+    case 'date_trunc': return truncateTime(String(first).toLowerCase(), String(args[1]));
+    default: return null;
+  }
+}
+
+function aggregate(expr: Extract<Expr, { kind: 'call' }>, ctx: EvalContext): unknown {
+  if (!ctx.group) throw new DatabaseError('aggregate function calls cannot be nested', undefined, expr.pos + 1);
+  if (expr.star) return ctx.group.length;
+
+  const [arg] = expr.args;
+  let values = ctx.group
+    .map(tuple => evaluate(arg, { ...ctx, tuple, group: null }))
+    .filter(v => v !== null && v !== undefined);
+  if (expr.distinct) {
+    const seen = new Set<string>();
+    values = values.filter(v => !seen.has(JSON.stringify(v)) && !!seen.add(JSON.stringify(v)));
+  }
+  if (expr.name === 'count') return values.length;
+  if (values.length === 0) return null;
+
+  const type = typeOf(arg, ctx.scope);
+  switch (expr.name) {
+    case 'sum': return tidy(values.reduce((total: number, v) => total + Number(v), 0));
+    case 'avg': return tidy(values.reduce((total: number, v) => total + Number(v), 0) / values.length);
+    case 'min': return values.reduce((best, v) => (compare(v, best, type, type) < 0 ? v : best));
+    default: return values.reduce((best, v) => (compare(v, best, type, type) > 0 ? v : best));
+  }
+}
+
+/** SQL's three-valued truth: true, false, or null for unknown */
+function truth(value: unknown): boolean | null {
+  if (value === null || value === undefined) return null;
+  return value === true || value === 't' || value === 'true';
+}
+
+/** Compare two non-null values, resolving an untyped literal to the other side's type first */
+function compare(left: unknown, right: unknown, leftType: string, rightType: string): number {
+  let type = leftType;
+  if (leftType === 'unknown' && rightType !== 'unknown') {
+    left = castValue(left, leftType, rightType);
+    type = rightType;
+  } else if (rightType === 'unknown' && leftType !== 'unknown') {
+    right = castValue(right, rightType, leftType);
+  }
+  return compareTyped(left, right, type);
+}
+
+function compareTyped(a: unknown, b: unknown, type: string): number {
+  switch (typeCategory(type)) {
+    case 'time': return Date.parse(String(a)) - Date.parse(String(b));
+    case 'number':
+    case 'interval': return Number(a) - Number(b);
+    case 'boolean': return Number(a) - Number(b);
+    case 'json': {
+      const [x, y] = [JSON.stringify(a), JSON.stringify(b)];
+      return x === y ? 0 : x < y ? -1 : 1;
+    }
+    default: {
+      if (typeof a === 'number' && typeof b === 'number') return a - b;
+      const [x, y] = [String(a), String(b)];
+      return x === y ? 0 : x < y ? -1 : 1;
+    }
+  }
+}
+
+/** ORDER BY: nulls sort as if larger than everything unless NULLS FIRST/LAST says otherwise */
+function compareForSort(a: unknown, b: unknown, type: string, desc: boolean, nullsFirst: boolean): number {
+  const aNull = a === null || a === undefined;
+  const bNull = b === null || b === undefined;
+  if (aNull || bNull) {
+    if (aNull && bNull) return 0;
+    return (aNull ? -1 : 1) * (nullsFirst ? 1 : -1);
+  }
+  const diff = compareTyped(a, b, type);
+  return desc ? -diff : diff;
+}
+
+/** Convert a value to a type the way ::type does, with Postgres's errors for bad input */
+function castValue(value: unknown, from: string, to: string): unknown {
+  if (value === null || value === undefined) return null;
+  const target = typeCategory(to);
+  if (target === 'text') {
+    const text = textOf(value, from);
+    const length = /^character varying\((\d+)\)$/.exec(to)?.[1];
+    return length ? text.slice(0, Number(length)) : text;
+  }
+  if (target === 'interval') return typeof value === 'number' ? value : intervalMs(String(value));
+  if (target === 'number' && typeof value === 'number' && /^(integer|bigint|smallint)$/.test(to)) return Math.round(value);
+  if (target === 'number' && typeof value === 'boolean') return Number(value);
+  if (target === 'json' && typeCategory(from) === 'json') return value;
+  const column: Column = { name: '', type: to, notNull: false };
+  if (target === 'time' && typeCategory(from) === 'time') return coerce(column, value);
+  return coerce(column, typeof value === 'string' ? value.trim() : value);
+}
+
+function textOf(value: unknown, type: string): string {
+  return typeof value === 'string' && typeCategory(type) !== 'time' && typeCategory(type) !== 'json'
+    ? value
+    : formatValue(value, type);
+}
+
+function likeRegExp(pattern: string, caseInsensitive: boolean): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '\\' && i + 1 < pattern.length) source += pattern[++i].replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    else if (char === '%') source += '[\\s\\S]*';
+    else if (char === '_') source += '[\\s\\S]';
+    else source += char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+  return new RegExp(`^${source}$`, caseInsensitive ? 'i' : '');
+}
+
+function truncateTime(field: string, value: string): string {
+  const date = new Date(Date.parse(value));
+  const units = ['year', 'month', 'day', 'hour', 'minute', 'second'];
+  const keep = field === 'week' ? units.indexOf('day') : units.indexOf(field);
+  if (keep === -1) throw new DatabaseError(`unit "${field}" not recognized for type timestamp with time zone`);
+  if (keep < 1) date.setUTCMonth(0);
+  if (keep < 2) date.setUTCDate(1);
+  if (keep < 3) date.setUTCHours(0);
+  if (keep < 4) date.setUTCMinutes(0);
+  if (keep < 5) date.setUTCSeconds(0);
+  date.setUTCMilliseconds(0);
+  if (field === 'week') date.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7));
+  return date.toISOString();
+}
+
+/** Floating-point noise out of numeric results, so 0.1 + 0.2 is 0.3 as Postgres's numeric has it */
+function tidy(n: number): number {
+  return Number.isInteger(n) ? n : Math.round(n * 1e10) / 1e10;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+// --- Expression trees ---
+
+function walk(expr: Expr, visit: (e: Expr) => void): void {
+  visit(expr);
+  for (const child of children(expr)) walk(child, visit);
+}
+
+function children(expr: Expr): Expr[] {
+  switch (expr.kind) {
+    case 'unary':
+    case 'isNull':
+    case 'cast': return [expr.operand];
+    case 'binary': return [expr.left, expr.right];
+    case 'in': return [expr.operand, ...expr.list];
+    case 'between': return [expr.operand, expr.low, expr.high];
+    case 'like': return [expr.operand, expr.pattern];
+    case 'call': return expr.args;
+    case 'case': return [
+      ...(expr.operand ? [expr.operand] : []),
+      ...expr.whens.flatMap(w => [w.when, w.then]),
+      ...(expr.otherwise ? [expr.otherwise] : []),
+    ];
+    default: return [];
+  }
+}
+
+function hasAggregate(expr: Expr): boolean {
+  let found = false;
+  walk(expr, e => {
+    if (e.kind === 'call' && AGGREGATES.has(e.name)) found = true;
+  });
+  return found;
+}
+
+function forbidAggregates(expr: Expr, clause: string): void {
+  walk(expr, e => {
+    if (e.kind === 'call' && AGGREGATES.has(e.name)) {
+      throw new DatabaseError(`aggregate functions are not allowed in ${clause}`, undefined, e.pos + 1);
+    }
+  });
+}
+
+/** The same expression regardless of where it was written, with columns resolved */
+function exprKey(expr: Expr, scope: Scope): string {
+  return JSON.stringify(expr, (key, value) => {
+    if (key === 'pos') return undefined;
+    if (value && typeof value === 'object' && value.kind === 'column') {
+      const { index, column } = scope.resolve(value);
+      return `${index}.${column.name}`;
+    }
+    return value;
+  });
+}
+
+/**
+ * A column a grouped query reads outside any aggregate and group key.
+ * Grouping by a table's primary key covers its other columns, since
+ * they can only have one value per group.
+ */
+function findUngrouped(expr: Expr, keys: string[], scope: Scope): Extract<Expr, { kind: 'column' }> | null {
+  if (keys.includes(exprKey(expr, scope))) return null;
+  if (expr.kind === 'call' && AGGREGATES.has(expr.name)) return null;
+  if (expr.kind === 'column') {
+    const { index } = scope.resolve(expr);
+    const { primaryKey, name } = scope.sources[index];
+    const covered = primaryKey.length > 0 && primaryKey.every(c => keys.includes(exprKey({ kind: 'column', table: name, name: c, pos: 0 }, scope)));
+    return covered ? null : expr;
+  }
+  for (const child of children(expr)) {
+    const found = findUngrouped(child, keys, scope);
+    if (found) return found;
+  }
+  return null;
+}
+
+function conjuncts(expr: Expr | null): Expr[] {
+  if (!expr) return [];
+  if (expr.kind === 'binary' && expr.op === 'AND') return [...conjuncts(expr.left), ...conjuncts(expr.right)];
+  return [expr];
+}
+
+function andAll(exprs: Expr[]): Expr {
+  return exprs.reduce((left, right) => ({ kind: 'binary', op: 'AND', left, right, pos: left.pos }));
+}
+
+/** The column of source i a condition compares with a constant, which an index on it could look up */
+function indexedColumn(condition: Expr, scope: Scope, i: number): { name: string; equality: boolean } | null {
+  const constant = (e: Expr) => scope.sourcesOf(e).size === 0 && !hasAggregate(e);
+  const own = (e: Expr) => (e.kind === 'column' && scope.resolve(e).index === i ? e.name : null);
+  if (condition.kind === 'binary' && COMPARISONS.has(condition.op) && condition.op !== '<>') {
+    const name = own(condition.left) && constant(condition.right) ? own(condition.left) : own(condition.right) && constant(condition.left) ? own(condition.right) : null;
+    return name ? { name, equality: condition.op === '=' } : null;
+  }
+  if ((condition.kind === 'in' || condition.kind === 'between') && !condition.negated) {
+    const name = own(condition.operand);
+    const bounds = condition.kind === 'in' ? condition.list : [condition.low, condition.high];
+    return name && bounds.every(constant) ? { name, equality: condition.kind === 'in' } : null;
+  }
+  return null;
+}
+
+/** An expression as EXPLAIN prints it: fully parenthesised, with literals cast to their types */
+function deparse(expr: Expr, scope: Scope, qualify: boolean, context?: string): string {
+  const show = (e: Expr, ctx?: string) => deparse(e, scope, qualify, ctx);
+  const siblingType = (e: Expr) => {
+    const type = typeOf(e, scope);
+    return typeCategory(type) === 'text' ? 'text' : type;
+  };
+  const operand = (e: Expr, other: Expr) => {
+    const text = show(e, siblingType(other));
+    // Postgres compares varchar columns as text, and says so
+    return e.kind === 'column' && /^character varying/.test(typeOf(e, scope)) && siblingType(other) === 'text' ? `(${text})::text` : text;
+  };
+
+  switch (expr.kind) {
+    case 'literal':
+      if (expr.value === null) return 'NULL';
+      if (typeof expr.value === 'string') return `'${expr.value.replace(/'/g, "''")}'::${context && context !== 'unknown' ? typeLabel(context) : 'text'}`;
+      return String(expr.value);
+    case 'column': {
+      const { index } = scope.resolve(expr);
+      return qualify ? `${scope.sources[index].name}.${expr.name}` : expr.name;
+    }
+    case 'default': return 'DEFAULT';
+    case 'interval': return `'${expr.text}'::interval`;
+    case 'unary': return expr.op === 'NOT' ? `(NOT ${show(expr.operand)})` : `(- ${show(expr.operand)})`;
+    case 'isNull': return `(${show(expr.operand)} IS ${expr.negated ? 'NOT ' : ''}NULL)`;
+    case 'in': {
+      const values = expr.list.map(e => (e.kind === 'literal' ? String(e.value) : show(e)));
+      const type = siblingType(expr.operand);
+      return `(${operand(expr.operand, expr.list[0])} ${expr.negated ? '<> ALL' : '= ANY'} ('{${values.join(',')}}'::${typeLabel(type)}[]))`;
+    }
+    case 'between':
+      return `((${operand(expr.operand, expr.low)} >= ${show(expr.low, siblingType(expr.operand))}) AND (${operand(expr.operand, expr.high)} <= ${show(expr.high, siblingType(expr.operand))}))`;
+    case 'like': {
+      const op = `${expr.negated ? '!' : ''}~~${expr.caseInsensitive ? '*' : ''}`;
+      return `(${operand(expr.operand, expr.pattern)} ${op} ${show(expr.pattern, 'text')})`;
+    }
+    case 'cast': return `(${show(expr.operand)})::${expr.type}`;
+    case 'call': return `${expr.name}(${expr.star ? '*' : `${expr.distinct ? 'DISTINCT ' : ''}${expr.args.map(a => show(a)).join(', ')}`})`;
+    case 'case': {
+      const whens = expr.whens.map(w => `WHEN ${show(w.when)} THEN ${show(w.then)}`).join(' ');
+      return `CASE${expr.operand ? ` ${show(expr.operand)}` : ''} ${whens}${expr.otherwise ? ` ELSE ${show(expr.otherwise)}` : ''} END`;
+    }
+    case 'binary': {
+      if (expr.op === 'AND' || expr.op === 'OR') {
+        return `(${[expr.left, expr.right].map(e => show(e)).join(` ${expr.op} `)})`;
+      }
+      const left = operand(expr.left, expr.right);
+      const right = expr.right.kind === 'literal' && typeof expr.right.value === 'string'
+        ? show(expr.right, siblingType(expr.left))
+        : operand(expr.right, expr.left);
+      return `(${left} ${expr.op} ${right})`;
+    }
+  }
+}
+
+function relationLabel(source: Source): string {
+  return source.name === source.table.name ? source.table.name : `${source.table.name} ${source.name}`;
+}
+
+/** Postgres's estimate of a row's width in bytes */
+function rowWidth(columns: { type: string }[]): number {
+  return columns.reduce((total, { type }) => {
+    const varchar = /^character varying\((\d+)\)$/.exec(type)?.[1];
+    if (varchar) return total + Math.min(Number(varchar) + 1, 32);
+    const widths: Record<string, number> = {
+      'integer': 4, 'bigint': 8, 'smallint': 2, 'boolean': 1, 'uuid': 16, 'date': 4, 'real': 4, 'double precision': 8,
+      'timestamp with time zone': 8, 'timestamp without time zone': 8, 'interval': 16,
+    };
+    return total + (widths[type] ?? (type.startsWith('numeric') ? 8 : 32));
+  }, 0);
+}
+
+function node(label: string, startup: number, total: number, rows: number, width: number, details: string[] = [], children: PlanNode[] = []): PlanNode {
+  return { label, startup, total: Math.max(total, startup), rows, width, details, measured: [], children };
+}
+
+function countNodes(plan: PlanNode): number {
+  return 1 + plan.children.reduce((n, child) => n + countNodes(child), 0);
+}
+
+/** Made-up but consistent timings for EXPLAIN ANALYZE: a little per row, and parents finish after their children */
+function measure(plan: PlanNode): [number, number] {
+  const spans = plan.children.map(measure);
+  const childEnd = Math.max(0, ...spans.map(([, end]) => end));
+  const blocking = /^(Sort|Hash|HashAggregate|Aggregate)$/.test(plan.label);
+  const end = childEnd + 0.003 + plan.rows * 0.001;
+  const start = blocking ? end - 0.001 : (spans[0]?.[0] ?? 0) + 0.004;
+  return [start, end];
+}
+
+function renderPlan(plan: PlanNode, analyze: boolean, indent: number, arrow: boolean, lines: string[]): void {
+  const cost = `(cost=${plan.startup.toFixed(2)}..${plan.total.toFixed(2)} rows=${plan.rows} width=${plan.width})`;
+  let text = `${arrow ? `${' '.repeat(indent)}->  ` : ''}${plan.label}  ${cost}`;
+  if (analyze) {
+    const [start, end] = measure(plan);
+    text += ` (actual time=${start.toFixed(3)}..${end.toFixed(3)} rows=${plan.rows} loops=${plan.loops ?? 1})`;
+  }
+  lines.push(text);
+  const column = arrow ? indent + 4 : indent;
+  for (const detail of [...plan.details, ...(analyze ? plan.measured : [])]) lines.push(`${' '.repeat(column + 2)}${detail}`);
+  for (const child of plan.children) renderPlan(child, analyze, column + 2, true, lines);
+}
+
+// --- Output ---
+
+/** A value as psql prints it: t/f for booleans, Postgres's timestamp format, jsonb's spacing */
+export function formatValue(value: unknown, type: string): string {
+  if (typeof value === 'boolean') return value ? 't' : 'f';
+  if (type === 'interval') return formatInterval(Number(value));
+  if (typeof value === 'number') {
+    const scale = /^numeric\(\d+,(\d+)\)$/.exec(type)?.[1];
+    return scale !== undefined ? value.toFixed(Number(scale)) : String(value);
+  }
+  const category = typeCategory(type);
+  if (category === 'time' && typeof value === 'string') {
+    if (type === 'date') return value.slice(0, 10);
+    const [date, time = '00:00:00.000Z'] = value.split('T');
+    const fraction = time.slice(9, 12).replace(/0+$/, '');
+    return `${date} ${time.slice(0, 8)}${fraction ? `.${fraction}` : ''}${type === 'timestamp with time zone' ? '+00' : ''}`;
+  }
+  if (category === 'json' || typeof value === 'object') return type === 'json' ? JSON.stringify(value) : jsonbText(value);
+  return String(value);
+}
+
+/** jsonb's canonical text: ", " and ": " separators, and keys ordered shortest first */
+function jsonbText(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(jsonbText).join(', ')}]`;
+  if (isObject(value)) {
+    const keys = Object.keys(value).sort((a, b) => a.length - b.length || (a < b ? -1 : a > b ? 1 : 0));
+    return `{${keys.map(key => `${JSON.stringify(key)}: ${jsonbText(value[key])}`).join(', ')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function formatInterval(ms: number): string {
+  const sign = ms < 0 ? '-' : '';
+  let rest = Math.abs(ms);
+  const days = Math.floor(rest / 86_400_000);
+  rest -= days * 86_400_000;
+  const pad = (n: number) => String(Math.floor(n)).padStart(2, '0');
+  const clock = `${pad(rest / 3_600_000)}:${pad((rest % 3_600_000) / 60_000)}:${pad((rest % 60_000) / 1000)}`;
+  if (days === 0) return `${sign}${clock}`;
+  const dayText = `${sign}${days} day${days === 1 ? '' : 's'}`;
+  return rest === 0 ? dayText : `${dayText} ${sign}${clock}`;
+}
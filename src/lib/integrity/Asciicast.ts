@@ -0,0 +1,161 @@
+import type { SessionEvent } from './KeystrokeRecorder';
+import type { OutputChunk } from './SessionReplay';
+import { ChallengePack, EMPTY_PACK, getObjectiveTitle } from '../challenges/ChallengePack';
+
+/** First line of an asciicast v2 file */
+export interface AsciicastHeader {
+  version: 2;
+  width: number;
+  height: number;
+  /** Unix time (seconds) the recording started */
+  timestamp?: number;
+  title?: string;
+  env?: Record<string, string>;
+}
+
+/** Output, input, resize or marker */
+export type AsciicastEventCode = 'o' | 'i' | 'r' | 'm';
+
+/** Seconds since the start, event code, data */
+export type AsciicastEvent = [number, AsciicastEventCode, string];
+
+export class AsciicastError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AsciicastError';
+  }
+}
+
+const DEFAULT_WIDTH = 80;
+const DEFAULT_HEIGHT = 24;
+const EVENT_CODES = new Set<string>(['o', 'i', 'r', 'm']);
+
+/**
+ * Write a session as asciicast v2 (https://docs.asciinema.org/manual/asciicast/v2/).
+ * `events` must be in the order the replay played them, and `output` the
+ * chunks that replay produced. Objectives and level advances become markers,
+ * titled from the session's challenge pack.
+ */
+export function toAsciicast(events: SessionEvent[], output: OutputChunk[], title?: string, pack: ChallengePack = EMPTY_PACK): string {
+  const baseTime = events[0]?.timestamp ?? 0;
+  const firstResize = events.find(e => e.type === 'resize');
+  const header: AsciicastHeader = {
+    version: 2,
+    width: firstResize?.cols ?? DEFAULT_WIDTH,
+    height: firstResize?.rows ?? DEFAULT_HEIGHT,
+    timestamp: Math.floor(baseTime / 1000),
+    ...(title ? { title } : {}),
+    env: { SHELL: '/bin/bash', TERM: 'xterm-256color' },
+  };
+
+  const outputByIndex = new Map(output.map(chunk => [chunk.index, chunk.data]));
+  const at = (timestamp: number) => Math.round(timestamp - baseTime) / 1000;
+  const lines = [JSON.stringify(header)];
+  const push = (timestamp: number, code: AsciicastEventCode, data: string) => {
+    lines.push(JSON.stringify([at(timestamp), code, data] satisfies AsciicastEvent));
+  };
+
+  // Boot output comes before any event
+  const boot = outputByIndex.get(-1);
+  if (boot) push(baseTime, 'o', boot);
+
+  events.forEach((event, index) => {
+    if (event.type === 'resize' && event !== firstResize) {
+      push(event.timestamp, 'r', `${event.cols}x${event.rows}`);
+    }
+    const data = outputByIndex.get(index);
+    if (data) push(event.timestamp, 'o', data);
+    if (event.type === 'objective_complete') {
+      push(event.timestamp, 'm', `Objective complete: ${getObjectiveTitle(pack, event.objectiveId) ?? event.objectiveId}`);
+    }
+    if (event.type === 'level_advance') {
+      const levelTitle = pack.levels[event.level]?.title;
+      push(event.timestamp, 'm', levelTitle ? `Level ${event.level}: ${levelTitle}` : `Level ${event.level}`);
+    }
+  });
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Read an asciicast v2 file as session events the replay can play: output,
+ * resizes, and any markers written by toAsciicast. Input events are dropped;
+ * whatever was typed is already in the output.
+ */
+export function parseAsciicast(text: string): { header: AsciicastHeader; events: SessionEvent[] } {
+  const lines = text.split('\n').map(line => line.trim());
+  const headerIndex = lines.findIndex(line => line !== '');
+  if (headerIndex === -1) {
+    throw new AsciicastError('File is empty');
+  }
+
+  const header = parseLine(lines[headerIndex], headerIndex) as AsciicastHeader;
+  if (!header || typeof header !== 'object' || Array.isArray(header)) {
+    throw new AsciicastError('First line must be an asciicast header');
+  }
+  if (header.version !== 2) {
+    throw new AsciicastError(`Unsupported asciicast version: ${header.version}`);
+  }
+  if (!isDimension(header.width) || !isDimension(header.height)) {
+    throw new AsciicastError('Header must include a positive width and height');
+  }
+
+  const baseTime = (header.timestamp ?? 0) * 1000;
+  const events: SessionEvent[] = [{ type: 'resize', cols: header.width, rows: header.height, timestamp: baseTime }];
+
+  for (let i = headerIndex + 1; i < lines.length; i++) {
+    if (lines[i] === '') continue;
+    const entry = parseLine(lines[i], i);
+    if (!Array.isArray(entry) || entry.length < 3 || typeof entry[0] !== 'number' || entry[0] < 0
+      || !EVENT_CODES.has(entry[1]) || typeof entry[2] !== 'string') {
+      throw new AsciicastError(`Line ${i + 1}: expected [time, code, data]`);
+    }
+    const [time, code, data] = entry as AsciicastEvent;
+    const timestamp = baseTime + Math.round(time * 1000);
+
+    switch (code) {
+      case 'o':
+        events.push({ type: 'output', content: data, timestamp });
+        break;
+      case 'r': {
+        const size = /^(\d+)x(\d+)$/.exec(data);
+        if (!size) throw new AsciicastError(`Line ${i + 1}: bad resize "${data}"`);
+        events.push({ type: 'resize', cols: Number(size[1]), rows: Number(size[2]), timestamp });
+        break;
+      }
+      case 'm': {
+        const marker = markerEvent(data, timestamp);
+        if (marker) events.push(marker);
+        break;
+      }
+    }
+  }
+
+  return { header, events };
+}
+
+function parseLine(line: string, index: number): unknown {
+  try {
+    return JSON.parse(line);
+  } catch {
+    throw new AsciicastError(`Line ${index + 1} is not valid JSON`);
+  }
+}
+
+function isDimension(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0;
+}
+
+/** Turn a marker label from toAsciicast back into the event it came from */
+function markerEvent(label: string, timestamp: number): SessionEvent | null {
+  const level = /^Level (\d+)\b/.exec(label);
+  if (level) {
+    return { type: 'level_advance', level: Number(level[1]), timestamp };
+  }
+  const objective = /^Objective complete: (.+)$/.exec(label);
+  if (objective) {
+    // The file doesn't say which pack it came from, so the title stands in for the id
+    return { type: 'objective_complete', objectiveId: objective[1], timestamp };
+  }
+  return null;
+}
@@ -1,4 +1,4 @@
-import { SessionEvent } from './KeystrokeRecorder';
+import { SessionEvent, isCandidateEvent } from './KeystrokeRecorder';
 import { PatternAnalyzer, TypingPattern } from './PatternAnalyzer';
 import { PasteDetector } from './PasteDetector';
 
@@ -9,7 +9,10 @@ export interface IntegrityFlag {
   type: string;
   description: string;
   deduction: number;
+  /** When the behaviour was first seen */
   timestamp?: number;
+  /** Every time it was seen, for jump-to links in the review page */
+  occurrences?: number[];
 }
 
 export interface IntegrityReport {
@@ -25,6 +28,16 @@ export interface IntegrityReport {
   sessionDuration: number;
 }
 
+/** What each flag means, for reviewers who weren't watching; keyed by flag type */
+export const FLAG_EXPLANATIONS: Record<string, string> = {
+  excessive_paste: 'More than five pastes. Pasting a config line is normal; pasting whole solutions suggests work prepared elsewhere.',
+  moderate_paste: 'Three to five pastes. Usually harmless, but worth checking what was pasted in the replay.',
+  speed_anomaly: 'Stretches of typing above 200 words per minute, faster than people type for long; often input that bypassed paste detection.',
+  perfect_code: 'Long stretches of code typed with almost no corrections, which is unusual when writing from scratch.',
+  idle_burst: 'Long pauses followed by fast bursts of typing, consistent with copying from another screen.',
+  frequent_tab_away: 'The candidate left the interview tab more than ten times, e.g. to read documentation or use another tool.',
+};
+
 const SEVERITY_DEDUCTIONS: Record<FlagSeverity, number> = {
   high: 30,
   medium: 15,
@@ -40,6 +53,8 @@ export class IntegrityScorer {
 
   generateReport(events: SessionEvent[], pasteDetector: PasteDetector): IntegrityReport {
     const patterns = this.analyzer.analyze(events);
+    const { occurrences } = patterns;
+    const pasteTimes = events.filter(e => e.type === 'paste' && isCandidateEvent(e)).map(e => e.timestamp);
     const flags: IntegrityFlag[] = [];
     let score = 100;
 
@@ -53,6 +68,7 @@ export class IntegrityScorer {
         type: 'excessive_paste',
         description: `${pasteCount} paste events detected (${pastedChars} total characters)`,
         deduction: SEVERITY_DEDUCTIONS.high,
+        ...atTimes(pasteTimes),
       };
       flags.push(flag);
       score -= flag.deduction;
@@ -62,6 +78,7 @@ export class IntegrityScorer {
         type: 'moderate_paste',
         description: `${pasteCount} paste events detected`,
         deduction: SEVERITY_DEDUCTIONS.medium,
+        ...atTimes(pasteTimes),
       };
       flags.push(flag);
       score -= flag.deduction;
@@ -74,6 +91,7 @@ export class IntegrityScorer {
         type: 'speed_anomaly',
         description: `${patterns.sustainedHighSpeedSegments} segments with sustained >200 WPM typing speed`,
         deduction: SEVERITY_DEDUCTIONS.medium,
+        ...atTimes(occurrences.sustainedHighSpeed),
       };
       flags.push(flag);
       score -= flag.deduction;
@@ -86,6 +104,7 @@ export class IntegrityScorer {
         type: 'perfect_code',
         description: `${patterns.perfectCodeSegments} code segments with near-zero backspace ratio (>100 chars)`,
         deduction: SEVERITY_DEDUCTIONS.medium,
+        ...atTimes(occurrences.perfectCode),
       };
       flags.push(flag);
       score -= flag.deduction;
@@ -98,6 +117,7 @@ export class IntegrityScorer {
         type: 'idle_burst',
         description: `${patterns.idleBurstCount} idle-then-burst typing patterns detected`,
         deduction: SEVERITY_DEDUCTIONS.low,
+        ...atTimes(occurrences.idleBurst),
       };
       flags.push(flag);
       score -= flag.deduction;
@@ -110,13 +130,14 @@ export class IntegrityScorer {
         type: 'frequent_tab_away',
         description: `Tab away detected ${patterns.tabAwayCount} times`,
         deduction: SEVERITY_DEDUCTIONS.low,
+        ...atTimes(occurrences.tabAway),
       };
       flags.push(flag);
       score -= flag.deduction;
     }
 
     // Calculate session duration
-    const keyEvents = events.filter(e => e.type === 'key');
+    const keyEvents = events.filter(e => e.type === 'key' && isCandidateEvent(e));
     const sessionDuration = keyEvents.length >= 2
       ? (keyEvents[keyEvents.length - 1].timestamp - keyEvents[0].timestamp) / 1000
       : 0;
@@ -140,6 +161,10 @@ export class IntegrityScorer {
   }
 }
 
+function atTimes(timestamps: number[]): Pick<IntegrityFlag, 'timestamp' | 'occurrences'> {
+  return timestamps.length > 0 ? { timestamp: timestamps[0], occurrences: timestamps } : {};
+}
+
 function generateSummary(score: number, flags: IntegrityFlag[]): string {
   if (score >= 90) return 'Clean session - no significant integrity concerns.';
   if (score >= 70) return `Minor concerns detected: ${flags.map(f => f.type).join(', ')}. Review recommended.`;
@@ -1,3 +1,6 @@
+import type { FileChange } from '../terminal/VirtualFileSystem';
+import type { Participant } from '../terminal/TerminalEngine';
+
 export interface KeyMeta {
   shift: boolean;
   ctrl: boolean;
@@ -6,30 +9,107 @@ export interface KeyMeta {
 }
 
 export type SessionEvent =
-  | { type: 'key'; key: string; timestamp: number; meta: KeyMeta }
-  | { type: 'paste'; content: string; timestamp: number; detectedBy: 'clipboard_api' | 'burst' | 'both' }
-  | { type: 'output'; content: string; timestamp: number }
-  | { type: 'command'; raw: string; timestamp: number; exitCode: number }
+  | { type: 'key'; key: string; timestamp: number; meta: KeyMeta; participant?: Participant }
+  | { type: 'paste'; content: string; timestamp: number; detectedBy: 'clipboard_api' | 'burst' | 'both'; participant?: Participant }
+  | { type: 'output'; content: string; timestamp: number; stream?: 'stdout' | 'stderr' }
+  | { type: 'command'; raw: string; timestamp: number; exitCode: number; participant?: Participant }
+  /** Raw terminal input as the engine received it; replays re-run the session from these */
+  | { type: 'input'; data: string; timestamp: number; participant?: Participant }
   | { type: 'objective_complete'; objectiveId: string; timestamp: number }
   | { type: 'level_advance'; level: number; timestamp: number }
-  | { type: 'hint_used'; hintId: string; timestamp: number }
+  | { type: 'hint_used'; hintId: string; timestamp: number; from?: 'interviewer'; text?: string }
   | { type: 'focus_change'; focused: boolean; timestamp: number }
-  | { type: 'resize'; cols: number; rows: number; timestamp: number };
+  | { type: 'resize'; cols: number; rows: number; timestamp: number }
+  | { type: 'fs_changes'; changes: FileChange[]; timestamp: number }
+  | { type: 'chat'; from: 'interviewer' | 'candidate'; text: string; timestamp: number }
+  | { type: 'time_extended'; minutes: number; timestamp: number }
+  | { type: 'pause'; paused: boolean; timestamp: number }
+  | { type: 'driver_change'; driver: Participant; timestamp: number };
+
+type FieldCheck = (value: unknown) => boolean;
+
+const isString: FieldCheck = value => typeof value === 'string';
+const isBoolean: FieldCheck = value => typeof value === 'boolean';
+const isInteger: FieldCheck = value => Number.isInteger(value);
+const isPositiveInteger: FieldCheck = value => Number.isInteger(value) && (value as number) > 0;
+const oneOf = (...allowed: unknown[]): FieldCheck => value => allowed.includes(value);
+const optional = (check: FieldCheck): FieldCheck => value => value === undefined || check(value);
+const isParticipant = oneOf('candidate', 'interviewer');
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+const isKeyMeta: FieldCheck = value =>
+  isRecord(value) && (['shift', 'ctrl', 'alt', 'meta'] as const).every(key => typeof value[key] === 'boolean');
+
+const isFileChange: FieldCheck = value =>
+  isRecord(value) &&
+  typeof value.path === 'string' &&
+  oneOf('added', 'modified', 'deleted')(value.status) &&
+  oneOf('file', 'directory', 'symlink')(value.type) &&
+  optional(isString)(value.diff) &&
+  optional(list => Array.isArray(list) && list.every(isString))(value.metadata);
+
+/** The fields each event type carries besides `type` and `timestamp` */
+const EVENT_FIELDS: { [T in SessionEvent['type']]: Record<string, FieldCheck> } = {
+  key: { key: isString, meta: isKeyMeta, participant: optional(isParticipant) },
+  paste: { content: isString, detectedBy: oneOf('clipboard_api', 'burst', 'both'), participant: optional(isParticipant) },
+  output: { content: isString, stream: optional(oneOf('stdout', 'stderr')) },
+  command: { raw: isString, exitCode: isInteger, participant: optional(isParticipant) },
+  input: { data: isString, participant: optional(isParticipant) },
+  objective_complete: { objectiveId: isString },
+  level_advance: { level: isPositiveInteger },
+  hint_used: { hintId: isString, from: optional(oneOf('interviewer')), text: optional(isString) },
+  focus_change: { focused: isBoolean },
+  resize: { cols: isPositiveInteger, rows: isPositiveInteger },
+  fs_changes: { changes: value => Array.isArray(value) && value.every(isFileChange) },
+  chat: { from: isParticipant, text: isString },
+  time_extended: { minutes: isPositiveInteger },
+  pause: { paused: isBoolean },
+  driver_change: { driver: isParticipant },
+};
+
+/** What's wrong with a value claiming to be a SessionEvent, or null if it is one */
+export function sessionEventProblem(value: unknown): string | null {
+  if (!isRecord(value)) return 'must be an object';
+  const type = value.type;
+  if (typeof type !== 'string' || !Object.hasOwn(EVENT_FIELDS, type)) {
+    return `type must be one of ${Object.keys(EVENT_FIELDS).join(', ')}`;
+  }
+  if (typeof value.timestamp !== 'number' || !Number.isFinite(value.timestamp)) return 'timestamp must be a number';
+  for (const [field, check] of Object.entries(EVENT_FIELDS[type as SessionEvent['type']])) {
+    if (!check(value[field])) return `${type}.${field} is missing or invalid`;
+  }
+  return null;
+}
+
+export function isSessionEvent(value: unknown): value is SessionEvent {
+  return sessionEventProblem(value) === null;
+}
+
+/** Input typed by an interviewer driving the terminal isn't the candidate's, so integrity scoring skips it */
+export function isCandidateEvent(event: SessionEvent): boolean {
+  return !('participant' in event) || event.participant !== 'interviewer';
+}
 
 export class KeystrokeRecorder {
   private events: SessionEvent[] = [];
   private onFlush?: (events: SessionEvent[]) => void;
   private flushInterval: ReturnType<typeof setInterval> | null = null;
   private burstDetector: BurstDetector;
+  private flushIntervalMs: number;
+  /** The last command, until its exit status arrives; flushes wait for it so the status isn't lost */
+  private running: Extract<SessionEvent, { type: 'command' }> | null = null;
 
-  constructor(onFlush?: (events: SessionEvent[]) => void) {
+  constructor(onFlush?: (events: SessionEvent[]) => void, flushIntervalMs: number = 5000) {
     this.onFlush = onFlush;
+    this.flushIntervalMs = flushIntervalMs;
     this.burstDetector = new BurstDetector();
   }
 
   start(): void {
-    // Flush every 5 seconds
-    this.flushInterval = setInterval(() => this.flush(), 5000);
+    this.flushInterval = setInterval(() => this.flush(), this.flushIntervalMs);
   }
 
   stop(): void {
@@ -37,18 +117,23 @@ export class KeystrokeRecorder {
       clearInterval(this.flushInterval);
       this.flushInterval = null;
     }
+    this.running = null;
     this.flush();
   }
 
-  recordKey(key: string, meta: KeyMeta): void {
+  recordKey(key: string, meta: KeyMeta, participant: Participant = 'candidate'): void {
     const event: SessionEvent = {
       type: 'key',
       key,
       timestamp: Date.now(),
       meta,
+      participant,
     };
     this.events.push(event);
 
+    // Relayed interviewer input arrives in batches that would look like bursts
+    if (participant !== 'candidate') return;
+
     // Check for burst (potential paste)
     const burstResult = this.burstDetector.addKeystroke(event.timestamp);
     if (burstResult) {
@@ -61,30 +146,51 @@ export class KeystrokeRecorder {
     }
   }
 
-  recordPaste(content: string): void {
+  recordPaste(content: string, participant: Participant = 'candidate'): void {
     const hasBurst = this.burstDetector.isInBurst();
     this.events.push({
       type: 'paste',
       content,
       timestamp: Date.now(),
       detectedBy: hasBurst ? 'both' : 'clipboard_api',
+      participant,
     });
   }
 
-  recordCommand(raw: string, exitCode: number): void {
+  recordInput(data: string, participant: Participant = 'candidate'): void {
     this.events.push({
+      type: 'input',
+      data,
+      timestamp: Date.now(),
+      participant,
+    });
+  }
+
+  recordCommand(raw: string, exitCode: number, participant: Participant = 'candidate'): void {
+    const event: SessionEvent = {
       type: 'command',
       raw,
       timestamp: Date.now(),
       exitCode,
-    });
+      participant,
+    };
+    this.events.push(event);
+    this.running = event;
+  }
+
+  /** Commands are recorded as they start; their exit status arrives later with the output */
+  recordExitCode(exitCode: number): void {
+    if (!this.running) return;
+    this.running.exitCode = exitCode;
+    this.running = null;
   }
 
-  recordOutput(content: string): void {
+  recordOutput(content: string, stream: 'stdout' | 'stderr' = 'stdout'): void {
     this.events.push({
       type: 'output',
       content,
       timestamp: Date.now(),
+      stream,
     });
   }
 
@@ -129,14 +235,25 @@ export class KeystrokeRecorder {
     });
   }
 
+  /** Filesystem changes since the session started, replacing any earlier snapshot */
+  recordFileChanges(changes: FileChange[]): void {
+    this.events.push({
+      type: 'fs_changes',
+      changes,
+      timestamp: Date.now(),
+    });
+  }
+
   getEvents(): SessionEvent[] {
     return [...this.events];
   }
 
   flush(): void {
-    if (this.events.length === 0) return;
-    const batch = [...this.events];
-    this.events = [];
+    // A command still running is sent, with whatever followed it, once it has finished
+    const held = this.running ? this.events.indexOf(this.running) : -1;
+    const batch = held === -1 ? this.events : this.events.slice(0, held);
+    this.events = held === -1 ? [] : this.events.slice(held);
+    if (batch.length === 0) return;
     this.onFlush?.(batch);
   }
 }
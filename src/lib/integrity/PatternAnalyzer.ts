@@ -1,4 +1,4 @@
-import { SessionEvent } from './KeystrokeRecorder';
+import { SessionEvent, isCandidateEvent } from './KeystrokeRecorder';
 
 export interface TypingPattern {
   averageWPM: number;
@@ -8,21 +8,40 @@ export interface TypingPattern {
   tabAwayCount: number;
   sustainedHighSpeedSegments: number;
   perfectCodeSegments: number;
+  /** When each anomaly began, so reviewers can jump to it in the replay */
+  occurrences: AnomalyOccurrences;
+}
+
+export interface AnomalyOccurrences {
+  idleBurst: number[];
+  tabAway: number[];
+  sustainedHighSpeed: number[];
+  perfectCode: number[];
 }
 
 export class PatternAnalyzer {
-  analyze(events: SessionEvent[]): TypingPattern {
+  analyze(allEvents: SessionEvent[]): TypingPattern {
+    // Only the candidate's own typing says anything about their integrity
+    const events = allEvents.filter(isCandidateEvent);
     const keyEvents = events.filter(e => e.type === 'key') as Array<SessionEvent & { type: 'key' }>;
     const focusEvents = events.filter(e => e.type === 'focus_change') as Array<SessionEvent & { type: 'focus_change' }>;
 
+    const occurrences: AnomalyOccurrences = {
+      idleBurst: this.detectIdleBursts(keyEvents),
+      tabAway: focusEvents.filter(e => !e.focused).map(e => e.timestamp),
+      sustainedHighSpeed: this.detectSustainedHighSpeed(keyEvents),
+      perfectCode: this.detectPerfectCode(keyEvents),
+    };
+
     return {
       averageWPM: this.calculateAverageWPM(keyEvents),
       maxWPM: this.calculateMaxWPM(keyEvents),
       backspaceRatio: this.calculateBackspaceRatio(keyEvents),
-      idleBurstCount: this.detectIdleBursts(keyEvents),
-      tabAwayCount: focusEvents.filter(e => !e.focused).length,
-      sustainedHighSpeedSegments: this.detectSustainedHighSpeed(keyEvents),
-      perfectCodeSegments: this.detectPerfectCode(keyEvents),
+      idleBurstCount: occurrences.idleBurst.length,
+      tabAwayCount: occurrences.tabAway.length,
+      sustainedHighSpeedSegments: occurrences.sustainedHighSpeed.length,
+      perfectCodeSegments: occurrences.perfectCode.length,
+      occurrences,
     };
   }
 
@@ -63,8 +82,8 @@ export class PatternAnalyzer {
     return backspaceCount / keyEvents.length;
   }
 
-  private detectIdleBursts(keyEvents: Array<SessionEvent & { type: 'key' }>): number {
-    let count = 0;
+  private detectIdleBursts(keyEvents: Array<SessionEvent & { type: 'key' }>): number[] {
+    const starts: number[] = [];
     const IDLE_THRESHOLD = 10000; // 10 seconds of idle
     const BURST_THRESHOLD = 100; // followed by rapid typing (100ms gaps)
     const BURST_MIN_LENGTH = 20; // at least 20 chars
@@ -82,38 +101,38 @@ export class PatternAnalyzer {
           }
         }
         if (burstLen >= BURST_MIN_LENGTH) {
-          count++;
+          starts.push(keyEvents[i].timestamp);
         }
       }
     }
 
-    return count;
+    return starts;
   }
 
-  private detectSustainedHighSpeed(keyEvents: Array<SessionEvent & { type: 'key' }>): number {
+  private detectSustainedHighSpeed(keyEvents: Array<SessionEvent & { type: 'key' }>): number[] {
     const HIGH_SPEED_WPM = 200;
     const SUSTAINED_CHARS = 50;
-    let count = 0;
+    const starts: number[] = [];
 
     for (let i = 0; i < keyEvents.length - SUSTAINED_CHARS; i++) {
       const windowTime = (keyEvents[i + SUSTAINED_CHARS].timestamp - keyEvents[i].timestamp) / 1000 / 60;
       if (windowTime > 0) {
         const wpm = SUSTAINED_CHARS / 5 / windowTime;
         if (wpm > HIGH_SPEED_WPM) {
-          count++;
+          starts.push(keyEvents[i].timestamp);
           i += SUSTAINED_CHARS; // Skip ahead to avoid double-counting
         }
       }
     }
 
-    return count;
+    return starts;
   }
 
-  private detectPerfectCode(keyEvents: Array<SessionEvent & { type: 'key' }>): number {
+  private detectPerfectCode(keyEvents: Array<SessionEvent & { type: 'key' }>): number[] {
     // Detect segments of 100+ chars with near-zero backspace ratio
     const SEGMENT_SIZE = 100;
     const MAX_BACKSPACE_RATIO = 0.02; // less than 2% backspaces
-    let count = 0;
+    const starts: number[] = [];
 
     for (let i = 0; i < keyEvents.length - SEGMENT_SIZE; i += SEGMENT_SIZE) {
       const segment = keyEvents.slice(i, i + SEGMENT_SIZE);
@@ -122,10 +141,10 @@ export class PatternAnalyzer {
       ).length;
 
       if (backspaces / SEGMENT_SIZE < MAX_BACKSPACE_RATIO) {
-        count++;
+        starts.push(segment[0].timestamp);
       }
     }
 
-    return count;
+    return starts;
   }
 }
@@ -1,36 +1,184 @@
 import { SessionEvent } from './KeystrokeRecorder';
+import { TerminalEngine, TerminalEngineOptions } from '../terminal/TerminalEngine';
+import { FakeClock } from '../terminal/Clock';
+import type { FileChange } from '../terminal/VirtualFileSystem';
 
 export interface ReplayState {
   events: SessionEvent[];
+  /** How many events have been played; the screen shows the session just after the last of them */
   currentIndex: number;
   isPlaying: boolean;
   speed: number;
   startTime: number;
   elapsedTime: number;
+  /** False while the session is being re-run; nothing is drawn until then */
+  ready: boolean;
+  /** Null when idle gaps play out in real time (up to a couple of seconds) */
+  skipInactivity: InactivitySkip | null;
 }
 
+/** How idle stretches are compressed while playing */
+export interface InactivitySkip {
+  /** Gaps between events longer than this count as inactivity */
+  thresholdMs: number;
+  /** How long an inactive gap takes to play, before the speed multiplier */
+  skipToMs: number;
+}
+
+/** Where the replay draws; an xterm.js Terminal will do */
+export interface ReplayScreen {
+  reset(): void;
+  write(data: string): void;
+}
+
+/** How the candidate's terminal was set up, so re-running their input reproduces it */
+export interface ReplaySetup extends Pick<TerminalEngineOptions, 'seniority' | 'challenge' | 'pack' | 'filesystem' | 'seed'> {
+  cols?: number;
+  rows?: number;
+}
+
+/** The screen after some number of events: the transcript up to `offset`, drawn from `start` */
+interface Frame {
+  offset: number;
+  /** Where the last full-screen clear before `offset` begins; nothing before it is visible */
+  start: number;
+}
+
+/** Output the session wrote while playing one event (or, at index -1, on boot) */
+export interface OutputChunk {
+  index: number;
+  timestamp: number;
+  data: string;
+}
+
+/** Filesystem changes as of `index` events */
+interface Keyframe {
+  index: number;
+  changes: FileChange[];
+}
+
+/** Filesystem keyframes are taken this many events apart */
+const KEYFRAME_INTERVAL = 50;
+
+/** Long idle gaps are shortened to this while playing */
+const MAX_GAP_MS = 2000;
+
+/** Alternate screen on/off, or a full clear of the main screen */
+const SCREEN_CHANGE = /\x1b\[\?1049([hl])|\x1b\[2J\x1b\[H/g;
+
+/**
+ * Replays a recorded session by re-running the candidate's input through a
+ * fresh TerminalEngine, on a fake clock set to each event's timestamp so
+ * dates, mtimes and seeded random output come out as they did live. The
+ * output is kept as one transcript with a frame per event, so the screen at
+ * any point can be redrawn and seeking works in both directions.
+ *
+ * Sessions recorded before raw input was captured are re-run from their
+ * command events instead, which loses the typing but keeps the output.
+ * Recordings with neither, such as imported asciicasts, are played straight
+ * from their output events.
+ */
 export class SessionReplay {
-  private events: SessionEvent[] = [];
+  private events: SessionEvent[];
+  private screen: ReplayScreen;
+  private setup: ReplaySetup;
+  private transcript = '';
+  private frames: Frame[] = [];
+  private keyframes: Keyframe[] = [];
+  private ready = false;
+  /** Transcript offset of the last full-screen clear, and whether the alternate screen is up */
+  private visibleFrom = 0;
+  private altScreen = false;
   private currentIndex: number = 0;
   private isPlaying: boolean = false;
   private speed: number = 1;
+  private skipInactivity: InactivitySkip | null = null;
   private timer: ReturnType<typeof setTimeout> | null = null;
-  private onEvent?: (event: SessionEvent) => void;
   private onStateChange?: (state: ReplayState) => void;
 
   constructor(
     events: SessionEvent[],
-    onEvent?: (event: SessionEvent) => void,
+    screen: ReplayScreen,
+    setup: ReplaySetup = {},
     onStateChange?: (state: ReplayState) => void,
   ) {
-    this.events = events.sort((a, b) => a.timestamp - b.timestamp);
-    this.onEvent = onEvent;
+    this.events = [...events].sort((a, b) => a.timestamp - b.timestamp);
+    this.screen = screen;
+    this.setup = setup;
     this.onStateChange = onStateChange;
   }
 
+  /** Re-run the session; seeks made before this resolves are drawn once it does */
+  async prepare(): Promise<void> {
+    if (this.events.some(e => e.type === 'input' || e.type === 'command')) {
+      await this.rerunEngine();
+    } else {
+      this.playOutput();
+    }
+
+    this.ready = true;
+    this.draw();
+    this.notifyStateChange();
+  }
+
+  private async rerunEngine(): Promise<void> {
+    const clock = new FakeClock(this.events[0]?.timestamp ?? 0, this.setup.seed);
+    const engine = new TerminalEngine({
+      seniority: this.setup.seniority,
+      challenge: this.setup.challenge,
+      pack: this.setup.pack,
+      filesystem: this.setup.filesystem,
+      clock,
+    });
+    engine.setWriter(data => this.append(data));
+
+    // Same start-up sequence as TerminalView, at the size the candidate started with
+    const size = this.events.find(e => e.type === 'resize');
+    engine.resize(size?.cols ?? this.setup.cols ?? 80, size?.rows ?? this.setup.rows ?? 24);
+    if (this.setup.filesystem) engine.loadFileSystem(this.setup.filesystem);
+    engine.boot();
+    await engine.ready();
+
+    this.pushFrame();
+    this.keyframes.push({ index: 0, changes: engine.getChangeset() ?? [] });
+
+    const fromInput = this.events.some(e => e.type === 'input');
+    for (let i = 0; i < this.events.length; i++) {
+      const event = this.events[i];
+      clock.set(event.timestamp);
+      await rerun(engine, event, fromInput);
+      this.pushFrame();
+      if ((i + 1) % KEYFRAME_INTERVAL === 0 || i === this.events.length - 1) {
+        this.keyframes.push({ index: i + 1, changes: engine.getChangeset() ?? [] });
+      }
+    }
+  }
+
+  /** Build the transcript from recorded output alone; there is no filesystem to track */
+  private playOutput(): void {
+    this.pushFrame();
+    for (const event of this.events) {
+      if (event.type === 'output') this.append(event.content);
+      this.pushFrame();
+    }
+  }
+
+  private append(data: string): void {
+    for (const match of data.matchAll(SCREEN_CHANGE)) {
+      if (match[1]) this.altScreen = match[1] === 'h';
+      else if (!this.altScreen) this.visibleFrom = this.transcript.length + match.index;
+    }
+    this.transcript += data;
+  }
+
+  private pushFrame(): void {
+    this.frames.push({ offset: this.transcript.length, start: this.visibleFrom });
+  }
+
   play(): void {
+    if (!this.ready) return;
     if (this.currentIndex >= this.events.length) {
-      this.currentIndex = 0;
+      this.seekTo(0);
     }
     this.isPlaying = true;
     this.notifyStateChange();
@@ -39,41 +187,63 @@ export class SessionReplay {
 
   pause(): void {
     this.isPlaying = false;
-    if (this.timer) {
-      clearTimeout(this.timer);
-      this.timer = null;
-    }
+    this.clearTimer();
     this.notifyStateChange();
   }
 
+  /** Stop playback without reporting it, e.g. when the view goes away */
+  dispose(): void {
+    this.isPlaying = false;
+    this.clearTimer();
+  }
+
   setSpeed(speed: number): void {
     this.speed = speed;
     if (this.isPlaying) {
       // Restart scheduling with new speed
-      if (this.timer) clearTimeout(this.timer);
+      this.clearTimer();
       this.scheduleNext();
     }
     this.notifyStateChange();
   }
 
-  seekTo(index: number): void {
-    this.currentIndex = Math.max(0, Math.min(index, this.events.length - 1));
+  setSkipInactivity(skip: InactivitySkip | null): void {
+    this.skipInactivity = skip;
+    if (this.isPlaying) {
+      this.clearTimer();
+      this.scheduleNext();
+    }
     this.notifyStateChange();
   }
 
-  seekToTime(timestamp: number): void {
-    const baseTime = this.events[0]?.timestamp || 0;
-    const target = baseTime + timestamp;
-    const idx = this.events.findIndex(e => e.timestamp >= target);
-    if (idx !== -1) {
-      this.currentIndex = idx;
-    }
+  /** Show the session as it was after `index` events */
+  seekTo(index: number): void {
+    this.currentIndex = Math.max(0, Math.min(index, this.events.length));
+    this.draw();
     this.notifyStateChange();
   }
 
+  /** Show the session as it was `offset` ms after the first event */
+  seekToTime(offset: number): void {
+    const target = (this.events[0]?.timestamp ?? 0) + offset;
+    const index = this.events.findIndex(e => e.timestamp > target);
+    this.seekTo(index === -1 ? this.events.length : index);
+  }
+
+  /** Move to just after the next (1) or previous (-1) command; stays put if there isn't one */
+  seekToCommand(direction: 1 | -1): void {
+    const positions = this.events
+      .map((e, i) => (e.type === 'command' ? i + 1 : -1))
+      .filter(p => p !== -1);
+    const target = direction === 1
+      ? positions.find(p => p > this.currentIndex)
+      : positions.reverse().find(p => p < this.currentIndex);
+    if (target !== undefined) this.seekTo(target);
+  }
+
   getState(): ReplayState {
     const baseTime = this.events[0]?.timestamp || 0;
-    const currentTime = this.events[this.currentIndex]?.timestamp || baseTime;
+    const currentTime = this.events[this.currentIndex - 1]?.timestamp || baseTime;
 
     return {
       events: this.events,
@@ -82,6 +252,8 @@ export class SessionReplay {
       speed: this.speed,
       startTime: baseTime,
       elapsedTime: currentTime - baseTime,
+      ready: this.ready,
+      skipInactivity: this.skipInactivity,
     };
   }
 
@@ -90,6 +262,46 @@ export class SessionReplay {
     return this.events[this.events.length - 1].timestamp - this.events[0].timestamp;
   }
 
+  /** Everything the session wrote, split by the event that wrote it; empty until prepared */
+  getOutputChunks(): OutputChunk[] {
+    const chunks: OutputChunk[] = [];
+    for (let i = 0; i < this.frames.length; i++) {
+      const from = i === 0 ? 0 : this.frames[i - 1].offset;
+      const to = this.frames[i].offset;
+      if (to > from) {
+        const event = this.events[Math.max(i - 1, 0)];
+        chunks.push({ index: i - 1, timestamp: event?.timestamp ?? 0, data: this.transcript.slice(from, to) });
+      }
+    }
+    return chunks;
+  }
+
+  /** Filesystem changes at the nearest keyframe at or before `index` events */
+  getFileChangesAt(index: number): FileChange[] {
+    let found: Keyframe | undefined;
+    for (const keyframe of this.keyframes) {
+      if (keyframe.index > index) break;
+      found = keyframe;
+    }
+    return found?.changes ?? [];
+  }
+
+  /** Redraw the screen for the current position from its frame */
+  private draw(): void {
+    if (!this.ready) return;
+    const frame = this.frames[this.currentIndex];
+    this.screen.reset();
+    this.screen.write(this.transcript.slice(frame.start, frame.offset));
+  }
+
+  /** Play the next event by writing the output it produced */
+  private step(): void {
+    const from = this.frames[this.currentIndex].offset;
+    const to = this.frames[this.currentIndex + 1].offset;
+    if (to > from) this.screen.write(this.transcript.slice(from, to));
+    this.currentIndex++;
+  }
+
   private scheduleNext(): void {
     if (!this.isPlaying || this.currentIndex >= this.events.length) {
       this.isPlaying = false;
@@ -98,8 +310,8 @@ export class SessionReplay {
     }
 
     const event = this.events[this.currentIndex];
-    this.onEvent?.(event);
-    this.currentIndex++;
+    this.step();
+    this.notifyStateChange();
 
     if (this.currentIndex >= this.events.length) {
       this.isPlaying = false;
@@ -107,17 +319,48 @@ export class SessionReplay {
       return;
     }
 
-    // Calculate delay to next event
+    // Calculate delay to next event, capping long pauses
     const nextEvent = this.events[this.currentIndex];
-    let delay = (nextEvent.timestamp - event.timestamp) / this.speed;
-
-    // Cap maximum delay to avoid long pauses
-    delay = Math.min(delay, 2000 / this.speed);
+    const gap = nextEvent.timestamp - event.timestamp;
+    const delay = (this.skipInactivity && gap > this.skipInactivity.thresholdMs
+      ? this.skipInactivity.skipToMs
+      : Math.min(gap, MAX_GAP_MS)) / this.speed;
 
     this.timer = setTimeout(() => this.scheduleNext(), delay);
   }
 
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
   private notifyStateChange(): void {
     this.onStateChange?.(this.getState());
   }
 }
+
+/** Feed one recorded event back to the engine; only input (or, for older recordings, commands) affects it */
+async function rerun(engine: TerminalEngine, event: SessionEvent, fromInput: boolean): Promise<void> {
+  if (!fromInput) {
+    // Retype each command whole
+    if (event.type === 'command') await engine.handleInput(event.raw + '\r');
+    return;
+  }
+
+  if (event.type === 'resize') {
+    engine.resize(event.cols, event.rows);
+  }
+  if (event.type === 'input') {
+    const participant = event.participant ?? 'candidate';
+    engine.setDriver(participant);
+    await engine.handleInput(event.data, participant);
+  }
+  // Bursts of typing flagged as pastes were already replayed as input
+  if (event.type === 'paste' && event.detectedBy !== 'burst') {
+    const participant = event.participant ?? 'candidate';
+    engine.setDriver(participant);
+    await engine.handlePaste(event.content, participant);
+  }
+}
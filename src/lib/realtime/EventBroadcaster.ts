@@ -1,16 +1,23 @@
 type SSEClient = {
   id: string;
   controller: ReadableStreamDefaultController;
+  /** Only events this accepts are sent to the client */
+  filter?: (event: unknown) => boolean;
 };
 
 // Map of sessionId → array of connected SSE clients
 const sessionClients = new Map<string, SSEClient[]>();
 
-export function addSSEClient(sessionId: string, clientId: string, controller: ReadableStreamDefaultController): void {
+export function addSSEClient(
+  sessionId: string,
+  clientId: string,
+  controller: ReadableStreamDefaultController,
+  filter?: (event: unknown) => boolean,
+): void {
   if (!sessionClients.has(sessionId)) {
     sessionClients.set(sessionId, []);
   }
-  sessionClients.get(sessionId)!.push({ id: clientId, controller });
+  sessionClients.get(sessionId)!.push({ id: clientId, controller, filter });
 }
 
 export function removeSSEClient(sessionId: string, clientId: string): void {
@@ -36,6 +43,7 @@ export function broadcastToSession(sessionId: string, event: unknown): void {
   const deadClients: string[] = [];
 
   for (const client of clients) {
+    if (client.filter && !client.filter(event)) continue;
     try {
       client.controller.enqueue(encoded);
     } catch {
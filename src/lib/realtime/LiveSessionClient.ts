@@ -1,25 +1,115 @@
+import type { SessionMessage } from '../sessions/messages';
+
 export type LiveEventHandler = (event: unknown) => void;
 
+/** Event types that travel over the message channel, in both directions */
+const MESSAGE_EVENT_TYPES = ['chat', 'time_extended', 'pause', 'driver_change'];
+
+/**
+ * Keystrokes an interviewer types while driving. They're relayed to the
+ * candidate's terminal but not logged: the engine records them itself,
+ * attributed to the interviewer, once it has run them.
+ */
+export const TERMINAL_INPUT = 'terminal_input';
+
+/** Carries the interviewer token on messages only the interviewer may send */
+export const INTERVIEWER_TOKEN_HEADER = 'X-Interviewer-Token';
+
+/** Longest input message the server accepts */
+const MAX_INPUT_CHUNK = 2000;
+
+/** Chat and interviewer actions, as opposed to the candidate's own activity */
+export function isMessageEvent(event: { type?: unknown; from?: unknown }): boolean {
+  return MESSAGE_EVENT_TYPES.includes(event.type as string) ||
+    (event.type === 'hint_used' && event.from === 'interviewer');
+}
+
+/** Keep the interviewer token issued at creation so this browser can act on the session */
+export function saveInterviewerToken(sessionId: string, token: string): void {
+  localStorage.setItem(`interviewer-token:${sessionId}`, token);
+}
+
+export function loadInterviewerToken(sessionId: string): string | null {
+  return localStorage.getItem(`interviewer-token:${sessionId}`);
+}
+
+/**
+ * Post a chat message or interviewer action; it comes back to every listener
+ * over the live stream. Interviewer actions need the session's interviewer token.
+ */
+export async function sendSessionMessage(sessionId: string, message: SessionMessage, interviewerToken?: string | null): Promise<void> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (interviewerToken) headers[INTERVIEWER_TOKEN_HEADER] = interviewerToken;
+  const res = await fetch(`/api/sessions/${sessionId}/messages`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify(message),
+  });
+  if (!res.ok) {
+    const data = await res.json().catch(() => ({}));
+    throw new Error(data.error || 'Failed to send message');
+  }
+}
+
+/** Forwards a driving interviewer's keystrokes in order, batching whatever is typed while a request is in flight */
+export class InputRelay {
+  private sessionId: string;
+  private interviewerToken: string | null;
+  private onError?: (err: Error) => void;
+  private pending = '';
+  private sending = false;
+
+  constructor(sessionId: string, interviewerToken: string | null, onError?: (err: Error) => void) {
+    this.sessionId = sessionId;
+    this.interviewerToken = interviewerToken;
+    this.onError = onError;
+  }
+
+  send(data: string): void {
+    this.pending += data;
+    if (!this.sending) void this.drain();
+  }
+
+  private async drain(): Promise<void> {
+    this.sending = true;
+    while (this.pending) {
+      const data = this.pending.slice(0, MAX_INPUT_CHUNK);
+      this.pending = this.pending.slice(data.length);
+      try {
+        await sendSessionMessage(this.sessionId, { type: 'input', data }, this.interviewerToken);
+      } catch (err) {
+        // Later keystrokes make no sense without the ones that were lost
+        this.pending = '';
+        this.onError?.(err instanceof Error ? err : new Error(String(err)));
+      }
+    }
+    this.sending = false;
+  }
+}
+
 export class LiveSessionClient {
   private eventSource: EventSource | null = null;
   private sessionId: string;
   private onEvent: LiveEventHandler;
   private onConnect?: () => void;
   private onDisconnect?: () => void;
+  private channel?: 'messages';
 
   constructor(
     sessionId: string,
     onEvent: LiveEventHandler,
-    options?: { onConnect?: () => void; onDisconnect?: () => void }
+    options?: { onConnect?: () => void; onDisconnect?: () => void; channel?: 'messages' }
   ) {
     this.sessionId = sessionId;
     this.onEvent = onEvent;
     this.onConnect = options?.onConnect;
     this.onDisconnect = options?.onDisconnect;
+    this.channel = options?.channel;
   }
 
   connect(): void {
-    this.eventSource = new EventSource(`/api/sessions/${this.sessionId}/live`);
+    const query = this.channel ? `?channel=${this.channel}` : '';
+    this.eventSource = new EventSource(`/api/sessions/${this.sessionId}/live${query}`);
 
     this.eventSource.onopen = () => {
       this.onConnect?.();
@@ -0,0 +1,226 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import yaml from 'js-yaml';
+import type { FSNodeJSON } from '../terminal/VirtualFileSystem';
+import { seededRandom } from '../terminal/Clock';
+
+export interface ScenarioSummary {
+  id: string;
+  description: string;
+}
+
+/** Who the filesystem is rendered for; the seed makes its random variables repeatable */
+export interface ScenarioContext {
+  candidateName?: string;
+  /** Usually the session id, so a replay gets the same ports and bugs as the candidate did */
+  seed?: string;
+}
+
+/**
+ * How a scenario variable gets its value: a literal, a port drawn from a
+ * range, one of a list of choices (e.g. which bug is seeded), or a random
+ * hex string of the given length.
+ */
+export type VariableSpec =
+  | string
+  | number
+  | { port: [number, number] }
+  | { choice: string[] }
+  | { hex: number };
+
+export class ScenarioError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ScenarioError';
+  }
+}
+
+export const DEFAULT_SCENARIO = 'base-filesystem';
+
+/** Scenarios offered to sessions; a leading underscore marks a partial that's only for including */
+const SCENARIO_ID = /^[a-z0-9-]+$/;
+const INCLUDE_ID = /^_?[a-z0-9-]+$/;
+const TEMPLATE = /\{\{\s*([A-Za-z0-9_]+)\s*\}\}/g;
+
+/** A scenario file with its includes applied, before variables are filled in */
+interface ComposedScenario {
+  variables: Record<string, VariableSpec>;
+  tree: Record<string, RawNode>;
+}
+
+/** A node as written in YAML: FSNodeJSON without names, plus an optional `when` condition */
+type RawNode = Record<string, unknown> & { children?: Record<string, RawNode | null> };
+
+function scenarioDir(): string {
+  return path.join(process.cwd(), 'data', 'filesystems');
+}
+
+/**
+ * Scenarios available to new sessions. Each one is a YAML filesystem in
+ * data/filesystems; a leading `#` comment block describes it.
+ */
+export async function listScenarios(): Promise<ScenarioSummary[]> {
+  const files = (await fs.readdir(scenarioDir()))
+    .filter(file => file.endsWith('.yaml') && !file.startsWith('_'))
+    .sort();
+  return Promise.all(files.map(async file => {
+    const content = await fs.readFile(path.join(scenarioDir(), file), 'utf-8');
+    return { id: file.replace(/\.yaml$/, ''), description: leadingComment(content) };
+  }));
+}
+
+export async function scenarioExists(id: string): Promise<boolean> {
+  return SCENARIO_ID.test(id) && fileExists(id);
+}
+
+/**
+ * Filesystem for a scenario, or null when there is no such scenario.
+ *
+ * A scenario file may `include` others (one id or a list), which are laid
+ * down first; its own entries then merge into theirs directory by
+ * directory, and an entry set to `~` removes an inherited one. `variables`
+ * declares values substituted for `{{name}}` in file contents and link
+ * targets, alongside the built-in `candidate_name`. A node with
+ * `when: { variable: value }` (or a list of values) only exists when the
+ * variable matches, which is how alternative versions of a file seed
+ * different bugs; since YAML keys are unique, variants take distinct keys
+ * and set `name`. Problems with the files throw a ScenarioError.
+ */
+export async function loadScenario(id: string, context: ScenarioContext = {}): Promise<Record<string, FSNodeJSON> | null> {
+  if (!(await scenarioExists(id))) return null;
+  const scenario = await compose(id, []);
+  const variables = resolveVariables(scenario.variables, context, context.seed ?? id);
+  return render(scenario.tree, variables, '') as Record<string, FSNodeJSON>;
+}
+
+async function fileExists(id: string): Promise<boolean> {
+  try {
+    await fs.access(path.join(scenarioDir(), `${id}.yaml`));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function compose(id: string, chain: string[]): Promise<ComposedScenario> {
+  if (chain.includes(id)) {
+    throw new ScenarioError(`Include cycle: ${[...chain, id].join(' -> ')}`);
+  }
+  const content = await fs.readFile(path.join(scenarioDir(), `${id}.yaml`), 'utf-8');
+  let parsed: unknown;
+  try {
+    parsed = yaml.load(content) ?? {};
+  } catch (err) {
+    throw new ScenarioError(`${id}: invalid YAML (${err instanceof Error ? err.message : err})`);
+  }
+  if (typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new ScenarioError(`${id}: expected a mapping of top-level directories`);
+  }
+
+  const { include, variables, ...tree } = parsed as Record<string, unknown>;
+  const includes = include === undefined ? [] : Array.isArray(include) ? include : [include];
+  let composed: ComposedScenario = { variables: {}, tree: {} };
+  for (const name of includes) {
+    if (typeof name !== 'string' || !INCLUDE_ID.test(name) || !(await fileExists(name))) {
+      throw new ScenarioError(`${id}.include: no scenario "${name}" in data/filesystems`);
+    }
+    const included = await compose(name, [...chain, id]);
+    composed = {
+      variables: { ...composed.variables, ...included.variables },
+      tree: mergeTrees(composed.tree, included.tree),
+    };
+  }
+
+  if (variables !== undefined && (typeof variables !== 'object' || variables === null || Array.isArray(variables))) {
+    throw new ScenarioError(`${id}.variables: expected a mapping`);
+  }
+  return {
+    variables: { ...composed.variables, ...(variables as Record<string, VariableSpec> | undefined) },
+    tree: mergeTrees(composed.tree, tree as Record<string, RawNode | null>),
+  };
+}
+
+/** Lay `overlay` over `base`: directories merge, anything else replaces, and null removes */
+function mergeTrees(base: Record<string, RawNode | null>, overlay: Record<string, RawNode | null>): Record<string, RawNode> {
+  const merged = { ...base } as Record<string, RawNode>;
+  for (const [name, node] of Object.entries(overlay)) {
+    const inherited = merged[name];
+    if (node === null) {
+      delete merged[name];
+    } else if (inherited && inherited.type === 'directory' && (node.type === undefined || node.type === 'directory')) {
+      merged[name] = { ...inherited, ...node, children: mergeTrees(inherited.children ?? {}, node.children ?? {}) };
+    } else {
+      merged[name] = node;
+    }
+  }
+  return merged;
+}
+
+function resolveVariables(specs: Record<string, VariableSpec>, context: ScenarioContext, seed: string): Record<string, string> {
+  const values: Record<string, string> = { candidate_name: context.candidateName ?? 'Candidate' };
+  for (const [name, spec] of Object.entries(specs)) {
+    // Each variable draws from its own sequence, so adding one doesn't change the others
+    const random = seededRandom(`${seed}:${name}`);
+    if (typeof spec === 'string' || typeof spec === 'number') {
+      values[name] = String(spec);
+    } else if (spec && 'port' in spec && Array.isArray(spec.port) && spec.port.length === 2) {
+      const [min, max] = spec.port;
+      values[name] = String(min + Math.floor(random() * (max - min + 1)));
+    } else if (spec && 'choice' in spec && Array.isArray(spec.choice) && spec.choice.length > 0) {
+      values[name] = String(spec.choice[Math.floor(random() * spec.choice.length)]);
+    } else if (spec && 'hex' in spec && Number.isInteger(spec.hex) && spec.hex > 0) {
+      values[name] = Array.from({ length: spec.hex }, () => Math.floor(random() * 16).toString(16)).join('');
+    } else {
+      throw new ScenarioError(`variables.${name}: expected a value, { port: [min, max] }, { choice: [...] } or { hex: length }`);
+    }
+  }
+  return values;
+}
+
+/** Drop nodes whose `when` doesn't match and fill in templates, checking every variable is known */
+function render(tree: Record<string, RawNode>, variables: Record<string, string>, dir: string): Record<string, FSNodeJSON> {
+  const rendered: Record<string, FSNodeJSON> = {};
+  for (const [key, raw] of Object.entries(tree)) {
+    const { when, ...node } = raw;
+    const name = typeof node.name === 'string' ? node.name : key;
+    const where = `${dir}/${name}`;
+    if (when !== undefined && !matches(when, variables, where)) continue;
+    if (rendered[name]) throw new ScenarioError(`${where}: more than one entry matches`);
+    if (typeof node.type !== 'string') {
+      throw new ScenarioError(`${where}: missing type (nothing to merge it into)`);
+    }
+    const out = { ...node, name } as unknown as FSNodeJSON;
+    if (typeof node.content === 'string') out.content = fill(node.content, variables, where);
+    if (typeof node.target === 'string') out.target = fill(node.target, variables, where);
+    if (node.children) out.children = render(node.children as Record<string, RawNode>, variables, where);
+    rendered[name] = out;
+  }
+  return rendered;
+}
+
+function matches(when: unknown, variables: Record<string, string>, where: string): boolean {
+  if (!when || typeof when !== 'object' || Array.isArray(when)) {
+    throw new ScenarioError(`${where}.when: expected a mapping of variable to value`);
+  }
+  return Object.entries(when).every(([name, expected]) => {
+    if (!(name in variables)) throw new ScenarioError(`${where}.when: unknown variable "${name}"`);
+    const allowed = Array.isArray(expected) ? expected : [expected];
+    return allowed.map(String).includes(variables[name]);
+  });
+}
+
+function fill(text: string, variables: Record<string, string>, where: string): string {
+  return text.replace(TEMPLATE, (_match, name: string) => {
+    if (!(name in variables)) throw new ScenarioError(`${where}: unknown variable {{${name}}}`);
+    return variables[name];
+  });
+}
+
+function leadingComment(content: string): string {
+  const lines: string[] = [];
+  for (const line of content.split('\n')) {
+    if (!line.startsWith('#')) break;
+    lines.push(line.replace(/^#\s?/, ''));
+  }
+  return lines.join(' ').trim();
+}
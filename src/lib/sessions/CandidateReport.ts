@@ -0,0 +1,260 @@
+import { Session, StoredEvent, buildIntegrityReport } from './SessionStore';
+import { FLAG_EXPLANATIONS, IntegrityReport } from '../integrity/IntegrityScorer';
+import type { SessionEvent } from '../integrity/KeystrokeRecorder';
+import type { FileChange } from '../terminal/VirtualFileSystem';
+import { ChallengePack, findHint, getObjectiveTitle, getObjectivesForLevel } from '../challenges/ChallengePack';
+
+export interface LevelSummary {
+  level: number;
+  title: string;
+  /** Offset from the start of the session; null if the candidate never reached the level */
+  startedAt: number | null;
+  /** Offset at which the last objective was completed, if they all were */
+  completedAt: number | null;
+  objectives: { id: string; title: string; completedAt: number | null }[];
+}
+
+export interface CommandStats {
+  total: number;
+  failed: number;
+  /** Fraction of commands with a non-zero exit code */
+  errorRate: number;
+  mostUsed: { name: string; count: number }[];
+}
+
+/** Everything in the write-up of a session, with times as offsets from its start */
+export interface CandidateReport {
+  session: Session;
+  /** Title of the challenge pack the session ran */
+  challenge: string;
+  generatedAt: string;
+  durationMs: number;
+  levels: LevelSummary[];
+  hints: { at: number; text: string; fromInterviewer: boolean }[];
+  integrity: IntegrityReport;
+  commands: CommandStats;
+  fileChanges: FileChange[];
+}
+
+/** How many command names the report lists */
+const MOST_USED_COMMANDS = 5;
+
+/**
+ * Summarise a session from its recorded events. Objective and level times
+ * come from the events the candidate page records as its ChallengeState
+ * changes; file changes are the last snapshot it sent.
+ */
+export function buildCandidateReport(session: Session, pack: ChallengePack, stored: StoredEvent[]): CandidateReport {
+  const events = stored.slice().sort((a, b) => a.timestamp - b.timestamp);
+  const start = session.startedAt ? Date.parse(session.startedAt) : events[0]?.timestamp ?? 0;
+  const end = session.completedAt ? Date.parse(session.completedAt) : events[events.length - 1]?.timestamp ?? start;
+
+  const completions = new Map<string, number>();
+  const levelStarts = new Map<number, number>();
+  const hints: CandidateReport['hints'] = [];
+  for (const event of events) {
+    if (event.type === 'objective_complete' && !completions.has(event.objectiveId)) {
+      completions.set(event.objectiveId, event.timestamp - start);
+    }
+    if (event.type === 'level_advance' && !levelStarts.has(event.level)) {
+      levelStarts.set(event.level, event.timestamp - start);
+    }
+    if (event.type === 'hint_used') {
+      const hint = findHint(pack, event.hintId);
+      hints.push({
+        at: event.timestamp - start,
+        text: event.from === 'interviewer' ? event.text ?? '' : hint?.text ?? event.hintId,
+        fromInterviewer: event.from === 'interviewer',
+      });
+    }
+  }
+
+  const enabled = [...session.enabledLevels].sort((a, b) => a - b);
+  const levels = enabled.map((level, index): LevelSummary => {
+    const objectives = getObjectivesForLevel(pack, level, session.seniority).ids.map(id => ({
+      id,
+      title: getObjectiveTitle(pack, id) ?? id,
+      completedAt: completions.get(id) ?? null,
+    }));
+    const done = objectives.length > 0 && objectives.every(o => o.completedAt !== null);
+    return {
+      level,
+      title: pack.levels[level]?.title ?? `Level ${level}`,
+      startedAt: index === 0 ? 0 : levelStarts.get(level) ?? null,
+      completedAt: done ? Math.max(...objectives.map(o => o.completedAt!)) : null,
+      objectives,
+    };
+  });
+
+  const snapshots = events.filter(e => e.type === 'fs_changes');
+
+  return {
+    session,
+    challenge: pack.title,
+    generatedAt: new Date().toISOString(),
+    durationMs: Math.max(0, end - start),
+    levels,
+    hints,
+    integrity: buildIntegrityReport(stored),
+    commands: commandStats(events),
+    fileChanges: snapshots.length > 0 ? snapshots[snapshots.length - 1].changes : [],
+  };
+}
+
+function commandStats(events: SessionEvent[]): CommandStats {
+  // Commands an interviewer ran while driving aren't the candidate's
+  // Logs written before events were validated may hold commands without their text
+  const commands = events.filter((e): e is Extract<SessionEvent, { type: 'command' }> =>
+    e.type === 'command' && typeof e.raw === 'string' && e.participant !== 'interviewer');
+  const failed = commands.filter(e => e.exitCode !== 0).length;
+
+  const counts = new Map<string, number>();
+  for (const event of commands) {
+    const name = event.raw.trim().split(/\s+/)[0];
+    if (name) counts.set(name, (counts.get(name) ?? 0) + 1);
+  }
+
+  return {
+    total: commands.length,
+    failed,
+    errorRate: commands.length > 0 ? failed / commands.length : 0,
+    mostUsed: Array.from(counts, ([name, count]) => ({ name, count }))
+      .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name))
+      .slice(0, MOST_USED_COMMANDS),
+  };
+}
+
+/** A standalone HTML page for the report: styles inline, nothing to fetch, prints cleanly to PDF */
+export function renderCandidateReportHtml(report: CandidateReport): string {
+  const { session, integrity, commands } = report;
+  const title = `${session.candidateName}: interview report`;
+
+  const levelRows = report.levels.map(level => `
+    <section class="level">
+      <h3>Level ${level.level}: ${escapeHtml(level.title)}</h3>
+      <p class="muted">${level.startedAt === null
+        ? 'Not reached'
+        : `Started at ${formatDuration(level.startedAt)}${level.completedAt !== null
+          ? `, completed at ${formatDuration(level.completedAt)} (${formatDuration(level.completedAt - level.startedAt)})`
+          : ''}`}</p>
+      <table>
+        ${level.objectives.map(o => `<tr>
+          <td class="${o.completedAt === null ? 'missed' : 'done'}">${o.completedAt === null ? '✗' : '✓'}</td>
+          <td>${escapeHtml(o.title)}</td>
+          <td class="num">${o.completedAt === null ? '' : formatDuration(o.completedAt)}</td>
+        </tr>`).join('')}
+      </table>
+    </section>`).join('');
+
+  const hintRows = report.hints.length === 0
+    ? '<p class="muted">No hints used.</p>'
+    : `<table>${report.hints.map(h => `<tr>
+        <td class="num">${formatDuration(h.at)}</td>
+        <td>${h.fromInterviewer ? '<strong>From interviewer:</strong> ' : ''}${escapeHtml(h.text)}</td>
+      </tr>`).join('')}</table>`;
+
+  const flagRows = integrity.flags.length === 0
+    ? '<p class="muted">No flags raised.</p>'
+    : integrity.flags.map(flag => `
+      <div class="flag ${escapeHtml(flag.severity)}">
+        <div><strong>${escapeHtml(flag.severity)}</strong> ${escapeHtml(flag.description)} <span class="muted">(-${flag.deduction})</span></div>
+        ${FLAG_EXPLANATIONS[flag.type] ? `<p class="muted">${escapeHtml(FLAG_EXPLANATIONS[flag.type])}</p>` : ''}
+      </div>`).join('');
+
+  const fileRows = report.fileChanges.length === 0
+    ? '<p class="muted">No files changed.</p>'
+    : report.fileChanges.map(change => `
+      <div class="file">
+        <div><span class="badge ${escapeHtml(change.status)}">${escapeHtml(change.status)}</span> <code>${escapeHtml(change.path)}${change.type === 'directory' ? '/' : ''}</code></div>
+        ${change.metadata ? `<ul class="muted">${change.metadata.map(line => `<li><code>${escapeHtml(line)}</code></li>`).join('')}</ul>` : ''}
+        ${change.diff ? `<pre>${change.diff.split('\n').map(line => `<span class="${diffLineClass(line)}">${escapeHtml(line)}</span>`).join('\n')}</pre>` : ''}
+      </div>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+  body { font: 14px/1.5 -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; color: #1f2937; max-width: 860px; margin: 2rem auto; padding: 0 1rem; }
+  h1 { margin-bottom: 0; }
+  h2 { border-bottom: 1px solid #d1d5db; padding-bottom: .25rem; margin-top: 2rem; }
+  h3 { margin-bottom: 0; }
+  table { border-collapse: collapse; width: 100%; }
+  td, th { padding: .25rem .5rem; border-bottom: 1px solid #f3f4f6; text-align: left; vertical-align: top; }
+  .num { text-align: right; font-variant-numeric: tabular-nums; white-space: nowrap; }
+  .muted { color: #6b7280; margin: .25rem 0; }
+  .done { color: #15803d; } .missed { color: #b91c1c; }
+  .summary { display: grid; grid-template-columns: repeat(4, 1fr); gap: .75rem; margin-top: 1rem; }
+  .summary div { border: 1px solid #d1d5db; border-radius: 6px; padding: .5rem .75rem; }
+  .summary strong { display: block; font-size: 1.25rem; }
+  .flag { border-left: 4px solid #9ca3af; padding: .25rem .75rem; margin: .5rem 0; }
+  .flag.high { border-color: #dc2626; } .flag.medium { border-color: #d97706; }
+  .badge { font-size: 12px; padding: 0 .4rem; border-radius: 4px; background: #e5e7eb; }
+  .badge.added { background: #dcfce7; } .badge.modified { background: #fef9c3; } .badge.deleted { background: #fee2e2; }
+  .file { margin: 1rem 0; page-break-inside: avoid; }
+  pre { background: #f9fafb; border: 1px solid #e5e7eb; padding: .5rem; font-size: 12px; white-space: pre-wrap; word-break: break-all; }
+  .add { color: #15803d; } .del { color: #b91c1c; } .hunk { color: #0e7490; } .meta { color: #6b7280; }
+  .print { float: right; }
+  @media print { .print { display: none; } body { margin: 0; } }
+</style>
+</head>
+<body>
+<button class="print" onclick="window.print()">Print / save as PDF</button>
+<h1>${escapeHtml(session.candidateName)}</h1>
+<p class="muted">${escapeHtml(session.candidateEmail)} · ${escapeHtml(session.seniority)} · ${escapeHtml(report.challenge)} · ${session.pairProgramming ? 'pair programming' : 'solo'} round · session ${escapeHtml(session.id)}</p>
+<p class="muted">${session.startedAt ? `Started ${escapeHtml(new Date(session.startedAt).toUTCString())}` : 'Not started'}, status ${escapeHtml(session.status)}. Report generated ${escapeHtml(new Date(report.generatedAt).toUTCString())}.</p>
+
+<div class="summary">
+  <div>Duration<strong>${formatDuration(report.durationMs)}</strong></div>
+  <div>Level reached<strong>${session.currentLevel}/${Math.max(...session.enabledLevels)}</strong></div>
+  <div>Integrity<strong>${integrity.score}/100</strong></div>
+  <div>Commands<strong>${commands.total}</strong></div>
+</div>
+
+<h2>Objectives</h2>
+${levelRows}
+
+<h2>Hints</h2>
+${hintRows}
+
+<h2>Integrity</h2>
+<p>${escapeHtml(integrity.summary)}</p>
+<p class="muted">${integrity.pasteCount} pastes (${integrity.totalPastedChars} characters), ${integrity.tabAwayCount} tab-aways, ${integrity.totalKeystrokes} keystrokes, ${integrity.patterns.averageWPM} WPM average.</p>
+${flagRows}
+
+<h2>Commands</h2>
+<p>${commands.total} commands run, ${commands.failed} failed (${Math.round(commands.errorRate * 100)}% error rate).</p>
+${commands.mostUsed.length > 0 ? `<p class="muted">Most used: ${commands.mostUsed.map(c => `<code>${escapeHtml(c.name)}</code> ×${c.count}`).join(', ')}</p>` : ''}
+
+<h2>Files written</h2>
+${fileRows}
+</body>
+</html>
+`;
+}
+
+function formatDuration(ms: number): string {
+  const s = Math.max(0, Math.floor(ms / 1000));
+  const h = Math.floor(s / 3600);
+  const m = Math.floor((s % 3600) / 60);
+  const sec = (s % 60).toString().padStart(2, '0');
+  return h > 0 ? `${h}:${m.toString().padStart(2, '0')}:${sec}` : `${m}:${sec}`;
+}
+
+function diffLineClass(line: string): string {
+  if (line.startsWith('@@')) return 'hunk';
+  if (line.startsWith('+++') || line.startsWith('---')) return 'meta';
+  if (line.startsWith('+')) return 'add';
+  if (line.startsWith('-')) return 'del';
+  return '';
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
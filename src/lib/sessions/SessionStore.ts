@@ -0,0 +1,486 @@
+import { promises as fs } from 'fs';
+import { randomUUID, timingSafeEqual } from 'crypto';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { SessionEvent, isSessionEvent } from '../integrity/KeystrokeRecorder';
+import { IntegrityScorer, IntegrityReport } from '../integrity/IntegrityScorer';
+import { PasteDetector } from '../integrity/PasteDetector';
+import { ChallengeConfig, ChallengeState, DEFAULT_CHALLENGE_CONFIG, HintPolicy } from '../terminal/CommandContext';
+import type { Participant } from '../terminal/TerminalEngine';
+import { scenarioExists } from '../scenarios/ScenarioLibrary';
+import { ChallengePack, DEFAULT_CHALLENGE_PACK, packLevels, SENIORITY_ORDER } from '../challenges/ChallengePack';
+import { loadChallengePack } from '../challenges/ChallengeLibrary';
+
+export type SessionStatus = 'pending' | 'active' | 'completed' | 'expired';
+export type Seniority = ChallengeState['seniority'];
+
+export interface Session extends ChallengeConfig {
+  id: string;
+  candidateName: string;
+  candidateEmail: string;
+  seniority: Seniority;
+  status: SessionStatus;
+  currentLevel: number;
+  /** Minutes the candidate has once the session starts */
+  timeLimitMinutes: number;
+  /** Challenge pack (a file in data/challenges) setting the levels, objectives and hints */
+  challengePack: string;
+  /** Filesystem scenario (a file in data/filesystems) mounted for the candidate */
+  scenario: string;
+  createdAt: string;
+  startedAt: string | null;
+  completedAt: string | null;
+  /** Set while an interviewer has the session paused */
+  pausedAt: string | null;
+  /** Time spent paused so far, which doesn't count against the time limit */
+  pausedMs: number;
+  /** Collaborative round: the interviewer may take over the candidate's terminal */
+  pairProgramming: boolean;
+  /** Who currently types into the terminal; the other participant watches */
+  driver: Participant;
+  /** A pending session that isn't started by then expires */
+  expiresAt: string;
+  integrityScore: number | null;
+  eventCount: number;
+}
+
+/**
+ * What creating a session returns: the session plus the secret that
+ * interviewer actions must present. The token is stored beside the session
+ * document, never in it, so no other response carries it.
+ */
+export interface CreatedSession extends Session {
+  interviewerToken: string;
+}
+
+/**
+ * An entry in a session's event log: a SessionEvent from the candidate's
+ * recorder or the message route, checked with sessionEventProblem on arrival
+ */
+export type StoredEvent = SessionEvent;
+
+export interface CreateSessionInput {
+  candidateName: string;
+  candidateEmail: string;
+  seniority?: Seniority;
+  timeLimitMinutes?: number;
+  enabledLevels?: number[];
+  hintPolicy?: HintPolicy;
+  maxHints?: number | null;
+  /** Defaults to DEFAULT_CHALLENGE_PACK; the scenario defaults to the pack's filesystem */
+  challengePack?: string;
+  scenario?: string;
+  pairProgramming?: boolean;
+  /** How long the invite stays valid before the session is started */
+  expiresInHours?: number;
+}
+
+export type UpdateSessionInput = Partial<Pick<Session,
+  'candidateName' | 'candidateEmail' | 'seniority' | 'status' | 'currentLevel' | 'timeLimitMinutes' |
+  'enabledLevels' | 'hintPolicy' | 'maxHints' | 'challengePack' | 'scenario' | 'pairProgramming'
+>>;
+
+export class SessionError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'SessionError';
+  }
+}
+
+const HINT_POLICIES: HintPolicy[] = ['seniority', 'all', 'none'];
+const DEFAULT_TIME_LIMIT_MINUTES = 90;
+const DEFAULT_INVITE_HOURS = 72;
+
+/** Allowed status changes; completed and expired are final */
+const TRANSITIONS: Record<SessionStatus, SessionStatus[]> = {
+  pending: ['active', 'expired'],
+  active: ['completed', 'expired'],
+  completed: [],
+  expired: [],
+};
+
+/**
+ * File-backed session store: one JSON document per session plus an
+ * append-only JSONL event log, under `data/sessions` (or SESSION_DATA_DIR).
+ */
+export class SessionStore {
+  private dir: string;
+  /** Per-session queue so concurrent read-modify-writes don't lose updates */
+  private locks = new Map<string, Promise<unknown>>();
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  async list(): Promise<Session[]> {
+    await this.ensureDir();
+    const files = (await fs.readdir(this.dir)).filter(f => f.endsWith('.json'));
+    const sessions: Session[] = [];
+    for (const file of files) {
+      const session = await this.get(file.slice(0, -'.json'.length));
+      if (session) sessions.push(session);
+    }
+    return sessions.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  /** Load a session, expiring it first if its deadline has passed */
+  async get(id: string): Promise<Session | null> {
+    const session = await this.read(id);
+    if (!session || !this.expiryDue(session)) return session;
+    // Expire under the lock, so it can't overwrite an update that lands meanwhile
+    return this.exclusive(id, () => this.load(id));
+  }
+
+  async create(input: CreateSessionInput): Promise<CreatedSession> {
+    checkFieldTypes(input);
+    if (input.expiresInHours !== undefined && !(typeof input.expiresInHours === 'number' && input.expiresInHours > 0)) {
+      throw new SessionError('expiresInHours must be a positive number', 400);
+    }
+    if (!input.candidateName?.trim()) throw new SessionError('candidateName is required', 400);
+    if (!input.candidateEmail?.trim()) throw new SessionError('candidateEmail is required', 400);
+    const pack = await requirePack(input.challengePack ?? DEFAULT_CHALLENGE_PACK);
+    await validateSettings(input, pack);
+
+    const now = new Date();
+    const inviteHours = input.expiresInHours ?? DEFAULT_INVITE_HOURS;
+    const enabledLevels = normalizeLevels(input.enabledLevels ?? packLevels(pack));
+    const session: Session = {
+      id: uuidv4(),
+      candidateName: input.candidateName.trim(),
+      candidateEmail: input.candidateEmail.trim(),
+      seniority: input.seniority ?? 'mid',
+      status: 'pending',
+      currentLevel: enabledLevels[0],
+      enabledLevels,
+      hintPolicy: input.hintPolicy ?? DEFAULT_CHALLENGE_CONFIG.hintPolicy,
+      maxHints: input.maxHints ?? DEFAULT_CHALLENGE_CONFIG.maxHints,
+      challengePack: pack.id,
+      scenario: input.scenario ?? pack.filesystem,
+      timeLimitMinutes: input.timeLimitMinutes ?? DEFAULT_TIME_LIMIT_MINUTES,
+      createdAt: now.toISOString(),
+      startedAt: null,
+      completedAt: null,
+      pausedAt: null,
+      pausedMs: 0,
+      pairProgramming: input.pairProgramming ?? false,
+      driver: 'candidate',
+      expiresAt: new Date(now.getTime() + inviteHours * 3600_000).toISOString(),
+      integrityScore: null,
+      eventCount: 0,
+    };
+    const interviewerToken = uuidv4();
+    await this.write(session);
+    await fs.writeFile(this.tokenPath(session.id), interviewerToken, { encoding: 'utf-8', mode: 0o600 });
+    return { ...session, interviewerToken };
+  }
+
+  /** Whether a token is the one issued to the interviewer when the session was created */
+  async isInterviewer(id: string, token: string | null): Promise<boolean> {
+    if (!token || !isValidId(id)) return false;
+    let expected: string;
+    try {
+      expected = await fs.readFile(this.tokenPath(id), 'utf-8');
+    } catch {
+      return false;
+    }
+    const given = Buffer.from(token);
+    const wanted = Buffer.from(expected);
+    return given.length === wanted.length && timingSafeEqual(given, wanted);
+  }
+
+  async update(id: string, changes: UpdateSessionInput): Promise<Session> {
+    return this.exclusive(id, () => this.applyUpdate(id, changes));
+  }
+
+  private async applyUpdate(id: string, changes: UpdateSessionInput): Promise<Session> {
+    checkFieldTypes(changes);
+    let session = await this.require(id);
+    const packChanged = changes.challengePack !== undefined && changes.challengePack !== session.challengePack;
+    if (packChanged && session.status !== 'pending') {
+      throw new SessionError('The challenge pack can only be changed before the session starts', 409);
+    }
+    const pack = await requirePack(changes.challengePack ?? session.challengePack);
+    await validateSettings(changes, pack);
+    if (changes.currentLevel !== undefined && !(Number.isInteger(changes.currentLevel) && pack.levels[changes.currentLevel])) {
+      throw new SessionError(`Unknown level ${changes.currentLevel}`, 400);
+    }
+
+    const { status, ...fields } = changes;
+    session = { ...session, ...fields };
+    // Levels chosen for the old pack mean nothing in the new one, and it brings its own filesystem
+    if (packChanged) {
+      fields.enabledLevels ??= packLevels(pack);
+      session.scenario = fields.scenario ?? pack.filesystem;
+    }
+    if (fields.enabledLevels) {
+      session.enabledLevels = normalizeLevels(fields.enabledLevels);
+      // A session that hasn't started yet opens on its first enabled level
+      if (session.status === 'pending' && fields.currentLevel === undefined) {
+        session.currentLevel = session.enabledLevels[0];
+      }
+    }
+    if (status && status !== session.status) {
+      session = await this.transition(session, status);
+    }
+    await this.write(session);
+    return session;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const session = await this.read(id);
+    if (!session) return false;
+    await fs.rm(this.sessionPath(id), { force: true });
+    await fs.rm(this.eventsPath(id), { force: true });
+    await fs.rm(this.tokenPath(id), { force: true });
+    return true;
+  }
+
+  /**
+   * Append events to a session's log. The first events start a pending
+   * session; `level_advance` events move its current level.
+   */
+  async appendEvents(id: string, events: StoredEvent[]): Promise<Session> {
+    return this.exclusive(id, () => this.applyEvents(id, events));
+  }
+
+  private async applyEvents(id: string, events: StoredEvent[]): Promise<Session> {
+    let session = await this.require(id);
+    if (session.status === 'completed' || session.status === 'expired') {
+      throw new SessionError(`Session is ${session.status}`, 409);
+    }
+    if (events.length === 0) return session;
+
+    // Interviewer messages alone don't start the candidate's clock
+    if (session.status === 'pending' && events.some(e => !isInterviewerEvent(e))) {
+      session = await this.transition(session, 'active');
+    }
+    for (const event of events) {
+      if (event.type === 'level_advance' && typeof event.level === 'number') {
+        session.currentLevel = Math.max(session.currentLevel, event.level);
+      }
+      if (event.type === 'time_extended' && typeof event.minutes === 'number') {
+        session.timeLimitMinutes += event.minutes;
+      }
+      if (event.type === 'pause') {
+        session = applyPause(session, event.paused === true, event.timestamp);
+      }
+      if (event.type === 'driver_change') {
+        session.driver = event.driver === 'interviewer' ? 'interviewer' : 'candidate';
+      }
+    }
+
+    const lines = events.map(e => JSON.stringify(e) + '\n').join('');
+    await fs.appendFile(this.eventsPath(id), lines, 'utf-8');
+    session.eventCount += events.length;
+    await this.write(session);
+    return session;
+  }
+
+  /** The session's recorded events, optionally only those after a timestamp */
+  async getEvents(id: string, since?: number): Promise<StoredEvent[]> {
+    if (!(await this.get(id))) throw new SessionError('Session not found', 404);
+    let content: string;
+    try {
+      content = await fs.readFile(this.eventsPath(id), 'utf-8');
+    } catch {
+      return [];
+    }
+
+    const events: StoredEvent[] = [];
+    for (const line of content.split('\n')) {
+      if (!line) continue;
+      try {
+        const event: unknown = JSON.parse(line);
+        // Logs written before events were validated may hold entries no reader understands
+        if (!isSessionEvent(event)) continue;
+        if (since === undefined || event.timestamp > since) events.push(event);
+      } catch {
+        // Skip a torn final line from an interrupted write
+      }
+    }
+    return events;
+  }
+
+  private exclusive<T>(id: string, fn: () => Promise<T>): Promise<T> {
+    const previous = this.locks.get(id) ?? Promise.resolve();
+    const run = previous.catch(() => undefined).then(fn);
+    this.locks.set(id, run);
+    run.finally(() => {
+      if (this.locks.get(id) === run) this.locks.delete(id);
+    }).catch(() => undefined);
+    return run;
+  }
+
+  private async transition(session: Session, status: SessionStatus): Promise<Session> {
+    if (!TRANSITIONS[session.status].includes(status)) {
+      throw new SessionError(`Cannot change session from ${session.status} to ${status}`, 409);
+    }
+
+    const now = new Date().toISOString();
+    const next: Session = { ...session, status };
+    if (status === 'active') next.startedAt = now;
+    if (status === 'completed') {
+      next.completedAt = now;
+      next.integrityScore = buildIntegrityReport(await this.getEvents(session.id)).score;
+    }
+    return next;
+  }
+
+  /** Pending sessions expire at expiresAt; active ones when their time limit runs out */
+  private expiryDue(session: Session): boolean {
+    const now = Date.now();
+    if (session.status === 'pending') return now > Date.parse(session.expiresAt);
+    if (session.status === 'active' && session.startedAt && !session.pausedAt) {
+      return now > Date.parse(session.startedAt) + (session.pausedMs ?? 0) + session.timeLimitMinutes * 60_000;
+    }
+    return false;
+  }
+
+  /** Like `get`, for callers already holding the session's lock */
+  private async load(id: string): Promise<Session | null> {
+    const session = await this.read(id);
+    if (session && this.expiryDue(session)) {
+      session.status = 'expired';
+      await this.write(session);
+    }
+    return session;
+  }
+
+  private async require(id: string): Promise<Session> {
+    const session = await this.load(id);
+    if (!session) throw new SessionError('Session not found', 404);
+    return session;
+  }
+
+  private async read(id: string): Promise<Session | null> {
+    if (!isValidId(id)) return null;
+    try {
+      const session = JSON.parse(await fs.readFile(this.sessionPath(id), 'utf-8')) as Session;
+      return { ...session, challengePack: session.challengePack ?? DEFAULT_CHALLENGE_PACK };
+    } catch {
+      return null;
+    }
+  }
+
+  /** Write via a temp file and rename so a crash never leaves half a document */
+  private async write(session: Session): Promise<void> {
+    await this.ensureDir();
+    const target = this.sessionPath(session.id);
+    // Unique per write, so two writes racing to the same session never share a temp file
+    const temp = `${target}.${process.pid}.${randomUUID()}.tmp`;
+    await fs.writeFile(temp, JSON.stringify(session, null, 2), 'utf-8');
+    await fs.rename(temp, target);
+  }
+
+  private async ensureDir(): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+  }
+
+  private sessionPath(id: string): string {
+    return path.join(this.dir, `${id}.json`);
+  }
+
+  private eventsPath(id: string): string {
+    return path.join(this.dir, `${id}.events.jsonl`);
+  }
+
+  private tokenPath(id: string): string {
+    return path.join(this.dir, `${id}.interviewer`);
+  }
+}
+
+/** Event types only the message route may record; candidates' event batches can't contain them */
+const INTERVIEWER_EVENT_TYPES = ['time_extended', 'pause', 'driver_change'];
+
+export function isInterviewerEvent(event: StoredEvent): boolean {
+  return INTERVIEWER_EVENT_TYPES.includes(event.type) || ('from' in event && event.from === 'interviewer');
+}
+
+function applyPause(session: Session, paused: boolean, timestamp: number): Session {
+  if (paused && !session.pausedAt) {
+    return { ...session, pausedAt: new Date(timestamp).toISOString() };
+  }
+  if (!paused && session.pausedAt) {
+    const pausedMs = (session.pausedMs ?? 0) + Math.max(0, timestamp - Date.parse(session.pausedAt));
+    return { ...session, pausedAt: null, pausedMs };
+  }
+  return session;
+}
+
+/** Reject settings the challenge can't run with; missing fields are left to their defaults */
+/** Bodies reach the store as parsed JSON; check the text fields are text before anything trims or looks them up */
+function checkFieldTypes(input: CreateSessionInput | UpdateSessionInput): void {
+  for (const field of ['candidateName', 'candidateEmail', 'challengePack', 'scenario'] as const) {
+    if (input[field] !== undefined && typeof input[field] !== 'string') {
+      throw new SessionError(`${field} must be a string`, 400);
+    }
+  }
+}
+
+async function validateSettings(input: CreateSessionInput | UpdateSessionInput, pack: ChallengePack): Promise<void> {
+  if (input.seniority !== undefined && !SENIORITY_ORDER.includes(input.seniority)) {
+    throw new SessionError(`seniority must be one of ${SENIORITY_ORDER.join(', ')}`, 400);
+  }
+  if (input.hintPolicy !== undefined && !HINT_POLICIES.includes(input.hintPolicy)) {
+    throw new SessionError(`hintPolicy must be one of ${HINT_POLICIES.join(', ')}`, 400);
+  }
+  if (input.maxHints !== undefined && input.maxHints !== null && !(Number.isInteger(input.maxHints) && input.maxHints >= 0)) {
+    throw new SessionError('maxHints must be a non-negative integer or null', 400);
+  }
+  if (input.pairProgramming !== undefined && typeof input.pairProgramming !== 'boolean') {
+    throw new SessionError('pairProgramming must be a boolean', 400);
+  }
+  if (input.timeLimitMinutes !== undefined && !(Number.isInteger(input.timeLimitMinutes) && input.timeLimitMinutes > 0)) {
+    throw new SessionError('timeLimitMinutes must be a positive integer', 400);
+  }
+  if (input.enabledLevels !== undefined) {
+    if (!Array.isArray(input.enabledLevels) || input.enabledLevels.length === 0 || !input.enabledLevels.every(Number.isInteger)) {
+      throw new SessionError('enabledLevels must list at least one level number', 400);
+    }
+    const unknown = input.enabledLevels.filter(level => !pack.levels[level]);
+    if (unknown.length > 0) throw new SessionError(`Unknown level(s): ${unknown.join(', ')}`, 400);
+  }
+  if (input.scenario !== undefined) {
+    if (!(await scenarioExists(input.scenario))) throw new SessionError(`Unknown scenario: ${input.scenario}`, 400);
+    // The pack's objectives look for its own project, which other scenarios don't have
+    if (!pack.scenarios.includes(input.scenario)) {
+      throw new SessionError(`Scenario ${input.scenario} doesn't go with the ${pack.id} challenge pack (use ${pack.scenarios.join(' or ')})`, 400);
+    }
+  }
+}
+
+async function requirePack(id: string): Promise<ChallengePack> {
+  const pack = await loadChallengePack(id);
+  if (!pack) throw new SessionError(`Unknown challenge pack: ${id}`, 400);
+  return pack;
+}
+
+function normalizeLevels(levels: number[]): number[] {
+  return Array.from(new Set(levels)).sort((a, b) => a - b);
+}
+
+/** Ids end up in file names, so only accept what uuid (or a simple slug) produces */
+function isValidId(id: string): boolean {
+  return /^[A-Za-z0-9_-]+$/.test(id);
+}
+
+/** Integrity report for a session's recorded events */
+export function buildIntegrityReport(events: StoredEvent[]): IntegrityReport {
+  const pasteDetector = new PasteDetector();
+  for (const event of events) {
+    if (event.type === 'paste' && event.participant !== 'interviewer') {
+      pasteDetector.recordClipboardPaste(event.content);
+    }
+  }
+  return new IntegrityScorer().generateReport(events, pasteDetector);
+}
+
+let store: SessionStore | null = null;
+
+/** The process-wide store used by the API routes */
+export function getSessionStore(): SessionStore {
+  if (!store) {
+    store = new SessionStore(process.env.SESSION_DATA_DIR || path.join(process.cwd(), 'data', 'sessions'));
+  }
+  return store;
+}
@@ -0,0 +1,81 @@
+import { SessionError, StoredEvent } from './SessionStore';
+import type { Participant } from '../terminal/TerminalEngine';
+import { TERMINAL_INPUT } from '../realtime/LiveSessionClient';
+
+/** What interviewers (and candidates, for chat) post to /api/sessions/{id}/messages */
+export type SessionMessage =
+  | { type: 'chat'; from: 'interviewer' | 'candidate'; text: string }
+  | { type: 'hint'; text: string }
+  | { type: 'extend_time'; minutes: number }
+  | { type: 'pause' }
+  | { type: 'resume' }
+  | { type: 'control'; driver: Participant }
+  | { type: 'input'; data: string };
+
+const MAX_TEXT_LENGTH = 2000;
+const MAX_EXTENSION_MINUTES = 240;
+
+/** Interviewer keystrokes, relayed to the candidate's terminal but never recorded */
+export interface RelayedInput {
+  type: typeof TERMINAL_INPUT;
+  data: string;
+  timestamp: number;
+}
+
+/** Validate a posted message and turn it into the event recorded in the session log (or, for input, relayed) */
+export function messageToEvent(body: Record<string, unknown>, timestamp: number = Date.now()): StoredEvent | RelayedInput {
+  switch (body.type) {
+    case 'chat': {
+      if (body.from !== 'interviewer' && body.from !== 'candidate') {
+        throw new SessionError("chat messages need from: 'interviewer' or 'candidate'", 400);
+      }
+      return { type: 'chat', from: body.from, text: requireText(body.text), timestamp };
+    }
+    case 'hint':
+      // Recorded like a hint the candidate asked for, so it counts in the integrity report
+      return { type: 'hint_used', hintId: `interviewer-${timestamp}`, from: 'interviewer', text: requireText(body.text), timestamp };
+    case 'extend_time': {
+      const minutes = body.minutes;
+      if (typeof minutes !== 'number' || !Number.isInteger(minutes) || minutes < 1 || minutes > MAX_EXTENSION_MINUTES) {
+        throw new SessionError(`minutes must be a whole number from 1 to ${MAX_EXTENSION_MINUTES}`, 400);
+      }
+      return { type: 'time_extended', minutes, timestamp };
+    }
+    case 'pause':
+    case 'resume':
+      return { type: 'pause', paused: body.type === 'pause', timestamp };
+    case 'control': {
+      if (body.driver !== 'interviewer' && body.driver !== 'candidate') {
+        throw new SessionError("control messages need driver: 'interviewer' or 'candidate'", 400);
+      }
+      return { type: 'driver_change', driver: body.driver, timestamp };
+    }
+    case 'input': {
+      // Sent as typed, so whitespace and control characters are significant
+      const data = body.data;
+      if (typeof data !== 'string' || data.length === 0 || data.length > MAX_TEXT_LENGTH) {
+        throw new SessionError(`data must be 1 to ${MAX_TEXT_LENGTH} characters`, 400);
+      }
+      return { type: TERMINAL_INPUT, data, timestamp };
+    }
+    default:
+      throw new SessionError('type must be one of chat, hint, extend_time, pause, resume, control, input', 400);
+  }
+}
+
+/**
+ * Whether only the interviewer may send this: everything except the
+ * candidate's own chat and the candidate taking the keyboard back
+ */
+export function requiresInterviewer(event: StoredEvent | RelayedInput): boolean {
+  if (event.type === 'chat') return event.from === 'interviewer';
+  if (event.type === 'driver_change') return event.driver === 'interviewer';
+  return true;
+}
+
+function requireText(value: unknown): string {
+  const text = typeof value === 'string' ? value.trim() : '';
+  if (!text) throw new SessionError('text is required', 400);
+  if (text.length > MAX_TEXT_LENGTH) throw new SessionError(`text must be at most ${MAX_TEXT_LENGTH} characters`, 400);
+  return text;
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { SessionError } from './SessionStore';
+import { ChallengePackError } from '../challenges/ChallengePack';
+
+/** Turn a thrown error into the API's `{ error }` JSON response */
+export function errorResponse(err: unknown, fallback: string): NextResponse {
+  if (err instanceof SessionError) {
+    return NextResponse.json({ error: err.message }, { status: err.status });
+  }
+  if (err instanceof ChallengePackError) {
+    // A broken pack file is a deployment problem; say where so it can be fixed
+    return NextResponse.json({ error: `Invalid challenge pack: ${err.message}` }, { status: 500 });
+  }
+  console.error(`${fallback}:`, err);
+  return NextResponse.json({ error: fallback }, { status: 500 });
+}
+
+/** Parse a JSON request body, or null when it isn't a JSON object */
+export async function readJsonBody(request: Request): Promise<Record<string, unknown> | null> {
+  try {
+    const body = await request.json();
+    return body && typeof body === 'object' && !Array.isArray(body) ? body : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,265 @@
+/**
+ * Shell arithmetic for `$((...))`: integers, bash's C-like operators and
+ * variables by name. Unset or empty variables count as 0; a variable
+ * holding an expression is evaluated in turn, as bash does.
+ */
+
+export class ArithmeticError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ArithmeticError';
+  }
+}
+
+/** How arithmetic reads and assigns shell variables */
+export interface ArithmeticScope {
+  get(name: string): string | undefined;
+  set(name: string, value: string): void;
+}
+
+type Node =
+  | { kind: 'number'; value: number }
+  | { kind: 'name'; name: string }
+  | { kind: 'unary'; op: string; operand: Node }
+  | { kind: 'update'; op: '++' | '--'; prefix: boolean; name: string }
+  | { kind: 'binary'; op: string; left: Node; right: Node }
+  | { kind: 'assign'; op: string; name: string; value: Node }
+  | { kind: 'ternary'; condition: Node; then: Node; otherwise: Node };
+
+const OPERATORS = [
+  '<<=', '>>=', '**', '++', '--', '<<', '>>', '<=', '>=', '==', '!=', '&&', '||',
+  '*=', '/=', '%=', '+=', '-=', '&=', '^=', '|=',
+  '+', '-', '*', '/', '%', '<', '>', '&', '^', '|', '!', '~', '?', ':', '=', ',', '(', ')',
+];
+
+/** Binary operators from loosest to tightest binding; ** is right-associative */
+const PRECEDENCE: Record<string, number> = {
+  '||': 1, '&&': 2, '|': 3, '^': 4, '&': 5, '==': 6, '!=': 6,
+  '<': 7, '>': 7, '<=': 7, '>=': 7, '<<': 8, '>>': 8, '+': 9, '-': 9, '*': 10, '/': 10, '%': 10, '**': 11,
+};
+
+const MAX_DEPTH = 64;
+
+/** Evaluate an expression as bash's `$((...))` does; throws ArithmeticError with bash's message */
+export function evaluateArithmetic(expression: string, scope: ArithmeticScope, depth = 0): number {
+  if (depth > MAX_DEPTH) throw new ArithmeticError(`${expression}: expression recursion level exceeded`);
+  if (expression.trim() === '') return 0;
+  const tokens = tokenize(expression);
+  const parser = new Parser(expression, tokens);
+  const tree = parser.parseExpression();
+  if (parser.pos < tokens.length) parser.fail('syntax error in expression', tokens[parser.pos]);
+  return evaluate(tree, expression, scope, depth);
+}
+
+function tokenize(expression: string): string[] {
+  const tokens: string[] = [];
+  let i = 0;
+  while (i < expression.length) {
+    const rest = expression.slice(i);
+    const blank = /^\s+/.exec(rest);
+    if (blank) {
+      i += blank[0].length;
+      continue;
+    }
+    const word = /^(?:0[xX][0-9a-fA-F]+|\d+#[0-9a-zA-Z@_]+|\w+)/.exec(rest);
+    const token = word?.[0] ?? OPERATORS.find(op => rest.startsWith(op));
+    if (token === undefined) {
+      throw new ArithmeticError(`${expression}: syntax error: invalid arithmetic operator (error token is "${rest}")`);
+    }
+    tokens.push(token);
+    i += token.length;
+  }
+  return tokens;
+}
+
+class Parser {
+  pos = 0;
+
+  constructor(private expression: string, private tokens: string[]) {}
+
+  fail(message: string, token: string | undefined): never {
+    const rest = token === undefined ? '' : this.tokens.slice(this.pos).join(' ');
+    throw new ArithmeticError(`${this.expression}: ${message} (error token is "${rest}")`);
+  }
+
+  private peek(): string | undefined {
+    return this.tokens[this.pos];
+  }
+
+  /** Comma-separated expressions; the value is the last one's */
+  parseExpression(): Node {
+    let node = this.parseAssignment();
+    while (this.peek() === ',') {
+      this.pos++;
+      node = { kind: 'binary', op: ',', left: node, right: this.parseAssignment() };
+    }
+    return node;
+  }
+
+  private parseAssignment(): Node {
+    const name = this.peek();
+    const op = this.tokens[this.pos + 1];
+    if (name !== undefined && /^[A-Za-z_]\w*$/.test(name) && op !== undefined && /^(?:[*/%+\-&^|]|<<|>>)?=$/.test(op)) {
+      this.pos += 2;
+      return { kind: 'assign', op, name, value: this.parseAssignment() };
+    }
+    return this.parseTernary();
+  }
+
+  private parseTernary(): Node {
+    const condition = this.parseBinary(1);
+    if (this.peek() !== '?') return condition;
+    this.pos++;
+    const then = this.parseExpression();
+    if (this.peek() !== ':') this.fail("expected `:' for conditional expression", this.peek());
+    this.pos++;
+    return { kind: 'ternary', condition, then, otherwise: this.parseTernary() };
+  }
+
+  private parseBinary(minPrecedence: number): Node {
+    let left = this.parseUnary();
+    for (;;) {
+      const op = this.peek();
+      const precedence = op === undefined ? undefined : PRECEDENCE[op];
+      if (precedence === undefined || precedence < minPrecedence) return left;
+      this.pos++;
+      const right = this.parseBinary(op === '**' ? precedence : precedence + 1);
+      left = { kind: 'binary', op: op!, left, right };
+    }
+  }
+
+  private parseUnary(): Node {
+    const token = this.peek();
+    if (token === '++' || token === '--') {
+      this.pos++;
+      const name = this.peek();
+      if (name === undefined || !/^[A-Za-z_]\w*$/.test(name)) this.fail('syntax error: operand expected', name);
+      this.pos++;
+      return { kind: 'update', op: token, prefix: true, name };
+    }
+    if (token === '-' || token === '+' || token === '!' || token === '~') {
+      this.pos++;
+      return { kind: 'unary', op: token, operand: this.parseUnary() };
+    }
+    return this.parsePostfix();
+  }
+
+  private parsePostfix(): Node {
+    const token = this.peek();
+    if (token === undefined) this.fail('syntax error: operand expected', token);
+    this.pos++;
+    if (token === '(') {
+      const inner = this.parseExpression();
+      if (this.peek() !== ')') this.fail("missing `)'", this.peek());
+      this.pos++;
+      return inner;
+    }
+    if (/^[A-Za-z_]\w*$/.test(token)) {
+      const next = this.peek();
+      if (next === '++' || next === '--') {
+        this.pos++;
+        return { kind: 'update', op: next, prefix: false, name: token };
+      }
+      return { kind: 'name', name: token };
+    }
+    const value = parseNumber(token);
+    if (value === null) {
+      this.pos--;
+      this.fail(/^\d/.test(token) ? 'value too great for base' : 'syntax error: operand expected', token);
+    }
+    return { kind: 'number', value };
+  }
+}
+
+/** Decimal, 0x hex, leading-0 octal or base#digits */
+function parseNumber(token: string): number | null {
+  const based = /^(\d+)#([0-9a-zA-Z@_]+)$/.exec(token);
+  if (based) {
+    const base = Number(based[1]);
+    if (base < 2 || base > 64) return null;
+    const digits = '0123456789abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ@_';
+    let value = 0;
+    for (const char of based[2]) {
+      const digit = digits.indexOf(base <= 36 ? char.toLowerCase() : char);
+      if (digit === -1 || digit >= base) return null;
+      value = value * base + digit;
+    }
+    return value;
+  }
+  if (/^0[xX][0-9a-fA-F]+$/.test(token)) return parseInt(token.slice(2), 16);
+  if (/^0[0-7]*$/.test(token)) return parseInt(token, 8) || 0;
+  if (/^[1-9]\d*$/.test(token)) return Number(token);
+  return null;
+}
+
+function evaluate(node: Node, expression: string, scope: ArithmeticScope, depth: number): number {
+  const value = (n: Node) => evaluate(n, expression, scope, depth);
+  const variable = (name: string) => {
+    const text = scope.get(name)?.trim() ?? '';
+    return text === '' ? 0 : evaluateArithmetic(text, scope, depth + 1);
+  };
+
+  switch (node.kind) {
+    case 'number':
+      return node.value;
+    case 'name':
+      return variable(node.name);
+    case 'unary': {
+      const operand = value(node.operand);
+      if (node.op === '-') return -operand;
+      if (node.op === '!') return operand === 0 ? 1 : 0;
+      if (node.op === '~') return ~operand;
+      return operand;
+    }
+    case 'update': {
+      const before = variable(node.name);
+      const after = node.op === '++' ? before + 1 : before - 1;
+      scope.set(node.name, String(after));
+      return node.prefix ? after : before;
+    }
+    case 'assign': {
+      const assigned = node.op === '='
+        ? value(node.value)
+        : apply(node.op.slice(0, -1), variable(node.name), value(node.value), expression);
+      scope.set(node.name, String(assigned));
+      return assigned;
+    }
+    case 'ternary':
+      return value(node.condition) !== 0 ? value(node.then) : value(node.otherwise);
+    case 'binary':
+      if (node.op === '&&') return value(node.left) !== 0 && value(node.right) !== 0 ? 1 : 0;
+      if (node.op === '||') return value(node.left) !== 0 || value(node.right) !== 0 ? 1 : 0;
+      if (node.op === ',') {
+        value(node.left);
+        return value(node.right);
+      }
+      return apply(node.op, value(node.left), value(node.right), expression);
+  }
+}
+
+function apply(op: string, left: number, right: number, expression: string): number {
+  switch (op) {
+    case '+': return left + right;
+    case '-': return left - right;
+    case '*': return left * right;
+    case '/':
+    case '%':
+      if (right === 0) throw new ArithmeticError(`${expression}: division by 0 (error token is "${String(right)}")`);
+      return op === '/' ? Math.trunc(left / right) : left % right;
+    case '**':
+      if (right < 0) throw new ArithmeticError(`${expression}: exponent less than 0 (error token is "${String(right)}")`);
+      return left ** right;
+    case '<<': return left << right;
+    case '>>': return left >> right;
+    case '<': return left < right ? 1 : 0;
+    case '>': return left > right ? 1 : 0;
+    case '<=': return left <= right ? 1 : 0;
+    case '>=': return left >= right ? 1 : 0;
+    case '==': return left === right ? 1 : 0;
+    case '!=': return left !== right ? 1 : 0;
+    case '&': return left & right;
+    case '^': return left ^ right;
+    case '|': return left | right;
+    default: throw new ArithmeticError(`${expression}: syntax error: invalid arithmetic operator (error token is "${op}")`);
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * Where the shell gets the time and random numbers from. Commands go
+ * through the session's clock rather than Date and Math.random so a
+ * recorded session can be re-run with the same output.
+ */
+export interface Clock {
+  now(): number;
+  /** A number in [0, 1), like Math.random */
+  random(): number;
+}
+
+/** Wall-clock time; random numbers come from a seeded sequence when a seed is given */
+export class SystemClock implements Clock {
+  private rng: () => number;
+
+  constructor(seed?: string) {
+    this.rng = seed === undefined ? Math.random : seededRandom(seed);
+  }
+
+  now(): number {
+    return Date.now();
+  }
+
+  random(): number {
+    return this.rng();
+  }
+}
+
+/** Time that only moves when it's set, for re-running input at the moment it was recorded */
+export class FakeClock implements Clock {
+  private time: number;
+  private rng: () => number;
+
+  constructor(time: number, seed: string = '') {
+    this.time = time;
+    this.rng = seededRandom(seed);
+  }
+
+  set(time: number): void {
+    this.time = time;
+  }
+
+  now(): number {
+    return this.time;
+  }
+
+  random(): number {
+    return this.rng();
+  }
+}
+
+/** mulberry32, seeded with an FNV-1a hash of the seed string */
+export function seededRandom(seed: string): () => number {
+  let state = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    state = Math.imul(state ^ seed.charCodeAt(i), 0x01000193);
+  }
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -1,6 +1,30 @@
 import { VirtualFileSystem } from './VirtualFileSystem';
+import { Clock, SystemClock } from './Clock';
+import type { CommandNode } from './CommandParser';
+import { ChallengePack, EMPTY_PACK, packLevels } from '../challenges/ChallengePack';
 
-export interface ChallengeState {
+/**
+ * Which hints a candidate may request: those meant for their seniority,
+ * every hint regardless of seniority, or none at all
+ */
+export type HintPolicy = 'seniority' | 'all' | 'none';
+
+/** Per-session challenge settings chosen when the interview is created */
+export interface ChallengeConfig {
+  /** Levels the candidate plays, in order */
+  enabledLevels: number[];
+  hintPolicy: HintPolicy;
+  /** Cap on hints for the whole session; null for no cap */
+  maxHints: number | null;
+}
+
+/** Levels default to every level in the session's challenge pack */
+export const DEFAULT_CHALLENGE_CONFIG: Omit<ChallengeConfig, 'enabledLevels'> = {
+  hintPolicy: 'seniority',
+  maxHints: null,
+};
+
+export interface ChallengeState extends ChallengeConfig {
   currentLevel: number;
   seniority: 'junior' | 'mid' | 'senior' | 'lead' | 'principal';
   completedObjectives: string[];
@@ -17,10 +41,28 @@ export class CommandContext {
   exitCode: number;
   user: string;
   hostname: string;
+  /** Positional parameters ($1, $2, ...) of the running script or function */
+  positionalArgs: string[];
+  /** `$0`: the shell, or the path of the running script */
+  scriptName: string;
+  functions: Map<string, CommandNode>;
+  aliases: Map<string, string>;
+  /** Time and randomness for commands; a fixed clock when a session is replayed */
+  clock: Clock;
+  /** The interview being played: levels, objectives and hints */
+  pack: ChallengePack;
 
-  constructor(fs: VirtualFileSystem, seniority: ChallengeState['seniority'] = 'mid') {
+  constructor(
+    fs: VirtualFileSystem,
+    seniority: ChallengeState['seniority'] = 'mid',
+    config: Partial<ChallengeConfig> = {},
+    clock: Clock = new SystemClock(),
+    pack: ChallengePack = EMPTY_PACK
+  ) {
     this.fs = fs;
-    this.cwd = '/opt/fleetcore';
+    this.clock = clock;
+    this.pack = pack;
+    this.cwd = pack.root;
     this.env = {
       HOME: '/home/candidate',
       USER: 'candidate',
@@ -28,19 +70,25 @@ export class CommandContext {
       SHELL: '/bin/bash',
       TERM: 'xterm-256color',
       NODE_ENV: 'development',
-      PWD: '/opt/fleetcore',
+      PWD: pack.root,
     };
+    const challengeConfig = { ...DEFAULT_CHALLENGE_CONFIG, enabledLevels: packLevels(pack), ...config };
     this.challenge = {
-      currentLevel: 1,
+      ...challengeConfig,
+      currentLevel: challengeConfig.enabledLevels[0] ?? 1,
       seniority,
       completedObjectives: [],
       hintsUsed: [],
-      startTime: Date.now(),
-      levelStartTime: Date.now(),
+      startTime: clock.now(),
+      levelStartTime: clock.now(),
     };
     this.exitCode = 0;
     this.user = 'candidate';
     this.hostname = 'fleetcore';
+    this.positionalArgs = [];
+    this.scriptName = 'bash';
+    this.functions = new Map();
+    this.aliases = new Map();
   }
 
   get prompt(): string {
@@ -52,6 +100,17 @@ export class CommandContext {
     return `\x1b[32m${this.user}@${this.hostname}\x1b[0m:\x1b[34m${cwdDisplay}\x1b[0m$ `;
   }
 
+  /** A child context for subshells: shares the filesystem and challenge, copies cwd, env and shell state */
+  fork(): CommandContext {
+    const child = Object.create(CommandContext.prototype) as CommandContext;
+    Object.assign(child, this);
+    child.env = { ...this.env };
+    child.positionalArgs = [...this.positionalArgs];
+    child.functions = new Map(this.functions);
+    child.aliases = new Map(this.aliases);
+    return child;
+  }
+
   resolvePath(path: string): string {
     // Expand ~ to home directory
     if (path.startsWith('~')) {
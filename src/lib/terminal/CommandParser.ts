@@ -1,165 +1,839 @@
 export interface ParsedCommand {
   command: string;
   args: string[];
+  /** Every argument exactly as given, for handlers that parse their own options */
+  argv: string[];
   rawArgs: string;
   flags: Record<string, string | boolean>;
-  inputRedirect?: string;
-  outputRedirect?: { file: string; append: boolean };
 }
 
-export interface Pipeline {
-  commands: ParsedCommand[];
-  operators: Array<'|' | '&&' | '||' | ';'>;
+// --- Shell AST ---
+
+export type WordPart =
+  | { type: 'literal'; value: string; quoted: boolean }
+  | { type: 'variable'; name: string; quoted: boolean }
+  /** `${name<op>word}`; `/` operators also carry the replacement after the second slash */
+  | { type: 'parameter'; name: string; op: ParameterOperator; word: WordNode; replacement: WordNode | null; quoted: boolean }
+  /** `${...}` that isn't a valid parameter expansion; bash only complains when it's expanded */
+  | { type: 'badSubstitution'; text: string; quoted: boolean }
+  | { type: 'substitution'; body: ListNode; quoted: boolean }
+  /** `$((expression))`, whose text is expanded before it's evaluated */
+  | { type: 'arithmetic'; expression: WordNode; quoted: boolean };
+
+/** `length` is `${#name}`; the rest are written between the name and the word */
+export type ParameterOperator =
+  | 'length'
+  | ':-' | '-' | ':=' | '=' | ':+' | '+' | ':?' | '?'
+  | '#' | '##' | '%' | '%%'
+  | '/' | '//' | '/#' | '/%'
+  | ':'
+  | '^' | '^^' | ',' | ',,';
+
+export interface WordNode {
+  type: 'word';
+  parts: WordPart[];
 }
 
-export class CommandParser {
-  /** Parse raw input into a Pipeline (handles pipes, &&, ||, ;) */
-  parse(input: string): Pipeline {
-    const segments = this.splitPipeline(input);
-    const commands: ParsedCommand[] = [];
-    const operators: Array<'|' | '&&' | '||' | ';'> = [];
+export type RedirectOperator = '>' | '>>' | '<' | '>&' | '&>' | '&>>';
 
-    for (const seg of segments) {
-      if (seg.type === 'operator') {
-        operators.push(seg.value as '|' | '&&' | '||' | ';');
-      } else {
-        commands.push(this.parseCommand(seg.value));
-      }
-    }
+export interface RedirectNode {
+  type: 'redirect';
+  op: RedirectOperator;
+  /** File descriptor being redirected (`2>` is fd 2); `&>` and `&>>` cover both 1 and 2 */
+  fd: number;
+  target: WordNode;
+}
 
-    return { commands, operators };
-  }
+export interface SimpleCommandNode {
+  type: 'command';
+  words: WordNode[];
+  redirects: RedirectNode[];
+}
+
+/** `( list )` — runs in a forked context */
+export interface SubshellNode {
+  type: 'subshell';
+  body: ListNode;
+  redirects: RedirectNode[];
+}
+
+/** `{ list; }` — runs in the current context */
+export interface GroupNode {
+  type: 'group';
+  body: ListNode;
+  redirects: RedirectNode[];
+}
+
+export interface IfNode {
+  type: 'if';
+  clauses: Array<{ condition: ListNode; body: ListNode }>;
+  elseBody: ListNode | null;
+  redirects: RedirectNode[];
+}
+
+/** `for name [in words]; do list; done` — without `in`, iterates the positional args */
+export interface ForNode {
+  type: 'for';
+  variable: string;
+  items: WordNode[] | null;
+  body: ListNode;
+  redirects: RedirectNode[];
+}
+
+export interface WhileNode {
+  type: 'while';
+  until: boolean;
+  condition: ListNode;
+  body: ListNode;
+  redirects: RedirectNode[];
+}
+
+export interface CaseNode {
+  type: 'case';
+  word: WordNode;
+  items: Array<{ patterns: WordNode[]; body: ListNode }>;
+  redirects: RedirectNode[];
+}
+
+export interface FunctionNode {
+  type: 'function';
+  name: string;
+  body: CommandNode;
+}
+
+export type CommandNode =
+  | SimpleCommandNode
+  | SubshellNode
+  | GroupNode
+  | IfNode
+  | ForNode
+  | WhileNode
+  | CaseNode
+  | FunctionNode;
+
+export interface PipelineNode {
+  type: 'pipeline';
+  commands: CommandNode[];
+  negated: boolean;
+}
+
+export type ListOperator = '&&' | '||' | ';';
+
+export interface ListNode {
+  type: 'list';
+  pipelines: PipelineNode[];
+  operators: ListOperator[];
+}
+
+export class ShellSyntaxError extends Error {}
+
+/** Input ended inside an unfinished construct; more lines could complete it */
+export class IncompleteInputError extends ShellSyntaxError {}
+
+// --- Lexer ---
+
+type Token =
+  | { kind: 'word'; word: WordNode }
+  | { kind: 'op'; value: string; fd?: number };
+
+const OPERATORS = ['&&', '||', '&>>', '&>', '>>', '>&', ';;', '|', '&', ';', '(', ')', '<', '>', '\n'];
+const REDIRECT_OPERATORS = ['>', '>>', '<', '>&', '&>', '&>>'];
+const META_CHARS = ' \t\n|&;()<>';
 
-  private splitPipeline(input: string): Array<{ type: 'command' | 'operator'; value: string }> {
-    const results: Array<{ type: 'command' | 'operator'; value: string }> = [];
-    let current = '';
-    let inSingleQuote = false;
-    let inDoubleQuote = false;
-    let escaped = false;
+class ShellLexer {
+  private pos = 0;
 
-    for (let i = 0; i < input.length; i++) {
-      const char = input[i];
+  constructor(
+    private input: string,
+    private parseNested: (source: string) => ListNode,
+  ) {}
 
-      if (escaped) {
-        current += char;
-        escaped = false;
+  tokenize(): Token[] {
+    const tokens: Token[] = [];
+
+    while (this.pos < this.input.length) {
+      const char = this.input[this.pos];
+
+      if (char === ' ' || char === '\t') {
+        this.pos++;
         continue;
       }
 
-      if (char === '\\') {
-        escaped = true;
-        current += char;
+      // Comments run to end of line, but only at the start of a word
+      if (char === '#') {
+        while (this.pos < this.input.length && this.input[this.pos] !== '\n') this.pos++;
         continue;
       }
 
-      if (char === "'" && !inDoubleQuote) {
-        inSingleQuote = !inSingleQuote;
-        current += char;
+      if (char === '\\' && this.input[this.pos + 1] === '\n') {
+        this.pos += 2;
         continue;
       }
 
-      if (char === '"' && !inSingleQuote) {
-        inDoubleQuote = !inDoubleQuote;
-        current += char;
+      // A number directly before `>` or `<` names the file descriptor: 2>, 2>>, 2>&1
+      const fdMatch = this.input.slice(this.pos).match(/^(\d+)(>>|>&|>|<)/);
+      if (fdMatch) {
+        tokens.push({ kind: 'op', value: fdMatch[2], fd: parseInt(fdMatch[1], 10) });
+        this.pos += fdMatch[0].length;
         continue;
       }
 
-      if (inSingleQuote || inDoubleQuote) {
-        current += char;
+      const op = OPERATORS.find(o => this.input.startsWith(o, this.pos));
+      if (op) {
+        tokens.push({ kind: 'op', value: op });
+        this.pos += op.length;
         continue;
       }
 
-      // Check for operators
-      if (char === '|' && input[i + 1] === '|') {
-        if (current.trim()) results.push({ type: 'command', value: current.trim() });
-        results.push({ type: 'operator', value: '||' });
-        current = '';
-        i++; // skip next |
+      tokens.push({ kind: 'word', word: this.readWord() });
+    }
+
+    return tokens;
+  }
+
+  /** Read one word; toEnd reads the rest of the input as a single word, blanks and all */
+  readWord(toEnd = false): WordNode {
+    const parts: WordPart[] = [];
+
+    while (this.pos < this.input.length) {
+      const char = this.input[this.pos];
+      if (!toEnd && META_CHARS.includes(char)) break;
+
+      if (char === '\\') {
+        const next = this.input[this.pos + 1];
+        this.pos += 2;
+        if (next !== undefined && next !== '\n') pushLiteral(parts, next, true);
         continue;
       }
 
-      if (char === '&' && input[i + 1] === '&') {
-        if (current.trim()) results.push({ type: 'command', value: current.trim() });
-        results.push({ type: 'operator', value: '&&' });
-        current = '';
-        i++; // skip next &
+      if (char === "'") {
+        const end = this.input.indexOf("'", this.pos + 1);
+        if (end === -1) throw new IncompleteInputError("unexpected EOF while looking for matching `''");
+        pushLiteral(parts, this.input.slice(this.pos + 1, end), true);
+        this.pos = end + 1;
         continue;
       }
 
-      if (char === '|') {
-        if (current.trim()) results.push({ type: 'command', value: current.trim() });
-        results.push({ type: 'operator', value: '|' });
-        current = '';
+      if (char === '"') {
+        this.pos++;
+        this.readDoubleQuoted(parts);
         continue;
       }
 
-      if (char === ';') {
-        if (current.trim()) results.push({ type: 'command', value: current.trim() });
-        results.push({ type: 'operator', value: ';' });
-        current = '';
+      if (char === '$') {
+        const part = this.readDollar(false);
+        if (part) {
+          parts.push(part);
+          continue;
+        }
+      }
+
+      if (char === '`') {
+        parts.push(this.readBacktick(false));
         continue;
       }
 
-      current += char;
+      pushLiteral(parts, char, false);
+      this.pos++;
     }
 
-    if (current.trim()) results.push({ type: 'command', value: current.trim() });
-    return results;
+    return { type: 'word', parts };
   }
 
-  parseCommand(input: string): ParsedCommand {
-    const tokens = this.tokenize(input);
-    if (tokens.length === 0) {
-      return { command: '', args: [], rawArgs: '', flags: {} };
-    }
+  private readDoubleQuoted(parts: WordPart[]): void {
+    // An empty "" still produces an (empty) argument
+    pushLiteral(parts, '', true);
 
-    const command = tokens[0];
-    const args: string[] = [];
-    const flags: Record<string, string | boolean> = {};
-    let outputRedirect: { file: string; append: boolean } | undefined;
-    let inputRedirect: string | undefined;
+    while (this.pos < this.input.length) {
+      const char = this.input[this.pos];
 
-    let i = 1;
-    while (i < tokens.length) {
-      const token = tokens[i];
+      if (char === '"') {
+        this.pos++;
+        return;
+      }
 
-      // Output redirect
-      if (token === '>>' && i + 1 < tokens.length) {
-        outputRedirect = { file: tokens[i + 1], append: true };
-        i += 2;
+      if (char === '\\' && '$`"\\\n'.includes(this.input[this.pos + 1])) {
+        const next = this.input[this.pos + 1];
+        if (next !== '\n') pushLiteral(parts, next, true);
+        this.pos += 2;
         continue;
       }
-      if (token === '>' && i + 1 < tokens.length) {
-        outputRedirect = { file: tokens[i + 1], append: false };
+
+      if (char === '$') {
+        const part = this.readDollar(true);
+        if (part) {
+          parts.push(part);
+          continue;
+        }
+      }
+
+      if (char === '`') {
+        parts.push(this.readBacktick(true));
+        continue;
+      }
+
+      pushLiteral(parts, char, true);
+      this.pos++;
+    }
+
+    throw new IncompleteInputError('unexpected EOF while looking for matching `"\'');
+  }
+
+  /** Read `$name`, `${...}`, `$(...)`, `$((...))` or a special parameter. Returns null for a bare `$`. */
+  private readDollar(quoted: boolean): WordPart | null {
+    const next = this.input[this.pos + 1];
+
+    if (next === '(' && this.input[this.pos + 2] === '(') {
+      const end = findClosingParen(this.input, this.pos + 2);
+      if (end !== -1 && this.input[end + 1] === ')') {
+        const expression = this.nestedWord(this.input.slice(this.pos + 3, end));
+        this.pos = end + 2;
+        return { type: 'arithmetic', expression, quoted };
+      }
+    }
+
+    if (next === '(') {
+      const end = findClosingParen(this.input, this.pos + 1);
+      if (end === -1) throw new IncompleteInputError("unexpected EOF while looking for matching `)'");
+      const source = this.input.slice(this.pos + 2, end);
+      this.pos = end + 1;
+      return { type: 'substitution', body: this.parseNested(source), quoted };
+    }
+
+    if (next === '{') {
+      const end = findClosingBrace(this.input, this.pos + 1);
+      if (end === -1) throw new ShellSyntaxError("unexpected EOF while looking for matching `}'");
+      const body = this.input.slice(this.pos + 2, end);
+      this.pos = end + 1;
+      return this.parameter(body, quoted);
+    }
+
+    const nameMatch = this.input.slice(this.pos + 1).match(/^[A-Za-z_]\w*/);
+    if (nameMatch) {
+      this.pos += 1 + nameMatch[0].length;
+      return { type: 'variable', name: nameMatch[0], quoted };
+    }
+
+    if (next !== undefined && '?#@*$!0123456789'.includes(next)) {
+      this.pos += 2;
+      return { type: 'variable', name: next, quoted };
+    }
+
+    return null;
+  }
+
+  /** The body of `${...}`: a plain name, `#name`, or a name, operator and word */
+  private parameter(body: string, quoted: boolean): WordPart {
+    const name = '(?:[A-Za-z_]\\w*|\\d+|[?#@*$!])';
+    if (new RegExp(`^${name}$`).test(body)) return { type: 'variable', name: body, quoted };
+
+    const length = new RegExp(`^#(${name})$`).exec(body);
+    if (length) return { type: 'parameter', name: length[1], op: 'length', word: this.nestedWord(''), replacement: null, quoted };
+
+    const operation = new RegExp(`^(${name})(:[-=+?]?|[-=+?]|##?|%%?|\\/[/#%]?|\\^\\^?|,,?)([^]*)$`).exec(body);
+    if (!operation) return { type: 'badSubstitution', text: `\${${body}}`, quoted };
+
+    const op = operation[2] as ParameterOperator;
+    if (!op.startsWith('/')) {
+      return { type: 'parameter', name: operation[1], op, word: this.nestedWord(operation[3]), replacement: null, quoted };
+    }
+    // ${name/pattern/replacement}: the pattern ends at the first unescaped, unquoted slash
+    const slash = findUnquoted(operation[3], '/');
+    const pattern = slash === -1 ? operation[3] : operation[3].slice(0, slash);
+    const replacement = slash === -1 ? '' : operation[3].slice(slash + 1);
+    return { type: 'parameter', name: operation[1], op, word: this.nestedWord(pattern), replacement: this.nestedWord(replacement), quoted };
+  }
+
+  /** Text inside `${...}` or `$((...))` read as a single word, so it can hold quotes and expansions */
+  private nestedWord(source: string): WordNode {
+    return new ShellLexer(source, this.parseNested).readWord(true);
+  }
+
+  private readBacktick(quoted: boolean): WordPart {
+    let source = '';
+    let i = this.pos + 1;
+    while (i < this.input.length && this.input[i] !== '`') {
+      if (this.input[i] === '\\' && '`$\\'.includes(this.input[i + 1])) {
+        source += this.input[i + 1];
         i += 2;
         continue;
       }
-      // Handle >> and > attached to a file name
-      if (token.startsWith('>>')) {
-        outputRedirect = { file: token.slice(2), append: true };
+      source += this.input[i];
+      i++;
+    }
+    if (i >= this.input.length) throw new IncompleteInputError('unexpected EOF while looking for matching ``\'');
+    this.pos = i + 1;
+    return { type: 'substitution', body: this.parseNested(source), quoted };
+  }
+}
+
+/** Merge adjacent literal text with the same quoting into a single part */
+function pushLiteral(parts: WordPart[], value: string, quoted: boolean): void {
+  const last = parts[parts.length - 1];
+  if (last && last.type === 'literal' && last.quoted === quoted && (value || !quoted)) {
+    last.value += value;
+    return;
+  }
+  if (!value && !quoted) return;
+  parts.push({ type: 'literal', value, quoted });
+}
+
+/** Find the `)` matching the `(` at `open`, skipping quoted text */
+function findClosingParen(input: string, open: number): number {
+  let depth = 0;
+  for (let i = open; i < input.length; i++) {
+    const char = input[i];
+    if (char === '\\') {
+      i++;
+    } else if (char === "'") {
+      const end = input.indexOf("'", i + 1);
+      if (end === -1) return -1;
+      i = end;
+    } else if (char === '"') {
+      i++;
+      while (i < input.length && input[i] !== '"') {
+        if (input[i] === '\\') i++;
         i++;
-        continue;
       }
-      if (token.startsWith('>') && token.length > 1) {
-        outputRedirect = { file: token.slice(1), append: false };
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')') {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  return -1;
+}
+
+/** Find the `}` closing the `{` at `open`, skipping quoted text and nested `${...}` */
+function findClosingBrace(input: string, open: number): number {
+  let depth = 0;
+  for (let i = open; i < input.length; i++) {
+    const char = input[i];
+    if (char === '\\') {
+      i++;
+    } else if (char === "'") {
+      const end = input.indexOf("'", i + 1);
+      if (end === -1) return -1;
+      i = end;
+    } else if (char === '"') {
+      i++;
+      while (i < input.length && input[i] !== '"') {
+        if (input[i] === '\\') i++;
         i++;
+      }
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}') {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  return -1;
+}
+
+/** Index of the first `char` outside quotes and not escaped, or -1 */
+function findUnquoted(text: string, char: string): number {
+  let quote: string | null = null;
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\\' && quote !== "'") i++;
+    else if (quote) {
+      if (text[i] === quote) quote = null;
+    } else if (text[i] === "'" || text[i] === '"') quote = text[i];
+    else if (text[i] === char) return i;
+  }
+  return -1;
+}
+
+// --- Parser ---
+
+interface ParserState {
+  tokens: Token[];
+  pos: number;
+}
+
+/** Reserved words that end a list when they appear in command position */
+type Closer = ')' | ';;' | '}' | 'then' | 'elif' | 'else' | 'fi' | 'do' | 'done' | 'esac';
+
+const RESERVED_WORDS = new Set(['{', '}', '!', 'if', 'then', 'elif', 'else', 'fi', 'for', 'in', 'do', 'done', 'while', 'until', 'case', 'esac', 'function']);
+
+const NAME_PATTERN = /^[A-Za-z_]\w*$/;
+
+export class CommandParser {
+  /** Parse raw input into a list of pipelines (handles pipes, &&, ||, ;, subshells, groups and compound commands) */
+  parse(input: string): ListNode {
+    const tokens = new ShellLexer(input, (source) => this.parse(source)).tokenize();
+    const state: ParserState = { tokens, pos: 0 };
+    const list = this.parseList(state, []);
+
+    if (state.pos < tokens.length) {
+      throw this.unexpected(tokens[state.pos]);
+    }
+    return list;
+  }
+
+  /** True when the input stops inside an unfinished construct (open quote, `if` without `fi`, trailing `|`) */
+  isIncomplete(input: string): boolean {
+    try {
+      this.parse(input);
+      return false;
+    } catch (err) {
+      return err instanceof IncompleteInputError;
+    }
+  }
+
+  private parseList(state: ParserState, closers: Closer[]): ListNode {
+    const pipelines: PipelineNode[] = [];
+    const operators: ListOperator[] = [];
+
+    this.skipNewlines(state);
+
+    while (state.pos < state.tokens.length && !this.atCloser(state, closers)) {
+      pipelines.push(this.parsePipeline(state));
+
+      const token = state.tokens[state.pos];
+      if (!token || token.kind !== 'op') break;
+
+      if (token.value === '&&' || token.value === '||') {
+        operators.push(token.value);
+        state.pos++;
+        this.skipNewlines(state);
+        if (state.pos >= state.tokens.length) {
+          throw new IncompleteInputError('syntax error: unexpected end of file');
+        }
+        if (this.atCloser(state, closers)) throw this.unexpected(state.tokens[state.pos]);
         continue;
       }
 
-      // Input redirect
-      if (token === '<' && i + 1 < tokens.length) {
-        inputRedirect = tokens[i + 1];
-        i += 2;
+      if (token.value === ';' || token.value === '&' || token.value === '\n') {
+        state.pos++;
+        this.skipNewlines(state);
+        operators.push(';');
+        continue;
+      }
+
+      break;
+    }
+
+    // Drop a trailing separator (`ls;`)
+    if (operators.length >= pipelines.length) operators.length = Math.max(0, pipelines.length - 1);
+
+    return { type: 'list', pipelines, operators };
+  }
+
+  private parsePipeline(state: ParserState): PipelineNode {
+    let negated = false;
+    if (this.peekReserved(state) === '!') {
+      negated = true;
+      state.pos++;
+    }
+
+    const commands: CommandNode[] = [this.parseCommandNode(state)];
+    while (this.peekOp(state, '|')) {
+      state.pos++;
+      this.skipNewlines(state);
+      commands.push(this.parseCommandNode(state));
+    }
+
+    return { type: 'pipeline', commands, negated };
+  }
+
+  private parseCommandNode(state: ParserState): CommandNode {
+    const token = state.tokens[state.pos];
+    if (!token) throw new IncompleteInputError('syntax error: unexpected end of file');
+
+    if (token.kind === 'op' && token.value === '(') {
+      state.pos++;
+      const body = this.parseList(state, [')']);
+      this.expectOp(state, ')');
+      return { type: 'subshell', body, redirects: this.parseRedirects(state) };
+    }
+
+    switch (this.peekReserved(state)) {
+      case '{': {
+        state.pos++;
+        const body = this.parseList(state, ['}']);
+        this.expectReserved(state, '}');
+        return { type: 'group', body, redirects: this.parseRedirects(state) };
+      }
+      case 'if':
+        return this.parseIf(state);
+      case 'for':
+        return this.parseFor(state);
+      case 'while':
+      case 'until':
+        return this.parseWhile(state);
+      case 'case':
+        return this.parseCase(state);
+      case 'function':
+        return this.parseFunction(state, true);
+      case 'then': case 'elif': case 'else': case 'fi':
+      case 'do': case 'done': case 'esac': case '}':
+        throw this.unexpected(token);
+    }
+
+    // name() compound-command
+    const next = state.tokens[state.pos + 1];
+    if (token.kind === 'word' && next?.kind === 'op' && next.value === '(') {
+      return this.parseFunction(state, false);
+    }
+
+    const words: WordNode[] = [];
+    const redirects: RedirectNode[] = [];
+
+    while (state.pos < state.tokens.length) {
+      const current = state.tokens[state.pos];
+      if (current.kind === 'word') {
+        words.push(current.word);
+        state.pos++;
         continue;
       }
+      const redirect = this.parseRedirect(state);
+      if (!redirect) break;
+      redirects.push(redirect);
+    }
+
+    if (words.length === 0 && redirects.length === 0) {
+      throw this.unexpected(state.tokens[state.pos]);
+    }
+
+    return { type: 'command', words, redirects };
+  }
+
+  private parseIf(state: ParserState): IfNode {
+    const clauses: IfNode['clauses'] = [];
+    let elseBody: ListNode | null = null;
+
+    state.pos++; // if
+    for (;;) {
+      const condition = this.parseList(state, ['then']);
+      this.expectReserved(state, 'then');
+      const body = this.parseList(state, ['elif', 'else', 'fi']);
+      clauses.push({ condition, body });
+
+      const keyword = this.expectReserved(state, 'elif', 'else', 'fi');
+      if (keyword === 'elif') continue;
+      if (keyword === 'else') {
+        elseBody = this.parseList(state, ['fi']);
+        this.expectReserved(state, 'fi');
+      }
+      break;
+    }
+
+    return { type: 'if', clauses, elseBody, redirects: this.parseRedirects(state) };
+  }
+
+  private parseFor(state: ParserState): ForNode {
+    state.pos++; // for
+    const variable = this.expectName(state);
+    let items: WordNode[] | null = null;
+
+    this.skipNewlines(state);
+    if (this.peekReserved(state) === 'in') {
+      state.pos++;
+      items = [];
+      while (state.tokens[state.pos]?.kind === 'word') {
+        items.push((state.tokens[state.pos] as { kind: 'word'; word: WordNode }).word);
+        state.pos++;
+      }
+    }
+    this.skipSeparator(state);
+
+    this.expectReserved(state, 'do');
+    const body = this.parseList(state, ['done']);
+    this.expectReserved(state, 'done');
+
+    return { type: 'for', variable, items, body, redirects: this.parseRedirects(state) };
+  }
+
+  private parseWhile(state: ParserState): WhileNode {
+    const until = this.peekReserved(state) === 'until';
+    state.pos++;
+
+    const condition = this.parseList(state, ['do']);
+    this.expectReserved(state, 'do');
+    const body = this.parseList(state, ['done']);
+    this.expectReserved(state, 'done');
+
+    return { type: 'while', until, condition, body, redirects: this.parseRedirects(state) };
+  }
+
+  private parseCase(state: ParserState): CaseNode {
+    state.pos++; // case
+    const subject = state.tokens[state.pos];
+    if (!subject) throw new IncompleteInputError('syntax error: unexpected end of file');
+    if (subject.kind !== 'word') throw this.unexpected(subject);
+    state.pos++;
+
+    this.skipNewlines(state);
+    this.expectReserved(state, 'in');
+    this.skipNewlines(state);
+
+    const items: CaseNode['items'] = [];
+    while (this.peekReserved(state) !== 'esac') {
+      if (this.peekOp(state, '(')) state.pos++;
+
+      const patterns: WordNode[] = [];
+      for (;;) {
+        const pattern = state.tokens[state.pos];
+        if (!pattern) throw new IncompleteInputError('syntax error: unexpected end of file');
+        if (pattern.kind !== 'word') throw this.unexpected(pattern);
+        patterns.push(pattern.word);
+        state.pos++;
+        if (!this.peekOp(state, '|')) break;
+        state.pos++;
+      }
+      this.expectOp(state, ')');
+
+      const body = this.parseList(state, [';;', 'esac']);
+      items.push({ patterns, body });
+
+      if (this.peekOp(state, ';;')) state.pos++;
+      this.skipNewlines(state);
+      if (state.pos >= state.tokens.length) throw new IncompleteInputError('syntax error: unexpected end of file');
+    }
+    state.pos++; // esac
+
+    return { type: 'case', word: subject.word, items, redirects: this.parseRedirects(state) };
+  }
+
+  private parseFunction(state: ParserState, keyword: boolean): FunctionNode {
+    if (keyword) state.pos++; // function
+    const name = this.expectName(state);
+
+    if (this.peekOp(state, '(')) {
+      state.pos++;
+      if (!this.peekOp(state, ')')) {
+        const token = state.tokens[state.pos];
+        throw token ? this.unexpected(token) : new ShellSyntaxError("syntax error near unexpected token `newline'");
+      }
+      state.pos++;
+    } else if (!keyword) {
+      throw this.unexpected(state.tokens[state.pos]);
+    }
+
+    this.skipNewlines(state);
+    const body = this.parseCommandNode(state);
+    if (body.type === 'command' || body.type === 'function') {
+      throw this.unexpected(state.tokens[state.pos - 1]);
+    }
+    return { type: 'function', name, body };
+  }
+
+  private parseRedirects(state: ParserState): RedirectNode[] {
+    const redirects: RedirectNode[] = [];
+    let redirect: RedirectNode | null;
+    while ((redirect = this.parseRedirect(state))) {
+      redirects.push(redirect);
+    }
+    return redirects;
+  }
+
+  private parseRedirect(state: ParserState): RedirectNode | null {
+    const token = state.tokens[state.pos];
+    if (!token || token.kind !== 'op' || !REDIRECT_OPERATORS.includes(token.value)) return null;
+
+    const target = state.tokens[state.pos + 1];
+    if (!target || target.kind !== 'word') {
+      throw target
+        ? this.unexpected(target)
+        : new ShellSyntaxError("syntax error near unexpected token `newline'");
+    }
+
+    state.pos += 2;
+    const op = token.value as RedirectOperator;
+    const fd = token.fd ?? (op === '<' ? 0 : 1);
+    return { type: 'redirect', op, fd, target: target.word };
+  }
+
+  private atCloser(state: ParserState, closers: Closer[]): boolean {
+    const token = state.tokens[state.pos];
+    if (!token) return false;
+    if (token.kind === 'op') return (closers as string[]).includes(token.value);
+    const word = this.peekReserved(state);
+    return word !== null && (closers as string[]).includes(word);
+  }
+
+  /** The reserved word at the current position, if the token is one */
+  private peekReserved(state: ParserState): string | null {
+    const token = state.tokens[state.pos];
+    if (!token || token.kind !== 'word') return null;
+    const part = token.word.parts[0];
+    if (token.word.parts.length !== 1 || part.type !== 'literal' || part.quoted) return null;
+    return RESERVED_WORDS.has(part.value) ? part.value : null;
+  }
+
+  private expectReserved(state: ParserState, ...words: string[]): string {
+    this.skipNewlines(state);
+    const word = this.peekReserved(state);
+    if (word && words.includes(word)) {
+      state.pos++;
+      return word;
+    }
+    throw this.unexpected(state.tokens[state.pos]);
+  }
+
+  private expectOp(state: ParserState, value: string): void {
+    if (!this.peekOp(state, value)) throw this.unexpected(state.tokens[state.pos]);
+    state.pos++;
+  }
+
+  private expectName(state: ParserState): string {
+    const token = state.tokens[state.pos];
+    if (!token) throw new IncompleteInputError('syntax error: unexpected end of file');
+    const part = token.kind === 'word' && token.word.parts.length === 1 ? token.word.parts[0] : null;
+    if (!part || part.type !== 'literal' || !NAME_PATTERN.test(part.value)) {
+      throw this.unexpected(token);
+    }
+    state.pos++;
+    return part.value;
+  }
+
+  private peekOp(state: ParserState, value: string): boolean {
+    const token = state.tokens[state.pos];
+    return token?.kind === 'op' && token.value === value;
+  }
+
+  private skipNewlines(state: ParserState): void {
+    while (this.peekOp(state, '\n')) state.pos++;
+  }
+
+  /** Skip an optional `;` plus any newlines (before `do`, `then`, ...) */
+  private skipSeparator(state: ParserState): void {
+    if (this.peekOp(state, ';')) state.pos++;
+    this.skipNewlines(state);
+  }
+
+  private unexpected(token: Token | undefined): ShellSyntaxError {
+    if (!token) return new IncompleteInputError('syntax error: unexpected end of file');
+    const text = token.kind === 'op'
+      ? (token.value === '\n' ? 'newline' : token.value)
+      : token.word.parts.map(p => (p.type === 'literal' ? p.value : '')).join('');
+    return new ShellSyntaxError(`syntax error near unexpected token \`${text}'`);
+  }
+
+  /** Build a ParsedCommand from fully expanded words (command name first) */
+  buildCommand(words: string[]): ParsedCommand {
+    if (words.length === 0) {
+      return { command: '', args: [], argv: [], rawArgs: '', flags: {} };
+    }
+
+    const command = words[0];
+    const argv = words.slice(1);
+    const args: string[] = [];
+    const flags: Record<string, string | boolean> = {};
+
+    let i = 0;
+    while (i < argv.length) {
+      const token = argv[i];
 
       // Long flags (--flag=value or --flag value or --flag)
-      if (token.startsWith('--')) {
+      if (token.startsWith('--') && token.length > 2) {
         const eqIndex = token.indexOf('=');
         if (eqIndex !== -1) {
           flags[token.slice(2, eqIndex)] = token.slice(eqIndex + 1);
-        } else if (i + 1 < tokens.length && !tokens[i + 1].startsWith('-')) {
-          flags[token.slice(2)] = tokens[i + 1];
+        } else if (i + 1 < argv.length && !argv[i + 1].startsWith('-')) {
+          flags[token.slice(2)] = argv[i + 1];
           i++;
         } else {
           flags[token.slice(2)] = true;
@@ -168,8 +842,8 @@ export class CommandParser {
         continue;
       }
 
-      // Short flags (-f, -rf, -p value)
-      if (token.startsWith('-') && token.length > 1 && !token.startsWith('-')) {
+      // Short flags (-f, -rf)
+      if (token.startsWith('-') && token.length > 1 && !token.startsWith('--')) {
         // This handles single-char flags, potentially combined
         const flagChars = token.slice(1);
         for (const ch of flagChars) {
@@ -183,55 +857,28 @@ export class CommandParser {
       i++;
     }
 
-    const rawArgs = tokens.slice(1).join(' ');
-
-    return { command, args, rawArgs, flags, outputRedirect, inputRedirect };
+    return { command, args, argv, rawArgs: argv.join(' '), flags };
   }
+}
 
-  /** Tokenize input respecting quotes */
-  tokenize(input: string): string[] {
-    const tokens: string[] = [];
-    let current = '';
-    let inSingleQuote = false;
-    let inDoubleQuote = false;
-    let escaped = false;
-
-    for (let i = 0; i < input.length; i++) {
-      const char = input[i];
-
-      if (escaped) {
-        current += char;
-        escaped = false;
-        continue;
-      }
-
-      if (char === '\\' && !inSingleQuote) {
-        escaped = true;
-        continue;
-      }
-
-      if (char === "'" && !inDoubleQuote) {
-        inSingleQuote = !inSingleQuote;
-        continue;
-      }
-
-      if (char === '"' && !inSingleQuote) {
-        inDoubleQuote = !inDoubleQuote;
-        continue;
-      }
-
-      if (char === ' ' && !inSingleQuote && !inDoubleQuote) {
-        if (current) {
-          tokens.push(current);
-          current = '';
-        }
-        continue;
-      }
-
-      current += char;
+/**
+ * Read a short option that takes a value (`-n 5`, `-n5`, or last in a cluster
+ * like `-am msg`). The flag parser cannot know which options take values, so
+ * a separated value is also removed from `cmd.args`.
+ */
+export function takeOption(cmd: ParsedCommand, flag: string): string | undefined {
+  for (let i = 0; i < cmd.argv.length; i++) {
+    const token = cmd.argv[i];
+    const isCluster = /^-[A-Za-z]+$/.test(token) && token.endsWith(flag);
+    if (isCluster && i + 1 < cmd.argv.length) {
+      const value = cmd.argv[i + 1];
+      const argIdx = cmd.args.indexOf(value);
+      if (argIdx !== -1) cmd.args.splice(argIdx, 1);
+      return value;
+    }
+    if (token.startsWith(`-${flag}`) && token.length > 2 && !token.startsWith('--')) {
+      return token.slice(2);
     }
-
-    if (current) tokens.push(current);
-    return tokens;
   }
+  return undefined;
 }
@@ -1,9 +1,52 @@
 import { ParsedCommand } from './CommandParser';
 import { CommandContext } from './CommandContext';
 
+export type OutputStream = 'stdout' | 'stderr';
+
+export interface OutputChunk {
+  stream: OutputStream;
+  data: string;
+}
+
 export interface CommandResult {
+  /** Standard output (what pipes and `>` see) */
   output: string;
   exitCode: number;
+  /** Error output; shown on the terminal unless redirected with `2>` */
+  stderr?: string;
+  /** Interleaved stdout/stderr in write order, when a result combines several commands */
+  chunks?: OutputChunk[];
+}
+
+/** A result's output in write order (stdout before stderr unless the result recorded otherwise) */
+export function toChunks(result: CommandResult): OutputChunk[] {
+  if (result.chunks) return result.chunks;
+  const chunks: OutputChunk[] = [];
+  if (result.output) chunks.push({ stream: 'stdout', data: result.output });
+  if (result.stderr) chunks.push({ stream: 'stderr', data: result.stderr });
+  return chunks;
+}
+
+/** Output in the order it was written, stdout and stderr interleaved */
+export class CommandOutput {
+  private chunks: OutputChunk[] = [];
+
+  out(data: string): void {
+    this.write('stdout', data);
+  }
+
+  err(data: string): void {
+    this.write('stderr', data);
+  }
+
+  result(exitCode: number): CommandResult {
+    const join = (stream: OutputStream) => this.chunks.filter(c => c.stream === stream).map(c => c.data).join('\n');
+    return { output: join('stdout'), stderr: join('stderr') || undefined, chunks: this.chunks, exitCode };
+  }
+
+  private write(stream: OutputStream, data: string): void {
+    this.chunks.push({ stream, data });
+  }
 }
 
 export type CommandHandler = (
@@ -0,0 +1,96 @@
+import type { FSNodeType } from './VirtualFileSystem';
+
+export const SETUID = 0o4000;
+export const SETGID = 0o2000;
+export const STICKY = 0o1000;
+
+/** Parse an `ls -l` style mode string (`drwxr-sr-t`) into mode bits */
+export function parseMode(permissions: string): number {
+  const bits = permissions.slice(1, 10);
+  let mode = 0;
+  for (let i = 0; i < 9; i++) {
+    const ch = bits[i];
+    if (ch && ch !== '-' && ch !== 'S' && ch !== 'T') mode |= 1 << (8 - i);
+  }
+  if (/[sS]/.test(bits[2] ?? '')) mode |= SETUID;
+  if (/[sS]/.test(bits[5] ?? '')) mode |= SETGID;
+  if (/[tT]/.test(bits[8] ?? '')) mode |= STICKY;
+  return mode;
+}
+
+/** Format mode bits as an `ls -l` style string */
+export function formatMode(type: FSNodeType, mode: number): string {
+  const typeChar = type === 'directory' ? 'd' : type === 'symlink' ? 'l' : '-';
+  const chars = ['r', 'w', 'x', 'r', 'w', 'x', 'r', 'w', 'x'].map((ch, i) =>
+    mode & (1 << (8 - i)) ? ch : '-'
+  );
+
+  const special = (index: number, flag: number, set: string) => {
+    if (!(mode & flag)) return;
+    chars[index] = chars[index] === 'x' ? set : set.toUpperCase();
+  };
+  special(2, SETUID, 's');
+  special(5, SETGID, 's');
+  special(8, STICKY, 't');
+
+  return typeChar + chars.join('');
+}
+
+/** Mode bits as the octal string `stat` and `umask` print (`0755`) */
+export function formatOctal(mode: number): string {
+  return (mode & 0o7777).toString(8).padStart(4, '0');
+}
+
+/**
+ * Apply a chmod mode argument: octal (`750`) or symbolic clauses such as
+ * `u+x`, `go-w`, `a=rX` or `+t`, comma separated. Returns null when the
+ * argument is not a valid mode.
+ */
+export function applyModeSpec(mode: number, spec: string, isDirectory: boolean, umask: number): number | null {
+  if (/^[0-7]{1,4}$/.test(spec)) {
+    return parseInt(spec, 8);
+  }
+
+  let result = mode;
+  for (const clause of spec.split(',')) {
+    const match = clause.match(/^([ugoa]*)((?:[-+=][rwxXst]*)+)$/);
+    if (!match) return null;
+
+    const who = match[1] || '';
+    // Without u/g/o/a the umask limits what +/= can grant, as with chmod(1)
+    const mask = who === '' ? ~umask & 0o777 : 0o777;
+    const classes = who === '' || who.includes('a') ? 'ugo' : who;
+
+    for (const action of match[2].match(/[-+=][rwxXst]*/g) ?? []) {
+      const op = action[0];
+      const perms = action.slice(1);
+
+      let bits = 0;
+      for (const cls of classes) {
+        const shift = cls === 'u' ? 6 : cls === 'g' ? 3 : 0;
+        if (perms.includes('r')) bits |= 4 << shift;
+        if (perms.includes('w')) bits |= 2 << shift;
+        if (perms.includes('x')) bits |= 1 << shift;
+        // X: execute only for directories or files already executable by someone
+        if (perms.includes('X') && (isDirectory || (mode & 0o111) !== 0)) bits |= 1 << shift;
+        if (perms.includes('s') && cls === 'u') bits |= SETUID;
+        if (perms.includes('s') && cls === 'g') bits |= SETGID;
+      }
+      if (perms.includes('t')) bits |= STICKY;
+      bits &= mask | SETUID | SETGID | STICKY;
+
+      if (op === '+') {
+        result |= bits;
+      } else if (op === '-') {
+        result &= ~bits;
+      } else {
+        let cleared = 0;
+        for (const cls of classes) {
+          cleared |= 7 << (cls === 'u' ? 6 : cls === 'g' ? 3 : 0);
+        }
+        result = (result & ~cleared) | bits;
+      }
+    }
+  }
+  return result;
+}
@@ -230,9 +230,9 @@ export class InputBuffer {
   }
 
   /** Submit the current buffer (Enter pressed) */
-  submit(): string {
+  submit(remember: boolean = true): string {
     const command = this.buffer.trim();
-    if (command) {
+    if (command && remember) {
       this.history.push(command);
     }
     this.buffer = '';
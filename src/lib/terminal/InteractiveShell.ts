@@ -0,0 +1,22 @@
+import { CommandResult } from './CommandRegistry';
+
+/**
+ * A program that keeps reading lines after its command returns, like psql.
+ * The engine keeps doing the line editing and hands over each line entered
+ * until the program closes.
+ */
+export interface InteractiveShell {
+  /** Shown before each line; may change with what the program is waiting for */
+  prompt(): string;
+  /** False while reading a password: typed characters aren't shown or kept in history */
+  echo(): boolean;
+  handleLine(line: string): CommandResult;
+  /** Ctrl+C: abandon whatever has been typed so far */
+  interrupt(): void;
+  /** Ctrl+D on an empty line; programs usually exit */
+  eof(): CommandResult;
+  isClosed(): boolean;
+}
+
+/** Called with the program that should take over input once the command returns */
+export type ShellLauncher = (shell: InteractiveShell) => void;
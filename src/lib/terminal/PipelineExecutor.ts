@@ -1,10 +1,73 @@
-import { CommandParser, Pipeline, ParsedCommand } from './CommandParser';
-import { CommandRegistry, CommandResult } from './CommandRegistry';
+import {
+  CommandParser,
+  ListNode,
+  PipelineNode,
+  CommandNode,
+  SimpleCommandNode,
+  IfNode,
+  ForNode,
+  WhileNode,
+  CaseNode,
+  RedirectNode,
+  WordNode,
+  FunctionNode,
+  ShellSyntaxError,
+} from './CommandParser';
+import { CommandRegistry, CommandResult, OutputChunk, OutputStream, toChunks } from './CommandRegistry';
 import { CommandContext } from './CommandContext';
+import { ExpansionError, WordExpander } from './WordExpander';
+import { globPatternToRegex, describeFSError } from './VirtualFileSystem';
+
+/** Guards against `while true` locking up the browser tab */
+const MAX_LOOP_ITERATIONS = 10000;
+
+/** Thrown by `break`/`continue` and caught by the enclosing loop(s) */
+class LoopControl {
+  constructor(
+    public kind: 'break' | 'continue',
+    public levels: number,
+    public chunks: OutputChunk[],
+  ) {}
+}
+
+/** Thrown by `return` and caught by the enclosing function or sourced script */
+class ReturnControl {
+  constructor(public exitCode: number, public chunks: OutputChunk[]) {}
+}
+
+/** Thrown by `exit` and caught by the enclosing script, subshell or interactive line */
+class ExitControl {
+  constructor(public exitCode: number, public chunks: OutputChunk[]) {}
+}
+
+type ControlSignal = LoopControl | ReturnControl | ExitControl;
+
+function isControlSignal(value: unknown): value is ControlSignal {
+  return value instanceof LoopControl || value instanceof ReturnControl || value instanceof ExitControl;
+}
+
+/** Where a file descriptor's writes end up */
+type OutputTarget =
+  | { kind: 'terminal'; stream: OutputStream }
+  | { kind: 'file'; path: string; lines: string[] }
+  | { kind: 'null' };
+
+interface RedirectPlan {
+  /** Replacement stdin from `<` */
+  stdin?: string;
+  /** Open file descriptors; only present when the node has output redirects */
+  fds?: Map<number, OutputTarget>;
+}
 
 export class PipelineExecutor {
   private parser: CommandParser;
   private registry: CommandRegistry;
+  private loopDepth = 0;
+  private callDepth = 0;
+  /** Saved values for `local` variables, one frame per running function */
+  private localFrames: Array<Map<string, string | undefined>> = [];
+  /** Input `read` is working through, innermost last: a compound command's commands share its stdin */
+  private inputs: Array<{ text: string; offset: number }> = [];
 
   constructor(parser: CommandParser, registry: CommandRegistry) {
     this.parser = parser;
@@ -12,104 +75,768 @@ export class PipelineExecutor {
   }
 
   async execute(input: string, ctx: CommandContext): Promise<CommandResult> {
-    const pipeline = this.parser.parse(input);
+    let list: ListNode;
+    try {
+      list = this.parser.parse(input);
+    } catch (err) {
+      if (err instanceof ShellSyntaxError) {
+        ctx.exitCode = 2;
+        return errorResult(`bash: ${err.message}`, 2);
+      }
+      throw err;
+    }
 
-    if (pipeline.commands.length === 0) {
-      return { output: '', exitCode: 0 };
+    return this.runTopLevel(list, ctx);
+  }
+
+  /**
+   * Run a script body (for `source`, `bash file`, `sh -c`, executable files).
+   * `return` at the top level of the script or `exit` anywhere ends it early.
+   */
+  async executeScript(source: string, ctx: CommandContext, name: string, stdin?: string): Promise<CommandResult> {
+    let list: ListNode;
+    try {
+      list = this.parser.parse(source);
+    } catch (err) {
+      if (err instanceof ShellSyntaxError) {
+        return errorResult(`${name}: ${err.message}`, 2);
+      }
+      throw err;
     }
 
-    if (pipeline.commands.length === 1 && pipeline.operators.length === 0) {
-      return this.executeCommand(pipeline.commands[0], ctx);
+    this.callDepth++;
+    const savedLoopDepth = this.loopDepth;
+    this.loopDepth = 0;
+    try {
+      return await this.executeList(list, ctx, stdin);
+    } catch (signal) {
+      if (signal instanceof ReturnControl || signal instanceof ExitControl) {
+        return fromChunks(signal.chunks, signal.exitCode);
+      }
+      throw signal;
+    } finally {
+      this.callDepth--;
+      this.loopDepth = savedLoopDepth;
     }
+  }
 
-    return this.executePipeline(pipeline, ctx);
+  /** Interactive input: a stray `break` or `return`, or an `exit`, just stops the line */
+  private async runTopLevel(list: ListNode, ctx: CommandContext): Promise<CommandResult> {
+    try {
+      return await this.executeList(list, ctx);
+    } catch (signal) {
+      if (signal instanceof ExitControl) {
+        ctx.exitCode = signal.exitCode;
+        return fromChunks(signal.chunks, signal.exitCode);
+      }
+      if (isControlSignal(signal)) {
+        return fromChunks(signal.chunks, ctx.exitCode);
+      }
+      throw signal;
+    }
   }
 
-  private async executePipeline(pipeline: Pipeline, ctx: CommandContext): Promise<CommandResult> {
+  private async executeList(list: ListNode, ctx: CommandContext, stdin?: string): Promise<CommandResult> {
+    const chunks: OutputChunk[] = [];
     let lastResult: CommandResult = { output: '', exitCode: 0 };
-    let pipeInput: string | undefined;
-    let i = 0;
 
-    for (i = 0; i < pipeline.commands.length; i++) {
-      const cmd = pipeline.commands[i];
-      const operator = i > 0 ? pipeline.operators[i - 1] : undefined;
+    for (let i = 0; i < list.pipelines.length; i++) {
+      const operator = i > 0 ? list.operators[i - 1] : undefined;
 
-      // Check operator conditions
-      if (operator === '&&' && lastResult.exitCode !== 0) {
-        break;
+      // Skipped pipelines leave the previous status in place, so `a && b || c` behaves like bash
+      if (operator === '&&' && lastResult.exitCode !== 0) continue;
+      if (operator === '||' && lastResult.exitCode === 0) continue;
+
+      try {
+        lastResult = await this.executePipeline(list.pipelines[i], ctx, stdin);
+      } catch (signal) {
+        // Keep output produced before a break/continue/return/exit
+        if (isControlSignal(signal)) {
+          signal.chunks.unshift(...chunks);
+        }
+        throw signal;
+      }
+      ctx.exitCode = lastResult.exitCode;
+      chunks.push(...toChunks(lastResult));
+    }
+
+    return fromChunks(chunks, lastResult.exitCode);
+  }
+
+  private async executePipeline(
+    pipeline: PipelineNode,
+    ctx: CommandContext,
+    stdin?: string
+  ): Promise<CommandResult> {
+    let result: CommandResult = { output: '', exitCode: 0 };
+    let pipeInput = stdin;
+    // Only stdout flows through a pipe; earlier stages' stderr still reaches the terminal
+    const stderrChunks: OutputChunk[] = [];
+
+    for (const [index, node] of pipeline.commands.entries()) {
+      result = await this.executeNode(node, ctx, pipeInput);
+      if (index < pipeline.commands.length - 1) {
+        stderrChunks.push(...toChunks(result).filter(c => c.stream === 'stderr'));
+      }
+      pipeInput = result.output;
+    }
+
+    const exitCode = pipeline.negated ? (result.exitCode === 0 ? 1 : 0) : result.exitCode;
+    if (stderrChunks.length === 0 && exitCode === result.exitCode) return result;
+    return fromChunks([...stderrChunks, ...toChunks(result)], exitCode);
+  }
+
+  private async executeNode(node: CommandNode, ctx: CommandContext, stdin?: string): Promise<CommandResult> {
+    try {
+      return await this.runNode(node, ctx, stdin);
+    } catch (err) {
+      if (err instanceof ExpansionError) {
+        ctx.exitCode = 1;
+        return errorResult(`bash: ${err.message}`, 1);
       }
-      if (operator === '||' && lastResult.exitCode === 0) {
+      throw err;
+    }
+  }
+
+  private async runNode(node: CommandNode, ctx: CommandContext, stdin?: string): Promise<CommandResult> {
+    if (node.type === 'command') return this.executeCommand(node, ctx, stdin);
+    if (node.type === 'function') {
+      ctx.functions.set(node.name, node.body);
+      return { output: '', exitCode: 0 };
+    }
+
+    const plan = await this.openRedirects(node.redirects, ctx);
+    if ('exitCode' in plan) {
+      ctx.exitCode = plan.exitCode;
+      return plan;
+    }
+    stdin = plan.stdin ?? stdin;
+
+    const shared = stdin !== undefined && this.inputs[this.inputs.length - 1]?.text !== stdin;
+    if (shared) this.inputs.push({ text: stdin!, offset: 0 });
+    let result: CommandResult;
+    try {
+      result = await this.runCompound(node, ctx, stdin);
+    } finally {
+      if (shared) this.inputs.pop();
+    }
+
+    ctx.exitCode = result.exitCode;
+    return this.routeOutput(plan, result, ctx);
+  }
+
+  private async runCompound(
+    node: Exclude<CommandNode, SimpleCommandNode | FunctionNode>,
+    ctx: CommandContext,
+    stdin?: string
+  ): Promise<CommandResult> {
+    let result: CommandResult;
+    switch (node.type) {
+      case 'subshell':
+        result = await this.executeSubshell(node.body, ctx, stdin);
+        break;
+      case 'group':
+        result = await this.executeList(node.body, ctx, stdin);
+        break;
+      case 'if':
+        result = await this.executeIf(node, ctx, stdin);
         break;
+      case 'for':
+        result = await this.executeFor(node, ctx, stdin);
+        break;
+      case 'while':
+        result = await this.executeWhile(node, ctx, stdin);
+        break;
+      case 'case':
+        result = await this.executeCase(node, ctx, stdin);
+        break;
+    }
+    return result;
+  }
+
+  /** `( ... )` runs in a copy of the shell; `exit` inside it only leaves the subshell */
+  private async executeSubshell(body: ListNode, ctx: CommandContext, stdin?: string): Promise<CommandResult> {
+    try {
+      return await this.executeList(body, ctx.fork(), stdin);
+    } catch (signal) {
+      if (signal instanceof ExitControl) return fromChunks(signal.chunks, signal.exitCode);
+      throw signal;
+    }
+  }
+
+  private async executeIf(node: IfNode, ctx: CommandContext, stdin?: string): Promise<CommandResult> {
+    const chunks: OutputChunk[] = [];
+
+    for (const clause of node.clauses) {
+      const condition = await this.executeList(clause.condition, ctx, stdin);
+      chunks.push(...toChunks(condition));
+      if (condition.exitCode === 0) {
+        return this.withOutput(chunks, await this.keepOutput(chunks, this.executeList(clause.body, ctx, stdin)));
       }
+    }
 
-      // Execute command
-      if (operator === '|') {
-        // Pipe: pass previous output as stdin
-        lastResult = await this.executeCommand(cmd, ctx, pipeInput);
-        pipeInput = lastResult.output;
-      } else {
-        lastResult = await this.executeCommand(cmd, ctx, pipeInput);
-        pipeInput = undefined;
+    if (node.elseBody) {
+      return this.withOutput(chunks, await this.keepOutput(chunks, this.executeList(node.elseBody, ctx, stdin)));
+    }
+    return fromChunks(chunks, 0);
+  }
+
+  private async executeFor(node: ForNode, ctx: CommandContext, stdin?: string): Promise<CommandResult> {
+    const items = node.items
+      ? await this.createExpander(ctx).expand(node.items)
+      : [...ctx.positionalArgs];
+
+    return this.runLoop(async (iteration) => {
+      if (iteration >= items.length) return null;
+      ctx.env[node.variable] = items[iteration];
+      return this.executeList(node.body, ctx, stdin);
+    });
+  }
+
+  private async executeWhile(node: WhileNode, ctx: CommandContext, stdin?: string): Promise<CommandResult> {
+    let finalCondition: OutputChunk[] = [];
+
+    const result = await this.runLoop(async () => {
+      const condition = await this.executeList(node.condition, ctx, stdin);
+      if ((condition.exitCode === 0) === node.until) {
+        finalCondition = toChunks(condition);
+        return null;
       }
+      return this.withOutput(toChunks(condition), await this.executeList(node.body, ctx, stdin));
+    });
+
+    return fromChunks([...toChunks(result), ...finalCondition], result.exitCode);
+  }
 
-      // If next operator is a pipe, set up pipe input
-      if (i < pipeline.operators.length && pipeline.operators[i] === '|') {
-        pipeInput = lastResult.output;
+  /**
+   * Drive a loop: `step` runs one iteration and returns null when the loop is
+   * finished. Handles break/continue and the iteration guard.
+   */
+  private async runLoop(
+    step: (iteration: number) => Promise<CommandResult | null>
+  ): Promise<CommandResult> {
+    const chunks: OutputChunk[] = [];
+    let exitCode = 0;
+
+    this.loopDepth++;
+    try {
+      for (let iteration = 0; ; iteration++) {
+        if (iteration >= MAX_LOOP_ITERATIONS) {
+          chunks.push({ stream: 'stderr', data: `bash: loop aborted after ${MAX_LOOP_ITERATIONS} iterations` });
+          exitCode = 1;
+          break;
+        }
+
+        let result: CommandResult | null;
+        try {
+          result = await step(iteration);
+        } catch (signal) {
+          if (!(signal instanceof LoopControl)) {
+            if (isControlSignal(signal)) signal.chunks.unshift(...chunks);
+            throw signal;
+          }
+          chunks.push(...signal.chunks);
+          if (signal.levels > 1) {
+            throw new LoopControl(signal.kind, signal.levels - 1, chunks);
+          }
+          if (signal.kind === 'break') break;
+          continue;
+        }
+
+        if (!result) break;
+        chunks.push(...toChunks(result));
+        exitCode = result.exitCode;
       }
+    } finally {
+      this.loopDepth--;
     }
 
-    return lastResult;
+    return fromChunks(chunks, exitCode);
+  }
+
+  private async executeCase(node: CaseNode, ctx: CommandContext, stdin?: string): Promise<CommandResult> {
+    const expander = this.createExpander(ctx);
+    const subject = await expander.expandWord(node.word);
+
+    for (const item of node.items) {
+      for (const patternWord of item.patterns) {
+        const pattern = await expander.expandPattern(patternWord);
+        if (globPatternToRegex(pattern).test(subject)) {
+          return this.executeList(item.body, ctx, stdin);
+        }
+      }
+    }
+    return { output: '', exitCode: 0 };
   }
 
   private async executeCommand(
-    cmd: ParsedCommand,
+    node: SimpleCommandNode,
     ctx: CommandContext,
     stdin?: string
   ): Promise<CommandResult> {
-    if (!cmd.command) {
+    node = this.expandAlias(node, ctx);
+    const expander = this.createExpander(ctx);
+
+    // Leading VAR=value words are assignments
+    const assignments: Array<[string, string]> = [];
+    let firstWord = 0;
+    for (; firstWord < node.words.length; firstWord++) {
+      const assignment = splitAssignment(node.words[firstWord]);
+      if (!assignment) break;
+      assignments.push([assignment.name, await expander.expandWord(assignment.value)]);
+    }
+
+    const words = await expander.expand(node.words.slice(firstWord));
+
+    const control = this.runControlBuiltin(words, ctx);
+    if (control) return control;
+
+    const plan = await this.openRedirects(node.redirects, ctx);
+    if ('exitCode' in plan) {
+      ctx.exitCode = plan.exitCode;
+      return plan;
+    }
+    stdin = plan.stdin ?? stdin;
+
+    if (words[0] === 'read') {
+      const result = this.read(words.slice(1), ctx, stdin);
+      ctx.exitCode = result.exitCode;
+      return this.routeOutput(plan, result, ctx);
+    }
+
+    if (words.length === 0) {
+      for (const [name, value] of assignments) {
+        ctx.env[name] = value;
+      }
+      return this.routeOutput(plan, { output: '', exitCode: 0 }, ctx);
+    }
+
+    // Assignments before a command only apply for that command
+    const saved = assignments.map(([name]) => [name, ctx.env[name]] as const);
+    for (const [name, value] of assignments) {
+      ctx.env[name] = value;
+    }
+
+    let result: CommandResult;
+    try {
+      result = await this.dispatch(words, ctx, stdin, true);
+    } finally {
+      for (const [name, value] of saved) {
+        if (value === undefined) delete ctx.env[name];
+        else ctx.env[name] = value;
+      }
+    }
+
+    ctx.exitCode = result.exitCode;
+    return this.routeOutput(plan, result, ctx);
+  }
+
+  /**
+   * `read [-r] [-p prompt] [name...]`: the next line of stdin, split on
+   * blanks into the names with the last taking the rest (all of it in
+   * REPLY when no name is given). Fails at the end of input.
+   */
+  private read(args: string[], ctx: CommandContext, stdin: string | undefined): CommandResult {
+    let raw = false;
+    let i = 0;
+    for (; i < args.length && args[i].startsWith('-') && args[i] !== '-'; i++) {
+      if (args[i] === '--') {
+        i++;
+        break;
+      }
+      for (const flag of args[i].slice(1)) {
+        if (flag === 'r') raw = true;
+        else if (flag === 'p' || flag === 't') i++;
+        else if (flag !== 's') return errorResult(`bash: read: -${flag}: invalid option\nread: usage: read [-rs] [-p prompt] [-t timeout] [name ...]`, 2);
+      }
+    }
+    const names = args.slice(i);
+    const invalid = names.find(name => !/^[A-Za-z_]\w*$/.test(name));
+    if (invalid !== undefined) return errorResult(`bash: read: \`${invalid}': not a valid identifier`, 1);
+
+    let stream: { text: string; offset: number } | undefined;
+    for (let n = this.inputs.length - 1; n >= 0 && !stream; n--) {
+      if (this.inputs[n].text === stdin) stream = this.inputs[n];
+    }
+    // Outside a compound command nothing else shares the input, so read its first line
+    stream ??= { text: stdin ?? '', offset: 0 };
+
+    let line: string | null = null;
+    while (stream.offset < stream.text.length) {
+      const end = stream.text.indexOf('\n', stream.offset);
+      const next = stream.text.slice(stream.offset, end === -1 ? undefined : end);
+      stream.offset = end === -1 ? stream.text.length + 1 : end + 1;
+      // Without -r a trailing backslash joins the next line
+      if (!raw && next.endsWith('\\') && !next.endsWith('\\\\')) {
+        line = (line ?? '') + next.slice(0, -1);
+        continue;
+      }
+      line = (line ?? '') + next;
+      break;
+    }
+
+    const targets = names.length > 0 ? names : ['REPLY'];
+    if (line === null) {
+      for (const name of targets) ctx.env[name] = '';
+      return { output: '', exitCode: 1 };
+    }
+    if (!raw) line = line.replace(/\\(.)/g, '$1');
+    if (names.length === 0) {
+      ctx.env.REPLY = line;
       return { output: '', exitCode: 0 };
     }
+    let rest = line.replace(/^[ \t]+/, '');
+    names.forEach((name, index) => {
+      if (index === names.length - 1) {
+        ctx.env[name] = rest.replace(/[ \t]+$/, '');
+        return;
+      }
+      const field = /^([^ \t]*)[ \t]*/.exec(rest)!;
+      ctx.env[name] = field[1];
+      rest = rest.slice(field[0].length);
+    });
+    return { output: '', exitCode: 0 };
+  }
 
-    // Handle variable assignment (VAR=value)
-    if (cmd.command.includes('=') && !cmd.command.startsWith('=')) {
-      const eqIdx = cmd.command.indexOf('=');
-      const key = cmd.command.slice(0, eqIdx);
-      const value = cmd.command.slice(eqIdx + 1);
-      if (/^[A-Za-z_]\w*$/.test(key)) {
-        ctx.env[key] = value;
+  /** Run an expanded command line for `sudo`: registered commands and executables, not shell functions */
+  async executeArgv(argv: string[], ctx: CommandContext, stdin?: string): Promise<CommandResult> {
+    return this.dispatch(argv, ctx, stdin, false);
+  }
+
+  /** Find what a command name refers to (function, registered command, then executable file) and run it */
+  private async dispatch(
+    words: string[],
+    ctx: CommandContext,
+    stdin: string | undefined,
+    allowFunctions: boolean
+  ): Promise<CommandResult> {
+    const cmd = this.parser.buildCommand(words);
+
+    const fn = allowFunctions ? ctx.functions.get(cmd.command) : undefined;
+    const handler = fn ? null : this.registry.get(cmd.command);
+    const file = fn || handler ? null : this.findExecutable(cmd.command, ctx);
+    if (!fn && !handler && !file) {
+      return cmd.command.includes('/')
+        ? errorResult(`bash: ${cmd.command}: No such file or directory`, 127)
+        : errorResult(`${cmd.command}: command not found`, 127);
+    }
+
+    try {
+      if (fn) return await this.callFunction(fn, words.slice(1), ctx, stdin);
+      if (handler) return await handler(cmd, ctx, stdin);
+      return await this.executeFile(file!, cmd.command, words.slice(1), ctx, stdin);
+    } catch (err) {
+      if (isControlSignal(err)) throw err;
+      return errorResult(`${cmd.command}: internal error`, 1);
+    }
+  }
+
+  /** `break`, `continue`, `return`, `exit` and `local` need the interpreter's own state */
+  private runControlBuiltin(words: string[], ctx: CommandContext): CommandResult | null {
+    const [name, arg] = words;
+
+    switch (name) {
+      case 'break':
+      case 'continue': {
+        if (this.loopDepth === 0) {
+          return { output: '', exitCode: 0 };
+        }
+        const levels = arg === undefined ? 1 : parseInt(arg, 10);
+        if (isNaN(levels) || levels < 1) {
+          return errorResult(`bash: ${name}: ${arg}: loop count out of range`, 1);
+        }
+        throw new LoopControl(name, Math.min(levels, this.loopDepth), []);
+      }
+      case 'return': {
+        if (this.callDepth === 0) {
+          return errorResult('bash: return: can only `return\' from a function or sourced script', 1);
+        }
+        const code = arg === undefined ? ctx.exitCode : parseInt(arg, 10);
+        if (isNaN(code)) {
+          return errorResult(`bash: return: ${arg}: numeric argument required`, 2);
+        }
+        throw new ReturnControl(code & 255, []);
+      }
+      case 'exit': {
+        const code = arg === undefined ? ctx.exitCode : parseInt(arg, 10);
+        if (isNaN(code)) {
+          throw new ExitControl(2, [{ stream: 'stderr', data: `bash: exit: ${arg}: numeric argument required` }]);
+        }
+        throw new ExitControl(code & 255, []);
+      }
+      case 'local': {
+        const frame = this.localFrames[this.localFrames.length - 1];
+        if (!frame) {
+          return errorResult('bash: local: can only be used in a function', 1);
+        }
+        for (const word of words.slice(1)) {
+          const eqIdx = word.indexOf('=');
+          const key = eqIdx === -1 ? word : word.slice(0, eqIdx);
+          if (!frame.has(key)) frame.set(key, ctx.env[key]);
+          ctx.env[key] = eqIdx === -1 ? '' : word.slice(eqIdx + 1);
+        }
         return { output: '', exitCode: 0 };
       }
+      default:
+        return null;
+    }
+  }
+
+  private async callFunction(
+    body: CommandNode,
+    args: string[],
+    ctx: CommandContext,
+    stdin?: string
+  ): Promise<CommandResult> {
+    if (this.callDepth >= 100) {
+      return errorResult('bash: maximum function nesting level exceeded (100)', 1);
+    }
+
+    const savedArgs = ctx.positionalArgs;
+    const savedLoopDepth = this.loopDepth;
+    const frame = new Map<string, string | undefined>();
+    ctx.positionalArgs = args;
+    this.localFrames.push(frame);
+    this.loopDepth = 0;
+    this.callDepth++;
+
+    try {
+      return await this.executeNode(body, ctx, stdin);
+    } catch (signal) {
+      if (signal instanceof ReturnControl) {
+        return fromChunks(signal.chunks, signal.exitCode);
+      }
+      throw signal;
+    } finally {
+      this.callDepth--;
+      this.loopDepth = savedLoopDepth;
+      this.localFrames.pop();
+      ctx.positionalArgs = savedArgs;
+      for (const [name, value] of frame) {
+        if (value === undefined) delete ctx.env[name];
+        else ctx.env[name] = value;
+      }
+    }
+  }
+
+  /**
+   * Find a VFS file to run for a command name: paths containing `/` are used
+   * directly, bare names are searched for along $PATH.
+   */
+  private findExecutable(name: string, ctx: CommandContext): string | null {
+    if (name.includes('/')) {
+      const path = ctx.fs.resolvePath(name, ctx.cwd);
+      return ctx.fs.exists(path, '/') ? path : null;
+    }
+
+    for (const dir of (ctx.env.PATH ?? '').split(':')) {
+      if (!dir) continue;
+      const path = ctx.fs.resolvePath(`${dir}/${name}`, ctx.cwd);
+      if (ctx.fs.isFile(path, '/') && ctx.fs.canAccess(path, 'x', '/')) return path;
+    }
+    return null;
+  }
+
+  /** Run an executable file: shell scripts in a child shell, other shebangs via their interpreter command */
+  private async executeFile(
+    path: string,
+    name: string,
+    args: string[],
+    ctx: CommandContext,
+    stdin?: string
+  ): Promise<CommandResult> {
+    if (ctx.fs.isDirectory(path, '/')) {
+      return errorResult(`bash: ${name}: Is a directory`, 126);
+    }
+    const content = ctx.fs.canAccess(path, 'x', '/') ? ctx.fs.readFile(path, '/') : null;
+    if (content === null) {
+      return errorResult(`bash: ${name}: Permission denied`, 126);
+    }
+
+    const interpreter = parseShebang(content);
+    if (interpreter && !['bash', 'sh'].includes(interpreter.command)) {
+      const handler = this.registry.get(interpreter.command);
+      if (!handler) {
+        return errorResult(`bash: ${name}: ${interpreter.path}: bad interpreter: No such file or directory`, 126);
+      }
+      return handler(this.parser.buildCommand([interpreter.command, path, ...args]), ctx, stdin);
     }
 
-    const handler = this.registry.get(cmd.command);
-    if (!handler) {
+    // Scripts without a shebang are run by the shell, like bash does
+    const child = ctx.fork();
+    child.scriptName = name;
+    child.positionalArgs = args;
+    return this.executeScript(content, child, name, stdin);
+  }
+
+  /** Replace an aliased command name with the alias's words */
+  private expandAlias(node: SimpleCommandNode, ctx: CommandContext): SimpleCommandNode {
+    const first = node.words[0]?.parts;
+    if (!first || first.length !== 1 || first[0].type !== 'literal' || first[0].quoted) return node;
+
+    const value = ctx.aliases.get(first[0].value);
+    if (value === undefined) return node;
+
+    try {
+      const aliased = this.parser.parse(value).pipelines[0]?.commands[0];
+      if (aliased?.type !== 'command') return node;
       return {
-        output: `${cmd.command}: command not found`,
-        exitCode: 127,
+        type: 'command',
+        words: [...aliased.words, ...node.words.slice(1)],
+        redirects: [...aliased.redirects, ...node.redirects],
       };
+    } catch {
+      return node;
     }
+  }
+
+  private withOutput(before: OutputChunk[], result: CommandResult): CommandResult {
+    return fromChunks([...before, ...toChunks(result)], result.exitCode);
+  }
 
+  /** Await a body, keeping `before` in front of the output if a control signal escapes it */
+  private async keepOutput(before: OutputChunk[], body: Promise<CommandResult>): Promise<CommandResult> {
     try {
-      const result = await handler(cmd, ctx, stdin);
-      ctx.exitCode = result.exitCode;
+      return await body;
+    } catch (signal) {
+      if (isControlSignal(signal)) signal.chunks.unshift(...before);
+      throw signal;
+    }
+  }
+
+  /**
+   * Process redirects left to right before the command runs: `<` supplies
+   * stdin, `>` truncates its file up front, `2>&1` copies fd 1's current
+   * target. Returns an error result if a file can't be opened.
+   */
+  private async openRedirects(
+    redirects: RedirectNode[],
+    ctx: CommandContext
+  ): Promise<RedirectPlan | CommandResult> {
+    const plan: RedirectPlan = {};
+    if (redirects.length === 0) return plan;
+
+    const expander = this.createExpander(ctx);
+    const fds = new Map<number, OutputTarget>([
+      [1, { kind: 'terminal', stream: 'stdout' }],
+      [2, { kind: 'terminal', stream: 'stderr' }],
+    ]);
 
-      // Handle output redirect
-      if (cmd.outputRedirect) {
-        const filePath = ctx.resolvePath(cmd.outputRedirect.file);
-        if (cmd.outputRedirect.append) {
-          ctx.fs.appendFile(filePath, result.output + '\n', '/');
-        } else {
-          ctx.fs.writeFile(filePath, result.output + '\n', '/');
+    for (const redirect of redirects) {
+      const target = await expander.expandWord(redirect.target);
+
+      if (redirect.op === '<') {
+        if (target === '/dev/null') {
+          plan.stdin = '';
+          continue;
+        }
+        const content = ctx.fs.readFile(ctx.fs.resolvePath(target, ctx.cwd), '/');
+        if (content === null) {
+          return errorResult(`bash: ${target}: ${describeFSError(ctx.fs.lastError)}`, 1);
         }
-        return { output: '', exitCode: result.exitCode };
+        plan.stdin = content.replace(/\n$/, '');
+        continue;
       }
 
-      return result;
-    } catch (err) {
-      return {
-        output: `${cmd.command}: internal error`,
-        exitCode: 1,
-      };
+      // `2>&1`, `>&2`: duplicate another descriptor's current target
+      if (redirect.op === '>&' && /^\d+$/.test(target)) {
+        const source = fds.get(parseInt(target, 10));
+        if (!source) return errorResult(`bash: ${target}: Bad file descriptor`, 1);
+        fds.set(redirect.fd, source);
+        continue;
+      }
+
+      const append = redirect.op === '>>' || redirect.op === '&>>';
+      const opened = this.openOutput(target, append, ctx);
+      if (!opened) return errorResult(`bash: ${target}: ${describeFSError(ctx.fs.lastError)}`, 1);
+
+      if (redirect.op === '&>' || redirect.op === '&>>' || redirect.op === '>&') {
+        fds.set(1, opened);
+        fds.set(2, opened);
+      } else {
+        fds.set(redirect.fd, opened);
+      }
     }
+
+    // Output redirects go through routeOutput; input-only plans leave results untouched
+    if (redirects.some(r => r.op !== '<')) plan.fds = fds;
+    return plan;
   }
+
+  private openOutput(target: string, append: boolean, ctx: CommandContext): OutputTarget | null {
+    if (target === '/dev/null') return { kind: 'null' };
+    if (target === '/dev/stdout') return { kind: 'terminal', stream: 'stdout' };
+    if (target === '/dev/stderr') return { kind: 'terminal', stream: 'stderr' };
+
+    const path = ctx.fs.resolvePath(target, ctx.cwd);
+    const ok = append
+      ? ctx.fs.appendFile(path, '', '/') || ctx.fs.writeFile(path, '', '/')
+      : ctx.fs.writeFile(path, '', '/');
+    return ok ? { kind: 'file', path, lines: [] } : null;
+  }
+
+  /** Send each chunk of a finished command to its descriptor's target */
+  private routeOutput(plan: RedirectPlan, result: CommandResult, ctx: CommandContext): CommandResult {
+    if (!plan.fds) return result;
+
+    const terminal: OutputChunk[] = [];
+    const files = new Set<OutputTarget & { kind: 'file' }>();
+    for (const chunk of toChunks(result)) {
+      const target = plan.fds.get(chunk.stream === 'stdout' ? 1 : 2);
+      if (!target || target.kind === 'null') continue;
+      if (target.kind === 'terminal') {
+        terminal.push({ stream: target.stream, data: chunk.data });
+      } else {
+        target.lines.push(chunk.data);
+        files.add(target);
+      }
+    }
+
+    for (const file of files) {
+      ctx.fs.appendFile(file.path, file.lines.join('\n') + '\n', '/');
+    }
+
+    return fromChunks(terminal, result.exitCode);
+  }
+
+  private createExpander(ctx: CommandContext): WordExpander {
+    return new WordExpander(ctx, async (body) => {
+      // $(...) runs in a subshell, so break/return inside it cannot escape
+      const result = await this.runTopLevel(body, ctx.fork());
+      ctx.exitCode = result.exitCode;
+      return result.output;
+    });
+  }
+}
+
+/** Split an unquoted leading `NAME=` off a word, returning the value as its own word */
+function splitAssignment(word: WordNode): { name: string; value: WordNode } | null {
+  const first = word.parts[0];
+  if (!first || first.type !== 'literal' || first.quoted) return null;
+
+  const match = first.value.match(/^([A-Za-z_]\w*)=/);
+  if (!match) return null;
+
+  const rest = first.value.slice(match[0].length);
+  const parts = rest ? [{ ...first, value: rest }, ...word.parts.slice(1)] : word.parts.slice(1);
+  return { name: match[1], value: { type: 'word', parts } };
+}
+
+/** `#!/bin/bash` or `#!/usr/bin/env node` -> the interpreter's command name and path */
+function parseShebang(content: string): { command: string; path: string } | null {
+  const match = content.match(/^#!\s*(\S+)(?:[ \t]+(\S+))?/);
+  if (!match) return null;
+  const path = match[1];
+  const command = path.endsWith('/env') && match[2] ? match[2] : path.split('/').pop()!;
+  return { command, path };
+}
+
+function errorResult(message: string, exitCode: number): CommandResult {
+  return { output: '', stderr: message, exitCode };
+}
+
+function fromChunks(chunks: OutputChunk[], exitCode: number): CommandResult {
+  const join = (stream: OutputStream) =>
+    chunks.filter(c => c.stream === stream).map(c => c.data).join('\n');
+  return { output: join('stdout'), stderr: join('stderr'), chunks, exitCode };
 }
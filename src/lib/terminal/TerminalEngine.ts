@@ -1,7 +1,7 @@
-import { VirtualFileSystem, FSNodeJSON } from './VirtualFileSystem';
+import { VirtualFileSystem, FSNodeJSON, FileChange, BASELINE } from './VirtualFileSystem';
 import { CommandParser } from './CommandParser';
-import { CommandRegistry } from './CommandRegistry';
-import { CommandContext, ChallengeState } from './CommandContext';
+import { CommandRegistry, CommandResult, OutputChunk, OutputStream, toChunks } from './CommandRegistry';
+import { CommandContext, ChallengeState, ChallengeConfig } from './CommandContext';
 import { PipelineExecutor } from './PipelineExecutor';
 import { InputBuffer } from './InputBuffer';
 import { registerFilesystemCommands } from './commands/filesystem';
@@ -11,22 +11,50 @@ import { registerGitCommands } from './commands/git';
 import { registerNodeCommands } from './commands/node';
 import { registerPythonCommands } from './commands/python';
 import { registerNetworkCommands } from './commands/network';
-import { registerChallengeCommands, getObjectivesForLevel, getObjectiveTitle } from './commands/challenge';
+import { registerChallengeCommands, nextEnabledLevel } from './commands/challenge';
+import { registerEditorCommands } from './commands/editor';
+import { registerShellCommands } from './commands/shell';
+import { registerPermissionCommands } from './commands/permissions';
+import { registerDatabaseCommands } from './commands/database';
+import { registerRedisCommands } from './commands/redis';
+import { InteractiveShell } from './InteractiveShell';
+import { TextEditor } from './editor/TextEditor';
 import { LevelEvaluator } from '../challenges/LevelEvaluator';
+import { ChallengePack, EMPTY_PACK, getObjectivesForLevel, getObjectiveTitle } from '../challenges/ChallengePack';
+import { Clock, SystemClock } from './Clock';
 
 export type WriteCallback = (data: string) => void;
 
 export interface TerminalEngineOptions {
   seniority?: ChallengeState['seniority'];
+  /** Levels and hint policy for this session; defaults to every level with seniority-based hints */
+  challenge?: Partial<ChallengeConfig>;
+  /** The interview to play; without one the challenge commands have nothing to offer */
+  pack?: ChallengePack;
   filesystem?: Record<string, FSNodeJSON>;
   onEvent?: (event: TerminalEvent) => void;
+  /** Seeds the random numbers commands use (e.g. commit hashes); pass the session id so replays match */
+  seed?: string;
+  /** Overrides the wall clock, e.g. with a FakeClock when re-running recorded input */
+  clock?: Clock;
 }
 
+/** Who typed an input: the candidate, or an interviewer driving in pair-programming mode */
+export type Participant = 'candidate' | 'interviewer';
+
 export interface TerminalEvent {
-  type: 'command' | 'output' | 'key' | 'paste';
+  /** `input` is each raw chunk the engine accepted, which is enough to re-run the session */
+  type: 'command' | 'output' | 'key' | 'paste' | 'input' | 'resize';
   data: string;
   timestamp: number;
   exitCode?: number;
+  /** For output events: whether the text was written to stdout or stderr */
+  stream?: OutputStream;
+  /** Whoever was driving the terminal when the event happened */
+  participant?: Participant;
+  /** For resize events: the new dimensions */
+  cols?: number;
+  rows?: number;
 }
 
 export class TerminalEngine {
@@ -36,16 +64,36 @@ export class TerminalEngine {
   private ctx: CommandContext;
   private executor: PipelineExecutor;
   private inputBuffer: InputBuffer;
+  private evaluator: LevelEvaluator;
   private write: WriteCallback = () => {};
   private onEvent?: (event: TerminalEvent) => void;
   private multiLineMode: { delimiter: string; lines: string[]; command: string } | null = null;
+  /** Lines of an unfinished compound command (`for ...; do` awaiting `done`) */
+  private continuationLines: string[] | null = null;
   private processing: boolean = false;
+  /** Set while an interviewer has paused the session; input is ignored */
+  private paused: boolean = false;
+  /** Only the driver's input is accepted; the other participant watches */
+  private driver: Participant = 'candidate';
+  private pendingEditor: TextEditor | null = null;
+  private activeEditor: { editor: TextEditor; command: string } | null = null;
+  private pendingShell: InteractiveShell | null = null;
+  /** A program such as psql reading lines in place of the shell */
+  private activeShell: InteractiveShell | null = null;
+  private cols: number = 80;
+  private rows: number = 24;
+  private clock: Clock;
+  /** Settles once ~/.bashrc has run */
+  private startup: Promise<void> = Promise.resolve();
 
   constructor(options: TerminalEngineOptions = {}) {
-    this.fs = new VirtualFileSystem();
+    this.clock = options.clock ?? new SystemClock(options.seed);
+    this.fs = new VirtualFileSystem(this.clock);
     this.parser = new CommandParser();
     this.registry = new CommandRegistry();
-    this.ctx = new CommandContext(this.fs, options.seniority || 'mid');
+    const pack = options.pack ?? EMPTY_PACK;
+    this.ctx = new CommandContext(this.fs, options.seniority || 'mid', options.challenge, this.clock, pack);
+    this.evaluator = new LevelEvaluator(pack);
     this.executor = new PipelineExecutor(this.parser, this.registry);
     this.inputBuffer = new InputBuffer();
     this.onEvent = options.onEvent;
@@ -53,12 +101,29 @@ export class TerminalEngine {
     // Register commands
     registerFilesystemCommands(this.registry);
     registerSystemCommands(this.registry);
-    registerDockerCommands(this.registry);
+    registerDockerCommands(this.registry, (argv, ctx, stdin) =>
+      this.executor.executeArgv(argv, ctx, stdin)
+    );
     registerGitCommands(this.registry);
     registerNodeCommands(this.registry);
     registerPythonCommands(this.registry);
     registerNetworkCommands(this.registry);
     registerChallengeCommands(this.registry);
+    registerEditorCommands(this.registry, (editor) => {
+      this.pendingEditor = editor;
+    });
+    registerShellCommands(this.registry, (source, ctx, name, stdin) =>
+      this.executor.executeScript(source, ctx, name, stdin)
+    );
+    registerPermissionCommands(this.registry, (argv, ctx, stdin) =>
+      this.executor.executeArgv(argv, ctx, stdin)
+    );
+    registerDatabaseCommands(this.registry, (shell) => {
+      this.pendingShell = shell;
+    });
+    registerRedisCommands(this.registry, (shell) => {
+      this.pendingShell = shell;
+    });
 
     // Override history command to use actual history
     this.registry.register('history', () => {
@@ -73,14 +138,45 @@ export class TerminalEngine {
     // Load filesystem if provided
     if (options.filesystem) {
       this.fs.loadFromJSON(options.filesystem);
+      this.fs.setUser(this.ctx.user);
+      this.sourceRcFile();
     }
   }
 
+  /** Run ~/.bashrc like a login shell would (aliases, exports); output is discarded */
+  private sourceRcFile(): void {
+    const rcPath = `${this.ctx.env.HOME}/.bashrc`;
+    const content = this.fs.readFile(rcPath, '/');
+    if (content === null) return;
+
+    this.startup = this.executor.executeScript(content, this.ctx, rcPath)
+      .then(() => {}, () => {})
+      .finally(() => {
+        this.ctx.exitCode = 0;
+      });
+  }
+
+  /** Resolves once startup scripts have run; input before then may see a half-initialised shell */
+  ready(): Promise<void> {
+    return this.startup;
+  }
+
   /** Set the write callback (called to send data to xterm.js) */
   setWriter(write: WriteCallback): void {
     this.write = write;
   }
 
+  /** Track the xterm.js dimensions (used by full-screen programs) */
+  resize(cols: number, rows: number): void {
+    if (cols === this.cols && rows === this.rows) return;
+    this.cols = cols;
+    this.rows = rows;
+    this.emitEvent({ type: 'resize', data: `${cols}x${rows}`, cols, rows, timestamp: this.clock.now() });
+    if (this.activeEditor) {
+      this.write(this.activeEditor.editor.resize(cols, rows));
+    }
+  }
+
   /** Initialize the terminal with welcome message and first prompt */
   boot(): void {
     const welcome = [
@@ -90,7 +186,7 @@ export class TerminalEngine {
       '\x1b[1;36m╚══════════════════════════════════════════════════════════════╝\x1b[0m',
       '',
       `  \x1b[37mRole:\x1b[0m ${this.ctx.challenge.seniority}`,
-      `  \x1b[37mLevel:\x1b[0m ${this.ctx.challenge.currentLevel}/4`,
+      `  \x1b[37mLevel:\x1b[0m ${this.ctx.challenge.currentLevel}/${Math.max(...this.ctx.challenge.enabledLevels)}`,
       '',
       '  Type \x1b[1mhelp\x1b[0m to see available commands.',
       '  Type \x1b[1mstatus\x1b[0m to see your current objectives.',
@@ -101,9 +197,15 @@ export class TerminalEngine {
     this.writePrompt();
   }
 
-  /** Handle input data from xterm.js */
-  async handleInput(data: string): Promise<void> {
-    if (this.processing) return;
+  /** Handle input data from xterm.js, or relayed from an interviewer's terminal */
+  async handleInput(data: string, from: Participant = 'candidate'): Promise<void> {
+    if (this.processing || this.paused || from !== this.driver) return;
+    this.emitEvent({ type: 'input', data, timestamp: this.clock.now() });
+
+    if (this.activeEditor) {
+      this.handleEditorInput(data);
+      return;
+    }
 
     for (let i = 0; i < data.length; i++) {
       const char = data[i];
@@ -154,8 +256,17 @@ export class TerminalEngine {
 
       // Ctrl+C - cancel current input
       if (code === 3) {
-        if (this.multiLineMode) {
+        if (this.activeShell) {
+          this.activeShell.interrupt();
+          this.write('^C\r\n');
+          this.inputBuffer.clear();
+          this.leaveShellIfClosed();
+          this.writePrompt();
+          continue;
+        }
+        if (this.multiLineMode || this.continuationLines) {
           this.multiLineMode = null;
+          this.continuationLines = null;
           this.write('^C\r\n');
           this.writePrompt();
           this.inputBuffer.clear();
@@ -169,6 +280,12 @@ export class TerminalEngine {
 
       // Ctrl+D - EOF
       if (code === 4) {
+        if (this.activeShell && this.inputBuffer.getBuffer().length === 0) {
+          this.writeResult(this.activeShell.eof());
+          this.leaveShellIfClosed();
+          this.writePrompt();
+          continue;
+        }
         if (this.inputBuffer.getBuffer().length === 0) {
           this.write('\r\n');
           // Don't exit, just ignore
@@ -230,47 +347,60 @@ export class TerminalEngine {
 
       // Backspace
       if (code === 127 || code === 8) {
-        this.write(this.inputBuffer.backspace());
+        const erase = this.inputBuffer.backspace();
+        if (this.echoing()) this.write(erase);
         continue;
       }
 
       // Enter
       if (char === '\r' || char === '\n') {
         this.write('\r\n');
-        const command = this.inputBuffer.submit();
+        const command = this.inputBuffer.submit(this.echoing());
         await this.processCommand(command);
         continue;
       }
 
       // Printable characters
       if (code >= 32) {
-        this.write(this.inputBuffer.insert(char));
-        this.emitEvent({ type: 'key', data: char, timestamp: Date.now() });
+        const echo = this.inputBuffer.insert(char);
+        if (this.echoing()) this.write(echo);
+        this.emitEvent({ type: 'key', data: char, timestamp: this.clock.now() });
       }
     }
   }
 
-  /** Handle pasted text */
-  handlePaste(text: string): void {
+  /** Handle pasted text; resolves once any pasted commands have run */
+  handlePaste(text: string, from: Participant = 'candidate'): Promise<void> {
+    if (this.paused || from !== this.driver) return Promise.resolve();
+
+    if (this.activeEditor) {
+      this.write(this.activeEditor.editor.insertText(text));
+      this.emitEvent({ type: 'paste', data: text, timestamp: this.clock.now() });
+      return Promise.resolve();
+    }
+
     // Filter out control characters except newlines
     const filtered = text.replace(/[\x00-\x08\x0b\x0c\x0e-\x1f]/g, '');
 
     // Check for multi-line paste (might contain newlines)
     const lines = filtered.split(/\r?\n/);
+    let done = Promise.resolve();
     if (lines.length === 1) {
       this.write(this.inputBuffer.insertText(lines[0]));
     } else {
       // Execute each line as a command
-      this.executePastedLines(lines);
+      done = this.executePastedLines(lines);
     }
 
-    this.emitEvent({ type: 'paste', data: text, timestamp: Date.now() });
+    this.emitEvent({ type: 'paste', data: text, timestamp: this.clock.now() });
+    return done;
   }
 
   private async executePastedLines(lines: string[]): Promise<void> {
     for (const line of lines) {
+      if (this.activeEditor) break;
       if (line.trim()) {
-        this.write(line + '\r\n');
+        this.write((this.echoing() ? line : '') + '\r\n');
         await this.processCommand(line.trim());
       }
     }
@@ -278,6 +408,17 @@ export class TerminalEngine {
 
   /** Process a submitted command */
   private async processCommand(raw: string): Promise<void> {
+    if (this.activeShell) {
+      this.processShellLine(this.activeShell, raw);
+      return;
+    }
+
+    // Continue an unfinished compound command with the next line
+    if (this.continuationLines) {
+      raw = [...this.continuationLines, raw].join('\n');
+      this.continuationLines = null;
+    }
+
     if (!raw) {
       this.writePrompt();
       return;
@@ -298,7 +439,8 @@ export class TerminalEngine {
           this.ctx.fs.writeFile(filePath, content + '\n', '/');
         }
 
-        this.emitEvent({ type: 'command', data: fullCommand, timestamp: Date.now() });
+        this.emitEvent({ type: 'command', data: fullCommand, timestamp: this.clock.now() });
+        this.writeResult({ output: '', exitCode: 0 });
         this.checkObjectiveCompletion(fullCommand, 0);
         this.writePrompt();
         return;
@@ -308,8 +450,8 @@ export class TerminalEngine {
       return;
     }
 
-    // Check for heredoc syntax
-    const heredocMatch = raw.match(/<<\s*['"]?(\w+)['"]?/);
+    // Check for heredoc syntax; `<<<` is a here-string, which runs as it is
+    const heredocMatch = raw.match(/(?<!<)<<(?!<)-?\s*['"]?(\w+)['"]?/);
     if (heredocMatch) {
       this.multiLineMode = {
         delimiter: heredocMatch[1],
@@ -320,59 +462,163 @@ export class TerminalEngine {
       return;
     }
 
-    this.emitEvent({ type: 'command', data: raw, timestamp: Date.now() });
+    if (this.parser.isIncomplete(raw)) {
+      this.continuationLines = raw.split('\n');
+      this.write('> ');
+      return;
+    }
+
+    this.emitEvent({ type: 'command', data: raw, timestamp: this.clock.now() });
 
     this.processing = true;
     try {
       const result = await this.executor.execute(raw, this.ctx);
-      if (result.output) {
-        // Handle clear command specially
-        if (result.output === '\x1b[2J\x1b[H') {
-          this.write(result.output);
-        } else {
-          // Convert bare \n to \r\n for xterm.js
-          const output = result.output.replace(/\r?\n/g, '\r\n');
-          this.write(output + '\r\n');
-        }
-        this.emitEvent({ type: 'output', data: result.output, timestamp: Date.now(), exitCode: result.exitCode });
-      }
+      const output = this.writeResult(result);
 
       // Auto-track objective completion based on commands
-      this.checkObjectiveCompletion(raw, result.exitCode);
+      this.checkObjectiveCompletion(raw, result.exitCode, output);
     } catch (err) {
-      this.write(`Error: ${err}\r\n`);
+      this.writeResult({ output: '', stderr: `Error: ${err}`, exitCode: 1 });
     } finally {
       this.processing = false;
     }
 
+    if (this.pendingEditor) {
+      this.openEditor(this.pendingEditor, raw);
+      return;
+    }
+    if (this.pendingShell) {
+      this.activeShell = this.pendingShell;
+      this.pendingShell = null;
+    }
+
     this.writePrompt();
   }
 
+  /** Write a command's output to the terminal and record it; returns the text shown */
+  private writeResult(result: CommandResult): string {
+    const chunks = mergeChunks(result);
+    chunks.forEach((chunk, index) => {
+      // Handle clear command specially
+      if (chunk.data === '\x1b[2J\x1b[H') {
+        this.write(chunk.data);
+      } else {
+        // Convert bare \n to \r\n for xterm.js
+        const output = chunk.data.replace(/\r?\n/g, '\r\n');
+        this.write(output + '\r\n');
+      }
+      this.emitEvent({
+        type: 'output',
+        data: chunk.data,
+        stream: chunk.stream,
+        timestamp: this.clock.now(),
+        exitCode: index === chunks.length - 1 ? result.exitCode : undefined,
+      });
+    });
+    // Silent commands still finish with a status, e.g. a failed `test` or `grep -q`
+    if (chunks.length === 0) {
+      this.emitEvent({ type: 'output', data: '', timestamp: this.clock.now(), exitCode: result.exitCode });
+    }
+    return chunks.map(chunk => chunk.data).join('\n');
+  }
+
+  /** Hand a line to the program reading input, e.g. a statement typed at the psql prompt */
+  private processShellLine(shell: InteractiveShell, line: string): void {
+    // Passwords stay out of the session record
+    const secret = !shell.echo();
+    if (!secret) this.emitEvent({ type: 'command', data: line, timestamp: this.clock.now() });
+    const result = shell.handleLine(line);
+    const output = this.writeResult(result);
+    // Statements can change what objectives inspect, just as shell commands can
+    if (!secret) this.checkObjectiveCompletion(line, result.exitCode, output);
+    this.leaveShellIfClosed();
+    this.writePrompt();
+  }
+
+  private leaveShellIfClosed(): void {
+    if (this.activeShell?.isClosed()) this.activeShell = null;
+  }
+
+  /** Whether typed characters are shown; programs turn it off while reading a password */
+  private echoing(): boolean {
+    return this.activeShell?.echo() ?? true;
+  }
+
+  /** Switch to the alternate screen and hand input over to a full-screen editor */
+  private openEditor(editor: TextEditor, command: string): void {
+    this.pendingEditor = null;
+    this.activeEditor = { editor, command };
+    this.write('\x1b[?1049h\x1b[2J');
+    this.write(editor.resize(this.cols, this.rows));
+  }
+
+  private handleEditorInput(data: string): void {
+    const { editor, command } = this.activeEditor!;
+
+    // Every keystroke inside the editor is recorded so integrity scoring and replay still see it
+    this.emitEvent({ type: 'key', data, timestamp: this.clock.now() });
+    this.write(editor.handleInput(data));
+
+    if (editor.isClosed()) {
+      this.activeEditor = null;
+      this.write('\x1b[?1049l');
+      // Files may have been written, so objectives that inspect the VFS need re-checking
+      this.checkObjectiveCompletion(command, 0);
+      this.writePrompt();
+    }
+  }
+
+  /** Print a message from outside the shell, such as the interviewer, above the line being typed */
+  notify(message: string): void {
+    // A full-screen editor owns the display; the page shows messages alongside the terminal anyway
+    if (this.activeEditor) return;
+    this.write(`\r\x1b[2K${message.replace(/\r?\n/g, '\r\n')}\r\n`);
+    if (this.processing) return;
+    if (this.multiLineMode || this.continuationLines) this.write('> ');
+    else this.writePrompt();
+    if (this.echoing()) this.write(this.inputBuffer.getBuffer());
+  }
+
+  setPaused(paused: boolean): void {
+    this.paused = paused;
+  }
+
+  setDriver(driver: Participant): void {
+    this.driver = driver;
+  }
+
+  getDriver(): Participant {
+    return this.driver;
+  }
+
   private writePrompt(): void {
-    this.write(this.ctx.prompt);
+    this.write(this.activeShell ? this.activeShell.prompt() : this.ctx.prompt);
   }
 
   /** Check if a command triggers automatic objective completion */
-  private checkObjectiveCompletion(raw: string, exitCode: number): void {
-    const newlyCompleted = LevelEvaluator.evaluate(this.ctx, raw, exitCode);
+  private checkObjectiveCompletion(raw: string, exitCode: number, output = ''): void {
+    // Grading looks at the filesystem as root so candidates' chmods can't hide files from it
+    const newlyCompleted = this.fs.runAs('root', () => this.evaluator.evaluate(this.ctx, raw, exitCode, output));
     if (newlyCompleted.length === 0) return;
 
     const completed = this.ctx.challenge.completedObjectives;
     for (const id of newlyCompleted) {
       completed.push(id);
-      const title = getObjectiveTitle(id) ?? id;
+      const title = getObjectiveTitle(this.ctx.pack, id) ?? id;
       this.write(`\r\n\x1b[32m✓ Objective completed: ${title}\x1b[0m\r\n`);
-      this.emitEvent({ type: 'output', data: `objective_complete:${id}`, timestamp: Date.now() });
+      this.emitEvent({ type: 'output', data: `objective_complete:${id}`, timestamp: this.clock.now() });
     }
 
     // Check if all objectives for the current level are now complete
     const level = this.ctx.challenge.currentLevel;
-    const { total, ids } = getObjectivesForLevel(level, this.ctx.challenge.seniority);
+    const { total, ids } = getObjectivesForLevel(this.ctx.pack, level, this.ctx.challenge.seniority);
     const completedCount = ids.filter(id => completed.includes(id)).length;
-    if (completedCount >= total && level < 4) {
+    if (completedCount < total) return;
+    const nextLevel = nextEnabledLevel(this.ctx);
+    if (nextLevel !== null) {
       this.write(`\r\n\x1b[1;32m🎉 Level ${level} complete!\x1b[0m\r\n`);
-      this.write(`Type \x1b[1mnext-level\x1b[0m to advance to Level ${level + 1}.\r\n`);
-    } else if (completedCount >= total && level >= 4) {
+      this.write(`Type \x1b[1mnext-level\x1b[0m to advance to Level ${nextLevel}.\r\n`);
+    } else {
       this.write(`\r\n\x1b[1;36m🎉 Congratulations! You have completed all levels!\x1b[0m\r\n`);
     }
   }
@@ -398,7 +644,7 @@ export class TerminalEngine {
   }
 
   private emitEvent(event: TerminalEvent): void {
-    this.onEvent?.(event);
+    this.onEvent?.({ ...event, participant: this.driver });
   }
 
   /** Get current context (for external use) */
@@ -409,7 +655,7 @@ export class TerminalEngine {
   /** Get objective progress for the current level */
   getObjectiveProgress(): { completed: number; total: number } {
     const ctx = this.ctx;
-    const { total, ids } = getObjectivesForLevel(ctx.challenge.currentLevel, ctx.challenge.seniority);
+    const { total, ids } = getObjectivesForLevel(ctx.pack, ctx.challenge.currentLevel, ctx.challenge.seniority);
     const completedCount = ids.filter(id => ctx.challenge.completedObjectives.includes(id)).length;
     return { completed: completedCount, total };
   }
@@ -422,6 +668,27 @@ export class TerminalEngine {
   /** Load filesystem data */
   loadFileSystem(data: Record<string, FSNodeJSON>): void {
     this.fs.loadFromJSON(data);
+    this.fs.setUser(this.ctx.user);
+  }
+
+  /** What the candidate changed since the seeded filesystem (or a named checkpoint) */
+  getChangeset(since: string = BASELINE): FileChange[] | null {
+    return this.fs.changes(since);
+  }
+
+  /** Take a named filesystem checkpoint to diff against or roll back to */
+  checkpoint(name: string): void {
+    this.fs.checkpoint(name);
+  }
+
+  /** Roll the filesystem back to a checkpoint, leaving the shell somewhere that still exists */
+  rollback(name: string = BASELINE): boolean {
+    if (!this.fs.rollback(name)) return false;
+    if (!this.fs.isDirectory(this.ctx.cwd, '/')) {
+      this.ctx.cwd = this.ctx.env.HOME || '/';
+      this.ctx.env.PWD = this.ctx.cwd;
+    }
+    return true;
   }
 
   /** Get the command registry (to register additional commands) */
@@ -429,3 +696,17 @@ export class TerminalEngine {
     return this.registry;
   }
 }
+
+/** Join consecutive chunks from the same stream so each write (and event) is one block */
+function mergeChunks(result: CommandResult): OutputChunk[] {
+  const merged: OutputChunk[] = [];
+  for (const chunk of toChunks(result)) {
+    const last = merged[merged.length - 1];
+    if (last && last.stream === chunk.stream) {
+      last.data += '\n' + chunk.data;
+    } else {
+      merged.push({ ...chunk });
+    }
+  }
+  return merged;
+}
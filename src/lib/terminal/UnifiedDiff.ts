@@ -0,0 +1,122 @@
+type DiffLine = { op: ' ' | '-' | '+'; text: string };
+
+/**
+ * Render a unified diff (`diff -u` / `git diff` style) between two texts.
+ * Returns an empty string when they are identical.
+ */
+export function unifiedDiff(before: string, after: string, fromLabel: string, toLabel: string, context: number = 3): string {
+  if (before === after) return '';
+  const oldLines = splitLines(before);
+  const newLines = splitLines(after);
+  const lines = diffLines(oldLines, newLines);
+
+  const out = [`--- ${fromLabel}`, `+++ ${toLabel}`];
+  for (const hunk of groupHunks(lines, context)) {
+    out.push(hunk);
+  }
+  return out.join('\n');
+}
+
+function splitLines(text: string): string[] {
+  if (text === '') return [];
+  const lines = text.split('\n');
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+/** Line diff via the longest common subsequence, after trimming the shared prefix and suffix */
+function diffLines(a: string[], b: string[]): DiffLine[] {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const n = midA.length;
+  const m = midB.length;
+
+  // lcs[i][j] = length of the LCS of midA[i..] and midB[j..]
+  const lcs: Uint32Array[] = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] = midA[i] === midB[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = a.slice(0, start).map(text => ({ op: ' ', text }));
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && midA[i] === midB[j]) {
+      result.push({ op: ' ', text: midA[i] });
+      i++;
+      j++;
+    } else if (j < m && (i === n || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      result.push({ op: '+', text: midB[j++] });
+    } else {
+      result.push({ op: '-', text: midA[i++] });
+    }
+  }
+  // Deletions read better before insertions within a changed block
+  for (let k = start; k < result.length; k++) {
+    if (result[k].op !== '+') continue;
+    let end = k;
+    while (end < result.length && result[end].op !== ' ') end++;
+    const block = result.slice(k, end);
+    result.splice(k, block.length, ...block.filter(l => l.op === '-'), ...block.filter(l => l.op === '+'));
+    k = end;
+  }
+  for (const text of a.slice(endA)) result.push({ op: ' ', text });
+  return result;
+}
+
+/** Group changed lines into `@@ -l,s +l,s @@` hunks with surrounding context */
+function groupHunks(lines: DiffLine[], context: number): string[] {
+  const hunks: string[] = [];
+  let index = 0;
+  while (index < lines.length) {
+    while (index < lines.length && lines[index].op === ' ') index++;
+    if (index >= lines.length) break;
+
+    const start = Math.max(0, index - context);
+    let end = index;
+    // Extend while the next change is within two context windows
+    while (end < lines.length) {
+      if (lines[end].op !== ' ') {
+        end++;
+        continue;
+      }
+      let next = end;
+      while (next < lines.length && lines[next].op === ' ') next++;
+      if (next < lines.length && next - end <= context * 2) {
+        end = next;
+      } else {
+        end = Math.min(lines.length, end + context);
+        break;
+      }
+    }
+
+    const body = lines.slice(start, end);
+    const oldStart = lines.slice(0, start).filter(l => l.op !== '+').length;
+    const newStart = lines.slice(0, start).filter(l => l.op !== '-').length;
+    const oldCount = body.filter(l => l.op !== '+').length;
+    const newCount = body.filter(l => l.op !== '-').length;
+    hunks.push(
+      `@@ -${formatRange(oldStart, oldCount)} +${formatRange(newStart, newCount)} @@`,
+      ...body.map(l => l.op + l.text)
+    );
+    index = end;
+  }
+  return hunks;
+}
+
+function formatRange(start: number, count: number): string {
+  // An empty range is addressed by the line before it, as diff -u does
+  const line = count === 0 ? start : start + 1;
+  return count === 1 ? String(line) : `${line},${count}`;
+}
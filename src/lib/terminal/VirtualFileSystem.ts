@@ -1,3 +1,7 @@
+import { parseMode, formatMode, STICKY } from './FileMode';
+import { unifiedDiff } from './UnifiedDiff';
+import { Clock, SystemClock } from './Clock';
+
 export type FSNodeType = 'file' | 'directory' | 'symlink';
 
 export interface FSNode {
@@ -7,9 +11,35 @@ export interface FSNode {
   children?: Map<string, FSNode>;
   target?: string; // for symlinks
   permissions?: string;
-  modified?: number;
+  owner?: string;
+  group?: string;
+  /** Hard links are the same node object in several directories */
+  inode?: number;
+  nlink?: number;
+  /** Last access, content modification and metadata change (epoch ms) */
+  atime?: number;
+  mtime?: number;
+  ctime?: number;
+}
+
+/** One entry of a changeset between a checkpoint and the live filesystem */
+export interface FileChange {
+  /** Absolute path */
+  path: string;
+  status: 'added' | 'modified' | 'deleted';
+  type: FSNodeType;
+  /** Unified diff of the file's content, when it changed */
+  diff?: string;
+  /** Changed metadata as `key: old -> new`, or a new/deleted symlink's target */
+  metadata?: string[];
 }
 
+/** Name of the checkpoint taken whenever a filesystem is loaded */
+export const BASELINE = 'baseline';
+
+/** YAML timestamps arrive as Date objects; snapshots store epoch ms */
+export type FSTimestamp = string | number | Date;
+
 export interface FSNodeJSON {
   name: string;
   type: FSNodeType;
@@ -17,52 +47,283 @@ export interface FSNodeJSON {
   children?: Record<string, FSNodeJSON>;
   target?: string;
   permissions?: string;
+  /** Defaults to the parent directory's owner (root at the top) */
+  owner?: string;
+  group?: string;
+  /** Entries sharing an inode number become hard links to one file */
+  inode?: number;
+  /** Default to the parent directory's mtime */
+  mtime?: FSTimestamp;
+  atime?: FSTimestamp;
+  ctime?: FSTimestamp;
 }
 
+/** Why the last failed operation failed, named after the errno it mirrors */
+export type FSErrorCode = 'ENOENT' | 'EACCES' | 'EPERM' | 'EISDIR' | 'ENOTDIR' | 'EEXIST';
+
+const ERROR_MESSAGES: Record<FSErrorCode, string> = {
+  ENOENT: 'No such file or directory',
+  EACCES: 'Permission denied',
+  EPERM: 'Operation not permitted',
+  EISDIR: 'Is a directory',
+  ENOTDIR: 'Not a directory',
+  EEXIST: 'File exists',
+};
+
+/** The strerror() text for an error code, as coreutils prints it */
+export function describeFSError(code: FSErrorCode | null): string {
+  return ERROR_MESSAGES[code ?? 'ENOENT'];
+}
+
+type AccessMode = 'r' | 'w' | 'x';
+
 export class VirtualFileSystem {
   private root: FSNode;
+  private nextInode = 2;
+  private checkpoints = new Map<string, FSNode>();
+  /** Nodes created or copied since the last checkpoint, which may be changed in place */
+  private owned = new WeakSet<FSNode>();
+  private user = 'root';
+  private groups: string[] = ['root'];
+  /** Permission bits removed from newly created files and directories */
+  umask = 0o022;
+  /** Set when an operation fails, cleared when one starts */
+  lastError: FSErrorCode | null = null;
+
+  constructor(private clock: Clock = new SystemClock()) {
+    this.root = this._createRoot();
+  }
+
+  /** Clock used for atime/mtime/ctime */
+  now(): number {
+    return this.clock.now();
+  }
 
-  constructor() {
-    this.root = {
+  private _createRoot(mtime: number = this.now()): FSNode {
+    this.nextInode = 2;
+    return {
       name: '/',
       type: 'directory',
       children: new Map(),
       permissions: 'drwxr-xr-x',
+      owner: 'root',
+      group: 'root',
+      inode: this.nextInode++,
+      nlink: 1,
+      atime: mtime,
+      mtime,
+      ctime: mtime,
     };
   }
 
   /** Load filesystem from a plain object (parsed from YAML) */
   loadFromJSON(tree: Record<string, FSNodeJSON>): void {
-    this.root.children = new Map();
-    this._loadChildren(this.root, tree);
+    this.root = this._createRoot();
+    this._loadChildren(this.root, tree, new Map());
+    this.checkpoints.clear();
+    this.checkpoint(BASELINE);
   }
 
-  private _loadChildren(parent: FSNode, tree: Record<string, FSNodeJSON>): void {
+  private _loadChildren(parent: FSNode, tree: Record<string, FSNodeJSON>, links: Map<number, FSNode>): void {
     for (const [name, node] of Object.entries(tree)) {
+      // A second entry with a known inode is a hard link to the first
+      const linked = node.inode !== undefined ? links.get(node.inode) : undefined;
+      if (linked) {
+        linked.nlink = (linked.nlink ?? 1) + 1;
+        parent.children!.set(name, linked);
+        continue;
+      }
+
+      const type = node.type || (node.children ? 'directory' : 'file');
+      const mtime = toEpoch(node.mtime) ?? parent.mtime ?? this.now();
       const fsNode: FSNode = {
         name,
-        type: node.type || (node.children ? 'directory' : 'file'),
+        type,
         content: node.content,
-        permissions: node.permissions,
+        permissions: node.permissions ?? defaultPermissions(type),
+        owner: node.owner ?? parent.owner ?? 'root',
+        group: node.group ?? node.owner ?? parent.group ?? 'root',
         target: node.target,
-        modified: Date.now(),
+        inode: this._allocInode(node.inode),
+        nlink: 1,
+        atime: toEpoch(node.atime) ?? mtime,
+        mtime,
+        ctime: toEpoch(node.ctime) ?? mtime,
       };
+      if (node.inode !== undefined) links.set(node.inode, fsNode);
       if (fsNode.type === 'directory') {
         fsNode.children = new Map();
         if (node.children) {
-          this._loadChildren(fsNode, node.children);
+          this._loadChildren(fsNode, node.children, links);
         }
       }
       parent.children!.set(name, fsNode);
     }
   }
 
+  private _allocInode(requested?: number): number {
+    if (requested === undefined) return this.nextInode++;
+    this.nextInode = Math.max(this.nextInode, requested + 1);
+    return requested;
+  }
+
+  // --- Identity and access control ---
+
+  /** The user that filesystem operations run as; groups come from /etc/group */
+  setUser(user: string): void {
+    this.user = user;
+    this.groups = this._groupsOf(user);
+  }
+
+  getUser(): string {
+    return this.user;
+  }
+
+  /** The user's groups, primary group first */
+  getGroups(): string[] {
+    return [...this.groups];
+  }
+
+  /** Run `fn` as another user (e.g. root for grading or `sudo`), restoring the current user afterwards */
+  runAs<T>(user: string, fn: () => T): T {
+    const saved = this.user;
+    this.setUser(user);
+    try {
+      return fn();
+    } finally {
+      this.setUser(saved);
+    }
+  }
+
+  /** Whether the current user may read, write or execute/search a path */
+  canAccess(path: string, mode: AccessMode, cwd: string = '/'): boolean {
+    const parts = this._resolveParts(path, cwd);
+    if (!this._searchable(parts)) return false;
+    const node = this._walk(parts);
+    return node !== null && this._permits(node, mode);
+  }
+
+  private _groupsOf(user: string): string[] {
+    const groups: string[] = [];
+    const lines = (this.resolve('/etc/group')?.content ?? '').split('\n');
+    for (const line of lines) {
+      const [name, , , members = ''] = line.split(':');
+      if (!name) continue;
+      if (name === user) groups.unshift(name);
+      else if (members.split(',').includes(user)) groups.push(name);
+    }
+    if (groups[0] !== user && !groups.includes(user)) groups.unshift(user);
+    return groups;
+  }
+
+  private _permits(node: FSNode, mode: AccessMode): boolean {
+    const bits = parseMode(node.permissions ?? defaultPermissions(node.type));
+    const wanted = mode === 'r' ? 4 : mode === 'w' ? 2 : 1;
+
+    // root bypasses checks, except it still needs some x bit to execute a file
+    if (this.user === 'root') {
+      return mode !== 'x' || node.type === 'directory' || (bits & 0o111) !== 0;
+    }
+    if (node.owner === this.user) return ((bits >> 6) & wanted) !== 0;
+    if (node.group && this.groups.includes(node.group)) return ((bits >> 3) & wanted) !== 0;
+    return (bits & wanted) !== 0;
+  }
+
+  /** Every directory on the way to `parts` needs search (x) permission */
+  private _searchable(parts: string[]): boolean {
+    for (let i = 0; i < parts.length; i++) {
+      const dir = this._walk(parts.slice(0, i));
+      if (dir && dir.type === 'directory' && !this._permits(dir, 'x')) return false;
+    }
+    return true;
+  }
+
+  private _fail<T>(code: FSErrorCode, value: T): T {
+    this.lastError = code;
+    return value;
+  }
+
+  private _newMode(type: FSNodeType): string {
+    const base = type === 'directory' ? 0o777 : 0o666;
+    return formatMode(type, base & ~this.umask);
+  }
+
+  private _newNode(name: string, type: FSNodeType): FSNode {
+    const now = this.now();
+    return {
+      name,
+      type,
+      permissions: type === 'symlink' ? 'lrwxrwxrwx' : this._newMode(type),
+      owner: this.user,
+      group: this.groups[0] ?? this.user,
+      inode: this.nextInode++,
+      nlink: 1,
+      atime: now,
+      mtime: now,
+      ctime: now,
+    };
+  }
+
+  /** Content changed: bump mtime and ctime */
+  private _modified(node: FSNode): void {
+    node.mtime = node.ctime = this.now();
+  }
+
+  /** Change a node's mode; only its owner or root may */
+  chmod(path: string, mode: number, cwd: string = '/'): boolean {
+    this.lastError = null;
+    const parts = this._resolveParts(path, cwd);
+    if (!this._searchable(parts)) return this._fail('EACCES', false);
+    const node = this._walk(parts);
+    if (!node) return this._fail('ENOENT', false);
+    if (this.user !== 'root' && node.owner !== this.user) return this._fail('EPERM', false);
+
+    const target = this._mutable(parts);
+    target.permissions = formatMode(target.type, mode);
+    target.ctime = this.now();
+    return true;
+  }
+
+  /**
+   * Change a node's owner and/or group. Only root may give a file away; an
+   * owner may change the group to one they belong to.
+   */
+  chown(path: string, owner: string | null, group: string | null, cwd: string = '/'): boolean {
+    this.lastError = null;
+    const parts = this._resolveParts(path, cwd);
+    if (!this._searchable(parts)) return this._fail('EACCES', false);
+    const node = this._walk(parts);
+    if (!node) return this._fail('ENOENT', false);
+
+    if (this.user !== 'root') {
+      const ownerChange = owner !== null && owner !== node.owner;
+      const groupAllowed = group === null || this.groups.includes(group);
+      if (ownerChange || node.owner !== this.user || !groupAllowed) return this._fail('EPERM', false);
+    }
+
+    const target = this._mutable(parts);
+    if (owner !== null) target.owner = owner;
+    if (group !== null) target.group = group;
+    target.ctime = this.now();
+    return true;
+  }
+
   /** Resolve a path string to a FSNode, following symlinks */
   resolve(path: string, cwd: string = '/'): FSNode | null {
     const parts = this._resolveParts(path, cwd);
     return this._walk(parts);
   }
 
+  /** Like resolve, but a symlink as the last component is returned itself (lstat) */
+  lresolve(path: string, cwd: string = '/'): FSNode | null {
+    const parts = this._resolveParts(path, cwd);
+    const name = parts.pop();
+    const parent = this._walk(parts);
+    if (name === undefined) return parent;
+    if (!parent || parent.type !== 'directory') return null;
+    return parent.children!.get(name) ?? null;
+  }
+
   /** Resolve the absolute path string */
   resolvePath(path: string, cwd: string = '/'): string {
     const parts = this._resolveParts(path, cwd);
@@ -86,57 +347,217 @@ export class VirtualFileSystem {
     return resolved;
   }
 
-  private _walk(parts: string[], followSymlinks: boolean = true, depth: number = 0): FSNode | null {
+  private _walk(parts: string[]): FSNode | null {
+    return this._locate(parts)?.node ?? null;
+  }
+
+  /** Find the node at `parts`, following symlinks, along with its symlink-free path */
+  private _locate(parts: string[], depth: number = 0): { node: FSNode; real: string[] } | null {
     if (depth > 20) return null; // prevent infinite symlink loops
     let current = this.root;
+    let real: string[] = [];
     for (let i = 0; i < parts.length; i++) {
       if (current.type !== 'directory' || !current.children) return null;
       const child = current.children.get(parts[i]);
       if (!child) return null;
-      if (child.type === 'symlink' && followSymlinks && child.target) {
-        const targetParts = this._resolveParts(child.target, '/' + parts.slice(0, i).join('/'));
-        const targetNode = this._walk(targetParts, true, depth + 1);
-        if (!targetNode) return null;
-        current = targetNode;
+      if (child.type === 'symlink' && child.target) {
+        const target = this._locate(this._resolveParts(child.target, '/' + real.join('/')), depth + 1);
+        if (!target) return null;
+        current = target.node;
+        real = target.real;
       } else {
         current = child;
+        real = [...real, parts[i]];
+      }
+    }
+    return { node: current, real };
+  }
+
+  // --- Copy-on-write ---
+  //
+  // Checkpoints keep a reference to the tree as it was. Nodes are shared
+  // between the live tree and every checkpoint until something changes: a
+  // mutation first copies the node and each directory above it (`_own`), so
+  // checkpointed trees are never modified and diffing only has to descend
+  // into subtrees that are no longer shared. Access times are the exception:
+  // reads update them in place.
+
+  /** Snapshot the current tree under `name` (BASELINE is taken on load) */
+  checkpoint(name: string): void {
+    this.checkpoints.set(name, this.root);
+    this.owned = new WeakSet();
+  }
+
+  /** Restore the tree to a checkpoint; the checkpoint itself stays available */
+  rollback(name: string): boolean {
+    const snapshot = this.checkpoints.get(name);
+    if (!snapshot) return false;
+    this.root = snapshot;
+    this.owned = new WeakSet();
+    return true;
+  }
+
+  /** Names of the checkpoints taken so far, oldest first */
+  listCheckpoints(): string[] {
+    return Array.from(this.checkpoints.keys());
+  }
+
+  /**
+   * Everything that differs between a checkpoint and the live tree: added,
+   * modified and deleted entries with unified diffs for file contents.
+   * Returns null for an unknown checkpoint.
+   */
+  changes(since: string = BASELINE): FileChange[] | null {
+    const snapshot = this.checkpoints.get(since);
+    if (!snapshot) return null;
+    const changes: FileChange[] = [];
+    this._diffTree(snapshot, this.root, '', changes);
+    return changes;
+  }
+
+  private _diffTree(before: FSNode, after: FSNode, path: string, changes: FileChange[]): void {
+    if (before === after) return;
+
+    const metadata = describeMetadataChanges(before, after);
+    if (before.type === 'file' && before.content !== after.content) {
+      const diff = unifiedDiff(before.content ?? '', after.content ?? '', `a${path}`, `b${path}`);
+      changes.push({ path, status: 'modified', type: 'file', diff, ...(metadata.length > 0 && { metadata }) });
+    } else if (metadata.length > 0) {
+      changes.push({ path: path || '/', status: 'modified', type: after.type, metadata });
+    }
+
+    if (before.type !== 'directory') return;
+    const names = new Set([...before.children!.keys(), ...after.children!.keys()]);
+    for (const name of Array.from(names).sort()) {
+      const childPath = `${path}/${name}`;
+      const was = before.children!.get(name);
+      const now = after.children!.get(name);
+      if (was && now && was.type === now.type) {
+        this._diffTree(was, now, childPath, changes);
+        continue;
+      }
+      if (was) this._listSubtree(was, childPath, 'deleted', changes);
+      if (now) this._listSubtree(now, childPath, 'added', changes);
+    }
+  }
+
+  private _listSubtree(node: FSNode, path: string, status: 'added' | 'deleted', changes: FileChange[]): void {
+    const change: FileChange = { path, status, type: node.type };
+    if (node.type === 'file') {
+      const [from, to] = status === 'added' ? ['', node.content ?? ''] : [node.content ?? '', ''];
+      const diff = unifiedDiff(from, to, status === 'added' ? '/dev/null' : `a${path}`, status === 'added' ? `b${path}` : '/dev/null');
+      if (diff) change.diff = diff;
+    }
+    if (node.type === 'symlink') change.metadata = [`target: ${node.target ?? ''}`];
+    changes.push(change);
+
+    for (const [name, child] of Array.from(node.children ?? []).sort(([a], [b]) => a.localeCompare(b))) {
+      this._listSubtree(child, `${path}/${name}`, status, changes);
+    }
+  }
+
+  /** A writable node at `parts`, following symlinks; the caller has already checked it exists */
+  private _mutable(parts: string[]): FSNode {
+    const location = this._locate(parts);
+    if (!location) throw new Error(`VFS: no node at /${parts.join('/')}`);
+    return this._own(location.real);
+  }
+
+  /** Copy any shared node on a symlink-free path so it can be changed without touching checkpoints */
+  private _own(real: string[]): FSNode {
+    if (!this.owned.has(this.root)) this.root = this._copy(this.root);
+    let current = this.root;
+    for (const part of real) {
+      let child = current.children!.get(part)!;
+      if (!this.owned.has(child)) {
+        child = this._copy(child);
+        current.children!.set(part, child);
       }
+      current = child;
     }
     return current;
   }
 
+  private _copy(node: FSNode): FSNode {
+    const copy: FSNode = { ...node };
+    if (node.children) copy.children = new Map(node.children);
+    this.owned.add(copy);
+    // Every other directory entry for a hard-linked file must move to the copy too
+    if (node.type === 'file' && (node.nlink ?? 1) > 1) {
+      for (const path of this._pathsOf(node)) {
+        const name = path.pop()!;
+        this._own(path).children!.set(name, copy);
+      }
+    }
+    return copy;
+  }
+
+  /** Every symlink-free path at which `target` is linked */
+  private _pathsOf(target: FSNode): string[][] {
+    const paths: string[][] = [];
+    const visit = (dir: FSNode, path: string[]) => {
+      for (const [name, child] of dir.children ?? []) {
+        if (child === target) paths.push([...path, name]);
+        else if (child.type === 'directory') visit(child, [...path, name]);
+      }
+    };
+    visit(this.root, []);
+    return paths;
+  }
+
   readFile(path: string, cwd: string = '/'): string | null {
-    const node = this.resolve(path, cwd);
-    if (!node || node.type !== 'file') return null;
+    this.lastError = null;
+    const parts = this._resolveParts(path, cwd);
+    const node = this._walk(parts);
+    if (!node) return this._fail('ENOENT', null);
+    if (!this._searchable(parts)) return this._fail('EACCES', null);
+    if (node.type !== 'file') return this._fail('EISDIR', null);
+    if (!this._permits(node, 'r')) return this._fail('EACCES', null);
+    node.atime = this.now();
     return node.content ?? '';
   }
 
   writeFile(path: string, content: string, cwd: string = '/'): boolean {
-    const absPath = this.resolvePath(path, cwd);
-    const parts = absPath.split('/').filter(Boolean);
-    const fileName = parts.pop()!;
-    const parentPath = '/' + parts.join('/');
-    const parent = this.resolve(parentPath, '/');
-    if (!parent || parent.type !== 'directory') return false;
-
-    const existing = parent.children!.get(fileName);
-    if (existing && existing.type === 'directory') return false;
+    this.lastError = null;
+    const parts = this._resolveParts(path, cwd);
+    const fileName = parts.pop();
+    if (!fileName) return this._fail('EISDIR', false);
+    const parent = this._walk(parts);
+    if (!parent) return this._fail('ENOENT', false);
+    if (parent.type !== 'directory') return this._fail('ENOTDIR', false);
+    if (!this._searchable([...parts, fileName])) return this._fail('EACCES', false);
+
+    // Writing through a symlink writes its target
+    const entry = parent.children!.get(fileName);
+    const existing = entry?.type === 'symlink' ? this._walk([...parts, fileName]) : entry;
+    if (entry && !existing) return this._fail('ENOENT', false);
+    if (existing && existing.type === 'directory') return this._fail('EISDIR', false);
+
+    // Overwriting keeps the file's owner and mode; creating needs write access to the directory
+    if (existing) {
+      if (!this._permits(existing, 'w')) return this._fail('EACCES', false);
+      const file = this._mutable([...parts, fileName]);
+      file.content = content;
+      this._modified(file);
+      return true;
+    }
+    if (!this._permits(parent, 'w')) return this._fail('EACCES', false);
 
-    parent.children!.set(fileName, {
-      name: fileName,
-      type: 'file',
-      content,
-      permissions: '-rw-r--r--',
-      modified: Date.now(),
-    });
+    const dir = this._mutable(parts);
+    dir.children!.set(fileName, { ...this._newNode(fileName, 'file'), content });
+    this._modified(dir);
     return true;
   }
 
   appendFile(path: string, content: string, cwd: string = '/'): boolean {
-    const node = this.resolve(path, cwd);
+    this.lastError = null;
+    const parts = this._resolveParts(path, cwd);
+    const node = this._walk(parts);
     if (node && node.type === 'file') {
-      node.content = (node.content ?? '') + content;
-      node.modified = Date.now();
+      if (!this._searchable(parts) || !this._permits(node, 'w')) return this._fail('EACCES', false);
+      const file = this._mutable(parts);
+      file.content = (file.content ?? '') + content;
+      this._modified(file);
       return true;
     }
     // If file doesn't exist, create it
@@ -144,31 +565,38 @@ export class VirtualFileSystem {
   }
 
   listDir(path: string, cwd: string = '/'): FSNode[] | null {
-    const node = this.resolve(path, cwd);
-    if (!node || node.type !== 'directory' || !node.children) return null;
-    return Array.from(node.children.values());
+    this.lastError = null;
+    const parts = this._resolveParts(path, cwd);
+    const node = this._walk(parts);
+    if (!node) return this._fail('ENOENT', null);
+    if (node.type !== 'directory' || !node.children) return this._fail('ENOTDIR', null);
+    if (!this._searchable(parts) || !this._permits(node, 'r')) return this._fail('EACCES', null);
+    node.atime = this.now();
+    // A hard-linked node carries the name it was created under; report the entry's own name
+    return Array.from(node.children, ([name, child]) => (child.name === name ? child : { ...child, name }));
   }
 
   mkdir(path: string, cwd: string = '/', recursive: boolean = false): boolean {
+    this.lastError = null;
     const absPath = this.resolvePath(path, cwd);
     const parts = absPath.split('/').filter(Boolean);
 
     if (recursive) {
       let current = this.root;
-      for (const part of parts) {
-        if (!current.children) return false;
+      for (let i = 0; i < parts.length; i++) {
+        const part = parts[i];
+        if (!current.children) return this._fail('ENOTDIR', false);
         let child = current.children.get(part);
         if (!child) {
-          child = {
-            name: part,
-            type: 'directory',
-            children: new Map(),
-            permissions: 'drwxr-xr-x',
-            modified: Date.now(),
-          };
-          current.children.set(part, child);
+          if (!this._permits(current, 'w') || !this._permits(current, 'x')) return this._fail('EACCES', false);
+          const dir = this._own(parts.slice(0, i));
+          child = { ...this._newNode(part, 'directory'), children: new Map() };
+          dir.children!.set(part, child);
+          this._modified(dir);
         } else if (child.type !== 'directory') {
-          return false;
+          return this._fail('ENOTDIR', false);
+        } else if (!this._permits(child, 'x')) {
+          return this._fail('EACCES', false);
         }
         current = child;
       }
@@ -176,39 +604,129 @@ export class VirtualFileSystem {
     }
 
     const dirName = parts.pop()!;
-    const parentPath = '/' + parts.join('/');
-    const parent = this.resolve(parentPath, '/');
-    if (!parent || parent.type !== 'directory') return false;
-    if (parent.children!.has(dirName)) return false;
-
-    parent.children!.set(dirName, {
-      name: dirName,
-      type: 'directory',
-      children: new Map(),
-      permissions: 'drwxr-xr-x',
-      modified: Date.now(),
-    });
+    const parent = this._walk(parts);
+    if (!parent) return this._fail('ENOENT', false);
+    if (parent.type !== 'directory') return this._fail('ENOTDIR', false);
+    if (parent.children!.has(dirName)) return this._fail('EEXIST', false);
+    if (!this._searchable([...parts, dirName]) || !this._permits(parent, 'w')) return this._fail('EACCES', false);
+
+    const dir = this._mutable(parts);
+    dir.children!.set(dirName, { ...this._newNode(dirName, 'directory'), children: new Map() });
+    this._modified(dir);
     return true;
   }
 
   rm(path: string, cwd: string = '/', recursive: boolean = false): boolean {
+    this.lastError = null;
     const absPath = this.resolvePath(path, cwd);
     const parts = absPath.split('/').filter(Boolean);
-    if (parts.length === 0) return false; // can't remove root
+    if (parts.length === 0) return this._fail('EPERM', false); // can't remove root
 
     const fileName = parts.pop()!;
-    const parentPath = '/' + parts.join('/');
-    const parent = this.resolve(parentPath, '/');
-    if (!parent || parent.type !== 'directory') return false;
+    const parent = this._walk(parts);
+    if (!parent || parent.type !== 'directory') return this._fail('ENOENT', false);
 
     const target = parent.children!.get(fileName);
-    if (!target) return false;
-    if (target.type === 'directory' && !recursive) return false;
+    if (!target) return this._fail('ENOENT', false);
+    if (target.type === 'directory' && !recursive) return this._fail('EISDIR', false);
+    if (!this._searchable([...parts, fileName]) || !this._permits(parent, 'w')) return this._fail('EACCES', false);
+
+    // Sticky directories (/tmp) only let owners delete their own entries
+    const sticky = (parseMode(parent.permissions ?? '') & STICKY) !== 0;
+    if (sticky && this.user !== 'root' && target.owner !== this.user && parent.owner !== this.user) {
+      return this._fail('EPERM', false);
+    }
+    if (target.type === 'directory' && !this._canEmpty(target)) return this._fail('EACCES', false);
+
+    const dir = this._mutable(parts);
+    dir.children!.delete(fileName);
+    this._modified(dir);
+    this._dropLinks(target);
+    return true;
+  }
+
+  /** After removing an entry, decrement the link count of any file in it that is still linked elsewhere */
+  private _dropLinks(node: FSNode): void {
+    if (node.type === 'directory') {
+      for (const child of node.children?.values() ?? []) this._dropLinks(child);
+      return;
+    }
+    if ((node.nlink ?? 1) <= 1) return;
+    const remaining = this._pathsOf(node)[0];
+    if (!remaining) return;
+    const survivor = this._own(remaining);
+    survivor.nlink = (node.nlink ?? 1) - 1;
+    survivor.ctime = this.now();
+  }
+
+  /** Create a hard link: a second directory entry for an existing file */
+  link(existingPath: string, newPath: string, cwd: string = '/'): boolean {
+    this.lastError = null;
+    const existingParts = this._resolveParts(existingPath, cwd);
+    const node = this._walk(existingParts);
+    if (!node) return this._fail('ENOENT', false);
+    if (!this._searchable(existingParts)) return this._fail('EACCES', false);
+    if (node.type === 'directory') return this._fail('EPERM', false);
+
+    const entry = this._newEntry(newPath, cwd);
+    if (!entry) return false;
+
+    const file = this._mutable(existingParts);
+    const dir = this._mutable(entry.parts);
+    dir.children!.set(entry.name, file);
+    file.nlink = (file.nlink ?? 1) + 1;
+    file.ctime = this.now();
+    this._modified(dir);
+    return true;
+  }
+
+  /** Create a symbolic link at `newPath` pointing to `target` (which need not exist) */
+  symlink(target: string, newPath: string, cwd: string = '/'): boolean {
+    this.lastError = null;
+    const entry = this._newEntry(newPath, cwd);
+    if (!entry) return false;
+
+    const dir = this._mutable(entry.parts);
+    dir.children!.set(entry.name, { ...this._newNode(entry.name, 'symlink'), target });
+    this._modified(dir);
+    return true;
+  }
+
+  /** Find the directory a new entry would go in, checking it doesn't exist and may be created */
+  private _newEntry(path: string, cwd: string): { parts: string[]; name: string } | null {
+    const parts = this._resolveParts(path, cwd);
+    const name = parts.pop();
+    if (!name) return this._fail('EEXIST', null);
+    const parent = this._walk(parts);
+    if (!parent) return this._fail('ENOENT', null);
+    if (parent.type !== 'directory') return this._fail('ENOTDIR', null);
+    if (parent.children!.has(name)) return this._fail('EEXIST', null);
+    if (!this._searchable([...parts, name]) || !this._permits(parent, 'w')) return this._fail('EACCES', null);
+    return { parts, name };
+  }
 
-    parent.children!.delete(fileName);
+  /** Set access and modification times (touch); needs ownership or write permission */
+  utimes(path: string, time: number, cwd: string = '/'): boolean {
+    this.lastError = null;
+    const parts = this._resolveParts(path, cwd);
+    const node = this._walk(parts);
+    if (!node) return this._fail('ENOENT', false);
+    const allowed = this.user === 'root' || node.owner === this.user || this._permits(node, 'w');
+    if (!this._searchable(parts) || !allowed) return this._fail('EACCES', false);
+
+    const target = this._mutable(parts);
+    target.atime = target.mtime = time;
+    target.ctime = this.now();
     return true;
   }
 
+  /** Removing a tree needs write and search permission on every non-empty directory in it */
+  private _canEmpty(dir: FSNode): boolean {
+    if (!dir.children || dir.children.size === 0) return true;
+    if (!this._permits(dir, 'w') || !this._permits(dir, 'x')) return false;
+    return Array.from(dir.children.values()).every(child => child.type !== 'directory' || this._canEmpty(child));
+  }
+
   exists(path: string, cwd: string = '/'): boolean {
     return this.resolve(path, cwd) !== null;
   }
@@ -236,6 +754,61 @@ export class VirtualFileSystem {
     return results;
   }
 
+  /**
+   * Expand a shell glob (*, ?, [...]) into matching paths, sorted.
+   * Backslash-escaped characters match literally. Results keep the pattern's
+   * relative/absolute form; an empty array means nothing matched.
+   */
+  glob(pattern: string, cwd: string = '/'): string[] {
+    const isAbsolute = pattern.startsWith('/');
+    const segments = pattern.split('/').filter(Boolean);
+    let matches: Array<{ display: string; abs: string }> = [
+      { display: isAbsolute ? '/' : '', abs: isAbsolute ? '/' : this.resolvePath('.', cwd) },
+    ];
+
+    for (let i = 0; i < segments.length; i++) {
+      const segment = segments[i];
+      const isLast = i === segments.length - 1;
+      const next: typeof matches = [];
+
+      for (const match of matches) {
+        const join = (name: string) => ({
+          display: match.display === '' ? name : match.display === '/' ? `/${name}` : `${match.display}/${name}`,
+          abs: this.resolvePath(name, match.abs),
+        });
+
+        if (!this._hasGlobChars(segment)) {
+          const name = segment.replace(/\\(.)/g, '$1');
+          const candidate = join(name);
+          const node = this.resolve(candidate.abs);
+          if (node && (isLast || node.type === 'directory')) next.push(candidate);
+          continue;
+        }
+
+        const entries = this.listDir(match.abs);
+        if (!entries) continue;
+        const regex = globPatternToRegex(segment);
+        const showHidden = segment.startsWith('.');
+        for (const entry of entries) {
+          if (entry.name.startsWith('.') && !showHidden) continue;
+          if (!regex.test(entry.name)) continue;
+          const candidate = join(entry.name);
+          if (!isLast && !this.isDirectory(candidate.abs)) continue;
+          next.push(candidate);
+        }
+      }
+
+      matches = next;
+      if (matches.length === 0) return [];
+    }
+
+    return matches.map(m => m.display).sort();
+  }
+
+  private _hasGlobChars(segment: string): boolean {
+    return /(^|[^\\])(\\\\)*[*?[]/.test(segment);
+  }
+
   private _findRecursive(node: FSNode, currentPath: string, regex: RegExp, results: string[]): void {
     if (!node.children) return;
     for (const [name, child] of node.children) {
@@ -258,7 +831,7 @@ export class VirtualFileSystem {
     const absPath = this.resolvePath(path, cwd);
 
     if (node.type === 'file') {
-      this._grepFile(node, absPath, pattern, results);
+      if (this._permits(node, 'r')) this._grepFile(node, absPath, pattern, results);
     } else if (node.type === 'directory' && recursive) {
       this._grepRecursive(node, absPath, pattern, results);
     }
@@ -281,9 +854,10 @@ export class VirtualFileSystem {
     if (!node.children) return;
     for (const [name, child] of node.children) {
       const childPath = currentPath === '/' ? `/${name}` : `${currentPath}/${name}`;
+      // Unreadable files and directories are skipped
       if (child.type === 'file') {
-        this._grepFile(child, childPath, pattern, results);
-      } else if (child.type === 'directory') {
+        if (this._permits(child, 'r')) this._grepFile(child, childPath, pattern, results);
+      } else if (child.type === 'directory' && this._permits(child, 'r') && this._permits(child, 'x')) {
         this._grepRecursive(child, childPath, pattern, results);
       }
     }
@@ -321,6 +895,12 @@ export class VirtualFileSystem {
     if (node.content !== undefined) json.content = node.content;
     if (node.target) json.target = node.target;
     if (node.permissions) json.permissions = node.permissions;
+    if (node.owner) json.owner = node.owner;
+    if (node.group) json.group = node.group;
+    if (node.inode !== undefined) json.inode = node.inode;
+    if (node.atime !== undefined) json.atime = node.atime;
+    if (node.mtime !== undefined) json.mtime = node.mtime;
+    if (node.ctime !== undefined) json.ctime = node.ctime;
     if (node.children) {
       json.children = {};
       for (const [name, child] of node.children) {
@@ -332,25 +912,15 @@ export class VirtualFileSystem {
 
   /** Restore from a JSON snapshot */
   fromJSON(json: FSNodeJSON): void {
-    this.root = this._jsonToNode(json);
-  }
-
-  private _jsonToNode(json: FSNodeJSON): FSNode {
-    const node: FSNode = {
-      name: json.name,
-      type: json.type,
-      content: json.content,
-      target: json.target,
-      permissions: json.permissions,
-      modified: Date.now(),
-    };
-    if (json.children) {
-      node.children = new Map();
-      for (const [name, child] of Object.entries(json.children)) {
-        node.children.set(name, this._jsonToNode(child));
-      }
-    }
-    return node;
+    this.root = this._createRoot(toEpoch(json.mtime));
+    Object.assign(this.root, {
+      permissions: json.permissions ?? this.root.permissions,
+      owner: json.owner ?? 'root',
+      group: json.group ?? 'root',
+      atime: toEpoch(json.atime) ?? this.root.atime,
+      ctime: toEpoch(json.ctime) ?? this.root.ctime,
+    });
+    this._loadChildren(this.root, json.children ?? {}, new Map());
   }
 
   private _globToRegex(glob: string): RegExp {
@@ -361,3 +931,49 @@ export class VirtualFileSystem {
     return new RegExp(`^${escaped}$`);
   }
 }
+
+function describeMetadataChanges(before: FSNode, after: FSNode): string[] {
+  const changed: string[] = [];
+  for (const key of ['permissions', 'owner', 'group', 'target'] as const) {
+    if (before[key] !== after[key]) changed.push(`${key}: ${before[key] ?? ''} -> ${after[key] ?? ''}`);
+  }
+  return changed;
+}
+
+function defaultPermissions(type: FSNodeType): string {
+  return type === 'directory' ? 'drwxr-xr-x' : type === 'symlink' ? 'lrwxrwxrwx' : '-rw-r--r--';
+}
+
+function toEpoch(value: FSTimestamp | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const time = value instanceof Date ? value.getTime() : typeof value === 'number' ? value : Date.parse(value);
+  return isNaN(time) ? undefined : time;
+}
+
+/** Convert a shell pattern (*, ?, [...], backslash escapes) into an anchored RegExp */
+export function globPatternToRegex(pattern: string): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+    if (ch === '\\' && i + 1 < pattern.length) {
+      source += pattern[++i].replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    } else if (ch === '*') {
+      source += '.*';
+    } else if (ch === '?') {
+      source += '.';
+    } else if (ch === '[') {
+      const end = pattern.indexOf(']', i + 2);
+      if (end === -1) {
+        source += '\\[';
+        continue;
+      }
+      let body = pattern.slice(i + 1, end);
+      if (body.startsWith('!')) body = '^' + body.slice(1);
+      source += `[${body.replace(/\\/g, '\\\\')}]`;
+      i = end;
+    } else {
+      source += ch.replace(/[.+^${}()|\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
@@ -0,0 +1,386 @@
+import { WordNode, WordPart, ListNode } from './CommandParser';
+import { CommandContext } from './CommandContext';
+import { ArithmeticError, evaluateArithmetic } from './Arithmetic';
+import { globPatternToRegex } from './VirtualFileSystem';
+
+/** Runs a `$(...)` body and returns its output */
+export type SubstitutionRunner = (body: ListNode) => Promise<string>;
+
+/** An expansion bash refuses (bad substitution, arithmetic errors, `${x:?}`); the command doesn't run */
+export class ExpansionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExpansionError';
+  }
+}
+
+type ParameterPart = Extract<WordPart, { type: 'parameter' }>;
+
+/** A run of expanded text and whether glob characters in it are live */
+interface Segment {
+  text: string;
+  glob: boolean;
+}
+
+interface Field {
+  segments: Segment[];
+  /** Quoted text (even "") keeps a field alive when it would otherwise be empty */
+  present: boolean;
+}
+
+/**
+ * Performs shell word expansion in bash order: brace expansion, tilde,
+ * parameters and command substitution, field splitting, then globbing
+ * against the virtual filesystem.
+ */
+export class WordExpander {
+  constructor(
+    private ctx: CommandContext,
+    private runSubstitution: SubstitutionRunner,
+  ) {}
+
+  /** Expand command words into argv (may produce more or fewer words than given) */
+  async expand(words: WordNode[]): Promise<string[]> {
+    const result: string[] = [];
+    for (const word of words) {
+      for (const variant of expandBraces(word)) {
+        const fields = await this.expandToFields(variant);
+        for (const field of fields) {
+          result.push(...this.glob(field));
+        }
+      }
+    }
+    return result;
+  }
+
+  /** Expand a `case` pattern: quoted text is escaped so only unquoted glob characters stay live */
+  async expandPattern(word: WordNode): Promise<string> {
+    let pattern = '';
+    for (const part of this.expandTilde(word.parts)) {
+      const text = part.type === 'literal' ? part.value : await this.expandPart(part);
+      pattern += part.quoted ? escapeGlob(text) : text;
+    }
+    return pattern;
+  }
+
+  /** Expand a single word without field splitting or globbing (assignments, redirect targets) */
+  async expandWord(word: WordNode): Promise<string> {
+    const parts = this.expandTilde(word.parts);
+    let text = '';
+    for (const part of parts) {
+      text += part.type === 'literal' ? part.value : await this.expandPart(part);
+    }
+    return text;
+  }
+
+  private async expandToFields(word: WordNode): Promise<Field[]> {
+    const fields: Field[] = [];
+    let current: Field = { segments: [], present: false };
+
+    for (const part of this.expandTilde(word.parts)) {
+      if (part.type === 'literal') {
+        current.segments.push({ text: part.value, glob: !part.quoted });
+        current.present = current.present || part.quoted || part.value.length > 0;
+        continue;
+      }
+
+      // "$@" expands to one field per positional parameter
+      if (part.type === 'variable' && part.name === '@' && part.quoted) {
+        this.ctx.positionalArgs.forEach((arg, index) => {
+          if (index > 0) {
+            fields.push(current);
+            current = { segments: [], present: false };
+          }
+          current.segments.push({ text: arg, glob: false });
+          current.present = true;
+        });
+        continue;
+      }
+
+      const value = await this.expandPart(part);
+      if (part.quoted) {
+        current.segments.push({ text: value, glob: false });
+        current.present = true;
+        continue;
+      }
+
+      // Unquoted expansions are split on whitespace
+      const pieces = value.split(/[ \t\n]+/);
+      pieces.forEach((piece, index) => {
+        if (index > 0 && current.present) {
+          fields.push(current);
+          current = { segments: [], present: false };
+        }
+        if (piece) {
+          current.segments.push({ text: piece, glob: true });
+          current.present = true;
+        }
+      });
+    }
+
+    if (current.present) fields.push(current);
+    return fields;
+  }
+
+  private async expandPart(part: WordPart): Promise<string> {
+    switch (part.type) {
+      case 'literal':
+        return part.value;
+      case 'variable':
+        return this.lookup(part.name) ?? '';
+      case 'parameter':
+        return this.expandParameter(part);
+      case 'badSubstitution':
+        throw new ExpansionError(`${part.text}: bad substitution`);
+      case 'arithmetic':
+        return String(this.arithmetic(await this.expandWord(part.expression)));
+      case 'substitution': {
+        const output = await this.runSubstitution(part.body);
+        return output.replace(/\n+$/, '');
+      }
+    }
+  }
+
+  /** A parameter's value, or undefined when it's unset */
+  private lookup(name: string): string | undefined {
+    const args = this.ctx.positionalArgs;
+    switch (name) {
+      case '?': return String(this.ctx.exitCode);
+      case '$': return '4242';
+      case '0': return this.ctx.scriptName;
+      case '#': return String(args.length);
+      case '@':
+      case '*': return args.join(' ');
+    }
+    if (/^\d+$/.test(name)) return args[parseInt(name, 10) - 1];
+    return this.ctx.env[name];
+  }
+
+  private arithmetic(expression: string): number {
+    try {
+      return evaluateArithmetic(expression, {
+        get: name => this.lookup(name),
+        set: (name, value) => { this.ctx.env[name] = value; },
+      });
+    } catch (err) {
+      if (err instanceof ArithmeticError) throw new ExpansionError(err.message);
+      throw err;
+    }
+  }
+
+  private async expandParameter(part: ParameterPart): Promise<string> {
+    const { name, op } = part;
+    const value = this.lookup(name);
+    // With a colon, an empty value counts as missing too
+    const missing = value === undefined || (op.startsWith(':') && value === '');
+
+    switch (op) {
+      case 'length':
+        return String(name === '@' || name === '*' ? this.ctx.positionalArgs.length : Array.from(value ?? '').length);
+      case ':-':
+      case '-':
+        return missing ? this.expandWord(part.word) : value!;
+      case ':=':
+      case '=': {
+        if (!missing) return value!;
+        if (!/^[A-Za-z_]\w*$/.test(name)) throw new ExpansionError(`$${name}: cannot assign in this way`);
+        const assigned = await this.expandWord(part.word);
+        this.ctx.env[name] = assigned;
+        return assigned;
+      }
+      case ':+':
+      case '+':
+        return missing ? '' : this.expandWord(part.word);
+      case ':?':
+      case '?': {
+        if (!missing) return value!;
+        const message = await this.expandWord(part.word);
+        throw new ExpansionError(`${name}: ${message || 'parameter null or not set'}`);
+      }
+      case ':': {
+        const [offset, length] = (await this.expandWord(part.word)).split(':');
+        return substring(value ?? '', this.arithmetic(offset), length === undefined ? undefined : this.arithmetic(length), name);
+      }
+      case '#':
+      case '##':
+      case '%':
+      case '%%':
+        return removePattern(value ?? '', await this.expandPattern(part.word), op);
+      case '/':
+      case '//':
+      case '/#':
+      case '/%':
+        return replacePattern(value ?? '', await this.expandPattern(part.word), await this.expandWord(part.replacement!), op);
+      case '^':
+      case '^^':
+      case ',':
+      case ',,':
+        return changeCase(value ?? '', await this.expandPattern(part.word), op);
+    }
+  }
+
+  /** `~` and `~/...` at the start of an unquoted word become $HOME */
+  private expandTilde(parts: WordPart[]): WordPart[] {
+    const first = parts[0];
+    if (!first || first.type !== 'literal' || first.quoted) return parts;
+    if (first.value !== '~' && !first.value.startsWith('~/')) return parts;
+    return [{ ...first, value: this.ctx.env.HOME + first.value.slice(1) }, ...parts.slice(1)];
+  }
+
+  private glob(field: Field): string[] {
+    const text = field.segments.map(s => s.text).join('');
+    const hasPattern = field.segments.some(s => s.glob && /[*?[]/.test(s.text));
+    if (!hasPattern) return [text];
+
+    const pattern = field.segments
+      .map(s => (s.glob ? s.text : escapeGlob(s.text)))
+      .join('');
+    const matches = this.ctx.fs.glob(pattern, this.ctx.cwd);
+    return matches.length > 0 ? matches : [text];
+  }
+}
+
+/** `${name:offset:length}`: a negative offset counts from the end, a negative length stops short of it */
+function substring(value: string, offset: number, length: number | undefined, name: string): string {
+  const chars = Array.from(value);
+  const start = offset < 0 ? Math.max(0, chars.length + offset) : offset;
+  if (length === undefined) return chars.slice(start).join('');
+  if (length < 0) {
+    const end = chars.length + length;
+    if (end < start) throw new ExpansionError(`${name}: ${length}: substring expression < 0`);
+    return chars.slice(start, end).join('');
+  }
+  return chars.slice(start, start + length).join('');
+}
+
+/** `#`/`##` strip the shortest/longest matching prefix, `%`/`%%` the shortest/longest suffix */
+function removePattern(value: string, pattern: string, op: '#' | '##' | '%' | '%%'): string {
+  const regex = globPatternToRegex(pattern);
+  const cuts = Array.from({ length: value.length + 1 }, (_, i) => i);
+  if (op === '#' || op === '##') {
+    const cut = (op === '#' ? cuts : cuts.reverse()).find(i => regex.test(value.slice(0, i)));
+    return cut === undefined ? value : value.slice(cut);
+  }
+  const cut = (op === '%' ? cuts.reverse() : cuts).find(i => regex.test(value.slice(i)));
+  return cut === undefined ? value : value.slice(0, cut);
+}
+
+/** `/` replaces the first longest match, `//` every one, `/#` one at the start and `/%` one at the end */
+function replacePattern(value: string, pattern: string, replacement: string, op: '/' | '//' | '/#' | '/%'): string {
+  if (pattern === '') return value;
+  const regex = globPatternToRegex(pattern);
+  const matchAt = (start: number): number | undefined => {
+    for (let end = value.length; end > start; end--) {
+      if (op === '/%' && end !== value.length) return undefined;
+      if (regex.test(value.slice(start, end))) return end;
+    }
+    return undefined;
+  };
+
+  let result = '';
+  for (let start = 0; start < value.length; start++) {
+    const end = op === '/#' && start > 0 ? undefined : matchAt(start);
+    if (end === undefined) {
+      result += value[start];
+      continue;
+    }
+    result += replacement;
+    if (op !== '//') return result + value.slice(end);
+    start = end - 1;
+  }
+  return result;
+}
+
+/** `^`/`^^` uppercase the first/every character matching the pattern (any character if it's empty); `,`/`,,` lowercase */
+function changeCase(value: string, pattern: string, op: '^' | '^^' | ',' | ',,'): string {
+  const regex = globPatternToRegex(pattern || '?');
+  const upper = op.startsWith('^');
+  const chars = Array.from(value);
+  const limit = op.length === 1 ? 1 : chars.length;
+  return chars
+    .map((char, i) => (i < limit && regex.test(char) ? (upper ? char.toUpperCase() : char.toLowerCase()) : char))
+    .join('');
+}
+
+function escapeGlob(text: string): string {
+  return text.replace(/[*?[\\]/g, '\\$&');
+}
+
+/** Expand `{a,b}` and `{1..3}` in unquoted literal text into separate words */
+function expandBraces(word: WordNode): WordNode[] {
+  let variants: WordPart[][] = [[]];
+  for (const part of word.parts) {
+    const alternatives = part.type === 'literal' && !part.quoted
+      ? expandBraceText(part.value).map(value => ({ ...part, value }))
+      : [part];
+    variants = variants.flatMap(prefix => alternatives.map(alt => [...prefix, alt]));
+  }
+  return variants.map(parts => ({ type: 'word', parts }));
+}
+
+function expandBraceText(text: string): string[] {
+  for (let open = text.indexOf('{'); open !== -1; open = text.indexOf('{', open + 1)) {
+    const close = findClosingBrace(text, open);
+    if (close === -1) return [text];
+
+    const body = text.slice(open + 1, close);
+    const items = splitTopLevel(body) ?? expandSequence(body);
+    if (!items) continue;
+
+    const prefix = text.slice(0, open);
+    const suffix = text.slice(close + 1);
+    return items.flatMap(item => expandBraceText(prefix + item + suffix));
+  }
+  return [text];
+}
+
+function findClosingBrace(text: string, open: number): number {
+  let depth = 0;
+  for (let i = open; i < text.length; i++) {
+    if (text[i] === '{') depth++;
+    if (text[i] === '}' && --depth === 0) return i;
+  }
+  return -1;
+}
+
+/** Split on commas outside nested braces; null when there is no top-level comma */
+function splitTopLevel(body: string): string[] | null {
+  const items: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < body.length; i++) {
+    if (body[i] === '{') depth++;
+    else if (body[i] === '}') depth--;
+    else if (body[i] === ',' && depth === 0) {
+      items.push(body.slice(start, i));
+      start = i + 1;
+    }
+  }
+  if (items.length === 0) return null;
+  items.push(body.slice(start));
+  return items;
+}
+
+function expandSequence(body: string): string[] | null {
+  const numeric = body.match(/^(-?\d+)\.\.(-?\d+)$/);
+  if (numeric) {
+    const from = parseInt(numeric[1], 10);
+    const to = parseInt(numeric[2], 10);
+    const step = from <= to ? 1 : -1;
+    const items: string[] = [];
+    for (let n = from; n !== to + step; n += step) items.push(String(n));
+    return items;
+  }
+
+  const alpha = body.match(/^([a-zA-Z])\.\.([a-zA-Z])$/);
+  if (alpha) {
+    const from = alpha[1].charCodeAt(0);
+    const to = alpha[2].charCodeAt(0);
+    const step = from <= to ? 1 : -1;
+    const items: string[] = [];
+    for (let c = from; c !== to + step; c += step) items.push(String.fromCharCode(c));
+    return items;
+  }
+
+  return null;
+}
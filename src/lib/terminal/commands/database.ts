@@ -0,0 +1,935 @@
+import { CommandOutput, CommandRegistry, CommandResult } from '../CommandRegistry';
+import { ParsedCommand } from '../CommandParser';
+import { CommandContext } from '../CommandContext';
+import { InteractiveShell, ShellLauncher } from '../InteractiveShell';
+import { containerOf } from './docker';
+import { serviceUp } from '../../fleetcore/Containers';
+import { DatabaseError, FleetCoreState, Table, fleetCoreStateFor } from '../../fleetcore/FleetCoreState';
+import { QueryResult, SqlSession, formatValue, typeCategory } from '../../fleetcore/SqlEngine';
+import { splitSql, stripComments } from '../../fleetcore/Sql';
+
+// The fleetcore-db container as docker-compose.yml sets it up
+const ROLE = 'fleetcore';
+const PASSWORD = 'fleetcore123';
+const DATABASES = ['fleetcore', 'postgres', 'template0', 'template1'];
+const SOCKET_DIR = '/var/run/postgresql';
+const PORT = '5432';
+const DB_CONTAINER = 'fleetcore-db';
+const DB_SERVICE = 'db';
+const HOST_ADDRESSES: Record<string, string> = { 'localhost': '127.0.0.1', '127.0.0.1': '127.0.0.1', '::1': '::1' };
+const VERSION = '15.5';
+
+const PSQL_VALUE_OPTIONS: Record<string, string> = {
+  '-h': 'host', '--host': 'host',
+  '-p': 'port', '--port': 'port',
+  '-U': 'username', '--username': 'username',
+  '-d': 'dbname', '--dbname': 'dbname',
+  '-c': 'command', '--command': 'command',
+  '-f': 'file', '--file': 'file',
+  '-F': 'field-separator', '--field-separator': 'field-separator',
+  '-v': 'set', '--set': 'set', '--variable': 'set',
+};
+
+const PSQL_SWITCHES: Record<string, string> = {
+  '-t': 'tuples-only', '--tuples-only': 'tuples-only',
+  '-A': 'no-align', '--no-align': 'no-align',
+  '-x': 'expanded', '--expanded': 'expanded',
+  '-q': 'quiet', '--quiet': 'quiet',
+  '-w': 'no-password', '--no-password': 'no-password',
+  '-W': 'password', '--password': 'password',
+  '-l': 'list', '--list': 'list',
+  '-X': 'no-psqlrc', '--no-psqlrc': 'no-psqlrc',
+  '-V': 'version', '--version': 'version',
+  '-?': 'help', '--help': 'help',
+};
+
+const PSQL_USAGE = `psql is the PostgreSQL interactive terminal.
+
+Usage:
+  psql [OPTION]... [DBNAME [USERNAME]]
+
+General options:
+  -c, --command=COMMAND    run only single command (SQL or internal) and exit
+  -d, --dbname=DBNAME      database name to connect to
+  -f, --file=FILENAME      execute commands from file, then exit
+  -l, --list               list available databases, then exit
+  -v, --set=, --variable=NAME=VALUE
+                           set psql variable NAME to VALUE
+  -V, --version            output version information, then exit
+  -X, --no-psqlrc          do not read startup file (~/.psqlrc)
+  -?, --help               show this help, then exit
+
+Output format options:
+  -A, --no-align           unaligned table output mode
+  -F, --field-separator=STRING
+                           field separator for unaligned output (default: "|")
+  -q, --quiet              run quietly (no messages, only query output)
+  -t, --tuples-only        print rows only
+  -x, --expanded           turn on expanded table output
+
+Connection options:
+  -h, --host=HOSTNAME      database server host or socket directory
+  -p, --port=PORT          database server port (default: "5432")
+  -U, --username=USERNAME  database user name
+  -w, --no-password        never prompt for password
+  -W, --password           force password prompt (should happen automatically)`;
+
+const META_HELP = `General
+  \\q                     quit psql
+
+Help
+  \\?                     show help on backslash commands
+  \\h [NAME]              help on syntax of SQL commands
+
+Query Buffer
+  \\g                     execute query (and send result to server)
+  \\p                     show the contents of the query buffer
+  \\r                     reset (clear) the query buffer
+
+Input/Output
+  \\echo [STRING]         write string to standard output
+  \\i FILE                execute commands from file
+
+Informational
+  \\d[+]  [NAME]          describe table or index, or list relations
+  \\di[+] [PATTERN]       list indexes
+  \\dt[+] [PATTERN]       list tables
+  \\du    [PATTERN]       list roles
+  \\l[+]                  list databases
+
+Formatting
+  \\x [on|off|auto]       toggle expanded output
+  \\timing [on|off]       toggle timing of commands
+
+Connection
+  \\c [DBNAME [USER]]     connect to new database
+  \\conninfo              display information about current connection`;
+
+const SQL_HELP = `Available help:
+  ALTER TABLE    CREATE INDEX   DELETE         EXPLAIN        ROLLBACK
+  BEGIN          CREATE TABLE   DROP INDEX     INSERT         SELECT
+  COMMIT         DROP TABLE     TRUNCATE       UPDATE`;
+
+const GREETING = `You are using psql, the command-line interface to PostgreSQL.
+Type:  \\copyright for distribution terms
+       \\h for help with SQL commands
+       \\? for help with psql commands
+       \\g or terminate with semicolon to execute query
+       \\q to quit`;
+
+interface PsqlOptions {
+  positional: string[];
+  values: { name: string; value: string }[];
+  switches: Set<string>;
+}
+
+/** Where psql connects: a TCP host, or (host null) the server's unix socket */
+interface Target {
+  host: string | null;
+  socketDir: string;
+  port: string;
+  user: string;
+  database: string;
+  password: string | null;
+}
+
+interface Display {
+  tuplesOnly: boolean;
+  unaligned: boolean;
+  expanded: boolean | 'auto';
+  quiet: boolean;
+  fieldSeparator: string;
+  timing: boolean;
+}
+
+/** Databases other than fleetcore exist but are empty */
+const otherDatabases = new WeakMap<object, Map<string, FleetCoreState>>();
+
+export function registerDatabaseCommands(registry: CommandRegistry, launch: ShellLauncher): void {
+  registry.register('psql', (cmd, ctx, stdin) => handlePsql(cmd, ctx, launch, stdin));
+}
+
+function handlePsql(cmd: ParsedCommand, ctx: CommandContext, launch: ShellLauncher, stdin?: string): CommandResult {
+  const options = parsePsqlArgs(cmd.argv);
+  if ('error' in options) {
+    return { output: '', stderr: `psql: ${options.error}\npsql: hint: Try "psql --help" for more information.`, exitCode: 1 };
+  }
+  const has = (name: string) => options.switches.has(name);
+  if (has('version')) return { output: `psql (PostgreSQL) ${VERSION}`, exitCode: 0 };
+  if (has('help')) return { output: PSQL_USAGE, exitCode: 0 };
+
+  const target = resolveTarget(options, ctx);
+  if ('error' in target) return { output: '', stderr: `psql: error: ${target.error}`, exitCode: 2 };
+
+  const unreachable = reach(target, ctx);
+  if (unreachable) return { output: '', stderr: `psql: error: ${unreachable}`, exitCode: 2 };
+
+  // Only the server's own socket and loopback are trusted; connections through the published port need a password
+  const trusted = containerOf(ctx) === DB_CONTAINER;
+  const password = target.password === null ? pgpassLookup(target, ctx) : { value: target.password, warning: null };
+  const run = (out: CommandOutput, client: PsqlClient) => startClient(client, options, ctx, out, stdin);
+
+  if (!trusted && (password.value === null || has('password'))) {
+    if (has('no-password')) {
+      return { output: '', stderr: `psql: error: ${serverLabel(target)} failed: fe_sendauth: no password supplied`, exitCode: 2 };
+    }
+    launch(new PsqlShell(ctx, { target, display: display(options), run }));
+    return { output: '', stderr: password.warning ?? undefined, exitCode: 0 };
+  }
+
+  const out = new CommandOutput();
+  if (password.warning) out.err(password.warning);
+  const refused = authenticate(target, trusted ? null : password.value);
+  if (refused) {
+    out.err(`psql: error: ${refused}`);
+    return out.result(2);
+  }
+  const client = new PsqlClient(ctx, target, display(options));
+  const outcome = run(out, client);
+  if (outcome === 'interactive') {
+    launch(new PsqlShell(ctx, null, client));
+    return out.result(0);
+  }
+  client.close();
+  return out.result(outcome);
+}
+
+function parsePsqlArgs(argv: string[]): PsqlOptions | { error: string } {
+  const options: PsqlOptions = { positional: [], values: [], switches: new Set() };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('-') || arg === '-') {
+      options.positional.push(arg);
+      continue;
+    }
+    if (arg.startsWith('--')) {
+      const eq = arg.indexOf('=');
+      const flag = eq === -1 ? arg : arg.slice(0, eq);
+      const name = PSQL_VALUE_OPTIONS[flag];
+      if (name) {
+        if (eq === -1 && i + 1 >= argv.length) return { error: `option '${flag}' requires an argument` };
+        options.values.push({ name, value: eq === -1 ? argv[++i] : arg.slice(eq + 1) });
+      } else if (PSQL_SWITCHES[arg]) {
+        options.switches.add(PSQL_SWITCHES[arg]);
+      } else {
+        return { error: `unrecognized option '${arg}'` };
+      }
+      continue;
+    }
+    for (let j = 1; j < arg.length; j++) {
+      const flag = `-${arg[j]}`;
+      const name = PSQL_VALUE_OPTIONS[flag];
+      if (name) {
+        const inline = arg.slice(j + 1);
+        if (!inline && i + 1 >= argv.length) return { error: `option requires an argument -- '${arg[j]}'` };
+        options.values.push({ name, value: inline || argv[++i] });
+        break;
+      }
+      if (!PSQL_SWITCHES[flag]) return { error: `invalid option -- '${arg[j]}'` };
+      options.switches.add(PSQL_SWITCHES[flag]);
+    }
+  }
+  return options;
+}
+
+/**
+ * Connection settings the way libpq settles them: options, then a URI or
+ * conninfo string in place of the database name, then PG* variables, then
+ * defaults (the unix socket, and the login name for user and database).
+ */
+function resolveTarget(options: PsqlOptions, ctx: CommandContext): Target | { error: string } {
+  const last = (name: string) => options.values.filter(v => v.name === name).map(v => v.value).pop();
+  const settings: Record<string, string | undefined> = {
+    host: last('host'),
+    port: last('port'),
+    user: last('username') ?? options.positional[1],
+    dbname: last('dbname') ?? options.positional[0],
+  };
+
+  const conninfo = settings.dbname;
+  if (conninfo && /^postgres(ql)?:\/\//.test(conninfo)) {
+    let url: URL;
+    try {
+      url = new URL(conninfo);
+    } catch {
+      return { error: `invalid URI query parameter: "${conninfo}"` };
+    }
+    settings.dbname = decodeURIComponent(url.pathname.slice(1)) || undefined;
+    settings.host = settings.host ?? (url.hostname.replace(/^\[|\]$/g, '') || undefined);
+    settings.port = settings.port ?? (url.port || undefined);
+    settings.user = last('username') ?? (url.username ? decodeURIComponent(url.username) : undefined);
+    settings.password = url.password ? decodeURIComponent(url.password) : undefined;
+  } else if (conninfo?.includes('=')) {
+    settings.dbname = undefined;
+    for (const pair of conninfo.trim().split(/\s+/)) {
+      const [key, ...rest] = pair.split('=');
+      if (!['host', 'port', 'user', 'dbname', 'password'].includes(key)) {
+        return { error: `invalid connection option "${key}"` };
+      }
+      settings[key] = settings[key] ?? rest.join('=');
+    }
+  }
+
+  const env = ctx.env;
+  const user = settings.user ?? env.PGUSER ?? ctx.user;
+  const host = settings.host ?? env.PGHOST;
+  return {
+    host: host && !host.startsWith('/') ? host : null,
+    socketDir: host?.startsWith('/') ? host : SOCKET_DIR,
+    port: settings.port ?? env.PGPORT ?? PORT,
+    user,
+    database: settings.dbname ?? env.PGDATABASE ?? user,
+    password: settings.password ?? env.PGPASSWORD ?? null,
+  };
+}
+
+function serverLabel(target: Target): string {
+  if (target.host === null) return `connection to server on socket "${target.socketDir}/.s.PGSQL.${target.port}"`;
+  return `connection to server at "${target.host}" (${HOST_ADDRESSES[target.host]}), port ${target.port}`;
+}
+
+/** Why the server can't be reached at all, before any authentication */
+function reach(target: Target, ctx: CommandContext): string | null {
+  const inContainer = containerOf(ctx) === DB_CONTAINER;
+  const running = serviceUp(ctx.fs, ctx.clock, DB_SERVICE);
+  if (target.host === null) {
+    if (inContainer && running && target.socketDir === SOCKET_DIR && target.port === PORT) return null;
+    return `${serverLabel(target)} failed: No such file or directory\n\tIs the server running locally and accepting connections on that socket?`;
+  }
+  if (!HOST_ADDRESSES[target.host]) {
+    return `could not translate host name "${target.host}" to address: Name or service not known`;
+  }
+  if (running && target.port === PORT) return null;
+  return `${serverLabel(target)} failed: Connection refused\n\tIs the server running on that host and accepting TCP/IP connections?`;
+}
+
+/** The server's answer to a login; password is null for connections it trusts */
+function authenticate(target: Target, password: string | null): string | null {
+  const failed = (reason: string) => `${serverLabel(target)} failed: ${reason}`;
+  if (password !== null) {
+    if (password === '') return failed('fe_sendauth: no password supplied');
+    if (target.user !== ROLE || password !== PASSWORD) {
+      return failed(`FATAL:  password authentication failed for user "${target.user}"`);
+    }
+  }
+  if (target.user !== ROLE) return failed(`FATAL:  role "${target.user}" does not exist`);
+  if (target.database === 'template0') return failed('FATAL:  database "template0" is not currently accepting connections');
+  if (!DATABASES.includes(target.database)) return failed(`FATAL:  database "${target.database}" does not exist`);
+  return null;
+}
+
+/** A password from ~/.pgpass (or $PGPASSFILE), which libpq ignores if others can read it */
+function pgpassLookup(target: Target, ctx: CommandContext): { value: string | null; warning: string | null } {
+  const path = ctx.env.PGPASSFILE ?? `${ctx.env.HOME}/.pgpass`;
+  const node = ctx.fs.resolve(path, '/');
+  const content = ctx.fs.readFile(path, '/');
+  if (!node || content === null) return { value: null, warning: null };
+  if (/[^-]/.test(node.permissions?.slice(4) ?? '')) {
+    return { value: null, warning: `WARNING: password file "${path}" has group or world access; permissions should be u=rw (0600) or less` };
+  }
+  const host = target.host ?? 'localhost';
+  for (const line of content.split('\n')) {
+    if (!line.trim() || line.startsWith('#')) continue;
+    const fields = line.split(/(?<!\\):/).map(f => f.replace(/\\(.)/g, '$1'));
+    if (fields.length < 5) continue;
+    const wanted = [host, target.port, target.database, target.user];
+    if (wanted.every((value, i) => fields[i] === '*' || fields[i] === value)) {
+      return { value: fields.slice(4).join(':'), warning: null };
+    }
+  }
+  return { value: null, warning: null };
+}
+
+function display(options: PsqlOptions): Display {
+  const separator = options.values.filter(v => v.name === 'field-separator').pop();
+  return {
+    tuplesOnly: options.switches.has('tuples-only'),
+    unaligned: options.switches.has('no-align'),
+    expanded: options.switches.has('expanded'),
+    quiet: options.switches.has('quiet'),
+    fieldSeparator: separator?.value ?? '|',
+    timing: false,
+  };
+}
+
+/**
+ * Once connected: run -l, -c and -f, or a script on stdin, and exit with
+ * psql's status; otherwise print the banner and stay open for input.
+ */
+function startClient(client: PsqlClient, options: PsqlOptions, ctx: CommandContext, out: CommandOutput, stdin?: string): number | 'interactive' {
+  const stopOnError = options.values.some(v => v.name === 'set' && /^ON_ERROR_STOP=(1|on|true)$/i.test(v.value));
+  if (options.switches.has('list')) {
+    client.runMeta('l', out);
+    return 0;
+  }
+
+  const actions = options.values.filter(v => v.name === 'command' || v.name === 'file');
+  for (const { name, value } of actions) {
+    if (name === 'command') {
+      if (!client.runCommand(value, out)) return 1;
+      continue;
+    }
+    const source = value === '-' ? stdin ?? '' : ctx.fs.readFile(ctx.resolvePath(value), '/');
+    if (source === null) {
+      out.err(`psql: error: ${value}: No such file or directory`);
+      return 1;
+    }
+    const status = client.runScript(source, value === '-' ? '<stdin>' : value, stopOnError, out);
+    if (status !== 0) return status;
+  }
+  if (actions.length > 0) return 0;
+
+  if (stdin !== undefined) return client.runScript(stdin, '<stdin>', stopOnError, out);
+
+  out.out(`psql (${VERSION})\nType "help" for help.\n`);
+  return 'interactive';
+}
+
+/** One connection to the database, with its query buffer and display settings */
+class PsqlClient {
+  private sql: SqlSession;
+  private buffer = '';
+
+  constructor(private ctx: CommandContext, private target: Target, private display: Display) {
+    this.sql = new SqlSession(this.state(), ctx.clock);
+  }
+
+  prompt(): string {
+    const mark = this.buffer === '' ? '=' : pendingMark(this.buffer);
+    const status = this.sql.transactionStatus;
+    const transaction = status === 'active' ? '*' : status === 'failed' ? '!' : '';
+    return `${this.target.database}${mark}${transaction}# `;
+  }
+
+  /** Ctrl+C at the prompt: forget the statement being typed */
+  reset(): void {
+    this.buffer = '';
+  }
+
+  close(): void {
+    this.sql.close();
+  }
+
+  /**
+   * A line typed (or read from a script): backslash commands run at once,
+   * SQL collects until a semicolon. `location` is the file and line that
+   * non-interactive psql puts in front of messages.
+   */
+  feed(line: string, out: CommandOutput, interactive: boolean, location?: string): 'ok' | 'error' | 'quit' {
+    if (this.buffer === '' && interactive) {
+      const word = line.trim().replace(/;$/, '').toLowerCase();
+      if (word === 'quit' || word === 'exit') return 'quit';
+      if (word === 'help') {
+        out.out(GREETING);
+        return 'ok';
+      }
+    }
+    const meta = /^\s*\\(.*)$/.exec(line);
+    if (meta && quoteState(this.buffer) === null) return this.runMeta(meta[1].trim(), out, location);
+
+    this.buffer = this.buffer === '' ? line : `${this.buffer}\n${line}`;
+    const { statements, rest } = splitSql(this.buffer);
+    this.buffer = stripComments(rest).trim() === '' ? '' : rest;
+    let status: 'ok' | 'error' = 'ok';
+    for (const statement of statements) {
+      if (!this.execute(statement, out, location)) status = 'error';
+    }
+    return status;
+  }
+
+  /** End of a script: psql sends whatever is left in the buffer */
+  finish(out: CommandOutput, location?: string): boolean {
+    const rest = this.buffer;
+    this.buffer = '';
+    return stripComments(rest).trim() === '' || this.execute(rest, out, location);
+  }
+
+  /** -c: one line of SQL (every statement in it) or one backslash command */
+  runCommand(text: string, out: CommandOutput): boolean {
+    if (text.trimStart().startsWith('\\')) return this.runMeta(text.trim().slice(1), out) !== 'error';
+    const { statements, rest } = splitSql(text);
+    for (const statement of [...statements, rest]) {
+      if (stripComments(statement).trim() === '') continue;
+      if (!this.execute(statement, out)) return false;
+    }
+    return true;
+  }
+
+  runScript(source: string, name: string, stopOnError: boolean, out: CommandOutput): number {
+    const lines = source.replace(/\n$/, '').split('\n');
+    for (const [i, line] of lines.entries()) {
+      const status = this.feed(line, out, false, `${name}:${i + 1}`);
+      if (status === 'quit') return 0;
+      if (status === 'error' && stopOnError) return 3;
+    }
+    return this.finish(out, `${name}:${lines.length}`) || !stopOnError ? 0 : 3;
+  }
+
+  private execute(statement: string, out: CommandOutput, location?: string): boolean {
+    const text = statement.replace(/^\s+/, '');
+    if (stripComments(text).replace(/;\s*$/, '').trim() === '') return true;
+    const prefix = location ? `psql:${location}: ` : '';
+    let result: QueryResult;
+    try {
+      result = this.sql.execute(text);
+    } catch (err) {
+      if (!(err instanceof DatabaseError)) throw err;
+      out.err(prefix + errorReport(err, text));
+      return false;
+    }
+    for (const notice of result.notices) out.err(prefix + notice);
+    if (result.columns) {
+      const printed = printResult(result, this.display);
+      if (printed !== null) out.out(printed);
+    }
+    const rowsOnly = result.tag.startsWith('SELECT') || result.tag === 'EXPLAIN';
+    if (!this.display.quiet && !(rowsOnly && result.columns)) out.out(result.tag);
+    if (this.display.timing) out.out(`Time: ${(0.2 + result.rows.length * 0.013).toFixed(3)} ms`);
+    return true;
+  }
+
+  runMeta(command: string, out: CommandOutput, location?: string): 'ok' | 'error' | 'quit' {
+    const [name = '', ...args] = command.split(/\s+/);
+    const fail = (message: string) => {
+      out.err(`${location ? `psql:${location}: ` : ''}${message}`);
+      return 'error' as const;
+    };
+    const toggle = (current: boolean, arg?: string): boolean | null => {
+      if (arg === undefined) return !current;
+      if (/^(on|true|yes|1)$/i.test(arg)) return true;
+      if (/^(off|false|no|0)$/i.test(arg)) return false;
+      return null;
+    };
+
+    switch (name.replace(/\+$/, '')) {
+      case 'q':
+        return 'quit';
+      case '?':
+        out.out(META_HELP);
+        return 'ok';
+      case 'h':
+        out.out(SQL_HELP);
+        return 'ok';
+      case 'g':
+        return this.finish(out, location) ? 'ok' : 'error';
+      case 'r':
+        this.buffer = '';
+        if (!this.display.quiet) out.out('Query buffer reset (cleared).');
+        return 'ok';
+      case 'p':
+        out.out(this.buffer === '' ? 'Query buffer is empty.' : this.buffer);
+        return 'ok';
+      case 'echo':
+        out.out(args.join(' ').replace(/^'(.*)'$/, '$1'));
+        return 'ok';
+      case 'i':
+      case 'ir': {
+        if (!args[0]) return fail(`\\${name}: missing required argument`);
+        const source = this.ctx.fs.readFile(this.ctx.resolvePath(args[0]), '/');
+        if (source === null) return fail(`${args[0]}: No such file or directory`);
+        return this.runScript(source, args[0], false, out) === 0 ? 'ok' : 'error';
+      }
+      case 'x': {
+        if (args[0] === 'auto') {
+          this.display.expanded = 'auto';
+          out.out('Expanded display is used automatically.');
+          return 'ok';
+        }
+        const expanded = toggle(this.display.expanded === true, args[0]);
+        if (expanded === null) return fail(`unrecognized value "${args[0]}" for "\\x": Boolean expected`);
+        this.display.expanded = expanded;
+        out.out(`Expanded display is ${expanded ? 'on' : 'off'}.`);
+        return 'ok';
+      }
+      case 'timing': {
+        const timing = toggle(this.display.timing, args[0]);
+        if (timing === null) return fail(`unrecognized value "${args[0]}" for "\\timing": Boolean expected`);
+        this.display.timing = timing;
+        out.out(`Timing is ${timing ? 'on' : 'off'}.`);
+        return 'ok';
+      }
+      case 'conninfo': {
+        const { database, user, port, host, socketDir } = this.target;
+        const via = host === null ? `via socket in "${socketDir}"` : `on host "${host}" (address "${HOST_ADDRESSES[host]}")`;
+        out.out(`You are connected to database "${database}" as user "${user}" ${via} at port "${port}".`);
+        return 'ok';
+      }
+      case 'c':
+      case 'connect': {
+        const target = { ...this.target, database: args[0] ?? this.target.database, user: args[1] ?? this.target.user };
+        const refused = authenticate(target, null);
+        if (refused) return fail(`${refused}\nPrevious connection kept`);
+        this.sql.close();
+        this.target = target;
+        this.sql = new SqlSession(this.state(), this.ctx.clock);
+        this.buffer = '';
+        out.out(`You are now connected to database "${target.database}" as user "${target.user}".`);
+        return 'ok';
+      }
+      case 'l':
+      case 'list':
+        out.out(listDatabases());
+        return 'ok';
+      case 'du':
+        out.out(renderTable({
+          title: 'List of roles',
+          headers: ['Role name', 'Attributes'],
+          rows: [[ROLE, 'Superuser, Create role, Create DB, Replication, Bypass RLS']],
+          footer: false,
+        }));
+        return 'ok';
+      case 'dt':
+        return this.listRelations('table', args[0], out);
+      case 'di':
+        return this.listRelations('index', args[0], out);
+      case 'd':
+        if (!args[0]) return this.listRelations('table', undefined, out);
+        return this.describe(args[0], out, location);
+      default:
+        return fail(`invalid command \\${name}\nTry \\? for help.`);
+    }
+  }
+
+  private state(): FleetCoreState {
+    if (this.target.database === 'fleetcore') return fleetCoreStateFor(this.ctx.fs);
+    let databases = otherDatabases.get(this.ctx.fs);
+    if (!databases) {
+      databases = new Map();
+      otherDatabases.set(this.ctx.fs, databases);
+    }
+    let state = databases.get(this.target.database);
+    if (!state) {
+      state = new FleetCoreState();
+      databases.set(this.target.database, state);
+    }
+    return state;
+  }
+
+  private listRelations(kind: 'table' | 'index', pattern: string | undefined, out: CommandOutput): 'ok' {
+    const state = this.state();
+    const matches = (name: string) => pattern === undefined || globRegExp(pattern).test(name);
+    const rows = kind === 'table'
+      ? [...state.tables.keys()].filter(matches).sort().map(name => ['public', name, 'table', ROLE])
+      : [...state.indexes.values()].filter(index => matches(index.name))
+        .sort((a, b) => compareNames(a.name, b.name))
+        .map(index => ['public', index.name, 'index', ROLE, index.table]);
+    if (rows.length === 0) {
+      out.err(pattern === undefined ? 'Did not find any relations.' : `Did not find any relation named "${pattern}".`);
+      return 'ok';
+    }
+    const headers = ['Schema', 'Name', 'Type', 'Owner', ...(kind === 'index' ? ['Table'] : [])];
+    out.out(renderTable({ title: 'List of relations', headers, rows, footer: true }));
+    return 'ok';
+  }
+
+  private describe(name: string, out: CommandOutput, location?: string): 'ok' | 'error' {
+    const state = this.state();
+    const table = state.table(name.replace(/^public\./, ''));
+    if (!table) {
+      out.err(`${location ? `psql:${location}: ` : ''}Did not find any relation named "${name}".`);
+      return 'error';
+    }
+    out.out(describeTable(table, state));
+    return 'ok';
+  }
+}
+
+/** psql's view of a login: a password prompt first if needed, then the client's prompts until \q */
+class PsqlShell implements InteractiveShell {
+  private closed = false;
+
+  constructor(
+    private ctx: CommandContext,
+    private login: { target: Target; display: Display; run: (out: CommandOutput, client: PsqlClient) => number | 'interactive' } | null,
+    private client: PsqlClient | null = null,
+  ) {}
+
+  prompt(): string {
+    if (this.login) return `Password for user ${this.login.target.user}: `;
+    return this.client!.prompt();
+  }
+
+  echo(): boolean {
+    return this.login === null;
+  }
+
+  handleLine(line: string): CommandResult {
+    const out = new CommandOutput();
+    if (this.login) {
+      const { target, display, run } = this.login;
+      this.login = null;
+      const refused = authenticate(target, line);
+      if (refused) {
+        out.err(`psql: error: ${refused}`);
+        this.closed = true;
+        return out.result(2);
+      }
+      const client = new PsqlClient(this.ctx, target, display);
+      const outcome = run(out, client);
+      if (outcome === 'interactive') {
+        this.client = client;
+        return out.result(0);
+      }
+      client.close();
+      this.closed = true;
+      return out.result(outcome);
+    }
+
+    const status = this.client!.feed(line, out, true);
+    if (status === 'quit') this.quit();
+    return out.result(status === 'error' ? 1 : 0);
+  }
+
+  interrupt(): void {
+    if (this.login) {
+      this.login = null;
+      this.closed = true;
+      return;
+    }
+    this.client!.reset();
+  }
+
+  eof(): CommandResult {
+    const out = new CommandOutput();
+    if (this.client) out.out('\\q');
+    this.quit();
+    return out.result(0);
+  }
+
+  isClosed(): boolean {
+    return this.closed;
+  }
+
+  private quit(): void {
+    this.client?.close();
+    this.login = null;
+    this.closed = true;
+  }
+}
+
+/** An error as psql shows it, pointing at where in the statement it happened */
+function errorReport(err: DatabaseError, statement: string): string {
+  const lines = [`ERROR:  ${err.message}`];
+  if (err.position !== undefined) {
+    const before = statement.slice(0, err.position - 1);
+    const lineNumber = before.split('\n').length;
+    const lineStart = before.lastIndexOf('\n') + 1;
+    const text = statement.slice(lineStart).split('\n')[0];
+    const label = `LINE ${lineNumber}: `;
+    lines.push(label + text, ' '.repeat(label.length + err.position - 1 - lineStart) + '^');
+  }
+  if (err.detail) lines.push(`DETAIL:  ${err.detail}`);
+  if (err.hint) lines.push(`HINT:  ${err.hint}`);
+  return lines.join('\n');
+}
+
+/** psql's continuation prompt mark: inside a string, a quoted name, parentheses, or just more to come */
+function pendingMark(buffer: string): string {
+  return quoteState(buffer) ?? (parenDepth(buffer) > 0 ? '(' : '-');
+}
+
+function quoteState(buffer: string): "'" | '"' | '/*' | null {
+  let open: "'" | '"' | '/*' | null = null;
+  for (let i = 0; i < buffer.length; i++) {
+    const char = buffer[i];
+    if (open === '/*') {
+      if (buffer.startsWith('*/', i)) {
+        open = null;
+        i++;
+      }
+    } else if (open !== null) {
+      if (char === open) open = null;
+    } else if (char === "'" || char === '"') {
+      open = char;
+    } else if (buffer.startsWith('/*', i)) {
+      open = '/*';
+      i++;
+    } else if (buffer.startsWith('--', i)) {
+      const end = buffer.indexOf('\n', i);
+      if (end === -1) break;
+      i = end;
+    }
+  }
+  return open;
+}
+
+function parenDepth(buffer: string): number {
+  return [...stripComments(buffer).replace(/'[^']*'|"[^"]*"/g, '')]
+    .reduce((depth, char) => depth + (char === '(' ? 1 : char === ')' ? -1 : 0), 0);
+}
+
+function printResult(result: QueryResult, display: Display): string | null {
+  const columns = result.columns!;
+  const rows = result.rows.map(row => row.map((value, i) => (value === null || value === undefined ? '' : formatValue(value, columns[i].type))));
+  const headers = columns.map(c => c.name);
+
+  if (display.unaligned) {
+    const separator = display.fieldSeparator;
+    if (display.expanded === true) {
+      return rows.map(row => row.map((value, i) => `${headers[i]}${separator}${value}`).join('\n')).join('\n\n') || null;
+    }
+    const lines = display.tuplesOnly ? [] : [headers.join(separator)];
+    lines.push(...rows.map(row => row.join(separator)));
+    if (!display.tuplesOnly) lines.push(rowCount(rows.length));
+    return lines.length > 0 ? lines.join('\n') : null;
+  }
+
+  if (display.expanded === true && rows.length > 0) return renderExpanded(headers, rows, display.tuplesOnly);
+  const rightAlign = columns.map(c => typeCategory(c.type) === 'number');
+  const table = renderTable({ headers, rows, rightAlign, footer: !display.tuplesOnly, headerless: display.tuplesOnly });
+  return display.tuplesOnly && rows.length === 0 ? null : table;
+}
+
+function rowCount(n: number): string {
+  return `(${n} row${n === 1 ? '' : 's'})`;
+}
+
+/**
+ * psql's aligned format: centred headers, numbers right-aligned, and a
+ * `+` at the end of each line of a cell that continues on the next.
+ */
+function renderTable(spec: {
+  title?: string;
+  headers: string[];
+  rows: string[][];
+  rightAlign?: boolean[];
+  footer: boolean;
+  headerless?: boolean;
+}): string {
+  const cells = spec.rows.map(row => row.map(value => value.split('\n')));
+  const widths = spec.headers.map((header, i) =>
+    Math.max(spec.headerless ? 0 : header.length, ...cells.map(row => Math.max(...row[i].map(line => line.length)))));
+  const last = widths.length - 1;
+  const lines: string[] = [];
+
+  if (spec.title) {
+    const total = widths.reduce((sum, w) => sum + w, 0) + 3 * last + 2;
+    lines.push(' '.repeat(Math.max(0, Math.floor((total - spec.title.length) / 2))) + spec.title);
+  }
+  if (!spec.headerless) {
+    lines.push(spec.headers.map((header, i) => {
+      const pad = widths[i] - header.length;
+      return ` ${' '.repeat(Math.floor(pad / 2))}${header}${' '.repeat(Math.ceil(pad / 2))} `;
+    }).join('|'));
+    lines.push(widths.map(w => '-'.repeat(w + 2)).join('+'));
+  }
+  for (const row of cells) {
+    const height = Math.max(...row.map(cell => cell.length));
+    for (let k = 0; k < height; k++) {
+      lines.push(row.map((cell, i) => {
+        const text = cell[k] ?? '';
+        const more = k < cell.length - 1;
+        const padded = spec.rightAlign?.[i] ? text.padStart(widths[i]) : i === last && !more ? text : text.padEnd(widths[i]);
+        return ` ${padded}${more ? '+' : i === last ? '' : ' '}`;
+      }).join('|'));
+    }
+  }
+  if (spec.footer) lines.push(rowCount(spec.rows.length), '');
+  else if (!spec.headerless) lines.push('');
+  return lines.join('\n');
+}
+
+/** \x output: one block per row, each column on its own line */
+function renderExpanded(headers: string[], rows: string[][], tuplesOnly: boolean): string {
+  const nameWidth = Math.max(...headers.map(h => h.length));
+  const valueWidth = Math.max(...rows.flat().map(v => v.length));
+  const lines: string[] = [];
+  rows.forEach((row, n) => {
+    if (!tuplesOnly) {
+      const label = `-[ RECORD ${n + 1} ]`;
+      lines.push(label.length <= nameWidth + 1
+        ? `${label.padEnd(nameWidth + 1, '-')}+${'-'.repeat(valueWidth + 1)}`
+        : label + '-'.repeat(Math.max(0, nameWidth + valueWidth + 3 - label.length)));
+    } else if (n > 0) {
+      lines.push('');
+    }
+    row.forEach((value, i) => lines.push(`${headers[i].padEnd(nameWidth)} | ${value}`));
+  });
+  lines.push('');
+  return lines.join('\n');
+}
+
+function listDatabases(): string {
+  const privileges = `=c/${ROLE}\n${ROLE}=CTc/${ROLE}`;
+  return renderTable({
+    title: 'List of databases',
+    headers: ['Name', 'Owner', 'Encoding', 'Collate', 'Ctype', 'ICU Locale', 'Locale Provider', 'Access privileges'],
+    rows: DATABASES.map(name => [
+      name, ROLE, 'UTF8', 'en_US.utf8', 'en_US.utf8', '', 'libc', name.startsWith('template') ? privileges : '',
+    ]),
+    footer: true,
+  });
+}
+
+/** \d TABLE: columns, then indexes and constraints as psql lists them */
+function describeTable(table: Table, state: FleetCoreState): string {
+  const rows = table.columns.map(column => [
+    column.name,
+    column.type,
+    '',
+    column.notNull ? 'not null' : '',
+    defaultText(table.name, column),
+  ]);
+  const sections: string[] = [];
+
+  const indexes = [...state.indexes.values()]
+    .filter(index => index.table === table.name)
+    .sort((a, b) => Number(b.primary) - Number(a.primary) || compareNames(a.name, b.name));
+  if (indexes.length > 0) {
+    sections.push('Indexes:', ...indexes.map(index => {
+      const kind = index.primary ? 'PRIMARY KEY, ' : index.unique ? (/_(unique|key)$/.test(index.name) ? 'UNIQUE CONSTRAINT, ' : 'UNIQUE, ') : '';
+      return `    "${index.name}" ${kind}btree (${index.columns.join(', ')})`;
+    }));
+  }
+
+  const checks = table.columns.filter(c => c.values);
+  if (checks.length > 0) {
+    sections.push('Check constraints:', ...checks.map(c =>
+      `    "${table.name}_${c.name}_check" CHECK (${c.name} = ANY (ARRAY[${c.values!.map(v => `'${v}'::text`).join(', ')}]))`));
+  }
+
+  const foreign = table.columns.filter(c => c.references);
+  if (foreign.length > 0) {
+    sections.push('Foreign-key constraints:', ...foreign.map(c =>
+      `    "${table.name}_${c.name}_foreign" FOREIGN KEY (${c.name}) REFERENCES ${c.references!.table}(${c.references!.column})`));
+  }
+
+  const referencing = [...state.tables.values()].flatMap(other => other.columns
+    .filter(c => c.references?.table === table.name)
+    .map(c => `    TABLE "${other.name}" CONSTRAINT "${other.name}_${c.name}_foreign" FOREIGN KEY (${c.name}) REFERENCES ${table.name}(${c.references!.column})`));
+  if (referencing.length > 0) sections.push('Referenced by:', ...referencing.sort());
+
+  const body = renderTable({
+    title: `Table "public.${table.name}"`,
+    headers: ['Column', 'Type', 'Collation', 'Nullable', 'Default'],
+    rows,
+    footer: false,
+  });
+  return sections.length > 0 ? `${body.replace(/\n$/, '')}\n${sections.join('\n')}\n` : body;
+}
+
+function defaultText(table: string, column: Table['columns'][number]): string {
+  const value = column.default;
+  if (!value) return '';
+  switch (value.kind) {
+    case 'now': return 'CURRENT_TIMESTAMP';
+    case 'uuid': return 'gen_random_uuid()';
+    case 'serial': return `nextval('${table}_${column.name}_seq'::regclass)`;
+    case 'value': {
+      if (value.value === null) return 'NULL';
+      if (typeof value.value === 'number' || typeof value.value === 'boolean') return String(value.value);
+      const type = column.type.replace(/\(.*$/, '');
+      return `'${String(value.value).replace(/'/g, "''")}'::${type}`;
+    }
+  }
+}
+
+function globRegExp(pattern: string): RegExp {
+  const source = pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.');
+  return new RegExp(`^${source}$`);
+}
+
+/** Byte order, as the C collation psql sorts catalog names in */
+function compareNames(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
@@ -1,85 +1,61 @@
-import { CommandRegistry, CommandResult } from '../CommandRegistry';
+import { CommandOutput, CommandRegistry, CommandResult } from '../CommandRegistry';
 import { ParsedCommand } from '../CommandParser';
 import { CommandContext } from '../CommandContext';
-
-interface ContainerState {
-  name: string;
-  image: string;
-  status: 'running' | 'stopped' | 'created';
-  ports: string;
-  created: string;
-  id: string;
+import type { CommandRunner } from './permissions';
+import { ComposeError, ComposeProject, composeConfig, findComposeFile, readCompose } from '../../fleetcore/Compose';
+import {
+  Container, DockerHost, composeUp, containerLogs, containerName, dockerHostFor, health, humanDuration, startContainer,
+  startOrder, status, stopContainer,
+} from '../../fleetcore/Containers';
+
+const ENTRYPOINT = '"docker-entrypoint.s…"';
+const ZERO_TIME = '0001-01-01T00:00:00Z';
+
+export function registerDockerCommands(registry: CommandRegistry, runCommand: CommandRunner): void {
+  registry.register('docker', (cmd, ctx, stdin) => handleDocker(cmd, ctx, runCommand, stdin));
+  registry.register('docker-compose', (cmd, ctx) => handleDockerCompose(cmd.argv, ctx));
 }
 
-// Global docker state (persists across commands)
-const dockerState = {
-  containers: new Map<string, ContainerState>(),
-  initialized: false,
-};
-
-function initDockerState() {
-  if (dockerState.initialized) return;
-  dockerState.initialized = true;
-
-  // Pre-configured containers that match docker-compose.yml
-  const containers: ContainerState[] = [
-    {
-      name: 'fleetcore-api',
-      image: 'fleetcore-api:latest',
-      status: 'stopped',
-      ports: '',
-      created: '2 days ago',
-      id: 'a1b2c3d4e5f6',
-    },
-    {
-      name: 'fleetcore-db',
-      image: 'postgres:15-alpine',
-      status: 'stopped',
-      ports: '',
-      created: '2 days ago',
-      id: 'b2c3d4e5f6a1',
-    },
-    {
-      name: 'fleetcore-cache',
-      image: 'redis:7-alpine',
-      status: 'stopped',
-      ports: '',
-      created: '2 days ago',
-      id: 'c3d4e5f6a1b2',
-    },
-  ];
+/** The container a command is running in (via `docker exec`), or null on the host */
+export function containerOf(ctx: CommandContext): string | null {
+  return containerRunning(ctx)?.name ?? null;
+}
 
-  for (const c of containers) {
-    dockerState.containers.set(c.name, c);
-  }
+/** The compose service of the container a command is running in, or null on the host */
+export function serviceOf(ctx: CommandContext): string | null {
+  return containerRunning(ctx)?.service ?? null;
 }
 
-export function registerDockerCommands(registry: CommandRegistry): void {
-  registry.register('docker', handleDocker);
-  registry.register('docker-compose', handleDockerCompose);
+function containerRunning(ctx: CommandContext): Container | undefined {
+  return Array.from(dockerHostFor(ctx.fs).containers.values()).find(c => c.id === ctx.hostname);
 }
 
-function handleDocker(cmd: ParsedCommand, ctx: CommandContext): CommandResult {
-  initDockerState();
+function handleDocker(
+  cmd: ParsedCommand,
+  ctx: CommandContext,
+  runCommand: CommandRunner,
+  stdin?: string
+): CommandResult | Promise<CommandResult> {
+  const host = dockerHostFor(ctx.fs);
   const subcommand = cmd.args[0];
 
   switch (subcommand) {
     case 'ps':
-      return dockerPs(cmd);
+      return dockerPs(cmd, ctx, host);
     case 'images':
       return dockerImages();
     case 'logs':
-      return dockerLogs(cmd);
+      return dockerLogs(cmd, ctx, host);
     case 'start':
-      return dockerStart(cmd);
     case 'stop':
-      return dockerStop(cmd);
+    case 'restart':
+      return dockerLifecycle(cmd, ctx, host);
     case 'exec':
-      return dockerExec(cmd, ctx);
+      return dockerExec(cmd, ctx, host, runCommand, stdin);
     case 'inspect':
-      return dockerInspect(cmd);
+      return dockerInspect(cmd, ctx, host);
     case 'compose':
-      return handleDockerCompose({ ...cmd, args: cmd.args.slice(1) }, ctx);
+      return handleDockerCompose(cmd.argv.slice(cmd.argv.indexOf('compose') + 1), ctx);
     case 'version':
     case '--version':
       return {
@@ -88,50 +64,28 @@ function handleDocker(cmd: ParsedCommand, ctx: CommandContext): CommandResult {
       };
     default:
       return {
-        output: `docker: '${subcommand}' is not a docker command.\nSee 'docker --help'`,
+        output: '',
+        stderr: `docker: '${subcommand}' is not a docker command.\nSee 'docker --help'`,
         exitCode: 1,
       };
   }
 }
 
-function dockerPs(cmd: ParsedCommand): CommandResult {
-  const showAll = cmd.flags['a'] === true || cmd.rawArgs.includes('-a');
-  const containers = Array.from(dockerState.containers.values());
-  const filtered = showAll ? containers : containers.filter(c => c.status === 'running');
-
-  if (filtered.length === 0) {
-    if (showAll) {
-      const header = 'CONTAINER ID   IMAGE                    COMMAND                  CREATED       STATUS    PORTS     NAMES';
-      const lines = containers.map(c => {
-        const id = c.id.slice(0, 12);
-        const image = c.image.padEnd(24);
-        const command = '"docker-entrypoint.s…"'.padEnd(24);
-        const created = c.created.padEnd(13);
-        const status = (c.status === 'running'
-          ? `Up ${c.created}`
-          : `Exited (0) ${c.created}`).padEnd(24);
-        const ports = (c.status === 'running' ? c.ports : '').padEnd(9);
-        return `${id}   ${image} ${command} ${created} ${status} ${ports} ${c.name}`;
-      });
-      return { output: header + '\n' + lines.join('\n'), exitCode: 0 };
-    }
-    return { output: 'CONTAINER ID   IMAGE   COMMAND   CREATED   STATUS   PORTS   NAMES', exitCode: 0 };
-  }
-
-  const header = 'CONTAINER ID   IMAGE                    COMMAND                  CREATED       STATUS          PORTS                    NAMES';
-  const lines = filtered.map(c => {
-    const id = c.id.slice(0, 12);
-    const image = c.image.padEnd(24);
-    const command = '"docker-entrypoint.s…"'.padEnd(24);
-    const created = c.created.padEnd(13);
-    const status = (c.status === 'running'
-      ? `Up ${c.created}`
-      : `Exited (0) ${c.created}`).padEnd(15);
-    const ports = (c.status === 'running' ? c.ports : '').padEnd(24);
-    return `${id}   ${image} ${command} ${created} ${status} ${ports} ${c.name}`;
-  });
+/** A container by name or id prefix */
+function findContainer(host: DockerHost, ref: string): Container | undefined {
+  return host.containers.get(ref) ?? Array.from(host.containers.values()).find(c => c.id.startsWith(ref));
+}
 
-  return { output: header + '\n' + lines.join('\n'), exitCode: 0 };
+function dockerPs(cmd: ParsedCommand, ctx: CommandContext, host: DockerHost): CommandResult {
+  const showAll = cmd.flags['a'] === true || cmd.flags['all'] === true;
+  const now = ctx.clock.now();
+  const containers = Array.from(host.containers.values())
+    .filter(c => showAll || ['running', 'restarting'].includes(status(c, now).state))
+    .sort((a, b) => b.createdAt - a.createdAt);
+  const rows = containers.map(c => [
+    c.id.slice(0, 12), c.image, ENTRYPOINT, `${humanDuration(now - c.createdAt)} ago`, statusText(c, now), portsText(c, now), c.name,
+  ]);
+  return { output: table(['CONTAINER ID', 'IMAGE', 'COMMAND', 'CREATED', 'STATUS', 'PORTS', 'NAMES'], rows), exitCode: 0 };
 }
 
 function dockerImages(): CommandResult {
@@ -150,248 +104,410 @@ function dockerImages(): CommandResult {
   return { output: header + '\n' + lines.join('\n'), exitCode: 0 };
 }
 
-function dockerLogs(cmd: ParsedCommand): CommandResult {
-  const containerName = cmd.args[1];
+function dockerLogs(cmd: ParsedCommand, ctx: CommandContext, host: DockerHost): CommandResult {
+  const { positional, values } = options(cmd.argv.slice(1), ['--tail', '-n', '--since', '--until']);
+  const containerName = positional[0];
   if (!containerName) {
-    return { output: 'docker logs: requires exactly 1 argument', exitCode: 1 };
+    return { output: '', stderr: '"docker logs" requires exactly 1 argument.', exitCode: 1 };
   }
-
-  const container = dockerState.containers.get(containerName) ||
-    Array.from(dockerState.containers.values()).find(c => c.id.startsWith(containerName));
-
+  const container = findContainer(host, containerName);
   if (!container) {
-    return { output: `Error: No such container: ${containerName}`, exitCode: 1 };
+    return { output: '', stderr: `Error response from daemon: No such container: ${containerName}`, exitCode: 1 };
   }
-
-  if (container.status !== 'running') {
-    return { output: `Error: Container ${containerName} is not running`, exitCode: 1 };
-  }
-
-  const logsByContainer: Record<string, string> = {
-    'fleetcore-api': `[2024-01-15T08:32:01.234Z] INFO: FleetCore API starting...
-[2024-01-15T08:32:01.456Z] INFO: Connecting to database...
-[2024-01-15T08:32:02.123Z] INFO: Database connection established
-[2024-01-15T08:32:02.234Z] INFO: Connecting to Redis...
-[2024-01-15T08:32:02.456Z] INFO: Redis connection established
-[2024-01-15T08:32:02.567Z] INFO: Loading routes...
-[2024-01-15T08:32:02.678Z] INFO: FleetCore API running on port 3000
-[2024-01-15T08:33:15.112Z] INFO: GET /health 200 2ms
-[2024-01-15T08:34:22.445Z] INFO: GET /api/v1/vehicles 200 45ms`,
-    'fleetcore-db': `PostgreSQL Database directory appears to contain a database; Skipping initialization
-2024-01-15 08:32:01.000 UTC [1] LOG:  starting PostgreSQL 15.5 on x86_64-pc-linux-musl
-2024-01-15 08:32:01.000 UTC [1] LOG:  listening on IPv4 address "0.0.0.0", port 5432
-2024-01-15 08:32:01.100 UTC [1] LOG:  database system is ready to accept connections`,
-    'fleetcore-cache': `1:C 15 Jan 2024 08:32:02.000 # oO0OoO0OoO0Oo Redis is starting oO0OoO0OoO0Oo
-1:C 15 Jan 2024 08:32:02.000 # Redis version=7.2.4, bits=64, commit=00000000
-1:M 15 Jan 2024 08:32:02.001 * Running mode=standalone, port=6379.
-1:M 15 Jan 2024 08:32:02.001 # Server initialized
-1:M 15 Jan 2024 08:32:02.001 * Ready to accept connections tcp`,
-  };
-
-  const logs = logsByContainer[container.name] || 'No logs available.';
-  return { output: logs, exitCode: 0 };
-}
-
-function dockerStart(cmd: ParsedCommand): CommandResult {
-  const containerName = cmd.args[1];
-  if (!containerName) {
-    return { output: 'docker start: requires at least 1 argument', exitCode: 1 };
-  }
-
-  const container = dockerState.containers.get(containerName);
-  if (!container) {
-    return { output: `Error: No such container: ${containerName}`, exitCode: 1 };
-  }
-
-  container.status = 'running';
-  updatePorts(container);
-  return { output: containerName, exitCode: 0 };
+  const lines = tail(containerLogs(container, ctx.clock.now()), values['--tail'] ?? values['-n']);
+  return { output: lines.join('\n'), exitCode: 0 };
 }
 
-function dockerStop(cmd: ParsedCommand): CommandResult {
-  const containerName = cmd.args[1];
-  if (!containerName) {
-    return { output: 'docker stop: requires at least 1 argument', exitCode: 1 };
+function dockerLifecycle(cmd: ParsedCommand, ctx: CommandContext, host: DockerHost): CommandResult {
+  const action = cmd.args[0];
+  const names = cmd.args.slice(1);
+  if (names.length === 0) {
+    return { output: '', stderr: `"docker ${action}" requires at least 1 argument.`, exitCode: 1 };
   }
 
-  const container = dockerState.containers.get(containerName);
-  if (!container) {
-    return { output: `Error: No such container: ${containerName}`, exitCode: 1 };
+  const out = new CommandOutput();
+  let exitCode = 0;
+  const now = ctx.clock.now();
+  for (const name of names) {
+    const container = findContainer(host, name);
+    if (!container) {
+      out.err(`Error response from daemon: No such container: ${name}`);
+      exitCode = 1;
+      continue;
+    }
+    if (action !== 'start') stopContainer(container, now);
+    if (action !== 'stop') startContainer(host, container, now);
+    out.out(name);
   }
-
-  container.status = 'stopped';
-  container.ports = '';
-  return { output: containerName, exitCode: 0 };
+  return out.result(exitCode);
 }
 
-function dockerExec(cmd: ParsedCommand, ctx: CommandContext): CommandResult {
+function dockerExec(
+  cmd: ParsedCommand,
+  ctx: CommandContext,
+  host: DockerHost,
+  runCommand: CommandRunner,
+  stdin?: string
+): CommandResult | Promise<CommandResult> {
   // docker exec -it container command
-  const containerIdx = cmd.args.findIndex((a, i) => i > 0 && !a.startsWith('-'));
+  const containerIdx = cmd.argv.findIndex((a, i) => i > 0 && !a.startsWith('-'));
   if (containerIdx === -1) {
-    return { output: 'docker exec: requires at least 2 arguments', exitCode: 1 };
+    return { output: '', stderr: '"docker exec" requires at least 2 arguments.', exitCode: 1 };
   }
 
-  const containerName = cmd.args[containerIdx];
-  const execCmd = cmd.args.slice(containerIdx + 1).join(' ');
-  const container = dockerState.containers.get(containerName);
+  const containerName = cmd.argv[containerIdx];
+  const execCmd = cmd.argv.slice(containerIdx + 1).join(' ');
+  const container = findContainer(host, containerName);
 
   if (!container) {
-    return { output: `Error: No such container: ${containerName}`, exitCode: 1 };
+    return { output: '', stderr: `Error response from daemon: No such container: ${containerName}`, exitCode: 1 };
+  }
+  const state = status(container, ctx.clock.now()).state;
+  if (state === 'restarting') {
+    return {
+      output: '',
+      stderr: `Error response from daemon: Container ${container.id}${'0'.repeat(52)} is restarting, wait until the container is running`,
+      exitCode: 1,
+    };
   }
-  if (container.status !== 'running') {
-    return { output: `Error: Container ${containerName} is not running`, exitCode: 1 };
+  if (state !== 'running') {
+    return { output: '', stderr: `Error response from daemon: container ${container.id}${'0'.repeat(52)} is not running`, exitCode: 1 };
   }
 
   // Simulate some common exec commands
-  if (execCmd.includes('psql') || execCmd.includes('pg_isready')) {
-    if (container.name === 'fleetcore-db') {
-      if (execCmd.includes('pg_isready')) {
-        return { output: '/var/run/postgresql:5432 - accepting connections', exitCode: 0 };
-      }
-      return { output: 'psql (15.5)\nType "help" for help.\n\nfleetcore=#', exitCode: 0 };
-    }
+  if (container.name === 'fleetcore-db' && execCmd.includes('pg_isready')) {
+    return { output: '/var/run/postgresql:5432 - accepting connections', exitCode: 0 };
   }
 
-  if (execCmd.includes('redis-cli') && container.name === 'fleetcore-cache') {
-    if (execCmd.includes('ping')) {
-      return { output: 'PONG', exitCode: 0 };
-    }
-    return { output: '127.0.0.1:6379>', exitCode: 0 };
+  const program = cmd.argv[containerIdx + 1];
+  if ((container.name === 'fleetcore-db' && program === 'psql') || (container.name === 'fleetcore-cache' && program === 'redis-cli')) {
+    // The server's own client runs as root inside its container, next to the server
+    const inside = ctx.fork();
+    inside.user = 'root';
+    inside.hostname = container.id;
+    inside.env.HOME = '/root';
+    inside.env.USER = 'root';
+    inside.env.HOSTNAME = container.id;
+    // Without -i the process gets no input, so a client with nothing to run exits at once
+    const interactive = cmd.argv.slice(1, containerIdx).some(a => /^-[a-z]*i[a-z]*$/.test(a) || a === '--interactive');
+    return runCommand(cmd.argv.slice(containerIdx + 1), inside, interactive ? stdin : stdin ?? '');
+  }
+
+  if (program === 'env' || program === 'printenv') {
+    const env = { PATH: '/usr/local/sbin:/usr/local/bin:/usr/sbin:/usr/bin:/sbin:/bin', HOSTNAME: container.id, ...container.spec.environment };
+    return { output: Object.entries(env).map(([key, value]) => `${key}=${value}`).join('\n'), exitCode: 0 };
   }
 
-  return { output: `OCI runtime exec failed: exec: "${execCmd}": executable file not found in $PATH`, exitCode: 1 };
+  return {
+    output: '',
+    stderr: `OCI runtime exec failed: exec failed: unable to start container process: exec: "${program}": executable file not found in $PATH: unknown`,
+    exitCode: 126,
+  };
 }
 
-function dockerInspect(cmd: ParsedCommand): CommandResult {
-  const containerName = cmd.args[1];
-  if (!containerName) {
-    return { output: 'docker inspect: requires at least 1 argument', exitCode: 1 };
+function dockerInspect(cmd: ParsedCommand, ctx: CommandContext, host: DockerHost): CommandResult {
+  const { positional, values } = options(cmd.argv.slice(1), ['-f', '--format']);
+  if (positional.length === 0) {
+    return { output: '', stderr: '"docker inspect" requires at least 1 argument.', exitCode: 1 };
   }
 
-  const container = dockerState.containers.get(containerName);
-  if (!container) {
-    return { output: `Error: No such object: ${containerName}`, exitCode: 1 };
+  const out = new CommandOutput();
+  const found: Record<string, unknown>[] = [];
+  for (const name of positional) {
+    const container = findContainer(host, name);
+    if (container) found.push(inspect(container, ctx.clock.now()));
+    else out.err(`Error: No such object: ${name}`);
   }
+  const format = values['-f'] ?? values['--format'];
+  if (format !== undefined) {
+    found.forEach(details => out.out(renderTemplate(format, details)));
+  } else {
+    out.out(JSON.stringify(found, null, 4));
+  }
+  return out.result(found.length === positional.length ? 0 : 1);
+}
 
-  const inspect = {
+function inspect(container: Container, now: number): Record<string, unknown> {
+  const current = status(container, now);
+  const running = current.state === 'running' || current.state === 'restarting';
+  const checked = health(container, now);
+  const iso = (time: number | null) => (time === null ? ZERO_TIME : new Date(time).toISOString());
+  const restart = /^([a-z-]+)(?::(\d+))?$/.exec(container.spec.restart)!;
+  const ports = Object.fromEntries(container.spec.ports.map(p => [
+    `${p.target}/tcp`,
+    p.published === null ? null : [{ HostIp: '0.0.0.0', HostPort: String(p.published) }],
+  ]));
+
+  return {
     Id: container.id + '0'.repeat(52),
-    Created: '2024-01-13T10:00:00.000000000Z',
+    Created: iso(container.createdAt),
+    Path: 'docker-entrypoint.sh',
+    Args: container.spec.command,
     State: {
-      Status: container.status,
-      Running: container.status === 'running',
-      Pid: container.status === 'running' ? 12345 : 0,
+      Status: current.state,
+      Running: running,
+      Paused: false,
+      Restarting: current.state === 'restarting',
+      OOMKilled: false,
+      Dead: false,
+      Pid: current.state === 'running' ? 12345 : 0,
+      ExitCode: 'exitCode' in current ? current.exitCode : 0,
+      Error: '',
+      StartedAt: current.state === 'running' ? iso(current.since) : iso(container.startedAt),
+      FinishedAt: 'exitedAt' in current ? iso(current.exitedAt) : ZERO_TIME,
+      ...(checked ? {
+        Health: {
+          Status: checked.health,
+          FailingStreak: checked.health === 'unhealthy' ? container.spec.healthcheck!.retries : 0,
+          Log: checked.health === 'starting' ? [] : [{ Start: iso(now), End: iso(now), ExitCode: checked.health === 'healthy' ? 0 : 1, Output: checked.output }],
+        },
+      } : {}),
     },
     Name: `/${container.name}`,
+    RestartCount: current.state === 'created' ? 0 : current.restarts,
+    HostConfig: {
+      RestartPolicy: { Name: restart[1], MaximumRetryCount: Number(restart[2] ?? 0) },
+      PortBindings: ports,
+    },
     Config: {
+      Hostname: container.id,
+      Env: Object.entries(container.spec.environment).map(([key, value]) => `${key}=${value}`),
+      Cmd: container.spec.command.length > 0 ? container.spec.command : null,
       Image: container.image,
+      Labels: {
+        'com.docker.compose.project': container.project,
+        'com.docker.compose.service': container.service,
+      },
     },
     NetworkSettings: {
-      Ports: container.status === 'running' ? { '3000/tcp': [{ HostPort: '3000' }] } : {},
+      Ports: running ? ports : {},
+      Networks: {
+        [`${container.project}_default`]: { IPAddress: running ? container.ip : '', Gateway: running ? '172.18.0.1' : '' },
+      },
     },
   };
-
-  return { output: JSON.stringify([inspect], null, 2), exitCode: 0 };
 }
 
-function handleDockerCompose(cmd: ParsedCommand, ctx: CommandContext): CommandResult {
-  initDockerState();
-  const subcommand = cmd.args[0];
-
-  switch (subcommand) {
-    case 'up': {
-      const detached = cmd.flags['d'] === true || cmd.rawArgs.includes('-d');
-      const containers = Array.from(dockerState.containers.values());
-
-      for (const c of containers) {
-        c.status = 'running';
-        updatePorts(c);
-      }
-
-      const output = containers.map(c =>
-        `\x1b[32m ✔ \x1b[0mContainer ${c.name}  \x1b[32mStarted\x1b[0m`
-      ).join('\n');
-
-      return {
-        output: `\x1b[1mNetwork fleetcore_default  Created\x1b[0m\n${output}`,
-        exitCode: 0,
-      };
+/** --format templates: {{.State.Status}}, {{json .Config.Env}} */
+function renderTemplate(format: string, details: Record<string, unknown>): string {
+  return format.replace(/\{\{\s*(json\s+)?\.([\w.]*)\s*\}\}/g, (_, json: string | undefined, path: string) => {
+    let value: unknown = details;
+    for (const key of path.split('.').filter(Boolean)) {
+      value = value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined;
     }
+    if (json) return JSON.stringify(value ?? null);
+    if (value === undefined || value === null) return '<no value>';
+    if (Array.isArray(value)) return `[${value.join(' ')}]`;
+    if (typeof value === 'object') return `map[${Object.entries(value).map(([k, v]) => `${k}:${v}`).join(' ')}]`;
+    return String(value);
+  });
+}
 
-    case 'down': {
-      const containers = Array.from(dockerState.containers.values());
-      for (const c of containers) {
-        c.status = 'stopped';
-        c.ports = '';
-      }
+function handleDockerCompose(argv: string[], ctx: CommandContext): CommandResult {
+  // Options before the subcommand are compose's own; the rest belong to the subcommand
+  const global = ['-f', '--file', '-p', '--project-name'];
+  let split = 0;
+  while (split < argv.length && argv[split].startsWith('-')) split += global.includes(argv[split]) ? 2 : 1;
+  const { values } = options(argv.slice(0, split), global);
+  const [subcommand, ...args] = argv.slice(split);
 
-      const output = containers.map(c =>
-        `\x1b[32m ✔ \x1b[0mContainer ${c.name}  \x1b[32mStopped\x1b[0m`
-      ).join('\n');
+  if (subcommand === undefined && !argv.includes('--version') && !argv.includes('-v')) {
+    return { output: '', stderr: 'Usage:  docker compose [OPTIONS] COMMAND\n\nDefine and run multi-container applications with Docker.', exitCode: 1 };
+  }
 
+  switch (subcommand) {
+    case 'version':
+    case undefined:
       return {
-        output: `${output}\n\x1b[1mNetwork fleetcore_default  Removed\x1b[0m`,
+        output: 'Docker Compose version v2.23.3',
         exitCode: 0,
       };
-    }
-
-    case 'ps': {
-      const containers = Array.from(dockerState.containers.values());
-      const header = 'NAME               IMAGE                    SERVICE   CREATED       STATUS          PORTS';
-      const lines = containers.map(c => {
-        const serviceName = c.name.replace('fleetcore-', '');
-        const status = c.status === 'running' ? `Up ${c.created}` : `Exited (0)`;
-        return `${c.name.padEnd(18)} ${c.image.padEnd(24)} ${serviceName.padEnd(9)} ${c.created.padEnd(13)} ${status.padEnd(15)} ${c.ports}`;
-      });
-      return { output: header + '\n' + lines.join('\n'), exitCode: 0 };
-    }
-
-    case 'logs': {
-      const service = cmd.args[1];
-      if (service) {
-        const container = Array.from(dockerState.containers.values())
-          .find(c => c.name.endsWith(service));
-        if (container) {
-          return dockerLogs({ ...cmd, args: ['logs', container.name] });
-        }
-      }
-      return { output: 'Attaching to fleetcore-api, fleetcore-db, fleetcore-cache\n...', exitCode: 0 };
-    }
-
-    case 'build': {
+    case 'build':
       return {
         output: `Building api\n[+] Building 12.3s (10/10) FINISHED\n => [internal] load build definition from Dockerfile\n => [1/4] FROM node:20-alpine\n => [2/4] COPY package*.json ./\n => [3/4] RUN npm ci\n => [4/4] COPY . .\n => exporting to image\n\x1b[32mSuccessfully built fleetcore-api:latest\x1b[0m`,
         exitCode: 0,
       };
-    }
+  }
 
-    case 'restart': {
-      const containers = Array.from(dockerState.containers.values());
-      const output = containers.map(c =>
-        `\x1b[32m ✔ \x1b[0mContainer ${c.name}  \x1b[32mRestarted\x1b[0m`
-      ).join('\n');
-      return { output, exitCode: 0 };
-    }
+  if (!['up', 'down', 'ps', 'logs', 'config', 'restart', 'start', 'stop'].includes(subcommand ?? '')) {
+    return {
+      output: '',
+      stderr: `docker-compose: '${subcommand}' is not a command.\nSee 'docker-compose --help'`,
+      exitCode: 1,
+    };
+  }
 
-    case 'version':
-    case '--version':
-      return {
-        output: 'Docker Compose version v2.23.3',
-        exitCode: 0,
-      };
+  const file = values['-f'] ?? values['--file'];
+  const path = file === undefined ? findComposeFile(ctx.fs, ctx.cwd) : ctx.fs.resolvePath(file, ctx.cwd);
+  let project: ComposeProject | null;
+  try {
+    project = path === null ? null : readCompose(ctx.fs, path);
+  } catch (err) {
+    if (err instanceof ComposeError) return { output: '', stderr: err.message, exitCode: 1 };
+    throw err;
+  }
+  if (!project) {
+    const message = file === undefined
+      ? 'no configuration file provided: not found'
+      : `open ${path}: no such file or directory`;
+    return { output: '', stderr: message, exitCode: 1 };
+  }
+  const name = values['-p'] ?? values['--project-name'];
+  if (name !== undefined) project = { ...project, name };
+
+  const host = dockerHostFor(ctx.fs);
+  const sub = options(args, ['--tail', '-n', '--format']);
+  const unknown = sub.positional.find(s => !project!.services.some(service => service.name === s));
+  if (unknown !== undefined && subcommand !== 'config') {
+    return { output: '', stderr: `no such service: ${unknown}`, exitCode: 1 };
+  }
 
+  switch (subcommand) {
+    case 'config':
+      if (sub.switches.includes('--services')) return { output: project.services.map(s => s.name).join('\n'), exitCode: 0 };
+      if (sub.switches.includes('-q') || sub.switches.includes('--quiet')) return { output: '', exitCode: 0 };
+      return { output: composeConfig(project), exitCode: 0 };
+    case 'up':
+      return composeUpCommand(ctx, host, project, sub.positional, sub.switches.includes('-d') || sub.switches.includes('--detach'));
+    case 'down':
+      return composeDown(ctx, host, project);
+    case 'ps':
+      return composePs(ctx, host, project, sub.positional, sub.switches.includes('-a') || sub.switches.includes('--all'));
+    case 'logs':
+      return composeLogs(ctx, host, project, sub.positional, sub.values['--tail'] ?? sub.values['-n']);
     default:
-      return {
-        output: `docker-compose: '${subcommand}' is not a command.\nSee 'docker-compose --help'`,
-        exitCode: 1,
-      };
+      return composeLifecycle(ctx, host, project, subcommand, sub.positional);
   }
 }
 
-function updatePorts(container: ContainerState): void {
-  const portMap: Record<string, string> = {
-    'fleetcore-api': '0.0.0.0:3000->3000/tcp',
-    'fleetcore-db': '0.0.0.0:5432->5432/tcp',
-    'fleetcore-cache': '0.0.0.0:6379->6379/tcp',
-  };
-  container.ports = portMap[container.name] || '';
+function composeUpCommand(ctx: CommandContext, host: DockerHost, project: ComposeProject, services: string[], detached: boolean): CommandResult {
+  const { events, error } = composeUp(ctx.fs, host, project, services, ctx.clock);
+  const width = Math.max(0, ...events.map(e => e.resource.length));
+  const progress = events.map(e => (e.action === 'Error'
+    ? `\x1b[31m ✘ \x1b[0m${e.resource.padEnd(width)}  \x1b[31m${e.action}\x1b[0m`
+    : `\x1b[32m ✔ \x1b[0m${e.resource.padEnd(width)}  \x1b[32m${e.action}\x1b[0m`));
+  const output = [`[+] Running ${events.length}/${events.length}`, ...progress].join('\n');
+  if (error) return { output, stderr: error, exitCode: 1 };
+  if (detached) return { output, exitCode: 0 };
+
+  // Attached, compose follows the containers' output; show what they've printed so far
+  const containers = projectContainers(host, project, services);
+  return { output: `${output}\nAttaching to ${containers.map(c => c.name).join(', ')}\n${prefixedLogs(containers, ctx.clock.now())}`, exitCode: 0 };
+}
+
+function composeDown(ctx: CommandContext, host: DockerHost, project: ComposeProject): CommandResult {
+  const now = ctx.clock.now();
+  const removed = projectContainers(host, project, []).reverse();
+  for (const container of removed) {
+    stopContainer(container, now);
+    host.containers.delete(container.name);
+  }
+  const network = `${project.name}_default`;
+  const resources = removed.map(c => `Container ${c.name}`);
+  if (host.networks.delete(network)) resources.push(`Network ${network}`);
+  const width = Math.max(0, ...resources.map(r => r.length));
+  const lines = resources.map(r => `\x1b[32m ✔ \x1b[0m${r.padEnd(width)}  \x1b[32mRemoved\x1b[0m`);
+  return { output: [`[+] Running ${lines.length}/${lines.length}`, ...lines].join('\n'), exitCode: 0 };
+}
+
+function composePs(ctx: CommandContext, host: DockerHost, project: ComposeProject, services: string[], all: boolean): CommandResult {
+  const now = ctx.clock.now();
+  const rows = projectContainers(host, project, services)
+    .filter(c => all || ['running', 'restarting'].includes(status(c, now).state))
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map(c => [c.name, c.image, ENTRYPOINT, c.service, `${humanDuration(now - c.createdAt)} ago`, statusText(c, now), portsText(c, now)]);
+  return { output: table(['NAME', 'IMAGE', 'COMMAND', 'SERVICE', 'CREATED', 'STATUS', 'PORTS'], rows), exitCode: 0 };
+}
+
+function composeLogs(ctx: CommandContext, host: DockerHost, project: ComposeProject, services: string[], lines: string | undefined): CommandResult {
+  const containers = projectContainers(host, project, services);
+  return { output: prefixedLogs(containers, ctx.clock.now(), lines), exitCode: 0 };
+}
+
+/** restart, start and stop for the project's existing containers; none of them pick up changes to the file */
+function composeLifecycle(ctx: CommandContext, host: DockerHost, project: ComposeProject, action: string, services: string[]): CommandResult {
+  const now = ctx.clock.now();
+  const containers = projectContainers(host, project, services);
+  const done = { restart: 'Started', start: 'Started', stop: 'Stopped' }[action];
+  for (const container of action === 'stop' ? [...containers].reverse() : containers) {
+    if (action !== 'start') stopContainer(container, now);
+    if (action !== 'stop') startContainer(host, container, now);
+  }
+  const width = Math.max(0, ...containers.map(c => c.name.length + 10));
+  const lines = containers.map(c => `\x1b[32m ✔ \x1b[0m${`Container ${c.name}`.padEnd(width)}  \x1b[32m${done}\x1b[0m`);
+  return { output: [`[+] ${action === 'stop' ? 'Stopping' : 'Running'} ${lines.length}/${lines.length}`, ...lines].join('\n'), exitCode: 0 };
+}
+
+/** The containers created for the project's services, or just the named ones, in start order */
+function projectContainers(host: DockerHost, project: ComposeProject, services: string[]): Container[] {
+  return startOrder(project)
+    .filter(s => services.length === 0 || services.includes(s.name))
+    .map(s => host.containers.get(containerName(project, s)))
+    .filter((c): c is Container => c !== undefined && c.project === project.name);
+}
+
+function prefixedLogs(containers: Container[], now: number, lines?: string): string {
+  const width = Math.max(0, ...containers.map(c => c.name.length));
+  return containers
+    .flatMap(c => tail(containerLogs(c, now), lines).map(line => `${c.name.padEnd(width)}  | ${line}`))
+    .join('\n');
+}
+
+function statusText(container: Container, now: number): string {
+  const current = status(container, now);
+  switch (current.state) {
+    case 'created':
+      return 'Created';
+    case 'restarting':
+      return `Restarting (${current.exitCode}) ${humanDuration(now - current.exitedAt)} ago`;
+    case 'exited':
+      return `Exited (${current.exitCode}) ${humanDuration(now - current.exitedAt)} ago`;
+    case 'running': {
+      const checked = health(container, now);
+      const suffix = checked === null ? '' : checked.health === 'starting' ? ' (health: starting)' : ` (${checked.health})`;
+      return `Up ${humanDuration(now - current.since)}${suffix}`;
+    }
+  }
+}
+
+function portsText(container: Container, now: number): string {
+  if (status(container, now).state !== 'running') return '';
+  return container.spec.ports
+    .map(p => (p.published === null ? `${p.target}/tcp` : `0.0.0.0:${p.published}->${p.target}/tcp`))
+    .join(', ');
+}
+
+/** Columns padded to their widest cell with three spaces between, like Docker's tables */
+function table(header: string[], rows: string[][]): string {
+  const widths = header.map((h, i) => Math.max(h.length, ...rows.map(r => r[i].length)));
+  return [header, ...rows].map(r => r.map((cell, i) => (i === r.length - 1 ? cell : cell.padEnd(widths[i] + 3))).join('').trimEnd()).join('\n');
+}
+
+function tail(lines: string[], count: string | undefined): string[] {
+  if (count === undefined || count === 'all') return lines;
+  const n = Number(count);
+  return Number.isInteger(n) && n >= 0 ? lines.slice(Math.max(0, lines.length - n)) : lines;
+}
+
+/** Arguments split into positionals, --flag switches and the options that take a value */
+function options(argv: string[], withValues: string[]): { positional: string[]; switches: string[]; values: Record<string, string> } {
+  const positional: string[] = [];
+  const switches: string[] = [];
+  const values: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const eq = arg.indexOf('=');
+    if (arg.startsWith('--') && eq !== -1 && withValues.includes(arg.slice(0, eq))) {
+      values[arg.slice(0, eq)] = arg.slice(eq + 1);
+    } else if (withValues.includes(arg)) {
+      values[arg] = argv[++i] ?? '';
+    } else if (/^-[a-zA-Z]{2,}$/.test(arg)) {
+      switches.push(...Array.from(arg.slice(1), c => `-${c}`));
+    } else if (arg.startsWith('-') && arg !== '-') {
+      switches.push(arg);
+    } else {
+      positional.push(arg);
+    }
+  }
+  return { positional, switches, values };
 }
@@ -0,0 +1,37 @@
+import { CommandRegistry, CommandResult } from '../CommandRegistry';
+import { ParsedCommand } from '../CommandParser';
+import { CommandContext } from '../CommandContext';
+import { TextEditor } from '../editor/TextEditor';
+import { NanoEditor } from '../editor/NanoEditor';
+import { ViEditor } from '../editor/ViEditor';
+
+/** Called with the editor that should take over the screen once the command returns */
+export type EditorLauncher = (editor: TextEditor) => void;
+
+export function registerEditorCommands(registry: CommandRegistry, launch: EditorLauncher): void {
+  registry.register('nano', (cmd, ctx) => openEditor(cmd, ctx, 'nano', launch));
+  registry.register('vim', (cmd, ctx) => openEditor(cmd, ctx, 'vim', launch));
+  registry.registerAlias('vi', 'vim');
+}
+
+function openEditor(
+  cmd: ParsedCommand,
+  ctx: CommandContext,
+  name: 'nano' | 'vim',
+  launch: EditorLauncher
+): CommandResult {
+  const target = cmd.args[0];
+  const path = target ? ctx.resolvePath(target) : null;
+
+  if (path && ctx.fs.isDirectory(path, '/')) {
+    return { output: '', stderr: `${name}: ${target}: Is a directory`, exitCode: 1 };
+  }
+
+  const displayName = target || '';
+  const editor = name === 'nano'
+    ? new NanoEditor(ctx, path, displayName)
+    : new ViEditor(ctx, path, displayName);
+
+  launch(editor);
+  return { output: '', exitCode: 0 };
+}
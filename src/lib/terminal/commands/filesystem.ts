@@ -1,6 +1,9 @@
 import { CommandRegistry, CommandResult } from '../CommandRegistry';
-import { ParsedCommand } from '../CommandParser';
+import { ParsedCommand, takeOption } from '../CommandParser';
 import { CommandContext } from '../CommandContext';
+import { FSNode, describeFSError } from '../VirtualFileSystem';
+import { lookupUser, lookupGroup } from './permissions';
+import { formatOctal, parseMode } from '../FileMode';
 
 export function registerFilesystemCommands(registry: CommandRegistry): void {
   registry.register('pwd', handlePwd);
@@ -17,7 +20,12 @@ export function registerFilesystemCommands(registry: CommandRegistry): void {
   registry.register('head', handleHead);
   registry.register('tail', handleTail);
   registry.register('wc', handleWc);
+  registry.register('tee', handleTee);
   registry.register('tree', handleTree);
+  registry.register('ln', handleLn);
+  registry.register('stat', handleStat);
+  registry.register('du', handleDu);
+  registry.register('df', handleDf);
   registry.registerAlias('ll', 'ls');
 }
 
@@ -36,10 +44,13 @@ function handleCd(cmd: ParsedCommand, ctx: CommandContext): CommandResult {
   }
 
   if (!ctx.fs.exists(resolvedPath, '/')) {
-    return { output: `cd: ${target}: No such file or directory`, exitCode: 1 };
+    return { output: '', stderr: `cd: ${target}: No such file or directory`, exitCode: 1 };
   }
   if (!ctx.fs.isDirectory(resolvedPath, '/')) {
-    return { output: `cd: ${target}: Not a directory`, exitCode: 1 };
+    return { output: '', stderr: `cd: ${target}: Not a directory`, exitCode: 1 };
+  }
+  if (!ctx.fs.canAccess(resolvedPath, 'x', '/')) {
+    return { output: '', stderr: `cd: ${target}: Permission denied`, exitCode: 1 };
   }
 
   ctx.env.OLDPWD = ctx.cwd;
@@ -49,58 +60,182 @@ function handleCd(cmd: ParsedCommand, ctx: CommandContext): CommandResult {
 }
 
 function handleLs(cmd: ParsedCommand, ctx: CommandContext): CommandResult {
-  const target = cmd.args[0] || '.';
-  const showAll = cmd.flags['a'] === true || cmd.flags['la'] === true;
-  const longFormat = cmd.flags['l'] === true || cmd.flags['la'] === true
-    || cmd.rawArgs.includes('-la') || cmd.rawArgs.includes('-al');
-
-  const resolvedPath = ctx.resolvePath(target);
-  const entries = ctx.fs.listDir(resolvedPath, '/');
-
-  if (entries === null) {
-    // Check if it's a file
-    if (ctx.fs.isFile(resolvedPath, '/')) {
-      const node = ctx.fs.resolve(resolvedPath, '/');
-      if (longFormat && node) {
-        return { output: formatLongEntry(node), exitCode: 0 };
-      }
-      return { output: target, exitCode: 0 };
+  const options: LsOptions = {
+    all: cmd.flags['a'] === true,
+    long: cmd.flags['l'] === true,
+    human: cmd.flags['h'] === true,
+    byTime: cmd.flags['t'] === true,
+    bySize: cmd.flags['S'] === true,
+    reverse: cmd.flags['r'] === true,
+    recursive: cmd.flags['R'] === true,
+    directory: cmd.flags['d'] === true,
+  };
+  const targets = cmd.args.length > 0 ? cmd.args : ['.'];
+
+  const errors: string[] = [];
+  const files: FSNode[] = [];
+  const dirs: string[] = [];
+  for (const target of targets) {
+    const resolvedPath = ctx.resolvePath(target);
+    if (ctx.fs.isDirectory(resolvedPath, '/') && !options.directory) {
+      dirs.push(target);
+      continue;
+    }
+    const node = ctx.fs.lresolve(resolvedPath, '/');
+    if (!node) {
+      errors.push(`ls: cannot access '${target}': No such file or directory`);
+      continue;
     }
-    return { output: `ls: cannot access '${target}': No such file or directory`, exitCode: 2 };
+    files.push({ ...node, name: target });
   }
 
-  let filtered = entries;
-  if (!showAll) {
-    filtered = entries.filter(e => !e.name.startsWith('.'));
+  const sections: string[] = [];
+  if (files.length > 0) {
+    sections.push(formatListing(sortEntries(files, options), options, ctx).join('\n'));
   }
 
-  filtered.sort((a, b) => a.name.localeCompare(b.name));
+  const showHeaders = targets.length > 1 || options.recursive;
+  const pending = [...dirs];
+  while (pending.length > 0) {
+    const dir = pending.shift()!;
+    const entries = ctx.fs.listDir(ctx.resolvePath(dir), '/');
+    if (entries === null) {
+      errors.push(`ls: cannot open directory '${dir}': ${describeFSError(ctx.fs.lastError)}`);
+      continue;
+    }
 
-  if (longFormat) {
-    const lines = [`total ${filtered.length}`];
-    for (const entry of filtered) {
-      lines.push(formatLongEntry(entry));
+    const visible = sortEntries(options.all ? entries : entries.filter(e => !e.name.startsWith('.')), options);
+    const lines = showHeaders ? [`${dir}:`] : [];
+    if (options.long) lines.push(`total ${formatBlocks(visible.reduce((sum, e) => sum + diskUsage(e), 0), options.human)}`);
+    lines.push(...formatListing(visible, options, ctx));
+    sections.push(lines.join('\n'));
+
+    if (options.recursive) {
+      const subdirs = visible
+        .filter(e => e.type === 'directory' && e.name !== '.' && e.name !== '..')
+        .map(e => (dir.endsWith('/') ? dir : dir + '/') + e.name);
+      pending.unshift(...subdirs);
     }
-    return { output: lines.join('\n'), exitCode: 0 };
   }
 
-  const names = filtered.map(e => {
-    if (e.type === 'directory') return `\x1b[34m${e.name}\x1b[0m`;
-    if (e.name.endsWith('.sh') || e.permissions?.includes('x')) return `\x1b[32m${e.name}\x1b[0m`;
-    return e.name;
+  return {
+    output: sections.filter(Boolean).join('\n\n'),
+    stderr: errors.join('\n'),
+    exitCode: errors.length > 0 ? 2 : 0,
+  };
+}
+
+interface LsOptions {
+  all: boolean;
+  long: boolean;
+  human: boolean;
+  byTime: boolean;
+  bySize: boolean;
+  reverse: boolean;
+  recursive: boolean;
+  directory: boolean;
+}
+
+function sortEntries(entries: FSNode[], options: LsOptions): FSNode[] {
+  const sorted = [...entries].sort((a, b) => {
+    if (options.bySize) return nodeSize(b) - nodeSize(a) || a.name.localeCompare(b.name);
+    if (options.byTime) return (b.mtime ?? 0) - (a.mtime ?? 0) || a.name.localeCompare(b.name);
+    return a.name.localeCompare(b.name);
+  });
+  return options.reverse ? sorted.reverse() : sorted;
+}
+
+function formatListing(entries: FSNode[], options: LsOptions, ctx: CommandContext): string[] {
+  if (!options.long) {
+    const names = entries.map(colorName);
+    return names.length > 0 ? [names.join('  ')] : [];
+  }
+
+  const sizes = entries.map(e => (options.human ? humanSize(nodeSize(e)) : String(nodeSize(e))));
+  const width = (values: string[]) => Math.max(0, ...values.map(v => v.length));
+  const linkWidth = width(entries.map(e => String(linkCount(e))));
+  const ownerWidth = width(entries.map(e => e.owner ?? 'root'));
+  const groupWidth = width(entries.map(e => e.group ?? 'root'));
+  const sizeWidth = width(sizes);
+  const now = ctx.fs.now();
+
+  return entries.map((entry, i) => {
+    const perms = entry.permissions || (entry.type === 'directory' ? 'drwxr-xr-x' : '-rw-r--r--');
+    const name = entry.type === 'symlink' ? `${colorName(entry)} -> ${entry.target ?? ''}` : colorName(entry);
+    return [
+      perms,
+      String(linkCount(entry)).padStart(linkWidth),
+      (entry.owner ?? 'root').padEnd(ownerWidth),
+      (entry.group ?? 'root').padEnd(groupWidth),
+      sizes[i].padStart(sizeWidth),
+      formatLsDate(entry.mtime ?? now, now),
+      name,
+    ].join(' ');
   });
+}
 
-  // Format in columns
-  if (names.length === 0) return { output: '', exitCode: 0 };
-  return { output: names.join('  '), exitCode: 0 };
+function colorName(entry: FSNode): string {
+  if (entry.type === 'directory') return `\x1b[34m${entry.name}\x1b[0m`;
+  if (entry.type === 'symlink') return `\x1b[36m${entry.name}\x1b[0m`;
+  if (entry.name.endsWith('.sh') || entry.permissions?.slice(1).includes('x')) return `\x1b[32m${entry.name}\x1b[0m`;
+  return entry.name;
 }
 
-function formatLongEntry(entry: import('../VirtualFileSystem').FSNode): string {
-  const perms = entry.permissions || (entry.type === 'directory' ? 'drwxr-xr-x' : '-rw-r--r--');
-  const size = entry.type === 'file' ? (entry.content?.length || 0).toString() : '4096';
-  const date = 'Jan 15 08:32';
-  const name = entry.type === 'directory' ? `\x1b[34m${entry.name}\x1b[0m` : entry.name;
-  return `${perms} 1 candidate candidate ${size.padStart(6)} ${date} ${name}`;
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const SIX_MONTHS = 183 * 24 * 60 * 60 * 1000;
+
+/** `Jan 15 08:32` for recent files, `Jan 15  2024` for anything older than six months (or in the future) */
+function formatLsDate(time: number, now: number): string {
+  const date = new Date(time);
+  const day = `${MONTHS[date.getUTCMonth()]} ${String(date.getUTCDate()).padStart(2)}`;
+  if (time > now || now - time > SIX_MONTHS) {
+    return `${day}  ${date.getUTCFullYear()}`;
+  }
+  const hours = String(date.getUTCHours()).padStart(2, '0');
+  const minutes = String(date.getUTCMinutes()).padStart(2, '0');
+  return `${day} ${hours}:${minutes}`;
+}
+
+/** Apparent size in bytes, as `ls -l` shows it */
+function nodeSize(node: FSNode): number {
+  if (node.type === 'directory') return 4096;
+  if (node.type === 'symlink') return (node.target ?? '').length;
+  return node.content?.length ?? 0;
+}
+
+/** A directory is linked from its parent, its own `.` and each subdirectory's `..` */
+function linkCount(node: FSNode): number {
+  if (node.type !== 'directory') return node.nlink ?? 1;
+  let subdirs = 0;
+  for (const child of node.children?.values() ?? []) {
+    if (child.type === 'directory') subdirs++;
+  }
+  return 2 + subdirs;
+}
+
+/** Space allocated on disk in 1K blocks (4K filesystem blocks; empty files and symlinks take none) */
+function diskUsage(node: FSNode): number {
+  if (node.type === 'directory') return 4;
+  if (node.type === 'symlink') return 0;
+  return Math.ceil(nodeSize(node) / 4096) * 4;
+}
+
+/** Human readable size the way coreutils rounds it: 512, 4.0K, 12K, 1.5M */
+function humanSize(bytes: number): string {
+  const units = ['K', 'M', 'G', 'T'];
+  if (bytes < 1024) return String(bytes);
+  let value = bytes;
+  let unit = -1;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  const rounded = value < 10 ? (Math.ceil(value * 10) / 10).toFixed(1) : String(Math.ceil(value));
+  return rounded + units[unit];
+}
+
+function formatBlocks(kilobytes: number, human: boolean): string {
+  return human ? humanSize(kilobytes * 1024) : String(kilobytes);
 }
 
 function handleCat(cmd: ParsedCommand, ctx: CommandContext, stdin?: string): CommandResult {
@@ -114,10 +249,7 @@ function handleCat(cmd: ParsedCommand, ctx: CommandContext, stdin?: string): Com
     const resolvedPath = ctx.resolvePath(arg);
     const content = ctx.fs.readFile(resolvedPath, '/');
     if (content === null) {
-      if (ctx.fs.isDirectory(resolvedPath, '/')) {
-        return { output: `cat: ${arg}: Is a directory`, exitCode: 1 };
-      }
-      return { output: `cat: ${arg}: No such file or directory`, exitCode: 1 };
+      return { output: '', stderr: `cat: ${arg}: ${describeFSError(ctx.fs.lastError)}`, exitCode: 1 };
     }
     outputs.push(content);
   }
@@ -126,7 +258,7 @@ function handleCat(cmd: ParsedCommand, ctx: CommandContext, stdin?: string): Com
 
 function handleMkdir(cmd: ParsedCommand, ctx: CommandContext): CommandResult {
   if (cmd.args.length === 0) {
-    return { output: 'mkdir: missing operand', exitCode: 1 };
+    return { output: '', stderr: 'mkdir: missing operand', exitCode: 1 };
   }
 
   const recursive = cmd.flags['p'] === true;
@@ -134,32 +266,49 @@ function handleMkdir(cmd: ParsedCommand, ctx: CommandContext): CommandResult {
   for (const arg of cmd.args) {
     const resolvedPath = ctx.resolvePath(arg);
     if (!ctx.fs.mkdir(resolvedPath, '/', recursive)) {
-      if (ctx.fs.exists(resolvedPath, '/')) {
-        return { output: `mkdir: cannot create directory '${arg}': File exists`, exitCode: 1 };
-      }
-      return { output: `mkdir: cannot create directory '${arg}': No such file or directory`, exitCode: 1 };
+      return { output: '', stderr: `mkdir: cannot create directory '${arg}': ${describeFSError(ctx.fs.lastError)}`, exitCode: 1 };
     }
   }
   return { output: '', exitCode: 0 };
 }
 
 function handleTouch(cmd: ParsedCommand, ctx: CommandContext): CommandResult {
+  const date = takeOption(cmd, 'd') ?? (typeof cmd.flags['date'] === 'string' ? cmd.flags['date'] : undefined);
+  const noCreate = cmd.flags['c'] === true || cmd.flags['no-create'] === true;
   if (cmd.args.length === 0) {
-    return { output: 'touch: missing file operand', exitCode: 1 };
+    return { output: '', stderr: 'touch: missing file operand', exitCode: 1 };
+  }
+
+  const time = date === undefined ? ctx.fs.now() : parseDate(date);
+  if (time === null) {
+    return { output: '', stderr: `touch: invalid date format '${date}'`, exitCode: 1 };
   }
 
   for (const arg of cmd.args) {
     const resolvedPath = ctx.resolvePath(arg);
     if (!ctx.fs.exists(resolvedPath, '/')) {
-      ctx.fs.writeFile(resolvedPath, '', '/');
+      if (noCreate) continue;
+      if (!ctx.fs.writeFile(resolvedPath, '', '/')) {
+        return { output: '', stderr: `touch: cannot touch '${arg}': ${describeFSError(ctx.fs.lastError)}`, exitCode: 1 };
+      }
+    }
+    if (!ctx.fs.utimes(resolvedPath, time, '/')) {
+      return { output: '', stderr: `touch: setting times of '${arg}': ${describeFSError(ctx.fs.lastError)}`, exitCode: 1 };
     }
   }
   return { output: '', exitCode: 0 };
 }
 
+/** Dates accepted by `touch -d`: anything Date.parse understands, or `@<epoch seconds>` */
+function parseDate(value: string): number | null {
+  if (/^@\d+$/.test(value)) return parseInt(value.slice(1), 10) * 1000;
+  const time = Date.parse(value);
+  return isNaN(time) ? null : time;
+}
+
 function handleRm(cmd: ParsedCommand, ctx: CommandContext): CommandResult {
   if (cmd.args.length === 0) {
-    return { output: 'rm: missing operand', exitCode: 1 };
+    return { output: '', stderr: 'rm: missing operand', exitCode: 1 };
   }
 
   const recursive = cmd.flags['r'] === true || cmd.flags['R'] === true || cmd.flags['f'] === true;
@@ -169,12 +318,12 @@ function handleRm(cmd: ParsedCommand, ctx: CommandContext): CommandResult {
     const resolvedPath = ctx.resolvePath(arg);
     if (!ctx.fs.exists(resolvedPath, '/')) {
       if (!force) {
-        return { output: `rm: cannot remove '${arg}': No such file or directory`, exitCode: 1 };
+        return { output: '', stderr: `rm: cannot remove '${arg}': No such file or directory`, exitCode: 1 };
       }
       continue;
     }
     if (!ctx.fs.rm(resolvedPath, '/', recursive)) {
-      return { output: `rm: cannot remove '${arg}': Is a directory`, exitCode: 1 };
+      return { output: '', stderr: `rm: cannot remove '${arg}': ${describeFSError(ctx.fs.lastError)}`, exitCode: 1 };
     }
   }
   return { output: '', exitCode: 0 };
@@ -182,7 +331,7 @@ function handleRm(cmd: ParsedCommand, ctx: CommandContext): CommandResult {
 
 function handleCp(cmd: ParsedCommand, ctx: CommandContext): CommandResult {
   if (cmd.args.length < 2) {
-    return { output: 'cp: missing file operand', exitCode: 1 };
+    return { output: '', stderr: 'cp: missing file operand', exitCode: 1 };
   }
 
   const src = ctx.resolvePath(cmd.args[0]);
@@ -190,15 +339,16 @@ function handleCp(cmd: ParsedCommand, ctx: CommandContext): CommandResult {
   const content = ctx.fs.readFile(src, '/');
 
   if (content === null) {
-    return { output: `cp: cannot stat '${cmd.args[0]}': No such file or directory`, exitCode: 1 };
+    const reason = ctx.fs.lastError === 'ENOENT'
+      ? `cannot stat '${cmd.args[0]}': No such file or directory`
+      : `cannot open '${cmd.args[0]}' for reading: ${describeFSError(ctx.fs.lastError)}`;
+    return { output: '', stderr: `cp: ${reason}`, exitCode: 1 };
   }
 
   // If dest is a directory, copy into it
-  if (ctx.fs.isDirectory(dest, '/')) {
-    const srcName = src.split('/').pop()!;
-    ctx.fs.writeFile(dest + '/' + srcName, content, '/');
-  } else {
-    ctx.fs.writeFile(dest, content, '/');
+  const target = ctx.fs.isDirectory(dest, '/') ? dest + '/' + src.split('/').pop()! : dest;
+  if (!ctx.fs.writeFile(target, content, '/')) {
+    return { output: '', stderr: `cp: cannot create regular file '${cmd.args[1]}': ${describeFSError(ctx.fs.lastError)}`, exitCode: 1 };
   }
 
   return { output: '', exitCode: 0 };
@@ -206,7 +356,7 @@ function handleCp(cmd: ParsedCommand, ctx: CommandContext): CommandResult {
 
 function handleMv(cmd: ParsedCommand, ctx: CommandContext): CommandResult {
   if (cmd.args.length < 2) {
-    return { output: 'mv: missing file operand', exitCode: 1 };
+    return { output: '', stderr: 'mv: missing file operand', exitCode: 1 };
   }
 
   const src = ctx.resolvePath(cmd.args[0]);
@@ -214,27 +364,29 @@ function handleMv(cmd: ParsedCommand, ctx: CommandContext): CommandResult {
   const content = ctx.fs.readFile(src, '/');
 
   if (content === null) {
-    return { output: `mv: cannot stat '${cmd.args[0]}': No such file or directory`, exitCode: 1 };
+    return { output: '', stderr: `mv: cannot stat '${cmd.args[0]}': ${describeFSError(ctx.fs.lastError)}`, exitCode: 1 };
   }
 
-  if (ctx.fs.isDirectory(dest, '/')) {
-    const srcName = src.split('/').pop()!;
-    ctx.fs.writeFile(dest + '/' + srcName, content, '/');
-  } else {
-    ctx.fs.writeFile(dest, content, '/');
+  const target = ctx.fs.isDirectory(dest, '/') ? dest + '/' + src.split('/').pop()! : dest;
+  if (!ctx.fs.writeFile(target, content, '/')) {
+    return { output: '', stderr: `mv: cannot move '${cmd.args[0]}' to '${cmd.args[1]}': ${describeFSError(ctx.fs.lastError)}`, exitCode: 1 };
+  }
+  if (!ctx.fs.rm(src, '/')) {
+    const error = describeFSError(ctx.fs.lastError);
+    ctx.fs.rm(target, '/');
+    return { output: '', stderr: `mv: cannot move '${cmd.args[0]}' to '${cmd.args[1]}': ${error}`, exitCode: 1 };
   }
-
-  ctx.fs.rm(src, '/');
   return { output: '', exitCode: 0 };
 }
 
 function handleFind(cmd: ParsedCommand, ctx: CommandContext): CommandResult {
-  const basePath = cmd.args[0] || '.';
+  // find's predicates look like short flags, so read them from the raw argv
+  const basePath = cmd.argv[0] && !cmd.argv[0].startsWith('-') ? cmd.argv[0] : '.';
   let namePattern = '*';
 
-  const nameIdx = cmd.args.indexOf('-name');
-  if (nameIdx !== -1 && nameIdx + 1 < cmd.args.length) {
-    namePattern = cmd.args[nameIdx + 1];
+  const nameIdx = cmd.argv.indexOf('-name');
+  if (nameIdx !== -1 && nameIdx + 1 < cmd.argv.length) {
+    namePattern = cmd.argv[nameIdx + 1];
   }
 
   const resolvedBase = ctx.resolvePath(basePath);
@@ -247,7 +399,7 @@ function handleGrep(cmd: ParsedCommand, ctx: CommandContext): CommandResult {
   const caseInsensitive = cmd.flags['i'] === true;
 
   if (cmd.args.length < 2 && !recursive) {
-    return { output: 'Usage: grep [OPTIONS] PATTERN FILE...', exitCode: 2 };
+    return { output: '', stderr: 'Usage: grep [OPTIONS] PATTERN FILE...', exitCode: 2 };
   }
 
   let pattern = cmd.args[0];
@@ -256,8 +408,13 @@ function handleGrep(cmd: ParsedCommand, ctx: CommandContext): CommandResult {
   const files = cmd.args.slice(1);
   const allResults: string[] = [];
 
+  const errors: string[] = [];
   for (const file of files.length > 0 ? files : ['.']) {
     const resolvedPath = ctx.resolvePath(file);
+    if (ctx.fs.isFile(resolvedPath, '/') && !ctx.fs.canAccess(resolvedPath, 'r', '/')) {
+      errors.push(`grep: ${file}: Permission denied`);
+      continue;
+    }
     const results = ctx.fs.grep(pattern, resolvedPath, '/', recursive);
     for (const r of results) {
       if (files.length > 1 || recursive) {
@@ -270,32 +427,33 @@ function handleGrep(cmd: ParsedCommand, ctx: CommandContext): CommandResult {
 
   return {
     output: allResults.join('\n'),
-    exitCode: allResults.length > 0 ? 0 : 1,
+    stderr: errors.join('\n'),
+    exitCode: errors.length > 0 ? 2 : allResults.length > 0 ? 0 : 1,
   };
 }
 
 function handleHead(cmd: ParsedCommand, ctx: CommandContext, stdin?: string): CommandResult {
-  const lines = parseInt(cmd.flags['n'] as string) || 10;
+  const lines = parseInt(takeOption(cmd, 'n') ?? '') || 10;
 
   if (cmd.args.length === 0 && stdin) {
     return { output: stdin.split('\n').slice(0, lines).join('\n'), exitCode: 0 };
   }
 
   if (cmd.args.length === 0) {
-    return { output: 'head: missing file operand', exitCode: 1 };
+    return { output: '', stderr: 'head: missing file operand', exitCode: 1 };
   }
 
   const resolvedPath = ctx.resolvePath(cmd.args[0]);
   const content = ctx.fs.readFile(resolvedPath, '/');
   if (content === null) {
-    return { output: `head: cannot open '${cmd.args[0]}' for reading: No such file or directory`, exitCode: 1 };
+    return { output: '', stderr: `head: cannot open '${cmd.args[0]}' for reading: ${describeFSError(ctx.fs.lastError)}`, exitCode: 1 };
   }
 
   return { output: content.split('\n').slice(0, lines).join('\n'), exitCode: 0 };
 }
 
 function handleTail(cmd: ParsedCommand, ctx: CommandContext, stdin?: string): CommandResult {
-  const lines = parseInt(cmd.flags['n'] as string) || 10;
+  const lines = parseInt(takeOption(cmd, 'n') ?? '') || 10;
 
   if (cmd.args.length === 0 && stdin) {
     const allLines = stdin.split('\n');
@@ -303,13 +461,13 @@ function handleTail(cmd: ParsedCommand, ctx: CommandContext, stdin?: string): Co
   }
 
   if (cmd.args.length === 0) {
-    return { output: 'tail: missing file operand', exitCode: 1 };
+    return { output: '', stderr: 'tail: missing file operand', exitCode: 1 };
   }
 
   const resolvedPath = ctx.resolvePath(cmd.args[0]);
   const content = ctx.fs.readFile(resolvedPath, '/');
   if (content === null) {
-    return { output: `tail: cannot open '${cmd.args[0]}' for reading: No such file or directory`, exitCode: 1 };
+    return { output: '', stderr: `tail: cannot open '${cmd.args[0]}' for reading: ${describeFSError(ctx.fs.lastError)}`, exitCode: 1 };
   }
 
   const allLines = content.split('\n');
@@ -318,7 +476,7 @@ function handleTail(cmd: ParsedCommand, ctx: CommandContext, stdin?: string): Co
 
 function handleWc(cmd: ParsedCommand, ctx: CommandContext, stdin?: string): CommandResult {
   const getText = (): { text: string; name: string } | null => {
-    if (cmd.args.length === 0 && stdin) return { text: stdin, name: '' };
+    if (cmd.args.length === 0 && stdin !== undefined) return { text: stdin, name: '' };
     if (cmd.args.length === 0) return null;
     const resolvedPath = ctx.resolvePath(cmd.args[0]);
     const content = ctx.fs.readFile(resolvedPath, '/');
@@ -328,11 +486,12 @@ function handleWc(cmd: ParsedCommand, ctx: CommandContext, stdin?: string): Comm
 
   const result = getText();
   if (!result) {
-    return { output: cmd.args.length > 0 ? `wc: ${cmd.args[0]}: No such file or directory` : '', exitCode: 1 };
+    if (cmd.args.length === 0) return { output: '', exitCode: 1 };
+    return { output: '', stderr: `wc: ${cmd.args[0]}: ${describeFSError(ctx.fs.lastError)}`, exitCode: 1 };
   }
 
   const { text, name } = result;
-  const lineCount = text.split('\n').length - (text.endsWith('\n') ? 1 : 0);
+  const lineCount = text ? text.split('\n').length - (text.endsWith('\n') ? 1 : 0) : 0;
   const wordCount = text.split(/\s+/).filter(Boolean).length;
   const charCount = text.length;
 
@@ -343,7 +502,25 @@ function handleWc(cmd: ParsedCommand, ctx: CommandContext, stdin?: string): Comm
   return { output: `  ${lineCount}  ${wordCount} ${charCount} ${name}`.trim(), exitCode: 0 };
 }
 
+function handleTee(cmd: ParsedCommand, ctx: CommandContext, stdin?: string): CommandResult {
+  const text = stdin ?? '';
+  const append = cmd.flags['a'] === true || cmd.flags['append'] === true;
+  const content = text ? text + '\n' : '';
+  const errors: string[] = [];
+
+  for (const arg of cmd.args) {
+    const resolvedPath = ctx.resolvePath(arg);
+    const ok = append
+      ? ctx.fs.appendFile(resolvedPath, content, '/') || ctx.fs.writeFile(resolvedPath, content, '/')
+      : ctx.fs.writeFile(resolvedPath, content, '/');
+    if (!ok) errors.push(`tee: ${arg}: ${describeFSError(ctx.fs.lastError)}`);
+  }
+
+  return { output: text, stderr: errors.join('\n'), exitCode: errors.length > 0 ? 1 : 0 };
+}
+
 function handleTree(cmd: ParsedCommand, ctx: CommandContext): CommandResult {
+  const maxDepth = parseInt(takeOption(cmd, 'L') ?? '') || 4;
   const target = cmd.args[0] || '.';
   const resolvedPath = ctx.resolvePath(target);
   const node = ctx.fs.resolve(resolvedPath, '/');
@@ -355,11 +532,10 @@ function handleTree(cmd: ParsedCommand, ctx: CommandContext): CommandResult {
   const lines: string[] = [resolvedPath === '/' ? '/' : target];
   let dirCount = 0;
   let fileCount = 0;
-  const maxDepth = parseInt(cmd.flags['L'] as string) || 4;
 
   buildTree(node, '', 0);
 
-  function buildTree(n: import('../VirtualFileSystem').FSNode, prefix: string, depth: number) {
+  function buildTree(n: FSNode, prefix: string, depth: number) {
     if (!n.children || depth >= maxDepth) return;
     const entries = Array.from(n.children.values())
       .filter(e => !e.name.startsWith('.'))
@@ -384,3 +560,269 @@ function handleTree(cmd: ParsedCommand, ctx: CommandContext): CommandResult {
   lines.push(`${dirCount} directories, ${fileCount} files`);
   return { output: lines.join('\n'), exitCode: 0 };
 }
+
+function handleLn(cmd: ParsedCommand, ctx: CommandContext): CommandResult {
+  const symbolic = cmd.flags['s'] === true || cmd.flags['symbolic'] === true;
+  const force = cmd.flags['f'] === true || cmd.flags['force'] === true;
+  if (cmd.args.length === 0) {
+    return { output: '', stderr: 'ln: missing file operand', exitCode: 1 };
+  }
+
+  // ln TARGET (link in cwd), ln TARGET LINK, or ln TARGET... DIRECTORY
+  const targets = cmd.args.length === 1 ? cmd.args : cmd.args.slice(0, -1);
+  const destination = cmd.args.length === 1 ? '.' : cmd.args[cmd.args.length - 1];
+  const intoDir = ctx.fs.isDirectory(ctx.resolvePath(destination), '/');
+  if (targets.length > 1 && !intoDir) {
+    return { output: '', stderr: `ln: target '${destination}' is not a directory`, exitCode: 1 };
+  }
+
+  const errors: string[] = [];
+  for (const target of targets) {
+    const baseName = target.replace(/\/+$/, '').split('/').pop() || target;
+    const linkName = intoDir ? `${destination.replace(/\/+$/, '')}/${baseName}` : destination;
+    const linkPath = ctx.resolvePath(linkName);
+
+    if (force && ctx.fs.lresolve(linkPath, '/')?.type !== 'directory') {
+      ctx.fs.rm(linkPath, '/');
+    }
+
+    if (symbolic) {
+      if (!ctx.fs.symlink(target, linkPath, '/')) {
+        errors.push(`ln: failed to create symbolic link '${linkName}': ${describeFSError(ctx.fs.lastError)}`);
+      }
+      continue;
+    }
+
+    const targetPath = ctx.resolvePath(target);
+    if (!ctx.fs.exists(targetPath, '/')) {
+      errors.push(`ln: failed to access '${target}': No such file or directory`);
+    } else if (ctx.fs.isDirectory(targetPath, '/')) {
+      errors.push(`ln: ${target}: hard link not allowed for directory`);
+    } else if (!ctx.fs.link(targetPath, linkPath, '/')) {
+      errors.push(`ln: failed to create hard link '${linkName}' => '${target}': ${describeFSError(ctx.fs.lastError)}`);
+    }
+  }
+
+  return { output: '', stderr: errors.join('\n'), exitCode: errors.length > 0 ? 1 : 0 };
+}
+
+function handleStat(cmd: ParsedCommand, ctx: CommandContext): CommandResult {
+  const format = takeOption(cmd, 'c') ?? (typeof cmd.flags['format'] === 'string' ? cmd.flags['format'] : undefined);
+  const dereference = cmd.flags['L'] === true || cmd.flags['dereference'] === true;
+  if (cmd.args.length === 0) {
+    return { output: '', stderr: 'stat: missing operand', exitCode: 1 };
+  }
+
+  const outputs: string[] = [];
+  const errors: string[] = [];
+  for (const arg of cmd.args) {
+    const resolvedPath = ctx.resolvePath(arg);
+    const node = dereference ? ctx.fs.resolve(resolvedPath, '/') : ctx.fs.lresolve(resolvedPath, '/');
+    if (!node) {
+      errors.push(`stat: cannot statx '${arg}': No such file or directory`);
+      continue;
+    }
+    const info = describeNode(node, arg, ctx);
+    outputs.push(format !== undefined ? expandStatFormat(format, info) : formatStat(info));
+  }
+
+  return { output: outputs.join('\n'), stderr: errors.join('\n'), exitCode: errors.length > 0 ? 1 : 0 };
+}
+
+interface StatInfo {
+  node: FSNode;
+  name: string;
+  size: number;
+  mode: number;
+  permissions: string;
+  fileType: string;
+  uid: number;
+  gid: number;
+  owner: string;
+  group: string;
+}
+
+function describeNode(node: FSNode, name: string, ctx: CommandContext): StatInfo {
+  const permissions = node.permissions || (node.type === 'directory' ? 'drwxr-xr-x' : '-rw-r--r--');
+  const size = nodeSize(node);
+  const owner = node.owner ?? 'root';
+  const group = node.group ?? 'root';
+  const fileType = node.type === 'directory' ? 'directory'
+    : node.type === 'symlink' ? 'symbolic link'
+    : size === 0 ? 'regular empty file' : 'regular file';
+
+  return {
+    node,
+    name,
+    size,
+    mode: parseMode(permissions),
+    permissions,
+    fileType,
+    uid: lookupUser(ctx.fs, owner)?.uid ?? 0,
+    gid: lookupGroup(ctx.fs, group)?.gid ?? 0,
+    owner,
+    group,
+  };
+}
+
+function formatStat(info: StatInfo): string {
+  const { node } = info;
+  const name = node.type === 'symlink' ? `${info.name} -> ${node.target ?? ''}` : info.name;
+  const blocks = diskUsage(node) * 2;
+  return [
+    `  File: ${name}`,
+    `  Size: ${String(info.size).padEnd(10)}\tBlocks: ${String(blocks).padEnd(10)} IO Block: 4096   ${info.fileType}`,
+    `Device: 801h/2049d\tInode: ${String(node.inode ?? 0).padEnd(11)} Links: ${linkCount(node)}`,
+    `Access: (${formatOctal(info.mode)}/${info.permissions})  Uid: (${String(info.uid).padStart(5)}/${info.owner.padStart(8)})   Gid: (${String(info.gid).padStart(5)}/${info.group.padStart(8)})`,
+    `Access: ${formatStatDate(node.atime ?? 0)}`,
+    `Modify: ${formatStatDate(node.mtime ?? 0)}`,
+    `Change: ${formatStatDate(node.ctime ?? 0)}`,
+    ` Birth: -`,
+  ].join('\n');
+}
+
+/** Expand a `stat -c` format string */
+function expandStatFormat(format: string, info: StatInfo): string {
+  const { node } = info;
+  return format.replace(/%(.)/g, (match, spec: string) => {
+    switch (spec) {
+      case 'n': return info.name;
+      case 'N': return node.type === 'symlink' ? `'${info.name}' -> '${node.target ?? ''}'` : `'${info.name}'`;
+      case 's': return String(info.size);
+      case 'b': return String(diskUsage(node) * 2);
+      case 'a': return (info.mode & 0o7777).toString(8);
+      case 'A': return info.permissions;
+      case 'F': return info.fileType;
+      case 'u': return String(info.uid);
+      case 'U': return info.owner;
+      case 'g': return String(info.gid);
+      case 'G': return info.group;
+      case 'i': return String(node.inode ?? 0);
+      case 'h': return String(linkCount(node));
+      case 'x': return formatStatDate(node.atime ?? 0);
+      case 'X': return String(Math.floor((node.atime ?? 0) / 1000));
+      case 'y': return formatStatDate(node.mtime ?? 0);
+      case 'Y': return String(Math.floor((node.mtime ?? 0) / 1000));
+      case 'z': return formatStatDate(node.ctime ?? 0);
+      case 'Z': return String(Math.floor((node.ctime ?? 0) / 1000));
+      case '%': return '%';
+      default: return match;
+    }
+  });
+}
+
+/** `2024-01-15 08:32:00.000000000 +0000`; the simulated machine runs on UTC */
+function formatStatDate(time: number): string {
+  const iso = new Date(time).toISOString();
+  return `${iso.slice(0, 10)} ${iso.slice(11, 19)}.${iso.slice(20, 23)}000000 +0000`;
+}
+
+function handleDu(cmd: ParsedCommand, ctx: CommandContext): CommandResult {
+  const summarize = cmd.flags['s'] === true || cmd.flags['summarize'] === true;
+  const all = cmd.flags['a'] === true || cmd.flags['all'] === true;
+  const human = cmd.flags['h'] === true || cmd.flags['human-readable'] === true;
+  const showTotal = cmd.flags['c'] === true || cmd.flags['total'] === true;
+  const targets = cmd.args.length > 0 ? cmd.args : ['.'];
+
+  const lines: string[] = [];
+  const errors: string[] = [];
+  // Hard links are only counted once, as du does
+  const seen = new Set<number>();
+  let total = 0;
+
+  const walk = (path: string, display: string, depth: number): number => {
+    const node = ctx.fs.lresolve(path, '/');
+    if (!node) return 0;
+    if (node.inode !== undefined) {
+      if (seen.has(node.inode)) return 0;
+      seen.add(node.inode);
+    }
+
+    let size = diskUsage(node);
+    if (node.type === 'directory') {
+      const entries = ctx.fs.listDir(path, '/');
+      if (entries === null) {
+        errors.push(`du: cannot read directory '${display}': ${describeFSError(ctx.fs.lastError)}`);
+      } else {
+        for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+          size += walk(`${path === '/' ? '' : path}/${entry.name}`, `${display.replace(/\/+$/, '')}/${entry.name}`, depth + 1);
+        }
+      }
+    }
+
+    const listed = depth === 0 || (!summarize && (node.type === 'directory' || all));
+    if (listed) lines.push(`${formatBlocks(size, human)}\t${display}`);
+    return size;
+  };
+
+  for (const target of targets) {
+    const resolvedPath = ctx.resolvePath(target);
+    if (!ctx.fs.exists(resolvedPath, '/')) {
+      errors.push(`du: cannot access '${target}': No such file or directory`);
+      continue;
+    }
+    total += walk(resolvedPath, target, 0);
+  }
+  if (showTotal) lines.push(`${formatBlocks(total, human)}\ttotal`);
+
+  return { output: lines.join('\n'), stderr: errors.join('\n'), exitCode: errors.length > 0 ? 1 : 0 };
+}
+
+/** The container's disk: a fixed-size overlay whose usage grows with what's written to the VFS */
+const DISK_BLOCKS = 61255492;
+const BASE_USED_BLOCKS = 18234560;
+const TMPFS_BLOCKS = 65536;
+
+function handleDf(cmd: ParsedCommand, ctx: CommandContext): CommandResult {
+  const human = cmd.flags['h'] === true || cmd.flags['human-readable'] === true;
+  const used = BASE_USED_BLOCKS + ctx.fs.runAs('root', () => treeUsage(ctx.fs.resolve('/')));
+
+  const mounts = [
+    { fs: 'overlay', size: DISK_BLOCKS, used, mount: '/' },
+    { fs: 'tmpfs', size: TMPFS_BLOCKS, used: 0, mount: '/dev' },
+    { fs: 'shm', size: TMPFS_BLOCKS, used: 0, mount: '/dev/shm' },
+  ];
+
+  // With operands, show only the filesystem each one lives on
+  let rows = mounts;
+  if (cmd.args.length > 0) {
+    rows = [];
+    for (const arg of cmd.args) {
+      const resolvedPath = ctx.resolvePath(arg);
+      if (!ctx.fs.exists(resolvedPath, '/')) {
+        return { output: '', stderr: `df: ${arg}: No such file or directory`, exitCode: 1 };
+      }
+      const mount = [...mounts].reverse().find(m => resolvedPath === m.mount || resolvedPath.startsWith(m.mount.replace(/\/$/, '') + '/'))!;
+      if (!rows.includes(mount)) rows.push(mount);
+    }
+  }
+
+  const table = [[
+    'Filesystem', human ? 'Size' : '1K-blocks', 'Used', human ? 'Avail' : 'Available', 'Use%', 'Mounted on',
+  ]];
+  for (const row of rows) {
+    const available = row.size - row.used;
+    table.push([
+      row.fs,
+      formatBlocks(row.size, human),
+      formatBlocks(row.used, human),
+      formatBlocks(available, human),
+      `${Math.ceil((row.used / row.size) * 100)}%`,
+      row.mount,
+    ]);
+  }
+
+  const widths = table[0].map((_, col) => Math.max(...table.map(r => r[col].length)));
+  const output = table.map(r =>
+    r.map((cell, col) => (col === 0 || col === r.length - 1 ? cell.padEnd(widths[col]) : cell.padStart(widths[col]))).join(' ').trimEnd()
+  );
+  return { output: output.join('\n'), exitCode: 0 };
+}
+
+function treeUsage(node: FSNode | null, seen = new Set<number>()): number {
+  if (!node || (node.inode !== undefined && seen.has(node.inode))) return 0;
+  if (node.inode !== undefined) seen.add(node.inode);
+  let size = diskUsage(node);
+  for (const child of node.children?.values() ?? []) size += treeUsage(child, seen);
+  return size;
+}
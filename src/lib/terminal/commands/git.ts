@@ -1,6 +1,7 @@
 import { CommandRegistry, CommandResult } from '../CommandRegistry';
-import { ParsedCommand } from '../CommandParser';
+import { ParsedCommand, takeOption } from '../CommandParser';
 import { CommandContext } from '../CommandContext';
+import type { VirtualFileSystem } from '../VirtualFileSystem';
 
 interface GitState {
   branch: string;
@@ -10,19 +11,33 @@ interface GitState {
   initialized: boolean;
 }
 
-const gitState: GitState = {
-  branch: 'main',
-  stagedFiles: [],
-  modifiedFiles: [],
-  commits: [
-    { hash: 'a3f2e1d', message: 'feat: add vehicle tracking endpoints', author: 'dev@fleetcore.io', date: '2024-01-14 16:30:00 +0000' },
-    { hash: 'b4c3d2e', message: 'fix: resolve Redis connection timeout', author: 'dev@fleetcore.io', date: '2024-01-14 14:15:00 +0000' },
-    { hash: 'c5d4e3f', message: 'chore: update Docker compose configuration', author: 'dev@fleetcore.io', date: '2024-01-13 10:00:00 +0000' },
-    { hash: 'd6e5f4a', message: 'feat: implement driver management API', author: 'dev@fleetcore.io', date: '2024-01-12 11:30:00 +0000' },
-    { hash: 'e7f6a5b', message: 'initial commit', author: 'dev@fleetcore.io', date: '2024-01-10 09:00:00 +0000' },
-  ],
-  initialized: true,
-};
+// Repository state belongs to the shell's filesystem so separate engines (e.g. a replay) don't share it
+const gitStates = new WeakMap<VirtualFileSystem, GitState>();
+
+function gitStateFor(ctx: CommandContext): GitState {
+  let state = gitStates.get(ctx.fs);
+  if (!state) {
+    state = initialGitState();
+    gitStates.set(ctx.fs, state);
+  }
+  return state;
+}
+
+function initialGitState(): GitState {
+  return {
+    branch: 'main',
+    stagedFiles: [],
+    modifiedFiles: [],
+    commits: [
+      { hash: 'a3f2e1d', message: 'feat: add vehicle tracking endpoints', author: 'dev@fleetcore.io', date: '2024-01-14 16:30:00 +0000' },
+      { hash: 'b4c3d2e', message: 'fix: resolve Redis connection timeout', author: 'dev@fleetcore.io', date: '2024-01-14 14:15:00 +0000' },
+      { hash: 'c5d4e3f', message: 'chore: update Docker compose configuration', author: 'dev@fleetcore.io', date: '2024-01-13 10:00:00 +0000' },
+      { hash: 'd6e5f4a', message: 'feat: implement driver management API', author: 'dev@fleetcore.io', date: '2024-01-12 11:30:00 +0000' },
+      { hash: 'e7f6a5b', message: 'initial commit', author: 'dev@fleetcore.io', date: '2024-01-10 09:00:00 +0000' },
+    ],
+    initialized: true,
+  };
+}
 
 export function registerGitCommands(registry: CommandRegistry): void {
   registry.register('git', handleGit);
@@ -35,15 +50,15 @@ function handleGit(cmd: ParsedCommand, ctx: CommandContext): CommandResult {
     case 'status':
       return gitStatus(ctx);
     case 'log':
-      return gitLog(cmd);
+      return gitLog(cmd, ctx);
     case 'branch':
-      return gitBranch(cmd);
+      return gitBranch(cmd, ctx);
     case 'checkout':
-      return gitCheckout(cmd);
+      return gitCheckout(cmd, ctx);
     case 'add':
       return gitAdd(cmd, ctx);
     case 'commit':
-      return gitCommit(cmd);
+      return gitCommit(cmd, ctx);
     case 'diff':
       return gitDiff(cmd, ctx);
     case 'remote':
@@ -54,17 +69,20 @@ function handleGit(cmd: ParsedCommand, ctx: CommandContext): CommandResult {
       return { output: 'No local changes to save', exitCode: 0 };
     case 'pull':
       return { output: 'Already up to date.', exitCode: 0 };
-    case 'push':
+    case 'push': {
+      const gitState = gitStateFor(ctx);
       return { output: `To github.com:fleetcore/fleetcore-api.git\n   ${gitState.commits[0].hash}..HEAD  ${gitState.branch} -> ${gitState.branch}`, exitCode: 0 };
+    }
     case '--version':
     case 'version':
       return { output: 'git version 2.43.0', exitCode: 0 };
     default:
-      return { output: `git: '${subcommand}' is not a git command. See 'git --help'.`, exitCode: 1 };
+      return { output: '', stderr: `git: '${subcommand}' is not a git command. See 'git --help'.`, exitCode: 1 };
   }
 }
 
 function gitStatus(ctx: CommandContext): CommandResult {
+  const gitState = gitStateFor(ctx);
   const lines: string[] = [`On branch ${gitState.branch}`];
 
   if (gitState.stagedFiles.length > 0) {
@@ -92,9 +110,10 @@ function gitStatus(ctx: CommandContext): CommandResult {
   return { output: lines.join('\n'), exitCode: 0 };
 }
 
-function gitLog(cmd: ParsedCommand): CommandResult {
+function gitLog(cmd: ParsedCommand, ctx: CommandContext): CommandResult {
+  const gitState = gitStateFor(ctx);
   const oneline = cmd.flags['oneline'] === true || cmd.rawArgs.includes('--oneline');
-  const n = parseInt(cmd.flags['n'] as string) || gitState.commits.length;
+  const n = parseInt(takeOption(cmd, 'n') ?? '') || gitState.commits.length;
   const commits = gitState.commits.slice(0, n);
 
   if (oneline) {
@@ -116,7 +135,8 @@ function gitLog(cmd: ParsedCommand): CommandResult {
   return { output: lines.join('\n'), exitCode: 0 };
 }
 
-function gitBranch(cmd: ParsedCommand): CommandResult {
+function gitBranch(cmd: ParsedCommand, ctx: CommandContext): CommandResult {
+  const gitState = gitStateFor(ctx);
   if (cmd.flags['a'] === true || cmd.rawArgs.includes('-a')) {
     return {
       output: `* \x1b[32m${gitState.branch}\x1b[0m\n  remotes/origin/main\n  remotes/origin/feature/gps-tracking\n  remotes/origin/fix/redis-timeout`,
@@ -130,10 +150,11 @@ function gitBranch(cmd: ParsedCommand): CommandResult {
   return { output: `* \x1b[32m${gitState.branch}\x1b[0m`, exitCode: 0 };
 }
 
-function gitCheckout(cmd: ParsedCommand): CommandResult {
+function gitCheckout(cmd: ParsedCommand, ctx: CommandContext): CommandResult {
+  const gitState = gitStateFor(ctx);
   const target = cmd.args[1];
   if (!target) {
-    return { output: 'error: switch `\' requires a value', exitCode: 1 };
+    return { output: '', stderr: 'error: switch `\' requires a value', exitCode: 1 };
   }
   if (cmd.flags['b'] === true) {
     gitState.branch = target;
@@ -144,12 +165,14 @@ function gitCheckout(cmd: ParsedCommand): CommandResult {
 }
 
 function gitAdd(cmd: ParsedCommand, ctx: CommandContext): CommandResult {
-  if (cmd.args.length < 2) {
+  const gitState = gitStateFor(ctx);
+  const addAll = cmd.flags['A'] === true || cmd.flags['all'] === true;
+  if (cmd.args.length < 2 && !addAll) {
     return { output: 'Nothing specified, nothing added.', exitCode: 0 };
   }
 
-  const target = cmd.args[1];
-  if (target === '.' || target === '-A') {
+  const target = addAll ? '.' : cmd.args[1];
+  if (target === '.') {
     // Stage all modified files
     gitState.stagedFiles.push(...gitState.modifiedFiles);
     gitState.modifiedFiles = [];
@@ -165,29 +188,22 @@ function gitAdd(cmd: ParsedCommand, ctx: CommandContext): CommandResult {
   return { output: '', exitCode: 0 };
 }
 
-function gitCommit(cmd: ParsedCommand): CommandResult {
-  const message = cmd.flags['m'] as string;
-  if (!message && !cmd.rawArgs.includes('-m')) {
-    return { output: 'Aborting commit due to empty commit message.', exitCode: 1 };
-  }
-
-  // Extract message from args after -m
-  let commitMsg = message;
+function gitCommit(cmd: ParsedCommand, ctx: CommandContext): CommandResult {
+  const gitState = gitStateFor(ctx);
+  const message = cmd.flags['message'];
+  const commitMsg = typeof message === 'string' ? message : takeOption(cmd, 'm');
   if (!commitMsg) {
-    const mIdx = cmd.args.indexOf('-m');
-    if (mIdx !== -1 && mIdx + 1 < cmd.args.length) {
-      commitMsg = cmd.args[mIdx + 1];
-    }
+    return { output: '', stderr: 'Aborting commit due to empty commit message.', exitCode: 1 };
   }
 
-  const hash = Math.random().toString(16).slice(2, 9);
+  const hash = ctx.clock.random().toString(16).slice(2, 9);
   const fileCount = gitState.stagedFiles.length || 1;
 
   gitState.commits.unshift({
     hash,
     message: commitMsg || 'update',
     author: 'candidate@fleetcore.io',
-    date: new Date().toISOString(),
+    date: new Date(ctx.clock.now()).toISOString(),
   });
   gitState.stagedFiles = [];
 
@@ -198,6 +214,7 @@ function gitCommit(cmd: ParsedCommand): CommandResult {
 }
 
 function gitDiff(cmd: ParsedCommand, ctx: CommandContext): CommandResult {
+  const gitState = gitStateFor(ctx);
   if (gitState.modifiedFiles.length === 0 && gitState.stagedFiles.length === 0) {
     return { output: '', exitCode: 0 };
   }
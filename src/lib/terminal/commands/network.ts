@@ -1,6 +1,8 @@
-import { CommandRegistry, CommandResult } from '../CommandRegistry';
+import { CommandOutput, CommandRegistry, CommandResult } from '../CommandRegistry';
 import { ParsedCommand } from '../CommandParser';
 import { CommandContext } from '../CommandContext';
+import { describeFSError } from '../VirtualFileSystem';
+import { HttpRequest, HttpResponse, STATUS_TEXT, handleFleetCoreRequest, isFleetCoreHost } from '../../fleetcore/FleetCoreApi';
 
 export function registerNetworkCommands(registry: CommandRegistry): void {
   registry.register('curl', handleCurl);
@@ -10,163 +12,395 @@ export function registerNetworkCommands(registry: CommandRegistry): void {
   registry.register('ss', handleNetstat);
 }
 
-function handleCurl(cmd: ParsedCommand, ctx: CommandContext): CommandResult {
-  if (cmd.args.length === 0) {
-    return { output: 'curl: try \'curl --help\' for more information', exitCode: 2 };
+/** Options that take a value, by every name curl accepts for them */
+const CURL_VALUE_OPTIONS: Record<string, string> = {
+  '-X': 'request', '--request': 'request',
+  '-H': 'header', '--header': 'header',
+  '-d': 'data', '--data': 'data', '--data-ascii': 'data',
+  '--data-raw': 'data-raw', '--data-binary': 'data-binary', '--data-urlencode': 'data-urlencode', '--json': 'json',
+  '-u': 'user', '--user': 'user',
+  '-o': 'output', '--output': 'output',
+  '-w': 'write-out', '--write-out': 'write-out',
+  '-A': 'user-agent', '--user-agent': 'user-agent',
+  '-e': 'referer', '--referer': 'referer',
+  '-b': 'cookie', '--cookie': 'cookie',
+  '-m': 'max-time', '--max-time': 'max-time', '--connect-timeout': 'max-time', '--retry': 'retry',
+  '--url': 'url',
+};
+
+const CURL_SWITCHES: Record<string, string> = {
+  '-s': 'silent', '--silent': 'silent',
+  '-S': 'show-error', '--show-error': 'show-error',
+  '-f': 'fail', '--fail': 'fail', '--fail-with-body': 'fail-with-body',
+  '-i': 'include', '--include': 'include',
+  '-I': 'head', '--head': 'head',
+  '-v': 'verbose', '--verbose': 'verbose',
+  '-L': 'location', '--location': 'location',
+  '-O': 'remote-name', '--remote-name': 'remote-name',
+  '-G': 'get', '--get': 'get',
+  '-k': 'insecure', '--insecure': 'insecure',
+  '--compressed': 'compressed', '--no-progress-meter': 'no-progress-meter', '-#': 'progress-bar',
+};
+
+const CURL_USAGE = "curl: try 'curl --help' or 'curl --manual' for more information";
+
+interface CurlOptions {
+  urls: string[];
+  values: { name: string; value: string }[];
+  switches: Set<string>;
+}
+
+function handleCurl(cmd: ParsedCommand, ctx: CommandContext, stdin?: string): CommandResult {
+  if (cmd.argv.length === 0) {
+    return { output: '', stderr: CURL_USAGE, exitCode: 2 };
   }
 
-  if (cmd.args[0] === '--version' || cmd.args[0] === '-V') {
+  if (cmd.argv[0] === '--version' || cmd.argv[0] === '-V') {
     return { output: 'curl 8.5.0 (x86_64-pc-linux-gnu) libcurl/8.5.0 OpenSSL/3.1.4', exitCode: 0 };
   }
 
-  // Find the URL argument (skip flags)
-  let url = '';
-  let method = 'GET';
-  let dataBody = '';
-  let showHeaders = false;
+  const options = parseCurlArgs(cmd.argv);
+  if ('error' in options) {
+    return { output: '', stderr: `curl: ${options.error}\n${CURL_USAGE}`, exitCode: 2 };
+  }
+  const all = (name: string) => options.values.filter(v => v.name === name).map(v => v.value);
+  const last = (name: string) => all(name).pop();
+  const has = (name: string) => options.switches.has(name);
 
-  for (let i = 0; i < cmd.args.length; i++) {
-    const arg = cmd.args[i];
-    if (arg === '-X' && i + 1 < cmd.args.length) {
-      method = cmd.args[++i];
-      continue;
+  let url = options.urls[0] ?? last('url');
+  if (!url) {
+    return { output: '', stderr: `curl: no URL specified\n${CURL_USAGE}`, exitCode: 2 };
+  }
+
+  // Request body: every data option, joined with & as curl does
+  const warnings: string[] = [];
+  const readData = (source: string, keepNewlines: boolean): string => {
+    if (!source.startsWith('@')) return source;
+    const file = source.slice(1);
+    const content = file === '-' ? stdin ?? '' : ctx.fs.readFile(ctx.resolvePath(file), '/');
+    if (content === null) {
+      warnings.push(`Warning: Couldn't read data from file "${file}", this makes an empty POST.`);
+      return '';
     }
-    if (arg === '-d' || arg === '--data') {
-      dataBody = cmd.args[++i] || '';
-      if (method === 'GET') method = 'POST';
-      continue;
+    return keepNewlines ? content : content.replace(/[\r\n]/g, '');
+  };
+  const parts: string[] = [];
+  const headers: { name: string; value: string }[] = [];
+  for (const { name, value } of options.values) {
+    if (name === 'data') parts.push(readData(value, false));
+    if (name === 'data-raw') parts.push(value);
+    if (name === 'data-binary') parts.push(readData(value, true));
+    if (name === 'data-urlencode') parts.push(urlEncodeData(value, v => readData(v, true)));
+    if (name === 'json') {
+      parts.push(readData(value, true));
+      headers.push({ name: 'Content-Type', value: 'application/json' }, { name: 'Accept', value: 'application/json' });
     }
-    if (arg === '-H' || arg === '--header') {
-      i++; // skip header value
-      continue;
+  }
+  const hasData = parts.length > 0;
+  let body = parts.join('&');
+
+  if (has('get') && hasData) {
+    url += (url.includes('?') ? '&' : '?') + body;
+    body = '';
+  }
+
+  const target = parseUrl(url);
+  if (!target) {
+    return { output: '', stderr: `curl: (3) URL using bad/illegal format or missing URL`, exitCode: 3 };
+  }
+
+  let method = has('head') ? 'HEAD' : hasData && !has('get') ? 'POST' : 'GET';
+  method = last('request') ?? method;
+
+  // Headers in the order curl sends them; -H can replace any default
+  const user = last('user');
+  const defaults = [
+    { name: 'Host', value: target.port === defaultPort(target.scheme) ? target.host : `${target.host}:${target.port}` },
+    ...(user !== undefined ? [{ name: 'Authorization', value: `Basic ${btoa(user.includes(':') ? user : `${user}:`)}` }] : []),
+    { name: 'User-Agent', value: last('user-agent') ?? 'curl/8.5.0' },
+    { name: 'Accept', value: '*/*' },
+    ...(last('referer') ? [{ name: 'Referer', value: last('referer')! }] : []),
+    ...(last('cookie') ? [{ name: 'Cookie', value: last('cookie')! }] : []),
+  ];
+  for (const raw of all('header')) {
+    const colon = raw.indexOf(':');
+    if (colon > 0) headers.push({ name: raw.slice(0, colon).trim(), value: raw.slice(colon + 1).trim() });
+  }
+  if (body && !headers.some(h => h.name.toLowerCase() === 'content-type')) {
+    headers.push({ name: 'Content-Type', value: 'application/x-www-form-urlencoded' });
+  }
+  if (body) headers.push({ name: 'Content-Length', value: String(new TextEncoder().encode(body).length) });
+  // An empty -H value ("Accept:") removes the header altogether
+  const sent = [
+    ...defaults.filter(d => !headers.some(h => h.name.toLowerCase() === d.name.toLowerCase())),
+    ...headers,
+  ].filter(h => h.value !== '');
+
+  const request: HttpRequest = {
+    method,
+    path: target.path,
+    headers: Object.fromEntries(sent.map(h => [h.name.toLowerCase(), h.value])),
+    body,
+  };
+  const exchange = sendRequest(target, request, ctx);
+
+  const silent = has('silent');
+  const showErrors = !silent || has('show-error');
+  const verbose = has('verbose');
+  const ip = resolveHost(target.host, ctx);
+  // Ordered, so the -v trace lands around the body as curl's does under 2>&1
+  const out = new CommandOutput();
+  const trace = (...lines: string[]) => {
+    if (verbose) lines.forEach(line => out.err(line));
+  };
+  warnings.forEach(warning => out.err(warning));
+
+  trace(`*   Trying ${ip}:${target.port}...`);
+  if (!exchange) {
+    const message = `Failed to connect to ${target.host} port ${target.port} after 0 ms: Couldn't connect to server`;
+    trace(`* connect to ${ip} port ${target.port} failed: Connection refused`, `* ${message}`, '* Closing connection');
+    if (showErrors) out.err(`curl: (7) ${message}`);
+    const writeOut = last('write-out');
+    if (writeOut !== undefined) out.out(formatWriteOut(writeOut, { code: 0, method, url, exitCode: 7, target, ip }));
+    return out.result(7);
+  }
+  trace(
+    `* Connected to ${target.host} (${ip}) port ${target.port}`,
+    `> ${method} ${target.path} HTTP/1.1`, ...sent.map(h => `> ${h.name}: ${h.value}`), '>',
+  );
+
+  const response = exchange;
+  const head = formatHead(response);
+  trace(...head.trimEnd().split('\r\n').map(line => `< ${line}`), '<');
+
+  // --fail drops the body of an error response; --fail-with-body keeps it
+  let exitCode = 0;
+  const failed = response.status >= 400 && (has('fail') || has('fail-with-body'));
+  if (failed) exitCode = 22;
+  const keepBody = method !== 'HEAD' && (!failed || has('fail-with-body'));
+  const payload = (has('include') || method === 'HEAD' ? head : '') + (keepBody ? response.body : '');
+
+  let output = payload;
+  const outputFile = last('output') ?? (has('remote-name') ? remoteName(target.path) : undefined);
+  if (outputFile === '') {
+    out.err('curl: Remote file name has no length!');
+    return out.result(23);
+  }
+  if (outputFile !== undefined && outputFile !== '-') {
+    output = '';
+    // /dev/null isn't in the virtual filesystem; redirections special-case it the same way
+    const path = ctx.resolvePath(outputFile);
+    if (path !== '/dev/null' && !ctx.fs.writeFile(path, payload, '/')) {
+      out.err(`Warning: Failed to open the file ${outputFile}: ${describeFSError(ctx.fs.lastError)}`);
+      out.err('curl: (23) Failure writing output to destination');
+      exitCode = 23;
+    } else if (!silent && !verbose && !has('no-progress-meter')) {
+      out.err(progressMeter(new TextEncoder().encode(payload).length, new TextEncoder().encode(body).length));
     }
-    if (arg === '-i' || arg === '-I' || arg === '--include' || arg === '--head') {
-      showHeaders = true;
-      if (arg === '-I' || arg === '--head') method = 'HEAD';
+  }
+
+  const writeOut = last('write-out');
+  if (writeOut !== undefined) {
+    output += formatWriteOut(writeOut, { code: response.status, response, method, url, exitCode, target, ip });
+  }
+  if (output) out.out(output);
+  trace(`* Connection #0 to host ${target.host} left intact`);
+  if (failed && showErrors) out.err(`curl: (22) The requested URL returned error: ${response.status}`);
+
+  return out.result(exitCode);
+}
+
+/**
+ * Split curl's argv into URLs, options with values and switches. Short
+ * switches can be clustered (`-sSf`), and a value option may end a cluster
+ * or take its value inline (`-XPOST`, `-sSo out.json`).
+ */
+function parseCurlArgs(argv: string[]): CurlOptions | { error: string } {
+  const options: CurlOptions = { urls: [], values: [], switches: new Set() };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('-') || arg === '-') {
+      options.urls.push(arg);
       continue;
     }
-    if (arg === '-s' || arg === '--silent' || arg === '-o' || arg === '-L' || arg === '-f' || arg === '-v') {
-      if (arg === '-o') i++; // skip output file
+    if (arg.startsWith('--')) {
+      const name = CURL_VALUE_OPTIONS[arg];
+      if (name) {
+        if (i + 1 >= argv.length) return { error: `option ${arg}: requires parameter` };
+        options.values.push({ name, value: argv[++i] });
+      } else if (CURL_SWITCHES[arg]) {
+        options.switches.add(CURL_SWITCHES[arg]);
+      } else {
+        return { error: `option ${arg}: is unknown` };
+      }
       continue;
     }
-    if (!arg.startsWith('-')) {
-      url = arg;
+    for (let j = 1; j < arg.length; j++) {
+      const flag = `-${arg[j]}`;
+      const name = CURL_VALUE_OPTIONS[flag];
+      if (name) {
+        const inline = arg.slice(j + 1);
+        if (!inline && i + 1 >= argv.length) return { error: `option ${flag}: requires parameter` };
+        options.values.push({ name, value: inline || argv[++i] });
+        break;
+      }
+      if (!CURL_SWITCHES[flag]) return { error: `option ${flag}: is unknown` };
+      options.switches.add(CURL_SWITCHES[flag]);
     }
   }
+  return options;
+}
 
-  if (!url) {
-    return { output: 'curl: no URL specified', exitCode: 3 };
+/** `name=value`, `=value`, `value`, `@file` and `name@file`, as --data-urlencode takes them */
+function urlEncodeData(spec: string, readFile: (source: string) => string): string {
+  const at = spec.indexOf('@');
+  const eq = spec.indexOf('=');
+  if (at !== -1 && (eq === -1 || at < eq)) {
+    const content = encodeURIComponent(readFile(spec.slice(at)));
+    return at === 0 ? content : `${spec.slice(0, at)}=${content}`;
   }
+  if (eq === -1) return encodeURIComponent(spec);
+  const value = encodeURIComponent(spec.slice(eq + 1));
+  return eq === 0 ? value : `${spec.slice(0, eq)}=${value}`;
+}
 
-  return generateCurlResponse(url, method, dataBody, showHeaders);
+interface UrlTarget {
+  scheme: string;
+  host: string;
+  port: number;
+  path: string;
 }
 
-function generateCurlResponse(url: string, method: string, body: string, showHeaders: boolean): CommandResult {
-  const headers = showHeaders ? `HTTP/1.1 200 OK\r\nContent-Type: application/json\r\nX-Powered-By: Express\r\nDate: ${new Date().toUTCString()}\r\n\r\n` : '';
+/** The response to a request, or null when nothing is listening */
+function sendRequest(target: UrlTarget, request: HttpRequest, ctx: CommandContext): HttpResponse | null {
+  if (isFleetCoreHost(target.host, target.port)) {
+    const response = handleFleetCoreRequest(ctx, request);
+    if (response) return response;
+  }
 
-  // localhost:3000 endpoints (FleetCore API)
-  if (url.includes('localhost:3000') || url.includes('127.0.0.1:3000') || url.includes('api:3000')) {
-    const path = url.replace(/https?:\/\/[^/]+/, '');
+  // Nothing else listens locally
+  if (['localhost', '127.0.0.1', '0.0.0.0'].includes(target.host) || isFleetCoreHost(target.host, target.port)) {
+    return null;
+  }
 
-    if (path === '/health' || path === '/health/') {
-      return {
-        output: headers + JSON.stringify({ status: 'ok', version: '2.4.1', uptime: 1234.567 }, null, 2),
-        exitCode: 0,
-      };
-    }
+  const body = '<html><body>OK</body></html>';
+  return {
+    status: 200,
+    headers: {
+      'Content-Type': 'text/html',
+      'Date': new Date(ctx.clock.now()).toUTCString(),
+      'Content-Length': String(body.length),
+    },
+    body,
+  };
+}
 
-    if (path.startsWith('/api/v1/vehicles') && method === 'GET') {
-      if (path.match(/\/api\/v1\/vehicles\/[\w-]+$/)) {
-        return {
-          output: headers + JSON.stringify({
-            data: {
-              id: 'v-001',
-              vin: '1HGCM82633A004352',
-              make: 'Ford',
-              model: 'Transit',
-              year: 2023,
-              licensePlate: 'FC-001',
-              status: 'active',
-              mileage: 12450,
-              fuelLevel: 73.5,
-            }
-          }, null, 2),
-          exitCode: 0,
-        };
-      }
-      return {
-        output: headers + JSON.stringify({
-          data: [
-            { id: 'v-001', vin: '1HGCM82633A004352', make: 'Ford', model: 'Transit', year: 2023, licensePlate: 'FC-001', status: 'active', mileage: 12450 },
-            { id: 'v-002', vin: '2T1BURHE0JC067841', make: 'Mercedes', model: 'Sprinter', year: 2022, licensePlate: 'FC-002', status: 'active', mileage: 34200 },
-            { id: 'v-003', vin: '3FADP4BJ7KM123456', make: 'Volvo', model: 'FH16', year: 2024, licensePlate: 'FC-003', status: 'maintenance', mileage: 5600 },
-          ],
-          total: 3,
-        }, null, 2),
-        exitCode: 0,
-      };
-    }
+/** Split a URL the way curl reads it, defaulting the scheme to http and the port to the scheme's */
+function parseUrl(url: string): UrlTarget | null {
+  const match = /^(?:(https?):\/\/)?([^/:?#]+)(?::(\d+))?([^#]*)/i.exec(url);
+  if (!match || !match[2]) return null;
+  const scheme = (match[1] || 'http').toLowerCase();
+  const port = match[3] ? Number(match[3]) : defaultPort(scheme);
+  let path = match[4] || '/';
+  if (path.startsWith('?')) path = '/' + path;
+  return { scheme, host: match[2].toLowerCase(), port, path };
+}
 
-    if (path.startsWith('/api/v1/vehicles') && method === 'POST') {
-      let parsed: Record<string, unknown> = {};
-      try { parsed = JSON.parse(body); } catch {}
-      return {
-        output: headers + JSON.stringify({
-          data: {
-            id: 'v-' + Math.random().toString(36).slice(2, 5),
-            ...parsed,
-            status: 'active',
-            createdAt: new Date().toISOString(),
-          }
-        }, null, 2),
-        exitCode: 0,
-      };
-    }
+function defaultPort(scheme: string): number {
+  return scheme === 'https' ? 443 : 80;
+}
 
-    if (path.startsWith('/api/v1/drivers')) {
-      return {
-        output: headers + JSON.stringify({ data: [], total: 0 }, null, 2),
-        exitCode: 0,
-      };
-    }
+/** The address curl would connect to, from /etc/hosts like the resolver */
+function resolveHost(host: string, ctx: CommandContext): string {
+  if (host === 'localhost') return '127.0.0.1';
+  if (/^\d+\.\d+\.\d+\.\d+$/.test(host)) return host;
+  const hosts = ctx.fs.runAs('root', () => ctx.fs.readFile('/etc/hosts')) ?? '';
+  for (const line of hosts.split('\n')) {
+    const [address, ...names] = line.replace(/#.*/, '').trim().split(/\s+/);
+    if (names.includes(host) && /^\d+\.\d+\.\d+\.\d+$/.test(address)) return address;
+  }
+  return '93.184.215.14';
+}
 
-    if (path.startsWith('/api/v1/trips')) {
-      return {
-        output: headers + JSON.stringify({ data: [], total: 0 }, null, 2),
-        exitCode: 0,
-      };
-    }
+/** The URL as curl ends up requesting it, with the scheme filled in */
+function effectiveUrl(target: UrlTarget): string {
+  const port = target.port === defaultPort(target.scheme) ? '' : `:${target.port}`;
+  return `${target.scheme}://${target.host}${port}${target.path}`;
+}
 
-    // 404 for unknown paths
-    const notFoundHeaders = showHeaders ? `HTTP/1.1 404 Not Found\r\nContent-Type: application/json\r\n\r\n` : '';
-    return {
-      output: notFoundHeaders + JSON.stringify({ error: 'Not Found' }),
-      exitCode: 0,
-    };
-  }
+/** The file name -O saves to: the last segment of the URL path */
+function remoteName(path: string): string {
+  return decodeURIComponent(path.split('?')[0].split('/').pop() ?? '');
+}
 
-  // Default: connection refused or generic response
-  if (url.includes('localhost') || url.includes('127.0.0.1')) {
-    return { output: `curl: (7) Failed to connect to ${url} port: Connection refused`, exitCode: 7 };
-  }
+function formatHead(response: HttpResponse): string {
+  return [
+    `HTTP/1.1 ${response.status} ${STATUS_TEXT[response.status] ?? ''}`.trimEnd(),
+    ...Object.entries(response.headers).map(([name, value]) => `${name}: ${value}`),
+  ].join('\r\n') + '\r\n\r\n';
+}
 
-  return {
-    output: headers + '<html><body>OK</body></html>',
-    exitCode: 0,
+interface WriteOutContext {
+  code: number;
+  response?: HttpResponse;
+  method: string;
+  url: string;
+  exitCode: number;
+  target: UrlTarget;
+  ip: string;
+}
+
+/** Expand -w's %{variable}s and backslash escapes */
+function formatWriteOut(format: string, info: WriteOutContext): string {
+  const { response } = info;
+  const variables: Record<string, string> = {
+    http_code: String(info.code).padStart(3, '0'),
+    response_code: String(info.code).padStart(3, '0'),
+    content_type: response?.headers['Content-Type'] ?? '',
+    size_download: String(response ? new TextEncoder().encode(response.body).length : 0),
+    size_header: String(response ? formatHead(response).length : 0),
+    num_headers: String(response ? Object.keys(response.headers).length + 1 : 0),
+    time_total: response ? '0.004512' : '0.000310',
+    time_connect: response ? '0.000214' : '0.000000',
+    url_effective: effectiveUrl(info.target),
+    url: info.url,
+    method: info.method,
+    exitcode: String(info.exitCode),
+    remote_ip: info.ip,
+    remote_port: String(info.target.port),
+    scheme: info.target.scheme.toUpperCase(),
   };
+  return format
+    .replace(/%\{(\w+)\}|\\([nrt\\])|%%/g, (match, name?: string, escape?: string) => {
+      if (escape) return { n: '\n', r: '\r', t: '\t', '\\': '\\' }[escape] ?? match;
+      if (match === '%%') return '%';
+      return variables[name!] ?? '';
+    });
+}
+
+/** curl's progress meter for a transfer that finished instantly */
+function progressMeter(received: number, sent: number): string {
+  const pad = (value: string | number, width: number) => String(value).padStart(width);
+  const total = received + sent;
+  return [
+    '  % Total    % Received % Xferd  Average Speed   Time    Time     Time  Current',
+    '                                 Dload  Upload   Total   Spent    Left  Speed',
+    `100 ${pad(total, 5)}  100 ${pad(received, 5)}  ${sent ? 100 : 0} ${pad(sent, 5)}  ${pad(received * 200, 5)}  ${pad(sent * 200, 5)} --:--:-- --:--:-- --:--:-- ${pad(received * 250, 5)}`,
+  ].join('\n');
 }
 
-function handleWget(cmd: ParsedCommand): CommandResult {
-  if (cmd.args.length === 0) {
-    return { output: 'wget: missing URL', exitCode: 1 };
+function handleWget(cmd: ParsedCommand, ctx: CommandContext): CommandResult {
+  if (cmd.argv.length === 0) {
+    return { output: '', stderr: 'wget: missing URL', exitCode: 1 };
   }
-  if (cmd.args[0] === '--version') {
+  if (cmd.argv[0] === '--version') {
     return { output: 'GNU Wget 1.21.4', exitCode: 0 };
   }
 
-  const url = cmd.args.find(a => !a.startsWith('-')) || cmd.args[0];
+  const url = cmd.argv.find(a => !a.startsWith('-')) || cmd.argv[0];
+  const now = new Date(ctx.clock.now()).toISOString();
   return {
-    output: `--${new Date().toISOString()}--  ${url}\nResolving... connected.\nHTTP request sent, awaiting response... 200 OK\nLength: 1234 (1.2K) [text/html]\nSaving to: 'index.html'\n\nindex.html          100%[===================>]  1.2K  --.-KB/s    in 0s\n\n${new Date().toISOString()} (5.42 MB/s) - 'index.html' saved [1234/1234]`,
+    output: `--${now}--  ${url}\nResolving... connected.\nHTTP request sent, awaiting response... 200 OK\nLength: 1234 (1.2K) [text/html]\nSaving to: 'index.html'\n\nindex.html          100%[===================>]  1.2K  --.-KB/s    in 0s\n\n${now} (5.42 MB/s) - 'index.html' saved [1234/1234]`,
     exitCode: 0,
   };
 }
@@ -174,7 +408,7 @@ function handleWget(cmd: ParsedCommand): CommandResult {
 function handlePing(cmd: ParsedCommand): CommandResult {
   const host = cmd.args[0];
   if (!host) {
-    return { output: 'ping: usage error: Destination address required', exitCode: 1 };
+    return { output: '', stderr: 'ping: usage error: Destination address required', exitCode: 1 };
   }
 
   const lines = [
@@ -1,6 +1,7 @@
 import { CommandRegistry, CommandResult } from '../CommandRegistry';
 import { ParsedCommand } from '../CommandParser';
 import { CommandContext } from '../CommandContext';
+import { DatabaseError, fleetCoreStateFor } from '../../fleetcore/FleetCoreState';
 
 export function registerNodeCommands(registry: CommandRegistry): void {
   registry.register('node', handleNode);
@@ -9,13 +10,13 @@ export function registerNodeCommands(registry: CommandRegistry): void {
 }
 
 function handleNode(cmd: ParsedCommand, ctx: CommandContext): CommandResult {
-  if (cmd.args.length === 0 || cmd.args[0] === '--version' || cmd.args[0] === '-v') {
+  if (cmd.argv.length === 0 || cmd.argv[0] === '--version' || cmd.argv[0] === '-v') {
     return { output: 'v20.11.0', exitCode: 0 };
   }
 
-  const flag = cmd.args[0];
+  const flag = cmd.argv[0];
   if (flag === '-e' || flag === '--eval') {
-    const code = cmd.args.slice(1).join(' ');
+    const code = cmd.argv.slice(1).join(' ');
     return evaluateJS(code, ctx);
   }
 
@@ -24,7 +25,8 @@ function handleNode(cmd: ParsedCommand, ctx: CommandContext): CommandResult {
   const content = ctx.fs.readFile(filePath, '/');
   if (content === null) {
     return {
-      output: `node:internal/modules/cjs/loader:1147\n  throw err;\n  ^\n\nError: Cannot find module '${cmd.args[0]}'`,
+      output: '',
+      stderr: `node:internal/modules/cjs/loader:1147\n  throw err;\n  ^\n\nError: Cannot find module '${cmd.args[0]}'`,
       exitCode: 1,
     };
   }
@@ -71,7 +73,7 @@ function handleNpm(cmd: ParsedCommand, ctx: CommandContext): CommandResult {
       };
 
     default:
-      return { output: `Unknown command: "${subcommand}"`, exitCode: 1 };
+      return { output: '', stderr: `Unknown command: "${subcommand}"`, exitCode: 1 };
   }
 }
 
@@ -116,16 +118,17 @@ function npmRun(cmd: ParsedCommand, ctx: CommandContext): CommandResult {
       };
 
     case 'migrate':
-      return {
-        output: `\n> fleetcore-api@2.4.1 migrate\n> knex migrate:latest\n\nBatch 1 run: 2 migrations\n  20240101_create_vehicles.ts\n  20240102_create_drivers.ts`,
-        exitCode: 0,
-      };
+      return knexRun(ctx, 'migrate', 'knex migrate:latest', () => {
+        const { batch, files } = fleetCoreStateFor(ctx.fs).migrate(ctx.fs);
+        if (files.length === 0) return 'Already up to date';
+        return [`Batch ${batch} run: ${files.length} migrations`, ...files.map(f => `  ${f}`)].join('\n');
+      });
 
     case 'seed':
-      return {
-        output: `\n> fleetcore-api@2.4.1 seed\n> knex seed:run\n\nRan 1 seed files\n  seed_vehicles.ts`,
-        exitCode: 0,
-      };
+      return knexRun(ctx, 'seed', 'knex seed:run', () => {
+        const files = fleetCoreStateFor(ctx.fs).seed(ctx.fs, new Date(ctx.clock.now()).toISOString());
+        return [`Ran ${files.length} seed files`, ...files.map(f => `  ${f}`)].join('\n');
+      });
 
     default:
       if (!script) {
@@ -135,12 +138,28 @@ function npmRun(cmd: ParsedCommand, ctx: CommandContext): CommandResult {
         };
       }
       return {
-        output: `npm ERR! Missing script: "${script}"`,
+        output: '',
+        stderr: `npm ERR! Missing script: "${script}"`,
         exitCode: 1,
       };
   }
 }
 
+/** A knex script against the FleetCore database; a database error fails it the way knex reports one */
+function knexRun(ctx: CommandContext, script: string, command: string, run: () => string): CommandResult {
+  const header = `\n> fleetcore-api@2.4.1 ${script}\n> ${command}\n`;
+  try {
+    return { output: `${header}\n${run()}`, exitCode: 0 };
+  } catch (err) {
+    if (!(err instanceof DatabaseError)) throw err;
+    return {
+      output: header,
+      stderr: `${err.message}\nnpm ERR! Lifecycle script \`${script}\` failed with error:\nnpm ERR! Error: command failed\nnpm ERR!   in workspace: fleetcore-api@2.4.1`,
+      exitCode: 1,
+    };
+  }
+}
+
 function npmTest(ctx: CommandContext): CommandResult {
   return {
     output: `\n> fleetcore-api@2.4.1 test\n> jest --coverage\n\n PASS  src/__tests__/vehicles.test.ts\n  Vehicle API\n    ✓ GET /api/v1/vehicles returns vehicle list (23ms)\n    ✓ GET /api/v1/vehicles/:id returns single vehicle (15ms)\n    ✓ POST /api/v1/vehicles creates a vehicle (31ms)\n\n PASS  src/__tests__/health.test.ts\n  Health Check\n    ✓ GET /health returns 200 (8ms)\n\n----------|---------|----------|---------|---------|-------------------\nFile      | % Stmts | % Branch | % Funcs | % Lines | Uncovered Line #s\n----------|---------|----------|---------|---------|-------------------\nAll files |   72.34 |    58.33 |   68.75 |   71.43 |\n----------|---------|----------|---------|---------|-------------------\n\nTest Suites: 2 passed, 2 total\nTests:       4 passed, 4 total\nTime:        2.341s`,
@@ -151,7 +170,7 @@ function npmTest(ctx: CommandContext): CommandResult {
 function handleNpx(cmd: ParsedCommand, ctx: CommandContext): CommandResult {
   const tool = cmd.args[0];
   if (!tool) {
-    return { output: 'npx: requires at least one argument', exitCode: 1 };
+    return { output: '', stderr: 'npx: requires at least one argument', exitCode: 1 };
   }
 
   switch (tool) {
@@ -165,7 +184,7 @@ function handleNpx(cmd: ParsedCommand, ctx: CommandContext): CommandResult {
       }
       return { output: 'ts-node v10.9.2', exitCode: 0 };
     default:
-      return { output: `npx: command not found: ${tool}`, exitCode: 1 };
+      return { output: '', stderr: `npx: command not found: ${tool}`, exitCode: 1 };
   }
 }
 
@@ -191,7 +210,7 @@ function evaluateJS(code: string, ctx: CommandContext): CommandResult {
     }
     return { output: 'undefined', exitCode: 0 };
   } catch {
-    return { output: `SyntaxError: Unexpected token`, exitCode: 1 };
+    return { output: '', stderr: `SyntaxError: Unexpected token`, exitCode: 1 };
   }
 }
 
@@ -0,0 +1,363 @@
+import { CommandRegistry, CommandResult } from '../CommandRegistry';
+import { ParsedCommand } from '../CommandParser';
+import { CommandContext } from '../CommandContext';
+import { VirtualFileSystem, describeFSError } from '../VirtualFileSystem';
+import { applyModeSpec, parseMode, formatMode, formatOctal } from '../FileMode';
+
+/** Runs an already-expanded command line (provided by the executor) */
+export type CommandRunner = (argv: string[], ctx: CommandContext, stdin?: string) => Promise<CommandResult>;
+
+export function registerPermissionCommands(registry: CommandRegistry, runCommand: CommandRunner): void {
+  registry.register('chmod', handleChmod);
+  registry.register('chown', handleChown);
+  registry.register('chgrp', handleChgrp);
+  registry.register('umask', handleUmask);
+  registry.register('id', handleId);
+  registry.register('groups', (_cmd, ctx) => ({ output: ctx.fs.getGroups().join(' '), exitCode: 0 }));
+  registry.register('sudo', (cmd, ctx, stdin) => handleSudo(cmd, ctx, runCommand, stdin));
+}
+
+/** Split argv into recursive flag and operands; `isOperand` lets chmod treat `-x` as a mode */
+function parseArgs(argv: string[], isOperand: (arg: string) => boolean = () => false) {
+  let recursive = false;
+  const operands: string[] = [];
+  for (const arg of argv) {
+    if (arg === '-R' || arg === '--recursive') recursive = true;
+    else if (arg.startsWith('-') && arg.length > 1 && !isOperand(arg)) continue;
+    else operands.push(arg);
+  }
+  return { recursive, operands };
+}
+
+/** The path itself, then (with -R) everything below it */
+function collectPaths(ctx: CommandContext, path: string, recursive: boolean): string[] {
+  const paths = [path];
+  const node = ctx.fs.resolve(path, '/');
+  if (recursive && node?.type === 'directory' && node.children) {
+    for (const name of node.children.keys()) {
+      paths.push(...collectPaths(ctx, path === '/' ? `/${name}` : `${path}/${name}`, true));
+    }
+  }
+  return paths;
+}
+
+function handleChmod(cmd: ParsedCommand, ctx: CommandContext): CommandResult {
+  const { recursive, operands } = parseArgs(cmd.argv, arg => /^-[rwxXst]+$/.test(arg));
+  const [spec, ...files] = operands;
+  if (!spec || files.length === 0) {
+    return { output: '', stderr: spec ? `chmod: missing operand after '${spec}'` : 'chmod: missing operand', exitCode: 1 };
+  }
+
+  const errors: string[] = [];
+  for (const file of files) {
+    const root = ctx.resolvePath(file);
+    if (!ctx.fs.exists(root, '/')) {
+      errors.push(`chmod: cannot access '${file}': No such file or directory`);
+      continue;
+    }
+
+    for (const path of collectPaths(ctx, root, recursive)) {
+      const node = ctx.fs.resolve(path, '/')!;
+      const mode = applyModeSpec(parseMode(node.permissions ?? ''), spec, node.type === 'directory', ctx.fs.umask);
+      if (mode === null) {
+        return { output: '', stderr: `chmod: invalid mode: '${spec}'`, exitCode: 1 };
+      }
+      if (!ctx.fs.chmod(path, mode, '/')) {
+        const label = path === root ? file : path;
+        errors.push(`chmod: changing permissions of '${label}': ${describeFSError(ctx.fs.lastError)}`);
+      }
+    }
+  }
+
+  return { output: '', stderr: errors.join('\n'), exitCode: errors.length > 0 ? 1 : 0 };
+}
+
+function handleChown(cmd: ParsedCommand, ctx: CommandContext): CommandResult {
+  const { recursive, operands } = parseArgs(cmd.argv);
+  const [spec, ...files] = operands;
+  if (!spec || files.length === 0) {
+    return { output: '', stderr: spec ? `chown: missing operand after '${spec}'` : 'chown: missing operand', exitCode: 1 };
+  }
+
+  const [ownerPart, groupPart] = spec.split(':');
+  const owner = ownerPart || null;
+  let group = groupPart || null;
+  if (owner && !lookupUser(ctx.fs, owner)) {
+    return { output: '', stderr: `chown: invalid user: '${spec}'`, exitCode: 1 };
+  }
+  // `chown user:` also sets the group to the user's login group
+  if (owner && groupPart === '') group = lookupUser(ctx.fs, owner)!.group;
+  if (group && !lookupGroup(ctx.fs, group)) {
+    return { output: '', stderr: `chown: invalid group: '${spec}'`, exitCode: 1 };
+  }
+
+  return changeOwnership(ctx, 'chown', 'ownership', files, owner, group, recursive);
+}
+
+function handleChgrp(cmd: ParsedCommand, ctx: CommandContext): CommandResult {
+  const { recursive, operands } = parseArgs(cmd.argv);
+  const [group, ...files] = operands;
+  if (!group || files.length === 0) {
+    return { output: '', stderr: group ? `chgrp: missing operand after '${group}'` : 'chgrp: missing operand', exitCode: 1 };
+  }
+  if (!lookupGroup(ctx.fs, group)) {
+    return { output: '', stderr: `chgrp: invalid group: '${group}'`, exitCode: 1 };
+  }
+
+  return changeOwnership(ctx, 'chgrp', 'group', files, null, group, recursive);
+}
+
+function changeOwnership(
+  ctx: CommandContext,
+  name: string,
+  what: string,
+  files: string[],
+  owner: string | null,
+  group: string | null,
+  recursive: boolean
+): CommandResult {
+  const errors: string[] = [];
+  for (const file of files) {
+    const root = ctx.resolvePath(file);
+    if (!ctx.fs.exists(root, '/')) {
+      errors.push(`${name}: cannot access '${file}': No such file or directory`);
+      continue;
+    }
+    for (const path of collectPaths(ctx, root, recursive)) {
+      if (!ctx.fs.chown(path, owner, group, '/')) {
+        const label = path === root ? file : path;
+        errors.push(`${name}: changing ${what} of '${label}': ${describeFSError(ctx.fs.lastError)}`);
+      }
+    }
+  }
+  return { output: '', stderr: errors.join('\n'), exitCode: errors.length > 0 ? 1 : 0 };
+}
+
+function handleUmask(cmd: ParsedCommand, ctx: CommandContext): CommandResult {
+  const symbolic = cmd.argv.includes('-S');
+  const value = cmd.argv.find(a => a !== '-S' && a !== '-p');
+
+  if (value === undefined) {
+    if (!symbolic) return { output: formatOctal(ctx.fs.umask), exitCode: 0 };
+    const allowed = formatMode('file', ~ctx.fs.umask & 0o777).slice(1);
+    const cls = (text: string) => text.replace(/-/g, '');
+    return {
+      output: `u=${cls(allowed.slice(0, 3))},g=${cls(allowed.slice(3, 6))},o=${cls(allowed.slice(6, 9))}`,
+      exitCode: 0,
+    };
+  }
+
+  if (/^\d+$/.test(value)) {
+    if (!/^[0-7]{1,4}$/.test(value)) {
+      return { output: '', stderr: `bash: umask: ${value}: octal number out of range`, exitCode: 1 };
+    }
+    ctx.fs.umask = parseInt(value, 8) & 0o777;
+    return { output: '', exitCode: 0 };
+  }
+
+  // Symbolic masks describe what stays allowed: `umask u=rwx,g=rx,o=`
+  const allowed = applyModeSpec(~ctx.fs.umask & 0o777, value, true, 0);
+  if (allowed === null) {
+    return { output: '', stderr: `bash: umask: \`${value}': invalid symbolic mode operator`, exitCode: 1 };
+  }
+  ctx.fs.umask = ~allowed & 0o777;
+  return { output: '', exitCode: 0 };
+}
+
+function handleId(cmd: ParsedCommand, ctx: CommandContext): CommandResult {
+  const name = cmd.args[0] ?? ctx.user;
+  const user = lookupUser(ctx.fs, name);
+  if (!user) {
+    return { output: '', stderr: `id: '${name}': no such user`, exitCode: 1 };
+  }
+
+  const groups = name === ctx.user ? ctx.fs.getGroups() : groupsOf(ctx.fs, name, user.group);
+  if (cmd.flags['u']) return { output: String(user.uid), exitCode: 0 };
+  if (cmd.flags['n']) return { output: name, exitCode: 0 };
+
+  const describe = (group: string) => `${lookupGroup(ctx.fs, group)?.gid ?? '?'}(${group})`;
+  return {
+    output: `uid=${user.uid}(${name}) gid=${describe(user.group)} groups=${groups.map(describe).join(',')}`,
+    exitCode: 0,
+  };
+}
+
+// --- sudo ---
+
+interface SudoRule {
+  /** A user name, or `%group` */
+  who: string;
+  runAs: string[];
+  /** `ALL`, or command paths optionally followed by the exact arguments allowed */
+  commands: string[];
+}
+
+/**
+ * `sudo [-u user] command` checked against /etc/sudoers and /etc/sudoers.d/*.
+ * There is no password prompt in the simulated terminal, so PASSWD and
+ * NOPASSWD rules both allow the command.
+ */
+async function handleSudo(
+  cmd: ParsedCommand,
+  ctx: CommandContext,
+  runCommand: CommandRunner,
+  stdin?: string
+): Promise<CommandResult> {
+  const argv = [...cmd.argv];
+  let target = 'root';
+  let list = false;
+
+  while (argv[0]?.startsWith('-')) {
+    const opt = argv.shift()!;
+    if (opt === '--') break;
+    if (opt === '-u') target = argv.shift() ?? '';
+    else if (opt === '-l') list = true;
+    else if (opt === '-i' || opt === '-s') {
+      return { output: '', stderr: 'sudo: interactive root shells are not available here; run each command with sudo', exitCode: 1 };
+    } else if (opt !== '-E' && opt !== '-H' && opt !== '-n') {
+      return { output: '', stderr: `sudo: invalid option -- '${opt.replace(/^-+/, '')}'\nusage: sudo [-u user] command`, exitCode: 1 };
+    }
+  }
+
+  const rules = readSudoers(ctx.fs).filter(rule => ruleApplies(rule, ctx));
+
+  if (list) {
+    if (rules.length === 0) {
+      return { output: '', stderr: `Sorry, user ${ctx.user} may not run sudo on ${ctx.hostname}.`, exitCode: 1 };
+    }
+    const lines = rules.map(r => `    (${r.runAs.join(':')}) ${r.commands.join(', ')}`);
+    return {
+      output: `User ${ctx.user} may run the following commands on ${ctx.hostname}:\n${lines.join('\n')}`,
+      exitCode: 0,
+    };
+  }
+
+  if (argv.length === 0) {
+    return { output: '', stderr: 'usage: sudo [-u user] command', exitCode: 1 };
+  }
+  const user = lookupUser(ctx.fs, target);
+  if (!user) {
+    return { output: '', stderr: `sudo: unknown user ${target}`, exitCode: 1 };
+  }
+
+  if (ctx.user !== 'root') {
+    if (rules.length === 0) {
+      return { output: '', stderr: `${ctx.user} is not in the sudoers file.  This incident will be reported.`, exitCode: 1 };
+    }
+    if (!rules.some(rule => ruleAllows(rule, target, argv))) {
+      return {
+        output: '',
+        stderr: `Sorry, user ${ctx.user} is not allowed to execute '${argv.join(' ')}' as ${target} on ${ctx.hostname}.`,
+        exitCode: 1,
+      };
+    }
+  }
+
+  const child = ctx.fork();
+  child.user = target;
+  child.env.USER = target;
+  child.env.LOGNAME = target;
+  child.env.HOME = user.home;
+
+  const savedUser = ctx.fs.getUser();
+  ctx.fs.setUser(target);
+  try {
+    return await runCommand(argv, child, stdin);
+  } finally {
+    ctx.fs.setUser(savedUser);
+  }
+}
+
+function readSudoers(fs: VirtualFileSystem): SudoRule[] {
+  return fs.runAs('root', () => {
+    const sources = [fs.readFile('/etc/sudoers') ?? ''];
+    for (const entry of fs.listDir('/etc/sudoers.d') ?? []) {
+      if (entry.type === 'file') sources.push(entry.content ?? '');
+    }
+    return sources.flatMap(parseSudoers);
+  });
+}
+
+function parseSudoers(content: string): SudoRule[] {
+  const rules: SudoRule[] = [];
+  for (const raw of content.split('\n')) {
+    const line = raw.trim();
+    if (!line || line.startsWith('#') || line.startsWith('Defaults')) continue;
+
+    const match = line.match(/^(\S+)\s+\S+\s*=\s*(?:\(([^)]*)\))?\s*(.*)$/);
+    if (!match) continue;
+
+    const commands = match[3]
+      .replace(/\b(NOPASSWD|PASSWD|SETENV|NOEXEC):\s*/g, '')
+      .split(',')
+      .map(c => c.trim())
+      .filter(Boolean);
+    rules.push({
+      who: match[1],
+      runAs: (match[2] ?? 'root').split(':').map(r => r.trim()).filter(Boolean),
+      commands,
+    });
+  }
+  return rules;
+}
+
+function ruleApplies(rule: SudoRule, ctx: CommandContext): boolean {
+  if (rule.who === 'ALL' || rule.who === ctx.user) return true;
+  return rule.who.startsWith('%') && ctx.fs.getGroups().includes(rule.who.slice(1));
+}
+
+function ruleAllows(rule: SudoRule, target: string, argv: string[]): boolean {
+  const runAsUser = rule.runAs[0] ?? 'root';
+  if (runAsUser !== 'ALL' && runAsUser !== target) return false;
+
+  return rule.commands.some(allowed => {
+    if (allowed === 'ALL') return true;
+    const [path, ...args] = allowed.split(/\s+/);
+    const name = path.split('/').pop();
+    if (argv[0] !== path && argv[0] !== name) return false;
+    // A rule without arguments allows any arguments
+    return args.length === 0 || args.join(' ') === argv.slice(1).join(' ');
+  });
+}
+
+// --- /etc/passwd and /etc/group ---
+
+export function lookupUser(fs: VirtualFileSystem, name: string): { uid: number; group: string; home: string } | null {
+  const passwd = fs.runAs('root', () => fs.readFile('/etc/passwd')) ?? '';
+  for (const line of passwd.split('\n')) {
+    const [user, , uid, gid, , home] = line.split(':');
+    if (user !== name) continue;
+    const group = groupById(fs, gid) ?? name;
+    return { uid: parseInt(uid, 10), group, home: home || '/' };
+  }
+  return null;
+}
+
+export function lookupGroup(fs: VirtualFileSystem, name: string): { gid: number; members: string[] } | null {
+  for (const line of readGroupFile(fs)) {
+    const [group, , gid, members = ''] = line.split(':');
+    if (group === name) return { gid: parseInt(gid, 10), members: members.split(',').filter(Boolean) };
+  }
+  return null;
+}
+
+function groupById(fs: VirtualFileSystem, gid: string): string | null {
+  for (const line of readGroupFile(fs)) {
+    const [group, , id] = line.split(':');
+    if (id === gid) return group;
+  }
+  return null;
+}
+
+function groupsOf(fs: VirtualFileSystem, user: string, primary: string): string[] {
+  const groups = [primary];
+  for (const line of readGroupFile(fs)) {
+    const [group, , , members = ''] = line.split(':');
+    if (group !== primary && members.split(',').includes(user)) groups.push(group);
+  }
+  return groups;
+}
+
+function readGroupFile(fs: VirtualFileSystem): string[] {
+  return (fs.runAs('root', () => fs.readFile('/etc/group')) ?? '').split('\n').filter(Boolean);
+}
@@ -10,12 +10,12 @@ export function registerPythonCommands(registry: CommandRegistry): void {
 }
 
 function handlePython(cmd: ParsedCommand, ctx: CommandContext): CommandResult {
-  if (cmd.args.length === 0 || cmd.args[0] === '--version' || cmd.args[0] === '-V') {
+  if (cmd.argv.length === 0 || cmd.argv[0] === '--version' || cmd.argv[0] === '-V') {
     return { output: 'Python 3.12.1', exitCode: 0 };
   }
 
-  if (cmd.args[0] === '-c') {
-    const code = cmd.args.slice(1).join(' ');
+  if (cmd.argv[0] === '-c') {
+    const code = cmd.argv.slice(1).join(' ');
     return evaluatePython(code);
   }
 
@@ -24,7 +24,8 @@ function handlePython(cmd: ParsedCommand, ctx: CommandContext): CommandResult {
   const content = ctx.fs.readFile(filePath, '/');
   if (content === null) {
     return {
-      output: `python3: can't open file '${cmd.args[0]}': [Errno 2] No such file or directory`,
+      output: '',
+      stderr: `python3: can't open file '${cmd.args[0]}': [Errno 2] No such file or directory`,
       exitCode: 2,
     };
   }
@@ -43,7 +44,7 @@ function handlePip(cmd: ParsedCommand): CommandResult {
     case 'install':
       const packages = cmd.args.slice(1).filter(a => !a.startsWith('-'));
       if (packages.length === 0) {
-        return { output: 'ERROR: You must give at least one requirement to install', exitCode: 1 };
+        return { output: '', stderr: 'ERROR: You must give at least one requirement to install', exitCode: 1 };
       }
       return {
         output: packages.map(p => `Collecting ${p}\n  Downloading ${p}-latest.tar.gz\nInstalling collected packages: ${p}\nSuccessfully installed ${p}-latest`).join('\n'),
@@ -60,7 +61,7 @@ function handlePip(cmd: ParsedCommand): CommandResult {
       return { output: '', exitCode: 0 };
 
     default:
-      return { output: `ERROR: unknown command "${subcommand}"`, exitCode: 1 };
+      return { output: '', stderr: `ERROR: unknown command "${subcommand}"`, exitCode: 1 };
   }
 }
 
@@ -77,7 +78,7 @@ function evaluatePython(code: string): CommandResult {
       try {
         return { output: String(eval(arg)), exitCode: 0 };
       } catch {
-        return { output: 'SyntaxError', exitCode: 1 };
+        return { output: '', stderr: 'SyntaxError', exitCode: 1 };
       }
     }
     return { output: arg, exitCode: 0 };
@@ -0,0 +1,290 @@
+import { CommandRegistry, CommandResult } from '../CommandRegistry';
+import { ParsedCommand } from '../CommandParser';
+import { CommandContext } from '../CommandContext';
+
+/** Runs shell source in the given context (provided by the executor) */
+export type ScriptRunner = (
+  source: string,
+  ctx: CommandContext,
+  name: string,
+  stdin?: string
+) => Promise<CommandResult>;
+
+export function registerShellCommands(registry: CommandRegistry, runScript: ScriptRunner): void {
+  registry.register('test', (cmd, ctx) => handleTest(cmd, ctx, 'test'));
+  registry.register('[', (cmd, ctx) => handleTest(cmd, ctx, '['));
+  registry.register('source', (cmd, ctx, stdin) => handleSource(cmd, ctx, runScript, stdin));
+  registry.registerAlias('.', 'source');
+  registry.register('bash', (cmd, ctx, stdin) => handleBash(cmd, ctx, runScript, stdin));
+  registry.registerAlias('sh', 'bash');
+  registry.register('alias', handleAlias);
+  registry.register('unalias', handleUnalias);
+  registry.register('shift', handleShift);
+}
+
+class TestSyntaxError extends Error {}
+
+function handleTest(cmd: ParsedCommand, ctx: CommandContext, name: 'test' | '['): CommandResult {
+  const args = [...cmd.argv];
+  if (name === '[') {
+    if (args[args.length - 1] !== ']') {
+      return { output: '', stderr: "bash: [: missing `]'", exitCode: 2 };
+    }
+    args.pop();
+  }
+
+  try {
+    return { output: '', exitCode: evaluateTest(args, ctx) ? 0 : 1 };
+  } catch (err) {
+    if (err instanceof TestSyntaxError) {
+      return { output: '', stderr: `bash: ${name}: ${err.message}`, exitCode: 2 };
+    }
+    throw err;
+  }
+}
+
+const UNARY_OPERATORS = new Set(['-e', '-f', '-d', '-s', '-r', '-w', '-x', '-z', '-n']);
+const BINARY_OPERATORS = new Set(['=', '==', '!=', '<', '>', '-eq', '-ne', '-lt', '-le', '-gt', '-ge']);
+
+/** Evaluate a test(1) expression: ! ( ) -a -o, file tests, string and integer comparisons */
+function evaluateTest(args: string[], ctx: CommandContext): boolean {
+  if (args.length === 0) return false;
+
+  let pos = 0;
+  const peek = () => args[pos];
+
+  const parseOr = (): boolean => {
+    let value = parseAnd();
+    while (peek() === '-o') {
+      pos++;
+      const right = parseAnd();
+      value = value || right;
+    }
+    return value;
+  };
+
+  const parseAnd = (): boolean => {
+    let value = parseNot();
+    while (peek() === '-a') {
+      pos++;
+      const right = parseNot();
+      value = value && right;
+    }
+    return value;
+  };
+
+  const parseNot = (): boolean => {
+    if (peek() === '!' && pos + 1 < args.length) {
+      pos++;
+      return !parseNot();
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): boolean => {
+    const token = args[pos];
+    if (token === undefined) throw new TestSyntaxError('argument expected');
+
+    if (token === '(' && args.length - pos > 2) {
+      pos++;
+      const value = parseOr();
+      if (peek() !== ')') throw new TestSyntaxError("`)' expected");
+      pos++;
+      return value;
+    }
+
+    if (BINARY_OPERATORS.has(args[pos + 1]) && pos + 2 < args.length) {
+      pos += 3;
+      return compare(token, args[pos - 2], args[pos - 1]);
+    }
+
+    if (UNARY_OPERATORS.has(token) && pos + 1 < args.length) {
+      pos += 2;
+      return unaryTest(token, args[pos - 1], ctx);
+    }
+
+    pos++;
+    return token.length > 0;
+  };
+
+  const result = parseOr();
+  if (pos < args.length) {
+    throw new TestSyntaxError(`${args[pos]}: unexpected operator`);
+  }
+  return result;
+}
+
+function unaryTest(op: string, operand: string, ctx: CommandContext): boolean {
+  if (op === '-z') return operand.length === 0;
+  if (op === '-n') return operand.length > 0;
+
+  const path = ctx.resolvePath(operand);
+  const node = ctx.fs.resolve(path, '/');
+  switch (op) {
+    case '-e':
+      return node !== null;
+    case '-r':
+      return ctx.fs.canAccess(path, 'r', '/');
+    case '-w':
+      return ctx.fs.canAccess(path, 'w', '/');
+    case '-f':
+      return node?.type === 'file';
+    case '-d':
+      return node?.type === 'directory';
+    case '-s':
+      return node !== null && (node.type !== 'file' || (node.content ?? '').length > 0);
+    case '-x':
+      return ctx.fs.canAccess(path, 'x', '/');
+    default:
+      return false;
+  }
+}
+
+function compare(left: string, op: string, right: string): boolean {
+  switch (op) {
+    case '=': case '==': return left === right;
+    case '!=': return left !== right;
+    case '<': return left < right;
+    case '>': return left > right;
+  }
+
+  const a = toInteger(left);
+  const b = toInteger(right);
+  switch (op) {
+    case '-eq': return a === b;
+    case '-ne': return a !== b;
+    case '-lt': return a < b;
+    case '-le': return a <= b;
+    case '-gt': return a > b;
+    default: return a >= b;
+  }
+}
+
+function toInteger(value: string): number {
+  if (!/^\s*-?\d+\s*$/.test(value)) {
+    throw new TestSyntaxError(`${value}: integer expression expected`);
+  }
+  return parseInt(value, 10);
+}
+
+async function handleSource(
+  cmd: ParsedCommand,
+  ctx: CommandContext,
+  runScript: ScriptRunner,
+  stdin?: string
+): Promise<CommandResult> {
+  const [file, ...args] = cmd.argv;
+  if (!file) {
+    return { output: '', stderr: 'bash: source: filename argument required', exitCode: 2 };
+  }
+
+  const content = ctx.fs.readFile(ctx.resolvePath(file), '/');
+  if (content === null) {
+    return { output: '', stderr: `bash: ${file}: No such file or directory`, exitCode: 1 };
+  }
+
+  // Sourced files run in the current shell; arguments temporarily replace $1..$n
+  const savedArgs = ctx.positionalArgs;
+  if (args.length > 0) ctx.positionalArgs = args;
+  try {
+    return await runScript(content, ctx, file, stdin);
+  } finally {
+    if (args.length > 0) ctx.positionalArgs = savedArgs;
+  }
+}
+
+async function handleBash(
+  cmd: ParsedCommand,
+  ctx: CommandContext,
+  runScript: ScriptRunner,
+  stdin?: string
+): Promise<CommandResult> {
+  const argv = [...cmd.argv];
+  const shell = cmd.command;
+
+  if (argv[0] === '--version') {
+    return { output: 'GNU bash, version 5.2.21(1)-release (x86_64-pc-linux-gnu)', exitCode: 0 };
+  }
+
+  // Scripts run in a child shell: cwd, variables and functions don't leak back
+  const child = ctx.fork();
+
+  if (argv[0] === '-c') {
+    if (argv.length < 2) {
+      return { output: '', stderr: `${shell}: -c: option requires an argument`, exitCode: 2 };
+    }
+    child.scriptName = argv[2] ?? shell;
+    child.positionalArgs = argv.slice(3);
+    return runScript(argv[1], child, shell, stdin);
+  }
+
+  const file = argv.find(a => !a.startsWith('-'));
+  if (!file) {
+    // `cat script.sh | bash` reads the script from stdin
+    if (stdin) return runScript(stdin, child, shell);
+    return { output: '', exitCode: 0 };
+  }
+
+  const content = ctx.fs.readFile(ctx.resolvePath(file), '/');
+  if (content === null) {
+    const message = ctx.fs.isDirectory(ctx.resolvePath(file), '/') ? 'Is a directory' : 'No such file or directory';
+    return { output: '', stderr: `${shell}: ${file}: ${message}`, exitCode: 127 };
+  }
+
+  child.scriptName = file;
+  child.positionalArgs = argv.slice(argv.indexOf(file) + 1);
+  return runScript(content, child, file, stdin);
+}
+
+function handleAlias(cmd: ParsedCommand, ctx: CommandContext): CommandResult {
+  if (cmd.argv.length === 0) {
+    const lines = Array.from(ctx.aliases.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([name, value]) => `alias ${name}='${value}'`);
+    return { output: lines.join('\n'), exitCode: 0 };
+  }
+
+  const output: string[] = [];
+  const errors: string[] = [];
+  for (const arg of cmd.argv) {
+    const eqIdx = arg.indexOf('=');
+    if (eqIdx !== -1) {
+      ctx.aliases.set(arg.slice(0, eqIdx), arg.slice(eqIdx + 1));
+      continue;
+    }
+    const value = ctx.aliases.get(arg);
+    if (value === undefined) {
+      errors.push(`bash: alias: ${arg}: not found`);
+    } else {
+      output.push(`alias ${arg}='${value}'`);
+    }
+  }
+  return { output: output.join('\n'), stderr: errors.join('\n'), exitCode: errors.length > 0 ? 1 : 0 };
+}
+
+function handleUnalias(cmd: ParsedCommand, ctx: CommandContext): CommandResult {
+  if (cmd.flags['a'] === true) {
+    ctx.aliases.clear();
+    return { output: '', exitCode: 0 };
+  }
+
+  const errors: string[] = [];
+  for (const name of cmd.args) {
+    if (!ctx.aliases.delete(name)) {
+      errors.push(`bash: unalias: ${name}: not found`);
+    }
+  }
+  return { output: '', stderr: errors.join('\n'), exitCode: errors.length > 0 ? 1 : 0 };
+}
+
+function handleShift(cmd: ParsedCommand, ctx: CommandContext): CommandResult {
+  const count = cmd.args[0] === undefined ? 1 : parseInt(cmd.args[0], 10);
+  if (isNaN(count) || count < 0) {
+    return { output: '', stderr: `bash: shift: ${cmd.args[0]}: numeric argument required`, exitCode: 1 };
+  }
+  if (count > ctx.positionalArgs.length) {
+    return { output: '', exitCode: 1 };
+  }
+  ctx.positionalArgs = ctx.positionalArgs.slice(count);
+  return { output: '', exitCode: 0 };
+}
@@ -16,6 +16,7 @@ export function registerSystemCommands(registry: CommandRegistry): void {
   registry.register('man', handleMan);
   registry.register('help', handleHelp);
   registry.register('true', () => ({ output: '', exitCode: 0 }));
+  registry.register(':', () => ({ output: '', exitCode: 0 }));
   registry.register('false', () => ({ output: '', exitCode: 1 }));
   registry.register('exit', () => ({ output: 'Session is active. Use Ctrl+D or close the browser to end.', exitCode: 0 }));
   registry.register('sort', handleSort);
@@ -23,28 +24,26 @@ export function registerSystemCommands(registry: CommandRegistry): void {
   registry.register('xargs', handleXargs);
 }
 
-function handleEcho(cmd: ParsedCommand, ctx: CommandContext): CommandResult {
-  // Reconstruct args preserving original spacing
-  let output = cmd.args.join(' ');
-
-  // Handle -n flag (no trailing newline - we just return without \n)
-  const noNewline = cmd.flags['n'] === true;
+function handleEcho(cmd: ParsedCommand): CommandResult {
+  // echo only treats leading -n/-e/-E as options; everything else is printed verbatim
+  const argv = [...cmd.argv];
+  let interpretEscapes = false;
+  while (argv.length > 0 && /^-[neE]+$/.test(argv[0])) {
+    interpretEscapes = argv[0].includes('e') ? true : argv[0].includes('E') ? false : interpretEscapes;
+    argv.shift();
+  }
 
-  // Expand environment variables
-  output = output.replace(/\$(\w+)/g, (_, name) => ctx.env[name] || '');
-  output = output.replace(/\$\{(\w+)\}/g, (_, name) => ctx.env[name] || '');
+  let output = argv.join(' ');
 
   // Handle -e flag (interpret escape sequences)
-  if (cmd.flags['e'] === true) {
+  if (interpretEscapes) {
     output = output
       .replace(/\\n/g, '\n')
       .replace(/\\t/g, '\t')
       .replace(/\\\\/g, '\\');
   }
 
-  if (noNewline) {
-    return { output, exitCode: 0 };
-  }
+  // -n (no trailing newline) needs no handling: output never carries one
   return { output, exitCode: 0 };
 }
 
@@ -88,8 +87,8 @@ function handleHostname(_cmd: ParsedCommand, ctx: CommandContext): CommandResult
   return { output: ctx.hostname, exitCode: 0 };
 }
 
-function handleDate(): CommandResult {
-  const now = new Date();
+function handleDate(_cmd: ParsedCommand, ctx: CommandContext): CommandResult {
+  const now = new Date(ctx.clock.now());
   return { output: now.toUTCString(), exitCode: 0 };
 }
 
@@ -100,7 +99,7 @@ function handleUname(cmd: ParsedCommand): CommandResult {
   return { output: 'Linux', exitCode: 0 };
 }
 
-function handleWhich(cmd: ParsedCommand): CommandResult {
+function handleWhich(cmd: ParsedCommand, ctx: CommandContext): CommandResult {
   if (cmd.args.length === 0) return { output: '', exitCode: 1 };
 
   const knownCommands: Record<string, string> = {
@@ -120,19 +119,42 @@ function handleWhich(cmd: ParsedCommand): CommandResult {
     cat: '/bin/cat',
     ls: '/bin/ls',
     grep: '/bin/grep',
+    test: '/usr/bin/test',
+    '[': '/usr/bin/[',
     find: '/usr/bin/find',
+    tee: '/usr/bin/tee',
+    stat: '/usr/bin/stat',
+    du: '/usr/bin/du',
+    df: '/bin/df',
+    ln: '/bin/ln',
+    chmod: '/bin/chmod',
+    chown: '/bin/chown',
+    chgrp: '/bin/chgrp',
+    sudo: '/usr/bin/sudo',
+    id: '/usr/bin/id',
+    nano: '/usr/bin/nano',
+    vi: '/usr/bin/vi',
+    vim: '/usr/bin/vim',
   };
 
   const cmdName = cmd.args[0];
   if (knownCommands[cmdName]) {
     return { output: knownCommands[cmdName], exitCode: 0 };
   }
-  return { output: `${cmdName} not found`, exitCode: 1 };
+
+  // Scripts installed on $PATH, e.g. /usr/local/bin/deploy
+  for (const dir of (ctx.env.PATH ?? '').split(':').filter(Boolean)) {
+    const node = ctx.fs.resolve(`${dir}/${cmdName}`, '/');
+    if (node?.type === 'file' && node.permissions?.slice(1).includes('x')) {
+      return { output: `${dir}/${cmdName}`, exitCode: 0 };
+    }
+  }
+  return { output: '', stderr: `${cmdName} not found`, exitCode: 1 };
 }
 
 function handleMan(cmd: ParsedCommand): CommandResult {
   if (cmd.args.length === 0) {
-    return { output: 'What manual page do you want?\nFor example, try \'man man\'.', exitCode: 1 };
+    return { output: '', stderr: 'What manual page do you want?\nFor example, try \'man man\'.', exitCode: 1 };
   }
   return { output: `No manual entry for ${cmd.args[0]}\nTip: Use 'help' to see available commands.`, exitCode: 0 };
 }
@@ -141,16 +163,25 @@ function handleHelp(): CommandResult {
   const help = `FleetCore Interview Terminal - Available Commands:
 
   Navigation:     cd, ls, pwd, tree, find
-  File ops:       cat, head, tail, touch, mkdir, rm, cp, mv, wc
+  File ops:       cat, head, tail, touch, mkdir, rm, cp, mv, ln, wc, tee
+  Disk & info:    stat, du, df, ls -lt / -lS / -lh / -R
+  Editors:        nano, vim (vi)
   Search:         grep, find
+  Permissions:    chmod, chown, chgrp, umask, sudo, id, groups
   Docker:         docker, docker-compose
   Dev tools:      node, npm, npx, python, pip, git
   Network:        curl, wget
   System:         echo, env, export, clear, history, whoami, date
+  Shell:          bash, sh, source, test ([ ]), alias, shift, exit
+  Scripts:        ./script.sh args, or any executable on $PATH
   Challenge:      status, hint, submit, next-level
 
   Piping:         cmd1 | cmd2      Redirect:    cmd > file
   Chaining:       cmd1 && cmd2     Append:      cmd >> file
+  Errors:         cmd 2> file      Combine:     cmd > file 2>&1, cmd &> file
+  Input:          cmd < file       Discard:     cmd 2>/dev/null
+  Substitution:   \$(cmd), \`cmd\`    Globs:       *.ts, {a,b}
+  Control flow:   if/elif/else/fi, for/while/until ... do/done, case/esac, name() { ...; }
 
 Type 'status' to see your current challenge objectives.`;
 
@@ -0,0 +1,217 @@
+import { TextEditor, KEY, isPrintable } from './TextEditor';
+import { describeFSError } from '../VirtualFileSystem';
+
+const SHORTCUTS: Array<Array<[string, string]>> = [
+  [['^G', 'Help'], ['^O', 'Write Out'], ['^W', 'Where Is'], ['^K', 'Cut'], ['^U', 'Paste'], ['^C', 'Location']],
+  [['^X', 'Exit'], ['^_', 'Go To Line'], ['M-U', 'Undo'], ['M-E', 'Redo'], ['^A', 'Home'], ['^E', 'End']],
+];
+
+/** A subset of GNU nano: modeless editing with Ctrl-key shortcuts */
+export class NanoEditor extends TextEditor {
+  private cutBuffer: string[] = [];
+  private lastKeyWasCut = false;
+
+  protected textTop(): number {
+    return 1;
+  }
+
+  protected textHeight(): number {
+    return this.rows - 4;
+  }
+
+  protected handleKey(key: string): void {
+    const wasCut = this.lastKeyWasCut;
+    this.lastKeyWasCut = false;
+    this.message = '';
+
+    switch (key) {
+      case '\x18': // Ctrl+X
+        this.exit();
+        return;
+      case '\x0f': // Ctrl+O
+        this.writeOut(false);
+        return;
+      case '\x17': // Ctrl+W
+        this.whereIs();
+        return;
+      case '\x0b': // Ctrl+K
+        this.cutLine(wasCut);
+        return;
+      case '\x15': // Ctrl+U
+        this.uncut();
+        return;
+      case '\x1bu':
+      case '\x1bU':
+        this.message = this.undo() ? 'Undid action' : 'Nothing to undo';
+        return;
+      case '\x1be':
+      case '\x1bE':
+        this.message = this.redo() ? 'Redid action' : 'Nothing to redo';
+        return;
+      case '\x07': // Ctrl+G
+        this.message = 'Ctrl+O save, Ctrl+X exit, Ctrl+W search, Ctrl+K/Ctrl+U cut and paste lines';
+        return;
+      case '\x03': // Ctrl+C
+        this.message = `line ${this.row + 1}/${this.lines.length}, col ${this.col + 1}/${this.currentLine().length + 1}`;
+        return;
+      case '\x1f': // Ctrl+_
+        this.openPrompt({
+          label: 'Enter line number',
+          value: '',
+          onSubmit: (value) => {
+            const n = parseInt(value, 10);
+            if (isNaN(n)) this.message = 'Invalid line or column number';
+            else this.goToLine(n);
+          },
+        });
+        return;
+      case KEY.UP: this.moveUp(); return;
+      case KEY.DOWN: this.moveDown(); return;
+      case KEY.LEFT: this.moveLeft(); return;
+      case KEY.RIGHT: this.moveRight(); return;
+      case KEY.HOME:
+      case '\x01': // Ctrl+A
+        this.moveToLineStart();
+        return;
+      case KEY.END:
+      case '\x05': // Ctrl+E
+        this.moveToLineEnd();
+        return;
+      case KEY.PAGE_UP:
+      case '\x19': // Ctrl+Y
+        this.pageUp();
+        return;
+      case KEY.PAGE_DOWN:
+      case '\x16': // Ctrl+V
+        this.pageDown();
+        return;
+      case KEY.ENTER:
+        this.insertNewline();
+        return;
+      case KEY.BACKSPACE:
+        this.backspace();
+        return;
+      case KEY.DELETE:
+      case '\x04': // Ctrl+D
+        this.deleteForward();
+        return;
+      case KEY.TAB:
+        this.insertChar('\t');
+        return;
+    }
+
+    if (isPrintable(key)) {
+      this.insertChar(key);
+    }
+  }
+
+  private exit(): void {
+    if (!this.modified) {
+      this.close();
+      return;
+    }
+    this.openPrompt({
+      label: 'Save modified buffer?  Y Yes  N No  ^C Cancel',
+      value: '',
+      choices: 'yn',
+      onSubmit: (answer) => {
+        if (answer === 'y') this.writeOut(true);
+        else this.close();
+      },
+    });
+  }
+
+  private writeOut(exitAfter: boolean): void {
+    this.openPrompt({
+      label: 'File Name to Write',
+      value: this.path ? this.displayName : '',
+      onSubmit: (name) => {
+        if (!name.trim()) {
+          this.message = 'Cancelled';
+          return;
+        }
+        const target = name === this.displayName && this.path ? undefined : name;
+        if (!this.save(target)) {
+          this.message = `Error writing ${name}: ${describeFSError(this.ctx.fs.lastError)}`;
+          return;
+        }
+        this.message = `Wrote ${this.lines.length} line${this.lines.length === 1 ? '' : 's'}`;
+        if (exitAfter) this.close();
+      },
+    });
+  }
+
+  private whereIs(): void {
+    this.openPrompt({
+      label: this.lastSearch ? `Search [${this.lastSearch}]` : 'Search',
+      value: '',
+      onSubmit: (value) => {
+        const term = value || this.lastSearch;
+        if (!term) {
+          this.message = 'Cancelled';
+          return;
+        }
+        if (!this.search(term)) {
+          this.message = `"${term}" not found`;
+        }
+      },
+    });
+  }
+
+  private cutLine(append: boolean): void {
+    const removed = this.removeLines(1);
+    this.cutBuffer = append ? [...this.cutBuffer, ...removed] : removed;
+    this.lastKeyWasCut = true;
+  }
+
+  private uncut(): void {
+    if (this.cutBuffer.length === 0) {
+      this.message = 'Cutbuffer is empty';
+      return;
+    }
+    this.insertLines(this.row, this.cutBuffer);
+    this.row += this.cutBuffer.length;
+    this.row = Math.min(this.row, this.lines.length - 1);
+    this.col = 0;
+  }
+
+  protected renderChrome(): { output: string; promptCursor?: [number, number] } {
+    const width = this.cols;
+    let out = '';
+
+    // Title bar
+    const left = '  GNU nano 7.2';
+    const name = this.path ? this.displayName : 'New Buffer';
+    const right = this.modified ? 'Modified  ' : '';
+    const centerStart = Math.max(left.length + 1, Math.floor((width - name.length) / 2));
+    let title = left.padEnd(centerStart) + name;
+    title = title.padEnd(width - right.length) + right;
+    out += `\x1b[1;1H\x1b[2K\x1b[7m${title.slice(0, width)}\x1b[0m`;
+
+    // Status / prompt line
+    const statusRow = this.rows - 3;
+    out += `\x1b[${statusRow + 1};1H\x1b[2K`;
+    let promptCursor: [number, number] | undefined;
+    if (this.prompt) {
+      const text = `${this.prompt.label}: ${this.prompt.value}`;
+      out += `\x1b[7m${text.padEnd(width).slice(0, width)}\x1b[0m`;
+      promptCursor = [statusRow, Math.min(text.length, width - 1)];
+    } else if (this.message) {
+      const text = `[ ${this.message} ]`;
+      const pad = Math.max(0, Math.floor((width - text.length) / 2));
+      out += ' '.repeat(pad) + `\x1b[7m${text.slice(0, width)}\x1b[0m`;
+    }
+
+    // Shortcut rows
+    const cellWidth = Math.floor(width / SHORTCUTS[0].length);
+    SHORTCUTS.forEach((row, i) => {
+      out += `\x1b[${this.rows - 1 + i};1H\x1b[2K`;
+      for (const [keys, label] of row) {
+        const cell = `${keys} ${label}`.padEnd(cellWidth).slice(0, cellWidth);
+        out += `\x1b[7m${keys}\x1b[0m${cell.slice(keys.length)}`;
+      }
+    });
+
+    return { output: out, promptCursor };
+  }
+}
@@ -0,0 +1,527 @@
+import { CommandContext } from '../CommandContext';
+
+export const KEY = {
+  UP: '\x1b[A',
+  DOWN: '\x1b[B',
+  RIGHT: '\x1b[C',
+  LEFT: '\x1b[D',
+  HOME: '\x1b[H',
+  END: '\x1b[F',
+  DELETE: '\x1b[3~',
+  PAGE_UP: '\x1b[5~',
+  PAGE_DOWN: '\x1b[6~',
+  ESCAPE: '\x1b',
+  ENTER: '\r',
+  BACKSPACE: '\x7f',
+  TAB: '\t',
+} as const;
+
+const KEY_ALIASES: Record<string, string> = {
+  '\x1bOA': KEY.UP,
+  '\x1bOB': KEY.DOWN,
+  '\x1bOC': KEY.RIGHT,
+  '\x1bOD': KEY.LEFT,
+  '\x1bOH': KEY.HOME,
+  '\x1bOF': KEY.END,
+  '\x1b[1~': KEY.HOME,
+  '\x1b[7~': KEY.HOME,
+  '\x1b[4~': KEY.END,
+  '\x1b[8~': KEY.END,
+};
+
+const TAB_WIDTH = 8;
+
+/** Split raw xterm input into individual keys, normalising alternate escape forms */
+export function splitKeys(data: string): string[] {
+  const keys: string[] = [];
+  let i = 0;
+
+  while (i < data.length) {
+    const char = data[i];
+
+    if (char === '\x1b' && i + 1 < data.length) {
+      const next = data[i + 1];
+      if (next === '[' || next === 'O') {
+        // CSI / SS3 sequence: parameters followed by a single final byte
+        let j = i + 2;
+        while (j < data.length && /[0-9;]/.test(data[j])) j++;
+        const seq = data.slice(i, j + 1);
+        keys.push(KEY_ALIASES[seq] || seq);
+        i = j + 1;
+        continue;
+      }
+      // Alt+key arrives as ESC followed by the key
+      keys.push(data.slice(i, i + 2));
+      i += 2;
+      continue;
+    }
+
+    if (char === '\r' && data[i + 1] === '\n') {
+      keys.push(KEY.ENTER);
+      i += 2;
+      continue;
+    }
+
+    if (char === '\n') keys.push(KEY.ENTER);
+    else if (char === '\b') keys.push(KEY.BACKSPACE);
+    else keys.push(char);
+    i++;
+  }
+
+  return keys;
+}
+
+export function isPrintable(key: string): boolean {
+  return key.length === 1 && key.charCodeAt(0) >= 32 && key !== KEY.BACKSPACE;
+}
+
+export interface EditorPrompt {
+  label: string;
+  value: string;
+  /** When set, the first key found in this string answers the prompt immediately */
+  choices?: string;
+  onSubmit: (value: string) => void;
+  onCancel?: () => void;
+}
+
+interface EditorSnapshot {
+  lines: string[];
+  row: number;
+  col: number;
+}
+
+/**
+ * Base class for the full-screen editors. Owns the line buffer, cursor,
+ * scrolling, undo history and rendering; subclasses supply key bindings
+ * and the surrounding chrome (title bar, status line, shortcuts).
+ */
+export abstract class TextEditor {
+  protected ctx: CommandContext;
+  protected path: string | null;
+  protected displayName: string;
+  protected lines: string[];
+  protected row = 0;
+  protected col = 0;
+  protected scrollTop = 0;
+  protected scrollLeft = 0;
+  protected cols = 80;
+  protected rows = 24;
+  protected modified = false;
+  protected isNewFile: boolean;
+  protected message = '';
+  protected prompt: EditorPrompt | null = null;
+  protected lastSearch = '';
+  private undoStack: EditorSnapshot[] = [];
+  private redoStack: EditorSnapshot[] = [];
+  private lastEditKind: string | null = null;
+  private closed = false;
+
+  constructor(ctx: CommandContext, path: string | null, displayName: string) {
+    this.ctx = ctx;
+    this.path = path;
+    this.displayName = displayName;
+
+    const content = path ? ctx.fs.readFile(path, '/') : null;
+    this.isNewFile = content === null;
+    this.lines = content ? content.replace(/\n$/, '').split('\n') : [''];
+  }
+
+  /** Feed raw terminal input; returns the escape sequences needed to redraw */
+  handleInput(data: string): string {
+    for (const key of splitKeys(data)) {
+      if (this.closed) break;
+      if (this.prompt) {
+        this.handlePromptKey(key);
+      } else {
+        this.handleKey(key);
+      }
+    }
+    return this.closed ? '' : this.render();
+  }
+
+  /** Insert pasted text at the cursor */
+  insertText(text: string): string {
+    if (this.prompt) {
+      this.prompt.value += text.replace(/[\r\n]/g, '');
+      return this.render();
+    }
+    this.checkpoint('paste');
+    for (const char of text.replace(/\r\n?/g, '\n')) {
+      if (char === '\n') this.splitLine();
+      else this.putChar(char);
+    }
+    this.breakUndoGroup();
+    return this.render();
+  }
+
+  resize(cols: number, rows: number): string {
+    this.cols = Math.max(20, cols);
+    this.rows = Math.max(6, rows);
+    return this.closed ? '' : this.render();
+  }
+
+  isClosed(): boolean {
+    return this.closed;
+  }
+
+  protected abstract handleKey(key: string): void;
+
+  /** First screen row (0-based) used for file text */
+  protected abstract textTop(): number;
+
+  /** Number of screen rows available for file text */
+  protected abstract textHeight(): number;
+
+  /** Draw everything around the text area and return the prompt cursor position, if any */
+  protected abstract renderChrome(): { output: string; promptCursor?: [number, number] };
+
+  /** What to draw on rows past the end of the file */
+  protected emptyLineMarker(): string {
+    return '';
+  }
+
+  protected close(): void {
+    this.closed = true;
+  }
+
+  render(): string {
+    this.scrollToCursor();
+
+    let out = '\x1b[?25l';
+    for (let i = 0; i < this.textHeight(); i++) {
+      const lineIdx = this.scrollTop + i;
+      out += `\x1b[${this.textTop() + i + 1};1H\x1b[2K`;
+      if (lineIdx < this.lines.length) {
+        out += expandTabs(this.lines[lineIdx]).slice(this.scrollLeft, this.scrollLeft + this.cols);
+      } else {
+        out += this.emptyLineMarker();
+      }
+    }
+
+    const chrome = this.renderChrome();
+    out += chrome.output;
+
+    if (chrome.promptCursor) {
+      const [r, c] = chrome.promptCursor;
+      out += `\x1b[${r + 1};${c + 1}H`;
+    } else {
+      const screenRow = this.textTop() + this.row - this.scrollTop;
+      const screenCol = displayColumn(this.currentLine(), this.col) - this.scrollLeft;
+      out += `\x1b[${screenRow + 1};${screenCol + 1}H`;
+    }
+
+    return out + '\x1b[?25h';
+  }
+
+  // --- Prompt handling ---
+
+  protected openPrompt(prompt: EditorPrompt): void {
+    this.prompt = prompt;
+  }
+
+  private handlePromptKey(key: string): void {
+    const prompt = this.prompt!;
+
+    if (key === '\x03' || key === KEY.ESCAPE) {
+      this.prompt = null;
+      if (prompt.onCancel) prompt.onCancel();
+      else this.message = 'Cancelled';
+      return;
+    }
+
+    if (prompt.choices) {
+      const answer = key.toLowerCase();
+      if (answer.length === 1 && prompt.choices.toLowerCase().includes(answer)) {
+        this.prompt = null;
+        prompt.onSubmit(answer);
+      }
+      return;
+    }
+
+    if (key === KEY.ENTER) {
+      this.prompt = null;
+      prompt.onSubmit(prompt.value);
+      return;
+    }
+
+    if (key === KEY.BACKSPACE) {
+      if (prompt.value.length === 0 && prompt.onCancel) {
+        this.prompt = null;
+        prompt.onCancel();
+        return;
+      }
+      prompt.value = prompt.value.slice(0, -1);
+      return;
+    }
+
+    if (isPrintable(key) || key === KEY.TAB) {
+      prompt.value += key;
+    }
+  }
+
+  // --- Buffer editing ---
+
+  protected currentLine(): string {
+    return this.lines[this.row];
+  }
+
+  /** Insert a character at the cursor (groups consecutive typing into one undo step) */
+  protected insertChar(char: string): void {
+    this.checkpoint('type');
+    this.putChar(char);
+  }
+
+  protected insertNewline(): void {
+    this.checkpoint('newline');
+    this.splitLine();
+  }
+
+  protected backspace(): void {
+    if (this.col === 0 && this.row === 0) return;
+    this.checkpoint('backspace');
+    if (this.col > 0) {
+      const line = this.currentLine();
+      this.lines[this.row] = line.slice(0, this.col - 1) + line.slice(this.col);
+      this.col--;
+    } else {
+      const prev = this.lines[this.row - 1];
+      this.lines[this.row - 1] = prev + this.currentLine();
+      this.lines.splice(this.row, 1);
+      this.row--;
+      this.col = prev.length;
+    }
+    this.modified = true;
+  }
+
+  protected deleteForward(): void {
+    const line = this.currentLine();
+    if (this.col >= line.length && this.row >= this.lines.length - 1) return;
+    this.checkpoint('delete');
+    if (this.col < line.length) {
+      this.lines[this.row] = line.slice(0, this.col) + line.slice(this.col + 1);
+    } else {
+      this.lines[this.row] = line + this.lines[this.row + 1];
+      this.lines.splice(this.row + 1, 1);
+    }
+    this.modified = true;
+  }
+
+  /** Remove `count` lines starting at the cursor row and return them */
+  protected removeLines(count: number): string[] {
+    this.checkpoint('cut');
+    const removed = this.lines.splice(this.row, count);
+    if (this.lines.length === 0) this.lines = [''];
+    this.row = Math.min(this.row, this.lines.length - 1);
+    this.col = 0;
+    this.modified = true;
+    return removed;
+  }
+
+  /** Insert whole lines at `index` */
+  protected insertLines(index: number, newLines: string[]): void {
+    this.checkpoint('paste');
+    this.lines.splice(index, 0, ...newLines);
+    this.modified = true;
+  }
+
+  private putChar(char: string): void {
+    const line = this.currentLine();
+    this.lines[this.row] = line.slice(0, this.col) + char + line.slice(this.col);
+    this.col += char.length;
+    this.modified = true;
+  }
+
+  private splitLine(): void {
+    const line = this.currentLine();
+    this.lines[this.row] = line.slice(0, this.col);
+    this.lines.splice(this.row + 1, 0, line.slice(this.col));
+    this.row++;
+    this.col = 0;
+    this.modified = true;
+  }
+
+  // --- Cursor movement ---
+
+  protected moveUp(count: number = 1): void {
+    this.breakUndoGroup();
+    this.row = Math.max(0, this.row - count);
+    this.clampCol();
+  }
+
+  protected moveDown(count: number = 1): void {
+    this.breakUndoGroup();
+    this.row = Math.min(this.lines.length - 1, this.row + count);
+    this.clampCol();
+  }
+
+  protected moveLeft(wrap: boolean = true): void {
+    this.breakUndoGroup();
+    if (this.col > 0) {
+      this.col--;
+    } else if (wrap && this.row > 0) {
+      this.row--;
+      this.col = this.currentLine().length;
+    }
+  }
+
+  protected moveRight(wrap: boolean = true): void {
+    this.breakUndoGroup();
+    if (this.col < this.currentLine().length) {
+      this.col++;
+    } else if (wrap && this.row < this.lines.length - 1) {
+      this.row++;
+      this.col = 0;
+    }
+  }
+
+  protected moveToLineStart(): void {
+    this.breakUndoGroup();
+    this.col = 0;
+  }
+
+  protected moveToLineEnd(): void {
+    this.breakUndoGroup();
+    this.col = this.currentLine().length;
+  }
+
+  protected goToLine(lineNumber: number): void {
+    this.breakUndoGroup();
+    this.row = Math.max(0, Math.min(this.lines.length - 1, lineNumber - 1));
+    this.col = 0;
+  }
+
+  protected pageDown(): void {
+    this.moveDown(Math.max(1, this.textHeight() - 2));
+  }
+
+  protected pageUp(): void {
+    this.moveUp(Math.max(1, this.textHeight() - 2));
+  }
+
+  protected clampCol(): void {
+    this.col = Math.min(this.col, this.currentLine().length);
+  }
+
+  private scrollToCursor(): void {
+    const height = this.textHeight();
+    if (this.row < this.scrollTop) this.scrollTop = this.row;
+    if (this.row >= this.scrollTop + height) this.scrollTop = this.row - height + 1;
+
+    const cursorCol = displayColumn(this.currentLine(), this.col);
+    if (cursorCol < this.scrollLeft) this.scrollLeft = cursorCol;
+    if (cursorCol >= this.scrollLeft + this.cols) this.scrollLeft = cursorCol - this.cols + 1;
+  }
+
+  // --- Search ---
+
+  /** Find the next occurrence of `term` after the cursor, wrapping around the buffer */
+  protected search(term: string, backwards: boolean = false): boolean {
+    if (!term) return false;
+    this.lastSearch = term;
+    const total = this.lines.length;
+
+    for (let step = 0; step <= total; step++) {
+      const idx = backwards
+        ? (this.row - step + total) % total
+        : (this.row + step) % total;
+      const line = this.lines[idx];
+      let found: number;
+
+      if (backwards) {
+        const before = step === 0 ? this.col - 1 : line.length;
+        found = before < 0 ? -1 : line.lastIndexOf(term, before);
+      } else {
+        found = line.indexOf(term, step === 0 ? this.col + 1 : 0);
+      }
+
+      if (found !== -1) {
+        this.breakUndoGroup();
+        this.row = idx;
+        this.col = found;
+        return true;
+      }
+    }
+    return false;
+  }
+
+  // --- Undo ---
+
+  /** Record the buffer before a change; consecutive edits of the same kind share a step */
+  protected checkpoint(kind: string): void {
+    if (kind === this.lastEditKind && (kind === 'type' || kind === 'backspace' || kind === 'delete')) {
+      return;
+    }
+    this.undoStack.push(this.snapshot());
+    if (this.undoStack.length > 200) this.undoStack.shift();
+    this.redoStack = [];
+    this.lastEditKind = kind;
+  }
+
+  protected breakUndoGroup(): void {
+    this.lastEditKind = null;
+  }
+
+  protected undo(): boolean {
+    const previous = this.undoStack.pop();
+    if (!previous) return false;
+    this.redoStack.push(this.snapshot());
+    this.restore(previous);
+    return true;
+  }
+
+  protected redo(): boolean {
+    const next = this.redoStack.pop();
+    if (!next) return false;
+    this.undoStack.push(this.snapshot());
+    this.restore(next);
+    return true;
+  }
+
+  private snapshot(): EditorSnapshot {
+    return { lines: [...this.lines], row: this.row, col: this.col };
+  }
+
+  private restore(snapshot: EditorSnapshot): void {
+    this.lines = snapshot.lines;
+    this.row = snapshot.row;
+    this.col = snapshot.col;
+    this.modified = true;
+    this.breakUndoGroup();
+  }
+
+  // --- Files ---
+
+  /** Write the buffer to the VFS. Returns false when the target cannot be written. */
+  protected save(target?: string): boolean {
+    const path = target ? this.ctx.resolvePath(target) : this.path;
+    if (!path) return false;
+    if (!this.ctx.fs.writeFile(path, this.getContent(), '/')) return false;
+
+    if (target) this.displayName = target;
+    this.path = path;
+    this.modified = false;
+    this.isNewFile = false;
+    return true;
+  }
+
+  protected getContent(): string {
+    return this.lines.join('\n') + '\n';
+  }
+}
+
+function expandTabs(line: string): string {
+  if (!line.includes('\t')) return line;
+  let out = '';
+  for (const char of line) {
+    if (char === '\t') {
+      out += ' '.repeat(TAB_WIDTH - (out.length % TAB_WIDTH));
+    } else {
+      out += char;
+    }
+  }
+  return out;
+}
+
+function displayColumn(line: string, col: number): number {
+  return expandTabs(line.slice(0, col)).length;
+}
@@ -0,0 +1,416 @@
+import { TextEditor, KEY, isPrintable } from './TextEditor';
+
+type ViMode = 'normal' | 'insert';
+
+interface Register {
+  text: string[];
+  linewise: boolean;
+}
+
+/** A modal vi/vim subset: normal and insert modes, ex commands, search and undo */
+export class ViEditor extends TextEditor {
+  private mode: ViMode = 'normal';
+  private pending = '';
+  private register: Register = { text: [], linewise: false };
+  private searchBackwards = false;
+
+  constructor(...args: ConstructorParameters<typeof TextEditor>) {
+    super(...args);
+    if (this.path) {
+      this.message = this.isNewFile
+        ? `"${this.displayName}" [New]`
+        : `"${this.displayName}" ${this.lines.length}L, ${this.getContent().length}B`;
+    }
+  }
+
+  protected textTop(): number {
+    return 0;
+  }
+
+  protected textHeight(): number {
+    return this.rows - 1;
+  }
+
+  protected emptyLineMarker(): string {
+    return '\x1b[34m~\x1b[0m';
+  }
+
+  protected handleKey(key: string): void {
+    // Alt+key arrives as ESC+key; treat it as leaving insert mode then the key
+    if (key.length === 2 && key[0] === KEY.ESCAPE) {
+      this.handleKey(KEY.ESCAPE);
+      this.handleKey(key[1]);
+      return;
+    }
+
+    if (this.mode === 'insert') {
+      this.handleInsertKey(key);
+    } else {
+      this.handleNormalKey(key);
+    }
+  }
+
+  private handleInsertKey(key: string): void {
+    switch (key) {
+      case KEY.ESCAPE:
+      case '\x03':
+        this.mode = 'normal';
+        this.message = '';
+        this.breakUndoGroup();
+        if (this.col > 0) this.col--;
+        return;
+      case KEY.ENTER: this.putInsert('\n'); return;
+      case KEY.BACKSPACE: this.backspaceInsert(); return;
+      case KEY.DELETE: this.deleteInsert(); return;
+      case KEY.UP: this.moveUp(); return;
+      case KEY.DOWN: this.moveDown(); return;
+      case KEY.LEFT: this.moveLeft(false); return;
+      case KEY.RIGHT: this.moveRight(false); return;
+      case KEY.HOME: this.moveToLineStart(); return;
+      case KEY.END: this.moveToLineEnd(); return;
+      case KEY.TAB: this.putInsert('\t'); return;
+    }
+    if (isPrintable(key)) this.putInsert(key);
+  }
+
+  /** Insert-mode edits all belong to the undo step opened when insert mode was entered */
+  private putInsert(char: string): void {
+    if (char === '\n') {
+      const line = this.currentLine();
+      this.lines[this.row] = line.slice(0, this.col);
+      this.lines.splice(this.row + 1, 0, line.slice(this.col));
+      this.row++;
+      this.col = 0;
+    } else {
+      const line = this.currentLine();
+      this.lines[this.row] = line.slice(0, this.col) + char + line.slice(this.col);
+      this.col++;
+    }
+    this.modified = true;
+  }
+
+  private backspaceInsert(): void {
+    if (this.col > 0) {
+      const line = this.currentLine();
+      this.lines[this.row] = line.slice(0, this.col - 1) + line.slice(this.col);
+      this.col--;
+    } else if (this.row > 0) {
+      const prev = this.lines[this.row - 1];
+      this.lines[this.row - 1] = prev + this.currentLine();
+      this.lines.splice(this.row, 1);
+      this.row--;
+      this.col = prev.length;
+    }
+    this.modified = true;
+  }
+
+  private deleteInsert(): void {
+    const line = this.currentLine();
+    if (this.col < line.length) {
+      this.lines[this.row] = line.slice(0, this.col) + line.slice(this.col + 1);
+      this.modified = true;
+    }
+  }
+
+  private enterInsert(): void {
+    this.checkpoint('insert');
+    this.mode = 'insert';
+    this.message = '';
+  }
+
+  private handleNormalKey(key: string): void {
+    if (key === KEY.ESCAPE || key === '\x03') {
+      this.pending = '';
+      return;
+    }
+
+    // Count prefix (a leading 0 is the start-of-line motion)
+    if (/^[0-9]$/.test(key) && (key !== '0' || /^\d+$/.test(this.pending))) {
+      this.pending += key;
+      return;
+    }
+
+    const countMatch = this.pending.match(/^(\d*)(.*)$/)!;
+    const hasCount = countMatch[1] !== '';
+    const count = hasCount ? parseInt(countMatch[1], 10) : 1;
+    const op = countMatch[2] + key;
+    this.pending = '';
+    this.message = '';
+
+    switch (op) {
+      case 'h': case KEY.LEFT: case KEY.BACKSPACE:
+        for (let i = 0; i < count; i++) this.moveLeft(false);
+        break;
+      case 'l': case KEY.RIGHT: case ' ':
+        for (let i = 0; i < count; i++) this.moveRight(false);
+        break;
+      case 'j': case KEY.DOWN: case KEY.ENTER:
+        this.moveDown(count);
+        break;
+      case 'k': case KEY.UP:
+        this.moveUp(count);
+        break;
+      case '0': case KEY.HOME:
+        this.moveToLineStart();
+        break;
+      case '^':
+        this.col = this.currentLine().search(/\S|$/);
+        break;
+      case '$': case KEY.END:
+        this.moveToLineEnd();
+        break;
+      case 'w':
+        for (let i = 0; i < count; i++) this.wordForward();
+        break;
+      case 'b':
+        for (let i = 0; i < count; i++) this.wordBackward();
+        break;
+      case 'gg':
+        this.goToLine(hasCount ? count : 1);
+        break;
+      case 'G':
+        this.goToLine(hasCount ? count : this.lines.length);
+        break;
+      case KEY.PAGE_DOWN: case '\x06': // Ctrl+F
+        this.pageDown();
+        break;
+      case KEY.PAGE_UP: case '\x02': // Ctrl+B
+        this.pageUp();
+        break;
+      case 'x': case KEY.DELETE:
+        this.deleteChars(count);
+        break;
+      case 'dd':
+        this.register = { text: this.removeLines(count), linewise: true };
+        break;
+      case 'D': case 'd$':
+        this.deleteToEnd();
+        break;
+      case 'yy': case 'Y':
+        this.register = { text: this.lines.slice(this.row, this.row + count), linewise: true };
+        this.message = count > 1 ? `${count} lines yanked` : '';
+        break;
+      case 'p':
+        this.put(false);
+        break;
+      case 'P':
+        this.put(true);
+        break;
+      case 'u':
+        if (!this.undo()) this.message = 'Already at oldest change';
+        break;
+      case '\x12': // Ctrl+R
+        if (!this.redo()) this.message = 'Already at newest change';
+        break;
+      case 'i':
+        this.enterInsert();
+        break;
+      case 'a':
+        this.enterInsert();
+        if (this.currentLine().length > 0) this.col++;
+        break;
+      case 'I':
+        this.enterInsert();
+        this.col = this.currentLine().search(/\S|$/);
+        break;
+      case 'A':
+        this.enterInsert();
+        this.col = this.currentLine().length;
+        break;
+      case 'o':
+        this.enterInsert();
+        this.lines.splice(this.row + 1, 0, '');
+        this.row++;
+        this.col = 0;
+        this.modified = true;
+        break;
+      case 'O':
+        this.enterInsert();
+        this.lines.splice(this.row, 0, '');
+        this.col = 0;
+        this.modified = true;
+        break;
+      case ':':
+        this.openPrompt({ label: ':', value: '', onSubmit: (v) => this.runEx(v), onCancel: () => {} });
+        break;
+      case '/':
+      case '?':
+        this.openPrompt({
+          label: op,
+          value: '',
+          onSubmit: (v) => {
+            this.searchBackwards = op === '?';
+            this.findNext(v || this.lastSearch, this.searchBackwards);
+          },
+          onCancel: () => {},
+        });
+        break;
+      case 'n':
+        this.findNext(this.lastSearch, this.searchBackwards);
+        break;
+      case 'N':
+        this.findNext(this.lastSearch, !this.searchBackwards);
+        break;
+      case 'ZZ':
+        this.runEx('x');
+        break;
+      case 'ZQ':
+        this.runEx('q!');
+        break;
+      case 'd': case 'y': case 'g': case 'Z':
+        // Operator waiting for its second key
+        this.pending = countMatch[1] + op;
+        break;
+      default:
+        break;
+    }
+
+    this.clampNormalCol();
+  }
+
+  private clampNormalCol(): void {
+    if (this.mode !== 'normal') return;
+    const len = this.currentLine().length;
+    this.col = Math.max(0, Math.min(this.col, len - 1));
+  }
+
+  private wordForward(): void {
+    const line = this.currentLine();
+    const rest = line.slice(this.col);
+    const match = rest.match(/^\w+\s*|^[^\w\s]+\s*|^\s+/);
+    const next = this.col + (match ? match[0].length : rest.length);
+    if (next >= line.length && this.row < this.lines.length - 1) {
+      this.row++;
+      this.col = this.currentLine().search(/\S|$/);
+    } else {
+      this.col = next;
+    }
+  }
+
+  private wordBackward(): void {
+    if (this.col === 0 && this.row > 0) {
+      this.row--;
+      this.col = this.currentLine().length;
+    }
+    const before = this.currentLine().slice(0, this.col);
+    const match = before.match(/(\w+|[^\w\s]+)\s*$/);
+    this.col = match ? this.col - match[0].length : 0;
+  }
+
+  private deleteChars(count: number): void {
+    const line = this.currentLine();
+    if (line.length === 0) return;
+    this.checkpoint('cut');
+    const removed = line.slice(this.col, this.col + count);
+    this.lines[this.row] = line.slice(0, this.col) + line.slice(this.col + count);
+    this.register = { text: [removed], linewise: false };
+    this.modified = true;
+  }
+
+  private deleteToEnd(): void {
+    const line = this.currentLine();
+    this.checkpoint('cut');
+    this.register = { text: [line.slice(this.col)], linewise: false };
+    this.lines[this.row] = line.slice(0, this.col);
+    this.modified = true;
+  }
+
+  private put(before: boolean): void {
+    if (this.register.text.length === 0) return;
+
+    if (this.register.linewise) {
+      const index = before ? this.row : this.row + 1;
+      this.insertLines(index, this.register.text);
+      this.row = index;
+      this.col = 0;
+      return;
+    }
+
+    this.checkpoint('paste');
+    const line = this.currentLine();
+    const at = before || line.length === 0 ? this.col : this.col + 1;
+    const text = this.register.text[0];
+    this.lines[this.row] = line.slice(0, at) + text + line.slice(at);
+    this.col = at + text.length - 1;
+    this.modified = true;
+  }
+
+  private findNext(term: string, backwards: boolean): void {
+    if (!term) {
+      this.message = 'E35: No previous regular expression';
+      return;
+    }
+    if (!this.search(term, backwards)) {
+      this.message = `E486: Pattern not found: ${term}`;
+    }
+  }
+
+  private runEx(input: string): void {
+    const command = input.trim();
+    if (!command) return;
+
+    if (/^\d+$/.test(command)) {
+      this.goToLine(parseInt(command, 10));
+      return;
+    }
+
+    const match = command.match(/^(\w+)(!?)\s*(.*)$/);
+    if (!match) {
+      this.message = `E492: Not an editor command: ${command}`;
+      return;
+    }
+    const [, name, bang, arg] = match;
+
+    switch (name) {
+      case 'w':
+        this.write(arg);
+        return;
+      case 'q':
+        if (this.modified && !bang) {
+          this.message = 'E37: No write since last change (add ! to override)';
+          return;
+        }
+        this.close();
+        return;
+      case 'wq':
+      case 'x':
+        if ((name === 'wq' || this.modified) && !this.write(arg)) return;
+        this.close();
+        return;
+      default:
+        this.message = `E492: Not an editor command: ${command}`;
+    }
+  }
+
+  private write(target: string): boolean {
+    if (!target && !this.path) {
+      this.message = 'E32: No file name';
+      return false;
+    }
+    const wasNew = this.isNewFile || Boolean(target);
+    if (!this.save(target || undefined)) {
+      this.message = `"${target || this.displayName}" E212: Can't open file for writing`;
+      return false;
+    }
+    const bytes = this.getContent().length;
+    this.message = `"${this.displayName}" ${wasNew ? '[New] ' : ''}${this.lines.length}L, ${bytes}B written`;
+    return true;
+  }
+
+  protected renderChrome(): { output: string; promptCursor?: [number, number] } {
+    const statusRow = this.rows - 1;
+    let out = `\x1b[${statusRow + 1};1H\x1b[2K`;
+
+    if (this.prompt) {
+      const text = this.prompt.label + this.prompt.value;
+      out += text.slice(0, this.cols);
+      return { output: out, promptCursor: [statusRow, Math.min(text.length, this.cols - 1)] };
+    }
+
+    const status = this.mode === 'insert' ? '\x1b[1m-- INSERT --\x1b[0m' : this.message;
+    const ruler = `${this.row + 1},${this.col + 1}`;
+    out += status;
+    out += `\x1b[${statusRow + 1};${Math.max(1, this.cols - 18)}H${ruler}`;
+    return { output: out };
+  }
+}